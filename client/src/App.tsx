@@ -40,6 +40,8 @@ import AdminSurveyAnalytics from "./pages/AdminSurveyAnalytics";
 import AnonymousSurvey from "./pages/AnonymousSurvey";
 import BusinessContexts from "./pages/BusinessContexts";
 import SharedReport from "./pages/SharedReport";
+import AcceptInvitation from "./pages/AcceptInvitation";
+import PrivacyRequest from "./pages/PrivacyRequest";
 import Header from "./components/Header";
 import Footer from "./components/Footer";
 import ErrorBoundary from "./components/ErrorBoundary";
@@ -505,6 +507,13 @@ function RouterWithAnalytics() {
             <Footer />
           </Route>
           
+          {/* Data subject requests - Public, confirmed with the emailed token */}
+          <Route path="/privacy/requests">
+            <Header />
+            <PrivacyRequest />
+            <Footer />
+          </Route>
+          
           <Route path="/privacy">
             <Header />
             <PrivacyPolicy />
@@ -622,6 +631,13 @@ function RouterWithAnalytics() {
               <SharedReport />
             )}
           </Route>
+
+          {/* Team Invitation Route - Public access with the emailed token */}
+          <Route path="/accept-invitation">
+            <Header />
+            <AcceptInvitation />
+            <Footer />
+          </Route>
           
           <Route path="/social/:platform">
             {(params) => (
@@ -1,49 +1,87 @@
 import React from 'react';
+import { PersonalityTrait } from '@shared/schema';
+import { TraitModel } from '@shared/traitModel';
+
+interface PersonalityRadarChartProps {
+  traits: PersonalityTrait[];
+  // When given, one axis is drawn per model trait in model order
+  model?: TraitModel;
+}
+
+const SIZE = 600;
+const CENTER = SIZE / 2;
+const RADIUS = 200;
+const RINGS = [0.25, 0.5, 0.75, 1];
+const AXIS_COLORS = ['#4F46E5', '#FB7185', '#4ADE80', '#F59E0B', '#8B5CF6', '#06B6D4', '#EC4899', '#84CC16'];
+
+const pointAt = (index: number, count: number, fraction: number) => {
+  const angle = (Math.PI * 2 * index) / count - Math.PI / 2;
+  return {
+    x: CENTER + Math.cos(angle) * RADIUS * fraction,
+    y: CENTER + Math.sin(angle) * RADIUS * fraction
+  };
+};
 
 // SVG Radar Chart component for personality visualization
-const PersonalityRadarChart = () => {
+const PersonalityRadarChart = ({ traits, model }: PersonalityRadarChartProps) => {
+  const axes = model
+    ? model.map(definition => ({
+        name: definition.name,
+        score: traits.find(t => t.name === definition.name)?.score ?? 0
+      }))
+    : traits.map(t => ({ name: t.name, score: t.score }));
+
+  if (axes.length === 0) return null;
+
+  const count = axes.length;
+  const shape = axes
+    .map((axis, index) => {
+      const { x, y } = pointAt(index, count, Math.max(0, Math.min(100, axis.score)) / 100);
+      return `${x},${y}`;
+    })
+    .join(' ');
+
   return (
-    <svg width="100%" height="100%" viewBox="0 0 800 600" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <rect width="800" height="600" fill="white"/>
-      <circle cx="400" cy="300" r="240" fill="#F3F9FF" stroke="#E5E7EB" strokeWidth="2"/>
-      <circle cx="400" cy="300" r="180" fill="#F9FAFB" stroke="#E5E7EB" strokeWidth="2"/>
-      <circle cx="400" cy="300" r="120" fill="white" stroke="#E5E7EB" strokeWidth="2"/>
-      <circle cx="400" cy="300" r="60" fill="#4F46E5" opacity="0.1"/>
-      <path d="M400 300L400 60" stroke="#E5E7EB" strokeWidth="2"/>
-      <path d="M400 300L635 300" stroke="#E5E7EB" strokeWidth="2"/>
-      <path d="M400 300L517.5 517.5" stroke="#E5E7EB" strokeWidth="2"/>
-      <path d="M400 300L282.5 517.5" stroke="#E5E7EB" strokeWidth="2"/>
-      <path d="M400 300L165 300" stroke="#E5E7EB" strokeWidth="2"/>
-      
-      {/* Introversion - Extraversion */}
-      <circle cx="400" cy="120" r="8" fill="#4F46E5"/>
-      <path d="M400 300L400 120" stroke="#4F46E5" strokeWidth="3"/>
-      <text x="420" y="110" fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold">Extraversion</text>
-      
-      {/* Intuition - Sensing */}
-      <circle cx="540" cy="300" r="8" fill="#FB7185"/>
-      <path d="M400 300L540 300" stroke="#FB7185" strokeWidth="3"/>
-      <text x="550" y="300" fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold">Intuition</text>
-      
-      {/* Thinking - Feeling */}
-      <circle cx="470" cy="430" r="8" fill="#4ADE80"/>
-      <path d="M400 300L470 430" stroke="#4ADE80" strokeWidth="3"/>
-      <text x="480" y="440" fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold">Thinking</text>
-      
-      {/* Judging - Perceiving */}
-      <circle cx="330" cy="430" r="8" fill="#F59E0B"/>
-      <path d="M400 300L330 430" stroke="#F59E0B" strokeWidth="3"/>
-      <text x="290" y="450" fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold">Judging</text>
-      
-      {/* Openness */}
-      <circle cx="260" cy="300" r="8" fill="#8B5CF6"/>
-      <path d="M400 300L260 300" stroke="#8B5CF6" strokeWidth="3"/>
-      <text x="200" y="300" fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold">Openness</text>
-      
-      <text x="390" y="280" fontFamily="Arial" fontSize="18" fill="#111827" fontWeight="bold" textAnchor="middle">ENTJ</text>
-      <text x="390" y="310" fontFamily="Arial" fontSize="12" fill="#4B5563" textAnchor="middle">The Commander</text>
+    <svg width="100%" height="100%" viewBox={`0 0 ${SIZE} ${SIZE}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+      <rect width={SIZE} height={SIZE} fill="white"/>
+
+      {RINGS.map(fraction => (
+        <polygon
+          key={fraction}
+          points={axes.map((_, index) => {
+            const { x, y } = pointAt(index, count, fraction);
+            return `${x},${y}`;
+          }).join(' ')}
+          fill={fraction === 1 ? '#F3F9FF' : 'none'}
+          stroke="#E5E7EB"
+          strokeWidth="2"
+        />
+      ))}
+
+      {axes.map((axis, index) => {
+        const end = pointAt(index, count, 1);
+        const point = pointAt(index, count, Math.max(0, Math.min(100, axis.score)) / 100);
+        const label = pointAt(index, count, 1.18);
+        const color = AXIS_COLORS[index % AXIS_COLORS.length];
+        const anchor = Math.abs(label.x - CENTER) < 10 ? 'middle' : label.x > CENTER ? 'start' : 'end';
+
+        return (
+          <g key={axis.name}>
+            <path d={`M${CENTER} ${CENTER}L${end.x} ${end.y}`} stroke="#E5E7EB" strokeWidth="2"/>
+            <circle cx={point.x} cy={point.y} r="7" fill={color}/>
+            <text x={label.x} y={label.y} fontFamily="Arial" fontSize="14" fill="#111827" fontWeight="bold" textAnchor={anchor}>
+              {axis.name}
+            </text>
+            <text x={label.x} y={label.y + 16} fontFamily="Arial" fontSize="12" fill="#4B5563" textAnchor={anchor}>
+              {axis.score}%
+            </text>
+          </g>
+        );
+      })}
+
+      <polygon points={shape} fill="#4F46E5" fillOpacity="0.15" stroke="#4F46E5" strokeWidth="3"/>
     </svg>
   );
 };
 
-export default PersonalityRadarChart;
\ No newline at end of file
+export default PersonalityRadarChart;
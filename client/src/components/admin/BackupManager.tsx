@@ -20,6 +20,16 @@ import {
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "@/hooks/use-toast";
 import {
   AlertTriangle,
@@ -55,6 +65,27 @@ interface BackupItem {
   updated_at?: string;
   updatedAt?: string;
   includeResponses?: boolean;
+  downloadUrl?: string;
+  error?: string | null;
+}
+
+interface RestorePreview {
+  backupId: number;
+  dryRun: boolean;
+  tables: Array<{ table: string; currentRows: number; backupRows: number }>;
+  clearedTables: Array<{ table: string; currentRows: number; backupRows: number }>;
+  skippedTables: string[];
+  warnings: string[];
+  reappliedErasures: number;
+}
+
+interface BackupSettingsData {
+  dailyBackups: boolean;
+  weeklyBackups: boolean;
+  monthlyBackups: boolean;
+  includeResponses: boolean;
+  retentionDays: number;
+  directory?: string;
 }
 
 // Interface for display format
@@ -76,13 +107,45 @@ const BackupManager = () => {
   const [isRestoring, setIsRestoring] = useState(false);
   const [backupProgress, setBackupProgress] = useState(0);
   const [backupName, setBackupName] = useState('');
-  const [selectedBackupType, setSelectedBackupType] = useState<string>('full');
+  const [includeResponses, setIncludeResponses] = useState(true);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<BackupItem | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [dataLossConfirmed, setDataLossConfirmed] = useState(false);
   const [retentionPeriod, setRetentionPeriod] = useState('90');
-  const [storageLocation, setStorageLocation] = useState('local');
+  const [backupDirectory, setBackupDirectory] = useState('');
   const [dailyBackups, setDailyBackups] = useState(true);
   const [weeklyBackups, setWeeklyBackups] = useState(true);
   const [monthlyBackups, setMonthlyBackups] = useState(true);
+  const [autoIncludeResponses, setAutoIncludeResponses] = useState(true);
+  const [savedSettings, setSavedSettings] = useState<BackupSettingsData | null>(null);
+
+  const applySettings = (settings: BackupSettingsData) => {
+    setDailyBackups(settings.dailyBackups);
+    setWeeklyBackups(settings.weeklyBackups);
+    setMonthlyBackups(settings.monthlyBackups);
+    setAutoIncludeResponses(settings.includeResponses);
+    setRetentionPeriod(String(settings.retentionDays));
+    setBackupDirectory(settings.directory || '');
+  };
+
+  // Fetch the automatic backup schedule
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/system/backups/settings');
+        const data = await response.json();
+        if (response.ok && data.status === 'success') {
+          setSavedSettings(data.data);
+          applySettings(data.data);
+        }
+      } catch (error) {
+        console.error('Error fetching backup settings:', error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
   
   // Fetch backups from API
   useEffect(() => {
@@ -130,7 +193,9 @@ const BackupManager = () => {
               user_id: backup.user_id || backup.userId || 0,
               created_at: backup.created_at || backup.createdAt || '',
               updated_at: backup.updated_at || backup.updatedAt || '',
-              includeResponses: backup.includeResponses || false
+              includeResponses: backup.includeResponses || false,
+              downloadUrl: backup.downloadUrl,
+              error: backup.error
             };
           });
           
@@ -187,16 +252,15 @@ const BackupManager = () => {
         },
         body: JSON.stringify({ 
           name: backupName,
-          type: selectedBackupType === 'data' ? 'data' : selectedBackupType === 'config' ? 'config' : 'full'
+          includeResponses
         }),
       });
       
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error(`Failed to create backup: ${response.status}`);
+        throw new Error(data.message || `Failed to create backup: ${response.status}`);
       }
       
-      const data = await response.json();
-      
       if (data.status === 'success') {
         // Format date for display from created_at
         const backupData = data.data;
@@ -238,42 +302,61 @@ const BackupManager = () => {
     }
   };
   
-  const restoreBackup = async (backup: BackupItem) => {
+  // Rehearse the restore on the server and show what would change
+  const previewRestore = async (backup: BackupItem) => {
     try {
       setIsRestoring(true);
       
-      // Make API call to restore the backup
       const response = await fetch(`/api/system/backups/${backup.id}/restore`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-        }
+        },
+        body: JSON.stringify({ dryRun: true })
       });
       
-      if (!response.ok) {
-        throw new Error(`Failed to restore backup: ${response.status}`);
+      const data = await response.json();
+      if (!response.ok || data.status !== 'success') {
+        throw new Error(data.message || `Failed to preview restore: ${response.status}`);
       }
       
-      const data = await response.json();
+      setRestoreTarget(backup);
+      setRestorePreview(data.data);
+      setDataLossConfirmed(false);
+    } catch (error) {
+      console.error('Error previewing restore:', error);
+      toast({
+        title: "Restore preview failed",
+        description: error instanceof Error ? error.message : "Failed to preview restore",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+  
+  const restoreBackup = async (backup: BackupItem) => {
+    try {
+      setIsRestoring(true);
       
-      if (data.status === 'success') {
-        // Update the status of the backup in the local state
-        const updatedBackups = backups.map(b => {
-          if (b.id === backup.id) {
-            return { ...b, status: 'completed' };
-          }
-          return b;
-        });
-        
-        setBackups(updatedBackups);
-        
-        toast({
-          title: "Backup restored",
-          description: data.message || `System has been restored from backup "${backup.name}".`,
-        });
-      } else {
-        throw new Error(data.message || 'Failed to restore backup');
+      // Make API call to restore the backup
+      const response = await fetch(`/api/system/backups/${backup.id}/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dryRun: false, confirmDataLoss: dataLossConfirmed })
+      });
+      
+      const data = await response.json();
+      if (!response.ok || data.status !== 'success') {
+        throw new Error(data.message || `Failed to restore backup: ${response.status}`);
       }
+      
+      toast({
+        title: "Backup restored",
+        description: data.message || `System has been restored from backup "${backup.name}".`,
+      });
     } catch (error) {
       console.error('Error restoring backup:', error);
       toast({
@@ -283,6 +366,8 @@ const BackupManager = () => {
       });
     } finally {
       setIsRestoring(false);
+      setRestoreTarget(null);
+      setRestorePreview(null);
     }
   };
   
@@ -296,12 +381,11 @@ const BackupManager = () => {
         }
       });
       
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error(`Failed to delete backup: ${response.status}`);
+        throw new Error(data.message || `Failed to delete backup: ${response.status}`);
       }
       
-      const data = await response.json();
-      
       if (data.status === 'success') {
         // Remove from local state
         setBackups(backups.filter(backup => backup.id !== id));
@@ -323,26 +407,45 @@ const BackupManager = () => {
     }
   };
   
-  const saveBackupSettings = () => {
-    // Create settings object to save
-    const settings = {
-      dailyBackups,
-      weeklyBackups,
-      monthlyBackups,
-      retentionPeriod,
-      storageLocation
-    };
-    
-    // In a real app, this would make an API call to save settings
-    console.log('Saving backup settings:', settings);
-    
-    toast({
-      title: "Settings saved",
-      description: "Backup settings have been updated successfully.",
-    });
+  const saveBackupSettings = async () => {
+    try {
+      const response = await fetch('/api/system/backups/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          dailyBackups,
+          weeklyBackups,
+          monthlyBackups,
+          includeResponses: autoIncludeResponses,
+          retentionDays: parseInt(retentionPeriod)
+        })
+      });
+      
+      const data = await response.json();
+      if (!response.ok || data.status !== 'success') {
+        throw new Error(data.message || 'Failed to save backup settings');
+      }
+      
+      setSavedSettings(data.data);
+      applySettings(data.data);
+      toast({
+        title: "Settings saved",
+        description: "Backup settings have been updated successfully.",
+      });
+    } catch (error) {
+      console.error('Error saving backup settings:', error);
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save backup settings",
+        variant: "destructive",
+      });
+    }
   };
   
-  const handleUploadAndRestore = () => {
+  // Upload an archive, then preview restoring it like any other backup
+  const handleUploadAndRestore = async () => {
     if (!uploadFile) {
       toast({
         title: "No file selected",
@@ -352,11 +455,24 @@ const BackupManager = () => {
       return;
     }
     
-    setIsRestoring(true);
-    
-    // Simulate restore process
-    setTimeout(() => {
-      setIsRestoring(false);
+    try {
+      setIsRestoring(true);
+      
+      const response = await fetch(`/api/system/backups/upload?fileName=${encodeURIComponent(uploadFile.name)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/gzip'
+        },
+        body: uploadFile
+      });
+      
+      const data = await response.json();
+      if (!response.ok || data.status !== 'success') {
+        throw new Error(data.message || 'Failed to upload backup');
+      }
+      
+      const uploaded: BackupItem = { ...data.data };
+      setBackups(prev => [uploaded, ...prev]);
       setUploadFile(null);
       
       // Reset file input
@@ -365,11 +481,17 @@ const BackupManager = () => {
         fileInput.value = '';
       }
       
+      setIsRestoring(false);
+      await previewRestore(uploaded);
+    } catch (error) {
+      console.error('Error uploading backup:', error);
       toast({
-        title: "Backup restored",
-        description: `System has been restored from file "${uploadFile.name}".`,
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload backup",
+        variant: "destructive",
       });
-    }, 3000);
+      setIsRestoring(false);
+    }
   };
   
   return (
@@ -402,22 +524,17 @@ const BackupManager = () => {
                 />
               </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="backup-type">Backup Type</Label>
-                <Select 
-                  value={selectedBackupType} 
-                  onValueChange={setSelectedBackupType}
+              <div className="flex items-center justify-between space-x-2 md:pt-6">
+                <div className="space-y-0.5">
+                  <Label htmlFor="include-responses">Include Survey Responses</Label>
+                  <p className="text-xs text-muted-foreground">Leave off for a smaller backup without response data</p>
+                </div>
+                <Switch 
+                  id="include-responses"
+                  checked={includeResponses}
+                  onCheckedChange={setIncludeResponses}
                   disabled={isCreatingBackup}
-                >
-                  <SelectTrigger id="backup-type">
-                    <SelectValue placeholder="Select backup type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="full">Full System Backup</SelectItem>
-                    <SelectItem value="data">Database Only</SelectItem>
-                    <SelectItem value="config">Configuration Only</SelectItem>
-                  </SelectContent>
-                </Select>
+                />
               </div>
               
               <div className="flex items-end">
@@ -506,7 +623,7 @@ const BackupManager = () => {
                         <Button 
                           variant="outline" 
                           size="sm"  
-                          onClick={() => restoreBackup(backup)}
+                          onClick={() => previewRestore(backup)}
                           disabled={isRestoring || backup.status !== 'completed'}
                         >
                           {isRestoring ? (
@@ -519,7 +636,8 @@ const BackupManager = () => {
                         <Button 
                           variant="outline" 
                           size="sm"
-                          disabled={isRestoring}
+                          disabled={isRestoring || backup.status !== 'completed'}
+                          onClick={() => { window.location.href = backup.downloadUrl || `/api/system/backups/${backup.id}/download`; }}
                         >
                           <Download className="h-3.5 w-3.5" />
                           <span className="sr-only">Download</span>
@@ -553,12 +671,12 @@ const BackupManager = () => {
                   <Input 
                     id="file-upload" 
                     type="file" 
-                    accept=".json,.zip,.bak"
+                    accept=".gz,application/gzip"
                     disabled={isRestoring}
                     onChange={(e) => setUploadFile(e.target.files ? e.target.files[0] : null)}
                   />
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">Accepts .json, .zip, or .bak backup files</p>
+                <p className="text-xs text-muted-foreground mt-1">Accepts .json.gz archives downloaded from this page. You will see a preview before anything is restored.</p>
               </div>
               
               <div className="flex items-end">
@@ -649,21 +767,24 @@ const BackupManager = () => {
                   <p className="text-xs text-muted-foreground">Automatic backups older than this will be deleted</p>
                 </div>
                 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="auto-include-responses">Include Survey Responses</Label>
+                    <p className="text-xs text-muted-foreground">Capture response data in automatic backups</p>
+                  </div>
+                  <Switch 
+                    id="auto-include-responses" 
+                    checked={autoIncludeResponses}
+                    onCheckedChange={setAutoIncludeResponses}
+                  />
+                </div>
+                
                 <div className="space-y-2">
-                  <Label htmlFor="backup-storage">Backup Storage Location</Label>
-                  <Select 
-                    value={storageLocation}
-                    onValueChange={setStorageLocation}
-                  >
-                    <SelectTrigger id="backup-storage">
-                      <SelectValue placeholder="Select storage location" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="local">Local Storage</SelectItem>
-                      <SelectItem value="cloud">Cloud Storage</SelectItem>
-                      <SelectItem value="both">Both (Local & Cloud)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label>Backup Directory</Label>
+                  <div className="p-2 text-sm border rounded bg-muted/50 font-mono break-all">
+                    {backupDirectory || 'Not loaded'}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Set with the BACKUP_DIR environment variable</p>
                 </div>
               </div>
             </div>
@@ -671,11 +792,7 @@ const BackupManager = () => {
         </CardContent>
         <CardFooter className="flex justify-end space-x-4 bg-muted/50 border-t">
           <Button variant="outline" onClick={() => {
-            setDailyBackups(true);
-            setWeeklyBackups(true);
-            setMonthlyBackups(true);
-            setRetentionPeriod("90");
-            setStorageLocation("local");
+            if (savedSettings) applySettings(savedSettings);
           }}>
             Cancel Changes
           </Button>
@@ -685,6 +802,102 @@ const BackupManager = () => {
           </Button>
         </CardFooter>
       </Card>
+      
+      {/* Restore confirmation with the dry-run preview */}
+      <AlertDialog
+        open={!!restoreTarget && !!restorePreview}
+        onOpenChange={(open) => {
+          if (!open && !isRestoring) {
+            setRestoreTarget(null);
+            setRestorePreview(null);
+          }
+        }}
+      >
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore "{restoreTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A dry run succeeded. Restoring replaces the contents of every table below with the rows in the backup.
+              {restoreTarget && !restoreTarget.includeResponses && ' This backup does not contain survey responses.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 sticky top-0">
+                <tr>
+                  <th className="py-2 px-3 text-left font-medium">Table</th>
+                  <th className="py-2 px-3 text-right font-medium">Current rows</th>
+                  <th className="py-2 px-3 text-right font-medium">Rows after restore</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {restorePreview && [...restorePreview.tables, ...restorePreview.clearedTables].map((table) => (
+                  <tr key={table.table}>
+                    <td className="py-2 px-3 font-mono">{table.table}</td>
+                    <td className="py-2 px-3 text-right">{table.currentRows}</td>
+                    <td className={`py-2 px-3 text-right ${table.backupRows < table.currentRows ? 'text-red-600 font-medium' : ''}`}>
+                      {table.backupRows}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          
+          {restorePreview && restorePreview.warnings.length > 0 && (
+            <div className="text-sm text-amber-700 space-y-1">
+              {restorePreview.warnings.map((warning) => (
+                <p key={warning}>{warning}</p>
+              ))}
+              <div className="flex items-center gap-2 pt-2">
+                <Switch
+                  id="confirm-data-loss"
+                  checked={dataLossConfirmed}
+                  onCheckedChange={setDataLossConfirmed}
+                  disabled={isRestoring}
+                />
+                <Label htmlFor="confirm-data-loss">I understand these rows will be deleted</Label>
+              </div>
+            </div>
+          )}
+
+          {restorePreview && restorePreview.skippedTables.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Skipped (no longer in the database): {restorePreview.skippedTables.join(', ')}
+            </p>
+          )}
+
+          {restorePreview && restorePreview.reappliedErasures > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {restorePreview.reappliedErasures} completed privacy erasure(s) will be applied again to the restored data.
+            </p>
+          )}
+          
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isRestoring || (!!restorePreview && restorePreview.warnings.length > 0 && !dataLossConfirmed)}
+              onClick={(e) => {
+                e.preventDefault();
+                if (restoreTarget) restoreBackup(restoreTarget);
+              }}
+            >
+              {isRestoring ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Restoring...
+                </>
+              ) : (
+                <>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore Backup
+                </>
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
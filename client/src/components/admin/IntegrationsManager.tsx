@@ -1,17 +1,18 @@
 import { useState } from "react";
-import { 
-  Card, 
-  CardContent, 
-  CardDescription, 
-  CardHeader, 
-  CardTitle,
-  CardFooter
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
@@ -19,9 +20,7 @@ import {
   DialogDescription,
   DialogFooter,
   DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-  DialogClose
+  DialogTitle
 } from "@/components/ui/dialog";
 import {
   Select,
@@ -31,13 +30,16 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
-import { 
-  AlertCircle, 
-  Check, 
-  Loader2, 
-  MoreVertical, 
-  Plus, 
-  RefreshCcw, 
+import { apiRequest } from "@/lib/queryClient";
+import {
+  AlertCircle,
+  Check,
+  Loader2,
+  MoreVertical,
+  PauseCircle,
+  Plug,
+  Plus,
+  RefreshCcw,
   Settings,
   Trash2
 } from "lucide-react";
@@ -45,220 +47,353 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  INTEGRATION_CATEGORIES,
+  IntegrationCategory,
+  IntegrationCredentialField,
+  IntegrationProvider,
+  IntegrationSummary,
+  SYNC_INTERVAL_OPTIONS
+} from "@shared/integrations";
 
-// Types for integrations
-interface Integration {
-  id: string;
-  name: string;
-  type: string;
-  category: string;
-  status: 'connected' | 'disconnected' | 'error';
-  lastSync?: string;
-  apiKey?: string;
-  config?: Record<string, any>;
-}
+const INTEGRATIONS_KEY = ["/api/integrations"];
 
-// Integration categories with their descriptions
-const INTEGRATION_CATEGORIES = {
-  crm: {
-    title: "CRM Systems",
-    description: "Connect with your customer relationship management platforms"
-  },
-  analytics: {
-    title: "Analytics Tools",
-    description: "Integrate with analytics and data processing platforms"
-  },
-  marketing: {
-    title: "Marketing Platforms",
-    description: "Connect with email and marketing automation services"
-  },
-  communication: {
-    title: "Communication Tools",
-    description: "Integrate messaging and notification services"
-  }
+const CREDENTIAL_LABELS: Record<IntegrationCredentialField, string> = {
+  apiKey: "API Key or Token",
+  apiSecret: "API Secret",
+  accessToken: "Access Token",
+  refreshToken: "Refresh Token"
 };
 
-// Available integrations by category
-const AVAILABLE_INTEGRATIONS = {
-  crm: [
-    { id: "salesforce", name: "Salesforce", logo: "salesforce.svg" },
-    { id: "hubspot", name: "HubSpot", logo: "hubspot.svg" },
-    { id: "zoho", name: "Zoho CRM", logo: "zoho.svg" }
-  ],
-  analytics: [
-    { id: "google_analytics", name: "Google Analytics", logo: "google_analytics.svg" },
-    { id: "mixpanel", name: "Mixpanel", logo: "mixpanel.svg" },
-    { id: "amplitude", name: "Amplitude", logo: "amplitude.svg" }
-  ],
-  marketing: [
-    { id: "mailchimp", name: "Mailchimp", logo: "mailchimp.svg" },
-    { id: "sendgrid", name: "SendGrid", logo: "sendgrid.svg" },
-    { id: "klaviyo", name: "Klaviyo", logo: "klaviyo.svg" }
-  ],
-  communication: [
-    { id: "slack", name: "Slack", logo: "slack.svg" },
-    { id: "twilio", name: "Twilio", logo: "twilio.svg" },
-    { id: "discord", name: "Discord", logo: "discord.svg" }
-  ]
+const syncIntervalLabel = (minutes: number) => {
+  if (minutes === 0) return "Only when synced manually";
+  if (minutes < 60) return `Every ${minutes} minutes`;
+  if (minutes === 60) return "Every hour";
+  if (minutes < 1440) return `Every ${minutes / 60} hours`;
+  return "Every day";
 };
 
-// Sample initial integrations
-const initialIntegrations: Integration[] = [
-  {
-    id: "slack-1",
-    name: "Slack",
-    type: "slack",
-    category: "communication",
-    status: "connected",
-    lastSync: "2025-04-23T15:30:00Z",
-    config: {
-      webhook: "https://hooks.slack.com/services/XX/YY/ZZ",
-      channel: "#surveys-notifications"
-    }
-  },
-  {
-    id: "google-analytics-1",
-    name: "Google Analytics",
-    type: "google_analytics",
-    category: "analytics",
-    status: "connected",
-    lastSync: "2025-04-23T12:45:00Z",
-    config: {
-      trackingId: "UA-12345678-1",
-      dataStream: "Web App"
-    }
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== "success") {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join(". "));
   }
-];
+  return json.data as T;
+}
+
+// Form state shared by the add and configure dialogs
+interface IntegrationForm {
+  name: string;
+  credentials: Partial<Record<IntegrationCredentialField, string>>;
+  config: Record<string, string | number | boolean | null>;
+  enabled: boolean;
+}
+
+const emptyForm = (): IntegrationForm => ({ name: "", credentials: {}, config: { syncIntervalMinutes: 0 }, enabled: true });
+
+/**
+ * Provider settings, credentials and sync schedule fields for the add and
+ * configure dialogs. Saved credentials are never sent back, so their inputs
+ * start empty and are only changed when something is typed.
+ */
+function IntegrationFormFields({
+  provider,
+  form,
+  onChange,
+  savedCredentials
+}: {
+  provider: IntegrationProvider;
+  form: IntegrationForm;
+  onChange: (form: IntegrationForm) => void;
+  savedCredentials?: IntegrationSummary["credentials"];
+}) {
+  const setConfig = (key: string, value: string | number | boolean | null) =>
+    onChange({ ...form, config: { ...form.config, [key]: value } });
+
+  return (
+    <>
+      {provider.credentials.map((field) => (
+        <div key={field} className="grid grid-cols-1 gap-2">
+          <Label htmlFor={`credential-${field}`}>{CREDENTIAL_LABELS[field]}</Label>
+          <Input
+            id={`credential-${field}`}
+            type="password"
+            autoComplete="off"
+            value={form.credentials[field] ?? ""}
+            onChange={(e) => onChange({ ...form, credentials: { ...form.credentials, [field]: e.target.value } })}
+            placeholder={savedCredentials?.[field] ? "Saved. Leave blank to keep it" : "Enter your API key"}
+          />
+        </div>
+      ))}
+
+      {provider.config.map((field) => (
+        <div key={field.key} className="grid grid-cols-1 gap-2">
+          <Label htmlFor={`config-${field.key}`}>
+            {field.label}{field.required ? " *" : ""}
+          </Label>
+          {field.type === "select" ? (
+            <Select
+              value={form.config[field.key] ? String(form.config[field.key]) : ""}
+              onValueChange={(value) => setConfig(field.key, value)}
+            >
+              <SelectTrigger id={`config-${field.key}`}>
+                <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options?.map((option) => (
+                  <SelectItem key={option} value={option}>{option.toUpperCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`config-${field.key}`}
+              value={form.config[field.key] ? String(form.config[field.key]) : ""}
+              onChange={(e) => setConfig(field.key, e.target.value)}
+              placeholder={field.placeholder}
+            />
+          )}
+        </div>
+      ))}
+
+      {provider.available && (
+        <>
+          <div className="grid grid-cols-1 gap-2">
+            <Label htmlFor="syncInterval">Automatic sync</Label>
+            <Select
+              value={String(form.config.syncIntervalMinutes ?? 0)}
+              onValueChange={(value) => setConfig("syncIntervalMinutes", Number(value))}
+            >
+              <SelectTrigger id="syncInterval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SYNC_INTERVAL_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{syncIntervalLabel(minutes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {provider.capabilities.pushResponses && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="pushResponses"
+                checked={form.config.pushResponses !== false}
+                onCheckedChange={(checked) => setConfig("pushResponses", checked)}
+              />
+              <Label htmlFor="pushResponses">Send new survey responses</Label>
+            </div>
+          )}
+
+          {provider.capabilities.pullContacts && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="pullContacts"
+                checked={form.config.pullContacts !== false}
+                onCheckedChange={(checked) => setConfig("pullContacts", checked)}
+              />
+              <Label htmlFor="pullContacts">Import contacts</Label>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
 
 const IntegrationsManager = () => {
+  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("all");
-  const [integrations, setIntegrations] = useState<Integration[]>(initialIntegrations);
   const [showAddIntegration, setShowAddIntegration] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>("");
-  const [selectedIntegrationType, setSelectedIntegrationType] = useState<string>("");
-  const [integrationName, setIntegrationName] = useState<string>("");
-  const [apiKey, setApiKey] = useState<string>("");
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [selectedIntegration, setSelectedIntegration] = useState<Integration | null>(null);
-  const [showConfigDialog, setShowConfigDialog] = useState(false);
+  const [selectedProviderId, setSelectedProviderId] = useState<string>("");
+  const [addForm, setAddForm] = useState<IntegrationForm>(emptyForm);
+  const [selectedIntegration, setSelectedIntegration] = useState<IntegrationSummary | null>(null);
+  const [configForm, setConfigForm] = useState<IntegrationForm>(emptyForm);
+
+  const { data: providers = [] } = useQuery<IntegrationProvider[]>({
+    queryKey: ["/api/integrations/providers"],
+    queryFn: async () => readData(await apiRequest("GET", "/api/integrations/providers"), "Failed to load providers")
+  });
+
+  const { data: integrations = [], isLoading } = useQuery<IntegrationSummary[]>({
+    queryKey: INTEGRATIONS_KEY,
+    queryFn: async () => readData(await apiRequest("GET", "/api/integrations"), "Failed to load integrations"),
+    refetchInterval: 60000
+  });
+
+  const providerFor = (id: string) => providers.find((provider) => provider.id === id);
+  const selectedProvider = providerFor(selectedProviderId);
+  const configProvider = selectedIntegration ? providerFor(selectedIntegration.provider) : undefined;
 
   // Filter integrations based on active tab
-  const filteredIntegrations = activeTab === "all" 
-    ? integrations 
+  const filteredIntegrations = activeTab === "all"
+    ? integrations
     : integrations.filter(integration => integration.category === activeTab);
 
-  // Handle adding a new integration
-  const handleAddIntegration = () => {
-    if (!selectedCategory || !selectedIntegrationType || !integrationName) {
+  const refresh = () => queryClient.invalidateQueries({ queryKey: INTEGRATIONS_KEY });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const closeAddDialog = () => {
+    setShowAddIntegration(false);
+    setSelectedCategory("");
+    setSelectedProviderId("");
+    setAddForm(emptyForm());
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      readData<IntegrationSummary>(
+        await apiRequest("POST", "/api/integrations", {
+          provider: selectedProviderId,
+          name: addForm.name,
+          credentials: addForm.credentials,
+          config: addForm.config
+        }),
+        "Failed to add integration"
+      ),
+    onSuccess: (integration) => {
+      refresh();
+      closeAddDialog();
       toast({
-        title: "Missing Information",
-        description: "Please fill in all required fields",
-        variant: "destructive"
+        title: "Integration Added",
+        description: providerFor(integration.provider)?.available
+          ? `${integration.name} has been saved. Test the connection to start syncing.`
+          : `${integration.name} has been saved. Syncing will be available once the connector ships.`
       });
-      return;
-    }
+    },
+    onError: showError("Could not add integration")
+  });
 
-    setIsConnecting(true);
-
-    // Simulate API connection
-    setTimeout(() => {
-      const newIntegration: Integration = {
-        id: `${selectedIntegrationType}-${Date.now()}`,
-        name: integrationName,
-        type: selectedIntegrationType,
-        category: selectedCategory,
-        status: "connected",
-        lastSync: new Date().toISOString(),
-        apiKey: apiKey,
-        config: {} // Default empty config
-      };
-
-      setIntegrations([...integrations, newIntegration]);
-      setShowAddIntegration(false);
-      setIsConnecting(false);
-      setSelectedCategory("");
-      setSelectedIntegrationType("");
-      setIntegrationName("");
-      setApiKey("");
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedIntegration) throw new Error("No integration selected");
+      // Only send credentials that were typed in, so saved ones are kept
+      const credentials = Object.fromEntries(
+        Object.entries(configForm.credentials).filter(([, value]) => value)
+      );
+      return readData<IntegrationSummary>(
+        await apiRequest("PUT", `/api/integrations/${selectedIntegration.id}`, {
+          name: configForm.name,
+          credentials,
+          config: configForm.config,
+          enabled: configForm.enabled
+        }),
+        "Failed to save integration"
+      );
+    },
+    onSuccess: () => {
+      refresh();
+      setSelectedIntegration(null);
+      toast({
+        title: "Configuration Saved",
+        description: "Integration settings have been updated"
+      });
+    },
+    onError: showError("Could not save configuration")
+  });
 
+  const testMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData<{ ok: boolean; message: string; integration: IntegrationSummary }>(
+        await apiRequest("POST", `/api/integrations/${id}/test`),
+        "Failed to test connection"
+      ),
+    onSuccess: (result) => {
+      refresh();
       toast({
-        title: "Integration Added",
-        description: `${integrationName} has been successfully connected`,
+        title: result.ok ? "Connection Succeeded" : "Connection Failed",
+        description: result.message,
+        variant: result.ok ? "default" : "destructive"
       });
-    }, 1500);
-  };
+    },
+    onError: showError("Could not test connection")
+  });
 
-  // Handle removing an integration
-  const handleRemoveIntegration = (id: string) => {
-    setIntegrations(integrations.filter(integration => integration.id !== id));
-    toast({
-      title: "Integration Removed",
-      description: "The integration has been successfully removed"
-    });
-  };
+  const syncMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData<IntegrationSummary>(await apiRequest("POST", `/api/integrations/${id}/sync`), "Failed to sync integration"),
+    onSuccess: (integration) => {
+      refresh();
+      toast({
+        title: integration.lastError ? "Sync Failed" : "Sync Finished",
+        description: integration.lastError
+          || `${integration.lastResult?.pushed ?? 0} responses sent, ${integration.lastResult?.pulled ?? 0} contacts imported`,
+        variant: integration.lastError ? "destructive" : "default"
+      });
+    },
+    onError: showError("Could not sync integration")
+  });
 
-  // Handle reconnecting an integration
-  const handleReconnectIntegration = (id: string) => {
-    setIntegrations(integrations.map(integration => 
-      integration.id === id 
-        ? { ...integration, status: "connected", lastSync: new Date().toISOString() } 
-        : integration
-    ));
-    
-    toast({
-      title: "Integration Reconnected",
-      description: "The integration has been successfully reconnected"
-    });
-  };
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData(await apiRequest("DELETE", `/api/integrations/${id}`), "Failed to remove integration"),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Integration Removed",
+        description: "The integration has been successfully removed"
+      });
+    },
+    onError: showError("Could not remove integration")
+  });
 
   // Handle opening config dialog
-  const handleOpenConfig = (integration: Integration) => {
+  const handleOpenConfig = (integration: IntegrationSummary) => {
     setSelectedIntegration(integration);
-    setShowConfigDialog(true);
-  };
-
-  // Save integration configuration
-  const handleSaveConfig = () => {
-    if (!selectedIntegration) return;
-    
-    setIntegrations(integrations.map(integration => 
-      integration.id === selectedIntegration.id 
-        ? { ...selectedIntegration, lastSync: new Date().toISOString() } 
-        : integration
-    ));
-    
-    setShowConfigDialog(false);
-    toast({
-      title: "Configuration Saved",
-      description: "Integration settings have been updated"
+    setConfigForm({
+      name: integration.name,
+      credentials: {},
+      config: { syncIntervalMinutes: 0, ...(integration.config as IntegrationForm["config"]) },
+      enabled: integration.status !== "inactive"
     });
   };
 
+  const missingRequired = (provider: IntegrationProvider | undefined, form: IntegrationForm) =>
+    !form.name.trim() || !!provider?.config.some((field) => field.required && !form.config[field.key]);
+
+  const pendingId = (testMutation.isPending && testMutation.variables)
+    || (syncMutation.isPending && syncMutation.variables)
+    || null;
+
   // Render status badge
-  const renderStatusBadge = (status: string) => {
-    switch (status) {
-      case "connected":
+  const renderStatusBadge = (integration: IntegrationSummary) => {
+    switch (integration.status) {
+      case "active":
         return (
           <Badge className="bg-green-500 hover:bg-green-600">
             <Check className="h-3 w-3 mr-1" /> Connected
           </Badge>
         );
-      case "disconnected":
+      case "configured":
         return (
           <Badge variant="outline" className="text-yellow-600 border-yellow-300 bg-yellow-50">
-            Disconnected
+            Not tested
+          </Badge>
+        );
+      case "inactive":
+        return (
+          <Badge variant="outline">
+            <PauseCircle className="h-3 w-3 mr-1" /> Paused
           </Badge>
         );
       case "error":
         return (
-          <Badge variant="destructive">
+          <Badge variant="destructive" title={integration.lastError ?? undefined}>
             <AlertCircle className="h-3 w-3 mr-1" /> Error
           </Badge>
         );
       default:
-        return <Badge variant="outline">{status}</Badge>;
+        return <Badge variant="outline">{integration.status}</Badge>;
     }
   };
 
@@ -284,45 +419,35 @@ const IntegrationsManager = () => {
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
             <TabsList className="inline-flex h-9 items-center justify-center rounded-lg bg-muted p-1 text-muted-foreground">
-              <TabsTrigger 
-                value="all" 
+              <TabsTrigger
+                value="all"
                 className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
               >
                 All Integrations
               </TabsTrigger>
-              <TabsTrigger 
-                value="crm" 
-                className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
-              >
-                CRM
-              </TabsTrigger>
-              <TabsTrigger 
-                value="analytics" 
-                className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
-              >
-                Analytics
-              </TabsTrigger>
-              <TabsTrigger 
-                value="marketing" 
-                className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
-              >
-                Marketing
-              </TabsTrigger>
-              <TabsTrigger 
-                value="communication" 
-                className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
-              >
-                Communication
-              </TabsTrigger>
+              {(Object.keys(INTEGRATION_CATEGORIES) as IntegrationCategory[]).map((category) => (
+                <TabsTrigger
+                  key={category}
+                  value={category}
+                  className="rounded-md px-3 py-1 data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow"
+                >
+                  {category === "crm" ? "CRM" : category.charAt(0).toUpperCase() + category.slice(1)}
+                </TabsTrigger>
+              ))}
             </TabsList>
-            
+
             <TabsContent value={activeTab} className="space-y-4">
-              {filteredIntegrations.length === 0 ? (
+              {isLoading ? (
+                <div className="grid grid-cols-1 gap-4">
+                  <Skeleton className="h-24 w-full" />
+                  <Skeleton className="h-24 w-full" />
+                </div>
+              ) : filteredIntegrations.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-10 text-center">
                   <div className="rounded-full bg-primary/10 p-3 mb-4">
                     <Plus className="h-6 w-6 text-primary" />
                   </div>
-                  <h3 className="text-lg font-medium mb-2">No {activeTab !== 'all' ? INTEGRATION_CATEGORIES[activeTab as keyof typeof INTEGRATION_CATEGORIES]?.title : 'integrations'} configured</h3>
+                  <h3 className="text-lg font-medium mb-2">No {activeTab !== 'all' ? INTEGRATION_CATEGORIES[activeTab as IntegrationCategory]?.title : 'integrations'} configured</h3>
                   <p className="text-muted-foreground max-w-md">
                     Add an integration to connect PersonalysisPro with your existing tools and services
                   </p>
@@ -333,55 +458,83 @@ const IntegrationsManager = () => {
                 </div>
               ) : (
                 <div className="grid grid-cols-1 gap-4">
-                  {filteredIntegrations.map((integration) => (
-                    <Card key={integration.id} className="overflow-hidden border-muted bg-card">
-                      <CardContent className="p-0">
-                        <div className="flex items-center justify-between p-6">
-                          <div className="flex items-center gap-4">
-                            <div className="flex h-12 w-12 items-center justify-center rounded-md bg-primary/10">
-                              <span className="text-lg font-semibold text-primary">{integration.name.charAt(0)}</span>
+                  {filteredIntegrations.map((integration) => {
+                    const provider = providerFor(integration.provider);
+                    const busy = pendingId === integration.id;
+                    return (
+                      <Card key={integration.id} className="overflow-hidden border-muted bg-card">
+                        <CardContent className="p-0">
+                          <div className="flex items-center justify-between p-6">
+                            <div className="flex items-center gap-4">
+                              <div className="flex h-12 w-12 items-center justify-center rounded-md bg-primary/10">
+                                <span className="text-lg font-semibold text-primary">{integration.name.charAt(0)}</span>
+                              </div>
+                              <div>
+                                <h3 className="text-lg font-semibold">{integration.name}</h3>
+                                <p className="text-sm text-muted-foreground">
+                                  {provider?.name ?? integration.provider} • {INTEGRATION_CATEGORIES[integration.category as IntegrationCategory]?.title}
+                                  {integration.companyId === null && " • All companies"}
+                                  {integration.lastSynced && ` • Last synced ${new Date(integration.lastSynced).toLocaleString()}`}
+                                </p>
+                                {integration.lastResult && !integration.lastError && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Last sync: {integration.lastResult.pushed} responses sent, {integration.lastResult.pulled} contacts imported • {integration.contactCount} contacts
+                                  </p>
+                                )}
+                                {integration.lastError && (
+                                  <p className="text-xs text-destructive">{integration.lastError}</p>
+                                )}
+                                {provider && !provider.available && (
+                                  <p className="text-xs text-muted-foreground">Coming soon: syncing with {provider.name} is not available yet</p>
+                                )}
+                              </div>
                             </div>
-                            <div>
-                              <h3 className="text-lg font-semibold">{integration.name}</h3>
-                              <p className="text-sm text-muted-foreground">
-                                {INTEGRATION_CATEGORIES[integration.category as keyof typeof INTEGRATION_CATEGORIES]?.title} • 
-                                {integration.lastSync && ` Last synced ${new Date(integration.lastSync).toLocaleString()}`}
-                              </p>
+                            <div className="flex items-center gap-4">
+                              {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                              {renderStatusBadge(integration)}
+
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon">
+                                    <MoreVertical className="h-4 w-4" />
+                                    <span className="sr-only">Actions</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => handleOpenConfig(integration)}>
+                                    <Settings className="h-4 w-4 mr-2" />
+                                    Configure
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    disabled={!provider?.available || busy}
+                                    onClick={() => testMutation.mutate(integration.id)}
+                                  >
+                                    <Plug className="h-4 w-4 mr-2" />
+                                    Test connection
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    disabled={!provider?.available || integration.status === "inactive" || busy}
+                                    onClick={() => syncMutation.mutate(integration.id)}
+                                  >
+                                    <RefreshCcw className="h-4 w-4 mr-2" />
+                                    Sync now
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => deleteMutation.mutate(integration.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Remove
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
                             </div>
                           </div>
-                          <div className="flex items-center gap-4">
-                            {renderStatusBadge(integration.status)}
-                            
-                            <DropdownMenu>
-                              <DropdownMenuTrigger asChild>
-                                <Button variant="ghost" size="icon">
-                                  <MoreVertical className="h-4 w-4" />
-                                  <span className="sr-only">Actions</span>
-                                </Button>
-                              </DropdownMenuTrigger>
-                              <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => handleOpenConfig(integration)}>
-                                  <Settings className="h-4 w-4 mr-2" />
-                                  Configure
-                                </DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => handleReconnectIntegration(integration.id)}>
-                                  <RefreshCcw className="h-4 w-4 mr-2" />
-                                  Reconnect
-                                </DropdownMenuItem>
-                                <DropdownMenuItem 
-                                  className="text-destructive focus:text-destructive"
-                                  onClick={() => handleRemoveIntegration(integration.id)}
-                                >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Remove
-                                </DropdownMenuItem>
-                              </DropdownMenuContent>
-                            </DropdownMenu>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
                 </div>
               )}
             </TabsContent>
@@ -390,8 +543,8 @@ const IntegrationsManager = () => {
       </Card>
 
       {/* Add Integration Dialog */}
-      <Dialog open={showAddIntegration} onOpenChange={setShowAddIntegration}>
-        <DialogContent className="sm:max-w-[500px]">
+      <Dialog open={showAddIntegration} onOpenChange={(open) => (open ? setShowAddIntegration(true) : closeAddDialog())}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add New Integration</DialogTitle>
             <DialogDescription>
@@ -401,7 +554,13 @@ const IntegrationsManager = () => {
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-1 gap-2">
               <Label htmlFor="category">Integration Category</Label>
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <Select
+                value={selectedCategory}
+                onValueChange={(value) => {
+                  setSelectedCategory(value);
+                  setSelectedProviderId("");
+                }}
+              >
                 <SelectTrigger id="category">
                   <SelectValue placeholder="Select category" />
                 </SelectTrigger>
@@ -416,13 +575,21 @@ const IntegrationsManager = () => {
             {selectedCategory && (
               <div className="grid grid-cols-1 gap-2">
                 <Label htmlFor="type">Integration Type</Label>
-                <Select value={selectedIntegrationType} onValueChange={setSelectedIntegrationType}>
+                <Select
+                  value={selectedProviderId}
+                  onValueChange={(value) => {
+                    setSelectedProviderId(value);
+                    setAddForm((form) => ({ ...emptyForm(), name: form.name || providerFor(value)?.name || "" }));
+                  }}
+                >
                   <SelectTrigger id="type">
                     <SelectValue placeholder="Select integration type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {AVAILABLE_INTEGRATIONS[selectedCategory as keyof typeof AVAILABLE_INTEGRATIONS]?.map(integration => (
-                      <SelectItem key={integration.id} value={integration.id}>{integration.name}</SelectItem>
+                    {providers.filter((provider) => provider.category === selectedCategory).map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}{provider.available ? "" : " (coming soon)"}
+                      </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
@@ -433,42 +600,35 @@ const IntegrationsManager = () => {
               <Label htmlFor="name">Integration Name</Label>
               <Input
                 id="name"
-                value={integrationName}
-                onChange={(e) => setIntegrationName(e.target.value)}
+                value={addForm.name}
+                onChange={(e) => setAddForm({ ...addForm, name: e.target.value })}
                 placeholder="My Slack Integration"
               />
             </div>
 
-            <div className="grid grid-cols-1 gap-2">
-              <Label htmlFor="apiKey">API Key or Token</Label>
-              <Input
-                id="apiKey"
-                type="password"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="Enter your API key"
-              />
-            </div>
+            {selectedProvider && (
+              <IntegrationFormFields provider={selectedProvider} form={addForm} onChange={setAddForm} />
+            )}
           </div>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setShowAddIntegration(false)}
-              disabled={isConnecting}
+              onClick={closeAddDialog}
+              disabled={createMutation.isPending}
             >
               Cancel
             </Button>
-            <Button 
-              onClick={handleAddIntegration}
-              disabled={isConnecting || !selectedCategory || !selectedIntegrationType || !integrationName}
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !selectedProvider || missingRequired(selectedProvider, addForm)}
             >
-              {isConnecting ? (
+              {createMutation.isPending ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Connecting...
+                  Saving...
                 </>
               ) : (
-                'Connect'
+                'Add'
               )}
             </Button>
           </DialogFooter>
@@ -476,8 +636,8 @@ const IntegrationsManager = () => {
       </Dialog>
 
       {/* Configuration Dialog */}
-      <Dialog open={showConfigDialog} onOpenChange={setShowConfigDialog}>
-        <DialogContent className="sm:max-w-[500px]">
+      <Dialog open={!!selectedIntegration} onOpenChange={(open) => !open && setSelectedIntegration(null)}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Configure {selectedIntegration?.name}</DialogTitle>
             <DialogDescription>
@@ -485,98 +645,42 @@ const IntegrationsManager = () => {
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
-            {selectedIntegration?.type === "slack" && (
-              <>
-                <div className="grid grid-cols-1 gap-2">
-                  <Label htmlFor="webhook">Webhook URL</Label>
-                  <Input
-                    id="webhook"
-                    value={selectedIntegration?.config?.webhook || ""}
-                    onChange={(e) => setSelectedIntegration(prev => prev ? {
-                      ...prev,
-                      config: {
-                        ...prev.config,
-                        webhook: e.target.value
-                      }
-                    } : null)}
-                    placeholder="https://hooks.slack.com/services/XXX/YYY/ZZZ"
-                  />
-                </div>
-                
-                <div className="grid grid-cols-1 gap-2">
-                  <Label htmlFor="channel">Channel</Label>
-                  <Input
-                    id="channel"
-                    value={selectedIntegration?.config?.channel || ""}
-                    onChange={(e) => setSelectedIntegration(prev => prev ? {
-                      ...prev,
-                      config: {
-                        ...prev.config,
-                        channel: e.target.value
-                      }
-                    } : null)}
-                    placeholder="#channel-name"
-                  />
-                </div>
-              </>
-            )}
+            <div className="grid grid-cols-1 gap-2">
+              <Label htmlFor="configName">Integration Name</Label>
+              <Input
+                id="configName"
+                value={configForm.name}
+                onChange={(e) => setConfigForm({ ...configForm, name: e.target.value })}
+              />
+            </div>
 
-            {selectedIntegration?.type === "google_analytics" && (
-              <>
-                <div className="grid grid-cols-1 gap-2">
-                  <Label htmlFor="trackingId">Tracking ID</Label>
-                  <Input
-                    id="trackingId"
-                    value={selectedIntegration?.config?.trackingId || ""}
-                    onChange={(e) => setSelectedIntegration(prev => prev ? {
-                      ...prev,
-                      config: {
-                        ...prev.config,
-                        trackingId: e.target.value
-                      }
-                    } : null)}
-                    placeholder="UA-XXXXXXXXX-X"
-                  />
-                </div>
-                
-                <div className="grid grid-cols-1 gap-2">
-                  <Label htmlFor="dataStream">Data Stream</Label>
-                  <Input
-                    id="dataStream"
-                    value={selectedIntegration?.config?.dataStream || ""}
-                    onChange={(e) => setSelectedIntegration(prev => prev ? {
-                      ...prev,
-                      config: {
-                        ...prev.config,
-                        dataStream: e.target.value
-                      }
-                    } : null)}
-                    placeholder="Web App"
-                  />
-                </div>
-              </>
+            {configProvider && (
+              <IntegrationFormFields
+                provider={configProvider}
+                form={configForm}
+                onChange={setConfigForm}
+                savedCredentials={selectedIntegration?.credentials}
+              />
             )}
 
             <div className="flex items-center space-x-2 my-2">
               <Switch
-                id="notifications"
-                checked={selectedIntegration?.config?.notifications || false}
-                onCheckedChange={(checked) => setSelectedIntegration(prev => prev ? {
-                  ...prev,
-                  config: {
-                    ...prev.config,
-                    notifications: checked
-                  }
-                } : null)}
+                id="enabled"
+                checked={configForm.enabled}
+                onCheckedChange={(checked) => setConfigForm({ ...configForm, enabled: checked })}
               />
-              <Label htmlFor="notifications">Enable notifications</Label>
+              <Label htmlFor="enabled">Enabled</Label>
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowConfigDialog(false)}>
+            <Button variant="outline" onClick={() => setSelectedIntegration(null)}>
               Cancel
             </Button>
-            <Button onClick={handleSaveConfig}>
+            <Button
+              onClick={() => updateMutation.mutate()}
+              disabled={updateMutation.isPending || missingRequired(configProvider, configForm)}
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               Save Configuration
             </Button>
           </DialogFooter>
@@ -586,4 +690,4 @@ const IntegrationsManager = () => {
   );
 };
 
-export default IntegrationsManager;
\ No newline at end of file
+export default IntegrationsManager;
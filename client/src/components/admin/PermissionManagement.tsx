@@ -0,0 +1,416 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import {
+  PERMISSION_GROUPS,
+  PermissionName,
+  PermissionUserOption,
+  RolePermissionSummary,
+  UserPermissionOverrideInput,
+  UserPermissionSummary,
+  isOverrideActive
+} from "@shared/permissions";
+
+const PERMISSIONS_KEY = ["/api/admin/permissions"];
+
+interface PermissionSettings {
+  roles: RolePermissionSummary[];
+  overrides: UserPermissionSummary[];
+  users: PermissionUserOption[];
+}
+
+const roleLabel = (role: string) => role.replace(/_/g, " ");
+
+const PERMISSION_LABELS = Object.fromEntries(
+  PERMISSION_GROUPS.flatMap(group => group.permissions.map(permission => [permission.id, permission.label]))
+) as Record<PermissionName, string>;
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== "success") {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join(". "));
+  }
+  return json.data as T;
+}
+
+const EMPTY_OVERRIDE = { userId: "", permission: "", granted: "grant", expiresAt: "", reason: "" };
+
+/**
+ * Role permission matrix and per-user grants and denials. Platform
+ * administrators always hold every permission and are not listed.
+ */
+export default function PermissionManagement() {
+  const queryClient = useQueryClient();
+  const [matrix, setMatrix] = useState<Record<string, PermissionName[]>>({});
+  const [override, setOverride] = useState(EMPTY_OVERRIDE);
+
+  const { data, isLoading } = useQuery<PermissionSettings>({
+    queryKey: PERMISSIONS_KEY,
+    queryFn: async () => readData(await apiRequest("GET", "/api/admin/permissions"), "Failed to load permissions")
+  });
+
+  useEffect(() => {
+    if (data) {
+      setMatrix(Object.fromEntries(data.roles.map(role => [role.role, role.permissions])));
+    }
+  }, [data]);
+
+  const changedRoles = useMemo(() => (data?.roles ?? []).filter(role => {
+    const draft = matrix[role.role] ?? [];
+    return draft.length !== role.permissions.length || draft.some(permission => !role.permissions.includes(permission));
+  }), [data, matrix]);
+
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const saveRolesMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      for (const role of roles) {
+        await readData(
+          await apiRequest("PUT", `/api/admin/permissions/roles/${role}`, { permissions: matrix[role] }),
+          `Failed to save ${roleLabel(role)}`
+        );
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PERMISSIONS_KEY });
+      toast({ title: "Role permissions saved" });
+    },
+    onError: onError("Could not save role permissions")
+  });
+
+  const resetRoleMutation = useMutation({
+    mutationFn: async (role: string) =>
+      readData(await apiRequest("POST", `/api/admin/permissions/roles/${role}/reset`), "Failed to reset the role"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PERMISSIONS_KEY });
+      toast({ title: "Role reset to its default permissions" });
+    },
+    onError: onError("Could not reset the role")
+  });
+
+  const saveOverrideMutation = useMutation({
+    mutationFn: async ({ userId, input }: { userId: string; input: UserPermissionOverrideInput }) =>
+      readData(await apiRequest("PUT", `/api/admin/permissions/users/${userId}`, input), "Failed to save the override"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PERMISSIONS_KEY });
+      setOverride(EMPTY_OVERRIDE);
+      toast({ title: "Permission override saved" });
+    },
+    onError: onError("Could not save the override")
+  });
+
+  const removeOverrideMutation = useMutation({
+    mutationFn: async ({ userId, permission }: { userId: number; permission: string }) =>
+      readData(await apiRequest("DELETE", `/api/admin/permissions/users/${userId}/${permission}`), "Failed to remove the override"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PERMISSIONS_KEY });
+      toast({ title: "Permission override removed" });
+    },
+    onError: onError("Could not remove the override")
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const toggle = (role: string, permission: PermissionName, checked: boolean) => {
+    const current = matrix[role] ?? [];
+    setMatrix({
+      ...matrix,
+      [role]: checked ? [...current, permission] : current.filter(item => item !== permission)
+    });
+  };
+
+  const submitOverride = () => {
+    saveOverrideMutation.mutate({
+      userId: override.userId,
+      input: {
+        permission: override.permission as PermissionName,
+        granted: override.granted === "grant",
+        reason: override.reason.trim() || undefined,
+        expiresAt: override.expiresAt ? new Date(override.expiresAt).toISOString() : null
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            Role Permissions
+          </CardTitle>
+          <CardDescription>
+            What each role may do. Platform administrators always have every permission. Changes apply
+            to signed-in users within a minute.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[220px]">Permission</TableHead>
+                  {data.roles.map(role => (
+                    <TableHead key={role.role} className="text-center align-bottom">
+                      <div className="flex flex-col items-center gap-1 py-2">
+                        <span className="capitalize whitespace-nowrap">{roleLabel(role.role)}</span>
+                        {role.customized ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            disabled={resetRoleMutation.isPending}
+                            onClick={() => resetRoleMutation.mutate(role.role)}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Reset
+                          </Button>
+                        ) : (
+                          <Badge variant="outline" className="text-xs font-normal">Default</Badge>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {PERMISSION_GROUPS.flatMap(group => [
+                  <TableRow key={group.id} className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={data.roles.length + 1} className="py-2 text-xs font-semibold uppercase text-muted-foreground">
+                      {group.label}
+                    </TableCell>
+                  </TableRow>,
+                  ...group.permissions.map(permission => (
+                    <TableRow key={permission.id}>
+                      <TableCell>
+                        <div className="font-medium">{permission.label}</div>
+                        <div className="text-xs text-muted-foreground">{permission.description}</div>
+                      </TableCell>
+                      {data.roles.map(role => (
+                        <TableCell key={role.role} className="text-center">
+                          <Checkbox
+                            aria-label={`${permission.label} for ${roleLabel(role.role)}`}
+                            checked={(matrix[role.role] ?? []).includes(permission.id)}
+                            onCheckedChange={(checked) => toggle(role.role, permission.id, checked === true)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ])}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {changedRoles.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                Unsaved changes to {changedRoles.map(role => roleLabel(role.role)).join(", ")}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              disabled={changedRoles.length === 0 || saveRolesMutation.isPending}
+              onClick={() => setMatrix(Object.fromEntries(data.roles.map(role => [role.role, role.permissions])))}
+            >
+              Discard
+            </Button>
+            <Button
+              disabled={changedRoles.length === 0 || saveRolesMutation.isPending}
+              onClick={() => saveRolesMutation.mutate(changedRoles.map(role => role.role))}
+            >
+              {saveRolesMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save changes
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>User Overrides</CardTitle>
+          <CardDescription>
+            Grant a user a permission their role lacks, or deny one it has. A denial wins over the role.
+            Overrides with an expiry stop applying at that time and are then removed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={override.userId} onValueChange={(userId) => setOverride({ ...override, userId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.users.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>
+                      {user.username} ({roleLabel(user.role)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Permission</Label>
+              <Select value={override.permission} onValueChange={(permission) => setOverride({ ...override, permission })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a permission" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERMISSION_GROUPS.flatMap(group => group.permissions).map(permission => (
+                    <SelectItem key={permission.id} value={permission.id}>{permission.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Effect</Label>
+              <Select value={override.granted} onValueChange={(granted) => setOverride({ ...override, granted })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="grant">Grant</SelectItem>
+                  <SelectItem value="deny">Deny</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-expires">Expires (optional)</Label>
+              <Input
+                id="override-expires"
+                type="datetime-local"
+                value={override.expiresAt}
+                onChange={(e) => setOverride({ ...override, expiresAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="override-reason">Reason</Label>
+              <Input
+                id="override-reason"
+                maxLength={500}
+                placeholder="Why this user needs the exception"
+                value={override.reason}
+                onChange={(e) => setOverride({ ...override, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              disabled={!override.userId || !override.permission || saveOverrideMutation.isPending}
+              onClick={submitOverride}
+            >
+              {saveOverrideMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save override
+            </Button>
+          </div>
+
+          {data.overrides.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No user has a permission override.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Permission</TableHead>
+                    <TableHead>Effect</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.overrides.map(item => {
+                    const active = isOverrideActive(item);
+                    return (
+                      <TableRow key={item.id} className={active ? undefined : "opacity-60"}>
+                        <TableCell>
+                          <div className="font-medium">{item.username}</div>
+                          <div className="text-xs text-muted-foreground capitalize">{roleLabel(item.role)}</div>
+                        </TableCell>
+                        <TableCell>{PERMISSION_LABELS[item.permission]}</TableCell>
+                        <TableCell>
+                          <Badge variant={item.granted ? "default" : "destructive"}>
+                            {item.granted ? "Granted" : "Denied"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {item.expiresAt ? (
+                            <>
+                              {new Date(item.expiresAt).toLocaleString()}
+                              {!active && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">Never</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[240px] truncate" title={item.reason ?? undefined}>
+                          {item.reason || <span className="text-muted-foreground">—</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Remove override"
+                            disabled={removeOverrideMutation.isPending}
+                            onClick={() => removeOverrideMutation.mutate({ userId: item.userId, permission: item.permission })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, ShieldCheck } from "lucide-react";
+import {
+  DATA_SUBJECT_REQUEST_TYPE_LABELS,
+  DataSubjectRequestDetail,
+  DataSubjectRequestQueue,
+  DataSubjectRequestStatus,
+  DeadlineState,
+  PRIVACY_JURISDICTION_LABELS,
+  SUBJECT_DATA_CATEGORIES
+} from "@shared/dataSubjectRequests";
+
+const QUEUE_KEY = "/api/admin/privacy-requests";
+
+const STATUS_LABELS: Record<string, string> = {
+  [DataSubjectRequestStatus.PENDING]: "Pending",
+  [DataSubjectRequestStatus.UNVERIFIED]: "Awaiting confirmation",
+  [DataSubjectRequestStatus.COMPLETED]: "Completed",
+  [DataSubjectRequestStatus.REJECTED]: "Rejected",
+};
+
+const DEADLINE_BADGES: Record<DeadlineState, { label: (days: number) => string; className: string }> = {
+  on_track: { label: days => `${days} days left`, className: "bg-green-100 text-green-800" },
+  due_soon: { label: days => (days === 0 ? "Due today" : `Due in ${days} days`), className: "bg-amber-100 text-amber-800" },
+  overdue: { label: days => `Overdue by ${-days} days`, className: "bg-red-100 text-red-800" },
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== "success") {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join(". "));
+  }
+  return json.data as T;
+}
+
+/**
+ * Queue of respondents' access, export and erasure requests. Confirmed
+ * requests are listed by legal deadline; fulfilling one hands over or erases
+ * the data and records a signed completion certificate in the audit log.
+ */
+export default function PrivacyRequests() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>(DataSubjectRequestStatus.PENDING);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const { data: queue, isLoading } = useQuery<DataSubjectRequestQueue>({
+    queryKey: [QUEUE_KEY, status],
+    queryFn: async () => readData(await apiRequest("GET", `${QUEUE_KEY}?status=${status}`), "Failed to load privacy requests")
+  });
+
+  const { data: detail, isLoading: detailLoading } = useQuery<DataSubjectRequestDetail>({
+    queryKey: [QUEUE_KEY, "detail", selectedId],
+    queryFn: async () => readData(await apiRequest("GET", `${QUEUE_KEY}/${selectedId}`), "Failed to load the request"),
+    enabled: selectedId !== null
+  });
+
+  const onHandled = (title: string) => (request: DataSubjectRequestDetail) => {
+    queryClient.invalidateQueries({ queryKey: [QUEUE_KEY] });
+    queryClient.setQueryData([QUEUE_KEY, "detail", request.id], request);
+    setRejectReason("");
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const fulfilMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData<DataSubjectRequestDetail>(await apiRequest("POST", `${QUEUE_KEY}/${id}/fulfil`), "Failed to fulfil the request"),
+    onSuccess: onHandled("Request fulfilled and the requester notified"),
+    onError: onError("Could not fulfil the request")
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) =>
+      readData<DataSubjectRequestDetail>(await apiRequest("POST", `${QUEUE_KEY}/${id}/reject`, { reason }), "Failed to reject the request"),
+    onSuccess: onHandled("Request rejected and the requester notified"),
+    onError: onError("Could not reject the request")
+  });
+
+  const busy = fulfilMutation.isPending || rejectMutation.isPending;
+  const certificate = detail?.certificate?.certificate;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-primary" />
+            Privacy requests
+          </CardTitle>
+          <CardDescription>
+            GDPR and CCPA requests from respondents. The deadline runs from when the requester confirmed their email.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {queue && (
+          <div className="flex gap-2">
+            <Badge variant="outline">{queue.counts.pending} pending</Badge>
+            <Badge className={DEADLINE_BADGES.due_soon.className}>{queue.counts.dueSoon} due soon</Badge>
+            <Badge className={DEADLINE_BADGES.overdue.className}>{queue.counts.overdue} overdue</Badge>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !queue || queue.requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No {STATUS_LABELS[status].toLowerCase()} requests.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Request</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Law</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">{DATA_SUBJECT_REQUEST_TYPE_LABELS[request.type]}</TableCell>
+                  <TableCell>{request.email}</TableCell>
+                  <TableCell>{request.jurisdiction.toUpperCase()}</TableCell>
+                  <TableCell>{formatDate(request.createdAt)}</TableCell>
+                  <TableCell>
+                    {request.deadline && request.daysLeft !== null ? (
+                      <Badge className={DEADLINE_BADGES[request.deadline].className}>
+                        {DEADLINE_BADGES[request.deadline].label(request.daysLeft)}
+                      </Badge>
+                    ) : (
+                      formatDate(request.dueAt)
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedId(request.id)}>
+                      Open
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedId !== null} onOpenChange={open => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{detail ? DATA_SUBJECT_REQUEST_TYPE_LABELS[detail.type] : "Privacy request"}</DialogTitle>
+            <DialogDescription>
+              {detail
+                ? `${detail.email} · ${PRIVACY_JURISDICTION_LABELS[detail.jurisdiction]} · ${STATUS_LABELS[detail.status]}`
+                : "Loading…"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detailLoading || !detail ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-3 gap-2">
+                <div><span className="text-muted-foreground">Received</span><br />{formatDate(detail.createdAt)}</div>
+                <div><span className="text-muted-foreground">Confirmed</span><br />{formatDate(detail.verifiedAt)}</div>
+                <div><span className="text-muted-foreground">Due</span><br />{formatDate(detail.dueAt)}</div>
+              </div>
+              {detail.details && <p className="rounded bg-muted p-2 whitespace-pre-wrap">{detail.details}</p>}
+
+              <div>
+                <Label>{detail.status === DataSubjectRequestStatus.COMPLETED
+                  ? detail.type === "erasure" ? "Records erased" : "Records handed over"
+                  : "Records held"}</Label>
+                <ul className="mt-1 grid grid-cols-2 gap-1">
+                  {SUBJECT_DATA_CATEGORIES.map(category => (
+                    <li key={category.key} className="flex justify-between pr-4">
+                      <span>{category.label}</span>
+                      <span className="font-medium">{detail.records[category.key]}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {certificate && (
+                <div className="rounded border p-2 space-y-1">
+                  <p className="font-medium">
+                    Completed {formatDate(certificate.completedAt)}{" "}
+                    <Badge className={certificate.onTime ? DEADLINE_BADGES.on_track.className : DEADLINE_BADGES.overdue.className}>
+                      {certificate.onTime ? "On time" : "Late"}
+                    </Badge>
+                  </p>
+                  {certificate.backups && (
+                    <p className="text-muted-foreground">
+                      {certificate.backups.archives} backup archive(s) still hold this data; restoring one erases it again.
+                    </p>
+                  )}
+                  <p className="font-mono text-xs break-all text-muted-foreground">
+                    {detail.certificate?.algorithm} {detail.certificate?.signature}
+                  </p>
+                </div>
+              )}
+              {detail.rejectionReason && (
+                <p className="text-muted-foreground">Rejected: {detail.rejectionReason}</p>
+              )}
+
+              {detail.status === DataSubjectRequestStatus.PENDING && (
+                <div className="space-y-2">
+                  <Label htmlFor="privacy-reject-reason">Reason for rejecting (sent to the requester)</Label>
+                  <Textarea
+                    id="privacy-reject-reason"
+                    value={rejectReason}
+                    onChange={e => setRejectReason(e.target.value)}
+                    rows={2}
+                    maxLength={1000}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {detail?.status === DataSubjectRequestStatus.PENDING && (
+            <DialogFooter>
+              <Button
+                variant="outline"
+                disabled={busy || !rejectReason.trim()}
+                onClick={() => rejectMutation.mutate({ id: detail.id, reason: rejectReason })}
+              >
+                Reject
+              </Button>
+              <Button
+                variant={detail.type === "erasure" ? "destructive" : "default"}
+                disabled={busy}
+                onClick={() => {
+                  if (detail.type !== "erasure" || window.confirm(`Erase all data held for ${detail.email}? This cannot be undone.`)) {
+                    fulfilMutation.mutate(detail.id);
+                  }
+                }}
+              >
+                {fulfilMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {detail.type === "erasure" ? "Erase data" : "Send data"}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+
+type ItemFlag =
+  | 'low_item_total_correlation'
+  | 'negative_item_total_correlation'
+  | 'no_variance'
+  | 'too_easy'
+  | 'too_hard'
+  | 'alpha_improves_if_removed';
+
+interface ItemStatistics {
+  questionId: number;
+  question: string;
+  respondents: number;
+  difficulty: number | null;
+  itemTotalCorrelation: number | null;
+  alphaIfDeleted: number | null;
+  flags: ItemFlag[];
+}
+
+interface TraitReliability {
+  trait: string;
+  category: string;
+  itemCount: number;
+  completeCases: number;
+  alpha: number | null;
+  interpretation: string | null;
+  items: ItemStatistics[];
+}
+
+interface PsychometricsReport {
+  surveyId: number;
+  responseCount: number;
+  hasEnoughData: boolean;
+  minimumSample: number;
+  message?: string;
+  traits: TraitReliability[];
+  weakItems: Array<{ trait: string; questionId: number; question: string; flags: ItemFlag[] }>;
+}
+
+interface PsychometricsPanelProps {
+  surveyId: number;
+}
+
+const FLAG_LABELS: Record<ItemFlag, string> = {
+  low_item_total_correlation: 'Weak item-total correlation',
+  negative_item_total_correlation: 'Negative item-total correlation',
+  no_variance: 'Everyone answers alike',
+  too_easy: 'Too easy',
+  too_hard: 'Too hard',
+  alpha_improves_if_removed: 'Alpha improves if removed'
+};
+
+const formatStat = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const interpretationVariant = (interpretation: string | null) => {
+  if (interpretation === 'excellent' || interpretation === 'good' || interpretation === 'acceptable') return 'default';
+  if (interpretation === 'questionable') return 'secondary';
+  return 'destructive';
+};
+
+export default function PsychometricsPanel({ surveyId }: PsychometricsPanelProps) {
+  const { data: report, isLoading, error } = useQuery<PsychometricsReport>({
+    queryKey: [`/api/surveys/${surveyId}/psychometrics`],
+    queryFn: async () => {
+      // Same admin headers the analytics page uses for preview access
+      const currentUserStr = localStorage.getItem('currentUser');
+      const currentUser = currentUserStr ? JSON.parse(currentUserStr) : null;
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (currentUser?.role === 'platform_admin' || currentUser?.role === 'admin') {
+        headers['X-Mock-Admin'] = 'true';
+        headers['X-User-ID'] = String(currentUser.id || '1');
+        headers['X-User-Role'] = currentUser.role || 'platform_admin';
+      }
+
+      const response = await fetch(`/api/surveys/${surveyId}/psychometrics`, {
+        credentials: 'include',
+        headers,
+      });
+      const json = await response.json();
+      if (!response.ok || json.status !== 'success') {
+        throw new Error(json.message || 'Failed to load reliability report');
+      }
+      return json.data;
+    },
+    enabled: !!surveyId,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (error || !report) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Reliability report unavailable</AlertTitle>
+        <AlertDescription>{error instanceof Error ? error.message : 'Failed to load reliability report'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const measuredTraits = report.traits.filter(trait => trait.itemCount > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Psychometric Reliability</CardTitle>
+        <CardDescription>
+          Internal consistency of the questions weighted towards each trait, from {report.responseCount} completed responses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report.message && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{report.hasEnoughData ? 'Nothing to analyse yet' : 'Small sample'}</AlertTitle>
+            <AlertDescription>{report.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {measuredTraits.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trait</TableHead>
+                <TableHead className="text-right">Items</TableHead>
+                <TableHead className="text-right">Complete cases</TableHead>
+                <TableHead className="text-right">Cronbach's α</TableHead>
+                <TableHead>Reliability</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {measuredTraits.map(trait => (
+                <TableRow key={trait.trait}>
+                  <TableCell className="font-medium">{trait.trait}</TableCell>
+                  <TableCell className="text-right">{trait.itemCount}</TableCell>
+                  <TableCell className="text-right">{trait.completeCases}</TableCell>
+                  <TableCell className="text-right">{formatStat(trait.alpha)}</TableCell>
+                  <TableCell>
+                    {trait.interpretation ? (
+                      <Badge variant={interpretationVariant(trait.interpretation)} className="capitalize">
+                        {trait.interpretation}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Needs 2+ items</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {measuredTraits.map(trait => (
+          <div key={trait.trait} className="space-y-2">
+            <h3 className="text-sm font-semibold">{trait.trait} items</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead className="text-right">Respondents</TableHead>
+                  <TableHead className="text-right">Difficulty</TableHead>
+                  <TableHead className="text-right">Item-total r</TableHead>
+                  <TableHead className="text-right">α if deleted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trait.items.map(item => (
+                  <TableRow key={item.questionId} className={item.flags.length > 0 ? 'bg-amber-50' : undefined}>
+                    <TableCell className="max-w-md truncate" title={item.question}>{item.question}</TableCell>
+                    <TableCell className="text-right">{item.respondents}</TableCell>
+                    <TableCell className="text-right">{formatStat(item.difficulty)}</TableCell>
+                    <TableCell className="text-right">{formatStat(item.itemTotalCorrelation)}</TableCell>
+                    <TableCell className="text-right">{formatStat(item.alphaIfDeleted)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+
+        {report.weakItems.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Flagged items</h3>
+            <ul className="space-y-2">
+              {report.weakItems.map(item => (
+                <li key={`${item.trait}-${item.questionId}`} className="rounded border p-3 text-sm">
+                  <p className="font-medium">{item.question}</p>
+                  <p className="text-muted-foreground mb-2">{item.trait}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {item.flags.map(flag => (
+                      <Badge key={flag} variant="outline">{FLAG_LABELS[flag]}</Badge>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,41 +1,252 @@
-
-import React from "react";
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { REPORT_SECTION_LABELS, ReportSection } from "@shared/sharedReports";
+import { Ban, CalendarPlus, Copy, Eye, Lock } from "lucide-react";
+
+interface SharedReportItem {
+  id: number;
+  token: string;
+  companyId: number;
+  companyName: string | null;
+  surveyId: number | 'all';
+  passwordProtected: boolean;
+  sections: ReportSection[];
+  expiresAt: string;
+  revokedAt: string | null;
+  status: 'active' | 'expired' | 'revoked';
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+const SHARES_QUERY_KEY = ['/api/reports/shares'];
+
+const STATUS_VARIANTS: Record<SharedReportItem['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive'
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const shareLink = (token: string) => `${window.location.origin}/shared-report/${token}`;
+
+const readJson = async (response: Response, fallback: string) => {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    throw new Error(json.message || fallback);
+  }
+  return json;
+};
 
 export const SharingManager = () => {
+  const [search, setSearch] = useState('');
+  const [extendDays, setExtendDays] = useState('30');
+  const [revokeTarget, setRevokeTarget] = useState<SharedReportItem | null>(null);
+
+  const { data: shares = [], isLoading, error } = useQuery<SharedReportItem[]>({
+    queryKey: SHARES_QUERY_KEY,
+    queryFn: async () => {
+      const json = await readJson(await apiRequest('GET', '/api/reports/shares'), 'Failed to load shared reports');
+      return json.data;
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readJson(await apiRequest('POST', `/api/reports/shares/${id}/revoke`), 'Failed to revoke link'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SHARES_QUERY_KEY });
+      toast({ title: "Link revoked", description: "The shared report is no longer accessible." });
+    },
+    onError: (err: Error) => toast({ title: "Revoke failed", description: err.message, variant: "destructive" }),
+    onSettled: () => setRevokeTarget(null)
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readJson(
+        await apiRequest('POST', `/api/reports/shares/${id}/extend`, { expiresInDays: parseInt(extendDays) }),
+        'Failed to extend link'
+      ),
+    onSuccess: (json) => {
+      queryClient.invalidateQueries({ queryKey: SHARES_QUERY_KEY });
+      toast({ title: "Link extended", description: `Now expires ${formatDate(json.data.expiresAt)}` });
+    },
+    onError: (err: Error) => toast({ title: "Extend failed", description: err.message, variant: "destructive" })
+  });
+
+  const copyLink = (token: string) => {
+    navigator.clipboard.writeText(shareLink(token))
+      .then(() => toast({ title: "Link copied to clipboard" }))
+      .catch(() => toast({ title: "Shareable link", description: shareLink(token) }));
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = shares.filter(share =>
+    !term ||
+    (share.companyName || '').toLowerCase().includes(term) ||
+    String(share.surveyId).includes(term)
+  );
+
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Survey Distribution</CardTitle>
+          <CardTitle>Shared Reports</CardTitle>
+          <CardDescription>
+            Public links to analytics reports. Revoke a link to cut off access immediately, or extend it before it expires.
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input placeholder="Search surveys..." className="max-w-sm" />
-              <Button variant="outline">Filter</Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                placeholder="Search by company or survey..."
+                className="max-w-sm"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <div className="flex items-center gap-2 ml-auto">
+                <span className="text-sm text-muted-foreground">Extend by</span>
+                <Select value={extendDays} onValueChange={setExtendDays}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="7">7 days</SelectItem>
+                    <SelectItem value="30">30 days</SelectItem>
+                    <SelectItem value="90">90 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
-            
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Survey Name</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Responses</TableHead>
-                  <TableHead>Share URL</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {/* Survey sharing entries */}
-              </TableBody>
-            </Table>
+
+            {isLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : error ? (
+              <p className="text-sm text-red-500">{error instanceof Error ? error.message : 'Failed to load shared reports'}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Report</TableHead>
+                    <TableHead>Sections</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead>Last Viewed</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                        No shared reports yet
+                      </TableCell>
+                    </TableRow>
+                  ) : filtered.map(share => (
+                    <TableRow key={share.id}>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-1">
+                          {share.passwordProtected && <Lock className="h-3 w-3 text-muted-foreground" />}
+                          {share.companyName || `Company ${share.companyId}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {share.surveyId === 'all' ? 'All surveys' : `Survey #${share.surveyId}`} · created {formatDate(share.createdAt)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-[220px]">
+                        <div className="flex flex-wrap gap-1">
+                          {share.sections.map(section => (
+                            <Badge key={section} variant="outline" className="text-xs">{REPORT_SECTION_LABELS[section]}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[share.status]} className="capitalize">{share.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className="inline-flex items-center gap-1">
+                          <Eye className="h-3 w-3 text-muted-foreground" />
+                          {share.viewCount}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(share.lastViewedAt)}</TableCell>
+                      <TableCell className="text-sm">{formatDate(share.revokedAt ?? share.expiresAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(share.token)} title="Copy link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => extendMutation.mutate(share.id)}
+                            disabled={share.status === 'revoked' || extendMutation.isPending}
+                            title="Extend expiry"
+                          >
+                            <CalendarPlus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevokeTarget(share)}
+                            disabled={share.status === 'revoked'}
+                            title="Revoke link"
+                          >
+                            <Ban className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      <AlertDialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke shared report?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone opening the link for {revokeTarget?.companyName || 'this report'} will be told it has been revoked. This cannot be undone; create a new link to share the report again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeTarget && revokeMutation.mutate(revokeTarget.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -243,8 +243,14 @@ const SurveyManagement = ({ onViewAnalytics }: SurveyManagementProps = {}) => {
   // Mutations
   // Update survey status (enable/disable/archive)
   const updateSurveyStatusMutation = useMutation({
-    mutationFn: (data: { surveyId: number, status: string }) => {
-      return apiRequest("PATCH", `/api/surveys/${data.surveyId}/status`, { status: data.status, isAdmin: true });
+    mutationFn: async (data: { surveyId: number, status: string }) => {
+      const response = await apiRequest("PATCH", `/api/surveys/${data.surveyId}/status`, { status: data.status, isAdmin: true });
+      // Activation is refused while the survey's approval workflow has not approved it
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || response.statusText);
+      }
+      return response;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/surveys'] });
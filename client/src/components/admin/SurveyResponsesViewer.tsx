@@ -186,14 +186,14 @@ export function SurveyResponsesViewer({ clientId, surveyId, isAdminView = false
 
   // Function to handle CSV export
   const handleExportCSV = () => {
-    let exportUrl = '/api/survey-responses/export/csv';
+    let exportUrl = '/api/survey-responses/export';
 
     if (filterSurveyId) {
       exportUrl += `?surveyId=${filterSurveyId}`;
     }
 
     if (filterClientId) {
-      exportUrl += `${exportUrl.includes('?') ? '&' : '?'}clientId=${filterClientId}`;
+      exportUrl += `${exportUrl.includes('?') ? '&' : '?'}companyId=${filterClientId}`;
     }
 
     window.open(exportUrl, '_blank');
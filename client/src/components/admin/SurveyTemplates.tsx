@@ -83,6 +83,8 @@ import SurveyDeployment from "./SurveyDeployment";
 // Import survey categories and questions
 import { surveyCategories } from "@/lib/surveyQuestions";
 import { SurveyQuestion as SurveyQuestionType } from "@shared/schema";
+import { TraitModel, DEFAULT_TRAIT_MODEL, resolveTraitModel } from "@shared/traitModel";
+import TraitModelEditor from "@/components/survey/TraitModelEditor";
 
 // Define types
 interface SurveyTemplate {
@@ -97,7 +99,7 @@ interface SurveyTemplate {
   updatedAt: string;
   estimatedTime?: number;
   questionCount?: number;
-  traits?: string[];
+  traits?: TraitModel;
   image?: string;
 }
 
@@ -767,27 +769,6 @@ const TemplateEditor = ({
     });
   };
 
-  // Limit traits to the 5 Gemini traits
-  const allowedGeminiTraits = [
-    { name: "Innovation", category: "behavioral" },
-    { name: "Analytical Thinking", category: "cognitive" },
-    { name: "Leadership", category: "social" },
-    { name: "Adaptability", category: "behavioral" },
-    { name: "Creativity", category: "cognitive" }
-  ];
-
-  const toggleTrait = (traitName: string) => {
-    const current = editedTemplate.traits || [];
-    const exists = current.includes(traitName);
-    const updated = exists
-      ? current.filter(t => t !== traitName)
-      : [...current, traitName];
-    setEditedTemplate({
-      ...editedTemplate,
-      traits: updated
-    });
-  };
-  
   // Update a specific question
   const updateQuestion = (index: number, updatedQuestion: SurveyQuestion) => {
     const updatedQuestions = [...editedTemplate.questions];
@@ -998,36 +979,10 @@ const TemplateEditor = ({
               )}
             </div>
             
-            <div className="space-y-2">
-              <Label>Personality Traits (select up to 5)</Label>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                {allowedGeminiTraits.map(t => {
-                  const checked = (editedTemplate.traits || []).includes(t.name);
-                  return (
-                    <label key={t.name} className="flex items-center gap-2 p-2 border rounded-md cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={checked}
-                        onChange={() => toggleTrait(t.name)}
-                        className="h-4 w-4"
-                      />
-                      <span className="text-sm">{t.name}</span>
-                      <Badge variant="outline" className="ml-auto">{t.category}</Badge>
-                    </label>
-                  );
-                })}
-              </div>
-              {(editedTemplate.traits && editedTemplate.traits.length > 0) && (
-                <div className="flex flex-wrap gap-2 pt-2">
-                  {editedTemplate.traits!.filter(t => allowedGeminiTraits.some(a => a.name === t)).map((trait, index) => (
-                    <Badge key={index} variant="secondary">{trait}</Badge>
-                  ))}
-                </div>
-              )}
-              <p className="text-xs text-muted-foreground">
-                Only the following traits are allowed: Innovation, Analytical Thinking, Leadership, Adaptability, Creativity
-              </p>
-            </div>
+            <TraitModelEditor
+              value={editedTemplate.traits && editedTemplate.traits.length > 0 ? editedTemplate.traits : DEFAULT_TRAIT_MODEL}
+              onChange={(traits) => setEditedTemplate({ ...editedTemplate, traits })}
+            />
             
             <div className="flex items-center space-x-2">
               <input
@@ -1398,7 +1353,7 @@ const TemplateViewer = ({ template, onBack }: { template: SurveyTemplate; onBack
                 <div className="flex flex-wrap gap-2">
                   {template.traits.map((trait, index) => (
                     <Badge key={index} variant="secondary">
-                      {trait}
+                      {trait.name}
                     </Badge>
                   ))}
                 </div>
@@ -1713,7 +1668,7 @@ const SurveyTemplates = () => {
         updatedAt: template.updatedAt || template.updated_at || new Date().toISOString(),
         estimatedTime: template.estimatedTime || template.estimated_time,
         questionCount: template.questionCount || template.question_count || (template.questions?.length || 0),
-        traits: template.traits || [],
+        traits: Array.isArray(template.traits) && template.traits.length > 0 ? resolveTraitModel(template.traits) : [],
         image: template.image,
       }));
     }
@@ -1744,7 +1699,7 @@ const SurveyTemplates = () => {
           updatedAt: template.updatedAt || template.updated_at || new Date().toISOString(),
           estimatedTime: template.estimatedTime || template.estimated_time,
           questionCount: template.questionCount || template.question_count || (template.questions?.length || 0),
-          traits: template.traits || [],
+          traits: Array.isArray(template.traits) && template.traits.length > 0 ? resolveTraitModel(template.traits) : [],
           image: template.image,
         }));
       }
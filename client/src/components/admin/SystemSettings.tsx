@@ -23,6 +23,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
+import {
+  DEFAULT_TWO_FACTOR_POLICY,
+  TWO_FACTOR_ENFORCEMENTS,
+  TWO_FACTOR_ENFORCEMENT_LABELS,
+  TwoFactorEnforcement
+} from "@shared/twoFactor";
+import { DEFAULT_TRANSLATION_PUBLISH_THRESHOLD } from "@shared/surveyTranslations";
 import { 
   ActivitySquare,
   AlertTriangle, 
@@ -93,6 +100,7 @@ interface SystemConfig {
     logoUrl: string;
     favicon: string;
     defaultLanguage: string;
+    translationPublishThreshold?: number;
     dateFormat: string;
     timeFormat: string;
     timezone: string;
@@ -105,7 +113,8 @@ interface SystemConfig {
       requireNumbers: boolean;
       requireSpecialChars: boolean;
     };
-    mfaEnabled: boolean;
+    mfaEnforcement?: TwoFactorEnforcement;
+    mfaTrustedDeviceDays?: number;
     sessionTimeout: number;
     ipWhitelist: string[];
     allowPublicSurveys: boolean;
@@ -154,6 +163,7 @@ const defaultConfig: SystemConfig = {
     logoUrl: "/assets/logo.svg",
     favicon: "/assets/favicon.ico",
     defaultLanguage: "en",
+    translationPublishThreshold: DEFAULT_TRANSLATION_PUBLISH_THRESHOLD,
     dateFormat: "MM/DD/YYYY",
     timeFormat: "12h",
     timezone: "UTC",
@@ -166,7 +176,8 @@ const defaultConfig: SystemConfig = {
       requireNumbers: true,
       requireSpecialChars: true,
     },
-    mfaEnabled: true,
+    mfaEnforcement: DEFAULT_TWO_FACTOR_POLICY.enforcement,
+    mfaTrustedDeviceDays: DEFAULT_TWO_FACTOR_POLICY.trustedDeviceDays,
     sessionTimeout: 30,
     ipWhitelist: [],
     allowPublicSurveys: true,
@@ -586,6 +597,20 @@ const SystemSettings = () => {
                     </SelectContent>
                   </Select>
                 </FormRow>
+                <FormRow 
+                  label="Translation Publish Threshold" 
+                  description="Percent of a survey's texts that need a reviewed, up-to-date translation before the language can be published"
+                >
+                  <Input
+                    id="translationPublishThreshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-full md:w-1/4"
+                    value={config.general.translationPublishThreshold ?? DEFAULT_TRANSLATION_PUBLISH_THRESHOLD}
+                    onChange={(e) => updateConfig('general', 'translationPublishThreshold', Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                  />
+                </FormRow>
                 <FormRow label="Date Format">
                   <Select
                     value={config.general.dateFormat}
@@ -706,17 +731,38 @@ const SystemSettings = () => {
                 description="Configure user authentication and access controls"
               >
                 <FormRow 
-                  label="Multi-Factor Authentication" 
-                  description="Require MFA for admin and client accounts"
+                  label="Two-Factor Authentication" 
+                  description="Who has to sign in with an authenticator app; they set it up at their next login"
                 >
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="mfaEnabled"
-                      checked={config.security.mfaEnabled}
-                      onCheckedChange={(checked) => updateConfig('security', 'mfaEnabled', checked)}
-                    />
-                    <Label htmlFor="mfaEnabled">Enable MFA</Label>
-                  </div>
+                  <Select
+                    value={config.security.mfaEnforcement ?? DEFAULT_TWO_FACTOR_POLICY.enforcement}
+                    onValueChange={(value) => updateConfig('security', 'mfaEnforcement', value)}
+                  >
+                    <SelectTrigger className="w-full md:w-3/4">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TWO_FACTOR_ENFORCEMENTS.map((enforcement) => (
+                        <SelectItem key={enforcement} value={enforcement}>
+                          {TWO_FACTOR_ENFORCEMENT_LABELS[enforcement]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormRow>
+                <FormRow 
+                  label="Remembered Devices" 
+                  description="Days a remembered device skips the code; 0 turns remembering devices off"
+                >
+                  <Input
+                    id="mfaTrustedDeviceDays"
+                    type="number"
+                    min={0}
+                    max={365}
+                    className="w-full md:w-1/4"
+                    value={config.security.mfaTrustedDeviceDays ?? DEFAULT_TWO_FACTOR_POLICY.trustedDeviceDays}
+                    onChange={(e) => updateConfig('security', 'mfaTrustedDeviceDays', Math.max(0, parseInt(e.target.value) || 0))}
+                  />
                 </FormRow>
                 <FormRow 
                   label="Session Timeout" 
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Loader2, ShieldCheck } from 'lucide-react';
+import { TwoFactorChallenge, TwoFactorEnrollment } from '@shared/twoFactor';
+import { EnrollmentSteps, RecoveryCodes } from './TwoFactorSettings';
+
+// The login endpoints answer with { message } on errors, like /api/login
+async function postJson<T>(url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body ?? {})
+  });
+  const json = await response.json();
+  if (!response.ok) {
+    throw new Error(json.message || 'Sign-in failed');
+  }
+  return json as T;
+}
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  // Receives the same response as a login without a second step
+  onSignedIn: (userData: any) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step: a code from the authenticator app or a recovery code,
+ * or setting up the app first when the policy requires it
+ */
+export default function TwoFactorLoginStep({ challenge, onSignedIn, onCancel }: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [signedIn, setSignedIn] = useState<any>(null);
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => (await postJson<{ data: TwoFactorEnrollment }>('/api/auth/login/enroll')).data
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => postJson<any>('/api/auth/login/verify', { code, rememberDevice }),
+    onSuccess: (userData) => {
+      // Recovery codes of a new enrollment are shown before continuing
+      if (userData.recoveryCodes) {
+        setSignedIn(userData);
+      } else {
+        onSignedIn(userData);
+      }
+    }
+  });
+
+  // One secret per challenge
+  useEffect(() => {
+    if (challenge.enrollmentRequired) {
+      enrollMutation.mutate();
+    }
+  }, [challenge]);
+
+  if (signedIn) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={signedIn.recoveryCodes} />
+        <Button className="w-full" onClick={() => onSignedIn(signedIn)}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  const error = verifyMutation.error ?? enrollMutation.error;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        verifyMutation.mutate();
+      }}
+    >
+      <div className="flex items-start gap-2 text-sm">
+        <ShieldCheck className="h-5 w-5 text-primary flex-shrink-0" />
+        <span>{challenge.message}</span>
+      </div>
+
+      {challenge.enrollmentRequired ? (
+        enrollMutation.data ? (
+          <EnrollmentSteps enrollment={enrollMutation.data} code={code} onCodeChange={setCode} />
+        ) : (
+          !enrollMutation.error && <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+        )
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="login-code">{useRecoveryCode ? 'Recovery code' : 'Authenticator code'}</Label>
+          <Input
+            id="login-code"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoFocus
+          />
+          <button
+            type="button"
+            className="text-xs text-primary hover:underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+            }}
+          >
+            {useRecoveryCode ? 'Use the authenticator app' : 'Use a recovery code instead'}
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="remember-device"
+          checked={rememberDevice}
+          onCheckedChange={(checked) => setRememberDevice(checked === true)}
+        />
+        <Label htmlFor="remember-device" className="text-sm font-normal text-gray-500 cursor-pointer">
+          Remember this device
+        </Label>
+      </div>
+
+      {error instanceof Error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error.message}</span>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" className="flex-1" disabled={verifyMutation.isPending || !code}>
+          {verifyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Verify
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Copy, KeyRound, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { TwoFactorEnrollment, TwoFactorStatus } from '@shared/twoFactor';
+
+const STATUS_KEY = ['/api/account/two-factor'];
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+/**
+ * Recovery codes as they are shown once after enrollment or regeneration
+ */
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  return (
+    <Alert>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>Save your recovery codes</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>Each code signs you in once if you lose your authenticator. They are not shown again.</p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+          {codes.map((code) => <span key={code}>{code}</span>)}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            navigator.clipboard?.writeText(codes.join('\n'));
+            toast({ title: 'Recovery codes copied' });
+          }}
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy codes
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+/**
+ * QR code, manual key and code field to connect an authenticator app
+ */
+export function EnrollmentSteps({
+  enrollment,
+  code,
+  onCodeChange
+}: {
+  enrollment: TwoFactorEnrollment;
+  code: string;
+  onCodeChange: (code: string) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+        <img src={enrollment.qrCodeDataUrl} alt="QR code for your authenticator app" className="h-40 w-40 rounded border" />
+        <div className="space-y-2 text-sm">
+          <p>Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy.</p>
+          <p className="text-muted-foreground">Or enter this key by hand:</p>
+          <code className="block break-all rounded bg-muted px-2 py-1">{enrollment.secret}</code>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="enrollment-code">Code from the app</Label>
+        <Input
+          id="enrollment-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => onCodeChange(e.target.value)}
+          className="max-w-[12rem]"
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The signed-in user's two-factor authentication: set it up, replace the
+ * recovery codes, forget remembered devices or turn it off where the policy
+ * allows that
+ */
+export default function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_KEY,
+    queryFn: async () => readData(await apiRequest('GET', '/api/account/two-factor'), 'Failed to load two-factor authentication')
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: 'destructive' });
+
+  const enrollMutation = useMutation({
+    mutationFn: async () =>
+      readData<TwoFactorEnrollment>(await apiRequest('POST', '/api/account/two-factor/enroll'), 'Failed to start the setup'),
+    onSuccess: (result) => {
+      setEnrollment(result);
+      setCode('');
+      setRecoveryCodes(null);
+    },
+    onError: onError('Could not start the setup')
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () =>
+      readData<{ recoveryCodes: string[] }>(
+        await apiRequest('POST', '/api/account/two-factor/confirm', { code }),
+        'Failed to enable two-factor authentication'
+      ),
+    onSuccess: (result) => {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      refresh();
+      toast({ title: 'Two-factor authentication enabled' });
+    },
+    onError: onError('Could not enable two-factor authentication')
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      readData<{ recoveryCodes: string[] }>(
+        await apiRequest('POST', '/api/account/two-factor/recovery-codes', { code }),
+        'Failed to create recovery codes'
+      ),
+    onSuccess: (result) => {
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      refresh();
+    },
+    onError: onError('Could not create recovery codes')
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () =>
+      readData<null>(
+        await apiRequest('POST', '/api/account/two-factor/disable', { password, code }),
+        'Failed to disable two-factor authentication'
+      ),
+    onSuccess: () => {
+      setCode('');
+      setPassword('');
+      setRecoveryCodes(null);
+      refresh();
+      toast({ title: 'Two-factor authentication disabled' });
+    },
+    onError: onError('Could not disable two-factor authentication')
+  });
+
+  const forgetMutation = useMutation({
+    mutationFn: async (deviceId: number | null) =>
+      readData<unknown>(
+        await apiRequest('DELETE', deviceId === null ? '/api/account/two-factor/devices' : `/api/account/two-factor/devices/${deviceId}`),
+        'Failed to forget the device'
+      ),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Device forgotten' });
+    },
+    onError: onError('Could not forget the device')
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-factor authentication
+          <Badge variant={data.enabled ? 'default' : 'outline'}>{data.enabled ? 'On' : 'Off'}</Badge>
+          {data.required && <Badge variant="secondary">Required</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Signing in asks for a code from your authenticator app after your password.
+          {data.enrolledAt && ` Enabled on ${new Date(data.enrolledAt).toLocaleDateString()}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+        {!data.enabled && !enrollment && (
+          <Button onClick={() => enrollMutation.mutate()} disabled={enrollMutation.isPending}>
+            {enrollMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set up authenticator app
+          </Button>
+        )}
+
+        {!data.enabled && enrollment && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              confirmMutation.mutate();
+            }}
+          >
+            <EnrollmentSteps enrollment={enrollment} code={code} onCodeChange={setCode} />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={confirmMutation.isPending || !code}>
+                {confirmMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Turn on
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {data.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {data.recoveryCodesRemaining} of your recovery codes are left.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Authenticator code</Label>
+                <Input
+                  id="two-factor-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+              {!data.required && (
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-password">Password (to turn it off)</Label>
+                  <Input
+                    id="two-factor-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending || !code}
+              >
+                New recovery codes
+              </Button>
+              {!data.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={disableMutation.isPending || !code || !password}
+                >
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {data.trustedDevices.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Remembered devices</h4>
+              <Button variant="ghost" size="sm" onClick={() => forgetMutation.mutate(null)}>
+                Forget all
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Remembered until</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.trustedDevices.map((device) => (
+                  <TableRow key={device.id}>
+                    <TableCell className="max-w-xs truncate" title={device.userAgent ?? undefined}>
+                      {device.userAgent ?? 'Unknown browser'}
+                      {device.ipAddress && <span className="block text-xs text-muted-foreground">{device.ipAddress}</span>}
+                    </TableCell>
+                    <TableCell>{new Date(device.lastUsedAt ?? device.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{new Date(device.expiresAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => forgetMutation.mutate(device.id)} aria-label="Forget device">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useCollaboration } from '../../hooks/useCollaboration';
+import { Collaboration } from '../../hooks/useCollaboration';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
@@ -11,149 +13,222 @@ import {
   UserCircle,
   MessageCircle,
   Check,
-  Send,
-  ArrowUpCircle,
-  ArrowDownCircle,
-  Edit,
+  Lock,
+  AlertTriangle,
+  X,
 } from 'lucide-react';
+import { EditableQuestion, ElementLock, lockElementIds } from '@shared/collaborationOps';
+
+// Text edits are sent once typing pauses for this long
+const EDIT_DEBOUNCE_MS = 600;
 
 interface CollaborativeEditorProps {
-  sessionId: number;
-  userId: number;
-  username: string;
-  initialContent?: string;
+  collaboration: Collaboration;
   readOnly?: boolean;
 }
 
-const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
-  sessionId,
+interface QuestionEditorProps {
+  question: EditableQuestion;
+  lock: ElementLock | undefined;
+  userId: number | null;
+  selected: boolean;
+  readOnly: boolean;
+  collaboration: Collaboration;
+  onSelect: () => void;
+}
+
+type TextField = 'question' | 'helpText';
+
+// One question of the survey; it is locked while the user edits it
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question,
+  lock,
   userId,
-  username,
-  initialContent = '',
-  readOnly = false,
+  selected,
+  readOnly,
+  collaboration,
+  onSelect,
 }) => {
-  const [content, setContent] = useState(initialContent);
-  const [comment, setComment] = useState('');
-  const [commentPosition, setCommentPosition] = useState<number | null>(null);
-  const [isSaving, setIsSaving] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
-  const editorRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Partial<Record<TextField, string>>>({});
+  const timers = useRef<Partial<Record<TextField, ReturnType<typeof setTimeout>>>>({});
+  const lockedByOther = !!lock && lock.userId !== userId;
+  const disabled = readOnly || lockedByOther;
+  const elementId = lockElementIds.question(question.id);
 
-  // Initialize collaboration hook
-  const {
-    connected,
-    connectionId,
-    participants,
-    document: collaborativeDocument,
-    comments,
-    updateCursorPosition,
-    updateStatus,
-    sendChange,
-    addComment,
-    resolveComment,
-    leaveSession,
-  } = useCollaboration({
-    sessionId,
-    userId,
-    username,
-    onDocumentChange: (change) => {
-      console.log('Document changed:', change);
-      if (change.content !== undefined) {
-        setContent(change.content);
-      }
-    },
-    onCommentAdded: (comment) => {
-      console.log('Comment added:', comment);
-      toast({
-        title: 'New Comment',
-        description: `${comment.username}: ${comment.text}`,
-      });
-    },
-    onCommentResolved: (comment) => {
-      console.log('Comment resolved:', comment);
-      toast({
-        title: 'Comment Resolved',
-        description: `Comment by ${comment.username} has been resolved`,
-        variant: 'default',
+  // Drafts are dropped once the server has what was typed, so remote edits show again
+  useEffect(() => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      (Object.keys(prev) as TextField[]).forEach(field => {
+        if (!timers.current[field] && (question[field] ?? '') === prev[field]) {
+          delete next[field];
+        }
       });
-    },
-    onParticipantJoined: (participant) => {
-      console.log('Participant joined:', participant);
-      toast({
-        title: 'User Joined',
-        description: `${participant.username} joined the session`,
-        variant: 'default',
+      return next;
+    });
+  }, [question]);
+
+  useEffect(() => () => {
+    Object.values(timers.current).forEach(timer => timer && clearTimeout(timer));
+  }, []);
+
+  const send = async (field: TextField, value: string) => {
+    delete timers.current[field];
+    try {
+      const outcome = await collaboration.applyOperation({
+        type: 'updateQuestion',
+        questionId: question.id,
+        field,
+        value: field === 'helpText' && value === '' ? null : value,
       });
-    },
-    onParticipantLeft: (participant) => {
-      console.log('Participant left:', participant);
+      if (outcome && outcome.status !== 'applied') {
+        // The server copy wins; the draft would hide it
+        setDrafts(prev => {
+          const { [field]: _dropped, ...rest } = prev;
+          return rest;
+        });
+      }
+    } catch (error) {
       toast({
-        title: 'User Left',
-        description: `${participant.username} left the session`,
-        variant: 'default',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the change',
+        variant: 'destructive',
       });
-    },
-  });
-
-  // Update content when document changes from server
-  useEffect(() => {
-    if (collaborativeDocument && collaborativeDocument.content) {
-      setContent(collaborativeDocument.content);
     }
-  }, [collaborativeDocument]);
+  };
 
-  // Handle cursor position change
-  const handleCursorPositionChange = () => {
-    if (!editorRef.current) return;
-    
-    const cursorPosition = editorRef.current.selectionStart;
-    setCommentPosition(cursorPosition);
-    
-    // Send cursor position to server
-    updateCursorPosition({ 
-      x: cursorPosition, 
-      y: 0 // We're using a 1D text editor, so y is always 0
-    });
+  const handleTextChange = (field: TextField, value: string) => {
+    setDrafts(prev => ({ ...prev, [field]: value }));
+    const pending = timers.current[field];
+    if (pending) clearTimeout(pending);
+    timers.current[field] = setTimeout(() => send(field, value), EDIT_DEBOUNCE_MS);
   };
 
-  // Handle content change
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    if (readOnly) return;
-    
-    const newContent = e.target.value;
-    setContent(newContent);
-    
-    // Debounce sending changes to server
-    // In a real implementation, you might want to track text differences
-    // and send only the changes rather than the entire content
-    setIsSaving(true);
-    sendChange({
-      content: newContent,
-      docVersion: collaborativeDocument?.version || 0 + 1,
-      timestamp: new Date().toISOString(),
-      userId,
-      type: 'replace'
+  const flush = () => {
+    (Object.keys(timers.current) as TextField[]).forEach(field => {
+      const pending = timers.current[field];
+      if (pending) {
+        clearTimeout(pending);
+        send(field, drafts[field] ?? '');
+      }
     });
-    
-    setTimeout(() => {
-      setIsSaving(false);
-    }, 1000);
   };
 
+  const handleFocus = async () => {
+    onSelect();
+    if (disabled || lock?.userId === userId) return;
+    try {
+      const outcome = await collaboration.lockElement({ elementType: 'question', elementId });
+      if (outcome && !outcome.acquired) {
+        toast({
+          title: 'Question Locked',
+          description: `${outcome.lock.username} is editing this question`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error locking question:', error);
+    }
+  };
+
+  // Keeps the lock while focus moves between the fields of this question
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    flush();
+    if (lock?.userId === userId) {
+      collaboration.unlockElement({ elementType: 'question', elementId }).catch(error => {
+        console.error('Error unlocking question:', error);
+      });
+    }
+  };
+
+  const handleRequiredChange = (required: boolean) => {
+    collaboration.applyOperation({
+      type: 'updateQuestion',
+      questionId: question.id,
+      field: 'required',
+      value: required,
+    }).catch(error => console.error('Error updating question:', error));
+  };
+
+  return (
+    <div
+      className={`p-4 rounded-lg border ${selected ? 'border-primary' : 'border-muted'} ${lockedByOther ? 'bg-muted/50' : ''}`}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onClick={onSelect}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <Badge variant="outline">Q{question.order}</Badge>
+        {lock && (
+          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+            <Lock className="mr-1 h-3 w-3" />
+            {lock.userId === userId ? 'You are editing' : `${lock.username} is editing`}
+          </Badge>
+        )}
+      </div>
+      <Input
+        value={drafts.question ?? question.question}
+        onChange={(e) => handleTextChange('question', e.target.value)}
+        disabled={disabled}
+        placeholder="Question text"
+        className="mb-2 font-medium"
+      />
+      <Textarea
+        value={drafts.helpText ?? question.helpText ?? ''}
+        onChange={(e) => handleTextChange('helpText', e.target.value)}
+        disabled={disabled}
+        placeholder="Help text (optional)"
+        className="min-h-[60px]"
+      />
+      <div className="mt-2 flex items-center gap-2 text-sm text-muted-foreground">
+        <Switch
+          checked={question.required !== false}
+          onCheckedChange={handleRequiredChange}
+          disabled={disabled}
+        />
+        Required
+      </div>
+    </div>
+  );
+};
+
+const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
+  collaboration,
+  readOnly = false,
+}) => {
+  const [comment, setComment] = useState('');
+  const [selectedQuestionId, setSelectedQuestionId] = useState<number | null>(null);
+  const {
+    connected,
+    participants,
+    workspace,
+    user,
+    conflicts,
+    comments,
+    updateStatus,
+    clearConflicts,
+    addComment,
+    resolveComment,
+  } = collaboration;
+  const userId = user?.id ?? null;
+  const questions = workspace?.questions ?? [];
+  const questionLocks = new Map(
+    (workspace?.locks ?? [])
+      .filter(lock => lock.elementType === 'question')
+      .map(lock => [lock.elementId, lock] as const)
+  );
+
   // Handle adding comment
   const handleAddComment = () => {
-    if (!comment || commentPosition === null) return;
-    
+    if (!comment) return;
+
     addComment({
       text: comment,
-      position: commentPosition,
-      userId,
-      username,
-      createdAt: new Date().toISOString(),
-      resolved: false
+      questionId: selectedQuestionId,
     });
-    
+
     setComment('');
   };
 
@@ -162,36 +237,17 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
     resolveComment(commentId);
   };
 
-  // Clean up on unmount
+  // Update status when the user focuses/leaves the window
   useEffect(() => {
-    return () => {
-      // Notify server that user is leaving
-      leaveSession();
-    };
-  }, [leaveSession]);
+    const handleFocus = () => updateStatus('online');
+    const handleBlur = () => updateStatus('idle');
+
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('blur', handleBlur);
 
-  // Update status when user focuses/blurs the editor
-  useEffect(() => {
-    const handleFocus = () => {
-      updateStatus('online');
-      setIsEditing(true);
-    };
-    
-    const handleBlur = () => {
-      updateStatus('idle');
-      setIsEditing(false);
-    };
-    
-    if (editorRef.current) {
-      editorRef.current.addEventListener('focus', handleFocus);
-      editorRef.current.addEventListener('blur', handleBlur);
-    }
-    
     return () => {
-      if (editorRef.current) {
-        editorRef.current.removeEventListener('focus', handleFocus);
-        editorRef.current.removeEventListener('blur', handleBlur);
-      }
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('blur', handleBlur);
     };
   }, [updateStatus]);
 
@@ -208,6 +264,13 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
     }
   };
 
+  const questionTitle = (questionId: number | null) => {
+    if (questionId === null) return 'General';
+    return questions.find(q => q.id === questionId)?.question || 'Deleted question';
+  };
+
+  const selectedQuestion = questions.find(q => q.id === selectedQuestionId);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
       {/* Main editor */}
@@ -221,11 +284,6 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                   Connected
                 </Badge>
               )}
-              {isSaving && (
-                <Badge variant="outline" className="ml-2">
-                  Saving...
-                </Badge>
-              )}
             </CardTitle>
             <div className="flex gap-2">
               {participants
@@ -236,9 +294,9 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                       <TooltipTrigger asChild>
                         <div className="relative">
                           <div className={`w-3 h-3 absolute bottom-0 right-0 rounded-full ${getStatusColor(participant.status)}`}></div>
-                          <UserCircle 
-                            size={24} 
-                            className={participant.userId === userId ? 'text-primary' : 'text-gray-500'} 
+                          <UserCircle
+                            size={24}
+                            className={participant.userId === userId ? 'text-primary' : 'text-gray-500'}
                           />
                         </div>
                       </TooltipTrigger>
@@ -251,28 +309,57 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
             </div>
           </CardHeader>
           <CardContent>
-            <Textarea
-              ref={editorRef}
-              value={content}
-              onChange={handleContentChange}
-              onKeyUp={handleCursorPositionChange}
-              onClick={handleCursorPositionChange}
-              readOnly={readOnly}
-              placeholder="Start typing..."
-              className="min-h-[300px] font-mono"
-            />
-            
+            {conflicts.length > 0 && (
+              <div className="mb-4 flex items-start justify-between rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5" />
+                  <div>
+                    {conflicts[conflicts.length - 1].message}.
+                    {' '}The latest version is shown; check it before editing again.
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={clearConflicts} className="h-6 w-6 p-0">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {!workspace ? (
+              <div className="text-center text-muted-foreground p-6">
+                Loading survey...
+              </div>
+            ) : questions.length === 0 ? (
+              <div className="text-center text-muted-foreground p-6">
+                This survey has no questions yet. Add them in the Questions tab.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {questions.map(question => (
+                  <QuestionEditor
+                    key={question.id}
+                    question={question}
+                    lock={questionLocks.get(lockElementIds.question(question.id))}
+                    userId={userId}
+                    selected={question.id === selectedQuestionId}
+                    readOnly={readOnly}
+                    collaboration={collaboration}
+                    onSelect={() => setSelectedQuestionId(question.id)}
+                  />
+                ))}
+              </div>
+            )}
+
             {!readOnly && (
               <div className="mt-4 flex gap-2">
                 <Textarea
                   value={comment}
                   onChange={(e) => setComment(e.target.value)}
-                  placeholder="Add a comment..."
+                  placeholder={selectedQuestion ? `Comment on "${selectedQuestion.question}"...` : 'Add a comment...'}
                   className="flex-1"
                 />
-                <Button 
-                  onClick={handleAddComment} 
-                  disabled={!comment || commentPosition === null}
+                <Button
+                  onClick={handleAddComment}
+                  disabled={!comment}
                   className="self-end"
                 >
                   <MessageCircle className="mr-2 h-4 w-4" />
@@ -283,7 +370,7 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
           </CardContent>
         </Card>
       </div>
-      
+
       {/* Comments sidebar */}
       <div className="md:col-span-1">
         <Card>
@@ -299,9 +386,10 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
               ) : (
                 <div className="space-y-4">
                   {comments.map(comment => (
-                    <div 
-                      key={comment.id} 
+                    <div
+                      key={comment.id}
                       className={`p-3 rounded-lg ${comment.resolved ? 'bg-muted/50' : 'bg-muted'}`}
+                      onClick={() => comment.questionId !== null && setSelectedQuestionId(comment.questionId)}
                     >
                       <div className="flex justify-between items-start mb-1">
                         <div className="font-semibold flex items-center">
@@ -321,9 +409,8 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
                       </div>
                       <div className="text-sm">{comment.text}</div>
                       <div className="flex justify-between mt-2 text-xs text-muted-foreground">
-                        <div>
-                          <ArrowUpCircle className="inline h-3 w-3 mr-1" />
-                          Pos: {comment.position}
+                        <div className="truncate">
+                          On: {questionTitle(comment.questionId)}
                         </div>
                         {comment.resolved && (
                           <div>
@@ -344,4 +431,4 @@ const CollaborativeEditor: React.FC<CollaborativeEditorProps> = ({
 };
 
 export { CollaborativeEditor };
-export default CollaborativeEditor;
\ No newline at end of file
+export default CollaborativeEditor;
@@ -42,8 +42,20 @@ interface ElementLockingProps {
   onRefreshLock: (elementId: string) => void;
   onViewLockedElement: (elementId: string, elementType: LockableElementType) => void;
   readOnly?: boolean;
+  // How long a lock is held without being extended
+  lockTimeoutMs?: number;
 }
 
+// Duration as the lock texts show it, e.g. "30 seconds" or "5 minutes"
+const formatDuration = (ms: number) => {
+  if (ms < 60 * 1000) {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return seconds === 1 ? '1 second' : `${seconds} seconds`;
+  }
+  const minutes = Math.floor(ms / (60 * 1000));
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+};
+
 const ElementLocking: React.FC<ElementLockingProps> = ({
   sessionId,
   userId,
@@ -54,6 +66,7 @@ const ElementLocking: React.FC<ElementLockingProps> = ({
   onRefreshLock,
   onViewLockedElement,
   readOnly = false,
+  lockTimeoutMs = 30 * 60 * 1000,
 }) => {
   const { toast } = useToast();
   
@@ -62,13 +75,13 @@ const ElementLocking: React.FC<ElementLockingProps> = ({
   const otherLocks = lockedElements.filter(lock => lock.lockedBy.id !== userId && lock.active);
   const expiredLocks = lockedElements.filter(lock => !lock.active);
   
-  // Check if a lock is about to expire (within 5 minutes)
+  // Check if a lock is about to expire (within 5 minutes, or the last third of a short lock)
   const isLockExpiringSoon = (expiresAt: Date) => {
     const now = new Date();
     const expirationTime = new Date(expiresAt);
-    const fiveMinutes = 5 * 60 * 1000; // 5 minutes in milliseconds
+    const threshold = Math.min(5 * 60 * 1000, lockTimeoutMs / 3);
     
-    return expirationTime.getTime() - now.getTime() < fiveMinutes;
+    return expirationTime.getTime() - now.getTime() < threshold;
   };
   
   // Format remaining time for a lock
@@ -79,11 +92,7 @@ const ElementLocking: React.FC<ElementLockingProps> = ({
     
     if (remainingMs <= 0) return 'Expired';
     
-    const minutes = Math.floor(remainingMs / (60 * 1000));
-    
-    if (minutes < 1) return 'Less than a minute';
-    if (minutes === 1) return '1 minute';
-    return `${minutes} minutes`;
+    return formatDuration(remainingMs);
   };
   
   // Get the display name for an element type
@@ -223,7 +232,7 @@ const ElementLocking: React.FC<ElementLockingProps> = ({
           {!readOnly && (
             <div className="mt-4 text-sm text-center text-muted-foreground">
               <p>
-                Locked elements will be automatically released after 30 minutes of inactivity.
+                Locked elements will be automatically released after {formatDuration(lockTimeoutMs)} of inactivity.
                 You can extend your locks if you need more time.
               </p>
             </div>
@@ -18,8 +18,11 @@ import {
   UserCheck, 
   Send, 
   Edit, 
-  Eye
+  Eye,
+  ShieldCheck,
+  ShieldAlert
 } from 'lucide-react';
+import type { PublishGate } from '@shared/approvals';
 
 export type ReviewStatus = 'pending' | 'in_progress' | 'approved' | 'rejected' | 'changes_requested';
 
@@ -57,11 +60,17 @@ interface ReviewProcessProps {
   userId: number;
   username: string;
   reviewRequests: ReviewRequest[];
-  onCreateReviewRequest: (title: string, description: string, reviewerIds: number[]) => void;
-  onUpdateReviewStatus: (reviewId: string, status: ReviewStatus) => void;
-  onAddReviewComment: (reviewId: string, content: string, elementId?: string) => void;
-  onCompleteReview: (reviewId: string, approved: boolean, comment: string) => void;
+  // Handlers resolve to false when the request failed; the caller reports why
+  onCreateReviewRequest: (title: string, description: string, reviewerIds: number[]) => Promise<boolean>;
+  onCancelReview: (reviewId: string) => Promise<boolean>;
+  onAddReviewComment: (reviewId: string, content: string, elementId?: string) => Promise<boolean>;
+  onCompleteReview: (reviewId: string, approved: boolean, comment: string) => Promise<boolean>;
   availableReviewers: Array<{ id: number; username: string }>;
+  // Reviewers the company's approval workflow always asks
+  requiredReviewers?: Array<{ id: number; username: string }>;
+  // Company owners and admins may decide reviews they were not asked for
+  isApprover?: boolean;
+  publishGate?: PublishGate | null;
   readOnly?: boolean;
 }
 
@@ -71,10 +80,13 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
   username,
   reviewRequests,
   onCreateReviewRequest,
-  onUpdateReviewStatus,
+  onCancelReview,
   onAddReviewComment,
   onCompleteReview,
   availableReviewers,
+  requiredReviewers = [],
+  isApprover = false,
+  publishGate = null,
   readOnly = false,
 }) => {
   const [newReview, setNewReview] = useState({
@@ -93,7 +105,7 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
     : null;
   
   // Handle creating a new review request
-  const handleCreateReviewRequest = () => {
+  const handleCreateReviewRequest = async () => {
     if (!newReview.title) {
       toast({
         title: 'Error',
@@ -103,20 +115,12 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
       return;
     }
     
-    if (newReview.selectedReviewers.length === 0) {
-      toast({
-        title: 'Error',
-        description: 'You must select at least one reviewer',
-        variant: 'destructive',
-      });
-      return;
-    }
-    
-    onCreateReviewRequest(
+    const created = await onCreateReviewRequest(
       newReview.title, 
       newReview.description, 
       newReview.selectedReviewers
     );
+    if (!created) return;
     
     // Reset form and close dialog
     setNewReview({
@@ -133,10 +137,10 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
   };
   
   // Handle adding a comment to a review
-  const handleAddComment = () => {
+  const handleAddComment = async () => {
     if (!activeReviewId || !commentText) return;
     
-    onAddReviewComment(activeReviewId, commentText);
+    if (!(await onAddReviewComment(activeReviewId, commentText))) return;
     setCommentText('');
     
     toast({
@@ -146,17 +150,17 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
   };
   
   // Handle completing a review
-  const handleCompleteReview = (reviewId: string, approved: boolean) => {
-    if (!commentText) {
+  const handleCompleteReview = async (reviewId: string, approved: boolean) => {
+    if (!approved && !commentText) {
       toast({
         title: 'Error',
-        description: 'Please add a comment to complete the review',
+        description: 'Please explain what needs to change',
         variant: 'destructive',
       });
       return;
     }
     
-    onCompleteReview(reviewId, approved, commentText);
+    if (!(await onCompleteReview(reviewId, approved, commentText))) return;
     setCommentText('');
     
     toast({
@@ -194,9 +198,21 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
     }
   };
   
-  // Check if current user is a reviewer for a specific review
+  // Check if the current user can still approve or reject a specific review
   const isReviewer = (review: ReviewRequest) => {
-    return review.reviewers.some(r => r.id === userId);
+    if (!['pending', 'in_progress'].includes(review.status)) return false;
+    const reviewer = review.reviewers.find(r => r.id === userId);
+    if (reviewer) return reviewer.status === 'pending';
+    return isApprover && review.requestedBy.id !== userId;
+  };
+
+  const handleCancelReview = async (reviewId: string) => {
+    if (!(await onCancelReview(reviewId))) return;
+    setActiveReviewId(null);
+    toast({
+      title: 'Review Cancelled',
+      description: 'The review request has been withdrawn.',
+    });
   };
   
   // Get reviewer status for displaying in the UI
@@ -255,8 +271,24 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
                   />
                 </div>
                 
+                {requiredReviewers.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Required Reviewers</label>
+                    <div className="flex flex-wrap gap-2">
+                      {requiredReviewers.map(reviewer => (
+                        <Badge key={reviewer.id} variant="secondary">{reviewer.username}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Your company's approval workflow always asks these reviewers.
+                    </p>
+                  </div>
+                )}
+                
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Select Reviewers</label>
+                  <label className="text-sm font-medium">
+                    {requiredReviewers.length > 0 ? 'Additional Reviewers (Optional)' : 'Select Reviewers'}
+                  </label>
                   <div className="border rounded-md p-2 max-h-40 overflow-y-auto">
                     {availableReviewers.length === 0 ? (
                       <div className="text-sm text-muted-foreground p-2">
@@ -320,6 +352,25 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
         )}
       </div>
       
+      {publishGate?.required && (
+        <div
+          className={`flex items-start gap-2 rounded-md border p-3 text-sm ${
+            publishGate.approved
+              ? 'border-green-200 bg-green-50 text-green-800'
+              : 'border-amber-200 bg-amber-50 text-amber-800'
+          }`}
+        >
+          {publishGate.approved
+            ? <ShieldCheck className="h-4 w-4 mt-0.5 shrink-0" />
+            : <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />}
+          <span>
+            {publishGate.approved
+              ? 'The current questions are approved and can be published.'
+              : publishGate.reason}
+          </span>
+        </div>
+      )}
+      
       <Tabs defaultValue="active">
         <TabsList>
           <TabsTrigger value="active" className="flex items-center gap-2">
@@ -625,6 +676,16 @@ const ReviewProcess: React.FC<ReviewProcessProps> = ({
                       className="min-h-20"
                     />
                     <div className="flex items-center justify-end space-x-2">
+                      {(activeReview.requestedBy.id === userId || isApprover) &&
+                        ['pending', 'in_progress'].includes(activeReview.status) && (
+                        <Button 
+                          variant="ghost"
+                          onClick={() => handleCancelReview(activeReview.id)}
+                        >
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Cancel Review
+                        </Button>
+                      )}
                       {isReviewer(activeReview) && activeReview.status !== 'approved' && (
                         <>
                           <Button 
@@ -4,8 +4,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { History, Save, Undo2, Redo2, Clock, Tag, PlusCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { History, Save, Undo2, Redo2, Clock, Tag, PlusCircle, CheckCircle2, XCircle, Upload } from 'lucide-react';
+import type { FieldChange, SurveyVersionDiff } from '@shared/surveyVersions';
 
 export interface Version {
   id: string;
@@ -17,6 +19,10 @@ export interface Version {
     username: string;
   };
   isCurrent: boolean;
+  // Set for stored survey versions
+  versionNumber?: number;
+  status?: 'draft' | 'published';
+  responseCount?: number;
 }
 
 interface VersionControlProps {
@@ -28,9 +34,124 @@ interface VersionControlProps {
   onSwitchVersion: (versionId: string) => void;
   onCompareVersions: (versionId1: string, versionId2: string) => void;
   onRestoreVersion: (versionId: string) => void;
+  // Make a draft version live
+  onPublishVersion?: (versionId: string) => void;
+  // Result of the last comparison, shown until closed
+  comparison?: SurveyVersionDiff | null;
+  onCloseComparison?: () => void;
   readOnly?: boolean;
 }
 
+const SETTING_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  surveyType: 'Survey type',
+  estimatedTime: 'Estimated time',
+  customWelcomeMessage: 'Welcome message',
+  customCompletionMessage: 'Completion message',
+  redirectUrl: 'Redirect URL',
+  allowAnonymous: 'Anonymous responses',
+  requireEmail: 'Require email',
+  collectDemographics: 'Collect demographics',
+  collectAge: 'Collect age',
+  collectGender: 'Collect gender',
+  collectLocation: 'Collect location',
+  collectEducation: 'Collect education',
+  collectIncome: 'Collect income',
+  surveyLanguage: 'Language',
+  translationLanguages: 'Translation languages',
+  publishedLanguages: 'Published languages',
+  translations: 'Translations',
+  traitModel: 'Trait model',
+  question: 'Question text',
+  questionType: 'Question type',
+  required: 'Required',
+  helpText: 'Help text',
+  order: 'Position',
+  customValidation: 'Validation',
+  sliderConfig: 'Slider settings',
+  scenarioText: 'Scenario text',
+  displayLogic: 'Display rules',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') {
+    const text = JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  }
+  return String(value);
+};
+
+const FieldChangeList: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <ul className="space-y-1 text-sm">
+    {changes.map((change) => (
+      <li key={change.field}>
+        <span className="font-medium">{SETTING_LABELS[change.field] || change.field}:</span>{' '}
+        <span className="line-through text-red-600">{formatValue(change.before)}</span>{' '}
+        <span className="text-green-700">{formatValue(change.after)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+const KIND_STYLES: Record<'added' | 'removed' | 'changed', string> = {
+  added: 'bg-green-50 text-green-700 border-green-200',
+  removed: 'bg-red-50 text-red-700 border-red-200',
+  changed: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+// Structural diff between two versions: settings, then questions
+const VersionDiffView: React.FC<{ diff: SurveyVersionDiff; versions: Version[] }> = ({ diff, versions }) => {
+  const nameOf = (id: number) => versions.find(v => v.id === String(id))?.name || `Version #${id}`;
+  const unchanged = diff.settings.length === 0 && diff.questions.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Changes from <span className="font-medium">{nameOf(diff.fromVersionId)}</span> to{' '}
+        <span className="font-medium">{nameOf(diff.toVersionId)}</span>:{' '}
+        {diff.summary.questionsAdded} added, {diff.summary.questionsRemoved} removed,{' '}
+        {diff.summary.questionsChanged} changed questions; {diff.summary.settingsChanged} changed settings.
+      </p>
+
+      {unchanged && <p className="text-sm">These versions are identical.</p>}
+
+      {diff.settings.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Settings</h4>
+          <FieldChangeList changes={diff.settings} />
+        </div>
+      )}
+
+      {diff.questions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Questions</h4>
+          {diff.questions.map((change) => (
+            <div key={`${change.kind}-${change.questionId}`} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={KIND_STYLES[change.kind]}>{change.kind}</Badge>
+                <span className="text-sm font-medium">Q{change.order}: {change.question}</span>
+              </div>
+              {change.fields.length > 0 && <FieldChangeList changes={change.fields} />}
+              {change.options.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {change.options.map((option) => (
+                    <li key={`${option.kind}-${option.key}`}>
+                      <Badge variant="outline" className={`mr-2 ${KIND_STYLES[option.kind]}`}>option {option.kind}</Badge>
+                      {option.label}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const VersionControl: React.FC<VersionControlProps> = ({
   versions,
   sessionId,
@@ -40,6 +161,9 @@ const VersionControl: React.FC<VersionControlProps> = ({
   onSwitchVersion,
   onCompareVersions,
   onRestoreVersion,
+  onPublishVersion,
+  comparison,
+  onCloseComparison,
   readOnly = false,
 }) => {
   const [newVersion, setNewVersion] = useState({ name: '', description: '' });
@@ -174,6 +298,14 @@ const VersionControl: React.FC<VersionControlProps> = ({
                       <div className="w-2 h-2 rounded-full bg-primary"></div>
                     )}
                     <h4 className="font-medium">{version.name}</h4>
+                    {version.status === 'draft' && (
+                      <Badge variant="outline">Draft</Badge>
+                    )}
+                    {version.status === 'published' && version.responseCount !== undefined && (
+                      <span className="text-xs text-muted-foreground">
+                        {version.responseCount} {version.responseCount === 1 ? 'response' : 'responses'}
+                      </span>
+                    )}
                   </div>
                   
                   {version.description && (
@@ -192,6 +324,17 @@ const VersionControl: React.FC<VersionControlProps> = ({
                 
                 {!readOnly && !version.isCurrent && (
                   <div className="flex items-center space-x-2">
+                    {onPublishVersion && version.status === 'draft' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onPublishVersion(version.id)}
+                        title="Publish this draft (new responses will answer it)"
+                      >
+                        <Upload className="h-4 w-4" />
+                      </Button>
+                    )}
+                    
                     <Button 
                       variant="ghost" 
                       size="sm"
@@ -227,6 +370,16 @@ const VersionControl: React.FC<VersionControlProps> = ({
           )}
         </div>
       </div>
+      
+      {/* Version Comparison */}
+      <Dialog open={!!comparison} onOpenChange={(open) => !open && onCloseComparison?.()}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare Versions</DialogTitle>
+          </DialogHeader>
+          {comparison && <VersionDiffView diff={comparison} versions={versions} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
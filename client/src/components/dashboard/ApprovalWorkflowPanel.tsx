@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ShieldCheck } from 'lucide-react';
+import {
+  ApprovalMember,
+  ApprovalWorkflow,
+  ApprovalWorkflowInput,
+  MAX_REQUIRED_APPROVALS
+} from '@shared/approvals';
+
+const WORKFLOW_KEY = ['/api/approval-workflow'];
+
+interface WorkflowSettings {
+  workflow: ApprovalWorkflow;
+  members: ApprovalMember[];
+  canEdit: boolean;
+}
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+/**
+ * The company's approval workflow: whether surveys need an approved review
+ * before they go live, who must approve and how many approvals are needed
+ */
+export default function ApprovalWorkflowPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ApprovalWorkflowInput | null>(null);
+
+  const { data, isLoading } = useQuery<WorkflowSettings>({
+    queryKey: WORKFLOW_KEY,
+    queryFn: async () => readData(await apiRequest('GET', '/api/approval-workflow'), 'Failed to load the approval workflow')
+  });
+
+  useEffect(() => {
+    if (data) {
+      const { enabled, reviewerIds, requiredApprovals, allowSelfApproval } = data.workflow;
+      setDraft({ enabled, reviewerIds, requiredApprovals, allowSelfApproval });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (workflow: ApprovalWorkflowInput) =>
+      readData<ApprovalWorkflow>(await apiRequest('PUT', '/api/approval-workflow', workflow), 'Failed to save the approval workflow'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WORKFLOW_KEY });
+      toast({ title: 'Approval workflow saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save the approval workflow', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (isLoading || !data || !draft) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const readOnly = !data.canEdit;
+  const update = (changes: Partial<ApprovalWorkflowInput>) => setDraft({ ...draft, ...changes });
+  const toggleReviewer = (id: number, checked: boolean) =>
+    update({
+      reviewerIds: checked ? [...draft.reviewerIds, id] : draft.reviewerIds.filter(reviewerId => reviewerId !== id)
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2" />
+          Approval Workflow
+        </CardTitle>
+        <CardDescription>
+          Require an approved review before a survey can be published. Reviews are requested from the
+          Reviews tab of a collaboration session; re-activating a survey without changes needs no new review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div>
+            <Label htmlFor="approval-enabled" className="font-medium">Require approval to publish</Label>
+            <p className="text-sm text-muted-foreground">
+              Surveys can only go live with questions an approved review covers.
+            </p>
+          </div>
+          <Switch
+            id="approval-enabled"
+            checked={draft.enabled}
+            disabled={readOnly}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Required reviewers</Label>
+          <p className="text-sm text-muted-foreground">
+            Every review waits for all of them. Company owners and admins can approve any review.
+          </p>
+          <div className="max-h-56 overflow-y-auto rounded-md border p-2 space-y-2">
+            {data.members.length === 0 ? (
+              <p className="p-2 text-sm text-muted-foreground">Your company has no other users yet.</p>
+            ) : (
+              data.members.map(member => (
+                <label key={member.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.reviewerIds.includes(member.id)}
+                    disabled={readOnly}
+                    onCheckedChange={(checked) => toggleReviewer(member.id, checked === true)}
+                  />
+                  <span>{member.username}</span>
+                  <Badge variant="outline" className="text-xs">{member.role.replace(/_/g, ' ')}</Badge>
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="required-approvals">Approvals needed</Label>
+            <Input
+              id="required-approvals"
+              type="number"
+              min={1}
+              max={MAX_REQUIRED_APPROVALS}
+              value={draft.requiredApprovals}
+              disabled={readOnly}
+              onChange={(e) => update({
+                requiredApprovals: Math.min(MAX_REQUIRED_APPROVALS, Math.max(1, parseInt(e.target.value) || 1))
+              })}
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-md border p-4">
+            <Label htmlFor="allow-self-approval">Requesters may approve their own reviews</Label>
+            <Switch
+              id="allow-self-approval"
+              checked={draft.allowSelfApproval}
+              disabled={readOnly}
+              onCheckedChange={(allowSelfApproval) => update({ allowSelfApproval })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {readOnly
+              ? 'Only company owners and admins can change the approval workflow.'
+              : data.workflow.updatedAt
+                ? `Last changed ${new Date(data.workflow.updatedAt).toLocaleString()}`
+                : 'Not configured yet'}
+          </span>
+          {!readOnly && (
+            <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending}>
+              Save workflow
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -34,6 +34,13 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import {
+  REPORT_SECTIONS,
+  REPORT_SECTION_LABELS,
+  ReportSection,
+  SHARED_REPORT_DEFAULT_DAYS
+} from "@shared/sharedReports";
 import {
   Tooltip,
   TooltipContent,
@@ -114,11 +121,22 @@ interface DashboardStats {
 interface DashboardViewProps {
   stats?: DashboardStats;
   surveyId?: string;
+  // Sections visible on a shared report; the full dashboard when omitted
+  sections?: ReportSection[];
 }
 
-const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
+const DASHBOARD_TABS: ReportSection[] = ['traits', 'demographics', 'stereotypes', 'products', 'engagement', 'business'];
+
+const DashboardView = ({ stats, surveyId = 'all', sections }: DashboardViewProps) => {
   const [isExporting, setIsExporting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [shareExpiresInDays, setShareExpiresInDays] = useState(String(SHARED_REPORT_DEFAULT_DAYS));
+  const [sharePassword, setSharePassword] = useState('');
+  const [shareSections, setShareSections] = useState<ReportSection[]>([...REPORT_SECTIONS]);
+  const isSharedView = !!sections;
+  const isTabVisible = (tab: ReportSection) => !sections || sections.includes(tab);
+  const defaultTab = DASHBOARD_TABS.find(isTabVisible) ?? 'traits';
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportFormat, setExportFormat] = useState<'csv' | 'json' | 'pdf'>('csv');
   const [exportDataTypes, setExportDataTypes] = useState({
@@ -262,7 +280,7 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
         method: 'GET',
         credentials: 'include',
         headers: {
-          'Accept': exportFormat === 'json' ? 'application/json' : exportFormat === 'pdf' ? 'text/html' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Accept': exportFormat === 'json' ? 'application/json' : exportFormat === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
         }
       });
 
@@ -270,27 +288,7 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
         throw new Error(`Export failed: ${response.statusText}`);
       }
 
-      // Handle PDF differently - open in new window for printing
-      if (exportFormat === 'pdf') {
-        const htmlContent = await response.text();
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = window.URL.createObjectURL(blob);
-        const newWindow = window.open(url, '_blank');
-        if (newWindow) {
-          newWindow.onload = () => {
-            setTimeout(() => {
-              newWindow.print();
-            }, 250);
-          };
-        }
-        // Clean up after a delay
-        setTimeout(() => window.URL.revokeObjectURL(url), 1000);
-        toast({ title: "PDF opened", description: "Use your browser's print dialog to save as PDF.", variant: "default" });
-        setIsExporting(false);
-        return;
-      }
-
-      // Get the blob data for CSV and JSON
+      // Get the blob data for the Excel, JSON or PDF file
       const blob = await response.blob();
       
       // Create a download link
@@ -340,6 +338,12 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
     }
   };
   
+  const toggleShareSection = (section: ReportSection, checked: boolean) => {
+    setShareSections(prev =>
+      checked ? REPORT_SECTIONS.filter(s => s === section || prev.includes(s)) : prev.filter(s => s !== section)
+    );
+  };
+
   const handleShareReport = async () => {
     try {
       setIsSharing(true);
@@ -354,7 +358,9 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
         body: JSON.stringify({
           companyId: companyId,
           surveyId: surveyId,
-          expiresInDays: 30
+          expiresInDays: parseInt(shareExpiresInDays),
+          password: sharePassword || undefined,
+          sections: shareSections
         })
       });
 
@@ -365,13 +371,15 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
 
       const data = await response.json();
       const shareableLink = data.shareableLink;
+      setShowShareModal(false);
+      setSharePassword('');
       
       // Copy to clipboard
       navigator.clipboard.writeText(shareableLink)
         .then(() => {
           toast({
             title: "Link copied to clipboard",
-            description: "You can now share this link with others. The link will expire in 30 days.",
+            description: `You can now share this link with others. The link will expire in ${shareExpiresInDays} days.`,
             variant: "default"
           });
         })
@@ -498,16 +506,28 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
             </div>
           </div>
 
-          <Tabs defaultValue="traits" className="mb-8">
+          <Tabs defaultValue={defaultTab} className="mb-8">
             <TabsList className="flex flex-wrap w-full mb-2 h-auto min-h-[2.5rem] gap-1 p-1">
-              <TabsTrigger value="traits" className="px-3 py-2 text-sm whitespace-nowrap">Personality Traits</TabsTrigger>
-              <TabsTrigger value="demographics" className="px-3 py-2 text-sm whitespace-nowrap">Demographics</TabsTrigger>
-              <TabsTrigger value="stereotypes" className="px-3 py-2 text-sm whitespace-nowrap">Gender Stereotypes</TabsTrigger>
-              <TabsTrigger value="products" className="px-3 py-2 text-sm whitespace-nowrap">Recommended Products</TabsTrigger>
-              <TabsTrigger value="engagement" className="px-3 py-2 text-sm whitespace-nowrap">Engagement</TabsTrigger>
-              <TabsTrigger value="business" className="px-3 py-2 text-sm whitespace-nowrap">
-                Business Context
-              </TabsTrigger>
+              {isTabVisible('traits') && (
+                <TabsTrigger value="traits" className="px-3 py-2 text-sm whitespace-nowrap">Personality Traits</TabsTrigger>
+              )}
+              {isTabVisible('demographics') && (
+                <TabsTrigger value="demographics" className="px-3 py-2 text-sm whitespace-nowrap">Demographics</TabsTrigger>
+              )}
+              {isTabVisible('stereotypes') && (
+                <TabsTrigger value="stereotypes" className="px-3 py-2 text-sm whitespace-nowrap">Gender Stereotypes</TabsTrigger>
+              )}
+              {isTabVisible('products') && (
+                <TabsTrigger value="products" className="px-3 py-2 text-sm whitespace-nowrap">Recommended Products</TabsTrigger>
+              )}
+              {isTabVisible('engagement') && (
+                <TabsTrigger value="engagement" className="px-3 py-2 text-sm whitespace-nowrap">Engagement</TabsTrigger>
+              )}
+              {isTabVisible('business') && (
+                <TabsTrigger value="business" className="px-3 py-2 text-sm whitespace-nowrap">
+                  Business Context
+                </TabsTrigger>
+              )}
             </TabsList>
             <TabsContent value="traits" className="mt-6">
               <Card>
@@ -1588,14 +1608,16 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
                 <Save className="h-4 w-4 mr-2" />
                 {isExporting ? 'Exporting...' : 'Export Data'}
               </Button>
-              <Button
-                className="ml-3 inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary-dark"
-                onClick={handleShareReport}
-                disabled={isSharing}
-              >
-                <Share2 className="h-4 w-4 mr-2" />
-                {isSharing ? 'Sharing...' : 'Share Report'}
-              </Button>
+              {!isSharedView && (
+                <Button
+                  className="ml-3 inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-primary hover:bg-primary-dark"
+                  onClick={() => setShowShareModal(true)}
+                  disabled={isSharing}
+                >
+                  <Share2 className="h-4 w-4 mr-2" />
+                  {isSharing ? 'Sharing...' : 'Share Report'}
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
@@ -1739,6 +1761,93 @@ const DashboardView = ({ stats, surveyId = 'all' }: DashboardViewProps) => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Share Report Modal */}
+      <Dialog open={showShareModal} onOpenChange={setShowShareModal}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Share Report</DialogTitle>
+            <DialogDescription>
+              Create a link to the report for {surveyId === 'all' ? 'all surveys' : 'the selected survey'}. Links can be revoked or extended later from the sharing manager.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Link Expires After</Label>
+              <Select value={shareExpiresInDays} onValueChange={setShareExpiresInDays}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue placeholder="Select expiry" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="90">90 days</SelectItem>
+                  <SelectItem value="365">1 year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={sharePassword}
+                onChange={(e) => setSharePassword(e.target.value)}
+                placeholder="Leave empty for an open link"
+              />
+              {sharePassword.length > 0 && sharePassword.length < 4 && (
+                <p className="text-xs text-red-500">The password needs at least 4 characters</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Visible Sections</Label>
+              <div className="grid grid-cols-2 gap-3 border rounded-lg p-4">
+                {REPORT_SECTIONS.map(section => (
+                  <div key={section} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`share-section-${section}`}
+                      checked={shareSections.includes(section)}
+                      onCheckedChange={(checked) => toggleShareSection(section, checked === true)}
+                    />
+                    <Label htmlFor={`share-section-${section}`} className="text-sm font-normal cursor-pointer">
+                      {REPORT_SECTION_LABELS[section]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowShareModal(false)}
+              disabled={isSharing}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleShareReport}
+              disabled={isSharing || shareSections.length === 0 || (sharePassword.length > 0 && sharePassword.length < 4)}
+            >
+              {isSharing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Creating link...
+                </>
+              ) : (
+                <>
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Create Link
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
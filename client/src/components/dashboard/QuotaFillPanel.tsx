@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/hooks/useRealtime';
+import { apiRequest } from '@/lib/queryClient';
+import QuotaEditor from '@/components/survey/QuotaEditor';
+import { Pencil, Target } from 'lucide-react';
+import type { QuotaPlan, QuotaPlanStatus, QuotaStatus, SurveyQuotaReport } from '@shared/quotas';
+
+interface QuotaFillPanelProps {
+  surveyId: number | string;
+}
+
+// Which plan the editor is open for: the survey's, or one deployment's
+type EditTarget = { kind: 'survey' } | { kind: 'deployment'; deploymentId: number };
+
+function QuotaStatusList({ status }: { status: QuotaStatus }) {
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-500">Sample</span>
+          <span className="font-semibold">
+            {status.total}{status.sampleSize !== null ? ` / ${status.sampleSize}` : ''}
+          </span>
+        </div>
+        {status.sampleSize !== null && (
+          <Progress value={Math.min(100, (status.total / status.sampleSize) * 100)} className="h-1" />
+        )}
+      </div>
+
+      {status.cells.map(cell => (
+        <div key={cell.id} className="space-y-1">
+          <div className="flex justify-between items-center text-sm gap-2">
+            <span className="truncate">
+              {cell.label}
+              <span className="text-gray-400 ml-1">
+                ({cell.limitType === 'max' ? 'at most' : 'at least'} {cell.value}{cell.unit === 'percent' ? '%' : ''})
+              </span>
+            </span>
+            <span className="flex items-center gap-2 shrink-0">
+              <span className="font-semibold">
+                {cell.count}{cell.target !== null ? ` / ${cell.target}` : ''}
+              </span>
+              {cell.full && (
+                <Badge variant={cell.limitType === 'max' ? 'destructive' : 'default'} className="text-xs">
+                  {cell.limitType === 'max' ? 'Full' : 'Met'}
+                </Badge>
+              )}
+            </span>
+          </div>
+          {/* Percent quotas have no target until a sample size is known */}
+          {cell.fill !== null ? (
+            <Progress value={cell.fill} className="h-1" />
+          ) : (
+            <p className="text-xs text-gray-400">Set a sample size to track this quota</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Live quota fill levels for a survey and its client deployments, with an
+ * editor for each plan. Refreshed by `quotaUpdate` WebSocket messages.
+ */
+export default function QuotaFillPanel({ surveyId }: QuotaFillPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EditTarget | null>(null);
+  const queryKey = [`/api/surveys/${surveyId}/quotas`];
+
+  const { data: report, isLoading } = useQuery<SurveyQuotaReport>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/surveys/${surveyId}/quotas`);
+      const json = await response.json();
+      if (!response.ok || json.status !== 'success') {
+        throw new Error(json.message || 'Failed to load quotas');
+      }
+      return json.data;
+    },
+    enabled: !!surveyId,
+  });
+
+  useRealtime('quotaUpdate', (data) => {
+    if (data.surveyId?.toString() !== surveyId.toString()) return;
+    queryClient.setQueryData(queryKey, data.report);
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ target, plan }: { target: EditTarget; plan: QuotaPlan | null }) => {
+      const url = target.kind === 'survey'
+        ? `/api/surveys/${surveyId}/quotas`
+        : `/api/surveys/${surveyId}/deployments/${target.deploymentId}/quotas`;
+      const response = await apiRequest('PUT', url, { quotas: plan });
+      const json = await response.json();
+      if (!response.ok || json.status !== 'success') {
+        const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+        throw new Error([json.message || 'Failed to save quotas', ...details].join('. '));
+      }
+      return json.data as SurveyQuotaReport;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKey, data);
+      setEditing(null);
+      toast({ title: 'Quotas saved', description: 'Quota targets have been updated.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save quotas', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+  if (!report) {
+    return null;
+  }
+
+  const editingPlan: QuotaPlanStatus | undefined = editing?.kind === 'survey'
+    ? report.survey
+    : report.deployments.find(deployment => editing && deployment.deploymentId === editing.deploymentId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium flex items-center">
+          <Target className="h-4 w-4 mr-2" />
+          Quota Fill
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => setEditing({ kind: 'survey' })}>
+          <Pencil className="h-3 w-3 mr-1" />
+          Edit quotas
+        </Button>
+      </div>
+
+      {report.survey.status ? (
+        <QuotaStatusList status={report.survey.status} />
+      ) : (
+        <p className="text-sm text-gray-500">No quotas set for this survey</p>
+      )}
+
+      {report.deployments.map(deployment => (
+        <div key={deployment.deploymentId} className="space-y-2 border-t pt-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium">
+              Deployment #{deployment.deploymentId}
+              <span className="text-gray-400 ml-1">(client {deployment.clientId}, {deployment.deploymentStatus})</span>
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditing({ kind: 'deployment', deploymentId: deployment.deploymentId })}
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              {deployment.plan ? 'Edit' : 'Add quotas'}
+            </Button>
+          </div>
+          {deployment.status && <QuotaStatusList status={deployment.status} />}
+        </div>
+      ))}
+
+      <QuotaEditor
+        open={editing !== null}
+        onOpenChange={open => !open && setEditing(null)}
+        title={editing?.kind === 'deployment' ? `Quotas for deployment #${editing.deploymentId}` : 'Survey quotas'}
+        plan={editingPlan?.plan ?? null}
+        saving={saveMutation.isPending}
+        onSave={plan => editing && saveMutation.mutate({ target: editing, plan })}
+      />
+    </div>
+  );
+}
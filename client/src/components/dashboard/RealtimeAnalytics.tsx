@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useRealtime } from '@/hooks/useRealtime';
+import QuotaFillPanel from './QuotaFillPanel';
 import { TrendingUp, TrendingDown, ActivityIcon, Users, BarChart2 } from 'lucide-react';
 
 interface RealtimeAnalyticsProps {
@@ -284,6 +285,12 @@ export default function RealtimeAnalytics({
           </span>
         </div>
         
+        {surveyId && (
+          <div className="border-t pt-4">
+            <QuotaFillPanel surveyId={surveyId} />
+          </div>
+        )}
+        
         <div className="text-xs text-gray-400 pt-2">
           Last updated: {new Date(analyticsData.timestamp).toLocaleTimeString()}
         </div>
@@ -0,0 +1,373 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Mail, Trash2, UserPlus, Users, XCircle } from 'lucide-react';
+import {
+  InvitationStatus,
+  TEAM_ROLE_LABELS,
+  TEAM_ROLE_NAMES,
+  TeamInvitation,
+  TeamMember,
+  TeamOverview,
+  TeamRole
+} from '@shared/team';
+
+const TEAM_KEY = ['/api/team'];
+
+const STATUS_VARIANTS: Record<InvitationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  accepted: 'default',
+  expired: 'outline',
+  revoked: 'destructive'
+};
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+const memberName = (member: TeamMember) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ') || member.username;
+
+/**
+ * The company's team: who is a member with which role, who has been invited
+ * and how many seats of the license are left
+ */
+export default function TeamPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('viewer');
+  const [removing, setRemoving] = useState<TeamMember | null>(null);
+  const [transferTo, setTransferTo] = useState<string>('');
+
+  const { data, isLoading } = useQuery<TeamOverview>({
+    queryKey: TEAM_KEY,
+    queryFn: async () => readData(await apiRequest('GET', '/api/team'), 'Failed to load your team')
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: TEAM_KEY });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () =>
+      readData<TeamInvitation>(
+        await apiRequest('POST', '/api/team/invitations', { email: inviteEmail, role: inviteRole }),
+        'Failed to send the invitation'
+      ),
+    onSuccess: (invitation) => {
+      refresh();
+      setInviteEmail('');
+      toast({ title: 'Invitation sent', description: `${invitation.email} can join until ${new Date(invitation.expiresAt).toLocaleDateString()}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not send the invitation', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: number) =>
+      readData<TeamInvitation>(await apiRequest('DELETE', `/api/team/invitations/${invitationId}`), 'Failed to revoke the invitation'),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Invitation revoked' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not revoke the invitation', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: TeamRole }) =>
+      readData<TeamMember>(await apiRequest('PUT', `/api/team/members/${userId}`, { role }), 'Failed to change the role'),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Role updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not change the role', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async ({ userId, transferToId }: { userId: number; transferToId: string }) =>
+      readData<{ surveysTransferred: number }>(
+        await apiRequest('DELETE', `/api/team/members/${userId}${transferToId ? `?transferTo=${transferToId}` : ''}`),
+        'Failed to remove the member'
+      ),
+    onSuccess: (result) => {
+      refresh();
+      setRemoving(null);
+      toast({
+        title: 'Member removed',
+        description: result.surveysTransferred > 0 ? `${result.surveysTransferred} surveys were handed over.` : undefined
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not remove the member', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { seats } = data;
+  const usedSeats = seats.members + seats.pendingInvitations;
+  const noSeatsLeft = seats.available === 0;
+  const openRemove = (member: TeamMember) => {
+    setTransferTo('');
+    setRemoving(member);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Team
+          </CardTitle>
+          <CardDescription>
+            Members of {data.companyName}. Owners manage the team and billing, analysts work with results and
+            exports, viewers can only open reports.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Seats</span>
+              <span className="text-muted-foreground">
+                {seats.limit === null
+                  ? `${usedSeats} used, unlimited`
+                  : `${usedSeats} of ${seats.limit} used (${seats.pendingInvitations} held by pending invitations)`}
+              </span>
+            </div>
+            {seats.limit !== null && <Progress value={seats.limit > 0 ? Math.min(100, (usedSeats / seats.limit) * 100) : 100} />}
+          </div>
+
+          {data.canInvite && (
+            <form
+              className="flex flex-col gap-3 sm:flex-row sm:items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteMutation.mutate();
+              }}
+            >
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="invite-email">Invite by email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="colleague@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2 sm:w-40">
+                <Label>Role</Label>
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as TeamRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEAM_ROLE_NAMES.map(role => (
+                      <SelectItem key={role} value={role}>{TEAM_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={inviteMutation.isPending || noSeatsLeft || !inviteEmail.trim()}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite
+              </Button>
+            </form>
+          )}
+          {data.canInvite && noSeatsLeft && (
+            <p className="text-sm text-destructive">
+              All seats of your license are in use. Remove a member or revoke an invitation to invite someone else.
+            </p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Surveys</TableHead>
+                <TableHead>Last sign-in</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.members.map(member => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <div className="font-medium">{memberName(member)}</div>
+                    <div className="text-xs text-muted-foreground">{member.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    {data.canManage ? (
+                      <Select
+                        value={member.teamRole ?? undefined}
+                        disabled={roleMutation.isPending}
+                        onValueChange={(role) => roleMutation.mutate({ userId: member.id, role: role as TeamRole })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue placeholder={member.role.replace(/_/g, ' ')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TEAM_ROLE_NAMES.map(role => (
+                            <SelectItem key={role} value={role}>{TEAM_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">
+                        {member.teamRole ? TEAM_ROLE_LABELS[member.teamRole] : member.role.replace(/_/g, ' ')}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{member.surveyCount}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {member.lastLogin ? new Date(member.lastLogin).toLocaleDateString() : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {data.canManage && (
+                      <Button variant="ghost" size="sm" onClick={() => openRemove(member)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="h-5 w-5 mr-2" />
+            Invitations
+          </CardTitle>
+          <CardDescription>Invitation links stay valid for a week. A pending invitation holds a seat.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody has been invited yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Invited by</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.invitations.map(invitation => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>{invitation.role ? TEAM_ROLE_LABELS[invitation.role] : '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{invitation.inviterName ?? '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {data.canInvite && invitation.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={revokeMutation.isPending}
+                          onClick={() => revokeMutation.mutate(invitation.id)}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove {removing ? memberName(removing) : ''}?</DialogTitle>
+            <DialogDescription>
+              Their account is deactivated and their {removing?.surveyCount ?? 0} surveys move to the member you
+              choose. Without a choice they move to you.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Hand surveys over to</Label>
+            <Select value={transferTo} onValueChange={setTransferTo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Me" />
+              </SelectTrigger>
+              <SelectContent>
+                {data.members
+                  .filter(member => member.id !== removing?.id)
+                  .map(member => (
+                    <SelectItem key={member.id} value={String(member.id)}>{memberName(member)}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemoving(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={removeMutation.isPending}
+              onClick={() => removing && removeMutation.mutate({ userId: removing.id, transferToId: transferTo })}
+            >
+              Remove member
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { History, KeyRound, Plus, RotateCcw, Send, Trash2, Webhook } from 'lucide-react';
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_HEADERS,
+  WebhookDeliveryDetail,
+  WebhookDeliveryStatus,
+  WebhookDeliverySummary,
+  WebhookEvent,
+  WebhookSubscriptionSummary
+} from '@shared/webhooks';
+
+const WEBHOOKS_KEY = ['/api/webhooks'];
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  delivered: 'default',
+  pending: 'secondary',
+  failed: 'destructive'
+};
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+function DeliveryStatusBadge({ status }: { status: WebhookDeliveryStatus }) {
+  return <Badge variant={STATUS_VARIANTS[status]} className="text-xs capitalize">{status}</Badge>;
+}
+
+/**
+ * Deliveries of one webhook, newest first, with the attempt log of a selected
+ * delivery and a replay button
+ */
+function DeliveryLog({ webhook }: { webhook: WebhookSubscriptionSummary }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const deliveriesKey = [`/api/webhooks/${webhook.id}/deliveries`];
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDeliverySummary[]>({
+    queryKey: deliveriesKey,
+    queryFn: async () => readData(await apiRequest('GET', `/api/webhooks/${webhook.id}/deliveries`), 'Failed to load deliveries'),
+    refetchInterval: 30000
+  });
+
+  const { data: detail } = useQuery<WebhookDeliveryDetail>({
+    queryKey: [`/api/webhooks/${webhook.id}/deliveries/${selectedId}`],
+    queryFn: async () => readData(await apiRequest('GET', `/api/webhooks/${webhook.id}/deliveries/${selectedId}`), 'Failed to load delivery'),
+    enabled: selectedId !== null
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: number) =>
+      readData<WebhookDeliveryDetail>(
+        await apiRequest('POST', `/api/webhooks/${webhook.id}/deliveries/${deliveryId}/replay`),
+        'Failed to replay delivery'
+      ),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_KEY });
+      setSelectedId(delivery.id);
+      toast({
+        title: delivery.status === 'delivered' ? 'Delivery replayed' : 'Replay failed',
+        description: delivery.lastError || `Sent ${delivery.event} again as delivery #${delivery.id}.`,
+        variant: delivery.status === 'delivered' ? 'default' : 'destructive'
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not replay delivery', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">No deliveries yet. Send a test ping to check the endpoint.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Event</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>Response</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deliveries.map(delivery => (
+            <TableRow
+              key={delivery.id}
+              className={`cursor-pointer ${selectedId === delivery.id ? 'bg-muted/50' : ''}`}
+              onClick={() => setSelectedId(selectedId === delivery.id ? null : delivery.id)}
+            >
+              <TableCell>
+                {delivery.id}
+                {delivery.replayOfId && <span className="text-xs text-gray-400 ml-1">(replay of #{delivery.replayOfId})</span>}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+              <TableCell><DeliveryStatusBadge status={delivery.status} /></TableCell>
+              <TableCell>
+                {delivery.attempts}
+                {delivery.status === 'failed' && delivery.nextAttemptAt && (
+                  <span className="block text-xs text-gray-400">next {formatTime(delivery.nextAttemptAt)}</span>
+                )}
+              </TableCell>
+              <TableCell>{delivery.responseStatus ?? '—'}</TableCell>
+              <TableCell className="text-xs">{formatTime(delivery.createdAt)}</TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={replayMutation.isPending}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    replayMutation.mutate(delivery.id);
+                  }}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Replay
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {detail && selectedId === detail.id && (
+        <div className="border rounded-md p-3 space-y-3">
+          <div className="text-sm font-medium">Attempts for delivery #{detail.id}</div>
+          {detail.attemptLog.length === 0 ? (
+            <p className="text-sm text-gray-500">Not attempted yet</p>
+          ) : (
+            detail.attemptLog.map(attempt => (
+              <div key={attempt.id} className="text-sm border-l-2 pl-3 space-y-1">
+                <div className="flex gap-3 flex-wrap">
+                  <span className="font-medium">Attempt {attempt.attemptNumber}</span>
+                  <span>{attempt.responseStatus !== null ? `HTTP ${attempt.responseStatus}` : 'No response'}</span>
+                  <span className="text-gray-500">{attempt.durationMs} ms</span>
+                  <span className="text-gray-500">{formatTime(attempt.createdAt)}</span>
+                </div>
+                {attempt.error && <p className="text-red-600 text-xs">{attempt.error}</p>}
+                {attempt.responseBody && (
+                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap">{attempt.responseBody}</pre>
+                )}
+              </div>
+            ))
+          )}
+          <div>
+            <div className="text-sm font-medium mb-1">Payload</div>
+            <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">{JSON.stringify(detail.payload, null, 2)}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Company webhook subscriptions: create and edit endpoints, send test pings,
+ * rotate signing secrets and inspect or replay deliveries.
+ */
+export default function WebhooksPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<number | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<WebhookSubscriptionSummary[]>({
+    queryKey: WEBHOOKS_KEY,
+    queryFn: async () => readData(await apiRequest('GET', '/api/webhooks'), 'Failed to load webhooks')
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: WEBHOOKS_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      readData<{ subscription: WebhookSubscriptionSummary; secret: string }>(
+        await apiRequest('POST', '/api/webhooks', { url, description: description || undefined, events }),
+        'Failed to create webhook'
+      ),
+    onSuccess: ({ secret }) => {
+      refresh();
+      setCreating(false);
+      setRevealedSecret(secret);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not create webhook', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: Partial<Pick<WebhookSubscriptionSummary, 'active' | 'events'>> }) =>
+      readData<WebhookSubscriptionSummary>(await apiRequest('PUT', `/api/webhooks/${id}`, changes), 'Failed to update webhook'),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: 'Could not update webhook', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => readData(await apiRequest('DELETE', `/api/webhooks/${id}`), 'Failed to delete webhook'),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Webhook deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete webhook', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData<{ secret: string }>(await apiRequest('POST', `/api/webhooks/${id}/secret`), 'Failed to rotate secret'),
+    onSuccess: ({ secret }) => {
+      refresh();
+      setRevealedSecret(secret);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not rotate secret', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const pingMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readData<WebhookDeliveryDetail>(await apiRequest('POST', `/api/webhooks/${id}/ping`), 'Failed to send ping'),
+    onSuccess: (delivery) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${delivery.subscriptionId}/deliveries`] });
+      toast({
+        title: delivery.status === 'delivered' ? 'Ping delivered' : 'Ping failed',
+        description: delivery.status === 'delivered'
+          ? `The endpoint answered with HTTP ${delivery.responseStatus}.`
+          : delivery.lastError || 'The endpoint did not accept the ping.',
+        variant: delivery.status === 'delivered' ? 'default' : 'destructive'
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not send ping', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const openCreate = () => {
+    setUrl('');
+    setDescription('');
+    setEvents(['RESPONSE_SUBMITTED']);
+    setCreating(true);
+  };
+
+  const toggleEvent = (list: WebhookEvent[], event: WebhookEvent) =>
+    list.includes(event) ? list.filter(item => item !== event) : [...list, event];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Webhook className="h-5 w-5 mr-2" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Receive signed HTTP callbacks when surveys, responses and AI jobs change. Verify the{' '}
+            <code>{WEBHOOK_HEADERS.signature}</code> header: an HMAC-SHA256 of the body and{' '}
+            <code>{WEBHOOK_HEADERS.timestamp}</code>, joined by a dot.
+          </CardDescription>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Skeleton className="h-24 w-full" />}
+        {!isLoading && (!webhooks || webhooks.length === 0) && (
+          <p className="text-sm text-gray-500">No webhooks yet.</p>
+        )}
+
+        {webhooks?.map(webhook => (
+          <div key={webhook.id} className="border rounded-md p-4 space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <div className="font-mono text-sm break-all">{webhook.url}</div>
+                {webhook.description && <div className="text-sm text-gray-500">{webhook.description}</div>}
+                <div className="text-xs text-gray-400">
+                  Secret {webhook.secretHint}
+                  {webhook.lastDelivery && (
+                    <> · last delivery {webhook.lastDelivery.status} {formatTime(webhook.lastDelivery.createdAt)}</>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={webhook.active}
+                  aria-label="Active"
+                  onCheckedChange={active => updateMutation.mutate({ id: webhook.id, changes: { active } })}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pingMutation.isPending}
+                  onClick={() => pingMutation.mutate(webhook.id)}
+                >
+                  <Send className="h-3 w-3 mr-1" />
+                  Test ping
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOpenLogId(openLogId === webhook.id ? null : webhook.id)}
+                >
+                  <History className="h-3 w-3 mr-1" />
+                  Deliveries
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Rotate secret"
+                  disabled={rotateMutation.isPending}
+                  onClick={() => rotateMutation.mutate(webhook.id)}
+                >
+                  <KeyRound className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete webhook"
+                  onClick={() => window.confirm('Delete this webhook and its delivery log?') && deleteMutation.mutate(webhook.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {WEBHOOK_EVENTS.map(event => (
+                <Badge
+                  key={event}
+                  variant={webhook.events.includes(event) ? 'default' : 'outline'}
+                  className="cursor-pointer text-xs"
+                  onClick={() => {
+                    const next = toggleEvent(webhook.events, event);
+                    if (next.length > 0) updateMutation.mutate({ id: webhook.id, changes: { events: next } });
+                  }}
+                >
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </Badge>
+              ))}
+            </div>
+
+            {openLogId === webhook.id && <DeliveryLog webhook={webhook} />}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add webhook</DialogTitle>
+            <DialogDescription>Events are POSTed as JSON to this URL.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/hooks/surveys"
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Optional"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {WEBHOOK_EVENTS.map(event => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={events.includes(event)}
+                      onCheckedChange={() => setEvents(current => toggleEvent(current, event))}
+                    />
+                    {WEBHOOK_EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !url.trim() || events.length === 0}
+            >
+              {createMutation.isPending ? 'Creating...' : 'Create webhook'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedSecret !== null} onOpenChange={open => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now; it will not be shown again. Use it to verify the signature of every delivery.
+            </DialogDescription>
+          </DialogHeader>
+          <Input readOnly value={revealedSecret ?? ''} className="font-mono" onFocus={e => e.target.select()} />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => revealedSecret && navigator.clipboard?.writeText(revealedSecret)}
+            >
+              Copy
+            </Button>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,334 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { GitBranch, Plus, Trash2 } from "lucide-react";
+import {
+  ConditionOperator,
+  QuestionCondition,
+  QuestionDisplayLogic,
+  CONDITION_OPERATOR_LABELS,
+  MAX_CONDITIONS_PER_QUESTION,
+  operatorsForQuestionType,
+  resolveDisplayLogic
+} from "@shared/questionLogic";
+
+// The parts of an editor question the rules need
+export interface LogicEditorQuestion {
+  order: number;
+  question: string;
+  questionType: string;
+  options?: Array<{ id?: string; text?: string; value?: string }>;
+}
+
+interface QuestionLogicEditorProps {
+  // Order of the question the rules belong to; only earlier questions can be referenced
+  order: number;
+  questions: LogicEditorQuestion[];
+  value?: QuestionDisplayLogic;
+  onChange: (logic: QuestionDisplayLogic | undefined) => void;
+  disabled?: boolean;
+}
+
+const optionKey = (option: { id?: string; text?: string; value?: string }, index: number) =>
+  option.id || option.value || option.text || `opt_${index}`;
+
+const questionLabel = (question: LogicEditorQuestion) =>
+  `Q${question.order}: ${question.question || "Untitled question"}`;
+
+const optionLabel = (source: LogicEditorQuestion | undefined, key: string) => {
+  const index = (source?.options || []).findIndex((option, i) => optionKey(option, i) === key);
+  return index >= 0 ? source!.options![index].text || `Option ${index + 1}` : key;
+};
+
+const boundsLabel = (condition: QuestionCondition) => {
+  if (condition.min !== undefined && condition.max !== undefined) return `${condition.min} and ${condition.max}`;
+  if (condition.min !== undefined) return `at least ${condition.min}`;
+  return `at most ${condition.max}`;
+};
+
+/**
+ * One-line description of a question's rules, for the read-only question view
+ */
+export function describeDisplayLogic(raw: unknown, questions: LogicEditorQuestion[]): string {
+  const logic = resolveDisplayLogic(raw);
+  if (!logic) return "Always shown";
+
+  const parts = logic.conditions.map(condition => {
+    const source = questions.find(q => q.order === condition.questionOrder);
+    const subject = source ? questionLabel(source) : `Q${condition.questionOrder}`;
+    switch (condition.operator) {
+      case "equals":
+      case "not_equals":
+        return `${subject} ${CONDITION_OPERATOR_LABELS[condition.operator]} "${optionLabel(source, condition.value ?? "")}"`;
+      case "in":
+        return `${subject} is any of ${(condition.values ?? []).map(v => `"${optionLabel(source, v)}"`).join(", ")}`;
+      case "range":
+        return `${subject} is ${condition.min !== undefined && condition.max !== undefined ? "between " : ""}${boundsLabel(condition)}`;
+      case "answer_count":
+        return `${subject} has ${boundsLabel(condition)} answers`;
+    }
+  });
+
+  return `${logic.action === "show" ? "Shown only if" : "Skipped if"} ${parts.join(logic.match === "all" ? " and " : " or ")}`;
+}
+
+// A fresh condition on a source question, with a sensible default value
+const newCondition = (source: LogicEditorQuestion): QuestionCondition => {
+  const operator = operatorsForQuestionType(source.questionType)[0];
+  const firstOption = source.options?.[0];
+  switch (operator) {
+    case "range":
+      return { questionOrder: source.order, operator, min: 0, max: 100 };
+    case "answer_count":
+      return { questionOrder: source.order, operator, min: 1 };
+    case "in":
+      return { questionOrder: source.order, operator, values: firstOption ? [optionKey(firstOption, 0)] : [] };
+    default:
+      return { questionOrder: source.order, operator, value: firstOption ? optionKey(firstOption, 0) : "" };
+  }
+};
+
+export default function QuestionLogicEditor({
+  order,
+  questions,
+  value,
+  onChange,
+  disabled = false
+}: QuestionLogicEditorProps) {
+  const earlier = questions.filter(q => q.order < order).sort((a, b) => a.order - b.order);
+  const logic: QuestionDisplayLogic = value && Array.isArray(value.conditions)
+    ? value
+    : { action: "show", match: "all", conditions: [] };
+
+  const update = (next: Partial<QuestionDisplayLogic>) => {
+    const merged = { ...logic, ...next };
+    onChange(merged.conditions.length > 0 ? merged : undefined);
+  };
+
+  const updateCondition = (index: number, next: QuestionCondition) => {
+    const conditions = [...logic.conditions];
+    conditions[index] = next;
+    update({ conditions });
+  };
+
+  const removeCondition = (index: number) => {
+    update({ conditions: logic.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    const source = earlier[earlier.length - 1];
+    if (source) update({ conditions: [...logic.conditions, newCondition(source)] });
+  };
+
+  const numberOrUndefined = (raw: string) => (raw === "" || !Number.isFinite(Number(raw)) ? undefined : Number(raw));
+
+  const renderValue = (condition: QuestionCondition, index: number, source: LogicEditorQuestion | undefined) => {
+    const options = source?.options || [];
+
+    if (condition.operator === "range" || condition.operator === "answer_count") {
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            className="w-24"
+            placeholder="Min"
+            disabled={disabled}
+            value={condition.min ?? ""}
+            onChange={(e) => updateCondition(index, { ...condition, min: numberOrUndefined(e.target.value) })}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="number"
+            className="w-24"
+            placeholder="Max"
+            disabled={disabled}
+            value={condition.max ?? ""}
+            onChange={(e) => updateCondition(index, { ...condition, max: numberOrUndefined(e.target.value) })}
+          />
+        </div>
+      );
+    }
+
+    if (condition.operator === "in") {
+      if (options.length === 0) {
+        return (
+          <Input
+            placeholder="Comma-separated answers"
+            disabled={disabled}
+            value={(condition.values ?? []).join(", ")}
+            onChange={(e) => updateCondition(index, {
+              ...condition,
+              values: e.target.value.split(",").map(v => v.trim()).filter(Boolean)
+            })}
+          />
+        );
+      }
+      return (
+        <div className="flex flex-wrap gap-3">
+          {options.map((option, i) => {
+            const key = optionKey(option, i);
+            const checked = (condition.values ?? []).includes(key);
+            return (
+              <label key={key} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={disabled}
+                  onChange={(e) => updateCondition(index, {
+                    ...condition,
+                    values: e.target.checked
+                      ? [...(condition.values ?? []), key]
+                      : (condition.values ?? []).filter(v => v !== key)
+                  })}
+                />
+                {option.text || `Option ${i + 1}`}
+              </label>
+            );
+          })}
+        </div>
+      );
+    }
+
+    if (options.length === 0) {
+      return (
+        <Input
+          placeholder="Answer"
+          disabled={disabled}
+          value={condition.value ?? ""}
+          onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+        />
+      );
+    }
+
+    return (
+      <Select
+        value={condition.value ?? ""}
+        disabled={disabled}
+        onValueChange={(v) => updateCondition(index, { ...condition, value: v })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select an answer" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option, i) => (
+            <SelectItem key={optionKey(option, i)} value={optionKey(option, i)}>
+              {option.text || `Option ${i + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-1">
+          <GitBranch className="h-4 w-4" />
+          Display logic
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled || earlier.length === 0 || logic.conditions.length >= MAX_CONDITIONS_PER_QUESTION}
+          onClick={addCondition}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </Button>
+      </div>
+
+      {earlier.length === 0 && (
+        <p className="text-xs text-muted-foreground">The first question is always shown.</p>
+      )}
+
+      {earlier.length > 0 && logic.conditions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Always shown. Add a condition to show or skip this question based on earlier answers.</p>
+      )}
+
+      {logic.conditions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Select value={logic.action} disabled={disabled} onValueChange={(v) => update({ action: v as QuestionDisplayLogic["action"] })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="show">Show only</SelectItem>
+              <SelectItem value="skip">Skip</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>this question when</span>
+          <Select value={logic.match} disabled={disabled} onValueChange={(v) => update({ match: v as QuestionDisplayLogic["match"] })}>
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">all</SelectItem>
+              <SelectItem value="any">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of these match:</span>
+        </div>
+      )}
+
+      {logic.conditions.map((condition, index) => {
+        const source = earlier.find(q => q.order === condition.questionOrder);
+        const operators = operatorsForQuestionType(source?.questionType);
+
+        return (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-2 items-start">
+            <Select
+              value={source ? String(source.order) : ""}
+              disabled={disabled}
+              onValueChange={(v) => {
+                const next = earlier.find(q => String(q.order) === v);
+                if (next) updateCondition(index, newCondition(next));
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a question" />
+              </SelectTrigger>
+              <SelectContent>
+                {earlier.map(q => (
+                  <SelectItem key={q.order} value={String(q.order)}>{questionLabel(q)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              disabled={disabled}
+              onValueChange={(v) => updateCondition(index, {
+                questionOrder: condition.questionOrder,
+                operator: v as ConditionOperator,
+                ...(v === "range" || v === "answer_count" ? { min: condition.min ?? 1 } : {}),
+                ...(v === "in" ? { values: condition.value ? [condition.value] : condition.values ?? [] } : {}),
+                ...(v === "equals" || v === "not_equals" ? { value: condition.value ?? condition.values?.[0] ?? "" } : {})
+              })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operators.map(operator => (
+                  <SelectItem key={operator} value={operator}>{CONDITION_OPERATOR_LABELS[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {renderValue(condition, index, source)}
+            <Button type="button" variant="ghost" size="sm" disabled={disabled} onClick={() => removeCondition(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  DEFAULT_SCREEN_OUT_MESSAGE,
+  MAX_QUOTA_CELLS,
+  QUOTA_FIELDS,
+  QUOTA_FIELD_LABELS,
+  QuotaCell,
+  QuotaCondition,
+  QuotaField,
+  QuotaPlan
+} from "@shared/quotas";
+
+// Conditions are edited as text and parsed on save
+interface ConditionDraft {
+  field: QuotaField;
+  values: string;
+  min: string;
+  max: string;
+}
+
+interface CellDraft extends Omit<QuotaCell, "conditions" | "value"> {
+  value: string;
+  conditions: ConditionDraft[];
+}
+
+interface QuotaEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  plan: QuotaPlan | null;
+  saving?: boolean;
+  // Receives null when every quota was removed
+  onSave: (plan: QuotaPlan | null) => void;
+}
+
+// Ages are stored as the lower bound of their bucket, so they are matched by range
+const isRangeField = (field: QuotaField) => field === "age";
+
+const emptyCondition = (): ConditionDraft => ({ field: "gender", values: "", min: "", max: "" });
+
+const toConditionDraft = (condition: QuotaCondition): ConditionDraft => ({
+  field: condition.field,
+  values: (condition.values || []).join(", "),
+  min: condition.min !== undefined ? String(condition.min) : "",
+  max: condition.max !== undefined ? String(condition.max) : ""
+});
+
+const toCellDraft = (cell: QuotaCell): CellDraft => ({
+  ...cell,
+  value: String(cell.value),
+  conditions: cell.conditions.map(toConditionDraft)
+});
+
+const fromConditionDraft = (draft: ConditionDraft): QuotaCondition => {
+  if (!isRangeField(draft.field)) {
+    return {
+      field: draft.field,
+      values: draft.values.split(",").map(value => value.trim()).filter(Boolean)
+    };
+  }
+  return {
+    field: draft.field,
+    ...(draft.min.trim() !== "" ? { min: Number(draft.min) } : {}),
+    ...(draft.max.trim() !== "" ? { max: Number(draft.max) } : {})
+  };
+};
+
+const newCellId = () => `quota_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Dialog for editing a quota plan: sample size, screen-out message and the
+ * demographic cells with their targets.
+ */
+export default function QuotaEditor({ open, onOpenChange, title, plan, saving, onSave }: QuotaEditorProps) {
+  const [sampleSize, setSampleSize] = useState("");
+  const [screenOutMessage, setScreenOutMessage] = useState("");
+  const [cells, setCells] = useState<CellDraft[]>([]);
+
+  // Start from the saved plan every time the dialog opens; live fill updates
+  // replace the plan object, so they must not reset an edit in progress
+  useEffect(() => {
+    if (!open) return;
+    setSampleSize(plan?.sampleSize ? String(plan.sampleSize) : "");
+    setScreenOutMessage(plan?.screenOutMessage || "");
+    setCells((plan?.cells || []).map(toCellDraft));
+  }, [open]);
+
+  const updateCell = (index: number, patch: Partial<CellDraft>) => {
+    setCells(current => current.map((cell, i) => (i === index ? { ...cell, ...patch } : cell)));
+  };
+
+  const updateCondition = (cellIndex: number, conditionIndex: number, patch: Partial<ConditionDraft>) => {
+    const conditions = cells[cellIndex].conditions.map((condition, i) =>
+      i === conditionIndex ? { ...condition, ...patch } : condition
+    );
+    updateCell(cellIndex, { conditions });
+  };
+
+  const addCell = () => {
+    setCells(current => [
+      ...current,
+      { id: newCellId(), label: "", limitType: "max", unit: "count", value: "", conditions: [emptyCondition()] }
+    ]);
+  };
+
+  const handleSave = () => {
+    const quotaCells: QuotaCell[] = cells.map(cell => ({
+      id: cell.id,
+      label: cell.label,
+      limitType: cell.limitType,
+      unit: cell.unit,
+      value: Number(cell.value),
+      conditions: cell.conditions.map(fromConditionDraft)
+    }));
+    const size = sampleSize.trim() !== "" ? Number(sampleSize) : null;
+
+    if (quotaCells.length === 0 && !size) {
+      onSave(null);
+      return;
+    }
+    onSave({
+      sampleSize: size,
+      cells: quotaCells,
+      screenOutMessage: screenOutMessage.trim() || null
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Respondents who fall in a full quota are screened out when they finish the survey.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="quota-sample-size">Sample size</Label>
+              <Input
+                id="quota-sample-size"
+                type="number"
+                min={1}
+                placeholder="Response limit"
+                value={sampleSize}
+                onChange={e => setSampleSize(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="quota-screen-out">Screen-out message</Label>
+              <Textarea
+                id="quota-screen-out"
+                rows={2}
+                placeholder={DEFAULT_SCREEN_OUT_MESSAGE}
+                value={screenOutMessage}
+                onChange={e => setScreenOutMessage(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {cells.length === 0 && (
+            <p className="text-sm text-muted-foreground">No quotas yet. Add one to set demographic targets.</p>
+          )}
+
+          {cells.map((cell, cellIndex) => (
+            <div key={cell.id} className="border rounded-md p-3 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label>Label</Label>
+                  <Input
+                    placeholder="e.g. Women 25-44"
+                    value={cell.label}
+                    onChange={e => updateCell(cellIndex, { label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Limit</Label>
+                  <Select
+                    value={cell.limitType}
+                    onValueChange={value => updateCell(cellIndex, { limitType: value as QuotaCell["limitType"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="max">At most</SelectItem>
+                      <SelectItem value="min">At least</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Target</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={cell.value}
+                    onChange={e => updateCell(cellIndex, { value: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Unit</Label>
+                  <Select
+                    value={cell.unit}
+                    onValueChange={value => updateCell(cellIndex, { unit: value as QuotaCell["unit"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="count">Responses</SelectItem>
+                      <SelectItem value="percent">% of sample</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove quota"
+                  onClick={() => setCells(current => current.filter((_, i) => i !== cellIndex))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {cell.conditions.map((condition, conditionIndex) => (
+                <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={condition.field}
+                    onValueChange={value => updateCondition(cellIndex, conditionIndex, { field: value as QuotaField })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUOTA_FIELDS.map(field => (
+                        <SelectItem key={field} value={field}>{QUOTA_FIELD_LABELS[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isRangeField(condition.field) ? (
+                    <>
+                      <Input
+                        className="w-24"
+                        type="number"
+                        placeholder="From"
+                        value={condition.min}
+                        onChange={e => updateCondition(cellIndex, conditionIndex, { min: e.target.value })}
+                      />
+                      <Input
+                        className="w-24"
+                        type="number"
+                        placeholder="To"
+                        value={condition.max}
+                        onChange={e => updateCondition(cellIndex, conditionIndex, { max: e.target.value })}
+                      />
+                    </>
+                  ) : (
+                    <Input
+                      className="flex-1 min-w-[12rem]"
+                      placeholder="Values, comma separated"
+                      value={condition.values}
+                      onChange={e => updateCondition(cellIndex, conditionIndex, { values: e.target.value })}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove condition"
+                    disabled={cell.conditions.length === 1}
+                    onClick={() => updateCell(cellIndex, {
+                      conditions: cell.conditions.filter((_, i) => i !== conditionIndex)
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {cell.conditions.length < QUOTA_FIELDS.length && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateCell(cellIndex, { conditions: [...cell.conditions, emptyCondition()] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add condition
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {cells.length < MAX_QUOTA_CELLS && (
+            <Button variant="outline" onClick={addCell}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add quota
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save quotas"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Download, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  DIRECT_EXPORT_ROW_LIMIT,
+  ExportJobStatus,
+  ExportJobSummary,
+  RESPONSE_EXPORT_FORMATS,
+  RESPONSE_EXPORT_FORMAT_LABELS,
+  ResponseExportFormat
+} from '@shared/responseExports';
+
+const STATUS_VARIANTS: Record<ExportJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'secondary',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  expired: 'outline'
+};
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
+
+interface ResponseExportPanelProps {
+  surveyId: number;
+}
+
+/**
+ * Download a survey's responses as a wide CSV, an SPSS file or the codebook.
+ * Large surveys are exported in the background and listed here until the
+ * file expires.
+ */
+export default function ResponseExportPanel({ surveyId }: ResponseExportPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ResponseExportFormat>('csv');
+  const [includeIncomplete, setIncludeIncomplete] = useState(false);
+
+  const jobsKey = ['/api/export-jobs', surveyId];
+  const { data: jobs = [] } = useQuery<ExportJobSummary[]>({
+    queryKey: jobsKey,
+    queryFn: async () => readData(await apiRequest('GET', `/api/export-jobs?surveyId=${surveyId}`), 'Failed to load exports'),
+    // Keep polling while an export is still being written
+    refetchInterval: (query) =>
+      (query.state.data ?? []).some(job => job.status === 'queued' || job.status === 'running') ? 5000 : false
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ format, includeIncomplete: String(includeIncomplete) });
+      const response = await apiRequest('GET', `/api/surveys/${surveyId}/responses/export?${params}`);
+      if (response.status === 202 || !response.ok) {
+        return { job: await readData<ExportJobSummary>(response, 'Failed to export responses') };
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const fileName = disposition.match(/filename="?([^";]+)"?/)?.[1] ?? `survey-${surveyId}-responses.${format}`;
+      saveBlob(await response.blob(), fileName);
+      return { job: null };
+    },
+    onSuccess: ({ job }) => {
+      if (job) {
+        toast({
+          title: 'Export started',
+          description: 'This survey has too many responses to download right away. You will be notified when the file is ready.'
+        });
+        queryClient.invalidateQueries({ queryKey: jobsKey });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Export failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="response-export-format">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ResponseExportFormat)}>
+            <SelectTrigger id="response-export-format" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESPONSE_EXPORT_FORMATS.map(option => (
+                <SelectItem key={option} value={option}>{RESPONSE_EXPORT_FORMAT_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="response-export-incomplete" checked={includeIncomplete} onCheckedChange={setIncludeIncomplete} />
+          <Label htmlFor="response-export-incomplete">Include incomplete responses</Label>
+        </div>
+        <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending} className="gap-2">
+          {exportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Export responses
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Each question gets its own columns with coded answers; the codebook describes every column and its value labels.
+        Surveys with more than {DIRECT_EXPORT_ROW_LIMIT.toLocaleString()} responses are exported in the background.
+      </p>
+
+      {jobs.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requested</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Responses</TableHead>
+              <TableHead className="text-right">File</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => (
+              <TableRow key={job.id}>
+                <TableCell>{formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}</TableCell>
+                <TableCell>{RESPONSE_EXPORT_FORMAT_LABELS[job.format]}</TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[job.status]} title={job.error ?? undefined}>{job.status}</Badge>
+                </TableCell>
+                <TableCell>{job.rowCount ?? ''}</TableCell>
+                <TableCell className="text-right">
+                  {job.downloadUrl ? (
+                    <a href={job.downloadUrl} className="inline-flex items-center gap-1 text-primary hover:underline">
+                      <Download className="h-4 w-4" />
+                      {formatSize(job.sizeBytes)}
+                    </a>
+                  ) : job.status === 'expired' ? 'Expired' : ''}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
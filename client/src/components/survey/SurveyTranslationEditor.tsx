@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Check, EyeOff, Globe, Languages, Loader2, Save, Sparkles, X } from 'lucide-react';
+import {
+  MAX_TRANSLATION_LANGUAGES,
+  QuestionTranslation,
+  SURVEY_LANGUAGES,
+  SurveyContentTranslation,
+  SurveyTranslationsState,
+  TranslatableText,
+  TranslationEntry,
+  TranslationStatus,
+  getSurveyLanguage,
+  textDirection,
+  translationProgress,
+  translationStatus,
+  withTranslatedText
+} from '@shared/surveyTranslations';
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+const languageName = (code: string) => getSurveyLanguage(code)?.name ?? code;
+
+// Long source texts get a textarea, short ones (options, labels) an input
+const isLongText = (text: TranslatableText) => text.source.length > 80 || text.source.includes('\n');
+
+// The text as typed, including blanks the saved translation would drop
+function draftText(translation: TranslationEntry | undefined, key: string): string {
+  const text = key.startsWith('options.')
+    ? (translation as { options?: Record<string, string> } | undefined)?.options?.[key.slice('options.'.length)]
+    : (translation as Record<string, unknown> | undefined)?.[key];
+  return typeof text === 'string' ? text : '';
+}
+
+// Statuses worth pointing out next to a field; missing texts show an empty box
+const STATUS_BADGES: Partial<Record<TranslationStatus, { label: string; hint: string }>> = {
+  stale: { label: 'Outdated', hint: 'The original text changed after this was translated' },
+  draft: { label: 'Machine draft', hint: 'Machine translated and not reviewed yet' }
+};
+
+interface TranslationFieldProps {
+  id: string;
+  text: TranslatableText;
+  translation: TranslationEntry | undefined;
+  language: string;
+  disabled: boolean;
+  onChange: (translation: TranslationEntry) => void;
+}
+
+function TranslationField({ id, text, translation, language, disabled, onChange }: TranslationFieldProps) {
+  const Field = isLongText(text) ? Textarea : Input;
+  const value = draftText(translation, text.key);
+  const badge = STATUS_BADGES[translationStatus(translation, text)];
+  return (
+    <div className="grid gap-2 md:grid-cols-2 md:gap-4">
+      <div>
+        <Label htmlFor={id} className="text-xs text-muted-foreground">{text.label}</Label>
+        <p className="text-sm mt-1 whitespace-pre-wrap">{text.source}</p>
+      </div>
+      <div className="space-y-1">
+        <Field
+          id={id}
+          value={value}
+          dir={textDirection(language)}
+          lang={language}
+          disabled={disabled}
+          onChange={(event: React.ChangeEvent<HTMLInputElement & HTMLTextAreaElement>) =>
+            onChange(withTranslatedText(translation, text, event.target.value))}
+          placeholder={`${languageName(language)} translation`}
+        />
+        {badge && (
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" title={badge.hint}>{badge.label}</Badge>
+            {!disabled && (
+              // Keeping the text as it is counts as reviewing it against the current original
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 gap-1 px-2"
+                onClick={() => onChange(withTranslatedText(translation, text, value))}
+              >
+                <Check className="h-3 w-3" />
+                Mark reviewed
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SurveyTranslationEditorProps {
+  surveyId: number;
+  disabled?: boolean;
+}
+
+/**
+ * Translate a survey's title, messages, questions and options into other
+ * languages, draft missing texts with machine translation and publish a
+ * language to respondents once enough of it is reviewed. Works on the saved
+ * questions, so question edits need saving before their texts can be translated.
+ */
+export default function SurveyTranslationEditor({ surveyId, disabled = false }: SurveyTranslationEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SurveyTranslationsState | null>(null);
+  const [activeLanguage, setActiveLanguage] = useState<string>('');
+  const [includeStale, setIncludeStale] = useState(false);
+
+  const queryKey = [`/api/surveys/${surveyId}/translations`];
+  const { data, isLoading, error } = useQuery<SurveyTranslationsState>({
+    queryKey,
+    queryFn: async () => readData(await apiRequest('GET', `/api/surveys/${surveyId}/translations`), 'Failed to load translations')
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setDraft(data);
+    setActiveLanguage(current => (data.languages.includes(current) ? current : data.languages[0] ?? ''));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (state: SurveyTranslationsState) => readData<SurveyTranslationsState>(
+      await apiRequest('PUT', `/api/surveys/${surveyId}/translations`, {
+        languages: state.languages,
+        survey: state.survey.translations,
+        questions: state.questions.map(question => ({ id: question.id, translations: question.translations }))
+      }),
+      'Failed to save translations'
+    ),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKey, saved);
+      toast({ title: 'Translations saved', description: 'Published languages show respondents the updated texts.' });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Could not save translations', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const draftMutation = useMutation({
+    mutationFn: async (language: string) => readData<{ state: SurveyTranslationsState; drafted: number }>(
+      await apiRequest('POST', `/api/surveys/${surveyId}/translations/${language}/drafts`, { includeStale }),
+      'Failed to draft translations'
+    ),
+    onSuccess: ({ state, drafted }) => {
+      queryClient.setQueryData(queryKey, state);
+      toast({
+        title: drafted > 0 ? `Drafted ${drafted} translations` : 'Nothing left to translate',
+        description: drafted > 0 ? 'Review the machine drafts before publishing the language.' : undefined
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Could not draft translations', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ language, publish }: { language: string; publish: boolean }) => readData<SurveyTranslationsState>(
+      await apiRequest('POST', `/api/surveys/${surveyId}/translations/${language}/${publish ? 'publish' : 'unpublish'}`),
+      publish ? 'Failed to publish language' : 'Failed to unpublish language'
+    ),
+    onSuccess: (saved, { language, publish }) => {
+      queryClient.setQueryData(queryKey, saved);
+      toast({
+        title: publish ? `${languageName(language)} published` : `${languageName(language)} unpublished`,
+        description: publish ? 'Respondents can now choose this language.' : 'Respondents no longer see this language.'
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Could not change the published languages', description: err.message, variant: 'destructive' });
+    }
+  });
+
+  const progress = useMemo(() => {
+    if (!draft) return {} as Record<string, ReturnType<typeof translationProgress>>;
+    return Object.fromEntries(draft.languages.map(language => [language, translationProgress(draft, language)]));
+  }, [draft]);
+
+  if (isLoading || !draft) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex justify-center">
+          {error
+            ? <p className="text-sm text-destructive">{(error as Error).message}</p>
+            : <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const addableLanguages = SURVEY_LANGUAGES.filter(language =>
+    language.code !== draft.sourceLanguage && !draft.languages.includes(language.code)
+  );
+  const isFull = draft.languages.length >= MAX_TRANSLATION_LANGUAGES;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(data);
+  const isBusy = saveMutation.isPending || draftMutation.isPending || publishMutation.isPending;
+  const activeProgress = progress[activeLanguage];
+  const isPublished = data?.published.includes(activeLanguage) ?? false;
+  const canPublish = (activeProgress?.percentage ?? 0) >= draft.publishThreshold;
+
+  const addLanguage = (code: string) => {
+    setDraft({ ...draft, languages: [...draft.languages, code] });
+    setActiveLanguage(code);
+  };
+
+  const removeLanguage = (code: string) => {
+    const languages = draft.languages.filter(language => language !== code);
+    setDraft({ ...draft, languages });
+    if (activeLanguage === code) setActiveLanguage(languages[0] ?? '');
+  };
+
+  const setSurveyTranslation = (translation: SurveyContentTranslation) => {
+    setDraft({
+      ...draft,
+      survey: {
+        ...draft.survey,
+        translations: { ...draft.survey.translations, [activeLanguage]: translation }
+      }
+    });
+  };
+
+  const setQuestionTranslation = (questionId: number, translation: QuestionTranslation) => {
+    setDraft({
+      ...draft,
+      questions: draft.questions.map(question => question.id !== questionId ? question : {
+        ...question,
+        translations: { ...question.translations, [activeLanguage]: translation }
+      })
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Languages className="h-5 w-5" />
+          Translations
+        </CardTitle>
+        <CardDescription>
+          The survey is written in {languageName(draft.sourceLanguage)}. Add languages respondents can choose from and
+          translate each text, or draft missing texts with machine translation and review them; anything left blank is
+          shown in {languageName(draft.sourceLanguage)}. A language is offered to respondents once it is published, which
+          needs at least {draft.publishThreshold}% of its texts reviewed and up to date. Answers are recorded with the
+          original option values, so results from every language are analysed together.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {draft.languages.map(code => (
+            <Badge
+              key={code}
+              variant={code === activeLanguage ? 'default' : 'secondary'}
+              className="gap-1 cursor-pointer"
+              onClick={() => setActiveLanguage(code)}
+            >
+              {data?.published.includes(code) && <Globe className="h-3 w-3" aria-label="Published" />}
+              {languageName(code)}
+              <span className="opacity-75">{progress[code]?.percentage ?? 0}%</span>
+              {!disabled && (
+                <button
+                  type="button"
+                  aria-label={`Remove ${languageName(code)}`}
+                  onClick={(event) => { event.stopPropagation(); removeLanguage(code); }}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+          {!disabled && !isFull && addableLanguages.length > 0 && (
+            <Select value="" onValueChange={addLanguage}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue placeholder="Add a language" />
+              </SelectTrigger>
+              <SelectContent>
+                {addableLanguages.map(language => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.name} ({language.nativeName})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {activeLanguage ? (
+          <>
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {languageName(activeLanguage)}
+                  {isPublished && <Badge variant="secondary" className="ml-2">Published</Badge>}
+                </span>
+                <span className="text-muted-foreground">
+                  {activeProgress?.current ?? 0} of {activeProgress?.total ?? 0} texts reviewed
+                </span>
+              </div>
+              <Progress value={activeProgress?.percentage ?? 0} />
+              <p className="text-xs text-muted-foreground">
+                {activeProgress?.missing ?? 0} missing · {activeProgress?.drafts ?? 0} machine drafts · {activeProgress?.stale ?? 0} outdated
+              </p>
+            </div>
+
+            {!disabled && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => draftMutation.mutate(activeLanguage)}
+                  disabled={isDirty || isBusy || !data?.languages.includes(activeLanguage)}
+                >
+                  {draftMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                  Draft missing translations
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="translation-include-stale"
+                    checked={includeStale}
+                    onCheckedChange={(checked) => setIncludeStale(checked === true)}
+                  />
+                  <Label htmlFor="translation-include-stale" className="text-sm font-normal">Also redo outdated texts</Label>
+                </div>
+                <div className="ml-auto flex items-center gap-2">
+                  {isPublished ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => publishMutation.mutate({ language: activeLanguage, publish: false })}
+                      disabled={isBusy}
+                    >
+                      <EyeOff className="h-4 w-4" />
+                      Unpublish
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => publishMutation.mutate({ language: activeLanguage, publish: true })}
+                      disabled={isDirty || isBusy || !canPublish || !data?.languages.includes(activeLanguage)}
+                      title={canPublish ? undefined : `At least ${draft.publishThreshold}% of the texts must be reviewed to publish`}
+                    >
+                      <Globe className="h-4 w-4" />
+                      Publish
+                    </Button>
+                  )}
+                </div>
+                {isDirty && (
+                  <p className="w-full text-xs text-muted-foreground">Save your changes before drafting or publishing.</p>
+                )}
+              </div>
+            )}
+
+            {draft.survey.texts.length > 0 && (
+              <div className="space-y-4">
+                <h4 className="font-medium">Survey</h4>
+                {draft.survey.texts.map(text => (
+                  <TranslationField
+                    key={text.key}
+                    id={`translation-survey-${text.key}`}
+                    text={text}
+                    translation={draft.survey.translations[activeLanguage]}
+                    language={activeLanguage}
+                    disabled={disabled}
+                    onChange={(translation) => setSurveyTranslation(translation as SurveyContentTranslation)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {draft.questions.map(question => (
+              <div key={question.id} className="space-y-4 border-t pt-4">
+                <h4 className="font-medium">Question {question.order}</h4>
+                {question.texts.map(text => (
+                  <TranslationField
+                    key={text.key}
+                    id={`translation-${question.id}-${text.key}`}
+                    text={text}
+                    translation={question.translations[activeLanguage]}
+                    language={activeLanguage}
+                    disabled={disabled}
+                    onChange={(translation) => setQuestionTranslation(question.id, translation as QuestionTranslation)}
+                  />
+                ))}
+              </div>
+            ))}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Add a language to start translating. Respondents are shown the published language that best matches their
+            browser, and can switch to any other published language.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(draft)}
+            disabled={disabled || !isDirty || isBusy}
+            className="gap-2"
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save translations
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { traitCategories } from "@/lib/personalityTraits";
+import {
+  TraitCategory,
+  TraitDefinition,
+  TraitModel,
+  DEFAULT_TRAIT_MODEL,
+  MAX_TRAITS_PER_MODEL,
+  TRAIT_LIBRARY
+} from "@shared/traitModel";
+
+interface TraitModelEditorProps {
+  value: TraitModel;
+  onChange: (traits: TraitModel) => void;
+  disabled?: boolean;
+}
+
+const CUSTOM_TRAIT = "__custom__";
+
+export default function TraitModelEditor({ value, onChange, disabled = false }: TraitModelEditorProps) {
+  const [libraryChoice, setLibraryChoice] = useState<string>("");
+
+  const usedNames = new Set(value.map(t => t.name.trim().toLowerCase()));
+  const availableLibraryTraits = TRAIT_LIBRARY.filter(t => !usedNames.has(t.name.toLowerCase()));
+  const isFull = value.length >= MAX_TRAITS_PER_MODEL;
+
+  const duplicateNames = new Set(
+    value
+      .map(t => t.name.trim().toLowerCase())
+      .filter((name, index, names) => name && names.indexOf(name) !== index)
+  );
+
+  const updateTrait = (index: number, updated: Partial<TraitDefinition>) => {
+    onChange(value.map((t, i) => (i === index ? { ...t, ...updated } : t)));
+  };
+
+  const removeTrait = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addTrait = () => {
+    if (!libraryChoice || isFull) return;
+    if (libraryChoice === CUSTOM_TRAIT) {
+      onChange([...value, { name: "", category: "personality" }]);
+    } else {
+      const trait = TRAIT_LIBRARY.find(t => t.name === libraryChoice);
+      if (trait) onChange([...value, { ...trait }]);
+    }
+    setLibraryChoice("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trait Model</CardTitle>
+        <CardDescription>
+          Choose which traits this survey scores. Results, charts and exports show these traits in this order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {value.map((trait, index) => (
+            <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+              <Input
+                value={trait.name}
+                placeholder="Trait name"
+                disabled={disabled}
+                className={duplicateNames.has(trait.name.trim().toLowerCase()) || !trait.name.trim() ? "border-destructive" : ""}
+                onChange={(e) => updateTrait(index, { name: e.target.value })}
+              />
+              <Select
+                value={trait.category}
+                disabled={disabled}
+                onValueChange={(category) => updateTrait(index, { category: category as TraitCategory })}
+              >
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {traitCategories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled || value.length <= 1}
+                onClick={() => removeTrait(index)}
+                aria-label={`Remove ${trait.name || "trait"}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {duplicateNames.size > 0 && (
+          <p className="text-sm text-destructive">Trait names must be unique.</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="flex-1 space-y-1">
+            <Label>Add a trait</Label>
+            <Select value={libraryChoice} onValueChange={setLibraryChoice} disabled={disabled || isFull}>
+              <SelectTrigger>
+                <SelectValue placeholder={isFull ? `Up to ${MAX_TRAITS_PER_MODEL} traits` : "Pick a trait"} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_TRAIT}>Custom trait...</SelectItem>
+                {availableLibraryTraits.map(t => (
+                  <SelectItem key={t.name} value={t.name}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" onClick={addTrait} disabled={disabled || isFull || !libraryChoice}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => onChange(DEFAULT_TRAIT_MODEL.map(t => ({ ...t })))}
+            disabled={disabled}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to default
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Whether a trait model can be saved: every trait named, names unique
+ */
+export function isTraitModelValid(traits: TraitModel): boolean {
+  const names = traits.map(t => t.name.trim().toLowerCase());
+  return names.length > 0 && names.every(Boolean) && new Set(names).size === names.length;
+}
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from "@/components/ui/popover";
+import { Scale } from "lucide-react";
+import {
+  TraitModel,
+  TraitWeights,
+  TRAIT_WEIGHT_LIMIT,
+  cleanTraitWeights
+} from "@shared/traitModel";
+
+interface TraitWeightsEditorProps {
+  model: TraitModel;
+  value?: TraitWeights;
+  onChange: (weights: TraitWeights | undefined) => void;
+  disabled?: boolean;
+  // What is being weighted, e.g. "this option" or "the slider"
+  subject?: string;
+}
+
+const weightOf = (weights: TraitWeights | undefined, trait: string) => {
+  const match = Object.entries(weights || {}).find(([name]) => name.toLowerCase() === trait.toLowerCase());
+  return match ? match[1] : 0;
+};
+
+export default function TraitWeightsEditor({
+  model,
+  value,
+  onChange,
+  disabled = false,
+  subject = "this option"
+}: TraitWeightsEditorProps) {
+  const weighted = model.filter(trait => weightOf(value, trait.name) !== 0);
+
+  const setWeight = (trait: string, raw: string) => {
+    const next: TraitWeights = {};
+    for (const t of model) {
+      const weight = t.name === trait ? Number(raw) : weightOf(value, t.name);
+      if (Number.isFinite(weight) && weight !== 0) next[t.name] = weight;
+    }
+    onChange(cleanTraitWeights(next));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="shrink-0">
+          <Scale className="h-4 w-4 mr-1" />
+          {weighted.length > 0 ? `Weights (${weighted.length})` : "Weights"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Trait weights</p>
+          <p className="text-xs text-muted-foreground">
+            How choosing {subject} moves each trait, from -{TRAIT_WEIGHT_LIMIT} to {TRAIT_WEIGHT_LIMIT}. Leave 0 for traits it does not measure.
+          </p>
+        </div>
+        {model.map(trait => (
+          <div key={trait.name} className="flex items-center justify-between gap-2">
+            <Label className="text-sm font-normal">{trait.name}</Label>
+            <Input
+              type="number"
+              className="w-20"
+              min={-TRAIT_WEIGHT_LIMIT}
+              max={TRAIT_WEIGHT_LIMIT}
+              step={0.5}
+              disabled={disabled}
+              value={weightOf(value, trait.name)}
+              onChange={(e) => setWeight(trait.name, e.target.value)}
+            />
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
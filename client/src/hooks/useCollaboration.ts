@@ -1,5 +1,17 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { CollaborationUserData } from '../../../shared/websocket-types';
+import {
+  AppliedOperation,
+  CollaborationOperation,
+  CollaborationOperationInput,
+  CollaborationWorkspace,
+  ElementLock,
+  LockRequest,
+  OperationOutcome,
+  applyToWorkspace,
+  conflictKey
+} from '../../../shared/collaborationOps';
+import { apiRequest } from '@/lib/queryClient';
 
 // Define the shape of the collaboration state
 interface CollaborationState {
@@ -11,34 +23,37 @@ interface CollaborationState {
     status: 'online' | 'idle' | 'offline';
     cursorPosition?: { x: number, y: number };
   }>;
-  document: {
-    content: string;
-    version: number;
-  };
+  // The survey being edited, with its field versions and element locks
+  workspace: CollaborationWorkspace | null;
+  // The signed-in user as the session knows them
+  user: { id: number; username: string } | null;
+  // Operations of this user that the server did not apply
+  conflicts: Array<Exclude<OperationOutcome, { status: 'applied' }>>;
   comments: Array<{
     id: string;
     userId: number;
     username: string;
     text: string;
     createdAt: string;
-    position: number;
+    questionId: number | null;
     resolved: boolean;
     resolvedBy?: number;
     resolvedAt?: string;
   }>;
 }
 
-// Define function for handling document changes
-export type ChangeHandler = (change: any) => void;
+// Define function for handling survey changes
+export type OperationHandler = (change: AppliedOperation) => void;
+export type ConflictHandler = (outcome: Exclude<OperationOutcome, { status: 'applied' }>) => void;
 export type CommentHandler = (comment: any) => void;
 export type ParticipantHandler = (participant: any) => void;
 
 // UseCollaboration hook params
 interface UseCollaborationParams {
-  sessionId: number;
-  userId: number;
-  username: string;
-  onDocumentChange?: ChangeHandler;
+  // null while no session is open
+  sessionId: number | null;
+  onOperation?: OperationHandler;
+  onConflict?: ConflictHandler;
   onCommentAdded?: CommentHandler;
   onCommentResolved?: CommentHandler;
   onParticipantJoined?: ParticipantHandler;
@@ -46,11 +61,16 @@ interface UseCollaborationParams {
   onParticipantUpdated?: ParticipantHandler;
 }
 
+// Reads the data of a collaboration API response; conflicts and held locks carry data too
+async function readCollaborationResponse<T>(response: Response): Promise<{ ok: boolean; message?: string; data?: T }> {
+  const json = await response.json().catch(() => ({}));
+  return { ok: response.ok && json.status === 'success', message: json.message, data: json.data };
+}
+
 export function useCollaboration({
   sessionId,
-  userId,
-  username,
-  onDocumentChange,
+  onOperation,
+  onConflict,
   onCommentAdded,
   onCommentResolved,
   onParticipantJoined,
@@ -62,13 +82,18 @@ export function useCollaboration({
     connected: false,
     connectionId: null,
     participants: [],
-    document: {
-      content: '',
-      version: 0
-    },
+    workspace: null,
+    user: null,
+    conflicts: [],
     comments: []
   });
 
+  // Latest workspace for callbacks that must not change identity on every edit
+  const workspaceRef = useRef<CollaborationWorkspace | null>(null);
+  workspaceRef.current = state.workspace;
+  const userId = state.user?.id ?? null;
+  const username = state.user?.username ?? null;
+
   // WebSocket reference
   const wsRef = useRef<WebSocket | null>(null);
   const connectionIdRef = useRef<string | null>(null);
@@ -79,8 +104,26 @@ export function useCollaboration({
   const MAX_RECONNECT_ATTEMPTS = 5;
   const BASE_RECONNECT_DELAY = 1000; // 1 second
   
+  // Load the survey of the session and who the signed-in user is
+  const loadWorkspace = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const response = await apiRequest('GET', `/api/collaboration/${sessionId}/workspace`);
+      const result = await readCollaborationResponse<CollaborationWorkspace & { user: { id: number; username: string } }>(response);
+      if (!result.ok || !result.data) {
+        console.error('Failed to load collaboration workspace:', result.message);
+        return;
+      }
+      const { user, ...workspace } = result.data;
+      setState(prev => ({ ...prev, user, workspace }));
+    } catch (err) {
+      console.error('Error loading collaboration workspace:', err);
+    }
+  }, [sessionId]);
+
   // Function to connect to WebSocket
   const connect = useCallback(() => {
+    if (!sessionId || userId === null) return;
     try {
       // Create WebSocket connection
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -139,7 +182,7 @@ export function useCollaboration({
             setState(prev => ({
               ...prev,
               participants: data.participants || [],
-              document: data.document || { content: '', version: 0 },
+              workspace: data.workspace || prev.workspace,
               comments: data.comments || []
             }));
           }
@@ -296,21 +339,25 @@ export function useCollaboration({
           }
         }
       }
-      else if (change.field === 'change') {
-        // Handle document change
+      else if (change.field === 'operation') {
+        // Apply an operation of any participant; our own arrive twice and apply once
         setState(prev => ({
           ...prev,
-          document: {
-            content: prev.document.content,
-            version: change.value.docVersion
-          }
+          workspace: prev.workspace ? applyToWorkspace(prev.workspace, change.value) : prev.workspace
         }));
         
-        // Call the document change handler
-        if (onDocumentChange) {
-          onDocumentChange(change.value);
+        // Call the operation handler
+        if (onOperation) {
+          onOperation(change.value);
         }
       }
+      else if (change.field === 'locks') {
+        // Locks are always sent whole
+        setState(prev => ({
+          ...prev,
+          workspace: prev.workspace ? { ...prev.workspace, locks: change.value } : prev.workspace
+        }));
+      }
       else if (change.field === 'comment') {
         // Add new comment
         setState(prev => ({
@@ -354,7 +401,7 @@ export function useCollaboration({
       }
     });
   }, [
-    onDocumentChange, 
+    onOperation, 
     onCommentAdded, 
     onCommentResolved, 
     onParticipantJoined, 
@@ -430,19 +477,76 @@ export function useCollaboration({
     });
   }, [sendMessage, sessionId, userId]);
   
-  // Send a document change
-  const sendChange = useCallback((changeData: any) => {
-    return sendMessage({
-      type: 'collaborationUpdate',
-      action: 'update',
-      entityId: sessionId,
-      userId,
-      changes: [{
-        field: 'change',
-        value: changeData
-      }]
-    });
-  }, [sendMessage, sessionId, userId]);
+  /**
+   * Apply an operation to the survey. The base version is the one this
+   * client last saw for the field, so edits made meanwhile by others come
+   * back as conflicts instead of being overwritten.
+   */
+  const applyOperation = useCallback(async (op: CollaborationOperationInput): Promise<OperationOutcome | null> => {
+    if (!sessionId) return null;
+    const key = conflictKey({ ...op, baseVersion: {} } as CollaborationOperation);
+    const baseVersion = key ? workspaceRef.current?.fieldVersions[key] ?? {} : {};
+
+    const response = await apiRequest('POST', `/api/collaboration/${sessionId}/operations`, { ...op, baseVersion });
+    const result = await readCollaborationResponse<OperationOutcome>(response);
+    if (!result.data || !('status' in result.data)) {
+      throw new Error(result.message || 'Failed to apply the change');
+    }
+
+    const outcome = result.data;
+    if (outcome.status === 'applied') {
+      setState(prev => ({
+        ...prev,
+        workspace: prev.workspace ? applyToWorkspace(prev.workspace, outcome.change) : prev.workspace
+      }));
+    } else {
+      setState(prev => ({ ...prev, conflicts: [...prev.conflicts, outcome] }));
+      // What the server has now, so the next edit starts from it
+      loadWorkspace();
+      if (onConflict) {
+        onConflict(outcome);
+      }
+    }
+    return outcome;
+  }, [sessionId, loadWorkspace, onConflict]);
+
+  // Forget the conflicts the user has seen
+  const clearConflicts = useCallback(() => {
+    setState(prev => ({ ...prev, conflicts: [] }));
+  }, []);
+
+  // Lock an element for editing; returns the lock of whoever holds it
+  const lockElement = useCallback(async (element: LockRequest): Promise<{ acquired: boolean; lock: ElementLock } | null> => {
+    if (!sessionId) return null;
+    const response = await apiRequest('POST', `/api/collaboration/${sessionId}/locks`, element);
+    const result = await readCollaborationResponse<{ acquired: boolean; lock: ElementLock; locks: ElementLock[] }>(response);
+    if (!result.data) {
+      throw new Error(result.message || 'Failed to lock the element');
+    }
+    const { locks, ...outcome } = result.data;
+    setState(prev => ({
+      ...prev,
+      workspace: prev.workspace ? { ...prev.workspace, locks } : prev.workspace
+    }));
+    return outcome;
+  }, [sessionId]);
+
+  // Release a lock this user holds
+  const unlockElement = useCallback(async (element: LockRequest): Promise<void> => {
+    if (!sessionId) return;
+    const response = await apiRequest(
+      'DELETE',
+      `/api/collaboration/${sessionId}/locks/${element.elementType}/${encodeURIComponent(element.elementId)}`
+    );
+    const result = await readCollaborationResponse<{ released: boolean; locks: ElementLock[] }>(response);
+    if (result.data) {
+      const { locks } = result.data;
+      setState(prev => ({
+        ...prev,
+        workspace: prev.workspace ? { ...prev.workspace, locks } : prev.workspace
+      }));
+    }
+  }, [sessionId]);
   
   // Add a comment
   const addComment = useCallback((commentData: any) => {
@@ -489,7 +593,30 @@ export function useCollaboration({
     return result;
   }, [sendMessage, sessionId, userId]);
   
-  // Connect when the hook is first used
+  // Load the workspace when a session is opened
+  useEffect(() => {
+    setState(prev => ({ ...prev, workspace: null, conflicts: [], comments: [], participants: [] }));
+    connectionIdRef.current = null;
+    loadWorkspace();
+  }, [loadWorkspace]);
+
+  // Keep this user's locks from expiring while they are held
+  const lockTimeout = state.workspace?.lockTimeout;
+  useEffect(() => {
+    if (!lockTimeout || userId === null) return;
+    const interval = setInterval(() => {
+      workspaceRef.current?.locks
+        .filter(lock => lock.userId === userId)
+        .forEach(lock => {
+          lockElement({ elementType: lock.elementType, elementId: lock.elementId }).catch(err => {
+            console.error('Error extending lock:', err);
+          });
+        });
+    }, lockTimeout / 2);
+    return () => clearInterval(interval);
+  }, [lockTimeout, userId, lockElement]);
+
+  // Connect once the user is known
   useEffect(() => {
     connect();
     
@@ -512,9 +639,14 @@ export function useCollaboration({
     ...state,
     updateCursorPosition,
     updateStatus,
-    sendChange,
+    applyOperation,
+    clearConflicts,
+    lockElement,
+    unlockElement,
     addComment,
     resolveComment,
     leaveSession
   };
-}
\ No newline at end of file
+}
+
+export type Collaboration = ReturnType<typeof useCollaboration>;
@@ -61,6 +61,7 @@ const DEFAULT_NOTIFICATION_TITLES: Record<WebSocketMessageType, string> = {
   licenseUpdate: 'License Updated',
   supportTicketUpdate: 'Support Ticket Updated',
   notificationUpdate: 'New Notification',
+  quotaUpdate: 'Quotas Updated',
   systemUpdate: 'System Update',
   connection: 'Connected',
   connectionSuccess: 'Connection Successful',
@@ -93,6 +94,8 @@ const MESSAGE_TYPE_TO_QUERY_KEYS: Record<WebSocketMessageType, string[]> = {
   ping: [],
   pong: [],
   supportAgentTyping: [],
+  // The quota dashboard writes the pushed report straight into its query
+  quotaUpdate: [],
   collaborationUserJoined: [],
   collaborationUserLeft: [],
 };
@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import { getWebSocketService } from '@/lib/websocketService';
 import { updateQueryCache } from '@/lib/queryClient';
+import type { SurveyQuotaReport } from '@shared/quotas';
 
-type WebSocketMessageType = 'connection' | 'surveyResponseReceived' | 'collaborationUpdate' | 'supportAgentTyping' | 'surveyAnalyticsUpdate' | 'systemUpdate' | 'businessContextUpdate' | 'surveyUpdate' | 'surveyStatusUpdate' | 'licenseUpdate' | 'usageUpdate' | 'supportTicketUpdate' | 'notificationUpdate';
+type WebSocketMessageType = 'connection' | 'surveyResponseReceived' | 'collaborationUpdate' | 'supportAgentTyping' | 'surveyAnalyticsUpdate' | 'systemUpdate' | 'businessContextUpdate' | 'surveyUpdate' | 'surveyStatusUpdate' | 'licenseUpdate' | 'usageUpdate' | 'supportTicketUpdate' | 'notificationUpdate' | 'quotaUpdate';
 
 type SurveyResponseReceivedData = {
   responseId: number;
@@ -95,6 +96,14 @@ type UsageUpdateData = {
   timestamp: string;
 };
 
+type QuotaUpdateData = {
+  type: 'quotaUpdate';
+  surveyId: number;
+  companyId?: number;
+  report: SurveyQuotaReport;
+  timestamp: string;
+};
+
 type SupportTicketUpdateData = {
   ticketId: number;
   action: 'create' | 'update' | 'comment' | 'status_change' | 'assignment';
@@ -150,6 +159,7 @@ type MessageTypes = {
   usageUpdate: UsageUpdateData;
   supportTicketUpdate: SupportTicketUpdateData;
   notificationUpdate: NotificationData;
+  quotaUpdate: QuotaUpdateData;
 }
 
 /**
@@ -1,3 +1,5 @@
+import type { QuestionType } from "@shared/questionTypes";
+
 // Define frontend question types that match the actual usage in this file
 export interface SurveyQuestionOption {
   id: string;
@@ -10,7 +12,7 @@ export interface SurveyQuestionOption {
 
 export interface SurveyQuestion {
   id: number;
-  type: "text" | "image" | "multiple-choice" | "slider" | "ranking" | "scenario" | "mood-board" | "personality-matrix";
+  type: QuestionType;
   question: string;
   description?: string;
   category?: string;
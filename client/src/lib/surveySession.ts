@@ -0,0 +1,90 @@
+// Helpers for persisting survey session resume tokens in the browser
+// so respondents can pick up where they left off after a reload.
+
+const RESUME_TOKEN_KEY_PREFIX = 'surveyResumeToken:';
+
+export interface ResumedSurveySession {
+  sessionId: string;
+  surveyId: number;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  answers: Record<string, any>;
+  answeredCount: number;
+  lastQuestionId: number | null;
+  surveyResponseId: number | null;
+  startTime: string;
+}
+
+export function saveResumeToken(surveyId: number | string, resumeToken: string | null | undefined): void {
+  if (!resumeToken) return;
+  try {
+    localStorage.setItem(`${RESUME_TOKEN_KEY_PREFIX}${surveyId}`, resumeToken);
+  } catch (error) {
+    console.error('Failed to store survey resume token:', error);
+  }
+}
+
+export function getResumeToken(surveyId: number | string): string | null {
+  try {
+    return localStorage.getItem(`${RESUME_TOKEN_KEY_PREFIX}${surveyId}`);
+  } catch {
+    return null;
+  }
+}
+
+export function clearResumeToken(surveyId: number | string): void {
+  try {
+    localStorage.removeItem(`${RESUME_TOKEN_KEY_PREFIX}${surveyId}`);
+  } catch {
+    // Ignore storage errors - nothing to clean up
+  }
+}
+
+/**
+ * Look up a resumable session for a survey. Returns null (and forgets the token)
+ * when there is nothing left to resume.
+ */
+export async function fetchResumableSession(surveyId: number | string): Promise<ResumedSurveySession | null> {
+  const token = getResumeToken(surveyId);
+  if (!token) return null;
+
+  try {
+    const res = await fetch(`/api/survey/resume/${encodeURIComponent(token)}`, { credentials: 'include' });
+    if (!res.ok) {
+      clearResumeToken(surveyId);
+      return null;
+    }
+
+    const body = await res.json();
+    const session: ResumedSurveySession | undefined = body?.data;
+    if (!session || session.status === 'completed' || String(session.surveyId) !== String(surveyId)) {
+      clearResumeToken(surveyId);
+      return null;
+    }
+
+    return session;
+  } catch (error) {
+    console.error('Failed to resume survey session:', error);
+    return null;
+  }
+}
+
+/**
+ * Index of the first question without an answer, so a resumed respondent lands
+ * on the question they had not reached yet
+ */
+export function firstUnansweredIndex(questions: Array<{ id: number }>, answers: Record<string, any>): number {
+  const index = questions.findIndex(q => answers[q.id] === undefined);
+  return index === -1 ? Math.max(questions.length - 1, 0) : index;
+}
+
+/**
+ * Only the answers to the given (visible) questions, so answers left on
+ * questions that display logic hid again are not submitted
+ */
+export function answersForQuestions<T>(questions: Array<{ id: number }>, answers: Record<string, T>): Record<string, T> {
+  const shown: Record<string, T> = {};
+  for (const question of questions) {
+    if (answers[question.id] !== undefined) shown[question.id] = answers[question.id];
+  }
+  return shown;
+}
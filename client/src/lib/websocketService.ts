@@ -22,6 +22,7 @@ export type WebSocketMessageType =
   | 'licenseUpdate'
   | 'supportTicketUpdate'
   | 'notificationUpdate'
+  | 'quotaUpdate'
   | 'clientUpdate'
   | 'ping'
   | 'pong';
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Loader2, UserPlus } from "lucide-react";
+import { InvitationPreview, TEAM_ROLE_LABELS } from "@shared/team";
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+/**
+ * Landing page of an emailed team invitation: shows who invited the user to
+ * which company and creates their account
+ */
+export default function AcceptInvitation() {
+  const [, navigate] = useLocation();
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+  const [form, setForm] = useState({ username: '', password: '', confirmPassword: '', firstName: '', lastName: '' });
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationPreview>({
+    queryKey: ['invitation', token],
+    queryFn: async () => readData(await fetch(`/api/invitations/${encodeURIComponent(token)}`), 'Failed to load the invitation'),
+    enabled: !!token,
+    retry: false
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const { confirmPassword, ...account } = form;
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(account)
+      });
+      return readData<{ username: string }>(response, 'Failed to accept the invitation');
+    },
+    onSuccess: () => navigate('/login')
+  });
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+  const passwordsMatch = form.password === form.confirmPassword;
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Invitation unavailable</AlertTitle>
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'This invitation link is incomplete.'}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (isLoading || !invitation) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (invitation.status !== 'pending') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Alert className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>This invitation is {invitation.status}</AlertTitle>
+          <AlertDescription>
+            {invitation.status === 'accepted'
+              ? 'Sign in with the account you created.'
+              : `Ask ${invitation.inviterName ?? 'your team'} to send you a new invitation.`}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserPlus className="h-5 w-5 mr-2 text-primary" />
+            Join {invitation.companyName}
+          </CardTitle>
+          <CardDescription>
+            {invitation.inviterName ?? 'A colleague'} invited {invitation.email}
+            {invitation.role ? ` as ${TEAM_ROLE_LABELS[invitation.role].toLowerCase()}` : ''}. The invitation is valid
+            until {new Date(invitation.expiresAt).toLocaleDateString()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              acceptMutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="first-name">First name</Label>
+                <Input id="first-name" value={form.firstName} onChange={update('firstName')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="last-name">Last name</Label>
+                <Input id="last-name" value={form.lastName} onChange={update('lastName')} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input id="username" value={form.username} onChange={update('username')} autoComplete="username" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" value={form.password} onChange={update('password')} autoComplete="new-password" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm password</Label>
+              <Input id="confirm-password" type="password" value={form.confirmPassword} onChange={update('confirmPassword')} autoComplete="new-password" required />
+              {!passwordsMatch && form.confirmPassword && (
+                <p className="text-sm text-red-500">The passwords do not match.</p>
+              )}
+            </div>
+            {acceptMutation.error instanceof Error && (
+              <p className="text-sm text-red-500">{acceptMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={acceptMutation.isPending || !passwordsMatch}>
+              {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create account and join
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
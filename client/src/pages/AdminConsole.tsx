@@ -25,12 +25,16 @@ import PlatformAnalytics from "@/components/admin/PlatformAnalytics";
 import BillingManagement from "@/components/admin/BillingManagement";
 import NotificationCenter from "@/components/admin/NotificationCenter";
 import AuditLogs from "@/components/admin/AuditLogs";
+import PermissionManagement from "@/components/admin/PermissionManagement";
+import PrivacyRequests from "@/components/admin/PrivacyRequests";
 import IntegrationsManager from "@/components/admin/IntegrationsManager";
 import SystemSettings from "@/components/admin/SystemSettings";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
 import DemoDataGenerator from "@/components/admin/DemoDataGenerator";
 import BlogManagement from "@/components/admin/BlogManagement";
 import DemoRequestManagement from "@/components/admin/DemoRequestManagement";
 import BackupManager from "@/components/admin/BackupManager";
+import { SharingManager } from "@/components/admin/SharingManager";
 import { AdminResponsesViewer } from "@/components/admin/AdminResponsesViewer";
 import { toast } from "@/hooks/use-toast";
 import { UserRole } from "@shared/schema";
@@ -557,6 +561,45 @@ const AdminConsole = () => {
                     </svg>
                     {t('pages.adminConsole.tabs.auditLogs')}
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="permissions"
+                    className="h-8 rounded-md data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-none bg-transparent flex items-center gap-1 whitespace-nowrap px-3 text-sm"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2 h-4 w-4 shrink-0"
+                    >
+                      <circle cx="7.5" cy="15.5" r="5.5"></circle>
+                      <path d="m21 2-9.6 9.6"></path>
+                      <path d="m15.5 7.5 3 3L22 7l-3-3"></path>
+                    </svg>
+                    {t('pages.adminConsole.tabs.permissions')}
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="privacy"
+                    className="h-8 rounded-md data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-none bg-transparent flex items-center gap-1 whitespace-nowrap px-3 text-sm"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2 h-4 w-4 shrink-0"
+                    >
+                      <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+                      <path d="m9 12 2 2 4-4"></path>
+                    </svg>
+                    {t('pages.adminConsole.tabs.privacyRequests')}
+                  </TabsTrigger>
                   <TabsTrigger
                     value="responses"
                     className="h-8 rounded-md data-[state=active]:bg-primary data-[state=active]:text-white data-[state=active]:shadow-none bg-transparent flex items-center gap-1 whitespace-nowrap px-3 text-sm"
@@ -1146,6 +1189,7 @@ const AdminConsole = () => {
                   <TabsList className="w-full">
                     <TabsTrigger value="templates">{t('pages.adminConsole.templates.surveyTemplates')}</TabsTrigger>
                     <TabsTrigger value="survey-management">{t('pages.adminConsole.templates.surveyManagement')}</TabsTrigger>
+                    <TabsTrigger value="shared-reports">{t('pages.adminConsole.templates.sharedReports')}</TabsTrigger>
                   </TabsList>
                   <TabsContent value="templates">
                     <SurveyTemplates />
@@ -1153,6 +1197,9 @@ const AdminConsole = () => {
                   <TabsContent value="survey-management">
                     <SurveyManagement onViewAnalytics={(surveyId: number) => setViewingAnalytics(surveyId)} />
                   </TabsContent>
+                  <TabsContent value="shared-reports">
+                    <SharingManager />
+                  </TabsContent>
                 </Tabs>
               )}
             </TabsContent>
@@ -1191,6 +1238,14 @@ const AdminConsole = () => {
               <AuditLogs />
             </TabsContent>
 
+            <TabsContent value="permissions">
+              <PermissionManagement />
+            </TabsContent>
+
+            <TabsContent value="privacy">
+              <PrivacyRequests />
+            </TabsContent>
+
             <TabsContent value="responses">
               <AdminResponsesViewer />
             </TabsContent>
@@ -1203,7 +1258,8 @@ const AdminConsole = () => {
               <IntegrationsManager />
             </TabsContent>
 
-            <TabsContent value="settings">
+            <TabsContent value="settings" className="space-y-6">
+              <TwoFactorSettings />
               <SystemSettings />
             </TabsContent>
             
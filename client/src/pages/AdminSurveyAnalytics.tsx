@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ArrowLeft, AlertCircle } from 'lucide-react';
 import RealtimeAnalytics from '@/components/dashboard/RealtimeAnalytics';
+import PsychometricsPanel from '@/components/admin/PsychometricsPanel';
 // Removed apiRequest import - using fetch directly for better control
 
 interface AdminSurveyAnalyticsProps {
@@ -139,6 +140,9 @@ export default function AdminSurveyAnalytics({ surveyId: propSurveyId, onBack }:
         companyId={survey.companyId || undefined}
         showHeader={true}
       />
+
+      {/* Reliability of the trait items */}
+      <PsychometricsPanel surveyId={surveyId} />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useLocation } from "wouter";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../components/ui/card";
@@ -6,6 +6,9 @@ import { Progress } from "../components/ui/progress";
 import { Skeleton } from "../components/ui/skeleton";
 import { useToast } from "../hooks/use-toast";
 import { apiRequest } from "../lib/queryClient";
+import { saveResumeToken, clearResumeToken, fetchResumableSession, firstUnansweredIndex, answersForQuestions } from "../lib/surveySession";
+import { getVisibleQuestions } from "@shared/questionLogic";
+import { QUESTION_TYPE_IDS, QuestionType, isQuestionType } from "@shared/questionTypes";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Loader2, ChevronLeft, ChevronRight, CheckCircle2, AlertCircle, GripVertical } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
@@ -25,7 +28,7 @@ interface SurveyQuestionOption {
 
 interface SurveyQuestion {
   id: number;
-  type: "text" | "image" | "multiple-choice" | "slider" | "ranking" | "scenario" | "mood-board" | "personality-matrix";
+  type: QuestionType;
   question: string;
   description?: string;
   category?: string;
@@ -201,9 +204,14 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
   const [sessionStarted, setSessionStarted] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState<string | null>(null);
+  // Set when the respondent falls in a full quota; replaces the thank-you screen
+  const [screenOutMessage, setScreenOutMessage] = useState<string | null>(null);
 
   // Check if this is a preview (from URL query params)
   const isPreview = typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('preview') === 'true';
+  // Client deployment links carry ?deployment=<id> so their own quotas apply
+  const deploymentParam = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('deployment') : null;
+  const deploymentId = deploymentParam && /^\d+$/.test(deploymentParam) ? parseInt(deploymentParam) : undefined;
 
   // Demographic questions will be shown at the end
   const [demographicInfo, setDemographicInfo] = useState({
@@ -237,7 +245,10 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
     retry: 2,
   });
 
-  const questions = (questionsData as any)?.data || [];
+  const allQuestions = (questionsData as any)?.data || [];
+
+  // Questions the respondent is shown, given the display logic and the answers so far
+  const questions = useMemo(() => getVisibleQuestions<any>(allQuestions, answers), [allQuestions, answers]);
 
   // Fetch company usage to enforce response quota before showing survey (skip in preview mode)
   const { data: usageInfo, isLoading: usageLoading } = useQuery({
@@ -281,6 +292,9 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
       setSessionId(sessionId);
       setSessionStartTime(startTime);
       setSessionStarted(true);
+      if (!isPreview && surveyDetails?.id) {
+        saveResumeToken(surveyDetails.id, data.data?.resumeToken);
+      }
     },
     onError: (error) => {
       console.error("DEBUG: Error starting session:", error);
@@ -293,12 +307,27 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
     }
   });
 
-  // Start session only when user clicks Start
+  // Start session only when user clicks Start, resuming a saved session when there is one
   useEffect(() => {
     if (hasStarted && surveyDetails && !sessionId && !sessionStarted && !startSessionMutation.isPending) {
       console.log('DEBUG: Starting survey session for survey:', surveyDetails.id);
       setSessionStarted(true);
-      startSessionMutation.mutate();
+
+      const resume = isPreview ? Promise.resolve(null) : fetchResumableSession(surveyDetails.id);
+      resume.then(resumed => {
+        if (resumed) {
+          setSessionId(resumed.sessionId);
+          setSessionStartTime(resumed.startTime);
+          setAnswers(resumed.answers);
+          setCurrentQuestionIndex(firstUnansweredIndex(getVisibleQuestions<any>(allQuestions, resumed.answers), resumed.answers));
+          toast({
+            title: "Progress restored",
+            description: "We saved your earlier answers, so you can continue where you left off."
+          });
+        } else {
+          startSessionMutation.mutate();
+        }
+      });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [hasStarted, surveyDetails]);
@@ -444,8 +473,9 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
         surveyType: surveyDetails?.surveyType || 'general',
         surveyId: surveyDetails?.id,
         companyId: surveyDetails?.companyId || 1,
+        deploymentId,
         startTime: sessionStartTime, // Include the session start time
-        responses: Object.entries(answers).map(([questionId, answer]) => ({
+        responses: Object.entries(answersForQuestions(questions, answers)).map(([questionId, answer]) => ({
           questionId: parseInt(questionId),
           answer
         })),
@@ -463,18 +493,28 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
         const errorText = await response.text();
         console.error('DEBUG: API error response:', errorText);
         let errorMessage = 'Failed to complete survey';
+        let errorCode: string | undefined;
         try {
           const errorData = JSON.parse(errorText);
           errorMessage = errorData.message || errorMessage;
+          errorCode = errorData.code;
         } catch (e) {
           errorMessage = errorText || errorMessage;
         }
+        if (errorCode === 'QUOTA_FULL') {
+          setScreenOutMessage(errorMessage);
+          setShowThankYou(false);
+          setSubmitting(false);
+          clearResumeToken(surveyDetails?.id);
+          return;
+        }
         throw new Error(errorMessage);
       }
 
       const data = await response.json();
       console.log('DEBUG: Survey completed successfully', data);
       setSubmitting(false);
+      clearResumeToken(surveyDetails?.id);
 
       // After 3 seconds, redirect to results page using the responseId from the API
       setTimeout(() => {
@@ -583,6 +623,24 @@ export default function AnonymousSurvey({ shareId }: AnonymousSurveyProps) {
     );
   }
   
+  // Respondent screened out by a full quota
+  if (screenOutMessage) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl min-h-[calc(100vh-140px)] flex flex-col items-center justify-center">
+        <Card className="w-full shadow-lg">
+          <CardHeader className="bg-primary/5">
+            <CardTitle className="text-xl font-bold text-center">
+              Thank you for taking part
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 pb-8 text-center">
+            <p className="text-gray-700">{screenOutMessage}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // If the survey is completed and showing thank you message
   if (showThankYou) {
     return (
@@ -1186,13 +1244,13 @@ What to expect:
 
                 {/* Debug: Show if question type doesn't match any handler */}
                 {questionType && 
-                 !['multiple-choice', 'image', 'text', 'slider', 'ranking', 'scenario', 'mood-board', 'personality-matrix'].includes(questionType) && (
+                 !isQuestionType(questionType) && (
                   <div className="p-4 border border-yellow-400 bg-yellow-50 rounded-lg">
                     <p className="text-sm text-yellow-800">
                       <strong>Unsupported question type:</strong> {questionType}
                     </p>
                     <p className="text-xs text-yellow-700 mt-1">
-                      Available types: text, multiple-choice, image, slider, ranking, scenario, mood-board, personality-matrix
+                      Available types: {QUESTION_TYPE_IDS.join(", ")}
                     </p>
                     <p className="text-xs text-yellow-700 mt-2">
                       Question ID: {currentQuestion.id} | Question: {currentQuestion.question || currentQuestion.text}
@@ -5,6 +5,10 @@ import { useTranslation } from "react-i18next";
 import { useRealtime } from "@/hooks/useRealtime";
 import DashboardView from "@/components/dashboard/DashboardView";
 import TrendSection from "@/components/dashboard/TrendSection";
+import WebhooksPanel from "@/components/dashboard/WebhooksPanel";
+import ApprovalWorkflowPanel from "@/components/dashboard/ApprovalWorkflowPanel";
+import TeamPanel from "@/components/dashboard/TeamPanel";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
 import SurveyList from "@/components/SurveyList";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -27,9 +31,13 @@ import {
   ChevronRight,
   CheckCircle,
   Filter,
-  TrendingUp
+  TrendingUp,
+  Webhook,
+  ShieldCheck,
+  KeyRound
 } from "lucide-react";
 import { apiRequest } from "@/lib/api";
+import type { EntitlementUsage } from "@shared/entitlements";
 
 // Define the Survey type
 interface Survey {
@@ -140,7 +148,7 @@ const Dashboard = () => {
   const { t } = useTranslation();
   const [, setLocation] = useLocation();
   const queryClient = useQueryClient();
-  const [dashboardTab, setDashboardTab] = useState<"basic" | "trend-analysis">("basic");
+  const [dashboardTab, setDashboardTab] = useState<"basic" | "trend-analysis" | "webhooks">("basic");
   const [selectedSurveyId, setSelectedSurveyId] = useState<string>("all");
   const [isTabLoading, setIsTabLoading] = useState(false);
   const [hasLoadingTimeoutElapsed, setHasLoadingTimeoutElapsed] = useState(false);
@@ -238,7 +246,7 @@ const Dashboard = () => {
   });
   
   // Fetch usage data from API
-  const { data: usageData, isLoading: isUsageLoading } = useQuery({
+  const { data: usageData, isLoading: isUsageLoading } = useQuery<{ data?: EntitlementUsage & { responseUsagePercent: number; actualResponses: number } }>({
     queryKey: [`/api/company/${finalCompanyId}/usage`],
     queryFn: () => fetch(`/api/company/${finalCompanyId}/usage`, {
       credentials: 'include' // Include session cookies for authentication
@@ -259,7 +267,7 @@ const Dashboard = () => {
   
   // Handle tab switching with proper loading states
   const handleTabChange = (value: string) => {
-    const newTab = value as "basic" | "business-intelligence";
+    const newTab = value as "basic" | "trend-analysis" | "webhooks";
     setIsTabLoading(true);
     setDashboardTab(newTab);
     
@@ -336,15 +344,18 @@ const Dashboard = () => {
   const stats = analyticsData?.data;
   
   // Derived gating flags (dashboard-only)
-  const surveysCount = surveysData?.data?.length || 0;
+  // Effective limits from the license and subscription; 0 means no cap below
+  const usage = usageData?.data?.usage;
+  const surveysCount = usage?.surveys.used ?? (surveysData?.data?.length || 0);
   const licenseStatus = (company?.licenseStatus || '').toLowerCase();
-  const isLicenseExpired = licenseStatus === 'expired' || licenseStatus === 'suspended' || licenseStatus === 'inactive' || daysRemaining === 0;
+  const isLicenseExpired = licenseStatus === 'expired' || licenseStatus === 'suspended' || licenseStatus === 'inactive' || daysRemaining === 0
+    || (!!usageData?.data?.entitlements && usageData.data.entitlements.status !== 'active');
   const isExpiringSoon = !isLicenseExpired && isFinite(daysRemaining) && daysRemaining <= 14;
-  const maxResponses = company?.maxResponses || 0;
+  const maxResponses = usage ? usage.responses.limit ?? 0 : company?.maxResponses || 0;
   const actualResponses = usageData?.data?.actualResponses || 0;
   const isResponseBlocked = maxResponses > 0 && actualResponses >= maxResponses;
   const isResponseNearCap = !isResponseBlocked && usagePercentage >= 80;
-  const maxSurveys = company?.maxSurveys || 0;
+  const maxSurveys = usage ? usage.surveys.limit ?? 0 : company?.maxSurveys || 0;
   const isSurveyBlocked = maxSurveys > 0 && surveysCount >= maxSurveys;
   const isAnyBlocked = isLicenseExpired || isResponseBlocked || isSurveyBlocked;
   
@@ -580,7 +591,7 @@ const Dashboard = () => {
                     {usagePercentage}% {t('pages.dashboard.used')}
                   </p>
                   <span className="text-xs text-gray-500">
-                    ({usageData?.data?.actualResponses || 0}/{company?.maxResponses || 0})
+                    ({actualResponses}/{usage && usage.responses.limit === null ? '∞' : maxResponses})
                   </span>
                 </div>
                 <Progress value={usagePercentage} className="h-2 mt-2" />
@@ -589,11 +600,11 @@ const Dashboard = () => {
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">{t('pages.dashboard.userAccounts')}</h3>
                 <p className="text-base font-medium">
-                  {usageData?.data?.actualUsers ?? 0}/{company?.maxUsers ?? 0} {t('pages.dashboard.seatsUsed')}
+                  {usage?.seats.used ?? 0}/{usage ? usage.seats.limit ?? '∞' : company?.maxUsers ?? 0} {t('pages.dashboard.seatsUsed')}
                 </p>
                 <p className="text-sm text-gray-500 mt-1">
                   <Users className="h-4 w-4 inline mr-1" />
-                  {usageData?.data?.availableUsers ?? (company?.maxUsers ? Math.max(0, (company.maxUsers - (usageData?.data?.actualUsers ?? 0))) : 0)} {t('pages.dashboard.seatsAvailable')}
+                  {usage ? usage.seats.remaining ?? '∞' : company?.maxUsers ?? 0} {t('pages.dashboard.seatsAvailable')}
                 </p>
               </div>
               
@@ -601,8 +612,8 @@ const Dashboard = () => {
                 <h3 className="text-sm font-medium text-gray-500 mb-1">{t('pages.dashboard.features')}</h3>
                 <div className="flex flex-wrap gap-2">
                   {(() => {
-                    // Get features from license.features if available, otherwise fall back to company fields
-                    const features = company?.license?.features || {
+                    // Effective features of the license, otherwise license.features or the company fields
+                    const features = usageData?.data?.entitlements?.features || company?.license?.features || {
                       customBranding: company?.customBranding,
                       dataExport: company?.dataExport,
                       aiInsights: company?.aiInsights,
@@ -726,6 +737,34 @@ const Dashboard = () => {
                     <TrendingUp className="h-4 w-4 mr-2" />
                     {t('pages.dashboard.trendAnalysis')}
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="webhooks"
+                    className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none h-14 px-6"
+                  >
+                    <Webhook className="h-4 w-4 mr-2" />
+                    {t('pages.dashboard.webhooks')}
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="approvals"
+                    className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none h-14 px-6"
+                  >
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    {t('pages.dashboard.approvals')}
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="team"
+                    className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none h-14 px-6"
+                  >
+                    <Users className="h-4 w-4 mr-2" />
+                    {t('pages.dashboard.team')}
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="security"
+                    className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none h-14 px-6"
+                  >
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    {t('pages.dashboard.security')}
+                  </TabsTrigger>
                 </TabsList>
               </div>
               
@@ -748,6 +787,22 @@ const Dashboard = () => {
                   <TrendSection surveyId={selectedSurveyId} companyId={companyId} />
                 )}
               </TabsContent>
+
+              <TabsContent value="webhooks" className="mt-0">
+                <WebhooksPanel />
+              </TabsContent>
+
+              <TabsContent value="approvals" className="mt-0">
+                <ApprovalWorkflowPanel />
+              </TabsContent>
+
+              <TabsContent value="team" className="mt-0">
+                <TeamPanel />
+              </TabsContent>
+
+              <TabsContent value="security" className="mt-0">
+                <TwoFactorSettings />
+              </TabsContent>
             </Tabs>
           </div>
         </>
@@ -31,6 +31,8 @@ import {
 } from "@/components/ui/dialog";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import TwoFactorLoginStep from "@/components/auth/TwoFactorLoginStep";
+import { TwoFactorChallenge } from "@shared/twoFactor";
 
 // Login form validation schema
 const loginSchema = z.object({
@@ -70,6 +72,8 @@ export default function Login() {
   const [isRegistering, setIsRegistering] = useState(false);
   const [activeTab, setActiveTab] = useState("login");
   const [formError, setFormError] = useState<string | null>(null);
+  // Set when the password was right and the account needs a second factor
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
   const [showDemoConfirmation, setShowDemoConfirmation] = useState(false);
   const [showHelpSheet, setShowHelpSheet] = useState(false);
   const [demoFirstName, setDemoFirstName] = useState('');
@@ -96,6 +100,45 @@ export default function Login() {
   // Registration is disabled - admin creates accounts directly
   // We're keeping the form type definition but not using the register form anymore
 
+  // Store the signed-in user and open the console or dashboard
+  const completeSignIn = (userData: any) => {
+    // Clear any previous user data before storing new user
+    localStorage.removeItem('currentUser');
+    sessionStorage.clear();
+    queryClient.clear(); // Clear React Query cache
+
+    // Store user data in localStorage for client-side access
+    const userForStorage = {
+      ...userData.user,
+      isAuthenticated: true,
+      loginTime: new Date().toISOString()
+    };
+    localStorage.setItem('currentUser', JSON.stringify(userForStorage));
+    setAuthenticated(true);
+    setUser({ id: userData.user.id, email: userData.user.email, role: userData.user.role, companyId: userData.user.companyId });
+    window.dispatchEvent(new CustomEvent('auth:login', { detail: userForStorage }));
+    console.log('🔍 CLIENT DEBUG - Stored user in localStorage:', userForStorage);
+
+    // CSRF protection disabled - no token needed
+
+    // Successfully logged in
+    setIsLoggingIn(false);
+
+    // Redirect admin users to admin console, others to dashboard
+    if (userData.user?.role === 'platform_admin' || userData.user?.role === 'admin') {
+      console.log('🔍 CLIENT DEBUG - Redirecting to admin console');
+      setLocation('/admin');
+    } else {
+      console.log('🔍 CLIENT DEBUG - Redirecting to dashboard');
+      setLocation('/dashboard');
+    }
+    
+    toast({
+      title: t('success.loginSuccess'),
+      description: `${t('auth.login.welcome')}, ${userData.firstName || userData.username}!`,
+    });
+  };
+
   const handleLogin = async (data: LoginFormValues) => {
     setIsLoggingIn(true);
     setFormError(null);
@@ -124,6 +167,11 @@ export default function Login() {
 
           const userData = await response.json();
           console.log('🔍 CLIENT DEBUG - Demo login response data:', userData);
+          if (userData.status === 'two_factor_required') {
+            setTwoFactorChallenge(userData);
+            setIsLoggingIn(false);
+            return;
+          }
 
           // Clear any previous user data before storing new user
           localStorage.removeItem('currentUser');
@@ -199,6 +247,11 @@ export default function Login() {
 
           const userData = await response.json();
           console.log('🔍 CLIENT DEBUG - Admin login response data:', userData);
+          if (userData.status === 'two_factor_required') {
+            setTwoFactorChallenge(userData);
+            setIsLoggingIn(false);
+            return;
+          }
 
           // Clear any previous user data before storing new user
           localStorage.removeItem('currentUser');
@@ -276,42 +329,13 @@ export default function Login() {
 
       const userData = await response.json();
       console.log('🔍 CLIENT DEBUG - API response data:', userData);
-
-      // Clear any previous user data before storing new user
-      localStorage.removeItem('currentUser');
-      sessionStorage.clear();
-      queryClient.clear(); // Clear React Query cache
-
-      // Store user data in localStorage for client-side access
-      const userForStorage = {
-        ...userData.user,
-        isAuthenticated: true,
-        loginTime: new Date().toISOString()
-      };
-      localStorage.setItem('currentUser', JSON.stringify(userForStorage));
-      setAuthenticated(true);
-      setUser({ id: userData.user.id, email: userData.user.email, role: userData.user.role, companyId: userData.user.companyId });
-      window.dispatchEvent(new CustomEvent('auth:login', { detail: userForStorage }));
-      console.log('🔍 CLIENT DEBUG - Stored user in localStorage:', userForStorage);
-
-      // CSRF protection disabled - no token needed
-
-      // Successfully logged in
-      setIsLoggingIn(false);
-
-      // Redirect admin users to admin console, others to dashboard
-      if (userData.user?.role === 'platform_admin' || userData.user?.role === 'admin') {
-        console.log('🔍 CLIENT DEBUG - Redirecting to admin console');
-        setLocation('/admin');
-      } else {
-        console.log('🔍 CLIENT DEBUG - Redirecting to dashboard');
-        setLocation('/dashboard');
+      if (userData.status === 'two_factor_required') {
+        setTwoFactorChallenge(userData);
+        setIsLoggingIn(false);
+        return;
       }
-      
-      toast({
-        title: t('success.loginSuccess'),
-        description: `${t('auth.login.welcome')}, ${userData.firstName || userData.username}!`,
-      });
+
+      completeSignIn(userData);
     } catch (error: any) {
       setIsLoggingIn(false);
       setFormError(error.message || t('errors.pleaseLogin'));
@@ -474,94 +498,102 @@ export default function Login() {
             </div>
           )}
           
-          {/* Login form - business accounts are created by admins */}
-          <Form {...loginForm}>
-            <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-              <EnhancedFormField
-                form={loginForm}
-                name="username"
-                label={t('auth.login.email')}
-                type="email"
-                placeholder="johndoe@personalysispro.com"
-                required={true}
-                autoComplete="email"
-              />
-
-              <div className="space-y-1">
-                <div className="flex items-center justify-between">
-                  <FormLabel
-                    className="after:content-['*'] after:ml-0.5 after:text-red-500"
-                    htmlFor="password"
-                  >
-                    {t('auth.login.password')}
-                  </FormLabel>
-                  {/*
-                  <div
-                    onClick={() => setLocation('/reset-password')}
-                    className="text-xs text-primary hover:text-primary-dark cursor-pointer"
-                  >
-                    {t('auth.login.forgotPassword')}
-                  </div>
-                  */}
-                </div>
+          {twoFactorChallenge ? (
+            <TwoFactorLoginStep
+              challenge={twoFactorChallenge}
+              onSignedIn={completeSignIn}
+              onCancel={() => setTwoFactorChallenge(null)}
+            />
+          ) : (
+            /* Login form - business accounts are created by admins */
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
                 <EnhancedFormField
                   form={loginForm}
-                  name="password"
-                  type="password"
-                  placeholder={t('auth.login.password')}
+                  name="username"
+                  label={t('auth.login.email')}
+                  type="email"
+                  placeholder="johndoe@personalysispro.com"
                   required={true}
-                  autoComplete="current-password"
+                  autoComplete="email"
                 />
-              </div>
 
-              <FormField
-                control={loginForm.control}
-                name="remember"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                        id="remember"
-                        aria-label={t('auth.login.rememberMe')}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel
-                        htmlFor="remember"
-                        className="text-sm font-normal text-gray-500 cursor-pointer"
-                      >
-                        {t('auth.login.rememberMe')}
-                      </FormLabel>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <FormLabel
+                      className="after:content-['*'] after:ml-0.5 after:text-red-500"
+                      htmlFor="password"
+                    >
+                      {t('auth.login.password')}
+                    </FormLabel>
+                    {/*
+                    <div
+                      onClick={() => setLocation('/reset-password')}
+                      className="text-xs text-primary hover:text-primary-dark cursor-pointer"
+                    >
+                      {t('auth.login.forgotPassword')}
                     </div>
-                  </FormItem>
-                )}
-              />
+                    */}
+                  </div>
+                  <EnhancedFormField
+                    form={loginForm}
+                    name="password"
+                    type="password"
+                    placeholder={t('auth.login.password')}
+                    required={true}
+                    autoComplete="current-password"
+                  />
+                </div>
 
-              <Button
-                type="submit"
-                className="w-full bg-primary hover:bg-primary-dark text-white"
-                disabled={isLoggingIn}
-                aria-label={t('auth.login.loginButton')}
-              >
-                {isLoggingIn ? (
-                  <>
-                    <ProgressIndicator
-                      isLoading={isLoggingIn}
-                      loadingText=""
-                      variant="spinner"
-                      size="sm"
-                      className="mr-2"
-                    />
-                    {t('auth.login.loggingIn')}
-                  </>
-                ) : (
-                  t('auth.login.loginButton')
-                )}
-              </Button>
-            </form>
-          </Form>
+                <FormField
+                  control={loginForm.control}
+                  name="remember"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          id="remember"
+                          aria-label={t('auth.login.rememberMe')}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel
+                          htmlFor="remember"
+                          className="text-sm font-normal text-gray-500 cursor-pointer"
+                        >
+                          {t('auth.login.rememberMe')}
+                        </FormLabel>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary-dark text-white"
+                  disabled={isLoggingIn}
+                  aria-label={t('auth.login.loginButton')}
+                >
+                  {isLoggingIn ? (
+                    <>
+                      <ProgressIndicator
+                        isLoading={isLoggingIn}
+                        loadingText=""
+                        variant="spinner"
+                        size="sm"
+                        className="mr-2"
+                      />
+                      {t('auth.login.loggingIn')}
+                    </>
+                  ) : (
+                    t('auth.login.loginButton')
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
         
         <CardFooter className="flex flex-col">
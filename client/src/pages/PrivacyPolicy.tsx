@@ -83,7 +83,9 @@ export default function PrivacyPolicy() {
           <li>The right to withdraw consent</li>
         </ul>
         <p>
-          To exercise any of these rights, please contact us using the information provided in the "Contact Us" section below.
+          Survey respondents can ask for access to, an export of or the erasure of their data through
+          our <Link href="/privacy/requests" className="text-primary hover:underline">privacy request form</Link>. To
+          exercise any other of these rights, please contact us using the information provided in the "Contact Us" section below.
         </p>
         
         <h2>8. Children's Privacy</h2>
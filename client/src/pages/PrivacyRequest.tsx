@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2, Loader2, MailCheck, ShieldCheck } from "lucide-react";
+import {
+  DATA_SUBJECT_REQUEST_TYPES,
+  DATA_SUBJECT_REQUEST_TYPE_LABELS,
+  DataSubjectRequestType,
+  LEGAL_RESPONSE_DAYS,
+  PRIVACY_JURISDICTIONS,
+  PRIVACY_JURISDICTION_LABELS,
+  PrivacyJurisdiction,
+  VERIFICATION_TTL_HOURS
+} from "@shared/dataSubjectRequests";
+
+// Unwrap a { status, data } response, throwing its message and field errors
+async function readData<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json();
+  if (!response.ok || json.status !== 'success') {
+    const details = json.errors ? Object.values(json.errors as Record<string, string[]>).flat() : [];
+    throw new Error([json.message || fallback, ...details].join('. '));
+  }
+  return json.data as T;
+}
+
+interface VerifiedRequest {
+  type: DataSubjectRequestType;
+  status: string;
+  dueAt: string | null;
+}
+
+const TYPE_DESCRIPTIONS: Record<DataSubjectRequestType, string> = {
+  access: "A copy of the survey answers and other personal data we hold about you, with how we use it.",
+  export: "Your data in a machine-readable JSON file you can take to another service.",
+  erasure: "Your answers are anonymised and the rest of your personal data is deleted, including from restored backups."
+};
+
+const pageClass = "min-h-screen bg-gray-50 flex items-center justify-center p-4";
+
+/**
+ * Confirms a request from the emailed link (?token=...)
+ */
+function VerifyRequest({ token }: { token: string }) {
+  const { data, isLoading, error } = useQuery<VerifiedRequest>({
+    queryKey: ['privacy-request-verification', token],
+    queryFn: async () => {
+      const response = await fetch('/api/privacy/requests/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      return readData(response, 'Failed to confirm the request');
+    },
+    retry: false
+  });
+
+  if (isLoading) {
+    return (
+      <div className={pageClass}>
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={pageClass}>
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Request not confirmed</AlertTitle>
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'This link is invalid or has expired.'} You can submit the request again.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className={pageClass}>
+      <Alert className="max-w-md">
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>
+          {data.status === 'pending' ? 'Request confirmed' : `This request is ${data.status}`}
+        </AlertTitle>
+        <AlertDescription>
+          {data.status === 'pending'
+            ? `We will handle your request for ${DATA_SUBJECT_REQUEST_TYPE_LABELS[data.type].toLowerCase()}${data.dueAt ? ` by ${new Date(data.dueAt).toLocaleDateString()}` : ''} and email you when it is done.`
+            : 'We emailed you the outcome of this request.'}
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
+
+/**
+ * Public page where respondents ask for access to, an export of or the
+ * erasure of their data; the request is confirmed from an emailed link
+ */
+export default function PrivacyRequest() {
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+  const [form, setForm] = useState<{ email: string; type: DataSubjectRequestType; jurisdiction: PrivacyJurisdiction; details: string }>({
+    email: '',
+    type: 'access',
+    jurisdiction: 'gdpr',
+    details: ''
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/privacy/requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, details: form.details || undefined })
+      });
+      return readData<null>(response, 'Failed to submit the request');
+    }
+  });
+
+  if (token) {
+    return <VerifyRequest token={token} />;
+  }
+
+  if (submitMutation.isSuccess) {
+    return (
+      <div className={pageClass}>
+        <Alert className="max-w-md">
+          <MailCheck className="h-4 w-4" />
+          <AlertTitle>Check your inbox</AlertTitle>
+          <AlertDescription>
+            If {form.email} is a valid address, it will receive a link to confirm the request. The link is valid
+            for {VERIFICATION_TTL_HOURS} hours; we only act on confirmed requests.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className={pageClass}>
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-primary" />
+            Your privacy rights
+          </CardTitle>
+          <CardDescription>
+            Ask for the data held about you as a survey respondent, or for its erasure. We answer within{' '}
+            {LEGAL_RESPONSE_DAYS[form.jurisdiction]} days of your confirmation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="privacy-email">Email address you used in surveys</Label>
+              <Input
+                id="privacy-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Request</Label>
+              <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as DataSubjectRequestType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATA_SUBJECT_REQUEST_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{DATA_SUBJECT_REQUEST_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{TYPE_DESCRIPTIONS[form.type]}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Applicable law</Label>
+              <Select
+                value={form.jurisdiction}
+                onValueChange={(jurisdiction) => setForm({ ...form, jurisdiction: jurisdiction as PrivacyJurisdiction })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIVACY_JURISDICTIONS.map((jurisdiction) => (
+                    <SelectItem key={jurisdiction} value={jurisdiction}>{PRIVACY_JURISDICTION_LABELS[jurisdiction]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="privacy-details">Anything we should know (optional)</Label>
+              <Textarea
+                id="privacy-details"
+                value={form.details}
+                onChange={(e) => setForm({ ...form, details: e.target.value })}
+                maxLength={2000}
+                rows={3}
+              />
+            </div>
+            {submitMutation.error instanceof Error && (
+              <p className="text-sm text-red-500">{submitMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={submitMutation.isPending}>
+              {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send request
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertCircle, ArrowLeft, Share2 } from "lucide-react";
 import { SurveyShareModal } from "@/components/survey/SurveyShareModal";
+import PersonalityRadarChart from "@/components/PersonalityRadarChart";
 
 // Interface for personality trait from API
 interface PersonalityTrait {
@@ -176,6 +177,7 @@ const ResultsPage: React.FC = () => {
   // Extract data with safety measures (only after we've confirmed responseData exists)
   const personalityTraits = responseData?.traits && Array.isArray(responseData.traits) 
     ? responseData.traits : [];
+  const traitModel = Array.isArray(responseData?.traitModel) ? responseData.traitModel : undefined;
     
   console.log('DEBUG: Extracted personality traits:', personalityTraits);
     
@@ -229,6 +231,11 @@ const ResultsPage: React.FC = () => {
             {personalityTraits.length > 0 ? (
               <div className="mb-8">
                 <h2 className="text-xl font-medium text-gray-900 mb-4">Personality Traits</h2>
+                {personalityTraits.length >= 3 && (
+                  <div className="max-w-md mx-auto mb-6">
+                    <PersonalityRadarChart traits={personalityTraits} model={traitModel} />
+                  </div>
+                )}
                 <div className="space-y-4">
                   {personalityTraits
                     .sort((a, b) => b.score - a.score)
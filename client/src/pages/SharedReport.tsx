@@ -1,24 +1,42 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useRoute } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import DashboardView from "@/components/dashboard/DashboardView";
 import BusinessIntelligence from "@/components/dashboard/BusinessIntelligenceFix";
 import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, AlertCircle, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, AlertCircle, BarChart3, Lock } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ReportSection, resolveReportSections } from "@shared/sharedReports";
+
+// Error raised when the link needs a (different) password
+class PasswordRequiredError extends Error {
+  constructor(message: string, public wrongPassword: boolean) {
+    super(message);
+  }
+}
 
 export default function SharedReport() {
   const [match, params] = useRoute("/shared-report/:token");
   const token = params?.token;
+  const [passwordInput, setPasswordInput] = useState('');
+  const [password, setPassword] = useState('');
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['sharedReport', token],
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['sharedReport', token, password],
     queryFn: async () => {
       if (!token) throw new Error('Token is required');
-      const response = await fetch(`/api/reports/shared/${token}`);
+      const response = await fetch(`/api/reports/shared/${token}`, {
+        headers: password ? { 'X-Report-Password': password } : undefined
+      });
       if (!response.ok) {
         const errorData = await response.json();
+        if (response.status === 401) {
+          throw new PasswordRequiredError(errorData.message || 'Password required', errorData.code === 'INVALID_CREDENTIALS');
+        }
         throw new Error(errorData.message || 'Failed to load shared report');
       }
       return response.json();
@@ -27,6 +45,49 @@ export default function SharedReport() {
     retry: false
   });
 
+  if (error instanceof PasswordRequiredError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2 text-primary" />
+              Password Protected Report
+            </CardTitle>
+            <CardDescription>Enter the password you received with this link to view the report.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setPassword(passwordInput);
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="report-password">Password</Label>
+                <Input
+                  id="report-password"
+                  type="password"
+                  value={passwordInput}
+                  onChange={(e) => setPasswordInput(e.target.value)}
+                  autoFocus
+                />
+                {error.wrongPassword && (
+                  <p className="text-sm text-red-500">{error.message}</p>
+                )}
+              </div>
+              <Button type="submit" className="w-full" disabled={!passwordInput || isFetching}>
+                {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                View Report
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -81,6 +142,9 @@ export default function SharedReport() {
   const reportData = data.data;
   const analyticsData = reportData.analytics;
   const surveyId = reportData.surveyId === 'all' ? 'all' : reportData.surveyId.toString();
+  const sections: ReportSection[] = resolveReportSections(reportData.sections);
+  const showAnalytics = sections.some(section => section !== 'intelligence');
+  const showIntelligence = sections.includes('intelligence');
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -103,25 +167,30 @@ export default function SharedReport() {
           </CardHeader>
         </Card>
 
-        <Tabs defaultValue="analytics" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-6">
-            <TabsTrigger value="analytics">Basic Analytics</TabsTrigger>
-            <TabsTrigger value="business">Business Intelligence</TabsTrigger>
+        <Tabs defaultValue={showAnalytics ? "analytics" : "business"} className="w-full">
+          <TabsList className={`grid w-full mb-6 ${showAnalytics && showIntelligence ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            {showAnalytics && <TabsTrigger value="analytics">Basic Analytics</TabsTrigger>}
+            {showIntelligence && <TabsTrigger value="business">Business Intelligence</TabsTrigger>}
           </TabsList>
 
-          <TabsContent value="analytics" className="space-y-6">
-            <DashboardView 
-              stats={analyticsData} 
-              surveyId={surveyId}
-            />
-          </TabsContent>
+          {showAnalytics && (
+            <TabsContent value="analytics" className="space-y-6">
+              <DashboardView 
+                stats={analyticsData} 
+                surveyId={surveyId}
+                sections={sections}
+              />
+            </TabsContent>
+          )}
 
-          <TabsContent value="business" className="space-y-6">
-            <BusinessIntelligence 
-              surveyId={surveyId}
-              companyId={reportData.companyId}
-            />
-          </TabsContent>
+          {showIntelligence && (
+            <TabsContent value="business" className="space-y-6">
+              <BusinessIntelligence 
+                surveyId={surveyId}
+                companyId={reportData.companyId}
+              />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useRoute, useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -27,21 +27,120 @@ import QuestionManager, { SurveyQuestion, QuestionOption } from '../components/c
 import VersionControl, { Version } from '../components/collaboration/VersionControl';
 import ReviewProcess, { ReviewRequest } from '../components/collaboration/ReviewProcess';
 import NotificationSystem, { CollaborationNotification } from '../components/collaboration/NotificationSystem';
-import ElementLocking, { LockedElement } from '../components/collaboration/ElementLocking';
+import ElementLocking, { LockableElementType, LockedElement } from '../components/collaboration/ElementLocking';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { apiRequest } from '@/lib/queryClient';
+import type { SurveyVersionDetail, SurveyVersionDiff, SurveyVersionSummary } from '@shared/surveyVersions';
+import type { ApprovalMember, ApprovalWorkflow, PublishGate, SurveyReviewSummary } from '@shared/approvals';
+import {
+  AppliedOperation,
+  EditableQuestion,
+  ElementLock,
+  LockElementType,
+  editableOptions,
+  lockElementIds,
+} from '@shared/collaborationOps';
 
-// Mock user data (in a real app this would come from authentication)
-const currentUser = {
+// Stands in for the session user until the session has loaded
+const fallbackUser = {
   id: 4, // Using a real user ID from the database
   username: 'admin',
-  role: 'platform_admin'
 };
 
+// Collaboration question types for the survey question types a version holds
+const toCollaborationType = (questionType: string): SurveyQuestion['type'] => {
+  if (questionType === 'text' || questionType === 'image') return questionType;
+  if (questionType === 'personality-matrix') return 'matrix';
+  if (questionType === 'slider') return 'rating';
+  return 'multiple_choice';
+};
+
+// Survey question types for the collaboration question types
+const toSurveyQuestionType = (type: SurveyQuestion['type']) => {
+  if (type === 'text' || type === 'image') return type;
+  if (type === 'matrix') return 'personality-matrix';
+  if (type === 'rating') return 'slider';
+  return 'multiple-choice';
+};
+
+const toSurveyQuestion = (question: EditableQuestion, lock?: ElementLock): SurveyQuestion => ({
+  id: String(question.id),
+  title: question.question,
+  description: question.helpText || undefined,
+  type: toCollaborationType(question.questionType),
+  required: question.required !== false,
+  order: question.order,
+  options: editableOptions(question.options).map(option => ({
+    id: option.id,
+    text: option.text,
+    value: option.value,
+  })),
+  isLocked: !!lock,
+  lockedBy: lock?.userId,
+  lockedByUsername: lock?.username,
+});
+
+const LOCKABLE_TYPES: Record<LockElementType, LockableElementType> = {
+  question: 'question',
+  option: 'option',
+  surveySettings: 'setting',
+};
+
+const toVersion = (version: SurveyVersionSummary): Version => ({
+  id: String(version.id),
+  name: `v${version.versionNumber} · ${version.name}`,
+  description: version.description || undefined,
+  createdAt: new Date(version.createdAt),
+  createdBy: version.createdBy || { id: 0, username: 'system' },
+  isCurrent: version.isCurrent,
+  versionNumber: version.versionNumber,
+  status: version.status,
+  responseCount: version.responseCount,
+});
+
+// Open reviews that already have decisions show as in progress; rejections ask for changes
+const toReviewRequest = (review: SurveyReviewSummary): ReviewRequest => ({
+  id: String(review.id),
+  title: review.title,
+  description: review.notes || undefined,
+  status: review.status === 'pending'
+    ? (review.reviewers.some(reviewer => reviewer.decision) ? 'in_progress' : 'pending')
+    : review.status === 'cancelled' ? 'rejected' : review.status,
+  createdAt: new Date(review.createdAt),
+  updatedAt: new Date(review.decidedAt ?? review.updatedAt),
+  requestedBy: review.requestedBy,
+  reviewers: review.reviewers.map(reviewer => ({
+    id: reviewer.id,
+    username: reviewer.required ? `${reviewer.username} (required)` : reviewer.username,
+    status: reviewer.decision === 'rejected' ? 'changes_requested' : reviewer.decision ?? 'pending',
+  })),
+  comments: review.comments.map(comment => ({
+    id: String(comment.id),
+    userId: comment.userId,
+    username: comment.username,
+    content: comment.decision === 'rejected'
+      ? `Requested changes: ${comment.comment}`
+      : comment.decision === 'approved' && comment.comment !== 'Approved'
+        ? `Approved: ${comment.comment}`
+        : comment.comment,
+    createdAt: new Date(comment.createdAt),
+  })),
+  versionId: review.versionId ? String(review.versionId) : undefined,
+});
+
+// Read the data of a JSON API response, throwing its message on failure
+async function readApiData<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok || json.status !== 'success') {
+    throw new Error(json.message || fallbackMessage);
+  }
+  return json.data as T;
+}
+
 // Mock data for initial empty states
-const initialQuestions: SurveyQuestion[] = [];
 const initialVersions: Version[] = [];
 const initialReviewRequests: ReviewRequest[] = [];
 const initialNotifications: CollaborationNotification[] = [];
-const initialLockedElements: LockedElement[] = [];
 
 const SurveyCollaboration: React.FC = () => {
   const [, setLocation] = useLocation();
@@ -50,18 +149,85 @@ const SurveyCollaboration: React.FC = () => {
   const [activeTab, setActiveTab] = useState('editor');
   
   // State for collaboration components
-  const [questions, setQuestions] = useState<SurveyQuestion[]>(initialQuestions);
+  // Questions of a stored version being looked at instead of the live survey
+  const [versionQuestions, setVersionQuestions] = useState<SurveyQuestion[] | null>(null);
   const [versions, setVersions] = useState<Version[]>(initialVersions);
   const [reviewRequests, setReviewRequests] = useState<ReviewRequest[]>(initialReviewRequests);
+  const [publishGate, setPublishGate] = useState<PublishGate | null>(null);
+  // The company's approval workflow and the users it can name as reviewers
+  const [approvalSettings, setApprovalSettings] = useState<{
+    workflow: ApprovalWorkflow;
+    members: ApprovalMember[];
+    canEdit: boolean;
+  } | null>(null);
   const [notifications, setNotifications] = useState<CollaborationNotification[]>(initialNotifications);
-  const [lockedElements, setLockedElements] = useState<LockedElement[]>(initialLockedElements);
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [sessionTitle, setSessionTitle] = useState('Loading...');
-  const [participants, setParticipants] = useState<Array<{id: number, username: string, status: string}>>([]);
+  // Survey the session edits; its stored versions back the version control tab
+  const [surveyId, setSurveyId] = useState<number | null>(null);
+  const [versionComparison, setVersionComparison] = useState<SurveyVersionDiff | null>(null);
   
   // If we have a session ID, show the collaborative editor
   // Otherwise show the sessions list
   const sessionId = params?.id ? parseInt(params.id) : null;
+
+  // The survey of the session, its locks and participants, kept in sync with the other editors
+  const collaboration = useCollaboration({
+    sessionId,
+    onOperation: (change) => {
+      if (change.userId !== collaboration.user?.id) {
+        addNotification(describeOperation(change));
+      }
+    },
+    onConflict: (outcome) => {
+      toast({
+        title: outcome.status === 'rejected' ? 'Locked' : 'Edit Conflict',
+        description: outcome.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  const { leaveSession } = collaboration;
+  const currentUser = collaboration.user ?? fallbackUser;
+
+  // Notify the server when the user leaves the session
+  useEffect(() => {
+    return () => {
+      leaveSession();
+    };
+  }, [leaveSession]);
+  const workspace = collaboration.workspace;
+  const participants = collaboration.participants.map(p => ({ id: p.userId, username: p.username, status: p.status }));
+
+  // Elements are locked by ID, e.g. "12" for a question and "12/opt_a" for one of its options
+  const locksById = useMemo(
+    () => new Map((workspace?.locks ?? []).map(lock => [lock.elementId, lock] as const)),
+    [workspace?.locks]
+  );
+  const liveQuestions = useMemo(
+    () => (workspace?.questions ?? []).map(question =>
+      toSurveyQuestion(question, locksById.get(lockElementIds.question(question.id)))
+    ),
+    [workspace?.questions, locksById]
+  );
+  const questions = versionQuestions ?? liveQuestions;
+
+  const lockedElements: LockedElement[] = (workspace?.locks ?? []).map(lock => {
+    const [questionId, optionId] = lock.elementId.split('/');
+    const question = workspace?.questions.find(q => String(q.id) === questionId);
+    const option = optionId ? editableOptions(question?.options).find(o => o.id === optionId) : undefined;
+    return {
+      id: lock.elementId,
+      type: LOCKABLE_TYPES[lock.elementType],
+      name: lock.elementType === 'surveySettings'
+        ? 'Survey settings'
+        : option?.text ?? question?.question ?? `${lock.elementType} ${lock.elementId}`,
+      lockedBy: { id: lock.userId, username: lock.username },
+      lockedAt: new Date(lock.lockedAt),
+      expiresAt: new Date(lock.expiresAt),
+      active: true,
+    };
+  });
   
   // Fetch session data when sessionId changes
   useEffect(() => {
@@ -77,109 +243,35 @@ const SurveyCollaboration: React.FC = () => {
       // In a real app, these would be separate API calls
       console.log('Fetching session data for ID:', sessionId);
       
-      // Simulate an API call with mock data
       setSessionTitle(`Collaboration Session #${sessionId}`);
-      setParticipants([
-        { id: currentUser.id, username: currentUser.username, status: 'online' },
-        { id: 2, username: 'jane_doe', status: 'offline' }
-      ]);
+      setVersionQuestions(null);
       
-      // Generate some initial questions
-      setQuestions([
-        {
-          id: 'q1',
-          title: 'What is your age range?',
-          description: 'Please select the age range that applies to you.',
-          type: 'multiple_choice',
-          required: true,
-          order: 1,
-          options: [
-            { id: 'o1', text: 'Under 18', value: '1' },
-            { id: 'o2', text: '18-24', value: '2' },
-            { id: 'o3', text: '25-34', value: '3' },
-            { id: 'o4', text: '35-44', value: '4' },
-            { id: 'o5', text: '45+', value: '5' }
-          ]
-        },
-        {
-          id: 'q2',
-          title: 'How satisfied are you with our product?',
-          description: 'Rate your satisfaction level from 1-5 stars.',
-          type: 'rating',
-          required: true,
-          order: 2,
-          options: [
-            { id: 'o1', text: '1 Star', value: '1' },
-            { id: 'o2', text: '2 Stars', value: '2' },
-            { id: 'o3', text: '3 Stars', value: '3' },
-            { id: 'o4', text: '4 Stars', value: '4' },
-            { id: 'o5', text: '5 Stars', value: '5' }
-          ]
-        }
-      ]);
-      
-      // Generate initial versions
-      setVersions([
-        {
-          id: 'v1',
-          name: 'Initial Draft',
-          description: 'First version of the survey',
-          createdAt: new Date(Date.now() - 3600000 * 24 * 2), // 2 days ago
-          createdBy: {
-            id: currentUser.id,
-            username: currentUser.username
-          },
-          isCurrent: false
-        },
-        {
-          id: 'v2',
-          name: 'Version 1.0',
-          description: 'Added demographic questions',
-          createdAt: new Date(Date.now() - 3600000 * 24), // 1 day ago
-          createdBy: {
-            id: currentUser.id,
-            username: currentUser.username
-          },
-          isCurrent: true
-        }
-      ]);
+      // Load the stored versions of the session's survey
+      try {
+        const sessionResponse = await apiRequest('GET', `/api/collaboration/${sessionId}`);
+        const sessionData = await readApiData<{ session: { surveyId: number; title: string } }>(
+          sessionResponse,
+          'Failed to load collaboration session'
+        );
+        setSessionTitle(sessionData.session.title);
+        setSurveyId(sessionData.session.surveyId);
+        await Promise.all([
+          loadVersions(sessionData.session.surveyId),
+          loadReviews(sessionData.session.surveyId),
+        ]);
+      } catch (versionError) {
+        console.error('Error loading survey versions:', versionError);
+        setVersions([]);
+      }
       
-      // Set sample review requests
-      setReviewRequests([
-        {
-          id: 'r1',
-          title: 'Initial Survey Review',
-          description: 'Please review the basic structure and questions',
-          status: 'in_progress',
-          createdAt: new Date(Date.now() - 3600000 * 2), // 2 hours ago
-          updatedAt: new Date(Date.now() - 3600000), // 1 hour ago
-          requestedBy: {
-            id: currentUser.id,
-            username: currentUser.username
-          },
-          reviewers: [
-            {
-              id: 2,
-              username: 'jane_doe',
-              status: 'approved'
-            },
-            {
-              id: 3,
-              username: 'john_smith',
-              status: 'pending'
-            }
-          ],
-          comments: [
-            {
-              id: 'c1',
-              userId: 2,
-              username: 'jane_doe',
-              content: 'The questions look good, but we should add more demographic options.',
-              createdAt: new Date(Date.now() - 1800000) // 30 minutes ago
-            }
-          ]
-        }
-      ]);
+      // Reviews of the survey and whether its questions may be published
+      try {
+        const approvalResponse = await apiRequest('GET', '/api/approval-workflow');
+        setApprovalSettings(await readApiData(approvalResponse, 'Failed to load the approval workflow'));
+      } catch (approvalError) {
+        console.error('Error loading approval workflow:', approvalError);
+        setApprovalSettings(null);
+      }
       
       // Set notifications
       setNotifications([
@@ -212,22 +304,6 @@ const SurveyCollaboration: React.FC = () => {
         }
       ]);
       
-      // Set locked elements
-      setLockedElements([
-        {
-          id: 'q1',
-          type: 'question',
-          name: 'What is your age range?',
-          lockedBy: {
-            id: currentUser.id,
-            username: currentUser.username
-          },
-          lockedAt: new Date(Date.now() - 600000), // 10 minutes ago
-          expiresAt: new Date(Date.now() + 1200000), // 20 minutes from now
-          active: true
-        }
-      ]);
-      
     } catch (error) {
       console.error('Error fetching session data:', error);
       toast({
@@ -327,231 +403,172 @@ const SurveyCollaboration: React.FC = () => {
     }
   };
   
-  // Question management handlers
-  const handleAddQuestion = (question: Omit<SurveyQuestion, 'id' | 'order'>) => {
-    const newQuestion: SurveyQuestion = {
-      ...question,
-      id: `q${Date.now()}`,
-      order: questions.length + 1,
-      options: question.type === 'multiple_choice' || question.type === 'rating' || question.type === 'yes_no' 
-        ? [] 
-        : undefined
-    };
-    
-    // In a real implementation, this would make an API call
-    setQuestions([...questions, newQuestion]);
-    
-    // Create a notification for the new question
-    const notification: CollaborationNotification = {
-      id: `n${Date.now()}`,
-      type: 'comment',
-      title: 'Question Added',
-      message: `${currentUser.username} added a new question: "${question.title}"`,
+  const addNotification = (notification: Omit<CollaborationNotification, 'id' | 'createdAt' | 'read' | 'sessionId'>) => {
+    setNotifications(prev => [{
+      ...notification,
+      id: `n${Date.now()}-${prev.length}`,
       createdAt: new Date(),
       read: false,
       sessionId: sessionId || 0,
-      sender: {
-        id: currentUser.id,
-        username: currentUser.username
-      }
+    }, ...prev]);
+  };
+
+  // What another editor did, as a notification
+  const describeOperation = (change: AppliedOperation): Omit<CollaborationNotification, 'id' | 'createdAt' | 'read' | 'sessionId'> => {
+    const { operation } = change;
+    const title = change.question?.question
+      ?? workspace?.questions.find(q => q.id === change.deletedQuestionId)?.question;
+    const message =
+      operation.type === 'createQuestion' ? `added a new question: "${title}"` :
+      operation.type === 'deleteQuestion' ? `deleted the question: "${title ?? 'a question'}"` :
+      operation.type === 'reorderQuestions' ? 'reordered the questions' :
+      operation.type === 'updateSurvey' ? `changed the survey ${operation.field}` :
+      `edited the question: "${title}"`;
+    return {
+      type: 'comment',
+      title: 'Survey Changed',
+      message: `${change.username} ${message}`,
+      elementId: change.entityType === 'question' ? String(change.entityId) : undefined,
+      sender: { id: change.userId, username: change.username },
     };
+  };
+
+  // Operations reply with their outcome; conflicts are reported by the hook
+  const runOperation = async (operation: Parameters<typeof collaboration.applyOperation>[0]) => {
+    if (versionQuestions) {
+      toast({
+        title: 'Viewing a Version',
+        description: 'Go back to the current questions to edit them',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    try {
+      return await collaboration.applyOperation(operation);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the change',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Question management handlers
+  const handleAddQuestion = async (question: Omit<SurveyQuestion, 'id' | 'order'>) => {
+    const outcome = await runOperation({
+      type: 'createQuestion',
+      question: {
+        question: question.title,
+        questionType: toSurveyQuestionType(question.type),
+        required: question.required,
+        helpText: question.description || null,
+      },
+    });
     
-    setNotifications([notification, ...notifications]);
+    if (outcome?.status === 'applied') {
+      addNotification({
+        type: 'comment',
+        title: 'Question Added',
+        message: `${currentUser.username} added a new question: "${question.title}"`,
+        sender: currentUser,
+      });
+    }
   };
   
-  const handleUpdateQuestion = (questionId: string, updates: Partial<SurveyQuestion>) => {
-    // In a real implementation, this would make an API call
-    setQuestions(questions.map(q => 
-      q.id === questionId ? { ...q, ...updates } : q
-    ));
+  // Each changed field is its own operation, so a conflict on one does not hold back the others
+  const handleUpdateQuestion = async (questionId: string, updates: Partial<SurveyQuestion>) => {
+    const id = Number(questionId);
+    if (updates.title !== undefined) {
+      await runOperation({ type: 'updateQuestion', questionId: id, field: 'question', value: updates.title });
+    }
+    if (updates.description !== undefined) {
+      await runOperation({ type: 'updateQuestion', questionId: id, field: 'helpText', value: updates.description || null });
+    }
+    if (updates.required !== undefined) {
+      await runOperation({ type: 'updateQuestion', questionId: id, field: 'required', value: updates.required });
+    }
+    if (updates.type !== undefined) {
+      await runOperation({ type: 'updateQuestion', questionId: id, field: 'questionType', value: toSurveyQuestionType(updates.type) });
+    }
   };
   
-  const handleDeleteQuestion = (questionId: string) => {
-    // In a real implementation, this would make an API call
-    setQuestions(questions.filter(q => q.id !== questionId));
+  const handleDeleteQuestion = async (questionId: string) => {
+    const questionToDelete = questions.find(q => q.id === questionId);
+    const outcome = await runOperation({ type: 'deleteQuestion', questionId: Number(questionId) });
     
     // Create a notification for the deleted question
-    const questionToDelete = questions.find(q => q.id === questionId);
-    if (questionToDelete) {
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}`,
+    if (outcome?.status === 'applied' && questionToDelete) {
+      addNotification({
         type: 'comment',
         title: 'Question Deleted',
         message: `${currentUser.username} deleted the question: "${questionToDelete.title}"`,
-        createdAt: new Date(),
-        read: false,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      setNotifications([notification, ...notifications]);
+        sender: currentUser,
+      });
     }
   };
   
   const handleMoveQuestion = (questionId: string, direction: 'up' | 'down') => {
     const questionIndex = questions.findIndex(q => q.id === questionId);
-    if (questionIndex === -1) return;
-    
-    const newQuestions = [...questions];
-    const question = newQuestions[questionIndex];
-    
-    if (direction === 'up' && questionIndex > 0) {
-      newQuestions[questionIndex] = newQuestions[questionIndex - 1];
-      newQuestions[questionIndex - 1] = question;
-    } else if (direction === 'down' && questionIndex < newQuestions.length - 1) {
-      newQuestions[questionIndex] = newQuestions[questionIndex + 1];
-      newQuestions[questionIndex + 1] = question;
-    }
+    const targetIndex = direction === 'up' ? questionIndex - 1 : questionIndex + 1;
+    if (questionIndex === -1 || targetIndex < 0 || targetIndex >= questions.length) return;
     
-    // Update order property for all questions
-    const orderedQuestions = newQuestions.map((q, i) => ({ ...q, order: i + 1 }));
-    
-    // In a real implementation, this would make an API call
-    setQuestions(orderedQuestions);
+    const questionIds = questions.map(q => Number(q.id));
+    [questionIds[questionIndex], questionIds[targetIndex]] = [questionIds[targetIndex], questionIds[questionIndex]];
+    runOperation({ type: 'reorderQuestions', questionIds });
   };
   
   const handleLockQuestion = (questionId: string, lock: boolean) => {
-    // Find the question being locked/unlocked
-    const question = questions.find(q => q.id === questionId);
-    if (!question) return;
-    
-    // Update the question's lock status
-    setQuestions(questions.map(q => 
-      q.id === questionId 
-        ? { 
-            ...q, 
-            isLocked: lock, 
-            lockedBy: lock ? currentUser.id : undefined,
-            lockedByUsername: lock ? currentUser.username : undefined 
-          } 
-        : q
-    ));
-    
-    // Add or remove from locked elements
-    if (lock) {
-      // Add to locked elements
-      const lockedElement: LockedElement = {
-        id: questionId,
-        type: 'question',
-        name: question.title,
-        lockedBy: {
-          id: currentUser.id,
-          username: currentUser.username
-        },
-        lockedAt: new Date(),
-        expiresAt: new Date(Date.now() + 30 * 60000), // 30 minutes from now
-        active: true
-      };
-      
-      setLockedElements([...lockedElements, lockedElement]);
-      
-      // Create a notification
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}`,
-        type: 'element_locked',
-        title: 'Element Locked',
-        message: `${currentUser.username} locked the question: "${question.title}"`,
-        createdAt: new Date(),
-        read: false,
-        elementId: questionId,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      setNotifications([notification, ...notifications]);
-    } else {
-      // Remove from locked elements
-      setLockedElements(lockedElements.filter(e => e.id !== questionId));
-      
-      // Create a notification
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}`,
-        type: 'element_unlocked',
-        title: 'Element Unlocked',
-        message: `${currentUser.username} unlocked the question: "${question.title}"`,
-        createdAt: new Date(),
-        read: false,
-        elementId: questionId,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      setNotifications([notification, ...notifications]);
-    }
+    handleLockChange({ elementType: 'question', elementId: questionId }, lock);
   };
   
   const handleAddOption = (questionId: string, option: Omit<QuestionOption, 'id'>) => {
-    setQuestions(questions.map(q => 
-      q.id === questionId 
-        ? { 
-            ...q, 
-            options: [
-              ...(q.options || []), 
-              { 
-                id: `o${Date.now()}`, 
-                ...option 
-              }
-            ] 
-          } 
-        : q
-    ));
+    runOperation({
+      type: 'createOption',
+      questionId: Number(questionId),
+      option: { text: option.text, value: String(option.value) },
+    });
   };
   
-  const handleUpdateOption = (questionId: string, optionId: string, updates: Partial<QuestionOption>) => {
-    setQuestions(questions.map(q => 
-      q.id === questionId && q.options 
-        ? { 
-            ...q, 
-            options: q.options.map(o => 
-              o.id === optionId 
-                ? { ...o, ...updates } 
-                : o
-            ) 
-          } 
-        : q
-    ));
+  const handleUpdateOption = async (questionId: string, optionId: string, updates: Partial<QuestionOption>) => {
+    if (updates.text !== undefined) {
+      await runOperation({ type: 'updateOption', questionId: Number(questionId), optionId, field: 'text', value: updates.text });
+    }
+    if (updates.value !== undefined) {
+      await runOperation({ type: 'updateOption', questionId: Number(questionId), optionId, field: 'value', value: String(updates.value) });
+    }
   };
   
   const handleDeleteOption = (questionId: string, optionId: string) => {
-    setQuestions(questions.map(q => 
-      q.id === questionId && q.options 
-        ? { 
-            ...q, 
-            options: q.options.filter(o => o.id !== optionId) 
-          } 
-        : q
-    ));
+    runOperation({ type: 'deleteOption', questionId: Number(questionId), optionId });
   };
   
   // Version control handlers
-  const handleCreateVersion = (name: string, description: string) => {
-    // Set all existing versions to not current
-    const updatedVersions = versions.map(v => ({ ...v, isCurrent: false }));
-    
-    // Create new version
-    const newVersion: Version = {
-      id: `v${Date.now()}`,
-      name,
-      description,
-      createdAt: new Date(),
-      createdBy: {
-        id: currentUser.id,
-        username: currentUser.username
-      },
-      isCurrent: true
-    };
-    
-    // Add to versions
-    setVersions([...updatedVersions, newVersion]);
+  const loadVersions = async (targetSurveyId: number) => {
+    const response = await apiRequest('GET', `/api/surveys/${targetSurveyId}/versions`);
+    const data = await readApiData<SurveyVersionSummary[]>(response, 'Failed to load survey versions');
+    setVersions(data.map(toVersion));
+  };
+
+  const showVersionError = (error: unknown) => {
+    toast({
+      title: 'Version Control',
+      description: error instanceof Error ? error.message : 'The version request failed',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreateVersion = async (name: string, description: string) => {
+    if (!surveyId) return;
+    try {
+      const response = await apiRequest('POST', `/api/surveys/${surveyId}/versions`, { name, description });
+      await readApiData<SurveyVersionSummary>(response, 'Failed to save version');
+      await loadVersions(surveyId);
+    } catch (error) {
+      showVersionError(error);
+      return;
+    }
     
     // Create notification
     const notification: CollaborationNotification = {
@@ -569,203 +586,138 @@ const SurveyCollaboration: React.FC = () => {
     };
     
     setNotifications([notification, ...notifications]);
-    
-    // Show toast
-    toast({
-      title: 'Version Created',
-      description: `Version "${name}" has been created successfully`,
-    });
-  };
-  
-  const handleSwitchVersion = (versionId: string) => {
-    // Set all versions to not current
-    const updatedVersions = versions.map(v => ({ 
-      ...v, 
-      isCurrent: v.id === versionId 
-    }));
-    
-    // Update versions
-    setVersions(updatedVersions);
-    
-    // Get the version name
-    const versionName = versions.find(v => v.id === versionId)?.name || 'Unknown version';
-    
-    // Show toast
-    toast({
-      title: 'Version Switched',
-      description: `Switched to version "${versionName}"`,
-    });
   };
   
-  const handleCompareVersions = (versionId1: string, versionId2: string) => {
-    // In a real implementation, this would fetch version data and display a diff view
-    toast({
-      title: 'Compare Versions',
-      description: 'Version comparison would be displayed here',
-    });
+  // Show the questions of a stored version in the question manager
+  const handleSwitchVersion = async (versionId: string) => {
+    if (!surveyId) return;
+    try {
+      const response = await apiRequest('GET', `/api/surveys/${surveyId}/versions/${versionId}`);
+      const version = await readApiData<SurveyVersionDetail>(response, 'Failed to load version');
+      setVersionQuestions(version.snapshot.questions.map((question) => ({
+        id: String(question.id),
+        title: question.question,
+        description: question.helpText || undefined,
+        type: toCollaborationType(question.questionType),
+        required: question.required !== false,
+        order: question.order,
+        options: Array.isArray(question.options)
+          ? question.options.map((option: any, index: number) => ({
+              id: String(option?.id ?? `opt_${index}`),
+              text: String(option?.text ?? option),
+              value: option?.value ?? String(option?.text ?? option),
+            }))
+          : undefined,
+      })));
+      setActiveTab('questions');
+      toast({
+        title: 'Version Loaded',
+        description: `Showing the questions of "${version.name}"`,
+      });
+    } catch (error) {
+      showVersionError(error);
+    }
   };
   
-  const handleRestoreVersion = (versionId: string) => {
-    // In a real implementation, this would restore a previous version
-    // For now, we'll just switch to it
-    handleSwitchVersion(versionId);
-    
-    // Show toast
-    toast({
-      title: 'Version Restored',
-      description: 'The selected version has been restored',
-    });
+  const handleCompareVersions = async (currentVersionId: string, otherVersionId: string) => {
+    if (!surveyId) return;
+    try {
+      const response = await apiRequest(
+        'GET',
+        `/api/surveys/${surveyId}/versions/compare?from=${otherVersionId}&to=${currentVersionId}`
+      );
+      setVersionComparison(await readApiData<SurveyVersionDiff>(response, 'Failed to compare versions'));
+    } catch (error) {
+      showVersionError(error);
+    }
   };
   
-  // Review process handlers
-  const handleCreateReviewRequest = (title: string, description: string, reviewerIds: number[]) => {
-    // Create a new review request
-    const newReview: ReviewRequest = {
-      id: `r${Date.now()}`,
-      title,
-      description,
-      status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      requestedBy: {
-        id: currentUser.id,
-        username: currentUser.username
-      },
-      reviewers: reviewerIds.map(id => ({
-        id,
-        username: id === 2 ? 'jane_doe' : 'john_smith', // In a real app, this would be fetched from the server
-        status: 'pending'
-      })),
-      comments: []
-    };
-    
-    // Add to review requests
-    setReviewRequests([...reviewRequests, newReview]);
-    
-    // Create notification for each reviewer
-    reviewerIds.forEach(id => {
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}-${id}`,
-        type: 'review_requested',
-        title: 'Review Requested',
-        message: `${currentUser.username} requested your review on "${title}"`,
-        createdAt: new Date(),
-        read: false,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      // In a real app, this would be sent to the specific user
-      setNotifications([notification, ...notifications]);
-    });
-    
-    // Show toast
-    toast({
-      title: 'Review Requested',
-      description: 'Your review request has been sent',
-    });
+  const handleRestoreVersion = async (versionId: string) => {
+    if (!surveyId) return;
+    try {
+      const response = await apiRequest('POST', `/api/surveys/${surveyId}/versions/${versionId}/restore`);
+      const draft = await readApiData<SurveyVersionSummary>(response, 'Failed to restore version');
+      await loadVersions(surveyId);
+      toast({
+        title: 'Version Restored',
+        description: `Saved as draft "${draft.name}". Publish it to make it live.`,
+      });
+    } catch (error) {
+      showVersionError(error);
+    }
   };
   
-  const handleUpdateReviewStatus = (reviewId: string, status: 'pending' | 'in_progress' | 'approved' | 'rejected' | 'changes_requested') => {
-    // Update the review status
-    setReviewRequests(reviewRequests.map(r => 
-      r.id === reviewId 
-        ? { ...r, status, updatedAt: new Date() } 
-        : r
-    ));
+  const handlePublishVersion = async (versionId: string) => {
+    if (!surveyId) return;
+    try {
+      const response = await apiRequest('POST', `/api/surveys/${surveyId}/versions/${versionId}/publish`);
+      const published = await readApiData<SurveyVersionSummary>(response, 'Failed to publish version');
+      await loadVersions(surveyId);
+      toast({
+        title: 'Version Published',
+        description: `New responses will answer "${published.name}"`,
+      });
+    } catch (error) {
+      showVersionError(error);
+    }
   };
   
-  const handleAddReviewComment = (reviewId: string, content: string, elementId?: string) => {
-    // Add a comment to the review
-    setReviewRequests(reviewRequests.map(r => 
-      r.id === reviewId 
-        ? { 
-            ...r, 
-            comments: [
-              ...r.comments,
-              {
-                id: `c${Date.now()}`,
-                userId: currentUser.id,
-                username: currentUser.username,
-                content,
-                createdAt: new Date(),
-                elementId
-              }
-            ],
-            updatedAt: new Date()
-          } 
-        : r
-    ));
-    
-    // Create notification for the review creator
-    const review = reviewRequests.find(r => r.id === reviewId);
-    if (review && review.requestedBy.id !== currentUser.id) {
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}`,
-        type: 'comment',
-        title: 'New Review Comment',
-        message: `${currentUser.username} commented on your review "${review.title}"`,
-        createdAt: new Date(),
-        read: false,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      // In a real app, this would be sent to the specific user
-      setNotifications([notification, ...notifications]);
+  // Whether the questions may be published changes as they are edited, so check again when the tab opens
+  useEffect(() => {
+    if (activeTab === 'review' && surveyId) {
+      loadReviews(surveyId).catch(error => console.error('Error loading reviews:', error));
     }
+  }, [activeTab, surveyId]);
+
+  // Review process handlers
+  const loadReviews = async (targetSurveyId: number) => {
+    const [reviewsResponse, approvalResponse] = await Promise.all([
+      apiRequest('GET', `/api/surveys/${targetSurveyId}/reviews`),
+      apiRequest('GET', `/api/surveys/${targetSurveyId}/approval`),
+    ]);
+    const reviews = await readApiData<SurveyReviewSummary[]>(reviewsResponse, 'Failed to load reviews');
+    const approval = await readApiData<{ gate: PublishGate }>(approvalResponse, 'Failed to check approval');
+    setReviewRequests(reviews.filter(review => review.status !== 'cancelled').map(toReviewRequest));
+    setPublishGate(approval.gate);
   };
-  
-  const handleCompleteReview = (reviewId: string, approved: boolean, comment: string) => {
-    // First add the comment
-    handleAddReviewComment(reviewId, comment);
-    
-    // Update the review status
-    handleUpdateReviewStatus(reviewId, approved ? 'approved' : 'changes_requested');
-    
-    // Update the reviewer's status
-    setReviewRequests(reviewRequests.map(r => 
-      r.id === reviewId 
-        ? { 
-            ...r, 
-            reviewers: r.reviewers.map(reviewer => 
-              reviewer.id === currentUser.id 
-                ? { ...reviewer, status: approved ? 'approved' : 'changes_requested' } 
-                : reviewer
-            ) 
-          } 
-        : r
-    ));
-    
-    // Create notification for the review creator
-    const review = reviewRequests.find(r => r.id === reviewId);
-    if (review) {
-      const notification: CollaborationNotification = {
-        id: `n${Date.now()}`,
-        type: approved ? 'approved' : 'changes_requested',
-        title: approved ? 'Review Approved' : 'Changes Requested',
-        message: approved 
-          ? `${currentUser.username} approved your review "${review.title}"` 
-          : `${currentUser.username} requested changes on "${review.title}"`,
-        createdAt: new Date(),
-        read: false,
-        sessionId: sessionId || 0,
-        sender: {
-          id: currentUser.id,
-          username: currentUser.username
-        }
-      };
-      
-      // In a real app, this would be sent to the specific user
-      setNotifications([notification, ...notifications]);
+
+  // Send a review request to the server and reload the reviews, reporting failures
+  const runReviewRequest = async (method: string, path: string, body: unknown, fallbackMessage: string) => {
+    if (!surveyId) return false;
+    try {
+      const response = await apiRequest(method, `/api/surveys/${surveyId}/reviews${path}`, body);
+      await readApiData(response, fallbackMessage);
+      await loadReviews(surveyId);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Review',
+        description: error instanceof Error ? error.message : fallbackMessage,
+        variant: 'destructive',
+      });
+      return false;
     }
   };
+
+  const handleCreateReviewRequest = (title: string, description: string, reviewerIds: number[]) =>
+    runReviewRequest('POST', '', {
+      sessionId,
+      title,
+      notes: description || undefined,
+      reviewerIds,
+    }, 'Failed to request a review');
+
+  const handleCancelReview = (reviewId: string) =>
+    runReviewRequest('POST', `/${reviewId}/cancel`, undefined, 'Failed to cancel the review');
+
+  const handleAddReviewComment = (reviewId: string, content: string) =>
+    runReviewRequest('POST', `/${reviewId}/comments`, { comment: content }, 'Failed to add the comment');
+
+  const handleCompleteReview = (reviewId: string, approved: boolean, comment: string) =>
+    runReviewRequest('POST', `/${reviewId}/decision`, {
+      decision: approved ? 'approved' : 'rejected',
+      comment: comment || undefined,
+    }, 'Failed to record your decision');
   
   // Notification handlers
   const handleToggleNotifications = (enabled: boolean) => {
@@ -795,115 +747,60 @@ const SurveyCollaboration: React.FC = () => {
   };
   
   // Element locking handlers
-  const handleLockElement = (elementId: string, elementType: 'question' | 'section' | 'page' | 'option' | 'logic' | 'setting', elementName: string) => {
-    // Check if the element is already locked
-    const existingLock = lockedElements.find(e => e.id === elementId && e.active);
-    
-    if (existingLock) {
+  const handleLockChange = async (element: { elementType: LockElementType; elementId: string }, lock: boolean) => {
+    try {
+      if (!lock) {
+        await collaboration.unlockElement(element);
+        return;
+      }
+      const outcome = await collaboration.lockElement(element);
+      if (outcome && !outcome.acquired) {
+        toast({
+          title: 'Element Already Locked',
+          description: `This element is already locked by ${outcome.lock.username}`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
       toast({
-        title: 'Element Already Locked',
-        description: `This element is already locked by ${existingLock.lockedBy.username}`,
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The lock request failed',
         variant: 'destructive',
       });
-      return;
     }
-    
-    // Create a new lock
-    const newLock: LockedElement = {
-      id: elementId,
-      type: elementType,
-      name: elementName,
-      lockedBy: {
-        id: currentUser.id,
-        username: currentUser.username
-      },
-      lockedAt: new Date(),
-      expiresAt: new Date(Date.now() + 30 * 60000), // 30 minutes from now
-      active: true
-    };
-    
-    // Add to locked elements
-    setLockedElements([...lockedElements, newLock]);
-    
-    // Create notification
-    const notification: CollaborationNotification = {
-      id: `n${Date.now()}`,
-      type: 'element_locked',
-      title: 'Element Locked',
-      message: `${currentUser.username} locked the ${elementType}: "${elementName}"`,
-      createdAt: new Date(),
-      read: false,
-      elementId,
-      sessionId: sessionId || 0,
-      sender: {
-        id: currentUser.id,
-        username: currentUser.username
-      }
-    };
-    
-    setNotifications([notification, ...notifications]);
-    
-    // If this is a question, also update the question's lock status
-    if (elementType === 'question') {
-      handleLockQuestion(elementId, true);
+  };
+
+  const handleLockElement = (elementId: string, elementType: LockableElementType, elementName: string) => {
+    const lockType = (Object.keys(LOCKABLE_TYPES) as LockElementType[]).find(type => LOCKABLE_TYPES[type] === elementType);
+    if (!lockType) {
+      toast({
+        title: 'Cannot Lock',
+        description: `${elementName} cannot be locked`,
+        variant: 'destructive',
+      });
+      return;
     }
+    handleLockChange({ elementType: lockType, elementId }, true);
   };
   
   const handleUnlockElement = (elementId: string) => {
-    // Find the element being unlocked
-    const element = lockedElements.find(e => e.id === elementId && e.active);
-    if (!element) return;
-    
-    // Update the element's lock status
-    setLockedElements(lockedElements.map(e => 
-      e.id === elementId && e.active ? { ...e, active: false } : e
-    ));
-    
-    // Create notification
-    const notification: CollaborationNotification = {
-      id: `n${Date.now()}`,
-      type: 'element_unlocked',
-      title: 'Element Unlocked',
-      message: `${currentUser.username} unlocked the ${element.type}: "${element.name}"`,
-      createdAt: new Date(),
-      read: false,
-      elementId,
-      sessionId: sessionId || 0,
-      sender: {
-        id: currentUser.id,
-        username: currentUser.username
-      }
-    };
-    
-    setNotifications([notification, ...notifications]);
-    
-    // If this is a question, also update the question's lock status
-    if (element.type === 'question') {
-      handleLockQuestion(elementId, false);
+    const lock = locksById.get(elementId);
+    if (lock) {
+      handleLockChange({ elementType: lock.elementType, elementId }, false);
     }
   };
   
+  // Locking an element again extends the lock
   const handleRefreshLock = (elementId: string) => {
-    // Update the lock expiration time
-    setLockedElements(lockedElements.map(e => 
-      e.id === elementId && e.active 
-        ? { ...e, expiresAt: new Date(Date.now() + 30 * 60000) } // 30 minutes from now
-        : e
-    ));
-    
-    // Show toast
-    toast({
-      title: 'Lock Extended',
-      description: 'Your lock has been extended for 30 minutes',
-    });
+    const lock = locksById.get(elementId);
+    if (lock) {
+      handleLockChange({ elementType: lock.elementType, elementId }, true);
+    }
   };
   
-  const handleViewLockedElement = (elementId: string, elementType: 'question' | 'section' | 'page' | 'option' | 'logic' | 'setting') => {
-    // In a real app, this would navigate to the specific content
-    toast({
-      title: 'View Locked Element',
-      description: `Viewing ${elementType} with ID ${elementId}`,
-    });
+  const handleViewLockedElement = (elementId: string, elementType: LockableElementType) => {
+    setVersionQuestions(null);
+    setActiveTab(elementType === 'question' || elementType === 'option' ? 'questions' : 'editor');
   };
   
   // If no session is selected, show the sessions list
@@ -930,8 +827,13 @@ const SurveyCollaboration: React.FC = () => {
     );
   }
   
-  // Get available reviewers (everyone except current user)
-  const availableReviewers = participants.filter(p => p.id !== currentUser.id);
+  // Get available reviewers (everyone in the company except the current user)
+  const requiredReviewerIds = approvalSettings?.workflow.enabled ? approvalSettings.workflow.reviewerIds : [];
+  const reviewerCandidates = (approvalSettings?.members ?? participants).map(p => ({ id: p.id, username: p.username }));
+  const availableReviewers = reviewerCandidates.filter(
+    p => p.id !== currentUser.id && !requiredReviewerIds.includes(p.id)
+  );
+  const requiredReviewers = reviewerCandidates.filter(p => requiredReviewerIds.includes(p.id));
   
   // If a session is selected, show the collaborative editor and other components
   return (
@@ -996,20 +898,24 @@ const SurveyCollaboration: React.FC = () => {
         </TabsList>
         
         <TabsContent value="editor" className="mt-6">
-          <CollaborativeEditor
-            sessionId={sessionId}
-            userId={currentUser.id}
-            username={currentUser.username}
-            initialContent="# Survey Collaboration Document\n\nUse this space to collaboratively edit survey content and questions. Add comments and suggestions by selecting text and clicking the comment button."
-          />
+          <CollaborativeEditor collaboration={collaboration} />
         </TabsContent>
         
         <TabsContent value="questions" className="mt-6">
+          {versionQuestions && (
+            <div className="mb-4 flex items-center justify-between rounded-lg border p-3 text-sm">
+              <span>You are viewing the questions of a stored version.</span>
+              <Button variant="outline" size="sm" onClick={() => setVersionQuestions(null)}>
+                Show current questions
+              </Button>
+            </div>
+          )}
           <QuestionManager
             sessionId={sessionId}
             questions={questions}
             userId={currentUser.id}
             username={currentUser.username}
+            readOnly={!!versionQuestions}
             onAddQuestion={handleAddQuestion}
             onUpdateQuestion={handleUpdateQuestion}
             onDeleteQuestion={handleDeleteQuestion}
@@ -1031,6 +937,10 @@ const SurveyCollaboration: React.FC = () => {
             onSwitchVersion={handleSwitchVersion}
             onCompareVersions={handleCompareVersions}
             onRestoreVersion={handleRestoreVersion}
+            onPublishVersion={handlePublishVersion}
+            comparison={versionComparison}
+            onCloseComparison={() => setVersionComparison(null)}
+            readOnly={!surveyId}
           />
         </TabsContent>
         
@@ -1041,10 +951,14 @@ const SurveyCollaboration: React.FC = () => {
             username={currentUser.username}
             reviewRequests={reviewRequests}
             onCreateReviewRequest={handleCreateReviewRequest}
-            onUpdateReviewStatus={handleUpdateReviewStatus}
+            onCancelReview={handleCancelReview}
             onAddReviewComment={handleAddReviewComment}
             onCompleteReview={handleCompleteReview}
             availableReviewers={availableReviewers}
+            requiredReviewers={requiredReviewers}
+            isApprover={approvalSettings?.canEdit ?? false}
+            publishGate={publishGate}
+            readOnly={!surveyId}
           />
         </TabsContent>
         
@@ -1058,6 +972,7 @@ const SurveyCollaboration: React.FC = () => {
             onUnlockElement={handleUnlockElement}
             onRefreshLock={handleRefreshLock}
             onViewLockedElement={handleViewLockedElement}
+            lockTimeoutMs={workspace?.lockTimeout}
           />
         </TabsContent>
         
@@ -5,6 +5,12 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import CollaborationWidget from "@/components/survey/CollaborationWidget";
+import TraitModelEditor, { isTraitModelValid } from "@/components/survey/TraitModelEditor";
+import TraitWeightsEditor from "@/components/survey/TraitWeightsEditor";
+import QuestionLogicEditor, { describeDisplayLogic } from "@/components/survey/QuestionLogicEditor";
+import { QuestionDisplayLogic, renumberQuestions, resolveDisplayLogic } from "@shared/questionLogic";
+import { QUESTION_TYPE_IDS, QUESTION_TYPES } from "@shared/questionTypes";
+import { TraitModel, TraitWeights, DEFAULT_TRAIT_MODEL, resolveTraitModel } from "@shared/traitModel";
 import { useTranslation } from "react-i18next";
 
 // UI Components
@@ -80,10 +86,11 @@ interface SurveyTemplate {
   estimatedTime: number;
   questionCount: number;
   traits: string[];
+  traitModel: TraitModel;
   recommended: boolean;
 }
 
-type QuestionOption = { id: string; text: string; value?: string; image?: string; description?: string };
+type QuestionOption = { id: string; text: string; value?: string; image?: string; description?: string; traits?: TraitWeights };
 type EditorQuestion = {
   id: string;
   question: string;
@@ -94,6 +101,7 @@ type EditorQuestion = {
   options: QuestionOption[];
   sliderConfig?: any;
   scenarioText?: string;
+  displayLogic?: QuestionDisplayLogic;
 };
 
 // Helper function to map API response to SurveyTemplate
@@ -112,6 +120,10 @@ function mapApiTemplateToSurveyTemplate(apiTemplate: any): SurveyTemplate {
   
   const displayType = dbTypeToDisplayType[apiTemplate.type as keyof typeof dbTypeToDisplayType] 
     || SurveyType.CUSTOM;
+
+  // Templates store either trait definitions or (older ones) plain trait names
+  const hasTraits = Array.isArray(apiTemplate.traits) && apiTemplate.traits.length > 0;
+  const traitModel = resolveTraitModel(apiTemplate.traits);
   
   return {
     id: String(apiTemplate.id),
@@ -120,7 +132,8 @@ function mapApiTemplateToSurveyTemplate(apiTemplate: any): SurveyTemplate {
     description: apiTemplate.description,
     estimatedTime: apiTemplate.estimatedTime || 0,
     questionCount: apiTemplate.questionCount || 0,
-    traits: Array.isArray(apiTemplate.traits) ? apiTemplate.traits : [],
+    traits: hasTraits ? traitModel.map(t => t.name) : [],
+    traitModel,
     recommended: apiTemplate.recommended || false
   };
 }
@@ -175,6 +188,9 @@ export default function SurveyCreate() {
   
   // AI responses settings
   const [enableAIResponses, setEnableAIResponses] = useState(false);
+
+  // Traits scored for this survey
+  const [traitModel, setTraitModel] = useState<TraitModel>(DEFAULT_TRAIT_MODEL);
   
   // Business context settings
   const [productName, setProductName] = useState("");
@@ -212,6 +228,7 @@ export default function SurveyCreate() {
     setWelcomeMessage("");
     setCompletionMessage("");
     setQuestions([]);
+    setTraitModel(DEFAULT_TRAIT_MODEL);
   }, [selectedTemplate]);
   
   // Pre-fill form fields based on template selection
@@ -228,6 +245,7 @@ export default function SurveyCreate() {
       setCompletionMessage("Thank you for completing the survey!");
       setEstimatedTime(t.estimatedTime || 10);
       setSelectedSurveyType(String(t.type));
+      setTraitModel(t.traitModel);
     }
     (async () => {
       try {
@@ -336,7 +354,7 @@ export default function SurveyCreate() {
   };
   const deleteQuestion = (id: string) => {
     if (!isEditingQuestions) return; // Don't allow deleting when not in edit mode
-    setQuestions(questions.filter(q => q.id !== id).map((q, i) => ({ ...q, order: i + 1 })));
+    setQuestions(renumberQuestions(questions.filter(q => q.id !== id)));
   };
   const moveQuestion = (id: string, dir: -1 | 1) => {
     if (!isEditingQuestions) return; // Don't allow moving when not in edit mode
@@ -347,7 +365,7 @@ export default function SurveyCreate() {
     const copy = [...questions];
     const [item] = copy.splice(idx, 1);
     copy.splice(target, 0, item);
-    setQuestions(copy.map((q, i) => ({ ...q, order: i + 1 })));
+    setQuestions(renumberQuestions(copy));
   };
 
   // Questions save/edit/cancel handlers
@@ -413,6 +431,11 @@ export default function SurveyCreate() {
       setActiveTab("settings");
       return;
     }
+    if (!isTraitModelValid(traitModel)) {
+      toast({ title: t('pages.surveyCreate.validation.traitModelInvalid'), description: t('pages.surveyCreate.validation.traitModelInvalidDescription'), variant: "destructive" });
+      setActiveTab("settings");
+      return;
+    }
     
     setIsCreating(true);
     
@@ -468,6 +491,7 @@ export default function SurveyCreate() {
           demographics,
           aiResponses,
           businessContext, // Add business context to the payload
+          traitModel: traitModel.map(t => ({ ...t, name: t.name.trim() })),
           questions: (questionsSaved ? savedQuestions : questions).map(q => ({
             question: q.question,
             questionType: q.questionType,
@@ -477,6 +501,7 @@ export default function SurveyCreate() {
             options: q.options,
             sliderConfig: q.sliderConfig,
             scenarioText: q.scenarioText,
+            displayLogic: q.displayLogic,
           }))
         }
       );
@@ -726,14 +751,9 @@ export default function SurveyCreate() {
                                     <SelectValue placeholder="Select type" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="text">Text</SelectItem>
-                                    <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
-                                    <SelectItem value="slider">Slider</SelectItem>
-                                    <SelectItem value="ranking">Ranking</SelectItem>
-                                    <SelectItem value="scenario">Scenario</SelectItem>
-                                    <SelectItem value="mood-board">Mood Board</SelectItem>
-                                    <SelectItem value="personality-matrix">Personality Matrix</SelectItem>
-                                    <SelectItem value="image">Image Selection</SelectItem>
+                                    {QUESTION_TYPE_IDS.map(type => (
+                                      <SelectItem key={type} value={type}>{QUESTION_TYPES[type].label}</SelectItem>
+                                    ))}
                                   </SelectContent>
                                 </Select>
                               ) : (
@@ -762,6 +782,20 @@ export default function SurveyCreate() {
                             )}
                           </div>
 
+                          {/* Display logic */}
+                          <div className="mb-3">
+                            {isEditingQuestions ? (
+                              <QuestionLogicEditor
+                                order={q.order}
+                                questions={questions}
+                                value={q.displayLogic}
+                                onChange={(displayLogic) => updateQuestion(q.id, { displayLogic })}
+                              />
+                            ) : (
+                              <div className="p-2 text-sm border rounded bg-muted/50">{describeDisplayLogic(q.displayLogic, savedQuestions)}</div>
+                            )}
+                          </div>
+
                           {/* Options per type */}
                           {q.questionType === 'multiple-choice' && (
                             <div className="space-y-2">
@@ -775,6 +809,11 @@ export default function SurveyCreate() {
                                         copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                         updateQuestion(q.id, { options: copy });
                                       }} />
+                                      <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                        const copy = [...(q.options || [])];
+                                        copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                        updateQuestion(q.id, { options: copy });
+                                      }} />
                                       <Button variant="ghost" size="sm" onClick={() => {
                                         const copy = [...(q.options || [])];
                                         copy.splice(i, 1);
@@ -804,6 +843,11 @@ export default function SurveyCreate() {
                                         copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                         updateQuestion(q.id, { options: copy });
                                       }} />
+                                      <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                        const copy = [...(q.options || [])];
+                                        copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                        updateQuestion(q.id, { options: copy });
+                                      }} />
                                       <Button variant="ghost" size="sm" onClick={() => {
                                         const copy = [...(q.options || [])];
                                         copy.splice(i, 1);
@@ -839,6 +883,16 @@ export default function SurveyCreate() {
                                   <div className="p-2 text-sm border rounded bg-muted/50">{q.sliderConfig?.maxLabel || 'Max'}</div>
                                 )}
                               </div>
+                              {isEditingQuestions && (
+                                <div className="col-span-2">
+                                  <TraitWeightsEditor
+                                    model={traitModel}
+                                    subject="the maximum slider value"
+                                    value={q.sliderConfig?.traitWeights}
+                                    onChange={(traitWeights) => updateQuestion(q.id, { sliderConfig: { ...(q.sliderConfig || {}), traitWeights } })}
+                                  />
+                                </div>
+                              )}
                             </div>
                           )}
 
@@ -861,6 +915,11 @@ export default function SurveyCreate() {
                                           copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                           updateQuestion(q.id, { options: copy });
                                         }} />
+                                        <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                          const copy = [...(q.options || [])];
+                                          copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                          updateQuestion(q.id, { options: copy });
+                                        }} />
                                         <Button variant="ghost" size="sm" onClick={() => {
                                           const copy = [...(q.options || [])];
                                           copy.splice(i, 1);
@@ -1769,6 +1828,9 @@ export default function SurveyCreate() {
               </Accordion>
             </CardContent>
           </Card>
+          <div className="mt-6">
+            <TraitModelEditor value={traitModel} onChange={setTraitModel} />
+          </div>
           <div className="mt-6 p-4 border rounded-md bg-amber-50 border-amber-200">
             <div className="flex items-start gap-3">
               <AlertCircle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
@@ -10,6 +10,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import CollaborationWidget from '@/components/survey/CollaborationWidget';
+import ResponseExportPanel from '@/components/survey/ResponseExportPanel';
 import { SurveyResponsesViewer } from '@/components/admin/SurveyResponsesViewer';
 import SurveyList from '@/components/SurveyList';
 import RealtimeAnalytics from '@/components/dashboard/RealtimeAnalytics';
@@ -432,6 +433,17 @@ export default function SurveyDetail({ id }: SurveyDetailProps) {
               <SurveyResponsesViewer surveyId={parseInt(id)} isAdminView={false} />
             </CardContent>
           </Card>
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Export Responses</CardTitle>
+              <CardDescription>
+                Download coded responses for analysis in a spreadsheet, SPSS or another statistics package
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponseExportPanel surveyId={parseInt(id)} />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="responsesLegacy" className="hidden">
@@ -46,6 +46,7 @@ import {
   Eye,
   FileText,
   Info,
+  Languages,
   Layers,
   LayoutGrid,
   MessageSquare,
@@ -62,6 +63,14 @@ import {
 } from "lucide-react";
 import CollaborationWidget from "@/components/survey/CollaborationWidget";
 import SurveyNameGenerator from "@/components/survey/SurveyNameGenerator";
+import TraitModelEditor, { isTraitModelValid } from "@/components/survey/TraitModelEditor";
+import TraitWeightsEditor from "@/components/survey/TraitWeightsEditor";
+import QuestionLogicEditor, { describeDisplayLogic } from "@/components/survey/QuestionLogicEditor";
+import SurveyTranslationEditor from "@/components/survey/SurveyTranslationEditor";
+import { QuestionDisplayLogic, renumberQuestions, resolveDisplayLogic } from "@shared/questionLogic";
+import { QUESTION_TYPE_IDS, QUESTION_TYPES } from "@shared/questionTypes";
+import { TraitModel, TraitWeights, DEFAULT_TRAIT_MODEL, resolveTraitModel } from "@shared/traitModel";
+import { SURVEY_LANGUAGES } from "@shared/surveyTranslations";
 
 // Survey types
 enum SurveyType {
@@ -74,7 +83,7 @@ enum SurveyType {
   CUSTOM = "Custom Survey"
 }
 
-type QuestionOption = { id: string; text: string; value?: string; image?: string; description?: string };
+type QuestionOption = { id: string; text: string; value?: string; image?: string; description?: string; traits?: TraitWeights };
 type EditorQuestion = {
   id: string;
   question: string;
@@ -85,6 +94,7 @@ type EditorQuestion = {
   options: QuestionOption[];
   sliderConfig?: any;
   scenarioText?: string;
+  displayLogic?: QuestionDisplayLogic;
 };
 
 interface SurveyData {
@@ -112,6 +122,7 @@ interface SurveyData {
   collectLocation?: boolean;
   collectEducation?: boolean;
   collectIncome?: boolean;
+  traitModel?: TraitModel;
   status: string;
   responseCount: number;
   createdAt: string;
@@ -187,6 +198,9 @@ export default function SurveyEdit() {
   const [collectEducation, setCollectEducation] = useState(false);
   const [collectIncome, setCollectIncome] = useState(false);
 
+  // Traits scored for this survey
+  const [traitModel, setTraitModel] = useState<TraitModel>(DEFAULT_TRAIT_MODEL);
+
   // Business context state
   const [productName, setProductName] = useState("");
   const [productDescription, setProductDescription] = useState("");
@@ -339,6 +353,7 @@ export default function SurveyEdit() {
           false
         )
       );
+      setTraitModel(resolveTraitModel(surveyData.traitModel));
 
       // Populate business context
       if (surveyData.businessContext) {
@@ -375,6 +390,7 @@ export default function SurveyEdit() {
         options: Array.isArray(x.options) ? x.options : [],
         sliderConfig: x.sliderConfig || x.slider_config,
         scenarioText: x.scenarioText || x.scenario_text,
+        displayLogic: resolveDisplayLogic(x.displayLogic ?? x.display_logic) ?? undefined,
       }));
       setQuestions(mapped);
       // Set saved questions as initial checkpoint
@@ -418,6 +434,7 @@ export default function SurveyEdit() {
         targetMarket: surveyData.businessContext?.targetMarket || surveyData.targetMarket || surveyData.target_market || [],
         industry: surveyData.businessContext?.industry || surveyData.industry || "",
         painPoints: surveyData.businessContext?.painPoints || surveyData.painPoints || surveyData.pain_points || [],
+        traitModel: JSON.stringify(resolveTraitModel(surveyData.traitModel)),
         questions: JSON.stringify(mapped)
       };
       setInitialValues(initial);
@@ -488,6 +505,7 @@ export default function SurveyEdit() {
           targetMarket,
           industry,
           painPoints,
+          traitModel: JSON.stringify(traitModel),
           questions: JSON.stringify(questionsSaved ? savedQuestions : questions)
         });
       }
@@ -578,7 +596,8 @@ export default function SurveyEdit() {
       JSON.stringify(competitors) !== JSON.stringify(initialValues.competitors) ||
       JSON.stringify(targetMarket) !== JSON.stringify(initialValues.targetMarket) ||
       industry !== initialValues.industry ||
-      JSON.stringify(painPoints) !== JSON.stringify(initialValues.painPoints);
+      JSON.stringify(painPoints) !== JSON.stringify(initialValues.painPoints) ||
+      JSON.stringify(traitModel) !== initialValues.traitModel;
     
     // Set unsaved changes only if there are actual changes
     setHasUnsavedChanges(questionsChanged || fieldsChanged);
@@ -589,7 +608,7 @@ export default function SurveyEdit() {
     surveyLanguage, enableAIInsights, enableSocialSharing, enableAIResponses,
     collectAge, collectGender, collectLocation, collectEducation, collectIncome,
     productName, productDescription, productCategory, productFeatures,
-    valueProposition, competitors, targetMarket, industry, painPoints,
+    valueProposition, competitors, targetMarket, industry, painPoints, traitModel,
     questions, savedQuestions, isInitialLoad, initialValues
   ]);
 
@@ -670,7 +689,7 @@ export default function SurveyEdit() {
   };
   const deleteQuestion = (id: string) => {
     if (!isEditingQuestions) return; // Don't allow deleting when not in edit mode
-    setQuestions(questions.filter(q => q.id !== id).map((q, i) => ({ ...q, order: i + 1 })));
+    setQuestions(renumberQuestions(questions.filter(q => q.id !== id)));
   };
   const moveQuestion = (id: string, dir: -1 | 1) => {
     if (!isEditingQuestions) return; // Don't allow moving when not in edit mode
@@ -681,7 +700,7 @@ export default function SurveyEdit() {
     const copy = [...questions];
     const [item] = copy.splice(idx, 1);
     copy.splice(target, 0, item);
-    setQuestions(copy.map((q, i) => ({ ...q, order: i + 1 })));
+    setQuestions(renumberQuestions(copy));
   };
 
   // Questions save/edit/cancel handlers
@@ -728,6 +747,15 @@ export default function SurveyEdit() {
       });
       return;
     }
+    if (!isTraitModelValid(traitModel)) {
+      toast({
+        title: "Check the trait model",
+        description: "Every trait needs a unique name.",
+        variant: "destructive"
+      });
+      setActiveTab("settings");
+      return;
+    }
 
     setIsSaving(true);
 
@@ -770,6 +798,7 @@ export default function SurveyEdit() {
           collectIncome,
         },
         businessContext,
+        traitModel: traitModel.map(t => ({ ...t, name: t.name.trim() })),
         questions: (questionsSaved ? savedQuestions : questions).map((q, idx) => ({
           id: isNaN(Number(q.id)) ? undefined : Number(q.id),
           question: q.question,
@@ -780,6 +809,7 @@ export default function SurveyEdit() {
           options: q.options,
           sliderConfig: q.sliderConfig,
           scenarioText: q.scenarioText,
+          displayLogic: q.displayLogic,
         })),
       };
 
@@ -948,7 +978,7 @@ export default function SurveyEdit() {
       )}
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid grid-cols-5 max-w-4xl mb-8">
+        <TabsList className="grid grid-cols-6 max-w-5xl mb-8">
           <TabsTrigger value="metadata">
             <FileText className="h-4 w-4 mr-2" />
             Metadata
@@ -965,6 +995,10 @@ export default function SurveyEdit() {
             <LayoutGrid className="h-4 w-4 mr-2" />
             Settings
           </TabsTrigger>
+          <TabsTrigger value="translations">
+            <Languages className="h-4 w-4 mr-2" />
+            Translations
+          </TabsTrigger>
           <TabsTrigger value="preview">
             <Eye className="h-4 w-4 mr-2" />
             Preview
@@ -1182,14 +1216,9 @@ export default function SurveyEdit() {
                                     <SelectValue placeholder="Select type" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="text">Text</SelectItem>
-                                    <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
-                                    <SelectItem value="slider">Slider</SelectItem>
-                                    <SelectItem value="ranking">Ranking</SelectItem>
-                                    <SelectItem value="scenario">Scenario</SelectItem>
-                                    <SelectItem value="mood-board">Mood Board</SelectItem>
-                                    <SelectItem value="personality-matrix">Personality Matrix</SelectItem>
-                                    <SelectItem value="image">Image Selection</SelectItem>
+                                    {QUESTION_TYPE_IDS.map(type => (
+                                      <SelectItem key={type} value={type}>{QUESTION_TYPES[type].label}</SelectItem>
+                                    ))}
                                   </SelectContent>
                                 </Select>
                               ) : (
@@ -1218,6 +1247,20 @@ export default function SurveyEdit() {
                             )}
                           </div>
 
+                          {/* Display logic */}
+                          <div className="mb-3">
+                            {isEditingQuestions ? (
+                              <QuestionLogicEditor
+                                order={q.order}
+                                questions={questions}
+                                value={q.displayLogic}
+                                onChange={(displayLogic) => updateQuestion(q.id, { displayLogic })}
+                              />
+                            ) : (
+                              <div className="p-2 text-sm border rounded bg-muted/50">{describeDisplayLogic(q.displayLogic, savedQuestions)}</div>
+                            )}
+                          </div>
+
                           {/* Options per type */}
                           {q.questionType === 'multiple-choice' && (
                             <div className="space-y-2">
@@ -1231,6 +1274,11 @@ export default function SurveyEdit() {
                                         copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                         updateQuestion(q.id, { options: copy });
                                       }} />
+                                      <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                        const copy = [...(q.options || [])];
+                                        copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                        updateQuestion(q.id, { options: copy });
+                                      }} />
                                       <Button variant="ghost" size="sm" onClick={() => {
                                         const copy = [...(q.options || [])];
                                         copy.splice(i, 1);
@@ -1260,6 +1308,11 @@ export default function SurveyEdit() {
                                         copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                         updateQuestion(q.id, { options: copy });
                                       }} />
+                                      <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                        const copy = [...(q.options || [])];
+                                        copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                        updateQuestion(q.id, { options: copy });
+                                      }} />
                                       <Button variant="ghost" size="sm" onClick={() => {
                                         const copy = [...(q.options || [])];
                                         copy.splice(i, 1);
@@ -1295,6 +1348,16 @@ export default function SurveyEdit() {
                                   <div className="p-2 text-sm border rounded bg-muted/50">{q.sliderConfig?.maxLabel || 'Max'}</div>
                                 )}
                               </div>
+                              {isEditingQuestions && (
+                                <div className="col-span-2">
+                                  <TraitWeightsEditor
+                                    model={traitModel}
+                                    subject="the maximum slider value"
+                                    value={q.sliderConfig?.traitWeights}
+                                    onChange={(traitWeights) => updateQuestion(q.id, { sliderConfig: { ...(q.sliderConfig || {}), traitWeights } })}
+                                  />
+                                </div>
+                              )}
                             </div>
                           )}
 
@@ -1317,6 +1380,11 @@ export default function SurveyEdit() {
                                           copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, text: e.target.value } as any;
                                           updateQuestion(q.id, { options: copy });
                                         }} />
+                                        <TraitWeightsEditor model={traitModel} value={opt.traits} onChange={(traits) => {
+                                          const copy = [...(q.options || [])];
+                                          copy[i] = { ...(copy[i] || {}), id: opt.id || `opt_${Date.now()}`, traits } as any;
+                                          updateQuestion(q.id, { options: copy });
+                                        }} />
                                         <Button variant="ghost" size="sm" onClick={() => {
                                           const copy = [...(q.options || [])];
                                           copy.splice(i, 1);
@@ -1983,12 +2051,9 @@ export default function SurveyEdit() {
                           <SelectValue placeholder="Select language" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="en">English</SelectItem>
-                          <SelectItem value="es">Spanish</SelectItem>
-                          <SelectItem value="fr">French</SelectItem>
-                          <SelectItem value="de">German</SelectItem>
-                          <SelectItem value="ja">Japanese</SelectItem>
-                          <SelectItem value="zh">Chinese</SelectItem>
+                          {SURVEY_LANGUAGES.map(language => (
+                            <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -1997,6 +2062,16 @@ export default function SurveyEdit() {
               </div>
             </CardContent>
           </Card>
+          <div className="mt-6">
+            <TraitModelEditor value={traitModel} onChange={setTraitModel} disabled={isAdminDeactivated} />
+          </div>
+        </TabsContent>
+
+        {/* TRANSLATIONS TAB */}
+        <TabsContent value="translations">
+          {effectiveSurveyId ? (
+            <SurveyTranslationEditor surveyId={effectiveSurveyId} disabled={isAdminDeactivated} />
+          ) : null}
         </TabsContent>
 
         {/* PREVIEW TAB */}
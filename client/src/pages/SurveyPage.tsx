@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
@@ -9,6 +9,8 @@ import ResultsPreview from "@/components/survey/ResultsPreview";
 import { apiRequest } from "@/lib/queryClient";
 import { surveyTypes } from "@/lib/surveyQuestions";
 import { SurveyQuestion } from "@shared/schema";
+import { getVisibleQuestions } from "@shared/questionLogic";
+import { answersForQuestions } from "@/lib/surveySession";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -116,6 +118,9 @@ const SurveyPage = () => {
       setQuestionsData(questionsResponse.data);
     }
   }, [questionsResponse]);
+
+  // Questions the respondent is shown, given the display logic and the answers so far
+  const visibleQuestions = useMemo(() => getVisibleQuestions(questionsData, answers), [questionsData, answers]);
   
   // Start survey session mutation
   const { mutate: startSurvey, isPending: isStarting } = useMutation({
@@ -232,7 +237,7 @@ const SurveyPage = () => {
           setSessionId(savedSessionId);
           
           // Format answers to match backend expectations
-          const formattedResponses = Object.entries(answers).map(([questionId, answer]) => ({
+          const formattedResponses = Object.entries(answersForQuestions(visibleQuestions, answers)).map(([questionId, answer]) => ({
             questionId: parseInt(questionId),
             answer: answer
           }));
@@ -268,7 +273,7 @@ const SurveyPage = () => {
       }
       
       // Format answers to match backend expectations
-      const formattedResponses = Object.entries(answers).map(([questionId, answer]) => ({
+      const formattedResponses = Object.entries(answersForQuestions(visibleQuestions, answers)).map(([questionId, answer]) => ({
         questionId: parseInt(questionId),
         answer: answer
       }));
@@ -368,7 +373,7 @@ const SurveyPage = () => {
   };
   
   const handleAnswerSelect = (answer: string) => {
-    const currentQuestion = questionsData[currentQuestionIndex];
+    const currentQuestion = visibleQuestions[currentQuestionIndex];
     
     // Save answer
     setAnswers(prev => ({ 
@@ -384,9 +389,9 @@ const SurveyPage = () => {
   };
   
   const handleNextQuestion = () => {
-    if (!questionsData.length) return;
+    if (!visibleQuestions.length) return;
     
-    const currentQuestion = questionsData[currentQuestionIndex];
+    const currentQuestion = visibleQuestions[currentQuestionIndex];
     
     // Check for milestones/achievements
     const nextIndex = currentQuestionIndex + 1;
@@ -416,7 +421,7 @@ const SurveyPage = () => {
     }
     
     // Move to next question or show demographics
-    if (currentQuestionIndex < questionsData.length - 1) {
+    if (currentQuestionIndex < visibleQuestions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     } else {
       // Check if we need to collect demographics
@@ -462,7 +467,7 @@ const SurveyPage = () => {
           <>
             <ProgressIndicator 
               currentQuestion={currentQuestionIndex + 1} 
-              totalQuestions={questionsData?.length || 10} 
+              totalQuestions={visibleQuestions.length || 10} 
             />
             
             {/* Achievement notification */}
@@ -491,15 +496,15 @@ const SurveyPage = () => {
                   <Skeleton className="h-10 w-24" />
                 </div>
               </div>
-            ) : questionsData && questionsData.length > 0 ? (
+            ) : visibleQuestions && visibleQuestions.length > 0 ? (
               <QuestionCard 
-                question={questionsData[currentQuestionIndex]}
+                question={visibleQuestions[currentQuestionIndex]}
                 onNext={handleNextQuestion}
                 onPrev={handlePrevQuestion}
                 onAnswerSelect={handleAnswerSelect}
                 isFirstQuestion={currentQuestionIndex === 0}
-                isLastQuestion={currentQuestionIndex === questionsData.length - 1}
-                currentAnswer={answers[questionsData[currentQuestionIndex]?.id]}
+                isLastQuestion={currentQuestionIndex === visibleQuestions.length - 1}
+                currentAnswer={answers[visibleQuestions[currentQuestionIndex]?.id]}
                 isLoading={isCompleting}
               />
             ) : (
@@ -1,17 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, Link, useLocation } from 'wouter';
 import { useTranslation } from 'react-i18next';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { ArrowLeft, CheckCircle2 } from "lucide-react";
+import { ArrowLeft, CheckCircle2, Languages } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { saveResumeToken, clearResumeToken, fetchResumableSession, firstUnansweredIndex, answersForQuestions } from "@/lib/surveySession";
+import { getVisibleQuestions } from "@shared/questionLogic";
+import { getSurveyLanguage, SurveyLanguageChoice } from "@shared/surveyTranslations";
 
 // API Response interfaces
 interface ApiResponse<T> {
   status: string;
   data: T;
+  language?: SurveyLanguageChoice;
 }
 
 interface Survey {
@@ -21,6 +26,7 @@ interface Survey {
   createdAt: string;
   responseCount: number;
   type: string;
+  language: SurveyLanguageChoice | null;
 }
 
 interface SurveyResponse {
@@ -28,15 +34,26 @@ interface SurveyResponse {
   data: Survey;
 }
 
+interface QuestionOption {
+  id: string;
+  text: string;
+  value: string;
+}
+
 interface Question {
   id: number;
   text: string;
-  options: string[];
+  options: QuestionOption[];
 }
 
 const TakeSurvey = () => {
-  const { t } = useTranslation();
+  const { i18n } = useTranslation();
   const params = useParams<{ id: string }>();
+  // Survey language the respondent picked, or "auto" to let the server match the browser's languages;
+  // survey links can preselect one with ?lang=<code>
+  const [requestedLanguage, setRequestedLanguage] = useState(
+    () => new URLSearchParams(window.location.search).get('lang') || 'auto'
+  );
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [currentQuestion, setCurrentQuestion] = useState(0);
@@ -46,10 +63,13 @@ const TakeSurvey = () => {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [sessionStartTime, setSessionStartTime] = useState<string | null>(null);
   const [showThankYou, setShowThankYou] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  // Set when the respondent falls in a full quota; replaces the thank-you screen
+  const [screenOutMessage, setScreenOutMessage] = useState<string | null>(null);
 
   // Get survey details
   const { data: surveyData, isLoading: isSurveyLoading, error: surveyError } = useQuery<SurveyResponse>({
-    queryKey: [`/api/surveys/${params.id}`],
+    queryKey: [`/api/surveys/${params.id}?lang=${encodeURIComponent(requestedLanguage)}`],
     staleTime: 60000,
     refetchOnWindowFocus: false,
     retry: 2,
@@ -57,7 +77,7 @@ const TakeSurvey = () => {
 
   // Get survey questions
   const { data: questionsData, isLoading: isQuestionsLoading, error: questionsError } = useQuery<ApiResponse<any[]>>({
-    queryKey: [`/api/surveys/${params.id}/questions`],
+    queryKey: [`/api/surveys/${params.id}/questions?lang=${encodeURIComponent(requestedLanguage)}`],
     staleTime: 60000,
     refetchOnWindowFocus: false,
     retry: 2,
@@ -66,11 +86,17 @@ const TakeSurvey = () => {
   // Combined loading state
   const isLoading = isSurveyLoading || isQuestionsLoading;
 
+  // The language the survey is shown in; page texts follow it, right to left for Arabic and Hebrew
+  const language = questionsData?.language ?? surveyData?.data?.language ?? null;
+  const t = useMemo(() => i18n.getFixedT(language?.code ?? i18n.language), [i18n, language?.code]);
+
   // Combined error state
   const error = surveyError || questionsError;
 
-  // Process the questions from the API response
-  const questions = questionsData?.data || [];
+  // Process the questions from the API response, keeping those the display
+  // logic shows for the answers so far
+  const allQuestions = questionsData?.data || [];
+  const questions = useMemo(() => getVisibleQuestions<any>(allQuestions, answers), [allQuestions, answers]);
 
   // Submit survey mutation
   const { mutate: submitSurvey, isPending: isSubmitting } = useMutation({
@@ -80,7 +106,7 @@ const TakeSurvey = () => {
       
       // Format answers to match API expectations
       // Convert the answers object to an array of response objects
-      const formattedAnswers = Object.entries(answers).map(([questionId, response]) => ({
+      const formattedAnswers = Object.entries(answersForQuestions(questions, answers)).map(([questionId, response]) => ({
         questionId: parseInt(questionId),
         answer: response  // Use 'answer' instead of 'response' to match backend expectations
       }));
@@ -129,9 +155,9 @@ const TakeSurvey = () => {
             surveyId: parseInt(params.id)
           });
           const sessionData = await sessionResponse.json();
-          currentSessionId = sessionData.sessionId;
+          currentSessionId = sessionData.data?.sessionId || sessionData.sessionId;
           setSessionId(currentSessionId);
-          setSessionStartTime(sessionData.startTime);
+          setSessionStartTime(sessionData.data?.startTime || sessionData.startTime);
         } catch (error) {
           console.error('Error creating session:', error);
         }
@@ -154,7 +180,10 @@ const TakeSurvey = () => {
         sessionId: currentSessionId,
         surveyType: survey?.type || 'general',
         surveyId: parseInt(params.id),
+        // Client deployment links carry ?deployment=<id> so their own quotas apply
+        deploymentId: parseInt(new URLSearchParams(window.location.search).get('deployment') || '') || undefined,
         startTime: sessionStartTime, // Include the session start time
+        language: language?.code,
         responses: formattedAnswers,
         demographics: collectDemographics ? filteredDemographics : {}
       };
@@ -169,7 +198,7 @@ const TakeSurvey = () => {
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: 'Failed to complete survey' }));
         console.error("Survey completion error:", errorData);
-        throw new Error(errorData.message || 'Failed to complete survey');
+        throw Object.assign(new Error(errorData.message || 'Failed to complete survey'), { code: errorData.code });
       }
       
       const responseData = await response.json();
@@ -178,6 +207,7 @@ const TakeSurvey = () => {
     },
     onSuccess: (data) => {
       setSubmitted(true);
+      clearResumeToken(params.id);
       toast({
         title: t('pages.takeSurvey.surveySubmitted'),
         description: t('pages.takeSurvey.thankYouCompletion'),
@@ -207,7 +237,13 @@ const TakeSurvey = () => {
         }
       }, 1500);
     },
-    onError: (error) => {
+    onError: (error: Error & { code?: string }) => {
+      if (error.code === 'QUOTA_FULL') {
+        setScreenOutMessage(error.message);
+        setShowThankYou(false);
+        clearResumeToken(params.id);
+        return;
+      }
       console.error("Error submitting survey:", error);
       toast({
         title: t('pages.takeSurvey.submissionError'),
@@ -225,12 +261,52 @@ const TakeSurvey = () => {
     submitSurvey();
   };
 
+  // Start the survey, resuming a saved session for this survey when there is one
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const resumed = await fetchResumableSession(params.id);
+      if (resumed) {
+        setSessionId(resumed.sessionId);
+        setSessionStartTime(resumed.startTime);
+        setAnswers(resumed.answers);
+        setCurrentQuestion(firstUnansweredIndex(getVisibleQuestions<any>(allQuestions, resumed.answers), resumed.answers));
+        toast({
+          title: t('pages.takeSurvey.progressRestored'),
+          description: t('pages.takeSurvey.progressRestoredMessage'),
+        });
+      } else {
+        const sessionResponse = await apiRequest('POST', '/api/survey/start', {
+          companyId: (survey as any)?.companyId || 1,
+          surveyType: survey?.type || 'general',
+          surveyId: parseInt(params.id)
+        });
+        const sessionData = await sessionResponse.json();
+        setSessionId(sessionData.data?.sessionId);
+        setSessionStartTime(sessionData.data?.startTime);
+        saveResumeToken(params.id, sessionData.data?.resumeToken);
+      }
+    } catch (error) {
+      // The session is created again on submit if starting fails here
+      console.error('Error starting survey session:', error);
+    } finally {
+      setIsStarting(false);
+      setHasStarted(true);
+    }
+  };
+
   // Handle selecting an answer
   const handleAnswerSelect = (questionId: number, answer: string) => {
     setAnswers({
       ...answers,
       [questionId]: answer
     });
+
+    // Persist the answer so progress survives a reload
+    if (sessionId) {
+      apiRequest('POST', '/api/survey/answer', { sessionId, questionId, answer })
+        .catch(error => console.error('Error saving answer:', error));
+    }
   };
 
   // Go to next question
@@ -255,7 +331,7 @@ const TakeSurvey = () => {
   };
 
   // Calculate progress percentage
-  const progressPercentage = ((Object.keys(answers).length / questions.length) * 100).toFixed(0);
+  const progressPercentage = ((Object.keys(answersForQuestions(questions, answers)).length / questions.length) * 100).toFixed(0);
 
   // Show error toast if needed
   useEffect(() => {
@@ -272,12 +348,27 @@ const TakeSurvey = () => {
   const survey = surveyData?.data;
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl">
-      <Link href="/dashboard" className="flex items-center text-primary hover:underline mb-4">
-        <ArrowLeft className="h-4 w-4 mr-1" />
-        {t('pages.takeSurvey.backToDashboard')}
-      </Link>
-      
+    <div className="container mx-auto px-4 py-8 max-w-4xl" dir={language?.direction ?? 'ltr'} lang={language?.code}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <Link href="/dashboard" className="flex items-center text-primary hover:underline">
+          <ArrowLeft className="h-4 w-4 me-1 rtl:rotate-180" />
+          {t('pages.takeSurvey.backToDashboard')}
+        </Link>
+        {language && language.available.length > 1 && (
+          <Select value={language.code} onValueChange={setRequestedLanguage}>
+            <SelectTrigger className="w-44" aria-label={t('pages.takeSurvey.language')}>
+              <Languages className="h-4 w-4 me-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {language.available.map(code => (
+                <SelectItem key={code} value={code}>{getSurveyLanguage(code)?.nativeName ?? code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
       <Card className="shadow-lg">
         <CardHeader className="bg-primary/5">
           <CardTitle className="text-2xl font-bold">
@@ -314,9 +405,14 @@ const TakeSurvey = () => {
                 <p><strong>{t('pages.takeSurvey.type')}:</strong> {(survey as any)?.surveyType || t('pages.takeSurvey.general')}</p>
               </div>
               <div className="pt-2">
-                <Button onClick={() => setHasStarted(true)}>{t('pages.takeSurvey.startSurvey')}</Button>
+                <Button onClick={handleStart} disabled={isStarting}>{t('pages.takeSurvey.startSurvey')}</Button>
               </div>
             </div>
+          ) : screenOutMessage ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-medium mb-2">{t('pages.takeSurvey.screenedOutTitle')}</h3>
+              <p className="text-gray-600">{screenOutMessage}</p>
+            </div>
           ) : submitted || showThankYou ? (
             <div className="text-center py-12">
               <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
@@ -344,17 +440,18 @@ const TakeSurvey = () => {
               <div className="mb-8">
                 <h3 className="text-lg font-medium mb-4">{questions[currentQuestion]?.text}</h3>
                 <div className="space-y-3">
-                  {questions[currentQuestion]?.options.map((option: string, index: number) => (
+                  {/* Options show the translated text and answer with the canonical value */}
+                  {(questions[currentQuestion]?.options as QuestionOption[] | undefined)?.map((option, index) => (
                     <div 
-                      key={index}
+                      key={option.id ?? index}
                       className={`p-4 border rounded-lg cursor-pointer transition-colors ${
-                        answers[questions[currentQuestion]?.id] === option 
+                        answers[questions[currentQuestion]?.id] === option.value 
                           ? 'border-primary bg-primary/10' 
                           : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
                       }`}
-                      onClick={() => handleAnswerSelect(questions[currentQuestion].id, option)}
+                      onClick={() => handleAnswerSelect(questions[currentQuestion].id, option.value)}
                     >
-                      {option}
+                      {option.text}
                     </div>
                   ))}
                 </div>
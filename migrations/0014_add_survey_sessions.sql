@@ -0,0 +1,26 @@
+-- Add persistent survey sessions so partial responses survive reloads
+
+CREATE TABLE IF NOT EXISTS survey_sessions (
+  id SERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL UNIQUE,
+  survey_id INTEGER NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  company_id INTEGER NOT NULL REFERENCES companies(id),
+  resume_token TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  answers JSON NOT NULL DEFAULT '{}',
+  answered_count INTEGER NOT NULL DEFAULT 0,
+  last_question_id INTEGER,
+  survey_response_id INTEGER REFERENCES survey_responses(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  started_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  last_activity_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMP,
+  abandoned_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_survey_sessions_survey_id ON survey_sessions(survey_id);
+CREATE INDEX IF NOT EXISTS idx_survey_sessions_status ON survey_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_survey_sessions_last_activity_at ON survey_sessions(last_activity_at);
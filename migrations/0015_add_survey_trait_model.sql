@@ -0,0 +1,4 @@
+-- Add a configurable trait model to surveys (NULL keeps the default five traits)
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS trait_model JSON;
+
+COMMENT ON COLUMN surveys.trait_model IS 'Array of {name, category, description} trait definitions scored for this survey';
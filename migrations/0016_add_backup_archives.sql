@@ -0,0 +1,23 @@
+-- Track real backup archives and the automatic backup schedule
+
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS include_responses BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS size_bytes INTEGER;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS table_counts JSON;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+ALTER TABLE system_backups ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW() NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_system_backups_type_created_at ON system_backups(type, created_at);
+
+CREATE TABLE IF NOT EXISTS backup_settings (
+  id SERIAL PRIMARY KEY,
+  daily_backups BOOLEAN NOT NULL DEFAULT TRUE,
+  weekly_backups BOOLEAN NOT NULL DEFAULT TRUE,
+  monthly_backups BOOLEAN NOT NULL DEFAULT TRUE,
+  include_responses BOOLEAN NOT NULL DEFAULT TRUE,
+  retention_days INTEGER NOT NULL DEFAULT 90 CHECK (retention_days > 0),
+  updated_by INTEGER REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
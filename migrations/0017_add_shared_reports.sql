@@ -0,0 +1,29 @@
+-- Persist shared report links with password protection, section scoping and view analytics
+
+CREATE TABLE IF NOT EXISTS shared_reports (
+  id SERIAL PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  survey_id INTEGER REFERENCES surveys(id) ON DELETE CASCADE,
+  created_by INTEGER REFERENCES users(id),
+  password_hash TEXT,
+  sections JSON NOT NULL DEFAULT '[]',
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_reports_company_id ON shared_reports(company_id);
+
+CREATE TABLE IF NOT EXISTS shared_report_views (
+  id SERIAL PRIMARY KEY,
+  shared_report_id INTEGER NOT NULL REFERENCES shared_reports(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_report_views_report_viewed_at ON shared_report_views(shared_report_id, viewed_at);
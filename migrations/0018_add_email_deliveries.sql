@@ -0,0 +1,27 @@
+-- Delivery log for outgoing email with retry and bounce tracking
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id SERIAL PRIMARY KEY,
+  template TEXT NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'en',
+  to_address TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  message_id TEXT,
+  next_attempt_at TIMESTAMP,
+  sent_at TIMESTAMP,
+  bounced_at TIMESTAMP,
+  bounce_reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_status_next_attempt ON email_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_message_id ON email_deliveries(message_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_to_address ON email_deliveries(to_address);
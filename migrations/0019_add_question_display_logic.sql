@@ -0,0 +1,3 @@
+-- Show/skip rules that make survey questions depend on earlier answers
+
+ALTER TABLE survey_questions ADD COLUMN IF NOT EXISTS display_logic JSON;
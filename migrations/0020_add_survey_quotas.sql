@@ -0,0 +1,7 @@
+-- Quota plans for surveys and client deployments, and the deployment each response came through
+
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS quotas JSON;
+ALTER TABLE client_survey_deployments ADD COLUMN IF NOT EXISTS quotas JSON;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS deployment_id INTEGER REFERENCES client_survey_deployments(id);
+CREATE INDEX IF NOT EXISTS idx_survey_responses_deployment_id ON survey_responses(deployment_id);
@@ -0,0 +1,22 @@
+-- Immutable survey versions; responses are pinned to the published version they answered
+
+CREATE TABLE IF NOT EXISTS survey_versions (
+  id SERIAL PRIMARY KEY,
+  survey_id INTEGER NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',
+  name TEXT NOT NULL,
+  description TEXT,
+  snapshot JSON NOT NULL,
+  created_by INTEGER REFERENCES users(id),
+  restored_from_version_id INTEGER REFERENCES survey_versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  published_at TIMESTAMP,
+  CONSTRAINT survey_version_number_unique UNIQUE (survey_id, version_number)
+);
+
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS current_version_id INTEGER REFERENCES survey_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS survey_version_id INTEGER REFERENCES survey_versions(id);
+
+CREATE INDEX IF NOT EXISTS idx_survey_responses_survey_version_id ON survey_responses(survey_version_id);
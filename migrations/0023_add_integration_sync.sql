@@ -0,0 +1,19 @@
+-- Connector sync state for integrations and the contacts they pull in
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS sync_state JSON;
+
+CREATE TABLE IF NOT EXISTS integration_contacts (
+  id SERIAL PRIMARY KEY,
+  integration_id INTEGER NOT NULL REFERENCES integrations(id) ON DELETE CASCADE,
+  company_id INTEGER REFERENCES companies(id),
+  email TEXT NOT NULL,
+  first_name TEXT,
+  last_name TEXT,
+  external_id TEXT,
+  attributes JSON,
+  synced_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT integration_contact_email_unique UNIQUE (integration_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_integration_contacts_company_id ON integration_contacts(company_id);
@@ -0,0 +1,9 @@
+-- Persisted collaboration documents: each document change gets a per-session
+-- version so nodes sharing a session apply changes in the same order, and
+-- comments keep their position in the document
+
+ALTER TABLE collaboration_changes ADD COLUMN IF NOT EXISTS version INTEGER;
+ALTER TABLE collaboration_comments ADD COLUMN IF NOT EXISTS position INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS collaboration_change_version_unique ON collaboration_changes(session_id, version);
+CREATE INDEX IF NOT EXISTS idx_collaboration_comments_session_id ON collaboration_comments(session_id);
@@ -0,0 +1,8 @@
+-- Structured collaborative editing: sessions keep a version vector per edited
+-- field to detect concurrent edits, and every change records the version it
+-- was made against so conflicted changes can be reviewed
+
+ALTER TABLE collaboration_sessions ADD COLUMN IF NOT EXISTS field_versions JSON;
+ALTER TABLE collaboration_changes ADD COLUMN IF NOT EXISTS base_version JSON;
+
+CREATE INDEX IF NOT EXISTS idx_collaboration_changes_session_status ON collaboration_changes(session_id, status);
@@ -0,0 +1,45 @@
+-- Company approval workflows and the survey reviews that gate publishing
+
+CREATE TABLE IF NOT EXISTS approval_workflows (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewer_ids INTEGER[] NOT NULL DEFAULT '{}',
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  allow_self_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS survey_reviews (
+  id SERIAL PRIMARY KEY,
+  survey_id INTEGER NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  company_id INTEGER NOT NULL REFERENCES companies(id),
+  session_id INTEGER NOT NULL REFERENCES collaboration_sessions(id),
+  version_id INTEGER REFERENCES survey_versions(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  notes TEXT,
+  requested_by INTEGER NOT NULL REFERENCES users(id),
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewer_ids INTEGER[] NOT NULL DEFAULT '{}',
+  required_reviewer_ids INTEGER[] NOT NULL DEFAULT '{}',
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  allow_self_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  decided_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_survey_reviews_survey_id ON survey_reviews(survey_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_survey_reviews_company_status ON survey_reviews(company_id, status);
+
+CREATE TABLE IF NOT EXISTS survey_review_decisions (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER NOT NULL REFERENCES survey_reviews(id) ON DELETE CASCADE,
+  reviewer_id INTEGER NOT NULL REFERENCES users(id),
+  decision TEXT NOT NULL,
+  comment_id INTEGER REFERENCES collaboration_comments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT survey_review_decision_unique UNIQUE (review_id, reviewer_id)
+);
@@ -0,0 +1,3 @@
+-- Temporary user permission grants are swept once they expire
+
+CREATE INDEX IF NOT EXISTS idx_user_permissions_expires_at ON user_permissions(expires_at) WHERE expires_at IS NOT NULL;
@@ -0,0 +1,4 @@
+-- Team invitations are listed per company and checked by email before a new one is sent
+
+CREATE INDEX IF NOT EXISTS idx_user_invitations_company_status ON user_invitations(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_user_invitations_email ON user_invitations(lower(email));
@@ -0,0 +1,27 @@
+-- Background response exports (wide CSV, SPSS, codebook) and a keyset index for streaming responses
+
+CREATE TABLE IF NOT EXISTS response_export_jobs (
+  id SERIAL PRIMARY KEY,
+  survey_id INTEGER NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+  company_id INTEGER NOT NULL REFERENCES companies(id),
+  requested_by INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  format TEXT NOT NULL,
+  options JSON NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL,
+  row_count INTEGER,
+  file_path TEXT,
+  file_name TEXT,
+  size_bytes INTEGER,
+  error TEXT,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_export_jobs_status ON response_export_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_response_export_jobs_requested_by ON response_export_jobs(requested_by, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_survey_responses_survey_id_id ON survey_responses(survey_id, id);
@@ -0,0 +1,11 @@
+-- Per-language survey content: translated survey texts, question and option
+-- translations keyed by canonical option value, and the language each response was given in
+
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS translation_languages JSON;
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS translations JSON;
+
+ALTER TABLE survey_questions ADD COLUMN IF NOT EXISTS translations JSON;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS language TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_survey_responses_language ON survey_responses(survey_id, language);
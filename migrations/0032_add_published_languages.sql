@@ -0,0 +1,8 @@
+-- Translation languages are offered to respondents only once published, which
+-- requires the language to be translated above the platform's threshold
+
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS published_languages JSON;
+
+-- Languages offered before publishing existed stay available
+UPDATE surveys SET published_languages = translation_languages
+WHERE published_languages IS NULL AND translation_languages IS NOT NULL;
@@ -0,0 +1,35 @@
+-- Data subject requests: respondents ask by email for access to, an export of
+-- or the erasure of their data; platform staff work through them before the
+-- legal deadline
+
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  status TEXT DEFAULT 'unverified' NOT NULL,
+  email TEXT NOT NULL,
+  jurisdiction TEXT DEFAULT 'gdpr' NOT NULL,
+  details TEXT,
+  locale TEXT DEFAULT 'en' NOT NULL,
+  request_ip TEXT,
+  verification_token_hash TEXT UNIQUE,
+  verification_expires_at TIMESTAMP,
+  verified_at TIMESTAMP,
+  due_at TIMESTAMP,
+  download_token_hash TEXT UNIQUE,
+  download_expires_at TIMESTAMP,
+  downloaded_at TIMESTAMP,
+  handled_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP,
+  rejected_at TIMESTAMP,
+  rejection_reason TEXT,
+  result JSON,
+  certificate JSON,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_status ON data_subject_requests(status, due_at);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_email ON data_subject_requests(email, type);
+
+-- Requests match respondents by email regardless of case
+CREATE INDEX IF NOT EXISTS idx_survey_responses_respondent_email ON survey_responses(LOWER(respondent_email));
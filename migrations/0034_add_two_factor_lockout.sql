@@ -0,0 +1,5 @@
+-- Two-factor lockout: invalid codes are counted per user, so a new login
+-- session does not start the count again
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_failed_attempts INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_locked_until TIMESTAMP;
@@ -5,6 +5,16 @@ import session from 'express-session';
 import bcrypt from 'bcrypt';
 import { getUserById, getUserByUsername, getUserByEmail, logUserActivity } from './database-storage-user-management';
 import { Logger } from './utils/Logger';
+import { publicRoute, requireSignedIn } from './middleware/permissionMiddleware';
+import { AppError } from './middleware/errorHandler';
+import { twoFactorService } from './services/two-factor-service';
+import {
+  TRUSTED_DEVICE_COOKIE,
+  TwoFactorChallenge,
+  challengeExpiresAt,
+  isChallengeExpired,
+  twoFactorLoginSchema
+} from '../shared/twoFactor';
 import MemoryStore from 'memorystore';
 
 const logger = new Logger('Auth');
@@ -32,6 +42,13 @@ declare module 'express-session' {
     _csrfTokenCreatedAt?: number;
     _csrfSecret?: string;
     _authChanged?: boolean;
+    // A login that passed the password check and waits for its second factor
+    // Invalid codes are counted on the user, not here (see TwoFactorService)
+    pendingTwoFactor?: {
+      userId: number;
+      issuedAt: number;
+      enrollmentRequired: boolean;
+    };
   }
 }
 
@@ -139,12 +156,18 @@ export async function setupSession(app: express.Application) {
 // Setup Authentication routes and middleware
 export function setupAuth(app: express.Application) {
   // ✅ Add login aliases
-  app.post('/api/login', login);
-  app.post('/api/auth/login', login);
-  app.post('/api/logout', logout);
-  app.post('/api/auth/logout', logout); // Add auth/logout alias
-  app.get('/api/me', authenticate, (req, res) => res.json({ user: req.user }));
-  app.get('/api/auth/status', (req, res) => {
+  app.post('/api/login', publicRoute, login);
+  app.post('/api/auth/login', publicRoute, login);
+  app.post('/api/logout', publicRoute, logout);
+  app.post('/api/auth/logout', publicRoute, logout); // Add auth/logout alias
+  // Second login step for accounts with two-factor authentication
+  app.post('/api/auth/login/verify', publicRoute, verifyTwoFactorLogin);
+  app.post('/api/auth/login/enroll', publicRoute, beginLoginEnrollment);
+  app.get('/api/me', requireSignedIn, authenticate, (req, res) => {
+    const { password: _, passwordSalt: __, mfaSecret: ___, mfaPendingSecret: ____, ...user } = req.user;
+    res.json({ user });
+  });
+  app.get('/api/auth/status', publicRoute, (req, res) => {
     if (!req.session || !req.session.userId)
       return res.status(401).json({ authenticated: false });
     res.json({
@@ -407,79 +430,216 @@ export async function login(req: Request, res: Response) {
       return res.status(401).json({ message: 'Invalid credentials' });
     }
     
-    // Valid credentials - create session with complete user context
-    req.session.userId = foundUser.id;
-    req.session.companyId = foundUser.companyId || undefined;
-    req.session.userRole = foundUser.role;
-    req.session.username = foundUser.username;
-    req.session.email = foundUser.email;
-    
-    // CRITICAL: Invalidate old CSRF token by regenerating the secret
-    // This ensures that any CSRF token generated before login is invalidated
-    // The frontend will need to fetch a new token after login
-    // We do this by deleting the old secret - csurf will generate a new one on next token generation
-    if (req.session && (req.session as any)._csrfSecret) {
-      delete (req.session as any)._csrfSecret;
-      logger.debug('Invalidated old CSRF secret after login', {
-        sessionId: req.sessionID || 'none',
-        userId: foundUser.id
-      });
+    // Accounts with two-factor authentication, or that the policy requires
+    // to set it up, finish signing in with /api/auth/login/verify
+    const twoFactor = await twoFactorService.loginRequirement(foundUser, req.cookies?.[TRUSTED_DEVICE_COOKIE]);
+    if (twoFactor.required) {
+      return sendTwoFactorChallenge(req, res, foundUser.id, twoFactor.enrollmentRequired);
     }
-    
-    // Mark authentication state as changed to trigger CSRF token rotation
-    req.session._authChanged = true;
-    
-    // Mark session as touched and save it
-    req.session.touch();
-    
-    // Save session before sending response to ensure it's persisted
-    // This is especially important with Redis to ensure the session is stored
-    await new Promise<void>((resolve, reject) => {
-      req.session.save((err) => {
-        if (err) {
-          logger.error('Failed to save session after login:', err);
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
+
+    await completeLogin(req, res, foundUser, 'password');
+  } catch (error) {
+    logger.error('Login error:', error);
+    res.status(500).json({ message: 'An error occurred during login' });
+  }
+}
+
+/**
+ * Create the signed-in session for a user whose credentials (and second
+ * factor, where needed) were checked, and send the login response
+ */
+async function completeLogin(req: Request, res: Response, foundUser: any, method: string, extra: Record<string, unknown> = {}) {
+  // Valid credentials - create session with complete user context
+  delete req.session.pendingTwoFactor;
+  req.session.userId = foundUser.id;
+  req.session.companyId = foundUser.companyId || undefined;
+  req.session.userRole = foundUser.role;
+  req.session.username = foundUser.username;
+  req.session.email = foundUser.email;
+  
+  // CRITICAL: Invalidate old CSRF token by regenerating the secret
+  // This ensures that any CSRF token generated before login is invalidated
+  // The frontend will need to fetch a new token after login
+  // We do this by deleting the old secret - csurf will generate a new one on next token generation
+  if (req.session && (req.session as any)._csrfSecret) {
+    delete (req.session as any)._csrfSecret;
+    logger.debug('Invalidated old CSRF secret after login', {
+      sessionId: req.sessionID || 'none',
+      userId: foundUser.id
     });
-    
-    // Log successful login
-    await logUserActivity(
-      foundUser.id, 
-      'login',
-      { method: 'password', companyId: foundUser.companyId },
-      req.ip,
-      req.headers['user-agent']
-    );
-    
-    // Reset login attempts on successful login
-    // await updateUser(foundUser.id, {
-    //   loginAttempts: 0,
-    //   lastLogin: new Date(),
-    //   accountLocked: false,
-    //   accountLockedUntil: null
-    // });
-    
-    // Return user info (excluding sensitive data)
-    const { password: _, passwordSalt: __, ...userWithoutPassword } = foundUser;
-    res.json({ 
-      message: 'Login successful', 
-      user: userWithoutPassword,
-      session: {
-        userId: foundUser.id,
-        companyId: foundUser.companyId,
-        role: foundUser.role,
-        username: foundUser.username
-      },
-      // Note: CSRF token is not included here - the frontend should fetch a new token
-      // after login by calling /api/auth/csrf-token endpoint
-      // This ensures the token is generated with the correct session state
+  }
+  
+  // Mark authentication state as changed to trigger CSRF token rotation
+  req.session._authChanged = true;
+  
+  // Mark session as touched and save it
+  req.session.touch();
+  
+  // Save session before sending response to ensure it's persisted
+  // This is especially important with Redis to ensure the session is stored
+  await new Promise<void>((resolve, reject) => {
+    req.session.save((err) => {
+      if (err) {
+        logger.error('Failed to save session after login:', err);
+        reject(err);
+      } else {
+        resolve();
+      }
     });
-    
+  });
+  
+  // Log successful login
+  await logUserActivity(
+    foundUser.id, 
+    'login',
+    { method, companyId: foundUser.companyId },
+    req.ip,
+    req.headers['user-agent']
+  );
+  
+  // Reset login attempts on successful login
+  // await updateUser(foundUser.id, {
+  //   loginAttempts: 0,
+  //   lastLogin: new Date(),
+  //   accountLocked: false,
+  //   accountLockedUntil: null
+  // });
+  
+  // Return user info (excluding sensitive data)
+  const { password: _, passwordSalt: __, mfaSecret: ___, mfaPendingSecret: ____, ...userWithoutPassword } = foundUser;
+  res.json({ 
+    message: 'Login successful', 
+    user: userWithoutPassword,
+    session: {
+      userId: foundUser.id,
+      companyId: foundUser.companyId,
+      role: foundUser.role,
+      username: foundUser.username
+    },
+    // Note: CSRF token is not included here - the frontend should fetch a new token
+    // after login by calling /api/auth/csrf-token endpoint
+    // This ensures the token is generated with the correct session state
+    ...extra
+  });
+}
+
+// Remember the half-finished login in the session and ask for the second factor
+async function sendTwoFactorChallenge(req: Request, res: Response, userId: number, enrollmentRequired: boolean) {
+  const issuedAt = Date.now();
+  req.session.userId = undefined;
+  req.session.pendingTwoFactor = { userId, issuedAt, enrollmentRequired };
+  await new Promise<void>((resolve, reject) => {
+    req.session.save((err) => (err ? reject(err) : resolve()));
+  });
+
+  logger.info(`Login for user ${userId} waits for the second factor${enrollmentRequired ? ' (enrollment required)' : ''}`);
+  const challenge: TwoFactorChallenge = {
+    status: 'two_factor_required',
+    message: enrollmentRequired
+      ? 'Set up two-factor authentication to finish signing in'
+      : 'Enter the code from your authenticator app',
+    enrollmentRequired,
+    expiresAt: challengeExpiresAt(issuedAt).toISOString()
+  };
+  res.json(challenge);
+}
+
+// The pending second step of this session, or null when there is none or it expired
+function pendingChallenge(req: Request) {
+  const pending = req.session?.pendingTwoFactor;
+  if (!pending) return null;
+  if (isChallengeExpired(pending.issuedAt, new Date())) {
+    delete req.session.pendingTwoFactor;
+    return null;
+  }
+  return pending;
+}
+
+/**
+ * Second login step: an authenticator or recovery code, or the first code
+ * of an authenticator the policy made the user set up
+ */
+export async function verifyTwoFactorLogin(req: Request, res: Response) {
+  try {
+    const pending = pendingChallenge(req);
+    if (!pending) {
+      return res.status(401).json({ message: 'Your sign-in expired. Enter your password again.' });
+    }
+
+    const parsed = twoFactorLoginSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Enter the code from your authenticator app' });
+    }
+
+    const user = await getUserById(pending.userId);
+    if (!user || !user.isActive) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: 'Invalid credentials' });
+    }
+
+    const actor = { id: user.id, companyId: user.companyId ?? null, ipAddress: req.ip ?? null };
+    let method: string;
+    let extra: Record<string, unknown> = {};
+    try {
+      if (pending.enrollmentRequired) {
+        extra = { recoveryCodes: await twoFactorService.confirmEnrollment(user.id, { code: parsed.data.code }, actor) };
+        method = 'totp';
+      } else {
+        const result = await twoFactorService.verifySecondFactor(user.id, { code: parsed.data.code }, actor);
+        method = result.method;
+        extra = { recoveryCodesRemaining: result.recoveryCodesRemaining };
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        if (error.statusCode === 401 || error.statusCode === 429) {
+          logger.warn(`Second factor refused for user ${user.id}: ${error.message}`);
+        }
+        return res.status(error.statusCode).json({ message: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+
+    if (parsed.data.rememberDevice) {
+      const device = await twoFactorService.trustDevice(user.id, {
+        ipAddress: req.ip ?? null,
+        userAgent: req.headers['user-agent'] ?? null
+      });
+      if (device) {
+        res.cookie(TRUSTED_DEVICE_COOKIE, device.token, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'lax',
+          path: '/',
+          expires: device.expiresAt
+        });
+      }
+    }
+
+    await completeLogin(req, res, user, `password+${method}`, extra);
   } catch (error) {
-    logger.error('Login error:', error);
+    logger.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'An error occurred during login' });
+  }
+}
+
+// QR code and secret for users the policy makes set up two-factor while signing in
+export async function beginLoginEnrollment(req: Request, res: Response) {
+  try {
+    const pending = pendingChallenge(req);
+    if (!pending || !pending.enrollmentRequired) {
+      return res.status(401).json({ message: 'Your sign-in expired. Enter your password again.' });
+    }
+    const user = await getUserById(pending.userId);
+    if (!user || !user.isActive) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: 'Invalid credentials' });
+    }
+    res.json({ status: 'success', data: await twoFactorService.beginEnrollment(user.id) });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    logger.error('Two-factor enrollment error:', error);
     res.status(500).json({ message: 'An error occurred during login' });
   }
 }
@@ -550,10 +710,13 @@ function isPublicRoute(path: string): boolean {
     '/api/survey/start',    // Survey start endpoint
     '/api/survey/answer',   // Survey answer endpoint (allows anonymous)
     '/api/survey/complete', // Survey completion endpoint (allows anonymous)
+    '/api/survey/resume',   // Survey resume endpoint (resume token acts as the credential)
     '/api/survey/questions', // Survey questions endpoint
     '/api/survey/results',  // Survey results endpoint (allows anonymous for public surveys)
     '/api/templates',       // Template endpoints for public access
     '/api/reports/shared',  // Shared report endpoint (public access with token)
+    '/api/email/bounces',   // Mail provider bounce webhook (authenticated with a shared secret)
+    '/api/invitations',     // Team invitation accept page (the invitation token is the credential)
     // Add more public API routes as needed
   ];
 
@@ -141,7 +141,8 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createSurveyResponse(responseData: InsertSurveyResponse): Promise<SurveyResponse> {
+  // `tx` lets callers store the response inside their own transaction
+  async createSurveyResponse(responseData: InsertSurveyResponse, tx: any = db): Promise<SurveyResponse> {
     try {
       // Calculate response time if both start and complete times are available
       let responseTimeSeconds = null;
@@ -157,7 +158,7 @@ export class DatabaseStorage implements IStorage {
         console.log('Warning: Missing start or complete time, response_time_seconds will be null');
       }
 
-      const result = await db.insert(surveyResponses).values({
+      const result = await tx.insert(surveyResponses).values({
         companyId: responseData.companyId,
         surveyId: responseData.surveyId,
         respondentId: responseData.respondentId,
@@ -175,6 +176,11 @@ export class DatabaseStorage implements IStorage {
         userAgent: responseData.userAgent,
         source: responseData.source,
         referrer: responseData.referrer,
+        deploymentId: responseData.deploymentId ?? null,
+        language: responseData.language ?? null,
+        // Pin the response to the published version being answered
+        surveyVersionId: responseData.surveyVersionId ??
+          sql`(SELECT current_version_id FROM surveys WHERE id = ${responseData.surveyId})`,
         startTime: startTime,
         completionTimeSeconds: responseTimeSeconds,
         // Additional AI-derived fields
@@ -185,7 +191,7 @@ export class DatabaseStorage implements IStorage {
 
       // Update response_count in surveys table
       try {
-        await db.execute(sql`
+        await tx.execute(sql`
           UPDATE surveys 
           SET response_count = COALESCE(response_count, 0) + 1,
               updated_at = NOW()
@@ -196,6 +202,20 @@ export class DatabaseStorage implements IStorage {
         // Don't throw - response was saved successfully
       }
 
+      if (responseData.deploymentId) {
+        try {
+          await tx.execute(sql`
+            UPDATE client_survey_deployments
+            SET response_count = COALESCE(response_count, 0) + 1,
+                last_response_date = NOW(),
+                updated_at = NOW()
+            WHERE id = ${responseData.deploymentId}
+          `);
+        } catch (error) {
+          console.error('Error updating deployment response_count:', error);
+        }
+      }
+
       return result[0];
     } catch (error) {
       console.error('Error creating survey response:', error);
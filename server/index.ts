@@ -28,6 +28,7 @@ import csrfMiddleware from "./middleware/csrfMiddleware";
 import securityUtils from "./utils/security";
 import { apiSignatureMiddleware, apiSignatureDebugMiddleware } from "./middleware/apiSignatureMiddleware";
 import * as websocketRateLimiter from "./middleware/websocketRateLimiter";
+import { publicRoute } from "./middleware/permissionMiddleware";
 import { websocketManager } from "./utils/websocketManager";
 import { startSystemMetricsMonitoring, trackRequestStart, trackRequestEnd } from "./utils/performance";
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
@@ -39,6 +40,13 @@ import { monitorConnectionHealth } from './db'; // Import database health monito
 import { Logger } from './utils/Logger'; // Import the enhanced logger
 import { initializeNotificationService } from './services/notification-service'; // Import notification service
 import { initializeNotificationCleanup } from './jobs/notification-cleanup'; // Import notification cleanup job
+import { initializeSurveySessionCleanup } from './jobs/survey-session-cleanup'; // Import survey session cleanup job
+import { initializeBackupScheduler } from './jobs/backup-scheduler'; // Import scheduled backup job
+import { initializeEmailRetry } from './jobs/email-retry'; // Import failed email retry job
+import { initializeWebhookRetry } from './jobs/webhook-retry'; // Import webhook delivery retry job
+import { initializeIntegrationSync } from './jobs/integration-sync'; // Import scheduled integration sync job
+import { initializePermissionExpiry } from './jobs/permission-expiry'; // Import expired permission grant cleanup job
+import { initializeExportJobs } from './jobs/export-jobs'; // Import background response export job
 import { fixDatabaseSchema } from './scripts/fix-database-schema'; // Import database schema fix
 import { setNotificationService } from './middleware/event-tracker'; // Import event tracker setter
 
@@ -208,7 +216,7 @@ const csrfSkipPaths = [
 console.log("[Security] CSRF protection disabled - using basic authentication only");
 
 // CSRF token endpoint - returns empty response since CSRF is disabled
-app.get('/api/auth/csrf-token', async (req: Request, res: Response) => {
+app.get('/api/auth/csrf-token', publicRoute, async (req: Request, res: Response) => {
   res.json({
     status: 'success',
     csrfToken: null,
@@ -362,6 +370,27 @@ app.use((req, res, next) => {
   // Initialize notification cleanup job (runs daily at 2 AM)
   initializeNotificationCleanup();
 
+  // Initialize survey session cleanup job (marks idle sessions as abandoned)
+  initializeSurveySessionCleanup();
+
+  // Initialize backup scheduler (automatic backups and retention)
+  initializeBackupScheduler();
+
+  // Initialize email retry job (resends failed emails with backoff)
+  initializeEmailRetry();
+
+  // Initialize webhook retry job (resends queued and failed webhook deliveries with backoff)
+  initializeWebhookRetry();
+
+  // Initialize integration sync job (syncs integrations on their configured interval)
+  initializeIntegrationSync();
+
+  // Initialize permission expiry job (removes temporary permission grants once they expire)
+  initializePermissionExpiry();
+
+  // Initialize response export job (runs large exports in the background and deletes expired files)
+  initializeExportJobs();
+
   // Mount the WebSocket server on our HTTP server - with path check and rate limiting
   httpServer.on('upgrade', (request, socket, head) => {
     try {
@@ -0,0 +1,30 @@
+import cron from 'node-cron';
+import { backupService } from '../services/backup-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('BackupScheduler');
+
+/**
+ * Initialize scheduled backup job
+ * Runs hourly: takes the automatic backup due today (if any) and prunes
+ * automatic backups past the retention period
+ */
+export function initializeBackupScheduler(): void {
+  cron.schedule('5 * * * *', async () => {
+    try {
+      const backup = await backupService.runScheduledBackup();
+      if (backup) {
+        logger.info(`[BACKUP_JOB] Created automatic backup ${backup.id} (${backup.size}).`);
+      }
+
+      const expiredCount = await backupService.applyRetention();
+      if (expiredCount > 0) {
+        logger.info(`[BACKUP_JOB] Deleted ${expiredCount} automatic backups past retention.`);
+      }
+    } catch (error) {
+      logger.error('[BACKUP_JOB] Error during scheduled backup:', error);
+    }
+  });
+
+  logger.info('[BACKUP_JOB] Backup scheduler job scheduled hourly');
+}
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { emailDeliveryService } from '../services/email-delivery-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('EmailRetry');
+
+/**
+ * Initialize email retry job
+ * Runs every 5 minutes: resends failed emails whose backoff has elapsed
+ */
+export function initializeEmailRetry(): void {
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const { retried, sent } = await emailDeliveryService.retryDue();
+      if (retried > 0) {
+        logger.info(`[EMAIL_RETRY_JOB] Retried ${retried} failed emails, ${sent} sent.`);
+      }
+    } catch (error) {
+      logger.error('[EMAIL_RETRY_JOB] Error retrying failed emails:', error);
+    }
+  });
+
+  logger.info('[EMAIL_RETRY_JOB] Email retry job scheduled every 5 minutes');
+}
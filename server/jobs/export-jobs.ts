@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { responseExportService } from '../services/response-export-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('ExportJobs');
+
+/**
+ * Initialize response export job
+ * Runs every minute: runs queued background exports and deletes expired export files
+ */
+export function initializeExportJobs(): void {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const { ran, expired } = await responseExportService.processDue();
+      if (ran > 0 || expired > 0) {
+        logger.info(`[EXPORT_JOBS] Ran ${ran} exports, expired ${expired} export files.`);
+      }
+    } catch (error) {
+      logger.error('[EXPORT_JOBS] Error processing response exports:', error);
+    }
+  });
+
+  logger.info('[EXPORT_JOBS] Response export job scheduled every minute');
+}
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { integrationService } from '../services/integration-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('IntegrationSync');
+
+/**
+ * Initialize integration sync job
+ * Runs every 5 minutes: syncs integrations whose configured sync interval has elapsed
+ */
+export function initializeIntegrationSync(): void {
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const { synced, failed } = await integrationService.syncDue();
+      if (synced > 0 || failed > 0) {
+        logger.info(`[INTEGRATION_SYNC_JOB] Synced ${synced} integrations, ${failed} failed.`);
+      }
+    } catch (error) {
+      logger.error('[INTEGRATION_SYNC_JOB] Error syncing integrations:', error);
+    }
+  });
+
+  logger.info('[INTEGRATION_SYNC_JOB] Integration sync job scheduled every 5 minutes');
+}
@@ -0,0 +1,26 @@
+import cron from 'node-cron';
+import { permissionService } from '../services/permission-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('PermissionExpiry');
+
+/**
+ * Initialize permission expiry job
+ * Runs every 15 minutes: removes temporary user permission grants and denials
+ * whose expiry has passed. Expired overrides stop applying immediately; this
+ * only cleans them up.
+ */
+export function initializePermissionExpiry(): void {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const removed = await permissionService.removeExpiredOverrides();
+      if (removed > 0) {
+        logger.info(`[PERMISSION_EXPIRY_JOB] Removed ${removed} expired permission overrides.`);
+      }
+    } catch (error) {
+      logger.error('[PERMISSION_EXPIRY_JOB] Error removing expired permission overrides:', error);
+    }
+  });
+
+  logger.info('[PERMISSION_EXPIRY_JOB] Permission expiry job scheduled every 15 minutes');
+}
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { surveySessionService } from '../services/survey-session-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('SurveySessionCleanup');
+
+/**
+ * Initialize scheduled survey session cleanup job
+ * Runs every 15 minutes to mark idle in-progress sessions as abandoned
+ */
+export function initializeSurveySessionCleanup(): void {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const abandonedCount = await surveySessionService.markAbandonedSessions();
+      if (abandonedCount > 0) {
+        logger.info(`[CLEANUP_JOB] Marked ${abandonedCount} idle survey sessions as abandoned.`);
+      }
+    } catch (error) {
+      logger.error('[CLEANUP_JOB] Error during survey session cleanup:', error);
+    }
+  });
+
+  logger.info('[CLEANUP_JOB] Survey session cleanup job scheduled every 15 minutes');
+}
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { webhookService } from '../services/webhook-service';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('WebhookRetry');
+
+/**
+ * Initialize webhook retry job
+ * Runs every minute: resends queued and failed webhook deliveries whose backoff has elapsed
+ */
+export function initializeWebhookRetry(): void {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const { retried, delivered } = await webhookService.retryDue();
+      if (retried > 0) {
+        logger.info(`[WEBHOOK_RETRY_JOB] Retried ${retried} webhook deliveries, ${delivered} delivered.`);
+      }
+    } catch (error) {
+      logger.error('[WEBHOOK_RETRY_JOB] Error retrying webhook deliveries:', error);
+    }
+  });
+
+  logger.info('[WEBHOOK_RETRY_JOB] Webhook retry job scheduled every minute');
+}
@@ -33,12 +33,16 @@ const API_SIGNATURE_CONFIG = {
     '/api/survey/start',
     '/api/survey/answer',            // Add: Public survey answer
     '/api/survey/complete',          // Add: Public survey complete
+    '/api/survey/resume',            // Add: Public survey resume
     '/api/survey/questions',
     '/api/system/performance',
     '/api/demo-request',
     '/api/templates',
     '/api/newsletter',               // Add: Public newsletter
     '/api/cookie-consent',           // Add: Public cookie consent
+    '/api/email/bounces',            // Mail provider bounce webhook (shared secret)
+    '/api/invitations',              // Team invitation accept page (token)
+    '/api/privacy',                  // Data subject requests (email verification token)
     '/health'
   ],
   
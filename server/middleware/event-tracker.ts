@@ -1,4 +1,6 @@
 import { Logger } from '../utils/Logger';
+import { webhookService } from '../services/webhook-service';
+import { isWebhookEvent } from '../../shared/webhooks';
 
 const logger = new Logger('EventTracker');
 
@@ -133,7 +135,8 @@ export const TRACKED_EVENTS = {
 export type EventType = keyof typeof TRACKED_EVENTS;
 
 /**
- * Track an event and create an admin notification
+ * Track an event, create an admin notification and, when the data names a
+ * company, deliver it to that company's webhook subscriptions
  * @param eventType - Type of event that occurred
  * @param data - Event-specific data
  * @param userId - ID of user who triggered the event
@@ -153,6 +156,12 @@ export async function trackEvent(
       return;
     }
 
+    if (data?.companyId && isWebhookEvent(eventType)) {
+      await webhookService.dispatch(data.companyId, eventType, data).catch(error => {
+        logger.error(`[TRACK_EVENT] Error queueing webhooks for ${eventType}:`, error);
+      });
+    }
+
     const { title, message } = eventConfig.getTitleMessage(data);
 
     // Get notification service (lazy loaded to avoid timing issues)
@@ -200,11 +209,12 @@ export async function trackSurveyCreated(
   surveyId: number,
   surveyName: string,
   createdBy: string,
-  userId: number
+  userId: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'SURVEY_CREATED',
-    { name: surveyName, createdBy },
+    { surveyId, name: surveyName, createdBy, companyId },
     userId,
     `/surveys/${surveyId}`
   );
@@ -216,11 +226,12 @@ export async function trackSurveyCreated(
 export async function trackSurveyUpdated(
   surveyId: number,
   surveyName: string,
-  userId: number
+  userId: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'SURVEY_UPDATED',
-    { name: surveyName },
+    { surveyId, name: surveyName, companyId },
     userId,
     `/surveys/${surveyId}`
   );
@@ -231,9 +242,11 @@ export async function trackSurveyUpdated(
  */
 export async function trackSurveyDeleted(
   surveyName: string,
-  userId: number
+  userId: number,
+  surveyId?: number,
+  companyId?: number | null
 ): Promise<void> {
-  await trackEvent('SURVEY_DELETED', { name: surveyName }, userId);
+  await trackEvent('SURVEY_DELETED', { surveyId, name: surveyName, companyId }, userId);
 }
 
 /**
@@ -242,11 +255,12 @@ export async function trackSurveyDeleted(
 export async function trackSurveyPublished(
   surveyId: number,
   surveyName: string,
-  userId: number
+  userId: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'SURVEY_PUBLISHED',
-    { name: surveyName },
+    { surveyId, name: surveyName, companyId },
     userId,
     `/surveys/${surveyId}`
   );
@@ -257,26 +271,46 @@ export async function trackSurveyPublished(
  */
 export async function trackResponseSubmitted(
   surveyId: number,
-  surveyName: string
+  surveyName: string,
+  responseId?: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'RESPONSE_SUBMITTED',
-    { surveyName },
+    { surveyId, surveyName, responseId, companyId },
     undefined,
     `/surveys/${surveyId}/responses`
   );
 }
 
+/**
+ * Convenience function to track an AI job starting
+ */
+export async function trackAIJobStarted(
+  jobId: number,
+  surveyId: number,
+  companyId?: number | null
+): Promise<void> {
+  await trackEvent(
+    'AI_JOB_STARTED',
+    { jobId, surveyId, surveyCount: 1, companyId },
+    undefined,
+    `/ai-jobs/${jobId}`
+  );
+}
+
 /**
  * Convenience function to track AI job completion
  */
 export async function trackAIJobCompleted(
   jobId: number,
-  processedCount: number
+  processedCount: number,
+  surveyId?: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'AI_JOB_COMPLETED',
-    { processedCount },
+    { jobId, surveyId, processedCount, companyId },
     undefined,
     `/ai-jobs/${jobId}`
   );
@@ -287,11 +321,13 @@ export async function trackAIJobCompleted(
  */
 export async function trackAIJobFailed(
   jobId: number,
-  error: string
+  error: string,
+  surveyId?: number,
+  companyId?: number | null
 ): Promise<void> {
   await trackEvent(
     'AI_JOB_FAILED',
-    { error },
+    { jobId, surveyId, error, companyId },
     undefined,
     `/ai-jobs/${jobId}`
   );
@@ -0,0 +1,124 @@
+/**
+ * Permission Middleware
+ *
+ * Route guards built on the permission catalogue in shared/permissions.ts.
+ * Every API route is registered with exactly one guard; the guard's `access`
+ * property records what the route requires so the route table can be checked.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { users } from '../../shared/schema';
+import { ALL_PERMISSIONS, PermissionName } from '../../shared/permissions';
+import { permissionService, PermissionSubject } from '../services/permission-service';
+import { isPlatformAdminRequest } from '../utils/surveyAccess';
+import { sendClientError, sendServerError, ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('PermissionMiddleware');
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Effective permissions of the session user, set by permission guards
+      permissions?: Set<PermissionName>;
+    }
+  }
+}
+
+// What a route requires: nothing, a signed-in user, or a permission
+export type RouteAccess = 'public' | 'authenticated' | PermissionName;
+
+export interface PermissionGuard extends RequestHandler {
+  access: RouteAccess;
+}
+
+const guard = (access: RouteAccess, handler: RequestHandler): PermissionGuard =>
+  Object.assign(handler, { access });
+
+async function loadSubject(req: Request): Promise<PermissionSubject | null> {
+  if (!req.session?.userId) return null;
+  if (req.user?.id === req.session.userId && req.user.role) {
+    return { id: req.user.id, role: req.user.role };
+  }
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, req.session.userId),
+    columns: { id: true, role: true }
+  });
+  return user ?? null;
+}
+
+/**
+ * Resolve and cache the request's permissions. Returns null when nobody is
+ * signed in.
+ */
+export async function loadRequestPermissions(req: Request): Promise<Set<PermissionName> | null> {
+  if (req.permissions) return req.permissions;
+
+  // Permissions come from the session user alone; request headers never grant any
+  const subject = await loadSubject(req);
+  if (!subject) return null;
+
+  req.permissions = isPlatformAdminRequest(req, subject)
+    ? new Set(ALL_PERMISSIONS)
+    : await permissionService.permissionsFor(subject);
+  return req.permissions;
+}
+
+/**
+ * Whether a guard already resolved the permission for this request. Handlers
+ * use this for checks that depend on the record, e.g. approving any review.
+ */
+export function hasRequestPermission(req: Request, permission: PermissionName): boolean {
+  return req.permissions?.has(permission) ?? false;
+}
+
+/**
+ * Require the session user to hold a permission; sends 401 without a session
+ * and 403 without the permission
+ */
+export function requirePermission(permission: PermissionName): PermissionGuard {
+  return guard(permission, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const permissions = await loadRequestPermissions(req);
+      if (!permissions) {
+        return sendClientError(res, 'Authentication required', 401, undefined, ErrorCodes.UNAUTHORIZED);
+      }
+      if (!permissions.has(permission)) {
+        logger.warn('Permission denied', {
+          path: req.path,
+          method: req.method,
+          userId: req.session?.userId,
+          permission
+        });
+        return sendClientError(
+          res,
+          'Access denied. You do not have permission to do this.',
+          403,
+          { permission: [permission] },
+          ErrorCodes.FORBIDDEN
+        );
+      }
+      next();
+    } catch (error) {
+      logger.error('Failed to resolve permissions:', error);
+      return sendServerError(res, 'Failed to check permissions', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+}
+
+/**
+ * Any signed-in user; the handler scopes what they can see
+ */
+export const requireSignedIn = guard('authenticated', (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session?.userId) {
+    return sendClientError(res, 'Authentication required', 401, undefined, ErrorCodes.UNAUTHORIZED);
+  }
+  next();
+});
+
+/**
+ * Open to anyone: survey taking, public content, webhooks with their own credentials
+ */
+export const publicRoute = guard('public', (_req: Request, _res: Response, next: NextFunction) => next());
@@ -4,11 +4,13 @@ import { newsletterSubscribers } from '../shared/schema';
 import { insertNewsletterSubscriberSchema } from '../shared/schema';
 import { eq } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
+import { isValidNewsletterUnsubscribeToken } from './services/emailService';
+import { publicRoute } from './middleware/permissionMiddleware';
 
 const router = express.Router();
 
 // Subscribe to newsletter
-router.post('/subscribe', async (req: Request, res: Response) => {
+router.post('/subscribe', publicRoute, async (req: Request, res: Response) => {
   try {
     const { email, name } = req.body;
     
@@ -94,7 +96,7 @@ router.post('/subscribe', async (req: Request, res: Response) => {
 });
 
 // Unsubscribe from newsletter
-router.post('/unsubscribe', async (req: Request, res: Response) => {
+router.post('/unsubscribe', publicRoute, async (req: Request, res: Response) => {
   try {
     const { email, token } = req.body;
     
@@ -138,4 +140,29 @@ router.post('/unsubscribe', async (req: Request, res: Response) => {
   }
 });
 
+// One-click unsubscribe link from newsletter emails
+router.get('/unsubscribe', publicRoute, async (req: Request, res: Response) => {
+  try {
+    const email = typeof req.query.email === 'string' ? req.query.email : '';
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    if (!email || !token || !isValidNewsletterUnsubscribeToken(email, token)) {
+      return res.status(400).type('text/plain').send('This unsubscribe link is invalid.');
+    }
+
+    await db.update(newsletterSubscribers)
+      .set({
+        subscribed: false,
+        unsubscribedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(newsletterSubscribers.email, email));
+
+    res.status(200).type('text/plain').send('You have been unsubscribed from our newsletter.');
+  } catch (error) {
+    console.error('Error unsubscribing from newsletter link:', error);
+    res.status(500).type('text/plain').send('An error occurred while processing your request. Please try again.');
+  }
+});
+
 export default router;
\ No newline at end of file
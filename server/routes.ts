@@ -1,4 +1,4 @@
-import { Express, Request, Response } from 'express';
+import express, { Express, Request, Response } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import { IStorage } from './storage';
 import os from 'os';
@@ -8,21 +8,69 @@ import {
   SystemUpdateData, 
   SurveyAnalyticsUpdateData,
   SurveyResponseReceivedData,
+  QuotaUpdateData,
   CollaborationUserData
 } from '../shared/websocket-types';
+import type { SurveyQuotaReport } from '../shared/quotas';
+import { INTEGRATION_PROVIDERS } from '../shared/integrations';
+import { Permission } from '../shared/permissions';
+import { isOwnerRole } from '../shared/team';
+import { DEFAULT_TWO_FACTOR_POLICY, TRUSTED_DEVICE_COOKIE } from '../shared/twoFactor';
 import * as errorLogger from './utils/errorLogger';
+import { AppError } from './middleware/errorHandler';
+import { requirePermission, requireSignedIn, publicRoute, loadRequestPermissions, hasRequestPermission } from './middleware/permissionMiddleware';
+import { loadAccessibleSurvey, requirePlatformAdmin, requireSessionUser, requireCompanyScope, requireCompanyFilter, isPlatformAdminRequest, isApproverRequest, canAccessCompany } from './utils/surveyAccess';
 import { db, pool, executeWithRetry } from './db';
 import { addSurveyBIEndpoints } from './survey-bi-endpoints';
-import { backups, surveys, companies, systemSettings, licenses, insertLicenseSchema, newsletterSubscribers, cookieConsents, insertCookieConsentSchema, users, blogCategories, blogArticles, templates, templateQuestions, surveyQuestions, Template, demoRequests, supportTickets, supportTicketComments, userActivityLogs, userSessions, businessContexts, aiGenerationJobs, surveyResponses, invoices, paymentTransactions, subscriptions, surveyFlags } from '../shared/schema';
+import { backups, surveys, companies, systemSettings, licenses, insertLicenseSchema, newsletterSubscribers, cookieConsents, insertCookieConsentSchema, users, blogCategories, blogArticles, templates, templateQuestions, surveyQuestions, Template, demoRequests, supportTickets, supportTicketComments, userActivityLogs, userSessions, businessContexts, aiGenerationJobs, surveyResponses, invoices, paymentTransactions, subscriptions, surveyFlags, surveySessions, SurveySessionStatus, SystemBackup, EmailDeliveryStatus } from '../shared/schema';
 import { z } from 'zod';
-import { sql, eq, or, asc, desc, and, ne, gt, inArray } from 'drizzle-orm';
+import { sql, eq, or, asc, desc, and, ne, gt, inArray, isNotNull } from 'drizzle-orm';
 import * as performance from './utils/performance';
-import { sendSuccess, sendServerError, sendClientError, ErrorCodes } from './utils/apiResponses';
+import { sendSuccess, sendServerError, sendClientError, sendLimitExceeded, ErrorCodes } from './utils/apiResponses';
 import * as bcrypt from 'bcrypt';
 import GeminiAIService, { BatchTiming, analyzeSurveyResponse } from './services/gemini-ai-service';
 import { analyzeTrends } from './services/trend-analysis-service';
 import { notificationService } from './services/notification-service';
-import { trackEvent, trackUserSignup, trackSurveyCreated, trackSurveyDeleted, trackResponseSubmitted, trackSystemError } from './middleware/event-tracker';
+import { surveySessionService, EPHEMERAL_SESSION_PREFIX } from './services/survey-session-service';
+import { traitModelService } from './services/trait-model-service';
+import { psychometricsService } from './services/psychometrics-service';
+import { questionStatsService } from './services/question-stats-service';
+import { quotaService } from './services/quota-service';
+import { surveyVersionService } from './services/survey-version-service';
+import { surveyTranslationService } from './services/survey-translation-service';
+import { translationPipelineService } from './services/translation-pipeline-service';
+import { dataSubjectRequestService } from './services/data-subject-request-service';
+import { backupService, BackupType, getBackupDirectory } from './services/backup-service';
+import { sharedReportService } from './services/shared-report-service';
+import { emailDeliveryService } from './services/email-delivery-service';
+import { webhookService } from './services/webhook-service';
+import { integrationService } from './services/integration-service';
+import { approvalService } from './services/approval-service';
+import { permissionService } from './services/permission-service';
+import { teamService } from './services/team-service';
+import { twoFactorService } from './services/two-factor-service';
+import { pdfReportService } from './services/pdf-report-service';
+import { responseExportService, exportFileName, streamSink, ExportSurvey } from './services/response-export-service';
+import { EntitlementError, entitlementService } from './services/entitlement-service';
+import { getBaseUrl, sendNewsletterEmail, sendSupportTicketUpdateEmail } from './services/emailService';
+import { EMAIL_PREVIEW_DATA, EMAIL_TEMPLATES, EmailTemplate, SUPPORTED_EMAIL_LOCALES, renderEmail, resolveEmailLocale } from './utils/emailTemplates';
+import { TraitModel, DEFAULT_TRAIT_MODEL, resolveTraitModel, normalizeTraitScores, summarizeTraitScores } from '../shared/traitModel';
+import { DIRECT_EXPORT_ROW_LIMIT, RESPONSE_EXPORT_CONTENT_TYPES, ResponseExportRequest } from '../shared/responseExports';
+import { resolveDisplayLogic } from '../shared/questionLogic';
+import { buildSurveySnapshot } from '../shared/surveyVersions';
+import {
+  DEFAULT_TRANSLATION_PUBLISH_THRESHOLD,
+  canonicalizeAnswer,
+  chooseSurveyLanguage,
+  localizeQuestion,
+  localizeSurveyContent,
+  parseQuestionTranslations,
+  parseSurveyContentTranslations,
+  surveyLanguages
+} from '../shared/surveyTranslations';
+import { generateCSV, pruneHiddenAnswers, validateQuestionConfigs, validateSurveyResponse } from './utils/surveyUtils';
+import { hasTraitWeights, scoreTraits } from './utils/traitScoring';
+import { trackEvent, trackUserSignup, trackSurveyCreated, trackSurveyUpdated, trackSurveyPublished, trackSurveyDeleted, trackResponseSubmitted, trackAIJobStarted, trackAIJobCompleted, trackAIJobFailed, trackSystemError } from './middleware/event-tracker';
 // import { initDatabaseServices } from './services';
 import collaborationRouter from './routes/collaboration';
 import { demoDataRouter } from './routes/demoData';
@@ -95,6 +143,10 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
       })
       .where(eq(aiGenerationJobs.id, jobId));
 
+    await trackAIJobStarted(jobId, surveyId, survey?.companyId).catch(err => {
+      console.error('Failed to track AI job start event:', err);
+    });
+
     // Broadcast initial status update
     broadcastAIJobUpdate(surveyId, {
       id: jobId.toString(),
@@ -134,6 +186,10 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
       collectIncome: survey.collectIncome
     };
 
+    // Weighted surveys score generated answers by rules, like real submissions
+    const traitModel = resolveTraitModel(survey.traitModel);
+    const ruleScored = hasTraitWeights(traitModel, questions);
+
     // Save and broadcast as each batch completes
     let generatedCount = 0;
     let saveChain: Promise<void> = Promise.resolve();
@@ -162,6 +218,9 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
               const completionTimeSeconds = Math.round(
                 (responseData.completeTime.getTime() - responseData.startTime.getTime()) / 1000
               );
+              if (ruleScored) {
+                responseData.traits = scoreTraits(traitModel, questions, responseData.responses).traits;
+              }
               // Derive dashboard fields for AI-generated responses
               let enrich: any = null;
               try {
@@ -256,7 +315,8 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
 
           console.log(`Batch ${batchIndex + 1} completed: ${generatedCount}/${count} responses generated (${progress}%) - ${batchTiming?.batchDurationMs || 0}ms`);
         });
-      }
+      },
+      traitModel
     );
 
     // Ensure all pending saves are flushed
@@ -301,6 +361,10 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
       timestamp: new Date().toISOString()
     });
 
+    await trackAIJobCompleted(jobId, generatedCount, surveyId, survey?.companyId).catch(err => {
+      console.error('Failed to track AI job completion event:', err);
+    });
+
     console.log(`AI generation completed for survey ${surveyId}: ${generatedCount}/${count} responses generated`);
 
   } catch (error) {
@@ -328,6 +392,10 @@ async function generateAIResponses(jobId: number, surveyId: number, count: numbe
       completedAt: new Date().toISOString(),
       createdAt: new Date().toISOString()
     });
+
+    await trackAIJobFailed(jobId, error instanceof Error ? error.message : 'Unknown error', surveyId, survey?.companyId).catch(err => {
+      console.error('Failed to track AI job failure event:', err);
+    });
   }
 }
 
@@ -371,6 +439,22 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     });
   };
   
+  // Push quota fill levels to dashboards; the report is loaded when not given
+  const broadcastQuotaUpdate = async (surveyId: number, companyId?: number | null, report?: SurveyQuotaReport) => {
+    try {
+      const message: QuotaUpdateData = {
+        type: 'quotaUpdate',
+        surveyId,
+        companyId: companyId ?? undefined,
+        report: report ?? await quotaService.getSurveyQuotaReport(surveyId),
+        timestamp: new Date().toISOString()
+      };
+      websocketManager.broadcast(message);
+    } catch (error) {
+      console.error(`Failed to broadcast quota update for survey ${surveyId}:`, error);
+    }
+  };
+
   // Set up periodic system metrics broadcasting
   let systemUpdateInterval: NodeJS.Timeout | null = null;
   
@@ -485,14 +569,22 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
             return;
           }
           
-          // Add participant to session
-          const connectionId = collaborationManager?.addParticipant(
+          // Add participant to session, loading its saved changes and comments
+          const connectionId = await collaborationManager?.addParticipant(
             parseInt(sessionId.toString()),
             parseInt(userId.toString()),
             username,
             ws
           );
           
+          if (!connectionId) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              message: 'Collaboration session not found'
+            }));
+            return;
+          }
+          
           // Send confirmation with the connection ID
           ws.send(JSON.stringify({
             type: 'collaborationConnectionSuccess',
@@ -502,7 +594,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           
           // Sync the participant with current session state
           if (collaborationManager && connectionId) {
-            collaborationManager.syncParticipant(connectionId);
+            await collaborationManager.syncParticipant(connectionId);
           }
         } 
         else if (parsedMessage.type === 'collaborationUpdate') {
@@ -550,11 +642,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
               timestamp: new Date().toISOString()
             }));
           } 
-          else if (action === 'ADD_QUESTION' || action === 'UPDATE_QUESTION' || 
-                   action === 'DELETE_QUESTION' || action === 'ADD_QUESTION_OPTION' ||
-                   action === 'UPDATE_QUESTION_OPTION' || action === 'DELETE_QUESTION_OPTION' ||
-                   action === 'LOCK_ELEMENT' || action === 'UNLOCK_ELEMENT' ||
-                   action === 'CREATE_VERSION' || action === 'SWITCH_VERSION' ||
+          else if (action === 'CREATE_VERSION' || action === 'SWITCH_VERSION' ||
                    action === 'REQUEST_REVIEW' || action === 'SUBMIT_REVIEW' ||
                    action === 'NOTIFICATION') {
             // Process survey-specific actions through the changes array
@@ -578,85 +666,16 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
                   // Update user status
                   collaborationManager?.updateParticipantStatus(connectionId, change.value);
                 } 
-                else if (change.field === 'change') {
-                  // Process document change
-                  collaborationManager?.processChange(connectionId, change.value);
-                } 
                 else if (change.field === 'comment') {
                   // Add comment
-                  collaborationManager?.addComment(connectionId, change.value);
+                  await collaborationManager?.addComment(connectionId, change.value);
                 }
                 else if (change.field === 'resolveComment') {
                   // Resolve a comment
-                  collaborationManager?.resolveComment(connectionId, change.value.commentId);
-                }
-                // Survey-specific actions
-                else if (change.field === 'addQuestion') {
-                  // Add a new survey question
-                  collaborationManager?.addSurveyQuestion(
-                    connectionId, 
-                    change.value.surveyId, 
-                    change.value.question, 
-                    change.value.position
-                  );
-                }
-                else if (change.field === 'updateQuestion') {
-                  // Update a survey question
-                  collaborationManager?.updateSurveyQuestion(
-                    connectionId, 
-                    change.value.questionId, 
-                    change.value.updates
-                  );
-                }
-                else if (change.field === 'deleteQuestion') {
-                  // Delete a survey question
-                  collaborationManager?.deleteSurveyQuestion(
-                    connectionId, 
-                    change.value.questionId
-                  );
-                }
-                else if (change.field === 'addQuestionOption') {
-                  // Add an option to a question
-                  collaborationManager?.addQuestionOption(
-                    connectionId,
-                    change.value.questionId,
-                    change.value.option,
-                    change.value.position
-                  );
-                }
-                else if (change.field === 'updateQuestionOption') {
-                  // Update an option in a question
-                  collaborationManager?.updateQuestionOption(
-                    connectionId,
-                    change.value.questionId,
-                    change.value.optionId,
-                    change.value.updates
-                  );
-                }
-                else if (change.field === 'deleteQuestionOption') {
-                  // Delete an option from a question
-                  collaborationManager?.deleteQuestionOption(
-                    connectionId,
-                    change.value.questionId,
-                    change.value.optionId
-                  );
-                }
-                else if (change.field === 'lockElement') {
-                  // Lock an element for editing
-                  collaborationManager?.lockElement(
-                    connectionId,
-                    change.value.elementType,
-                    change.value.elementId
-                  );
-                }
-                else if (change.field === 'unlockElement') {
-                  // Unlock an element
-                  collaborationManager?.unlockElement(
-                    connectionId,
-                    change.value.elementType,
-                    change.value.elementId
-                  );
+                  await collaborationManager?.resolveComment(connectionId, change.value.commentId);
                 }
+                // Survey edits and element locks go through the authenticated
+                // /api/collaboration/:sessionId/operations and /locks endpoints
                 else if (change.field === 'createVersion') {
                   // Create a new version
                   collaborationManager?.createVersion(
@@ -712,7 +731,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
             try {
               // Simply sync the participant with the current session state
               // This will fail if the connection doesn't exist
-              collaborationManager?.syncParticipant(connectionId);
+              await collaborationManager?.syncParticipant(connectionId);
               
               // Send confirmation
               ws.send(JSON.stringify({
@@ -756,7 +775,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     });
   });
   
-  app.get('/api/test/enhance-demo-account', async (_req: Request, res: Response) => {
+  app.get('/api/test/enhance-demo-account', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     console.log('Enhance demo account endpoint called');
     try {
       // Import the dedicated function for generating demo data
@@ -783,7 +802,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Settings endpoint (general alias for system settings)
-  app.get('/api/settings', async (_req: Request, res: Response) => {
+  app.get('/api/settings', requireSignedIn, async (_req: Request, res: Response) => {
     try {
       // Return same settings as system settings but with different format
       const systemSettings = {
@@ -795,10 +814,13 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           timeFormat: '12h',
           platformName: 'PersonalysisPro v2',
           supportEmail: 'newsupport@personalysispro.com',
-          defaultLanguage: 'en'
+          defaultLanguage: 'en',
+          translationPublishThreshold: DEFAULT_TRANSLATION_PUBLISH_THRESHOLD
         },
         security: {
-          mfaEnabled: true,
+          mfaEnforcement: DEFAULT_TWO_FACTOR_POLICY.enforcement,
+          mfaRequiredRoles: DEFAULT_TWO_FACTOR_POLICY.requiredRoles,
+          mfaTrustedDeviceDays: DEFAULT_TWO_FACTOR_POLICY.trustedDeviceDays,
           ipWhitelist: [],
           csrfProtection: true,
           passwordPolicy: {
@@ -852,7 +874,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // System settings endpoints
-  app.get('/api/system/settings', async (_req: Request, res: Response) => {
+  app.get('/api/system/settings', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       // Define default settings object
       const defaultSettings = {
@@ -867,7 +889,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           defaultLanguage: "en"
         },
         security: {
-          mfaEnabled: true,
+          mfaEnforcement: DEFAULT_TWO_FACTOR_POLICY.enforcement,
+          mfaRequiredRoles: DEFAULT_TWO_FACTOR_POLICY.requiredRoles,
+          mfaTrustedDeviceDays: DEFAULT_TWO_FACTOR_POLICY.trustedDeviceDays,
           ipWhitelist: [],
           csrfProtection: true,
           passwordPolicy: {
@@ -991,7 +1015,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
   
-  app.post('/api/system/settings', async (req: Request, res: Response) => {
+  app.post('/api/system/settings', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
     try {
       const settings = req.body;
       
@@ -1066,7 +1090,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
   
-  app.get('/api/system/metrics', async (_req: Request, res: Response) => {
+  app.get('/api/system/metrics', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       // Generate real system metrics using the performance metrics function
       const perfMetrics = generatePerformanceMetrics();
@@ -1326,7 +1350,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   startSystemMetricsUpdates();
 
   // System performance endpoint for detailed health monitoring
-  app.get('/api/system/performance', async (_req: Request, res: Response) => {
+  app.get('/api/system/performance', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       // Use the shared function to generate metrics
       const performanceMetrics = generatePerformanceMetrics();
@@ -1346,7 +1370,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   const { getRecentErrors, logError, clearRecentErrors } = errorLogger;
   
   // Endpoint to get system error logs
-  app.get('/api/system/errors', async (req: Request, res: Response) => {
+  app.get('/api/system/errors', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
     try {
       // Get filtering parameters
       const count = req.query.count ? parseInt(req.query.count as string) : 10;
@@ -1405,7 +1429,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Endpoint to clear error logs (admin only)
-  app.post('/api/system/errors/clear', async (_req: Request, res: Response) => {
+  app.post('/api/system/errors/clear', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       clearRecentErrors();
       
@@ -1424,7 +1448,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Test endpoint to generate a sample error (for testing error logging and tracking)
-  app.get('/api/system/test-error', async (req: Request, res: Response) => {
+  app.get('/api/system/test-error', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
     try {
       const errorType = req.query.type as string || 'generic';
       const throwError = req.query.throw === 'true'; // Control whether to throw the error
@@ -1571,7 +1595,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // Analytics endpoints
   
   // Company details endpoint
-  app.get('/api/company/:id', async (req: Request, res: Response) => {
+  app.get('/api/company/:id', requireSignedIn, async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -1604,7 +1628,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
 
       // Only allow access if user belongs to the company OR is an admin
-      if (user.companyId !== companyId && user.role !== 'admin') {
+      if (!canAccessCompany(req, user, companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied. You can only view your own company\'s data.'
@@ -1675,7 +1699,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Company usage endpoint
-  app.get('/api/company/:id/usage', async (req: Request, res: Response) => {
+  app.get('/api/company/:id/usage', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -1708,62 +1732,35 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
 
       // Only allow access if user belongs to the company OR is an admin
-      if (user.companyId !== companyId && user.role !== 'admin') {
+      if (!canAccessCompany(req, user, companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied. You can only view your own company\'s usage data.'
         });
       }
 
-      // Get company to fetch max limits
-      const company = await db.query.companies.findFirst({
-        where: eq(companies.id, companyId),
-        columns: { id: true, maxUsers: true, maxResponses: true }
-      });
-
-      if (!company) {
-        return res.status(404).json({
-          status: 'error',
-          message: 'Company not found'
-        });
-      }
-
-      // Count actual users for this company
-      const userCount = await db.select({ count: sql<number>`count(*)` })
-        .from(users)
-        .where(eq(users.companyId, companyId));
-
-      const actualUsers = Number(userCount[0]?.count || 0);
-
-      // Count actual responses for this company
-      const responseCount = await db.select({ count: sql<number>`count(*)` })
-        .from(surveyResponses)
-        .where(eq(surveyResponses.companyId, companyId));
-
-      const actualResponses = Number(responseCount[0]?.count || 0);
-
-      // Calculate usage percentages
-      const responseUsagePercent = company.maxResponses > 0 
-        ? Math.round((actualResponses / company.maxResponses) * 100)
-        : 0;
-
-      const userUsagePercent = company.maxUsers > 0
-        ? Math.round((actualUsers / company.maxUsers) * 100)
-        : 0;
+      // Effective limits of the company's license and subscription, with what it uses of each
+      const { entitlements, usage } = await entitlementService.getUsage(companyId);
 
       res.json({
         status: 'success',
         data: {
-          responseUsagePercent,
-          actualResponses,
-          maxResponses: company.maxResponses,
-          userUsagePercent,
-          actualUsers,
-          maxUsers: company.maxUsers,
-          availableUsers: Math.max(0, company.maxUsers - actualUsers)
+          entitlements,
+          usage,
+          // Flat fields of earlier clients; -1 stands for unlimited
+          responseUsagePercent: usage.responses.percent,
+          actualResponses: usage.responses.used,
+          maxResponses: usage.responses.limit ?? -1,
+          userUsagePercent: usage.seats.percent,
+          actualUsers: usage.seats.used,
+          maxUsers: usage.seats.limit ?? -1,
+          availableUsers: usage.seats.remaining ?? -1
         }
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error(`Error fetching company usage:`, error);
       res.status(500).json({
         status: 'error',
@@ -1774,7 +1771,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Company-level analytics endpoint
-  app.get('/api/company/:id/analytics', async (req: Request, res: Response) => {
+  app.get('/api/company/:id/analytics', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -1817,7 +1814,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
 
       // Only allow access if user belongs to the company OR is an admin
-      if (user.companyId !== companyId && user.role !== 'admin') {
+      if (!canAccessCompany(req, user, companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied. You can only view your own company\'s analytics.'
@@ -1852,7 +1849,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Survey-specific analytics endpoint
-  app.get('/api/surveys/:id/analytics', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/analytics', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -1892,11 +1889,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
 
       // Only allow access if user belongs to the survey's company OR is an admin/platform_admin
-      const isAdmin = user.role === 'admin' || user.role === 'platform_admin' || 
-                      req.headers['x-mock-admin'] === 'true' ||
-                      req.session?.userRole === 'platform_admin';
-      
-      if (user.companyId !== survey.companyId && !isAdmin) {
+      if (!canAccessCompany(req, user, survey.companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied. You can only view your own company\'s survey analytics.'
@@ -1974,185 +1967,588 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  // Trend Analysis Endpoints
+  // Per-question drop-off report built from persisted survey sessions
+  app.get('/api/surveys/:id/drop-off', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-  // Get company-level trends (all surveys)
-  app.get('/api/company/:id/trends', async (req, res) => {
+      const report = await surveySessionService.getDropOffReport(access.survey.id);
+      return sendSuccess(res, report);
+    } catch (error) {
+      console.error('Error building survey drop-off report:', error);
+      return sendServerError(res, 'Failed to build drop-off report', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Trait model (which traits are scored) for a survey
+  app.get('/api/surveys/:id/trait-model', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
     try {
-      const companyId = parseInt(req.params.id);
-      const timeframeParam = req.query.timeframe;
-      const timeframe = (req.query.timeframe as '30d' | '90d' | 'all') || 'all';
-      console.log(`[TRENDS ENDPOINT] timeframeParam=${timeframeParam}, final timeframe=${timeframe}`);
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      // Validate authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
+      return sendSuccess(res, {
+        surveyId: access.survey.id,
+        isDefault: !access.survey.traitModel,
+        traits: resolveTraitModel(access.survey.traitModel)
+      });
+    } catch (error) {
+      console.error('Error fetching survey trait model:', error);
+      return sendServerError(res, 'Failed to fetch trait model', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Get all surveys for this company
-      const companySurveys = await db.select()
-        .from(surveys)
-        .where(eq(surveys.companyId, companyId));
+  app.put('/api/surveys/:id/trait-model', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      if (!companySurveys.length) {
-        return res.json({
-          status: 'success',
-          data: {
-            hasEnoughData: false,
-            dataPoints: 0,
-            volumeTrend: {
-              dataPoints: [],
-              trend: 'stable',
-              growthRate: 0,
-              peakDate: new Date().toISOString().split('T')[0],
-              peakCount: 0,
-            },
-            traitEvolution: [],
-            demographicShifts: [],
-            qualityTrends: {
-              completionRate: [],
-              avgResponseTime: [],
-            },
-            insights: [
-              {
-                title: 'No Survey Data',
-                description: 'Create a survey and collect responses to see trend analysis.',
-                type: 'neutral',
-                confidence: 'high',
-              },
-            ],
-            recommendations: [],
-            message: 'No surveys found for this company.',
-          },
-        });
+      const traits = await traitModelService.updateSurveyTraitModel(access.survey.id, req.body?.traits);
+      return sendSuccess(res, { surveyId: access.survey.id, isDefault: false, traits }, 'Trait model updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error updating survey trait model:', error);
+      return sendServerError(res, 'Failed to update trait model', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Get survey IDs
-      const surveyIds = companySurveys.map((s: any) => s.id);
-      console.log(`[TRENDS DEBUG] Company ${companyId}: surveys=${companySurveys.length}, surveyIds=[${surveyIds.join(',')}]`);
-
-      // Fetch responses for all surveys
-      const rawResponses = await db.select()
-        .from(surveyResponses)
-        .where(inArray(surveyResponses.surveyId, surveyIds));
+  // Reliability of the trait items: Cronbach's alpha, item-total correlations, weak items
+  app.get('/api/surveys/:id/psychometrics', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      console.log(`[TRENDS DEBUG] Raw responses from DB: ${rawResponses.length} items`);
-      if (rawResponses.length > 0) {
-        console.log(`[TRENDS DEBUG] Sample response:`, JSON.stringify(rawResponses[0], null, 2).substring(0, 500));
+      const report = await psychometricsService.getSurveyReport(access.survey.id);
+      return sendSuccess(res, report);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error building psychometrics report:', error);
+      return sendServerError(res, 'Failed to build psychometrics report', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Transform responses to match trend analysis service expectations
-      const allResponses = rawResponses.map((r: any) => ({
-        ...r,
-        createdAt: r.completeTime || r.startTime || new Date(),
-        completionTimeSeconds: r.completeTime && r.startTime
-          ? Math.round((new Date(r.completeTime).getTime() - new Date(r.startTime).getTime()) / 1000)
-          : 0,
-      }));
+  // Per-question answer summaries, aggregated by each question's type
+  app.get('/api/surveys/:id/question-stats', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      console.log(`[TRENDS DEBUG] Transformed responses: ${allResponses.length} items`);
+      const stats = await questionStatsService.getSurveyStats(access.survey.id);
+      return sendSuccess(res, stats);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error building question stats:', error);
+      return sendServerError(res, 'Failed to build question stats', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      if (!allResponses.length) {
-        return res.json({
-          status: 'success',
-          data: {
-            hasEnoughData: false,
-            dataPoints: 0,
-            volumeTrend: {
-              dataPoints: [],
-              trend: 'stable',
-              growthRate: 0,
-              peakDate: new Date().toISOString().split('T')[0],
-              peakCount: 0,
-            },
-            traitEvolution: [],
-            demographicShifts: [],
-            qualityTrends: {
-              completionRate: [],
-              avgResponseTime: [],
-            },
-            insights: [
-              {
-                title: 'No Response Data',
-                description: 'Responses will appear here once users submit your surveys.',
-                type: 'neutral',
-                confidence: 'high',
-              },
-            ],
-            recommendations: [],
-            message: 'No responses collected yet.',
-          },
-        });
+  // Survey versions: immutable snapshots of settings and questions
+  app.get('/api/surveys/:id/versions', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const versions = await surveyVersionService.listVersions(access.survey.id);
+      return sendSuccess(res, versions);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error fetching survey versions:', error);
+      return sendServerError(res, 'Failed to fetch survey versions', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Debug logging
-      console.log(`[TRENDS] Company ${companyId}: Found ${companySurveys.length} surveys, ${allResponses.length} total responses`);
+  // Save the current settings and questions as a draft version
+  app.post('/api/surveys/:id/versions', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      // Analyze trends
-      const trendResult = await analyzeTrends(
-        allResponses,
-        timeframe,
-        {
-          productName: companySurveys[0]?.productName || undefined,
-          industry: companySurveys[0]?.industry || undefined,
-        }
+      const version = await surveyVersionService.createDraft(access.survey.id, req.body, access.user.id);
+      return sendSuccess(res, version, 'Draft version saved', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error saving survey version:', error);
+      return sendServerError(res, 'Failed to save survey version', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Publish the current settings and questions as a new version
+  app.post('/api/surveys/:id/versions/publish', requirePermission(Permission.PUBLISH_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      await approvalService.assertPublishable(access.survey);
+      const result = await surveyVersionService.publishWorkingCopy(access.survey.id, req.body, access.user.id);
+      return sendSuccess(
+        res,
+        result,
+        result.created ? 'Survey version published' : 'No changes since the current version',
+        result.created ? 201 : 200
       );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error publishing survey version:', error);
+      return sendServerError(res, 'Failed to publish survey version', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      console.log(`[TRENDS] Result: hasEnoughData=${trendResult.hasEnoughData}, dataPoints=${trendResult.dataPoints}`);
+  // Structural diff between two versions (?from=<versionId>&to=<versionId>)
+  app.get('/api/surveys/:id/versions/compare', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      res.json({
-        status: 'success',
-        data: trendResult,
-      });
+      const from = parseInt(String(req.query.from));
+      const to = parseInt(String(req.query.to));
+      if (isNaN(from) || isNaN(to)) {
+        return sendClientError(res, 'Both "from" and "to" version IDs are required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const diff = await surveyVersionService.compareVersions(access.survey.id, from, to);
+      return sendSuccess(res, diff);
     } catch (error) {
-      console.error('Error fetching company trends:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to analyze trends',
-        error: error instanceof Error ? error.message : String(error),
-      });
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error comparing survey versions:', error);
+      return sendServerError(res, 'Failed to compare survey versions', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
 
-  // Get survey-level trends
-  app.get('/api/surveys/:id/trends', async (req, res) => {
+  app.get('/api/surveys/:id/versions/:versionId', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
     try {
-      const surveyId = parseInt(req.params.id);
-      const timeframeParam = req.query.timeframe;
-      const timeframe = (req.query.timeframe as '30d' | '90d' | 'all') || 'all';
-      console.log(`[TRENDS ENDPOINT SURVEY] timeframeParam=${timeframeParam}, final timeframe=${timeframe}`);
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
 
-      // Validate authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return sendClientError(res, 'Invalid version ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
 
-      // Get survey details
-      const survey = await db.select()
-        .from(surveys)
-        .where(eq(surveys.id, surveyId))
-        .limit(1);
-
-      if (!survey.length) {
-        return res.status(404).json({
-          status: 'error',
-          message: 'Survey not found',
-        });
+      const version = await surveyVersionService.getVersion(access.survey.id, versionId);
+      return sendSuccess(res, version);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error fetching survey version:', error);
+      return sendServerError(res, 'Failed to fetch survey version', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Fetch responses for this survey
+  // Make a draft version live
+  app.post('/api/surveys/:id/versions/:versionId/publish', requirePermission(Permission.PUBLISH_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return sendClientError(res, 'Invalid version ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      await approvalService.assertPublishable(access.survey, versionId);
+      const version = await surveyVersionService.publishDraft(access.survey.id, versionId);
+      websocketManager.broadcast({
+        type: 'surveyUpdate',
+        surveyId: access.survey.id,
+        companyId: access.survey.companyId,
+        timestamp: new Date().toISOString()
+      });
+      return sendSuccess(res, version, 'Survey version published');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error publishing survey version:', error);
+      return sendServerError(res, 'Failed to publish survey version', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Copy an earlier version into a new draft
+  app.post('/api/surveys/:id/versions/:versionId/restore', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(versionId)) {
+        return sendClientError(res, 'Invalid version ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const version = await surveyVersionService.restoreVersion(access.survey.id, versionId, access.user.id);
+      return sendSuccess(res, version, 'Version restored as a new draft', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error restoring survey version:', error);
+      return sendServerError(res, 'Failed to restore survey version', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Survey translations: question, option and survey texts per language
+  app.get('/api/surveys/:id/translations', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      return sendSuccess(res, await surveyTranslationService.getTranslations(access.survey.id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error fetching survey translations:', error);
+      return sendServerError(res, 'Failed to fetch survey translations', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.put('/api/surveys/:id/translations', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const translations = await surveyTranslationService.updateTranslations(access.survey.id, req.body);
+      return sendSuccess(res, translations, 'Translations saved');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error saving survey translations:', error);
+      return sendServerError(res, 'Failed to save survey translations', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Machine-translate a language's missing texts as drafts for review
+  app.post('/api/surveys/:id/translations/:language/drafts', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const aiLimit = await entitlementService.checkFeature(access.survey.companyId, 'aiInsights');
+      if (aiLimit) {
+        return sendLimitExceeded(res, aiLimit);
+      }
+
+      const result = await translationPipelineService.draftTranslations(access.survey.id, req.params.language, {
+        includeStale: req.body?.includeStale === true
+      });
+      return sendSuccess(res, result, result.drafted > 0 ? `Drafted ${result.drafted} translations` : 'Nothing left to translate');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error drafting survey translations:', error);
+      return sendServerError(res, 'Failed to draft survey translations', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.post('/api/surveys/:id/translations/:language/publish', requirePermission(Permission.PUBLISH_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const translations = await translationPipelineService.publishLanguage(access.survey.id, req.params.language);
+      return sendSuccess(res, translations, 'Language published');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error publishing survey language:', error);
+      return sendServerError(res, 'Failed to publish survey language', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.post('/api/surveys/:id/translations/:language/unpublish', requirePermission(Permission.PUBLISH_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const translations = await translationPipelineService.unpublishLanguage(access.survey.id, req.params.language);
+      return sendSuccess(res, translations, 'Language unpublished');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error unpublishing survey language:', error);
+      return sendServerError(res, 'Failed to unpublish survey language', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Survey reviews: approvals the company's workflow requires before publishing
+  app.get('/api/surveys/:id/reviews', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      return sendSuccess(res, await approvalService.listReviews(access.survey.id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error fetching survey reviews:', error);
+      return sendServerError(res, 'Failed to fetch survey reviews', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Request a review: { sessionId, title, notes?, versionId?, reviewerIds? }
+  app.post('/api/surveys/:id/reviews', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const review = await approvalService.requestReview(access.survey, req.body, {
+        id: access.user.id,
+        isApprover: isApproverRequest(req, access.user),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, review, 'Review requested', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error requesting survey review:', error);
+      return sendServerError(res, 'Failed to request survey review', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Approve or reject: { decision: 'approved' | 'rejected', comment? }
+  app.post('/api/surveys/:id/reviews/:reviewId/decision', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const reviewId = parseInt(req.params.reviewId);
+      if (isNaN(reviewId)) {
+        return sendClientError(res, 'Invalid review ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const review = await approvalService.decide(access.survey, reviewId, req.body, {
+        id: access.user.id,
+        isApprover: isApproverRequest(req, access.user),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, review, review.status === 'pending' ? 'Decision recorded' : `Review ${review.status}`);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error recording review decision:', error);
+      return sendServerError(res, 'Failed to record review decision', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.post('/api/surveys/:id/reviews/:reviewId/comments', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const reviewId = parseInt(req.params.reviewId);
+      if (isNaN(reviewId)) {
+        return sendClientError(res, 'Invalid review ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const comment = await approvalService.addComment(access.survey, reviewId, req.body, {
+        id: access.user.id,
+        isApprover: isApproverRequest(req, access.user),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, comment, 'Comment added', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error adding review comment:', error);
+      return sendServerError(res, 'Failed to add review comment', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.post('/api/surveys/:id/reviews/:reviewId/cancel', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const reviewId = parseInt(req.params.reviewId);
+      if (isNaN(reviewId)) {
+        return sendClientError(res, 'Invalid review ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const review = await approvalService.cancelReview(access.survey, reviewId, {
+        id: access.user.id,
+        isApprover: isApproverRequest(req, access.user),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, review, 'Review cancelled');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error cancelling survey review:', error);
+      return sendServerError(res, 'Failed to cancel survey review', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Whether the survey's current questions may be published
+  app.get('/api/surveys/:id/approval', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const [workflow, gate] = await Promise.all([
+        approvalService.getWorkflow(access.survey.companyId),
+        approvalService.publishGate(access.survey)
+      ]);
+      return sendSuccess(res, { workflow, gate });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error checking survey approval:', error);
+      return sendServerError(res, 'Failed to check survey approval', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Quota plans and fill levels for the survey and its client deployments
+  app.get('/api/surveys/:id/quotas', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const report = await quotaService.getSurveyQuotaReport(access.survey.id);
+      return sendSuccess(res, report);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error fetching survey quotas:', error);
+      return sendServerError(res, 'Failed to fetch survey quotas', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.put('/api/surveys/:id/quotas', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const report = await quotaService.updateSurveyQuotas(access.survey.id, req.body?.quotas);
+      broadcastQuotaUpdate(access.survey.id, access.survey.companyId, report);
+      return sendSuccess(res, report, 'Survey quotas updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating survey quotas:', error);
+      return sendServerError(res, 'Failed to update survey quotas', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.put('/api/surveys/:id/deployments/:deploymentId/quotas', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const deploymentId = parseInt(req.params.deploymentId);
+      if (isNaN(deploymentId)) {
+        return sendClientError(res, 'Invalid deployment ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const report = await quotaService.updateDeploymentQuotas(access.survey.id, deploymentId, req.body?.quotas);
+      broadcastQuotaUpdate(access.survey.id, access.survey.companyId, report);
+      return sendSuccess(res, report, 'Deployment quotas updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating deployment quotas:', error);
+      return sendServerError(res, 'Failed to update deployment quotas', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Trend Analysis Endpoints
+
+  // Get company-level trends (all surveys)
+  app.get('/api/company/:id/trends', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      const timeframeParam = req.query.timeframe;
+      const timeframe = (req.query.timeframe as '30d' | '90d' | 'all') || 'all';
+      console.log(`[TRENDS ENDPOINT] timeframeParam=${timeframeParam}, final timeframe=${timeframe}`);
+
+      // Validate authentication
+      if (!req.session || !req.session.userId) {
+        return res.status(401).json({
+          status: 'error',
+          message: 'Authentication required'
+        });
+      }
+
+      // Get all surveys for this company
+      const companySurveys = await db.select()
+        .from(surveys)
+        .where(eq(surveys.companyId, companyId));
+
+      if (!companySurveys.length) {
+        return res.json({
+          status: 'success',
+          data: {
+            hasEnoughData: false,
+            dataPoints: 0,
+            volumeTrend: {
+              dataPoints: [],
+              trend: 'stable',
+              growthRate: 0,
+              peakDate: new Date().toISOString().split('T')[0],
+              peakCount: 0,
+            },
+            traitEvolution: [],
+            demographicShifts: [],
+            qualityTrends: {
+              completionRate: [],
+              avgResponseTime: [],
+            },
+            insights: [
+              {
+                title: 'No Survey Data',
+                description: 'Create a survey and collect responses to see trend analysis.',
+                type: 'neutral',
+                confidence: 'high',
+              },
+            ],
+            recommendations: [],
+            message: 'No surveys found for this company.',
+          },
+        });
+      }
+
+      // Get survey IDs
+      const surveyIds = companySurveys.map((s: any) => s.id);
+      console.log(`[TRENDS DEBUG] Company ${companyId}: surveys=${companySurveys.length}, surveyIds=[${surveyIds.join(',')}]`);
+
+      // Fetch responses for all surveys
       const rawResponses = await db.select()
         .from(surveyResponses)
-        .where(eq(surveyResponses.surveyId, surveyId));
+        .where(inArray(surveyResponses.surveyId, surveyIds));
+
+      console.log(`[TRENDS DEBUG] Raw responses from DB: ${rawResponses.length} items`);
+      if (rawResponses.length > 0) {
+        console.log(`[TRENDS DEBUG] Sample response:`, JSON.stringify(rawResponses[0], null, 2).substring(0, 500));
+      }
 
       // Transform responses to match trend analysis service expectations
-      const responses = rawResponses.map((r: any) => ({
+      const allResponses = rawResponses.map((r: any) => ({
         ...r,
         createdAt: r.completeTime || r.startTime || new Date(),
         completionTimeSeconds: r.completeTime && r.startTime
@@ -2160,7 +2556,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           : 0,
       }));
 
-      if (!responses.length) {
+      console.log(`[TRENDS DEBUG] Transformed responses: ${allResponses.length} items`);
+
+      if (!allResponses.length) {
         return res.json({
           status: 'success',
           data: {
@@ -2182,7 +2580,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
             insights: [
               {
                 title: 'No Response Data',
-                description: 'Responses will appear here once users submit your survey.',
+                description: 'Responses will appear here once users submit your surveys.',
                 type: 'neutral',
                 confidence: 'high',
               },
@@ -2194,15 +2592,15 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
 
       // Debug logging
-      console.log(`[TRENDS] Survey ${surveyId}: Found ${responses.length} responses`);
+      console.log(`[TRENDS] Company ${companyId}: Found ${companySurveys.length} surveys, ${allResponses.length} total responses`);
 
       // Analyze trends
       const trendResult = await analyzeTrends(
-        responses,
+        allResponses,
         timeframe,
         {
-          productName: survey[0]?.productName || undefined,
-          industry: survey[0]?.industry || undefined,
+          productName: companySurveys[0]?.productName || undefined,
+          industry: companySurveys[0]?.industry || undefined,
         }
       );
 
@@ -2213,7 +2611,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         data: trendResult,
       });
     } catch (error) {
-      console.error('Error fetching survey trends:', error);
+      console.error('Error fetching company trends:', error);
       res.status(500).json({
         status: 'error',
         message: 'Failed to analyze trends',
@@ -2222,29 +2620,134 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  // Helper function to sanitize filename (remove special characters, replace spaces)
-  function sanitizeFilename(name: string): string {
-    return name
-      .replace(/[^a-z0-9]/gi, '-') // Replace non-alphanumeric with dash
-      .replace(/-+/g, '-') // Replace multiple dashes with single dash
-      .replace(/^-|-$/g, '') // Remove leading/trailing dashes
-      .toLowerCase()
-      .substring(0, 50); // Limit length
-  }
+  // Get survey-level trends
+  app.get('/api/surveys/:id/trends', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const timeframeParam = req.query.timeframe;
+      const timeframe = (req.query.timeframe as '30d' | '90d' | 'all') || 'all';
+      console.log(`[TRENDS ENDPOINT SURVEY] timeframeParam=${timeframeParam}, final timeframe=${timeframe}`);
 
-  // Helper function to generate Excel file with multiple sheets and formatting
-  async function generateExcelFile(exportData: any, title: string, id: number, isCompany: boolean = false, companyName?: string): Promise<Buffer> {
-    const workbook = new ExcelJS.Workbook();
-    workbook.creator = 'PersonalysisPro';
-    workbook.created = new Date();
-    workbook.modified = new Date();
+      // Validate authentication
+      if (!req.session || !req.session.userId) {
+        return res.status(401).json({
+          status: 'error',
+          message: 'Authentication required'
+        });
+      }
 
-    // Define styles
-    const headerStyle: Partial<ExcelJS.Style> = {
-      font: { bold: true, color: { argb: 'FFFFFFFF' }, size: 12 },
-      fill: {
-        type: 'pattern',
-        pattern: 'solid',
+      // Get survey details
+      const survey = await db.select()
+        .from(surveys)
+        .where(eq(surveys.id, surveyId))
+        .limit(1);
+
+      if (!survey.length) {
+        return res.status(404).json({
+          status: 'error',
+          message: 'Survey not found',
+        });
+      }
+
+      // Fetch responses for this survey
+      const rawResponses = await db.select()
+        .from(surveyResponses)
+        .where(eq(surveyResponses.surveyId, surveyId));
+
+      // Transform responses to match trend analysis service expectations
+      const responses = rawResponses.map((r: any) => ({
+        ...r,
+        createdAt: r.completeTime || r.startTime || new Date(),
+        completionTimeSeconds: r.completeTime && r.startTime
+          ? Math.round((new Date(r.completeTime).getTime() - new Date(r.startTime).getTime()) / 1000)
+          : 0,
+      }));
+
+      if (!responses.length) {
+        return res.json({
+          status: 'success',
+          data: {
+            hasEnoughData: false,
+            dataPoints: 0,
+            volumeTrend: {
+              dataPoints: [],
+              trend: 'stable',
+              growthRate: 0,
+              peakDate: new Date().toISOString().split('T')[0],
+              peakCount: 0,
+            },
+            traitEvolution: [],
+            demographicShifts: [],
+            qualityTrends: {
+              completionRate: [],
+              avgResponseTime: [],
+            },
+            insights: [
+              {
+                title: 'No Response Data',
+                description: 'Responses will appear here once users submit your survey.',
+                type: 'neutral',
+                confidence: 'high',
+              },
+            ],
+            recommendations: [],
+            message: 'No responses collected yet.',
+          },
+        });
+      }
+
+      // Debug logging
+      console.log(`[TRENDS] Survey ${surveyId}: Found ${responses.length} responses`);
+
+      // Analyze trends
+      const trendResult = await analyzeTrends(
+        responses,
+        timeframe,
+        {
+          productName: survey[0]?.productName || undefined,
+          industry: survey[0]?.industry || undefined,
+        }
+      );
+
+      console.log(`[TRENDS] Result: hasEnoughData=${trendResult.hasEnoughData}, dataPoints=${trendResult.dataPoints}`);
+
+      res.json({
+        status: 'success',
+        data: trendResult,
+      });
+    } catch (error) {
+      console.error('Error fetching survey trends:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to analyze trends',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  // Helper function to sanitize filename (remove special characters, replace spaces)
+  function sanitizeFilename(name: string): string {
+    return name
+      .replace(/[^a-z0-9]/gi, '-') // Replace non-alphanumeric with dash
+      .replace(/-+/g, '-') // Replace multiple dashes with single dash
+      .replace(/^-|-$/g, '') // Remove leading/trailing dashes
+      .toLowerCase()
+      .substring(0, 50); // Limit length
+  }
+
+  // Helper function to generate Excel file with multiple sheets and formatting
+  async function generateExcelFile(exportData: any, title: string, id: number, isCompany: boolean = false, companyName?: string): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'PersonalysisPro';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    // Define styles
+    const headerStyle: Partial<ExcelJS.Style> = {
+      font: { bold: true, color: { argb: 'FFFFFFFF' }, size: 12 },
+      fill: {
+        type: 'pattern',
+        pattern: 'solid',
         fgColor: { argb: 'FF2563EB' } // Blue
       },
       alignment: { horizontal: 'center' as const, vertical: 'middle' as const },
@@ -2324,10 +2827,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
       responsesSheet.getRow(currentMetadataRow++).getCell(1).value = `Total Responses: ${exportData.responses.length}`;
 
-      // Add headers
+      // Add headers, with one score column per trait when the export follows a trait model
+      const traitModel: TraitModel = exportData.traitModel || [];
       const headers = isCompany 
         ? ['ID', 'Survey ID', 'Respondent ID', 'Completed', 'Created At', 'Completed At', 'Satisfaction Score', 'Response Time (seconds)']
-        : ['ID', 'Respondent ID', 'Completed', 'Created At', 'Completed At', 'Satisfaction Score', 'Response Time (seconds)'];
+        : ['ID', 'Respondent ID', 'Completed', 'Created At', 'Completed At', 'Satisfaction Score', 'Response Time (seconds)', ...traitModel.map(t => t.name)];
       const headerRow = responsesSheet.getRow(currentMetadataRow);
       headers.forEach((header, index) => {
         const cell = headerRow.getCell(index + 1);
@@ -2355,6 +2859,13 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         row.getCell(colIndex++).numFmt = 'mm/dd/yyyy hh:mm:ss AM/PM';
         row.getCell(colIndex++).value = r.satisfactionScore || '';
         row.getCell(colIndex++).value = r.responseTimeSeconds || '';
+        if (!isCompany) {
+          // Leave the cell blank when a response was scored before the trait was added
+          traitModel.forEach(trait => {
+            const match = Array.isArray(r.traits) ? r.traits.find((t: any) => t?.name === trait.name) : undefined;
+            row.getCell(colIndex++).value = match ? match.score : '';
+          });
+        }
 
         headers.forEach((_, colIdx) => {
           row.getCell(colIdx + 1).style = rowStyle as Partial<ExcelJS.Style>;
@@ -2649,144 +3160,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     return Buffer.from(buffer);
   }
 
-  // Helper function to generate PDF HTML
-  function generatePDFHTML(exportData: any, title: string, id: number, isCompany: boolean = false, companyName?: string): string {
-    const date = new Date().toISOString().split('T')[0];
-    let html = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>${title} - Export Report</title>
-  <style>
-    body { font-family: Arial, sans-serif; margin: 40px; color: #333; }
-    h1 { color: #2563eb; border-bottom: 3px solid #2563eb; padding-bottom: 10px; }
-    h2 { color: #1e40af; margin-top: 30px; border-bottom: 2px solid #e5e7eb; padding-bottom: 5px; }
-    h3 { color: #374151; margin-top: 20px; }
-    table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-    th { background-color: #f3f4f6; padding: 12px; text-align: left; border: 1px solid #d1d5db; font-weight: bold; }
-    td { padding: 10px; border: 1px solid #d1d5db; }
-    tr:nth-child(even) { background-color: #f9fafb; }
-    .metadata { background-color: #eff6ff; padding: 15px; border-radius: 5px; margin: 20px 0; }
-    .section { margin: 30px 0; page-break-inside: avoid; }
-    .metric { display: inline-block; margin: 10px 20px 10px 0; padding: 10px 15px; background-color: #f0f9ff; border-left: 4px solid #2563eb; }
-    .metric-label { font-size: 12px; color: #6b7280; }
-    .metric-value { font-size: 24px; font-weight: bold; color: #1e40af; }
-    @media print { body { margin: 20px; } .section { page-break-inside: avoid; } }
-  </style>
-</head>
-<body>
-  <h1>${title} - Export Report</h1>
-  <div class="metadata">
-    <p><strong>Export Date:</strong> ${new Date().toLocaleString()}</p>
-    ${isCompany && companyName ? `<p><strong>Company:</strong> ${companyName}</p>` : ''}
-    ${!isCompany && companyName ? `<p><strong>Company:</strong> ${companyName}</p>` : ''}
-    <p><strong>${isCompany ? 'Company' : 'Survey'} ID:</strong> ${id}</p>
-  </div>`;
-
-    if (exportData.analytics) {
-      html += `
-  <div class="section">
-    <h2>Analytics Summary</h2>
-    <div class="metric">
-      <div class="metric-label">Total Responses</div>
-      <div class="metric-value">${exportData.analytics.totalResponses || 0}</div>
-    </div>
-    <div class="metric">
-      <div class="metric-label">Completion Rate</div>
-      <div class="metric-value">${(exportData.analytics.completionRate || 0).toFixed(1)}%</div>
-    </div>
-    <div class="metric">
-      <div class="metric-label">Avg Satisfaction</div>
-      <div class="metric-value">${(exportData.analytics.averageSatisfactionScore || 0).toFixed(1)}</div>
-    </div>
-  </div>`;
-    }
-
-    if (exportData.responses && exportData.responses.length > 0) {
-      html += `
-  <div class="section">
-    <h2>Survey Responses (${exportData.responses.length})</h2>
-    <table>
-      <thead>
-        <tr>
-          <th>ID</th>
-          <th>Respondent ID</th>
-          <th>Completed</th>
-          <th>Created At</th>
-          <th>Satisfaction Score</th>
-        </tr>
-      </thead>
-      <tbody>`;
-      exportData.responses.slice(0, 100).forEach((r: any) => {
-        html += `
-        <tr>
-          <td>${r.id}</td>
-          <td>${r.respondentId || 'N/A'}</td>
-          <td>${r.completed ? 'Yes' : 'No'}</td>
-          <td>${r.createdAt ? new Date(r.createdAt).toLocaleString() : 'N/A'}</td>
-          <td>${r.satisfactionScore || 'N/A'}</td>
-        </tr>`;
-      });
-      if (exportData.responses.length > 100) {
-        html += `
-        <tr><td colspan="5" style="text-align: center; font-style: italic;">... and ${exportData.responses.length - 100} more responses</td></tr>`;
-      }
-      html += `
-      </tbody>
-    </table>
-  </div>`;
-    }
-
-    if (exportData.demographics) {
-      html += `
-  <div class="section">
-    <h2>Demographics</h2>`;
-      if (exportData.demographics.genderDistribution && exportData.demographics.genderDistribution.length > 0) {
-        html += `
-    <h3>Gender Distribution</h3>
-    <table>
-      <thead><tr><th>Gender</th><th>Percentage</th></tr></thead>
-      <tbody>`;
-        exportData.demographics.genderDistribution.forEach((g: any) => {
-          html += `<tr><td>${g.label || g.gender || 'N/A'}</td><td>${g.value || g.percentage || 0}%</td></tr>`;
-        });
-        html += `</tbody></table>`;
-      }
-      if (exportData.demographics.ageDistribution && exportData.demographics.ageDistribution.length > 0) {
-        html += `
-    <h3>Age Distribution</h3>
-    <table>
-      <thead><tr><th>Age Range</th><th>Percentage</th></tr></thead>
-      <tbody>`;
-        exportData.demographics.ageDistribution.forEach((a: any) => {
-          html += `<tr><td>${a.range || 'N/A'}</td><td>${a.percentage || 0}%</td></tr>`;
-        });
-        html += `</tbody></table>`;
-      }
-      html += `</div>`;
-    }
-
-    if (exportData.traits && exportData.traits.length > 0) {
-      html += `
-  <div class="section">
-    <h2>Personality Traits</h2>
-    <table>
-      <thead><tr><th>Trait</th><th>Score</th><th>Category</th></tr></thead>
-      <tbody>`;
-      exportData.traits.forEach((t: any) => {
-        html += `<tr><td>${t.name || 'N/A'}</td><td>${t.score || 0}</td><td>${t.category || 'N/A'}</td></tr>`;
-      });
-      html += `</tbody></table></div>`;
-    }
-
-    html += `
-</body>
-</html>`;
-    return html;
-  }
-
   // Export survey data endpoint
-  app.get('/api/surveys/:id/export', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/export', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -2808,7 +3183,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       // Verify survey exists and user has access
       const survey = await db.query.surveys.findFirst({
         where: eq(surveys.id, surveyId),
-        columns: { id: true, companyId: true, title: true }
+        columns: { id: true, companyId: true, title: true, traitModel: true, customLogo: true }
       });
 
       if (!survey) {
@@ -2831,14 +3206,18 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
-      const isAdmin = user.role === 'admin' || user.role === 'platform_admin';
-      if (user.companyId !== survey.companyId && !isAdmin) {
+      if (!canAccessCompany(req, user, survey.companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied'
         });
       }
 
+      const exportLimit = await entitlementService.checkFeature(survey.companyId, 'dataExport');
+      if (exportLimit) {
+        return sendLimitExceeded(res, exportLimit);
+      }
+
       // Get company name for export
       const company = await storage.getCompany(survey.companyId);
       const companyName = company?.name || `Company ${survey.companyId}`;
@@ -2846,12 +3225,23 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       // Get analytics data
       const analyticsData = await storage.getSurveyAnalytics(surveyId);
       
-      // Get survey responses if needed
+      // Response rows are only loaded for reports small enough to hold them;
+      // larger surveys go through the streamed response export
       let responses: any[] = [];
       if (includeResponses) {
+        const responseCount = await responseExportService.countResponses(surveyId, true);
+        if (responseCount > DIRECT_EXPORT_ROW_LIMIT) {
+          return res.status(413).json({
+            status: 'error',
+            message: `This survey has ${responseCount} responses, more than a report can include (${DIRECT_EXPORT_ROW_LIMIT}). Export the responses as CSV or SPSS instead.`
+          });
+        }
         responses = await db.select().from(surveyResponses).where(eq(surveyResponses.surveyId, surveyId));
       }
 
+      // Trait columns and summaries follow the survey's trait model
+      const traitModel = resolveTraitModel(survey.traitModel);
+
       // Build export data object
       const exportData: any = {
         survey: {
@@ -2859,7 +3249,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           title: survey.title,
           companyName: companyName,
           exportDate: new Date().toISOString()
-        }
+        },
+        traitModel
       };
 
       if (includeResponses) {
@@ -2890,8 +3281,13 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         exportData.demographics = analyticsData.demographics;
       }
 
-      if (includeTraits && analyticsData?.topTraits) {
-        exportData.traits = analyticsData.topTraits;
+      if (includeTraits) {
+        const responseTraits = includeResponses
+          ? responses.map(r => r.traits)
+          : await responseExportService.collectTraits(surveyId);
+        if (responseTraits.length > 0) {
+          exportData.traits = summarizeTraitScores(traitModel, responseTraits);
+        }
       }
 
       if (includeBusinessContext && analyticsData?.businessContext) {
@@ -2918,16 +3314,18 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         res.setHeader('Content-Disposition', `attachment; filename=${sanitizedCompanyName}-${sanitizedSurveyTitle}-export-${dateStr}.xlsx`);
         return res.send(excelBuffer);
       } else if (format === 'pdf') {
-        // Generate PDF from HTML
-        const html = generatePDFHTML(exportData, survey.title, surveyId, false, companyName);
+        // The survey's own logo brands the report, falling back to the company's
+        const pdfBuffer = await pdfReportService.render({
+          kind: 'survey',
+          title: survey.title,
+          companyName,
+          subjectId: surveyId,
+          data: exportData,
+          logo: await pdfReportService.loadLogo(survey.customLogo || company?.logo)
+        });
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename=${sanitizedCompanyName}-${sanitizedSurveyTitle}-export-${dateStr}.pdf`);
-        
-        // For now, return HTML that can be printed to PDF by the browser
-        // In production, you'd use a library like puppeteer or pdfkit
-        // For this implementation, we'll return HTML with print styles that can be saved as PDF
-        res.setHeader('Content-Type', 'text/html');
-        return res.send(html);
+        return res.send(pdfBuffer);
       }
 
       return res.status(400).json({
@@ -2944,8 +3342,142 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
+  const streamResponseExport = async (res: Response, survey: ExportSurvey, request: ResponseExportRequest, fileName: string) => {
+    res.setHeader('Content-Type', RESPONSE_EXPORT_CONTENT_TYPES[request.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    try {
+      await responseExportService.writeExport(survey, request, streamSink(res));
+      res.end();
+    } catch (error) {
+      // Headers are gone once the first chunk is written; all that is left is cutting the download short
+      if (!res.headersSent) throw error;
+      console.error(`Error streaming response export of survey ${survey.id}:`, error);
+      res.destroy();
+    }
+  };
+
+  // Coded response export: wide CSV, SPSS .sav or the codebook. Streams the
+  // file, or queues a background job (202) when the survey is too large.
+  app.get('/api/surveys/:id/responses/export', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+      const { survey, user } = access;
+
+      const exportLimit = await entitlementService.checkFeature(survey.companyId, 'dataExport');
+      if (exportLimit) {
+        return sendLimitExceeded(res, exportLimit);
+      }
+
+      const request = responseExportService.parseQuery(req.query);
+      if (request.format !== 'codebook') {
+        const responseCount = await responseExportService.countResponses(survey.id, request.includeIncomplete);
+        if (req.query.background === 'true' || responseExportService.needsBackgroundJob(responseCount)) {
+          const job = await responseExportService.createJob(survey, user.id, request);
+          return sendSuccess(res, job, `This export of ${responseCount} responses is being prepared. You will be notified when it can be downloaded.`, 202);
+        }
+      }
+
+      return await streamResponseExport(res, survey, request, exportFileName(survey, request.format));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error exporting survey responses:', error);
+      return sendServerError(res, 'Failed to export survey responses', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Run a response export in the background whatever its size
+  app.post('/api/surveys/:id/responses/export-jobs', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
+    try {
+      const access = await loadAccessibleSurvey(req, res, req.params.id);
+      if (!access) return;
+
+      const exportLimit = await entitlementService.checkFeature(access.survey.companyId, 'dataExport');
+      if (exportLimit) {
+        return sendLimitExceeded(res, exportLimit);
+      }
+
+      const request = responseExportService.parseRequest(req.body);
+      const job = await responseExportService.createJob(access.survey, access.user.id, request);
+      return sendSuccess(res, job, 'Export started. You will be notified when it can be downloaded.', 202);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error starting response export:', error);
+      return sendServerError(res, 'Failed to start the export', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The session user's background exports, optionally for one survey
+  app.get('/api/export-jobs', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const surveyId = typeof req.query.surveyId === 'string' ? parseInt(req.query.surveyId) : undefined;
+      const jobs = await responseExportService.listJobs(user.id, surveyId !== undefined && !isNaN(surveyId) ? surveyId : undefined);
+      return sendSuccess(res, jobs);
+    } catch (error) {
+      console.error('Error fetching export jobs:', error);
+      return sendServerError(res, 'Failed to fetch exports', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Background exports are only visible to whoever requested them (and platform administrators)
+  const loadExportJob = async (req: Request, res: Response) => {
+    const user = await requireSessionUser(req, res);
+    if (!user) return null;
+
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      sendClientError(res, 'Invalid export ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      return null;
+    }
+
+    const job = await responseExportService.getJob(jobId);
+    if (job.requestedBy !== user.id && !isPlatformAdminRequest(req, user)) {
+      sendClientError(res, 'Export not found', 404, undefined, ErrorCodes.NOT_FOUND);
+      return null;
+    }
+    return job;
+  };
+
+  app.get('/api/export-jobs/:id', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
+    try {
+      const job = await loadExportJob(req, res);
+      if (!job) return;
+
+      return sendSuccess(res, await responseExportService.getJobSummary(job));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error fetching export job:', error);
+      return sendServerError(res, 'Failed to fetch export', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.get('/api/export-jobs/:id/download', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
+    try {
+      const job = await loadExportJob(req, res);
+      if (!job) return;
+
+      const file = await responseExportService.downloadPath(job);
+      return res.download(file.filePath, file.fileName);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error downloading export:', error);
+      return sendServerError(res, 'Failed to download export', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
   // Export company data endpoint
-  app.get('/api/company/:id/export', async (req: Request, res: Response) => {
+  app.get('/api/company/:id/export', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
     try {
       // Check authentication
       if (!req.session || !req.session.userId) {
@@ -2978,14 +3510,18 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
-      const isAdmin = user.role === 'admin' || user.role === 'platform_admin';
-      if (user.companyId !== companyId && !isAdmin) {
+      if (!canAccessCompany(req, user, companyId)) {
         return res.status(403).json({
           status: 'error',
           message: 'Access denied'
         });
       }
 
+      const exportLimit = await entitlementService.checkFeature(companyId, 'dataExport');
+      if (exportLimit) {
+        return sendLimitExceeded(res, exportLimit);
+      }
+
       // Get company name for export
       const company = await storage.getCompany(companyId);
       const companyName = company?.name || `Company ${companyId}`;
@@ -3067,14 +3603,31 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         res.setHeader('Content-Disposition', `attachment; filename=${sanitizedCompanyName}-export-${dateStr}.xlsx`);
         return res.send(excelBuffer);
       } else if (format === 'pdf') {
-        // Generate PDF from HTML
-        const html = generatePDFHTML(exportData, companyName, companyId, true, companyName);
+        // The company logo brands the report, falling back to the most recently
+        // branded survey (or the filtered survey)
+        let logoSource = company?.logo;
+        if (!logoSource) {
+          const brandedSurvey = await db.query.surveys.findFirst({
+            where: surveyIdFilter
+              ? and(eq(surveys.id, surveyIdFilter), eq(surveys.companyId, companyId))
+              : and(eq(surveys.companyId, companyId), isNotNull(surveys.customLogo)),
+            columns: { customLogo: true },
+            orderBy: desc(surveys.updatedAt)
+          });
+          logoSource = brandedSurvey?.customLogo;
+        }
+
+        const pdfBuffer = await pdfReportService.render({
+          kind: 'company',
+          title: companyName,
+          companyName,
+          subjectId: companyId,
+          data: exportData,
+          logo: await pdfReportService.loadLogo(logoSource)
+        });
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename=${sanitizedCompanyName}-export-${dateStr}.pdf`);
-        
-        // For now, return HTML that can be printed to PDF by the browser
-        res.setHeader('Content-Type', 'text/html');
-        return res.send(html);
+        return res.send(pdfBuffer);
       }
 
       return res.status(400).json({
@@ -3091,164 +3644,158 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  // In-memory storage for shared reports (in production, use database)
-  interface SharedReport {
-    token: string;
-    companyId: number;
-    surveyId: number | 'all';
-    companyName: string;
-    createdAt: Date;
-    expiresAt?: Date;
-    createdBy: number;
-  }
+  // Load a shared report link the session user may manage, sending the
+  // matching error response and returning null otherwise
+  const loadManageableShare = async (req: Request, res: Response) => {
+    const shareId = parseInt(req.params.id);
+    if (isNaN(shareId)) {
+      sendClientError(res, 'Invalid shared report ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      return null;
+    }
 
-  const sharedReports = new Map<string, SharedReport>();
+    const user = await requireSessionUser(req, res);
+    if (!user) return null;
+
+    const share = await sharedReportService.getShare(shareId);
+    if (!canAccessCompany(req, user, share.companyId)) {
+      sendClientError(res, 'Access denied', 403, undefined, ErrorCodes.FORBIDDEN);
+      return null;
+    }
+    return share;
+  };
 
   // Generate shareable report link
-  app.post('/api/reports/share', async (req: Request, res: Response) => {
+  app.post('/api/reports/share', requirePermission(Permission.CREATE_REPORTS), async (req: Request, res: Response) => {
     try {
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
 
       const companyId = parseInt(req.body.companyId);
-      const surveyId = req.body.surveyId === 'all' ? 'all' : parseInt(req.body.surveyId);
-      const expiresInDays = req.body.expiresInDays || 30; // Default 30 days
-
       if (!companyId) {
-        return res.status(400).json({
-          status: 'error',
-          message: 'Company ID is required'
-        });
+        return sendClientError(res, 'Company ID is required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
 
-      // Verify user has access
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId),
-        columns: { id: true, companyId: true, role: true }
-      });
-
-      if (!user) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'User not found'
-        });
-      }
-
-      const isAdmin = user.role === 'admin' || user.role === 'platform_admin';
-      if (user.companyId !== companyId && !isAdmin) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Access denied'
-        });
+      if (!canAccessCompany(req, user, companyId)) {
+        return sendClientError(res, 'Access denied', 403, undefined, ErrorCodes.FORBIDDEN);
       }
 
-      // Get company name
-      const company = await storage.getCompany(companyId);
-      const companyName = company?.name || `Company ${companyId}`;
-
-      // Generate unique token
-      const token = crypto.randomBytes(32).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
-
-      // Store shared report
-      const sharedReport: SharedReport = {
-        token,
-        companyId,
-        surveyId,
-        companyName,
-        createdAt: new Date(),
-        expiresAt,
-        createdBy: req.session.userId
-      };
-
-      sharedReports.set(token, sharedReport);
+      const share = await sharedReportService.createShare(req.body, user.id);
 
       // Generate shareable link
       const baseUrl = `${req.protocol}://${req.get('host')}`;
-      const shareableLink = `${baseUrl}/shared-report/${token}`;
+      const shareableLink = `${baseUrl}/shared-report/${share.token}`;
 
       res.json({
         status: 'success',
-        token,
+        token: share.token,
         shareableLink,
-        expiresAt: expiresAt.toISOString()
+        expiresAt: share.expiresAt.toISOString(),
+        data: share
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error('Error creating shared report:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to create shared report',
-        error: error instanceof Error ? error.message : String(error)
-      });
+      return sendServerError(res, 'Failed to create shared report', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
 
-  // Get shared report data (public endpoint)
-  app.get('/api/reports/shared/:token', async (req: Request, res: Response) => {
+  // List shared report links: the user's company, or every company for admins
+  app.get('/api/reports/shares', requirePermission(Permission.VIEW_REPORTS), async (req: Request, res: Response) => {
     try {
-      const { token } = req.params;
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
 
-      const sharedReport = sharedReports.get(token);
+      const isAdmin = isPlatformAdminRequest(req, user);
+      const requestedCompany = req.query.companyId ? parseInt(req.query.companyId as string) : null;
+      if (!isAdmin && !user.companyId) {
+        return sendSuccess(res, []);
+      }
 
-      if (!sharedReport) {
-        return res.status(404).json({
-          status: 'error',
-          message: 'Shared report not found or expired'
-        });
-      }
+      const companyId = isAdmin ? requestedCompany : user.companyId;
+      const shares = await sharedReportService.listShares(companyId);
+      return sendSuccess(res, shares);
+    } catch (error) {
+      console.error('Error listing shared reports:', error);
+      return sendServerError(res, 'Failed to list shared reports', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Check if expired
-      if (sharedReport.expiresAt && new Date() > sharedReport.expiresAt) {
-        sharedReports.delete(token);
-        return res.status(410).json({
-          status: 'error',
-          message: 'Shared report has expired'
-        });
+  // Revoke a shared report link; the public link answers 410 from then on
+  app.post('/api/reports/shares/:id/revoke', requirePermission(Permission.CREATE_REPORTS), async (req: Request, res: Response) => {
+    try {
+      const share = await loadManageableShare(req, res);
+      if (!share) return;
+
+      const revoked = await sharedReportService.revokeShare(share.id);
+      return sendSuccess(res, revoked, 'Shared report revoked');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error revoking shared report:', error);
+      return sendServerError(res, 'Failed to revoke shared report', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      // Get analytics data
-      let analyticsData;
-      if (sharedReport.surveyId === 'all') {
-        analyticsData = await storage.getCompanyStats(sharedReport.companyId);
-      } else {
-        analyticsData = await storage.getSurveyAnalytics(sharedReport.surveyId);
+  // Extend the expiry of a shared report link by { expiresInDays }
+  app.post('/api/reports/shares/:id/extend', requirePermission(Permission.CREATE_REPORTS), async (req: Request, res: Response) => {
+    try {
+      const share = await loadManageableShare(req, res);
+      if (!share) return;
+
+      const extended = await sharedReportService.extendShare(share.id, req.body);
+      return sendSuccess(res, extended, 'Shared report extended');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error extending shared report:', error);
+      return sendServerError(res, 'Failed to extend shared report', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      if (!analyticsData) {
-        return res.status(404).json({
-          status: 'error',
-          message: 'Analytics data not found'
-        });
+  // Most recent views of a shared report link
+  app.get('/api/reports/shares/:id/views', requirePermission(Permission.VIEW_REPORTS), async (req: Request, res: Response) => {
+    try {
+      const share = await loadManageableShare(req, res);
+      if (!share) return;
+
+      const views = await sharedReportService.getViews(share.id);
+      return sendSuccess(res, { viewCount: share.viewCount, lastViewedAt: share.lastViewedAt, views });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error fetching shared report views:', error);
+      return sendServerError(res, 'Failed to fetch shared report views', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
 
-      res.json({
-        status: 'success',
-        data: {
-          companyName: sharedReport.companyName,
-          companyId: sharedReport.companyId,
-          surveyId: sharedReport.surveyId,
-          analytics: analyticsData,
-          createdAt: sharedReport.createdAt,
-          expiresAt: sharedReport.expiresAt
-        }
-      });
+  // Get shared report data (public endpoint). Password protected links take
+  // the password in the X-Report-Password header.
+  app.get('/api/reports/shared/:token', publicRoute, async (req: Request, res: Response) => {
+    try {
+      const password = req.headers['x-report-password'];
+      const report = await sharedReportService.openShare(
+        req.params.token,
+        typeof password === 'string' ? password : undefined,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') }
+      );
+
+      return sendSuccess(res, report);
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error('Error fetching shared report:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to fetch shared report',
-        error: error instanceof Error ? error.message : String(error)
-      });
+      return sendServerError(res, 'Failed to fetch shared report', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
 
   // Real-time survey analytics endpoint
-  app.get('/api/surveys/:id/analytics/realtime', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/analytics/realtime', requirePermission(Permission.VIEW_ANALYTICS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       console.log(`Fetching real-time analytics for survey ID: ${surveyId}`);
@@ -3300,7 +3847,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Survey response submission endpoint with real-time analytics
-  app.post('/api/survey-responses', async (req: Request, res: Response) => {
+  app.post('/api/survey-responses', requireSignedIn, async (req: Request, res: Response) => {
     try {
       const responseData = req.body;
       
@@ -3336,25 +3883,10 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
-      // Check response count limit
-      const existingResponsesResult = await db.execute(sql`
-        SELECT COUNT(*) as count FROM survey_responses 
-        WHERE company_id = ${survey.companyId}
-      `);
-      
-      const currentResponseCount = parseInt(existingResponsesResult.rows[0]?.count as string || '0');
-      const maxResponses = company.maxResponses || 1000; // Default to 1000 if not set
-
-      if (currentResponseCount >= maxResponses) {
-        return res.status(403).json({
-          status: 'error',
-          message: `Response limit reached. You can collect up to ${maxResponses} responses with your current license.`,
-          code: 'RESPONSE_LIMIT_EXCEEDED',
-          limits: {
-            current: currentResponseCount,
-            maximum: maxResponses
-          }
-        });
+      // Check the company's response limit
+      const responseLimit = await entitlementService.checkResponseIntake(survey.companyId, parseInt(responseData.deploymentId) || null);
+      if (responseLimit) {
+        return sendLimitExceeded(res, responseLimit);
       }
       
       // Ensure response is associated with correct company ID from survey
@@ -3363,8 +3895,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         companyId: survey.companyId  // Force correct company association
       };
       
-      // Save the response to the database
-      const createdResponse = await storage.createSurveyResponse(responseDataWithCompany);
+      // Save the response to the database, checking the limits again while the company is locked
+      const createdResponse = await db.transaction(async (tx: any) => {
+        await entitlementService.reserveResponseIntake(tx, survey.companyId, parseInt(responseData.deploymentId) || null);
+        return storage.createSurveyResponse(responseDataWithCompany, tx);
+      });
       
       // Enrich with AI-derived analytics in background (non-blocking)
       (async () => {
@@ -3393,7 +3928,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       // Track response submission event for notifications
       const surveyTitle = (survey as any)?.title || 'Survey';
-      await trackResponseSubmitted(responseData.surveyId, surveyTitle).catch(err => {
+      await trackResponseSubmitted(responseData.surveyId, surveyTitle, createdResponse.id, survey?.companyId).catch(err => {
         console.error('Failed to track response submission event:', err);
         // Don't block the response submission if tracking fails
       });
@@ -3460,6 +3995,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         data: createdResponse
       });
     } catch (error) {
+      if (error instanceof EntitlementError) {
+        return sendLimitExceeded(res, error.violation);
+      }
       console.error('Error submitting survey response:', error);
       return res.status(500).json({
         status: 'error',
@@ -3473,7 +4011,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   
   // Get all backups
   // Recent backups endpoint
-  app.get('/api/backups/recent', async (_req: Request, res: Response) => {
+  app.get('/api/backups/recent', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       // Get the most recent 5 backups
       const recentBackups = await db.execute(sql`
@@ -3497,348 +4035,1300 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         data: formattedBackups
       });
     } catch (error) {
-      console.error('Error fetching recent backups:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to fetch recent backups',
-        error: error instanceof Error ? error.message : String(error)
-      });
+      console.error('Error fetching recent backups:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to fetch recent backups',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
+  // Admin recent backups endpoint
+  app.get('/api/admin/backup/recent', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
+    try {
+      // Get the most recent 5 backups (admin view)
+      const recentBackups = await db.execute(sql`
+        SELECT * FROM system_backups
+        ORDER BY created_at DESC
+        LIMIT 5
+      `);
+      
+ const formattedBackups = recentBackups.rows.map((backup: any) => ({
+  id: backup.id,
+  fileName: backup.file_name,
+  fileSize: backup.file_size,
+  backupType: backup.backup_type,
+  status: backup.status,
+  createdAt: backup.created_at,
+  completedAt: backup.completed_at,
+  downloadUrl: `/api/system/backups/${backup.id}/download`,
+}));
+
+      
+      res.json({
+        status: 'success',
+        data: formattedBackups
+      });
+    } catch (error) {
+      console.error('Error fetching admin recent backups:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to fetch admin recent backups',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
+  // Shape a backup row for BackupManager, keeping the snake_case fields older clients read
+  const toBackupResponse = (backup: SystemBackup) => {
+    const date = new Date(backup.createdAt);
+    return {
+      id: backup.id,
+      name: backup.name,
+      description: backup.description || '',
+      created_at: backup.createdAt,
+      updated_at: backup.updatedAt,
+      size: backup.size,
+      type: backup.type,
+      status: backup.status,
+      path: backup.path,
+      user_id: backup.userId,
+      include_responses: backup.includeResponses,
+
+      createdAt: backup.createdAt,
+      updatedAt: backup.updatedAt,
+      completedAt: backup.completedAt,
+      userId: backup.userId,
+      includeResponses: backup.includeResponses,
+      sizeBytes: backup.sizeBytes,
+      checksum: backup.checksum,
+      tableCounts: backup.tableCounts,
+      error: backup.error,
+      downloadUrl: `/api/system/backups/${backup.id}/download`,
+
+      date: `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`,
+      rawDate: backup.createdAt
+    };
+  };
+
+  // System backups endpoint
+  app.get('/api/system/backups', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const backupRows = await backupService.listBackups({
+        type: req.query.type as string | undefined,
+        status: req.query.status as string | undefined,
+        limit: limit && !isNaN(limit) ? limit : undefined
+      });
+
+      return sendSuccess(res, backupRows.map(toBackupResponse));
+    } catch (error) {
+      console.error('Error fetching backups:', error);
+      return sendServerError(res, 'Failed to fetch backups', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Create a new backup archive of the database
+  app.post('/api/system/backups', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const { name, description, includeResponses } = req.body;
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return sendClientError(res, 'Backup name is required', 400, { name: ['Backup name is required'] }, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const backup = await backupService.createBackup({
+        name: name.trim(),
+        description,
+        // Responses are included unless explicitly excluded
+        includeResponses: includeResponses !== false,
+        type: BackupType.MANUAL,
+        userId: admin.id
+      });
+
+      return sendSuccess(res, toBackupResponse(backup), 'Backup created successfully', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error creating backup:', error);
+      return sendServerError(res, 'Failed to create backup', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Register an uploaded backup archive so it can be previewed and restored
+  app.post(
+    '/api/system/backups/upload',
+    requirePermission(Permission.SYSTEM_CONFIGURATION),
+    express.raw({ type: ['application/gzip', 'application/x-gzip', 'application/octet-stream'], limit: '500mb' }),
+    async (req: Request, res: Response) => {
+      try {
+        const admin = await requirePlatformAdmin(req, res);
+        if (!admin) return;
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return sendClientError(res, 'Backup file is required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+        }
+
+        const fileName = (req.query.fileName as string) || 'uploaded-backup.json.gz';
+        const backup = await backupService.importArchive(req.body, fileName, admin.id);
+        return sendSuccess(res, toBackupResponse(backup), 'Backup uploaded successfully', 201);
+      } catch (error) {
+        if (error instanceof AppError) {
+          return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+        }
+        console.error('Error uploading backup:', error);
+        return sendServerError(res, 'Failed to upload backup', 500, ErrorCodes.INTERNAL_ERROR);
+      }
+    }
+  );
+
+  // Automatic backup schedule and retention
+  app.get('/api/system/backups/settings', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const settings = await backupService.getSettings();
+      return sendSuccess(res, { ...settings, directory: getBackupDirectory() });
+    } catch (error) {
+      console.error('Error fetching backup settings:', error);
+      return sendServerError(res, 'Failed to fetch backup settings', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.put('/api/system/backups/settings', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const settings = await backupService.updateSettings(req.body, admin.id);
+      return sendSuccess(res, { ...settings, directory: getBackupDirectory() }, 'Backup settings updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating backup settings:', error);
+      return sendServerError(res, 'Failed to update backup settings', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Download a backup archive
+  app.get('/api/system/backups/:id/download', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendClientError(res, 'Invalid backup ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const archive = await backupService.getArchivePath(id);
+      return res.download(archive.path, archive.fileName);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error downloading backup:', error);
+      return sendServerError(res, 'Failed to download backup', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Delete a backup and its archive
+  app.delete('/api/system/backups/:id', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendClientError(res, 'Invalid backup ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const deletedBackup = await backupService.deleteBackup(id);
+      return sendSuccess(res, toBackupResponse(deletedBackup), 'Backup deleted successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error deleting backup:', error);
+      return sendServerError(res, 'Failed to delete backup', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Restore from a backup. Pass { dryRun: true } to preview per-table row counts
+  // without changing anything; a restore that empties tables with rows in them
+  // also needs { confirmDataLoss: true }.
+  app.post('/api/system/backups/:id/restore', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendClientError(res, 'Invalid backup ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const dryRun = req.body?.dryRun === true;
+      const result = await backupService.restoreBackup(id, { dryRun, confirmDataLoss: req.body?.confirmDataLoss === true });
+      return sendSuccess(res, result, dryRun ? 'Restore preview ready' : 'Backup restored successfully');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error restoring from backup:', error);
+      return sendServerError(res, 'Failed to restore from backup', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Email delivery log with per-status counts and the active transport
+  app.get('/api/system/email/deliveries', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const [deliveries, counts] = await Promise.all([
+        emailDeliveryService.listDeliveries({
+          status: typeof req.query.status === 'string' ? req.query.status : undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+        }),
+        emailDeliveryService.getStatusCounts()
+      ]);
+      return sendSuccess(res, { transport: emailDeliveryService.getTransport().name, counts, deliveries });
+    } catch (error) {
+      console.error('Error listing email deliveries:', error);
+      return sendServerError(res, 'Failed to list email deliveries', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Retry a failed or bounced email immediately
+  app.post('/api/system/email/deliveries/:id/retry', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendClientError(res, 'Invalid delivery ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const delivery = await emailDeliveryService.retryDelivery(id);
+      return sendSuccess(res, delivery, delivery.status === EmailDeliveryStatus.SENT ? 'Email sent' : 'Email could not be sent');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error retrying email delivery:', error);
+      return sendServerError(res, 'Failed to retry email delivery', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Send a newsletter issue { subject, content } to every confirmed subscriber
+  app.post('/api/system/email/newsletter', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    try {
+      const admin = await requirePlatformAdmin(req, res);
+      if (!admin) return;
+
+      const { subject, content } = req.body as { subject?: string; content?: string };
+      if (!subject?.trim() || !content?.trim()) {
+        return sendClientError(res, 'Subject and content are required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const subscribers = await db.select({ email: newsletterSubscribers.email, name: newsletterSubscribers.name })
+        .from(newsletterSubscribers)
+        .where(and(eq(newsletterSubscribers.subscribed, true), eq(newsletterSubscribers.confirmed, true)));
+
+      const baseUrl = getBaseUrl(req);
+      let sent = 0;
+      for (const subscriber of subscribers) {
+        if (await sendNewsletterEmail(subscriber.email, subject.trim(), content, baseUrl, subscriber.name)) {
+          sent++;
+        }
+      }
+
+      return sendSuccess(res, { recipients: subscribers.length, sent, failed: subscribers.length - sent }, 'Newsletter sent');
+    } catch (error) {
+      console.error('Error sending newsletter:', error);
+      return sendServerError(res, 'Failed to send newsletter', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Bounce notifications from the mail provider: { messageId?, email?, reason? },
+  // authenticated with the X-Email-Webhook-Secret header
+  app.post('/api/email/bounces', publicRoute, async (req: Request, res: Response) => {
+    try {
+      const secret = process.env.EMAIL_WEBHOOK_SECRET;
+      if (!secret || req.headers['x-email-webhook-secret'] !== secret) {
+        return sendClientError(res, 'Invalid webhook secret', 401, undefined, ErrorCodes.UNAUTHORIZED);
+      }
+
+      const { messageId, email, reason } = req.body ?? {};
+      const delivery = await emailDeliveryService.recordBounce({ messageId, email, reason });
+      return sendSuccess(res, { matched: !!delivery, deliveryId: delivery?.id ?? null });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error recording email bounce:', error);
+      return sendServerError(res, 'Failed to record bounce', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Company webhook subscriptions
+  app.get('/api/webhooks', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      return sendSuccess(res, await webhookService.listSubscriptions(scope.companyId));
+    } catch (error) {
+      console.error('Error listing webhooks:', error);
+      return sendServerError(res, 'Failed to list webhooks', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Subscribe a URL to events: { url, description?, events, active? }; the
+  // response carries the signing secret, which is not shown again
+  app.post('/api/webhooks', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const result = await webhookService.createSubscription(scope.companyId, req.body, scope.user.id);
+      return sendSuccess(res, result, 'Webhook created', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error creating webhook:', error);
+      return sendServerError(res, 'Failed to create webhook', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.put('/api/webhooks/:webhookId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return sendClientError(res, 'Invalid webhook ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const subscription = await webhookService.updateSubscription(scope.companyId, webhookId, req.body);
+      return sendSuccess(res, subscription, 'Webhook updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating webhook:', error);
+      return sendServerError(res, 'Failed to update webhook', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/webhooks/:webhookId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return sendClientError(res, 'Invalid webhook ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      await webhookService.deleteSubscription(scope.companyId, webhookId);
+      return sendSuccess(res, { id: webhookId }, 'Webhook deleted');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error deleting webhook:', error);
+      return sendServerError(res, 'Failed to delete webhook', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Replace the signing secret; the new secret is returned once
+  app.post('/api/webhooks/:webhookId/secret', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return sendClientError(res, 'Invalid webhook ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const result = await webhookService.rotateSecret(scope.companyId, webhookId);
+      return sendSuccess(res, result, 'Webhook secret rotated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error rotating webhook secret:', error);
+      return sendServerError(res, 'Failed to rotate webhook secret', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Send a signed PING event to the webhook now and return the attempt
+  app.post('/api/webhooks/:webhookId/ping', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return sendClientError(res, 'Invalid webhook ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const delivery = await webhookService.ping(scope.companyId, webhookId);
+      return sendSuccess(res, delivery, delivery.status === 'delivered' ? 'Ping delivered' : 'Ping could not be delivered');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error pinging webhook:', error);
+      return sendServerError(res, 'Failed to ping webhook', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Delivery log of a webhook, newest first: ?status=failed&limit=50
+  app.get('/api/webhooks/:webhookId/deliveries', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return sendClientError(res, 'Invalid webhook ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const deliveries = await webhookService.listDeliveries(scope.companyId, webhookId, {
+        status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+      });
+      return sendSuccess(res, deliveries);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error listing webhook deliveries:', error);
+      return sendServerError(res, 'Failed to list webhook deliveries', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // One delivery with its payload and every HTTP attempt
+  app.get('/api/webhooks/:webhookId/deliveries/:deliveryId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      const deliveryId = parseInt(req.params.deliveryId);
+      if (isNaN(webhookId) || isNaN(deliveryId)) {
+        return sendClientError(res, 'Invalid webhook or delivery ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      return sendSuccess(res, await webhookService.getDelivery(scope.companyId, webhookId, deliveryId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error loading webhook delivery:', error);
+      return sendServerError(res, 'Failed to load webhook delivery', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Send a past delivery's payload again as a new delivery
+  app.post('/api/webhooks/:webhookId/deliveries/:deliveryId/replay', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const webhookId = parseInt(req.params.webhookId);
+      const deliveryId = parseInt(req.params.deliveryId);
+      if (isNaN(webhookId) || isNaN(deliveryId)) {
+        return sendClientError(res, 'Invalid webhook or delivery ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const delivery = await webhookService.replay(scope.companyId, webhookId, deliveryId);
+      return sendSuccess(res, delivery, delivery.status === 'delivered' ? 'Delivery replayed' : 'Replay could not be delivered', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error replaying webhook delivery:', error);
+      return sendServerError(res, 'Failed to replay webhook delivery', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The company's approval workflow, with the users that can be made reviewers
+  app.get('/api/approval-workflow', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const [workflow, members] = await Promise.all([
+        approvalService.getWorkflow(scope.companyId),
+        approvalService.listMembers(scope.companyId)
+      ]);
+      return sendSuccess(res, { workflow, members, canEdit: isApproverRequest(req, scope.user) });
+    } catch (error) {
+      console.error('Error loading approval workflow:', error);
+      return sendServerError(res, 'Failed to load approval workflow', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { enabled, reviewerIds, requiredApprovals, allowSelfApproval }
+  app.put('/api/approval-workflow', requirePermission(Permission.APPROVE_SURVEYS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const workflow = await approvalService.updateWorkflow(scope.companyId, req.body, {
+        id: scope.user.id,
+        isApprover: true,
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, workflow, 'Approval workflow updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating approval workflow:', error);
+      return sendServerError(res, 'Failed to update approval workflow', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The company's team: members, invitations and seats of its license
+  app.get('/api/team', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const permissions = await loadRequestPermissions(req);
+      const overview = await teamService.getOverview(scope.companyId, {
+        canInvite: permissions?.has(Permission.INVITE_USERS) ?? false,
+        canManage: permissions?.has(Permission.MANAGE_USERS) ?? false
+      });
+      return sendSuccess(res, overview);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error loading team:', error);
+      return sendServerError(res, 'Failed to load team', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { email, role: 'owner' | 'analyst' | 'viewer' }
+  app.post('/api/team/invitations', requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const invitation = await teamService.invite(scope.companyId, req.body, {
+        id: scope.user.id,
+        canManageOwners: isPlatformAdminRequest(req, scope.user) || isOwnerRole(scope.user.role),
+        ipAddress: req.ip ?? null
+      }, getBaseUrl(req));
+      return sendSuccess(res, invitation, 'Invitation sent', 201);
+    } catch (error) {
+      if (error instanceof EntitlementError) {
+        return sendLimitExceeded(res, error.violation);
+      }
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error inviting team member:', error);
+      return sendServerError(res, 'Failed to send invitation', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/team/invitations/:invitationId', requirePermission(Permission.INVITE_USERS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const invitationId = parseInt(req.params.invitationId);
+      if (isNaN(invitationId)) {
+        return sendClientError(res, 'Invalid invitation ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const invitation = await teamService.revokeInvitation(scope.companyId, invitationId, {
+        id: scope.user.id,
+        canManageOwners: isPlatformAdminRequest(req, scope.user) || isOwnerRole(scope.user.role),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, invitation, 'Invitation revoked');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error revoking invitation:', error);
+      return sendServerError(res, 'Failed to revoke invitation', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { role: 'owner' | 'analyst' | 'viewer' }
+  app.put('/api/team/members/:userId', requirePermission(Permission.MANAGE_USERS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return sendClientError(res, 'Invalid user ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const member = await teamService.changeRole(scope.companyId, userId, req.body, {
+        id: scope.user.id,
+        canManageOwners: isPlatformAdminRequest(req, scope.user) || isOwnerRole(scope.user.role),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, member, 'Role updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error changing team role:', error);
+      return sendServerError(res, 'Failed to change role', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // ?transferTo=<userId> picks who takes over the member's surveys
+  app.delete('/api/team/members/:userId', requirePermission(Permission.MANAGE_USERS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyScope(req, res);
+      if (!scope) return;
+
+      const userId = parseInt(req.params.userId);
+      const transferTo = typeof req.query.transferTo === 'string' ? parseInt(req.query.transferTo) : null;
+      if (isNaN(userId) || (transferTo !== null && isNaN(transferTo))) {
+        return sendClientError(res, 'Invalid user ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const result = await teamService.removeMember(scope.companyId, userId, transferTo, {
+        id: scope.user.id,
+        canManageOwners: isPlatformAdminRequest(req, scope.user) || isOwnerRole(scope.user.role),
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, result, 'Member removed');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error removing team member:', error);
+      return sendServerError(res, 'Failed to remove member', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The invitation behind an emailed link; the token is the credential
+  app.get('/api/invitations/:token', publicRoute, async (req: Request, res: Response) => {
+    try {
+      return sendSuccess(res, await teamService.previewInvitation(req.params.token));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error loading invitation:', error);
+      return sendServerError(res, 'Failed to load invitation', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { username, password, firstName?, lastName? } creates the invitee's account
+  app.post('/api/invitations/:token/accept', publicRoute, async (req: Request, res: Response) => {
+    try {
+      const account = await teamService.acceptInvitation(req.params.token, req.body, req.ip ?? null);
+      return sendSuccess(res, account, 'Invitation accepted. You can now sign in.', 201);
+    } catch (error) {
+      if (error instanceof EntitlementError) {
+        return sendLimitExceeded(res, error.violation);
+      }
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error accepting invitation:', error);
+      return sendServerError(res, 'Failed to accept invitation', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Two-factor authentication of the session user (the login step is in auth.ts)
+  app.get('/api/account/two-factor', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      return sendSuccess(res, await twoFactorService.getStatus(user.id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error loading two-factor status:', error);
+      return sendServerError(res, 'Failed to load two-factor status', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // A new secret with its QR code; it is used once confirmed with a code
+  app.post('/api/account/two-factor/enroll', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      return sendSuccess(res, await twoFactorService.beginEnrollment(user.id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error starting two-factor enrollment:', error);
+      return sendServerError(res, 'Failed to start two-factor setup', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { code } turns two-factor on and returns the recovery codes, shown only this once
+  app.post('/api/account/two-factor/confirm', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, req.body, {
+        id: user.id,
+        companyId: user.companyId,
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, { recoveryCodes }, 'Two-factor authentication enabled');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error confirming two-factor enrollment:', error);
+      return sendServerError(res, 'Failed to enable two-factor authentication', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { code } replaces all recovery codes
+  app.post('/api/account/two-factor/recovery-codes', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id, req.body, {
+        id: user.id,
+        companyId: user.companyId,
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, { recoveryCodes }, 'New recovery codes created');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error regenerating recovery codes:', error);
+      return sendServerError(res, 'Failed to create recovery codes', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { password, code } turns two-factor off unless the policy requires it
+  app.post('/api/account/two-factor/disable', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      await twoFactorService.disable(user.id, req.body, {
+        id: user.id,
+        companyId: user.companyId,
+        ipAddress: req.ip ?? null
+      });
+      res.clearCookie(TRUSTED_DEVICE_COOKIE, { path: '/' });
+      return sendSuccess(res, null, 'Two-factor authentication disabled');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error disabling two-factor authentication:', error);
+      return sendServerError(res, 'Failed to disable two-factor authentication', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/account/two-factor/devices/:deviceId', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const deviceId = parseInt(req.params.deviceId);
+      if (isNaN(deviceId)) {
+        return sendClientError(res, 'Invalid device ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+      await twoFactorService.revokeDevice(user.id, deviceId);
+      return sendSuccess(res, null, 'Device forgotten');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error forgetting device:', error);
+      return sendServerError(res, 'Failed to forget device', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/account/two-factor/devices', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const removed = await twoFactorService.revokeAllDevices(user.id);
+      res.clearCookie(TRUSTED_DEVICE_COOKIE, { path: '/' });
+      return sendSuccess(res, { removed }, 'All devices forgotten');
+    } catch (error) {
+      console.error('Error forgetting devices:', error);
+      return sendServerError(res, 'Failed to forget devices', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Lets a user who lost their authenticator and recovery codes sign in with their password again
+  app.delete('/api/admin/users/:userId/two-factor', requirePermission(Permission.MANAGE_CLIENT_ACCOUNTS), async (req: Request, res: Response) => {
+    try {
+      const admin = await requireSessionUser(req, res);
+      if (!admin) return;
+
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return sendClientError(res, 'Invalid user ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+      await twoFactorService.reset(userId, {
+        id: admin.id,
+        companyId: admin.companyId,
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, null, 'Two-factor authentication reset');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error resetting two-factor authentication:', error);
+      return sendServerError(res, 'Failed to reset two-factor authentication', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The session user's effective permissions, for showing only what they can use
+  app.get('/api/permissions/me', requireSignedIn, async (req: Request, res: Response) => {
+    try {
+      const permissions = await loadRequestPermissions(req);
+      return sendSuccess(res, { permissions: Array.from(permissions ?? []) });
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+      return sendServerError(res, 'Failed to load permissions', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Role permission matrix and per-user overrides
+  app.get('/api/admin/permissions', requirePermission(Permission.MANAGE_PERMISSIONS), async (_req: Request, res: Response) => {
+    try {
+      const [roles, overrides, userOptions] = await Promise.all([
+        permissionService.getRoleMatrix(),
+        permissionService.listUserOverrides(),
+        permissionService.listUsers()
+      ]);
+      return sendSuccess(res, { roles, overrides, users: userOptions });
+    } catch (error) {
+      console.error('Error loading permission settings:', error);
+      return sendServerError(res, 'Failed to load permission settings', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Replace a role's permissions: { permissions }
+  app.put('/api/admin/permissions/roles/:role', requirePermission(Permission.MANAGE_PERMISSIONS), async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const role = await permissionService.updateRolePermissions(req.params.role, req.body, {
+        id: user.id,
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, role, 'Role permissions updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating role permissions:', error);
+      return sendServerError(res, 'Failed to update role permissions', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
-  
-  // Admin recent backups endpoint
-  app.get('/api/admin/backup/recent', async (_req: Request, res: Response) => {
+
+  app.post('/api/admin/permissions/roles/:role/reset', requirePermission(Permission.MANAGE_PERMISSIONS), async (req: Request, res: Response) => {
     try {
-      // Get the most recent 5 backups (admin view)
-      const recentBackups = await db.execute(sql`
-        SELECT * FROM system_backups
-        ORDER BY created_at DESC
-        LIMIT 5
-      `);
-      
- const formattedBackups = recentBackups.rows.map((backup: any) => ({
-  id: backup.id,
-  fileName: backup.file_name,
-  fileSize: backup.file_size,
-  backupType: backup.backup_type,
-  status: backup.status,
-  createdAt: backup.created_at,
-  completedAt: backup.completed_at,
-  downloadUrl: `/api/system/backups/${backup.id}/download`,
-}));
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
 
-      
-      res.json({
-        status: 'success',
-        data: formattedBackups
+      const role = await permissionService.resetRolePermissions(req.params.role, {
+        id: user.id,
+        ipAddress: req.ip ?? null
       });
+      return sendSuccess(res, role, 'Role permissions reset to defaults');
     } catch (error) {
-      console.error('Error fetching admin recent backups:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to fetch admin recent backups',
-        error: error instanceof Error ? error.message : String(error)
-      });
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error resetting role permissions:', error);
+      return sendServerError(res, 'Failed to reset role permissions', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
-  
-  // System backups endpoint
-  app.get('/api/system/backups', async (req: Request, res: Response) => {
+
+  // Grant or deny one permission to a user: { permission, granted, reason?, expiresAt? }
+  app.put('/api/admin/permissions/users/:userId', requirePermission(Permission.MANAGE_PERMISSIONS), async (req: Request, res: Response) => {
     try {
-      console.log('Fetching backups with query params:', req.query);
-      
-      // Get query parameters for filtering
-      const type = req.query.type as string;
-      const status = req.query.status as string;
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      
-      // Use raw SQL query with parameters for better control
-      let sqlQuery = 'SELECT * FROM system_backups';
-      const params: any[] = [];
-      
-      // Add WHERE conditions if needed
-      if (type && status) {
-        sqlQuery += ' WHERE type = $1 AND status = $2';
-        params.push(type, status);
-      } else if (type) {
-        sqlQuery += ' WHERE type = $1';
-        params.push(type);
-      } else if (status) {
-        sqlQuery += ' WHERE status = $1';
-        params.push(status);
-      }
-      
-      // Add ORDER BY and LIMIT
-      sqlQuery += ' ORDER BY created_at DESC';
-      if (limit) {
-        sqlQuery += ' LIMIT $' + (params.length + 1);
-        params.push(limit);
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return sendClientError(res, 'Invalid user ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
-      
-      console.log('Executing backup query:', sqlQuery, params);
-      
-      // Execute the query
-      const result = await pool.query(sqlQuery, params);
-      const backupRows = result.rows || [];
-      
-      // Transform the data to match frontend expectations - with both snake_case and camelCase properties
-      // This hybrid approach ensures compatibility regardless of how the frontend is configured
-      const backups = backupRows.map(backup => {
-        // Format the date in a frontend-friendly format
-        const date = new Date(backup.created_at);
-        const formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
-        
-        return {
-          // Required fields (original snake_case format)
-          id: backup.id,
-          name: backup.name,
-          description: backup.description || '',
-          created_at: backup.created_at,
-          updated_at: backup.updated_at,
-          size: backup.size,
-          type: backup.type,
-          status: backup.status,
-          path: backup.path,
-          user_id: backup.user_id,
-          include_responses: backup.include_responses || false,
-          
-          // Additional camelCase versions for frontend compatibility
-          createdAt: backup.created_at,
-          updatedAt: backup.updated_at,
-          userId: backup.user_id,
-          includeResponses: backup.include_responses || false,
-          
-          // Formatted date fields for display
-          date: formattedDate,
-          rawDate: backup.created_at
-        };
-      });
-      
-      console.log(`Returning ${backups.length} backups`);
-      
-      // Return the backups
-      res.json({
-        status: 'success',
-        data: backups
+
+      const override = await permissionService.setUserOverride(userId, req.body, {
+        id: user.id,
+        ipAddress: req.ip ?? null
       });
+      return sendSuccess(res, override, override.granted ? 'Permission granted' : 'Permission denied');
     } catch (error) {
-      console.error('Error fetching backups:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to fetch backups',
-        error: error instanceof Error ? error.message : String(error)
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error saving permission override:', error);
+      return sendServerError(res, 'Failed to save permission override', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/admin/permissions/users/:userId/:permission', requirePermission(Permission.MANAGE_PERMISSIONS), async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return sendClientError(res, 'Invalid user ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      await permissionService.removeUserOverride(userId, req.params.permission, {
+        id: user.id,
+        ipAddress: req.ip ?? null
       });
+      return sendSuccess(res, null, 'Permission override removed');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error removing permission override:', error);
+      return sendServerError(res, 'Failed to remove permission override', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
 
-  // Create a new backup
-  app.post('/api/system/backups', async (req: Request, res: Response) => {
+  // Data subject requests (GDPR/CCPA): { email, type, jurisdiction?, details? }.
+  // The answer is the same whether or not we hold data for the address.
+  app.post('/api/privacy/requests', publicRoute, async (req: Request, res: Response) => {
     try {
-      console.log('Backup creation request received:', req.body);
-      const { name, description, includeResponses } = req.body;
-      
-      if (!name) {
-        console.error('Backup name is missing in request:', req.body);
-        return sendClientError(res, 'Backup name is required', 400, ErrorCodes.VALIDATION_ERROR);
+      await dataSubjectRequestService.createRequest(req.body, {
+        baseUrl: getBaseUrl(req),
+        locale: req.headers['accept-language'],
+        ipAddress: req.ip ?? null
+      });
+      return sendSuccess(res, null, 'Check your inbox: we sent a link to confirm the request', 202);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
-      
-      // Get the number of survey responses if including them
-      let responseCount = 0;
-      if (includeResponses) {
-        const countResult = await pool.query('SELECT COUNT(*) as count FROM survey_responses');
-        responseCount = parseInt(countResult.rows[0].count) || 0;
+      console.error('Error creating privacy request:', error);
+      return sendServerError(res, 'Failed to submit the request', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // { token } from the verification email; starts the legal deadline
+  app.post('/api/privacy/requests/verify', publicRoute, async (req: Request, res: Response) => {
+    try {
+      return sendSuccess(res, await dataSubjectRequestService.verifyRequest(req.body), 'Request confirmed');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
-      
-      // Calculate a more realistic size
-      const baseSize = Math.floor(Math.random() * 100) + 50; // Base DB size in KB 
-      const responseSize = responseCount * 2; // Approx size per response in KB
-      const totalSize = baseSize + (includeResponses ? responseSize : 0);
-      const formattedSize = totalSize > 1000 ? 
-        `${(totalSize / 1024).toFixed(1)} MB` : 
-        `${totalSize.toFixed(0)} KB`;
-      
-      // Create the backup in the database using SQL for more reliability
-      // Note: table only has these columns: id, name, type, status, size, path, user_id, created_at, updated_at
-      const query = `
-        INSERT INTO system_backups (
-          name, type, status, size, path, user_id, created_at, updated_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8
-        ) RETURNING *
-      `;
-      
-      const now = new Date();
-      const backupPath = `/backups/${name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}.zip`;
-      
-      const values = [
-        name,
-        'manual',
-        'completed',
-        formattedSize,
-        backupPath,
-        1, // Use admin user ID
-        now,
-        now
-      ];
-      
-      console.log('Executing backup creation query with values:', values);
-      const result = await pool.query(query, values);
-      
-      if (result.rows && result.rows.length > 0) {
-        console.log('Backup created successfully:', result.rows[0]);
-        
-        // Format date for display
-        const date = new Date(result.rows[0].created_at);
-        const formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
-        
-        // Transform the data to match frontend expectations - with both snake_case and camelCase properties
-        // This hybrid approach ensures compatibility regardless of how the frontend is configured
-        const backup = {
-          // Original snake_case format from database
-          id: result.rows[0].id,
-          name: result.rows[0].name,
-          description: description || '', // Add description from request since it's not in the DB
-          created_at: result.rows[0].created_at,
-          updated_at: result.rows[0].updated_at,
-          size: result.rows[0].size,
-          type: result.rows[0].type,
-          status: result.rows[0].status,
-          path: result.rows[0].path,
-          user_id: result.rows[0].user_id,
-          include_responses: includeResponses || false, // Add from request as it's not in the DB
-          
-          // Additional camelCase versions for frontend compatibility
-          createdAt: result.rows[0].created_at,
-          updatedAt: result.rows[0].updated_at,
-          userId: result.rows[0].user_id,
-          includeResponses: includeResponses || false,
-          
-          // Formatted date fields for display
-          date: formattedDate,
-          rawDate: result.rows[0].created_at
-        };
-        
-        return sendSuccess(res, backup, 'Backup created successfully', 201);
-      } else {
-        throw new Error('Failed to create backup record - no rows returned');
+      console.error('Error verifying privacy request:', error);
+      return sendServerError(res, 'Failed to confirm the request', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // The subject's data as JSON, from the link in the completion email
+  app.get('/api/privacy/requests/download', publicRoute, async (req: Request, res: Response) => {
+    try {
+      const { filename, data } = await dataSubjectRequestService.buildDataPackage({ token: req.query.token });
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      return res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
+      console.error('Error building privacy data package:', error);
+      return sendServerError(res, 'Failed to prepare the download', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Verified privacy requests by deadline; ?status= lists completed, rejected or unverified ones
+  app.get('/api/admin/privacy-requests', requirePermission(Permission.MANAGE_PRIVACY_REQUESTS), async (req: Request, res: Response) => {
+    try {
+      return sendSuccess(res, await dataSubjectRequestService.getQueue(req.query.status as string | undefined));
     } catch (error) {
-      console.error('Error creating backup:', error);
-      return sendServerError(res, 'Failed to create backup', 500, ErrorCodes.INTERNAL_ERROR);
+      console.error('Error loading privacy requests:', error);
+      return sendServerError(res, 'Failed to load privacy requests', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
-  
-  // Delete a backup
-  app.delete('/api/system/backups/:id', async (req: Request, res: Response) => {
+
+  app.get('/api/admin/privacy-requests/:id', requirePermission(Permission.MANAGE_PRIVACY_REQUESTS), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      
       if (isNaN(id)) {
-        return sendClientError(res, 'Invalid backup ID', 400, ErrorCodes.VALIDATION_ERROR);
+        return sendClientError(res, 'Invalid request ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
-      
-      // Check if backup exists and get its type
-      const [backup] = await db.select()
-        .from(backups)
-        .where(eq(backups.id, id))
-        .limit(1);
-      
-      if (!backup) {
-        return sendClientError(res, 'Backup not found', 404, ErrorCodes.NOT_FOUND);
+      return sendSuccess(res, await dataSubjectRequestService.getRequest(id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
-      
-      // Don't allow deletion of automatic backups
-      if (backup.type === 'auto') {
-        return sendClientError(
-          res, 
-          'Automatic backups cannot be deleted', 
-          403, 
-          ErrorCodes.FORBIDDEN
-        );
+      console.error('Error loading privacy request:', error);
+      return sendServerError(res, 'Failed to load privacy request', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Hand over the data or erase it, closing the request with a signed certificate
+  app.post('/api/admin/privacy-requests/:id/fulfil', requirePermission(Permission.MANAGE_PRIVACY_REQUESTS), async (req: Request, res: Response) => {
+    try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendClientError(res, 'Invalid request ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
-      
-      // Delete the backup
-      const [deletedBackup] = await db.delete(backups)
-        .where(eq(backups.id, id))
-        .returning();
-      
-      return sendSuccess(res, deletedBackup, 'Backup deleted successfully');
+      const request = await dataSubjectRequestService.fulfilRequest(id, { id: user.id, ipAddress: req.ip ?? null }, getBaseUrl(req));
+      return sendSuccess(res, request, 'Request fulfilled');
     } catch (error) {
-      console.error('Error deleting backup:', error);
-      return sendServerError(res, 'Failed to delete backup', 500, ErrorCodes.INTERNAL_ERROR);
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error fulfilling privacy request:', error);
+      return sendServerError(res, 'Failed to fulfil privacy request', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
-  
-  // Restore from a backup
-  app.post('/api/system/backups/:id/restore', async (req: Request, res: Response) => {
+
+  // { reason }, which is emailed to the requester
+  app.post('/api/admin/privacy-requests/:id/reject', requirePermission(Permission.MANAGE_PRIVACY_REQUESTS), async (req: Request, res: Response) => {
     try {
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
       const id = parseInt(req.params.id);
-      
       if (isNaN(id)) {
-        return sendClientError(res, 'Invalid backup ID', 400, ErrorCodes.VALIDATION_ERROR);
+        return sendClientError(res, 'Invalid request ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
       }
-      
-      // Check if backup exists and its status
-      const [backup] = await db.select()
-        .from(backups)
-        .where(eq(backups.id, id))
-        .limit(1);
-      
-      if (!backup) {
-        return sendClientError(res, 'Backup not found', 404, ErrorCodes.NOT_FOUND);
+      const request = await dataSubjectRequestService.rejectRequest(id, req.body, { id: user.id, ipAddress: req.ip ?? null });
+      return sendSuccess(res, request, 'Request rejected');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
-      
-      // Only allow restoration of completed backups
-      if (backup.status !== 'completed') {
-        return sendClientError(
-          res, 
-          'Only completed backups can be restored', 
-          400, 
-          ErrorCodes.OPERATION_NOT_ALLOWED
-        );
+      console.error('Error rejecting privacy request:', error);
+      return sendServerError(res, 'Failed to reject privacy request', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Third-party integrations; platform administrators see every company's
+  // unless they pass ?companyId
+  app.get('/api/integrations/providers', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+    return sendSuccess(res, INTEGRATION_PROVIDERS);
+  });
+
+  app.get('/api/integrations', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      return sendSuccess(res, await integrationService.listIntegrations(scope));
+    } catch (error) {
+      console.error('Error listing integrations:', error);
+      return sendServerError(res, 'Failed to list integrations', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Add an integration: { provider, name, apiUrl?, credentials?, config?, companyId? }
+  app.post('/api/integrations', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integration = await integrationService.createIntegration(scope, req.body);
+      return sendSuccess(res, integration, 'Integration created', 201);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
       }
-      
-      // In a real application, this would trigger the actual restore process
-      // For now, we'll simulate a successful restore
-      
-      // Create restoration timestamp
-      const now = new Date();
-      const restoredAt = now.toISOString();
-      const formattedDate = `${now.toLocaleDateString()} ${now.toLocaleTimeString()}`;
-      
-      // Create a consistent response with both snake_case and camelCase formats
-      return sendSuccess(res, { 
-        // Original fields from database (snake_case)
-        id: backup.id,
-        name: backup.name,
-        type: backup.type,
-        status: 'restored',
-        size: backup.size,
-        path: backup.path,
-        user_id: backup.userId,
-        created_at: backup.createdAt,
-        updated_at: backup.updatedAt || backup.createdAt,
-        
-        // Virtual fields not in database but added for consistency
-        description: '',
-        include_responses: false,
-        restored_at: restoredAt,
-        
-        // CamelCase versions for frontend consistency
-        createdAt: backup.createdAt,
-        updatedAt: backup.updatedAt || backup.createdAt,
-        userId: backup.userId,
-        includeResponses: false,
-        restoredAt: restoredAt,
-        
-        // Formatted fields for display
-        date: formattedDate,
-        rawDate: backup.createdAt
-      }, 'Backup restored successfully');
+      console.error('Error creating integration:', error);
+      return sendServerError(res, 'Failed to create integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.get('/api/integrations/:integrationId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      return sendSuccess(res, await integrationService.getIntegration(scope, integrationId));
     } catch (error) {
-      console.error('Error restoring from backup:', error);
-      return sendServerError(res, 'Failed to restore from backup', 500, ErrorCodes.INTERNAL_ERROR);
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error loading integration:', error);
+      return sendServerError(res, 'Failed to load integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Update settings; credentials left out are kept and null clears one.
+  // { enabled: false } pauses syncing
+  app.put('/api/integrations/:integrationId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const integration = await integrationService.updateIntegration(scope, integrationId, req.body);
+      return sendSuccess(res, integration, 'Integration updated');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error updating integration:', error);
+      return sendServerError(res, 'Failed to update integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.delete('/api/integrations/:integrationId', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      await integrationService.deleteIntegration(scope, integrationId);
+      return sendSuccess(res, { id: integrationId }, 'Integration deleted');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error deleting integration:', error);
+      return sendServerError(res, 'Failed to delete integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.post('/api/integrations/:integrationId/test', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const result = await integrationService.testConnection(scope, integrationId);
+      return sendSuccess(res, result, result.ok ? 'Connection succeeded' : 'Connection failed');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error testing integration:', error);
+      return sendServerError(res, 'Failed to test integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Push new responses and pull contacts now
+  app.post('/api/integrations/:integrationId/sync', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const integration = await integrationService.syncNow(scope, integrationId);
+      return sendSuccess(res, integration, integration.lastError ? 'Sync failed' : 'Sync finished');
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error syncing integration:', error);
+      return sendServerError(res, 'Failed to sync integration', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  app.get('/api/integrations/:integrationId/contacts', requirePermission(Permission.MANAGE_INTEGRATIONS), async (req: Request, res: Response) => {
+    try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
+      const integrationId = parseInt(req.params.integrationId);
+      if (isNaN(integrationId)) {
+        return sendClientError(res, 'Invalid integration ID', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const limit = parseInt(String(req.query.limit ?? '100'));
+      const contacts = await integrationService.listContacts(scope, integrationId, isNaN(limit) ? 100 : limit);
+      return sendSuccess(res, contacts);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      console.error('Error listing integration contacts:', error);
+      return sendServerError(res, 'Failed to list integration contacts', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
+  // Development preview of an email template rendered with sample data:
+  // /api/dev/emails/preview/:template?locale=de&format=text
+  app.get('/api/dev/emails/preview/:template?', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
+    if (process.env.NODE_ENV === 'production') {
+      return sendClientError(res, 'Not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const template = req.params.template as EmailTemplate | undefined;
+    if (!template || !(EMAIL_TEMPLATES as readonly string[]).includes(template)) {
+      return sendSuccess(res, { templates: EMAIL_TEMPLATES, locales: SUPPORTED_EMAIL_LOCALES });
+    }
+
+    const locale = resolveEmailLocale(req.query.locale as string | undefined);
+    const rendered = renderEmail(template, EMAIL_PREVIEW_DATA[template], locale);
+    if (req.query.format === 'text') {
+      return res.type('text/plain').send(`Subject: ${rendered.subject}\n\n${rendered.text}`);
     }
+    return res.type('html').send(rendered.html);
   });
 
   // Duplicate endpoints were removed
@@ -3853,7 +5343,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   const adminAnalyticsCache = new Map<string, { expiresAt: number; data: any }>();
 
   // Admin analytics endpoint for platform-wide metrics
-  app.get('/api/admin/analytics', async (req: Request, res: Response) => {
+  app.get('/api/admin/analytics', requirePermission(Permission.VIEW_PLATFORM_ANALYTICS), async (req: Request, res: Response) => {
     try {
       const period = (req.query.period as string) || '12months';
       console.log(`Fetching admin analytics for period: ${period}`);
@@ -4530,7 +6020,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Admin surveys endpoint to get all surveys with analytics
-  app.get('/api/admin/surveys', async (req: Request, res: Response) => {
+  app.get('/api/admin/surveys', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       console.log('Fetching all surveys for admin view');
 
@@ -4698,7 +6188,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   app.use('/api/analytics', analyticsRouter);
   
   // Clients API endpoint
-  app.get('/api/clients', async (_req: Request, res: Response) => {
+  app.get('/api/clients', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (_req: Request, res: Response) => {
     try {
       const clients = await executeWithRetry(async () => {
         // Use manual join instead of with clause to avoid relation issues
@@ -4824,7 +6314,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Create client endpoint - for adding new clients
-  app.post('/api/clients', async (req: Request, res: Response) => {
+  app.post('/api/clients', requirePermission(Permission.MANAGE_CLIENT_ACCOUNTS), async (req: Request, res: Response) => {
     try {
       const clientData = req.body;
 
@@ -4965,7 +6455,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Get client details
-  app.get('/api/clients/:id', async (req: Request, res: Response) => {
+  app.get('/api/clients/:id', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       const clientId = parseInt(req.params.id);
       
@@ -5089,7 +6579,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Delete client
-  app.delete('/api/clients/:id', async (req: Request, res: Response) => {
+  app.delete('/api/clients/:id', requirePermission(Permission.MANAGE_CLIENT_ACCOUNTS), async (req: Request, res: Response) => {
     try {
       const clientId = parseInt(req.params.id);
       
@@ -5180,7 +6670,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Update a client
-  app.put('/api/clients/:id', async (req: Request, res: Response) => {
+  app.put('/api/clients/:id', requirePermission(Permission.MANAGE_CLIENT_ACCOUNTS), async (req: Request, res: Response) => {
     try {
       const clientId = parseInt(req.params.id);
       
@@ -5485,7 +6975,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Licenses API endpoint
-  app.get('/api/licenses', async (_req: Request, res: Response) => {
+  app.get('/api/licenses', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (_req: Request, res: Response) => {
     try {
       const licensesData = await executeWithRetry(async () => {
         return await db.query.licenses.findMany({
@@ -5550,7 +7040,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - create invoice (transactional: optional subscription create/reuse, optional immediate payment)
-  app.post('/api/invoices', async (req: Request, res: Response) => {
+  app.post('/api/invoices', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const body = req.body || {};
       const companyId = parseInt(String(body.companyId));
@@ -5690,7 +7180,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - list (optionally by companyId)
-  app.get('/api/invoices', async (req: Request, res: Response) => {
+  app.get('/api/invoices', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const companyId = req.query.companyId ? parseInt(String(req.query.companyId)) : undefined;
       let rows;
@@ -5707,7 +7197,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - company scoped list
-  app.get('/api/company/:companyId/invoices', async (req: Request, res: Response) => {
+  app.get('/api/company/:companyId/invoices', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const companyId = parseInt(String(req.params.companyId));
       if (!companyId || Number.isNaN(companyId)) {
@@ -5722,7 +7212,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - get by id
-  app.get('/api/invoices/:invoiceId', async (req: Request, res: Response) => {
+  app.get('/api/invoices/:invoiceId', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const invoiceId = parseInt(String(req.params.invoiceId));
       if (!invoiceId || Number.isNaN(invoiceId)) {
@@ -5738,7 +7228,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - update invoice
-  app.put('/api/invoices/:invoiceId', async (req: Request, res: Response) => {
+  app.put('/api/invoices/:invoiceId', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const invoiceId = parseInt(String(req.params.invoiceId));
       if (!invoiceId || Number.isNaN(invoiceId)) {
@@ -5798,7 +7288,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - change status (idempotently record payment when moving to paid; refund when moving away from paid)
-  app.patch('/api/invoices/:invoiceId/status', async (req: Request, res: Response) => {
+  app.patch('/api/invoices/:invoiceId/status', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const invoiceId = parseInt(String(req.params.invoiceId));
       const status = String(req.body?.status || '').trim();
@@ -5863,7 +7353,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Invoices API - record payment and mark paid
-  app.post('/api/invoices/:invoiceId/pay', async (req: Request, res: Response) => {
+  app.post('/api/invoices/:invoiceId/pay', requirePermission(Permission.BILLING_OPERATIONS), async (req: Request, res: Response) => {
     try {
       const invoiceId = parseInt(String(req.params.invoiceId));
       if (!invoiceId || Number.isNaN(invoiceId)) return res.status(400).json({ status: 'error', message: 'Invalid invoiceId' });
@@ -5905,7 +7395,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
   // Minimal licenses list for dropdowns (available licenses)
   // Only returns active licenses with endDate > current date
-  app.get('/api/licenses/available', async (_req: Request, res: Response) => {
+  app.get('/api/licenses/available', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (_req: Request, res: Response) => {
     try {
       const now = new Date();
       // Only return active licenses that haven't expired
@@ -5939,7 +7429,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Create license endpoint
-  app.post('/api/licenses', async (req: Request, res: Response) => {
+  app.post('/api/licenses', requirePermission(Permission.MANAGE_LICENSES), async (req: Request, res: Response) => {
     try {
       const licenseData = req.body;
       
@@ -6008,7 +7498,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Get license details
-  app.get('/api/licenses/:id', async (req: Request, res: Response) => {
+  app.get('/api/licenses/:id', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       const licenseId = parseInt(req.params.id);
       
@@ -6045,7 +7535,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Update license
-  app.put('/api/licenses/:id', async (req: Request, res: Response) => {
+  app.put('/api/licenses/:id', requirePermission(Permission.MANAGE_LICENSES), async (req: Request, res: Response) => {
     try {
       const licenseId = parseInt(req.params.id);
 
@@ -6253,7 +7743,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Delete license
-  app.delete('/api/licenses/:id', async (req: Request, res: Response) => {
+  app.delete('/api/licenses/:id', requirePermission(Permission.MANAGE_LICENSES), async (req: Request, res: Response) => {
     try {
       const licenseId = parseInt(req.params.id);
       
@@ -6302,7 +7792,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Survey responses API endpoint
-  app.get('/api/survey-responses', async (req: Request, res: Response) => {
+  app.get('/api/survey-responses', requirePermission(Permission.VIEW_RESPONSES), async (req: Request, res: Response) => {
     try {
       // Get query parameters
       const surveyId = req.query.surveyId ? parseInt(req.query.surveyId as string) : undefined;
@@ -6439,7 +7929,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get individual survey response details
-  app.get('/api/survey-responses/:id', async (req: Request, res: Response) => {
+  app.get('/api/survey-responses/:id', requirePermission(Permission.VIEW_RESPONSES), async (req: Request, res: Response) => {
     try {
       const responseId = parseInt(req.params.id);
       
@@ -6565,22 +8055,46 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Bulk export survey responses (CSV format)
-  app.get('/api/survey-responses/export', async (req: Request, res: Response) => {
+  app.get('/api/survey-responses/export', requirePermission(Permission.EXPORT_DATA), async (req: Request, res: Response) => {
     try {
+      const scope = await requireCompanyFilter(req, res);
+      if (!scope) return;
+
       const surveyId = req.query.surveyId ? parseInt(req.query.surveyId as string) : undefined;
-      const companyId = req.query.companyId ? parseInt(req.query.companyId as string) : undefined;
       const exportFormat = (req.query.format || 'csv') as string;
-      
-      // Use storage interface to get survey responses
-      let surveyResponses: any[] = [];
-      
-      if (companyId) {
-        surveyResponses = await storage.getSurveyResponsesByCompany(companyId);
-      } else {
-        surveyResponses = await storage.getSurveyResponsesByCompany(1);
+
+      let survey: any = null;
+      let companyId = scope.companyId;
+      if (surveyId !== undefined) {
+        survey = await db.query.surveys.findFirst({ where: eq(surveys.id, surveyId) }) ?? null;
+        if (!survey || !canAccessCompany(req, scope.user, survey.companyId)) {
+          return sendClientError(res, 'Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+        }
+        companyId = survey.companyId;
       }
-      
-      if (surveyId) {
+      if (!companyId) {
+        return sendClientError(res, 'Choose a company or survey to export', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      const exportLimit = await entitlementService.checkFeature(companyId, 'dataExport');
+      if (exportLimit) {
+        return sendLimitExceeded(res, exportLimit);
+      }
+
+      // A single survey's CSV is the coded export, one column per variable, streamed page by page
+      if (survey && exportFormat !== 'json') {
+        const request = responseExportService.parseQuery({ ...req.query, format: 'csv', includeIncomplete: 'true' });
+        const responseCount = await responseExportService.countResponses(survey.id, true);
+        if (responseExportService.needsBackgroundJob(responseCount)) {
+          const job = await responseExportService.createJob(survey, scope.user.id, request);
+          return sendSuccess(res, job, `This export of ${responseCount} responses is being prepared. You will be notified when it can be downloaded.`, 202);
+        }
+
+        return await streamResponseExport(res, survey, request, `survey_responses_${survey.id}.csv`);
+      }
+
+      let surveyResponses: any[] = await storage.getSurveyResponsesByCompany(companyId);
+      if (surveyId !== undefined) {
         surveyResponses = surveyResponses.filter(r => r.surveyId === surveyId);
       }
       
@@ -6613,17 +8127,16 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           data: formattedResponses
         });
       } else {
-        // Default to CSV export
-        const csvHeaders = 'id,survey_id,company_id,respondent_id,responses,demographics,traits,completed_at,created_at\n';
-        const csvRows = formattedResponses.map(row => 
-          `${row.id},"${row.survey_id}","${row.company_id}","${row.respondent_id}","${row.responses}","${row.demographics}","${row.traits}","${row.completed_at}","${row.created_at}"`
-        ).join('\n');
+        const csvData = generateCSV(surveyResponses, null);
         
         res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="survey_responses_${surveyId || 'all'}.csv"`);
-        return res.send(csvHeaders + csvRows);
+        res.setHeader('Content-Disposition', `attachment; filename="survey_responses_company_${companyId}.csv"`);
+        return res.send(csvData);
       }
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error('Error exporting survey responses:', error);
       return res.status(500).json({
         status: 'error',
@@ -6634,7 +8147,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Validate a survey response
-  app.post('/api/survey-responses/:id/validate', async (req: Request, res: Response) => {
+  app.post('/api/survey-responses/:id/validate', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
     try {
       const responseId = parseInt(req.params.id);
       
@@ -6676,7 +8189,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Anonymize a survey response
-  app.post('/api/survey-responses/:id/anonymize', async (req: Request, res: Response) => {
+  app.post('/api/survey-responses/:id/anonymize', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
     try {
       const responseId = parseInt(req.params.id);
       
@@ -6729,7 +8242,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // ============================================================================
 
   // Start survey session endpoint
-  app.post('/api/survey/start', async (req: Request, res: Response) => {
+  app.post('/api/survey/start', publicRoute, async (req: Request, res: Response) => {
     try {
       const { companyId, surveyType, surveyId } = req.body;
 
@@ -6737,24 +8250,52 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         return sendClientError(res, 'Company ID is required', 400, ErrorCodes.VALIDATION_ERROR);
       }
 
-      // Generate a unique session ID
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-      const startTime = new Date();
+      // Surveys without a database record (built-in question sets) get a session that is not persisted
+      const parsedSurveyId = surveyId ? parseInt(surveyId) : NaN;
+      const survey = !isNaN(parsedSurveyId)
+        ? await db.query.surveys.findFirst({
+            where: eq(surveys.id, parsedSurveyId),
+            columns: { id: true, companyId: true }
+          })
+        : undefined;
+
+      if (!survey) {
+        const sessionId = `${EPHEMERAL_SESSION_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+        const startTime = new Date();
+
+        return sendSuccess(res, {
+          sessionId,
+          resumeToken: null,
+          resumable: false,
+          surveyType: surveyType || 'general',
+          surveyId: null,
+          startedAt: startTime.toISOString(),
+          startTime: startTime.toISOString()
+        }, 'Survey session started successfully');
+      }
 
-      // Store session start time in memory (in production, use Redis or database)
-      // For now, we'll store it in a simple Map
-      const globalSessionStartTimes = (global as any).sessionStartTimes || new Map();
-      globalSessionStartTimes.set(sessionId, startTime);
-      (global as any).sessionStartTimes = globalSessionStartTimes;
+      // Respondents learn before answering when the survey cannot take more responses
+      const deploymentId = parseInt(req.body.deploymentId) || null;
+      const responseLimit = await entitlementService.checkResponseIntake(survey.companyId, deploymentId);
+      if (responseLimit) {
+        return sendLimitExceeded(res, responseLimit);
+      }
 
-      console.log(`DEBUG: Started survey session ${sessionId} at ${startTime.toISOString()}`);
+      const session = await surveySessionService.startSession({
+        surveyId: survey.id,
+        companyId: survey.companyId,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
 
       return sendSuccess(res, {
-        sessionId,
+        sessionId: session.sessionId,
+        resumeToken: session.resumeToken,
+        resumable: true,
         surveyType: surveyType || 'general',
-        surveyId: surveyId || null,
-        startedAt: startTime.toISOString(),
-        startTime: startTime.toISOString() // Include startTime for client to send back
+        surveyId: survey.id,
+        startedAt: session.startedAt.toISOString(),
+        startTime: session.startedAt.toISOString() // Include startTime for client to send back
       }, 'Survey session started successfully');
     } catch (error) {
       console.error('Error starting survey session:', error);
@@ -6763,7 +8304,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get survey questions endpoint
-  app.get('/api/survey/questions', async (req: Request, res: Response) => {
+  app.get('/api/survey/questions', publicRoute, async (req: Request, res: Response) => {
     try {
       const surveyType = req.query.type as string || 'general';
 
@@ -6789,43 +8330,87 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Submit individual survey answer endpoint
-  app.post('/api/survey/answer', async (req: Request, res: Response) => {
+  app.post('/api/survey/answer', publicRoute, async (req: Request, res: Response) => {
     try {
-      const { sessionId, answer, surveyType } = req.body;
+      const { sessionId, questionId, answer } = req.body;
 
-      if (!sessionId || !answer) {
+      if (!sessionId || answer === undefined || answer === null) {
         return sendClientError(res, 'Session ID and answer are required', 400, ErrorCodes.VALIDATION_ERROR);
       }
 
-      // Validate session exists (basic check)
-      // if (!sessionId.startsWith('session_')) {
-      //   return sendClientError(res, 'Invalid session ID', 400, ErrorCodes.VALIDATION_ERROR);
-      // }
+      // Sessions for built-in question sets have nothing to persist against
+      if (typeof sessionId === 'string' && sessionId.startsWith(EPHEMERAL_SESSION_PREFIX)) {
+        return sendSuccess(res, {
+          sessionId,
+          savedAt: new Date().toISOString(),
+          persisted: false,
+          progress: 'in_progress'
+        }, 'Answer accepted');
+      }
+
+      const parsedQuestionId = parseInt(questionId);
+      if (isNaN(parsedQuestionId)) {
+        return sendClientError(res, 'Question ID is required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
 
-      // In a real implementation, we would:
-      // 1. Store the answer in a temporary session store
-      // 2. Update progress tracking
-      // 3. Validate the answer format
+      const session = await surveySessionService.saveAnswer(sessionId, parsedQuestionId, answer);
 
       return sendSuccess(res, {
         sessionId,
-        answerId: Date.now(),
-        savedAt: new Date().toISOString(),
-        progress: 'in_progress'
+        questionId: parsedQuestionId,
+        answeredCount: session.answeredCount,
+        savedAt: session.lastActivityAt.toISOString(),
+        persisted: true,
+        progress: session.status
       }, 'Answer saved successfully');
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error('Error saving survey answer:', error);
       return sendServerError(res, 'Failed to save survey answer', 500, ErrorCodes.INTERNAL_ERROR);
     }
   });
 
+  // Resume a survey session from its resume token
+  app.get('/api/survey/resume/:token', publicRoute, async (req: Request, res: Response) => {
+    try {
+      const session = await surveySessionService.getSessionByResumeToken(req.params.token);
+
+      if (!session) {
+        return sendClientError(res, 'Survey session not found', 404, undefined, ErrorCodes.NOT_FOUND);
+      }
+
+      const answers = (session.answers as Record<string, any>) || {};
+
+      return sendSuccess(res, {
+        sessionId: session.sessionId,
+        surveyId: session.surveyId,
+        status: session.status,
+        answers,
+        answeredCount: session.answeredCount,
+        lastQuestionId: session.lastQuestionId,
+        surveyResponseId: session.surveyResponseId,
+        startedAt: session.startedAt.toISOString(),
+        startTime: session.startedAt.toISOString(),
+        lastActivityAt: session.lastActivityAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error resuming survey session:', error);
+      return sendServerError(res, 'Failed to resume survey session', 500, ErrorCodes.INTERNAL_ERROR);
+    }
+  });
+
   // Complete survey endpoint
-  app.post('/api/survey/complete', async (req: Request, res: Response) => {
+  app.post('/api/survey/complete', publicRoute, async (req: Request, res: Response) => {
     try {
       console.log('DEBUG: Survey completion endpoint called with body:', JSON.stringify(req.body, null, 2));
       console.log('DEBUG: Raw req.body keys:', Object.keys(req.body));
       console.log('DEBUG: req.body.surveyId:', req.body.surveyId);
       const { sessionId, surveyType, responses, demographics, surveyId: requestSurveyId, companyId: requestCompanyId, startTime } = req.body;
+      const deploymentId = Number.isInteger(Number(req.body.deploymentId)) && Number(req.body.deploymentId) > 0
+        ? Number(req.body.deploymentId)
+        : null;
 
       if (!sessionId) {
         console.error('DEBUG: No sessionId provided');
@@ -6841,16 +8426,28 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       //   return sendClientError(res, 'Invalid session ID', 400, ErrorCodes.VALIDATION_ERROR);
       // }
 
+      // Load the persisted session, if any, so answers saved along the way are not lost
+      const storedSession = await surveySessionService.getSession(sessionId);
+      if (storedSession?.status === SurveySessionStatus.COMPLETED) {
+        return sendClientError(res, 'This survey session has already been completed', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      // A session only completes the survey it was started for
+      if (storedSession && Number(requestSurveyId) !== storedSession.surveyId) {
+        return sendClientError(res, 'This survey session belongs to a different survey', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+      }
+
       // Generate a unique respondent ID
       const respondentId = `resp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
-      // Process survey responses
-      const processedResponses = responses || [];
+      // Process survey responses, merged with answers stored on the session
+      const mergedResponses = storedSession
+        ? surveySessionService.mergeAnswers(storedSession, responses)
+        : (responses || []);
 
       // Validate survey is active before accepting responses
       const surveyCheckResult = await executeWithRetry(async () => {
         return await db.execute(sql`
-          SELECT id, title, is_active, status
+          SELECT id, company_id, title, is_active, status, survey_language, published_languages
           FROM surveys
           WHERE id = ${requestSurveyId || 1}
         `);
@@ -6865,13 +8462,80 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         return sendClientError(res, 'This survey is currently inactive and not accepting responses', 403, ErrorCodes.VALIDATION_ERROR);
       }
 
+      const questionsResult = await executeWithRetry(async () => {
+        return await db.execute(sql`
+          SELECT id, question, question_type, options, required, "order", help_text, slider_config, scenario_text,
+                 custom_validation, display_logic, translations
+          FROM survey_questions
+          WHERE survey_id = ${requestSurveyId || 1}
+          ORDER BY "order" ASC
+        `);
+      });
+      const questionRows = (questionsResult.rows || []).map((q: any) => ({
+        id: q.id,
+        question: q.question,
+        questionType: q.question_type,
+        options: q.options,
+        required: q.required,
+        order: q.order,
+        helpText: q.help_text,
+        sliderConfig: q.slider_config,
+        scenarioText: q.scenario_text,
+        customValidation: q.custom_validation,
+        displayLogic: q.display_logic,
+        translations: q.translations
+      }));
+
+      // Answers picked in a translated survey are stored as the options' canonical values
+      const language = chooseSurveyLanguage(
+        typeof req.body.language === 'string' ? req.body.language : null,
+        null,
+        surveyCheck.survey_language,
+        surveyCheck.published_languages
+      ).code;
+      const canonicalResponses = (Array.isArray(mergedResponses) ? mergedResponses : []).map((item: any) => {
+        const question = questionRows.find((q: any) => String(q.id) === String(item?.questionId));
+        return question
+          ? { ...item, answer: canonicalizeAnswer(question, parseQuestionTranslations(question.translations), item.answer) }
+          : item;
+      });
+
+      // Answers saved earlier to questions that display logic now hides are dropped,
+      // then required questions are checked against what the respondent was shown.
+      // Submissions without a survey ID fall back to survey 1 and are not checked.
+      const processedResponses = pruneHiddenAnswers(questionRows, canonicalResponses);
+      if (requestSurveyId) {
+        const responseCheck = validateSurveyResponse(
+          { responses: processedResponses } as any,
+          { questions: questionRows } as any
+        );
+        if (!responseCheck.valid) {
+          return sendClientError(res, 'Survey response is incomplete or invalid', 400, responseCheck.errors, ErrorCodes.VALIDATION_ERROR);
+        }
+      }
+
+      // The license's response limit and the deployment's limit apply before anything is saved,
+      // and again when the response is stored
+      const responseLimit = await entitlementService.checkResponseIntake(Number(surveyCheck.company_id), deploymentId);
+      if (responseLimit) {
+        return sendLimitExceeded(res, responseLimit);
+      }
+
+      // Quota sampling: respondents who fall in full quota cells are screened out before scoring,
+      // and checked again under the survey's quota lock when the response is saved
+      const quotaCheck = await quotaService.checkRespondent(requestSurveyId || 1, deploymentId, demographics || {});
+      if (!quotaCheck.accepted) {
+        return sendClientError(res, quotaCheck.message!, 409, { quotas: quotaCheck.reasons }, ErrorCodes.QUOTA_FULL);
+      }
+
       // Fetch survey details and questions for AI analysis
       let generatedTraits: any = [];
+      let traitModel: TraitModel = DEFAULT_TRAIT_MODEL;
       try {
         const surveyRowResult = await executeWithRetry(async () => {
           return await db.execute(sql`
             SELECT
-              id, title, survey_type,
+              id, title, survey_type, trait_model,
               -- Business Context Columns
               product_name, product_description, industry, target_market, pain_points
             FROM surveys
@@ -6880,27 +8544,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
 
         const surveyRow = surveyRowResult.rows?.[0];
+        traitModel = resolveTraitModel(surveyRow?.trait_model);
 
-        const questionsResult = await executeWithRetry(async () => {
-          return await db.execute(sql`
-            SELECT id, question, question_type, options, required, "order", help_text, slider_config, scenario_text
-            FROM survey_questions
-            WHERE survey_id = ${requestSurveyId || 1}
-            ORDER BY "order" ASC
-          `);
-        });
-
-        const questionsForAI = (questionsResult.rows || []).map((q: any) => ({
-          id: q.id,
-          question: q.question,
-          questionType: q.question_type,
-          options: q.options,
-          required: q.required,
-          order: q.order,
-          helpText: q.help_text,
-          sliderConfig: q.slider_config,
-          scenarioText: q.scenario_text
-        }));
+        const questionsForAI = questionRows.map(({ customValidation, displayLogic, translations, ...question }: any) => question);
 
         const businessContext = {
           title: surveyRow?.title,
@@ -6912,20 +8558,26 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           painPoints: surveyRow?.pain_points,
         };
 
-        // Call Gemini to generate trait summaries from the submission
-        const gemini = new GeminiAIService();
-        generatedTraits = await gemini.generateTraitsFromSubmission(
-          questionsForAI,
-          processedResponses,
-          businessContext
-        );
+        if (hasTraitWeights(traitModel, questionsForAI)) {
+          // Weighted surveys are scored by rules; AI only adds the narrative afterwards
+          generatedTraits = scoreTraits(traitModel, questionsForAI, processedResponses).traits;
+        } else {
+          // Call Gemini to generate trait summaries from the submission
+          const gemini = new GeminiAIService();
+          generatedTraits = await gemini.generateTraitsFromSubmission(
+            questionsForAI,
+            processedResponses,
+            businessContext,
+            traitModel
+          );
+        }
       } catch (aiError) {
-        console.error('DEBUG: Gemini trait generation failed, falling back to mock:', aiError);
-        generatedTraits = generateMockTraits(processedResponses, surveyType);
+        console.error('DEBUG: Trait scoring failed, falling back to neutral scores:', aiError);
+        generatedTraits = normalizeTraitScores(traitModel, []);
       }
 
-      // Get company ID and survey ID from request body
-      const companyId = requestCompanyId || 1;
+      // The response belongs to the survey's company; the request's company ID is only a fallback
+      const companyId = Number(surveyCheck.company_id) || requestCompanyId || 1;
       const surveyId = requestSurveyId || 1;
       
       console.log('DEBUG: Extracted values - requestSurveyId:', requestSurveyId, 'requestCompanyId:', requestCompanyId);
@@ -6933,7 +8585,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       // Calculate completion time
       const completeTime = new Date();
-      const actualStartTime = startTime ? new Date(startTime) : new Date(Date.now() - 300000); // Default to 5 minutes ago if no start time
+      const actualStartTime = storedSession
+        ? new Date(storedSession.startedAt)
+        : startTime ? new Date(startTime) : new Date(Date.now() - 300000); // Default to 5 minutes ago if no start time
       
       // Calculate response time in seconds
       const responseTimeSeconds = Math.round((completeTime.getTime() - actualStartTime.getTime()) / 1000);
@@ -6947,16 +8601,55 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         responses: processedResponses,
         traits: generatedTraits,
         demographics: demographics || {},
+        deploymentId,
+        language,
+        surveyVersionId: await surveyVersionService.ensureCurrentVersion(surveyId),
         completed: true,
         startTime: actualStartTime,
         completeTime: completeTime,
         processingStatus: 'processed'
       };
 
-      // Save to database using the existing storage method
+      // Claim the session first, so a concurrent submission of it cannot store a second response
+      if (storedSession && !(await surveySessionService.claimCompletion(storedSession.sessionId))) {
+        return sendClientError(res, 'This survey session has already been completed', 409, undefined, ErrorCodes.CONFLICT);
+      }
+
+      const releaseSession = async () => {
+        if (storedSession) {
+          await surveySessionService.releaseCompletion(storedSession.sessionId).catch(err => {
+            console.error('Failed to release the survey session after a failed save:', err);
+          });
+        }
+      };
+
+      // Save to database using the existing storage method, in the transaction that rechecks
+      // the quotas and the response limits
       console.log('DEBUG: Saving survey response with data:', JSON.stringify(surveyResponseData, null, 2));
-      const savedResponse = await storage.createSurveyResponse(surveyResponseData);
+      let admission;
+      try {
+        admission = await quotaService.admitRespondent(surveyId, deploymentId, demographics || {}, async tx => {
+          await entitlementService.reserveResponseIntake(tx, companyId, deploymentId);
+          return storage.createSurveyResponse(surveyResponseData, tx);
+        });
+      } catch (saveError) {
+        await releaseSession();
+        if (saveError instanceof EntitlementError) {
+          return sendLimitExceeded(res, saveError.violation);
+        }
+        throw saveError;
+      }
+      if (!admission.check.accepted) {
+        await releaseSession();
+        return sendClientError(res, admission.check.message!, 409, { quotas: admission.check.reasons }, ErrorCodes.QUOTA_FULL);
+      }
+      const savedResponse = admission.saved;
       console.log('DEBUG: Survey response saved successfully, ID:', savedResponse.id);
+
+      // Turn the partial session into a completed one linked to the stored response
+      if (storedSession && savedResponse?.id) {
+        await surveySessionService.completeSession(storedSession.sessionId, savedResponse.id);
+      }
       
       // Trigger AI enrichment for derived fields in background (non-blocking)
       (async () => {
@@ -7008,6 +8701,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         timestamp: new Date().toISOString()
       });
 
+      // Update quota dashboards with the new fill levels
+      if (admission.check.hasQuotas) {
+        broadcastQuotaUpdate(surveyId, companyId);
+      }
+
       const successResponse = {
         responseId: savedResponse.id,
         respondentId: respondentId,
@@ -7020,6 +8718,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       
       return sendSuccess(res, successResponse, 'Survey completed successfully');
     } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
       console.error('DEBUG: Error completing survey:', error);
       console.error('DEBUG: Error stack:', error instanceof Error ? error.stack : 'No stack trace');
       return sendServerError(res, 'Failed to complete survey', 500, ErrorCodes.INTERNAL_ERROR);
@@ -7027,7 +8728,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get survey results endpoint
-  app.get('/api/survey/results/:responseId', async (req: Request, res: Response) => {
+  app.get('/api/survey/results/:responseId', publicRoute, async (req: Request, res: Response) => {
     try {
       const responseId = req.params.responseId;
 
@@ -7045,11 +8746,14 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         return sendClientError(res, 'Survey response not found', 404, ErrorCodes.NOT_FOUND);
       }
 
+      const traitModel = await traitModelService.getSurveyTraitModel(response.surveyId);
+
       return sendSuccess(res, {
         responseId: response.id,
         respondentId: response.respondentId,
         responses: response.responses,
         traits: response.traits,
+        traitModel,
         demographics: response.demographics,
         completedAt: response.completeTime || response.createdAt,
         surveyId: response.surveyId,
@@ -7061,28 +8765,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  // Helper function to generate mock traits based on responses
-  const generateMockTraits = (responses: any[], surveyType: string) => {
-    const traits = [
-      { name: 'Innovation', score: Math.floor(Math.random() * 30) + 70, category: 'behavioral' },
-      { name: 'Analytical Thinking', score: Math.floor(Math.random() * 25) + 65, category: 'cognitive' },
-      { name: 'Leadership', score: Math.floor(Math.random() * 35) + 60, category: 'social' },
-      { name: 'Adaptability', score: Math.floor(Math.random() * 20) + 75, category: 'behavioral' },
-      { name: 'Creativity', score: Math.floor(Math.random() * 40) + 55, category: 'cognitive' }
-    ];
-
-    // Adjust traits based on survey type
-    if (surveyType === 'leadership') {
-      traits.push({ name: 'Decision Making', score: Math.floor(Math.random() * 25) + 70, category: 'leadership' });
-    } else if (surveyType === 'personality') {
-      traits.push({ name: 'Emotional Intelligence', score: Math.floor(Math.random() * 30) + 65, category: 'emotional' });
-    }
-
-    return traits;
-  };
-
   // Add these debug routes to help diagnose the session issue
-  app.get('/api/debug/session', (req: Request, res: Response) => {
+  app.get('/api/debug/session', requirePermission(Permission.SYSTEM_CONFIGURATION), (req: Request, res: Response) => {
     res.json({
       session: req.session,
       sessionId: req.sessionID,
@@ -7090,7 +8774,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     });
   });
 
-  app.get('/api/debug/users', async (req: Request, res: Response) => {
+  app.get('/api/debug/users', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
     try {
       const allUsers = await db.query.users.findMany({
         columns: { id: true, username: true, email: true, companyId: true }
@@ -7104,7 +8788,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
   // Survey creation endpoint with license enforcement
-  app.post('/api/surveys', async (req: Request, res: Response) => {
+  app.post('/api/surveys', requirePermission(Permission.CREATE_SURVEY), async (req: Request, res: Response) => {
   try {
     console.log('📝 Survey creation request received:', req.body);
     console.log('🔍 Full session data:', req.session);
@@ -7187,27 +8871,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
     console.log(`✅ Company found: ${company.name}`);
 
-    // Check survey count limit
-    const existingSurveysResult = await db.execute(sql`
-      SELECT COUNT(*) as count FROM surveys WHERE company_id = ${companyId}
-    `);
-
-    const currentSurveyCount = parseInt(existingSurveysResult.rows[0]?.count as string || '0');
-    const maxSurveys = company.maxSurveys || 5; // Default to 5 if not set
-
-    console.log(`📊 Current surveys: ${currentSurveyCount}, Max allowed: ${maxSurveys}`);
-
-    if (currentSurveyCount >= maxSurveys) {
-      console.log(`❌ Survey limit exceeded`);
-      return res.status(403).json({
-        status: 'error',
-        message: `Survey limit reached. You can create up to ${maxSurveys} surveys with your current license.`,
-        code: 'SURVEY_LIMIT_EXCEEDED',
-        limits: {
-          current: currentSurveyCount,
-          maximum: maxSurveys
-        }
-      });
+    // The license decides how many surveys the company can have
+    const surveyLimit = await entitlementService.checkSurveyCreation(companyId);
+    if (surveyLimit) {
+      console.log(`❌ Survey creation refused: ${surveyLimit.code}`);
+      return sendLimitExceeded(res, surveyLimit);
     }
 
     // Validate survey data
@@ -7221,6 +8889,31 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       });
     }
 
+    // Question types and their settings are checked before anything is saved
+    const questionConfigErrors = Array.isArray(req.body.questions) ? validateQuestionConfigs(req.body.questions) : null;
+    if (questionConfigErrors) {
+      return sendClientError(res, 'Some questions are not set up correctly', 400, questionConfigErrors, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    // Trait model: explicit model first, then the template's model, else the default
+    let traitModel: TraitModel | null = null;
+    try {
+      if (req.body.traitModel !== undefined && req.body.traitModel !== null) {
+        traitModel = traitModelService.validate(req.body.traitModel);
+      } else if (req.body.templateId) {
+        traitModel = await traitModelService.getTemplateTraitModel(parseInt(req.body.templateId));
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+      }
+      throw error;
+    }
+
+    // With an approval workflow, new surveys stay inactive until a review approves them
+    const approvalWorkflow = await approvalService.getWorkflow(companyId);
+    const requestedActive = req.body.isActive !== undefined ? !!req.body.isActive : true;
+
     console.log(`📝 Creating survey: ${title} for company: ${company.name}`);
 
     // Create survey data with proper database fields including business context
@@ -7230,7 +8923,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       title,
       description: description || '',
       surveyType: surveyType || 'general',
-      isActive: req.body.isActive !== undefined ? !!req.body.isActive : true,
+      isActive: requestedActive && !approvalWorkflow.enabled,
+      ...(approvalWorkflow.enabled ? { status: 'draft' } : {}),
       isPublic: req.body.isPublic !== undefined ? !!req.body.isPublic : false,
       allowAnonymous: req.body.allowAnonymous !== undefined ? !!req.body.allowAnonymous : true,
       requireEmail: req.body.requireEmail !== undefined ? !!req.body.requireEmail : false,
@@ -7268,6 +8962,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       // AI Responses Settings
       enableAIResponses: req.body.aiResponses?.enabled !== undefined ? req.body.aiResponses.enabled : false,
 
+      traitModel,
+
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -7288,7 +8984,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     console.log(`📋 Request body templateId:`, req.body.templateId);
 
     // Track survey creation event for notifications
-    await trackSurveyCreated(newSurvey.id, newSurvey.title, user.username, userId).catch(err => {
+    await trackSurveyCreated(newSurvey.id, newSurvey.title, user.username, userId, newSurvey.companyId).catch(err => {
       console.error('Failed to track survey creation event:', err);
       // Don't block the survey creation if tracking fails
     });
@@ -7364,6 +9060,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
             order: q.order ?? i + 1,
             options: q.options || null,
             customValidation: q.customValidation || null,
+            displayLogic: resolveDisplayLogic(q.displayLogic, q.order ?? i + 1),
           };
           if (qType === 'slider' && q.sliderConfig) {
             insertValues.sliderConfig = q.sliderConfig;
@@ -7378,6 +9075,16 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
     }
 
+    // Surveys that go live straight away get their first published version
+    if (newSurvey.status === 'active' && newSurvey.isActive) {
+      await surveyVersionService.publishWorkingCopy(newSurvey.id, {}, userId).catch(err => {
+        console.error('Failed to publish the first survey version:', err);
+      });
+      await trackSurveyPublished(newSurvey.id, newSurvey.title, userId, newSurvey.companyId).catch(err => {
+        console.error('Failed to track survey publication event:', err);
+      });
+    }
+
     res.status(201).json({
       status: 'success',
       message: 'Survey created successfully',
@@ -7395,7 +9102,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 });
 
   // Surveys API endpoint
-  app.get('/api/surveys', async (req: Request, res: Response) => {
+  app.get('/api/surveys', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
     try {
       // Get the user's company ID from session or user object
       const companyId = req.session?.companyId || req.user?.companyId;
@@ -7469,7 +9176,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Dashboard-specific surveys list endpoint with enhanced authentication
-  app.get('/api/dashboard/surveys', async (req: Request, res: Response) => {
+  app.get('/api/dashboard/surveys', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
     try {
       // Enhanced authentication check for dashboard
       if (!req.session || !req.session.userId) {
@@ -7630,7 +9337,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Single survey retrieval endpoint
-  app.get('/api/surveys/:id', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id', publicRoute, async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       if (isNaN(surveyId)) {
@@ -7645,9 +9352,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       
       // Check if this is a preview request (only allowed for admins)
       const isPreview = req.query.preview === 'true';
-      const isAdmin = req.headers['x-mock-admin'] === 'true' || 
-                      req.session?.userRole === 'platform_admin' || 
-                      req.user?.role === 'platform_admin';
+      const isAdmin = isPlatformAdminRequest(req, req.user);
       
       // Get the user's company ID from session or user object (may be undefined for anonymous users)
       const companyId = req.session?.companyId || req.user?.companyId;
@@ -7717,7 +9422,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
               product_name, product_description, product_category, product_features,
               value_proposition, competitors, target_market, industry, pain_points,
               -- Survey Configuration Columns
-              survey_language, enable_ai_insights, enable_social_sharing, enable_ai_responses,
+              survey_language, translation_languages, published_languages, translations, enable_ai_insights, enable_social_sharing, enable_ai_responses, trait_model,
               -- Demographic Collection Settings
               collect_age, collect_gender, collect_location, collect_education, collect_income
             FROM surveys
@@ -7736,7 +9441,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
               product_name, product_description, product_category, product_features,
               value_proposition, competitors, target_market, industry, pain_points,
               -- Survey Configuration Columns
-              survey_language, enable_ai_insights, enable_social_sharing, enable_ai_responses,
+              survey_language, translation_languages, published_languages, translations, enable_ai_insights, enable_social_sharing, enable_ai_responses, trait_model,
               -- Demographic Collection Settings
               collect_age, collect_gender, collect_location, collect_education, collect_income
             FROM surveys
@@ -7756,12 +9461,24 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       }
       
       const row = result.rows[0];
+
+      // Respondents ask for a published language (or "auto"); the editor leaves it out and gets the source texts
+      const language = typeof req.query.lang === 'string'
+        ? chooseSurveyLanguage(req.query.lang, req.headers['accept-language'], row.survey_language, row.published_languages)
+        : null;
+      const content = localizeSurveyContent({
+        title: row.title,
+        description: row.description,
+        customWelcomeMessage: row.custom_welcome_message,
+        customCompletionMessage: row.custom_completion_message
+      }, parseSurveyContentTranslations(row.translations), language?.code ?? row.survey_language);
+
       const formattedSurvey = {
         id: row.id,
         companyId: row.company_id,
         createdById: row.created_by_id,
-        title: row.title,
-        description: row.description,
+        title: content.title,
+        description: content.description,
         surveyType: row.survey_type,
         isActive: row.is_active,
         isPublic: row.is_public,
@@ -7769,8 +9486,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         customLogo: row.custom_logo,
         customTheme: row.custom_theme,
         customCss: row.custom_css,
-        customWelcomeMessage: row.custom_welcome_message,
-        customCompletionMessage: row.custom_completion_message,
+        customWelcomeMessage: content.customWelcomeMessage,
+        customCompletionMessage: content.customCompletionMessage,
         redirectUrl: row.redirect_url,
         allowAnonymous: row.allow_anonymous,
         requireEmail: row.require_email,
@@ -7796,10 +9513,14 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
         // Survey Configuration Data
         surveyLanguage: row.survey_language,
+        translationLanguages: surveyLanguages(row.survey_language, row.translation_languages).slice(1),
+        publishedLanguages: surveyLanguages(row.survey_language, row.published_languages).slice(1),
+        language,
         enableAIInsights: row.enable_ai_insights,
         enableSocialSharing: row.enable_social_sharing,
         enableAIResponses: row.enable_ai_responses,
         aiResponses: { enabled: row.enable_ai_responses },
+        traitModel: resolveTraitModel(row.trait_model),
 
         // Demographic Collection Settings
         demographics: {
@@ -7826,7 +9547,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Alternative endpoint for single survey retrieval
-  app.get('/api/survey/:id', async (req: Request, res: Response) => {
+  app.get('/api/survey/:id', publicRoute, async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       if (isNaN(surveyId)) {
@@ -7910,7 +9631,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Dashboard-specific survey endpoint with enhanced authentication
-  app.get('/api/dashboard/surveys/:id', async (req: Request, res: Response) => {
+  app.get('/api/dashboard/surveys/:id', requirePermission(Permission.VIEW_SURVEYS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       if (isNaN(surveyId)) {
@@ -8114,7 +9835,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get questions for a specific survey
-  app.get('/api/surveys/:id/questions', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/questions', publicRoute, async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       if (isNaN(surveyId)) {
@@ -8129,9 +9850,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       // Check if this is a preview request (only allowed for admins)
       const isPreview = req.query.preview === 'true';
-      const isAdmin = req.headers['x-mock-admin'] === 'true' || 
-                      req.session?.userRole === 'platform_admin' || 
-                      req.user?.role === 'platform_admin';
+      const isAdmin = isPlatformAdminRequest(req, req.user);
 
       // Get the user's company ID from session or user object (if authenticated)
       const companyId = req.session?.companyId || req.user?.companyId;
@@ -8139,7 +9858,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       // First verify the survey exists and check access
       const surveyCheck = await executeWithRetry(async () => {
         return await db.execute(sql`
-          SELECT id, company_id, is_public, allow_anonymous FROM surveys
+          SELECT id, company_id, is_public, allow_anonymous, survey_language, published_languages FROM surveys
           WHERE id = ${surveyId}
         `);
       });
@@ -8174,7 +9893,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           SELECT
             id, survey_id, question, question_type, required,
             help_text, "order", options, custom_validation,
-            slider_config, scenario_text,
+            slider_config, scenario_text, display_logic, translations,
             created_at, updated_at
           FROM survey_questions
           WHERE survey_id = ${surveyId}
@@ -8182,7 +9901,33 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         `);
       });
 
-      const formattedQuestions = questionsResult.rows.map((row: any) => {
+      // Translated texts for respondents who ask for a published language; option values stay canonical
+      const language = typeof req.query.lang === 'string'
+        ? chooseSurveyLanguage(req.query.lang, req.headers['accept-language'], survey.survey_language, survey.published_languages)
+        : null;
+
+      const formattedQuestions = questionsResult.rows.map((stored: any) => {
+        const localized = language
+          ? localizeQuestion({
+              id: stored.id,
+              question: stored.question,
+              helpText: stored.help_text,
+              scenarioText: stored.scenario_text,
+              options: stored.options,
+              sliderConfig: stored.slider_config
+            }, parseQuestionTranslations(stored.translations), language.code)
+          : null;
+        const row = localized
+          ? {
+              ...stored,
+              question: localized.question,
+              help_text: localized.helpText,
+              scenario_text: localized.scenarioText,
+              options: localized.options,
+              slider_config: localized.sliderConfig
+            }
+          : stored;
+
         // Handle options - convert to array of objects with {id, text, value}
         let options: any[] = [];
         if (row.options) {
@@ -8223,6 +9968,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           customValidation: row.custom_validation,
           sliderConfig: row.slider_config,
           scenarioText: row.scenario_text,
+          displayLogic: row.display_logic,
           createdAt: row.created_at,
           updatedAt: row.updated_at
         };
@@ -8233,7 +9979,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       res.json({
         status: 'success',
-        data: formattedQuestions
+        data: formattedQuestions,
+        ...(language ? { language } : {})
       });
     } catch (error) {
       console.error(`Error fetching questions for survey ${req.params.id}:`, error);
@@ -8246,7 +9993,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Update survey endpoint for survey editing
-  app.put('/api/surveys/:id', async (req: Request, res: Response) => {
+  app.put('/api/surveys/:id', requirePermission(Permission.EDIT_SURVEY), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
 
@@ -8269,10 +10016,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
-      // Check if user is admin
-      const isAdminUser = req.headers['x-mock-admin'] === 'true' ||
-                         req.session?.userRole === 'platform_admin' ||
-                         req.user?.role === 'platform_admin';
+      // Check if user manages client accounts
+      const isAdminUser = hasRequestPermission(req, Permission.MANAGE_CLIENT_ACCOUNTS);
 
       // If survey is admin-deactivated, only admins can edit it
       if (existingSurvey.adminDeactivated && !isAdminUser) {
@@ -8285,6 +10030,23 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       const updateData = req.body;
       console.log('Survey update request:', updateData);
 
+      const questionConfigErrors = Array.isArray(updateData.questions) ? validateQuestionConfigs(updateData.questions) : null;
+      if (questionConfigErrors) {
+        return sendClientError(res, 'Some questions are not set up correctly', 400, questionConfigErrors, ErrorCodes.VALIDATION_ERROR);
+      }
+
+      let traitModel = existingSurvey.traitModel;
+      if (updateData.traitModel !== undefined) {
+        try {
+          traitModel = updateData.traitModel === null ? null : traitModelService.validate(updateData.traitModel);
+        } catch (error) {
+          if (error instanceof AppError) {
+            return sendClientError(res, error.message, error.statusCode, error.errors, error.code);
+          }
+          throw error;
+        }
+      }
+
       // Prepare update data with proper field mapping including business context
       const surveyUpdateData: any = {
         title: updateData.title,
@@ -8332,9 +10094,61 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         collectEducation: updateData.demographics?.collectEducation !== undefined ? updateData.demographics.collectEducation : existingSurvey.collectEducation,
         collectIncome: updateData.demographics?.collectIncome !== undefined ? updateData.demographics.collectIncome : existingSurvey.collectIncome,
 
+        traitModel,
+
         updatedAt: new Date()
       };
 
+      const payloadQuestions = Array.isArray(updateData.questions) ? updateData.questions : [];
+      const questionValues = (q: any, i: number) => {
+        const qType = q.questionType || 'multiple-choice';
+        return {
+          surveyId,
+          question: q.question,
+          questionType: qType,
+          required: q.required !== undefined ? q.required : true,
+          helpText: q.helpText || null,
+          order: q.order ?? i + 1,
+          options: q.options || null,
+          customValidation: q.customValidation || null,
+          displayLogic: resolveDisplayLogic(q.displayLogic, q.order ?? i + 1),
+          // Type-specific fields
+          sliderConfig: qType === 'slider' && q.sliderConfig ? q.sliderConfig : null,
+          scenarioText: qType === 'scenario' && q.scenarioText ? q.scenarioText : null,
+          updatedAt: new Date(),
+        };
+      };
+
+      // With an approval workflow, a survey respondents can answer only takes approved content
+      if (surveyUpdateData.isActive ?? existingSurvey.isActive) {
+        const existingQuestions = await db.query.surveyQuestions.findMany({
+          where: eq(surveyQuestions.surveyId, surveyId)
+        });
+        const existingQuestionsById = new Map<number, any>(existingQuestions.map((q: any) => [q.id, q]));
+        const nextQuestions = payloadQuestions.length > 0
+          ? payloadQuestions.map((q: any, i: number) => {
+            const current = existingQuestionsById.get(Number(q.id));
+            // Questions that do not exist yet cannot match an approved snapshot
+            return { ...questionValues(q, i), id: current ? current.id : 0, translations: current?.translations ?? null };
+          })
+          : existingQuestions;
+        const nextSettings = Object.fromEntries(
+          Object.entries(surveyUpdateData).filter(([, value]) => value !== undefined)
+        );
+        const gate = await approvalService.contentGate(
+          existingSurvey,
+          buildSurveySnapshot({ ...existingSurvey, ...nextSettings }, nextQuestions)
+        );
+        if (!gate.approved) {
+          return res.status(409).json({
+            status: 'error',
+            message: gate.reason,
+            code: ErrorCodes.CONFLICT,
+            data: gate
+          });
+        }
+      }
+
       // Update the survey in the database
       const [updatedSurvey] = await db.update(surveys)
         .set(surveyUpdateData)
@@ -8355,7 +10169,6 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       });
 
       // Handle questions upsert/delete if provided
-      const payloadQuestions = Array.isArray(updateData.questions) ? updateData.questions : [];
       if (payloadQuestions.length > 0) {
         try {
           // Fetch existing questions
@@ -8370,30 +10183,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           // Update or insert
           for (let i = 0; i < payloadQuestions.length; i++) {
             const q = payloadQuestions[i];
-            const qType = q.questionType || 'multiple-choice';
-
-            const values: any = {
-              surveyId,
-              question: q.question,
-              questionType: qType,
-              required: q.required !== undefined ? q.required : true,
-              helpText: q.helpText || null,
-              order: q.order ?? i + 1,
-              options: q.options || null,
-              customValidation: q.customValidation || null,
-              updatedAt: new Date(),
-            };
-            // Type-specific fields
-            if (qType === 'slider' && q.sliderConfig) {
-              values.sliderConfig = q.sliderConfig;
-            } else {
-              values.sliderConfig = null;
-            }
-            if (qType === 'scenario' && q.scenarioText) {
-              values.scenarioText = q.scenarioText;
-            } else {
-              values.scenarioText = null;
-            }
+            const values: any = questionValues(q, i);
 
             if (q.id && existingById.has(Number(q.id))) {
               const qid = Number(q.id);
@@ -8420,6 +10210,23 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         }
       }
 
+      // Edits to a live survey are published as a new version, so earlier
+      // responses keep the questions they were answered against
+      if (updatedSurvey.status === 'active' && updatedSurvey.isActive) {
+        try {
+          const { version, created } = await surveyVersionService.publishWorkingCopy(surveyId, {}, req.session?.userId ?? null);
+          if (created) {
+            updatedSurvey.currentVersionId = version.id;
+          }
+        } catch (versionError) {
+          console.error('Error publishing survey version:', versionError);
+        }
+      }
+
+      await trackSurveyUpdated(surveyId, updatedSurvey.title, req.session?.userId ?? 0, updatedSurvey.companyId).catch(err => {
+        console.error('Failed to track survey update event:', err);
+      });
+
       console.log(`Survey ${surveyId} updated successfully`);
 
       res.json({
@@ -8439,7 +10246,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Delete survey endpoint - public endpoint with no middleware or limitations
-  app.delete('/api/surveys/:id', async (req: Request, res: Response) => {
+  app.delete('/api/surveys/:id', requirePermission(Permission.DELETE_SURVEY), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
 
@@ -8465,7 +10272,10 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
       // Delete related records first (due to foreign key constraints)
       // Delete survey questions
       await db.delete(surveyQuestions).where(eq(surveyQuestions.surveyId, surveyId));
-      
+
+      // Delete partial survey sessions (cascade will handle this, but explicit for clarity)
+      await db.delete(surveySessions).where(eq(surveySessions.surveyId, surveyId));
+
       // Delete survey responses
       await db.execute(sql`DELETE FROM survey_responses WHERE survey_id = ${surveyId}`);
       
@@ -8486,7 +10296,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       // Track survey deletion event for notifications
       const userId = (req.session as any)?.userId || 1;
-      await trackSurveyDeleted(existingSurvey.title, userId).catch(err => {
+      await trackSurveyDeleted(existingSurvey.title, userId, surveyId, existingSurvey.companyId).catch(err => {
         console.error('Failed to track survey deletion event:', err);
         // Don't block the survey deletion if tracking fails
       });
@@ -8526,10 +10336,10 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Update survey status (enable/disable)
-  app.patch('/api/surveys/:id/status', async (req: Request, res: Response) => {
+  app.patch('/api/surveys/:id/status', requirePermission(Permission.PUBLISH_SURVEY), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
-      const { status, isAdmin } = req.body;
+      const { status } = req.body;
 
       if (isNaN(surveyId)) {
         return res.status(400).json({
@@ -8545,11 +10355,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
-      // Check if user is admin (for admin-side deactivation)
-      const isAdminUser = isAdmin || 
-                         req.headers['x-mock-admin'] === 'true' ||
-                         req.session?.userRole === 'platform_admin' ||
-                         req.user?.role === 'platform_admin';
+      // Check if user manages client accounts (for admin-side deactivation)
+      const isAdminUser = hasRequestPermission(req, Permission.MANAGE_CLIENT_ACCOUNTS);
 
       // Check if survey exists
       const existingSurvey = await db.query.surveys.findFirst({
@@ -8585,10 +10392,35 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         }
       }
 
+      // With an approval workflow, only approved questions can go live
+      if (isActive) {
+        const gate = await approvalService.publishGate(existingSurvey);
+        if (!gate.approved) {
+          return res.status(409).json({
+            status: 'error',
+            message: gate.reason,
+            code: ErrorCodes.CONFLICT,
+            data: gate
+          });
+        }
+      }
+
       await db.update(surveys)
         .set(updateData)
         .where(eq(surveys.id, surveyId));
 
+      // Going live publishes the questions respondents will answer
+      if (isActive) {
+        await surveyVersionService.publishWorkingCopy(surveyId, {}, req.session?.userId ?? null).catch(err => {
+          console.error('Failed to publish survey version on activation:', err);
+        });
+        if (!existingSurvey.isActive) {
+          await trackSurveyPublished(surveyId, existingSurvey.title, req.session?.userId ?? 0, existingSurvey.companyId).catch(err => {
+            console.error('Failed to track survey publication event:', err);
+          });
+        }
+      }
+
       // Broadcast survey status update via WebSocket
       const companyId = existingSurvey.companyId;
       websocketManager.broadcast({
@@ -8623,7 +10455,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Reset survey (delete all responses)
-  app.post('/api/surveys/:id/reset', async (req: Request, res: Response) => {
+  app.post('/api/surveys/:id/reset', requirePermission(Permission.DELETE_SURVEY), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
 
@@ -8678,7 +10510,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Flag survey issue
-  app.post('/api/surveys/:id/flag', async (req: Request, res: Response) => {
+  app.post('/api/surveys/:id/flag', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       const { type, description } = req.body;
@@ -8787,7 +10619,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Add admin note to survey
-  app.post('/api/surveys/:id/notes', async (req: Request, res: Response) => {
+  app.post('/api/surveys/:id/notes', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       const { note } = req.body;
@@ -8846,7 +10678,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get survey flags
-  app.get('/api/surveys/:id/flags', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/flags', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
 
@@ -8892,7 +10724,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  app.post('/api/debug/clear-session', (req: Request, res: Response) => {
+  app.post('/api/debug/clear-session', requirePermission(Permission.SYSTEM_CONFIGURATION), (req: Request, res: Response) => {
     req.session.destroy((err) => {
       if (err) {
         console.error('Error destroying session:', err);
@@ -8903,7 +10735,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Test survey creation with current session
-  app.post('/api/debug/test-survey-creation', async (req: Request, res: Response) => {
+  app.post('/api/debug/test-survey-creation', requirePermission(Permission.SYSTEM_CONFIGURATION), async (req: Request, res: Response) => {
     try {
       console.log('🔍 Debug survey creation test');
       console.log('Session data:', req.session);
@@ -8994,7 +10826,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
     
   // Newsletter subscription endpoints
-  app.post('/api/newsletter/subscribe', async (req: Request, res: Response) => {
+  app.post('/api/newsletter/subscribe', publicRoute, async (req: Request, res: Response) => {
     try {
       const { email, name } = req.body;
       
@@ -9059,7 +10891,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
     }
   });
 
-  app.post('/api/newsletter/unsubscribe', async (req: Request, res: Response) => {
+  app.post('/api/newsletter/unsubscribe', publicRoute, async (req: Request, res: Response) => {
     try {
       const { email } = req.body;
       
@@ -9104,7 +10936,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Cookie consent endpoint for GDPR compliance
-  app.post('/api/cookie-consent', async (req: Request, res: Response) => {
+  app.post('/api/cookie-consent', publicRoute, async (req: Request, res: Response) => {
     try {
       const { 
         sessionId, 
@@ -9216,7 +11048,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // });
 
   // Users/Agents API endpoint
-  app.get('/api/users/agents', async (_req: Request, res: Response) => {
+  app.get('/api/users/agents', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (_req: Request, res: Response) => {
     try {
       const agents = await db.query.users.findMany({
         where: (users: any, { eq }: any) => eq(users.role, 'SUPPORT_AGENT'),
@@ -9265,7 +11097,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Support tickets API endpoint - GET
-  app.get('/api/support/tickets', async (req: Request, res: Response) => {
+  app.get('/api/support/tickets', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       // Get query parameters
       const status = req.query.status as string;
@@ -9382,7 +11214,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Support ticket creation endpoint - POST (public route, no middleware)
-  app.post('/api/support/ticket', async (req: Request, res: Response) => {
+  app.post('/api/support/ticket', requireSignedIn, async (req: Request, res: Response) => {
     try {
       const { subject, description, companyId, userId, priority, type } = req.body;
 
@@ -9445,7 +11277,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Support ticket comments - GET
-  app.get('/api/support/tickets/:id/comments', async (req: Request, res: Response) => {
+  app.get('/api/support/tickets/:id/comments', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       const ticketId = parseInt(req.params.id);
       if (Number.isNaN(ticketId)) {
@@ -9473,7 +11305,25 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Support ticket comments - POST
-  app.post('/api/support/tickets/:id/comments', async (req: Request, res: Response) => {
+  // Email the ticket owner about a status change or a public reply
+  const notifyTicketOwner = async (
+    req: Request,
+    ticket: { userId: number; ticketNumber: string; subject: string },
+    update: { status?: string; comment?: string }
+  ) => {
+    const owner = await db.query.users.findFirst({
+      where: eq(users.id, ticket.userId),
+      columns: { id: true, email: true, username: true, firstName: true }
+    });
+    if (!owner?.email) return;
+
+    await sendSupportTicketUpdateEmail(owner.email, ticket, update, getBaseUrl(req), {
+      name: owner.firstName || owner.username,
+      userId: owner.id
+    });
+  };
+
+  app.post('/api/support/tickets/:id/comments', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       const ticketId = parseInt(req.params.id);
       if (Number.isNaN(ticketId)) {
@@ -9515,6 +11365,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         throw new Error('Failed to create comment');
       }
 
+      if (!newComment.isInternal && resolvedUserId !== ticket.userId) {
+        notifyTicketOwner(req, ticket, { comment: newComment.content })
+          .catch(error => console.error('Error emailing ticket owner about reply:', error));
+      }
+
       return res.status(201).json({ success: true, comment: newComment });
     } catch (error) {
       console.error('Error adding ticket comment:', error);
@@ -9523,7 +11378,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Support ticket update endpoint - PATCH (status/assignment)
-  app.patch('/api/support/tickets/:id', async (req: Request, res: Response) => {
+  app.patch('/api/support/tickets/:id', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       const ticketId = parseInt(req.params.id);
       if (Number.isNaN(ticketId)) {
@@ -9560,6 +11415,13 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
 
       const updateData: any = { updatedAt: new Date() };
 
+      const previous = status !== undefined
+        ? await db.query.supportTickets.findFirst({
+          where: eq(supportTickets.id, ticketId),
+          columns: { status: true }
+        })
+        : undefined;
+
       if (status !== undefined) {
         updateData.status = status;
         if (status === 'resolved') {
@@ -9606,6 +11468,11 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
+      if (previous && previous.status !== updated.status) {
+        notifyTicketOwner(req, updated, { status: updated.status })
+          .catch(error => console.error('Error emailing ticket owner about status change:', error));
+      }
+
       return res.json({
         status: 'success',
         message: 'Support ticket updated successfully',
@@ -9622,7 +11489,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
   
   // Notifications API endpoint
-  app.get('/api/notifications', async (req: Request, res: Response) => {
+  app.get('/api/notifications', requireSignedIn, async (req: Request, res: Response) => {
     try {
       const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
@@ -9690,7 +11557,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   app.use('/api/newsletter', newsletterRouter);
   
   // Demo request endpoint for public forms - POST (create)
-  app.post('/api/demo-request', async (req: Request, res: Response) => {
+  app.post('/api/demo-request', publicRoute, async (req: Request, res: Response) => {
     try {
       const demoRequestData = req.body;
 
@@ -9745,7 +11612,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Demo request endpoint for public access - GET (read all)
-  app.get('/api/demo-request', async (req: Request, res: Response) => {
+  app.get('/api/demo-request', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       // No authentication required - public endpoint
       console.log(`Public demo request fetch from IP: ${req.ip}`);
@@ -9797,7 +11664,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Demo request endpoint for public access - DELETE (delete by ID)
-  app.delete('/api/demo-request/:id', async (req: Request, res: Response) => {
+  app.delete('/api/demo-request/:id', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -9839,7 +11706,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Demo request endpoint for public access - PATCH (update by ID)
-  app.patch('/api/demo-request/:id', async (req: Request, res: Response) => {
+  app.patch('/api/demo-request/:id', requirePermission(Permission.MANAGE_SUPPORT_TICKETS), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -9952,7 +11819,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // });
   
   // System settings endpoints
-  app.get('/api/system/settings', async (_req: Request, res: Response) => {
+  app.get('/api/system/settings', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req: Request, res: Response) => {
     try {
       // Query system settings from the database
       const settings = await db.query.systemSettings.findFirst();
@@ -9964,6 +11831,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
             siteName: 'PersonalysisKIRK',
             maintenanceMode: false,
             defaultLanguage: 'en',
+            translationPublishThreshold: DEFAULT_TRANSLATION_PUBLISH_THRESHOLD,
             timezone: 'UTC'
           },
           security: {
@@ -10118,7 +11986,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // === CORE API ROUTES ===
   
   // Health check endpoint
-  app.get('/api/health', (req: Request, res: Response) => {
+  app.get('/api/health', publicRoute, (req: Request, res: Response) => {
     res.json({
       status: 'healthy',
       timestamp: new Date().toISOString(),
@@ -10139,7 +12007,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // ============================================================================
 
   // Get all templates (public API)
-  app.get('/api/templates', async (_req: Request, res: Response) => {
+  app.get('/api/templates', publicRoute, async (_req: Request, res: Response) => {
     try {
       console.log('📋 Fetching templates...');
       
@@ -10209,7 +12077,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get single template by ID
-  app.get('/api/templates/:id', async (req: Request, res: Response) => {
+  app.get('/api/templates/:id', publicRoute, async (req: Request, res: Response) => {
     try {
       const templateId = parseInt(req.params.id);
       
@@ -10256,7 +12124,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Create new template
-  app.post('/api/templates', async (req: Request, res: Response) => {
+  app.post('/api/templates', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const templateData = req.body;
 
@@ -10274,7 +12142,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         description: templateData.description || '',
         estimatedTime: templateData.estimatedTime || null,
         questionCount: templateData.questionCount || 0,
-        traits: templateData.traits || null,
+        traits: Array.isArray(templateData.traits) && templateData.traits.length > 0 ? resolveTraitModel(templateData.traits) : null,
         isActive: templateData.isActive !== undefined ? templateData.isActive : true,
         surveyType: templateData.surveyType,
         image: templateData.image || null,
@@ -10319,7 +12187,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Update template
-  app.put('/api/templates/:id', async (req: Request, res: Response) => {
+  app.put('/api/templates/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const templateId = parseInt(req.params.id);
 
@@ -10352,7 +12220,9 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
           description: templateData.description,
           estimatedTime: templateData.estimatedTime,
           questionCount: templateData.questionCount,
-          traits: templateData.traits,
+          traits: templateData.traits === undefined
+            ? undefined
+            : Array.isArray(templateData.traits) && templateData.traits.length > 0 ? resolveTraitModel(templateData.traits) : null,
           isActive: templateData.isActive,
           surveyType: templateData.surveyType,
           image: templateData.image,
@@ -10402,7 +12272,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Delete template
-  app.delete('/api/templates/:id', async (req: Request, res: Response) => {
+  app.delete('/api/templates/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const templateId = parseInt(req.params.id);
 
@@ -10446,7 +12316,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Duplicate template
-  app.post('/api/templates/:id/duplicate', async (req: Request, res: Response) => {
+  app.post('/api/templates/:id/duplicate', requirePermission(Permission.CREATE_SURVEY), async (req: Request, res: Response) => {
     try {
       const templateId = parseInt(req.params.id);
 
@@ -10538,7 +12408,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // Blog Categories API endpoints
 
   // Get all blog categories
-  app.get('/api/blog/categories', async (_req: Request, res: Response) => {
+  app.get('/api/blog/categories', publicRoute, async (_req: Request, res: Response) => {
     try {
       const categories = await db.query.blogCategories.findMany({
         orderBy: (blogCategories: any, { asc }: any) => [asc(blogCategories.name)]
@@ -10559,7 +12429,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get single blog category
-  app.get('/api/blog/categories/:id', async (req: Request, res: Response) => {
+  app.get('/api/blog/categories/:id', publicRoute, async (req: Request, res: Response) => {
     try {
       const categoryId = parseInt(req.params.id);
 
@@ -10596,7 +12466,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Create blog category
-  app.post('/api/blog/categories', async (req: Request, res: Response) => {
+  app.post('/api/blog/categories', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const { name, description } = req.body;
 
@@ -10648,7 +12518,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Update blog category
-  app.put('/api/blog/categories/:id', async (req: Request, res: Response) => {
+  app.put('/api/blog/categories/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const categoryId = parseInt(req.params.id);
 
@@ -10702,7 +12572,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Delete blog category
-  app.delete('/api/blog/categories/:id', async (req: Request, res: Response) => {
+  app.delete('/api/blog/categories/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const categoryId = parseInt(req.params.id);
 
@@ -10753,7 +12623,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // Blog Articles API endpoints
 
   // Get all blog articles with optional filtering
-  app.get('/api/blog/articles', async (req: Request, res: Response) => {
+  app.get('/api/blog/articles', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const { status, category, author, search, limit = '50', offset = '0' } = req.query;
 
@@ -10846,7 +12716,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get published blog articles (for public blog page)
-  app.get('/api/blog/articles/published', async (req: Request, res: Response) => {
+  app.get('/api/blog/articles/published', publicRoute, async (req: Request, res: Response) => {
     try {
       const { category, search, limit = '20', offset = '0' } = req.query;
 
@@ -10892,7 +12762,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get single blog article by slug
-  app.get('/api/blog/articles/slug/:slug', async (req: Request, res: Response) => {
+  app.get('/api/blog/articles/slug/:slug', publicRoute, async (req: Request, res: Response) => {
     try {
       const { slug } = req.params;
 
@@ -10930,7 +12800,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get single blog article by ID
-  app.get('/api/blog/articles/:id', async (req: Request, res: Response) => {
+  app.get('/api/blog/articles/:id', publicRoute, async (req: Request, res: Response) => {
     try {
       const articleId = parseInt(req.params.id);
 
@@ -10967,7 +12837,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Create blog article
-  app.post('/api/blog/articles', async (req: Request, res: Response) => {
+  app.post('/api/blog/articles', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     console.log('➡️  /api/blog/articles endpoint hit');
     console.log('Request body:', req.body);
     try {
@@ -11079,7 +12949,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Update blog article
-  app.put('/api/blog/articles/:id', async (req: Request, res: Response) => {
+  app.put('/api/blog/articles/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const articleId = parseInt(req.params.id);
 
@@ -11175,7 +13045,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Delete blog article
-  app.delete('/api/blog/articles/:id', async (req: Request, res: Response) => {
+  app.delete('/api/blog/articles/:id', requirePermission(Permission.MANAGE_CONTENT), async (req: Request, res: Response) => {
     try {
       const articleId = parseInt(req.params.id);
 
@@ -11227,7 +13097,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // Admin blog management endpoints
 
   // Get blog statistics for admin dashboard
-  app.get('/api/admin/blog/stats', async (_req: Request, res: Response) => {
+  app.get('/api/admin/blog/stats', requirePermission(Permission.MANAGE_CONTENT), async (_req: Request, res: Response) => {
     try {
       // Get total counts
       const totalArticles = await db.query.blogArticles.findMany();
@@ -11277,7 +13147,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // AI Response Generation Endpoints
   
   // Start AI response generation
-  app.post('/api/surveys/:id/generate-ai-responses', async (req: Request, res: Response) => {
+  app.post('/api/surveys/:id/generate-ai-responses', requirePermission(Permission.CREATE_REPORTS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
       const { count } = req.body;
@@ -11323,6 +13193,12 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
         });
       }
 
+      // Generated responses need the AI feature and room under the response limit
+      const aiLimit = await entitlementService.checkAIGeneration(survey.companyId, Number(count));
+      if (aiLimit) {
+        return sendLimitExceeded(res, aiLimit);
+      }
+
       // Check if there's already a running job (with timeout check)
       const existingJob = await db.query.aiGenerationJobs.findFirst({
         where: and(
@@ -11402,7 +13278,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // Get AI job status
-  app.get('/api/surveys/:id/ai-job-status', async (req: Request, res: Response) => {
+  app.get('/api/surveys/:id/ai-job-status', requirePermission(Permission.CREATE_REPORTS), async (req: Request, res: Response) => {
     try {
       const surveyId = parseInt(req.params.id);
 
@@ -11450,28 +13326,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   // ============================================
 
   // GET /api/admin/notifications - Get all admin notifications with filters
-  app.get('/api/admin/notifications', async (req: Request, res: Response) => {
+  app.get('/api/admin/notifications', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
-      // Verify admin authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
-
-      // Check admin role
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId)
-      });
-
-      if (!user || (user.role !== 'admin' && user.role !== 'platform_admin')) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Admin access required'
-        });
-      }
-
       // Get filters from query
       let isRead: boolean | undefined = undefined;
       if (req.query.isRead !== undefined && req.query.isRead !== '') {
@@ -11513,28 +13369,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // GET /api/admin/notifications/unread-count - Get count of unread notifications
-  app.get('/api/admin/notifications/unread-count', async (req: Request, res: Response) => {
+  app.get('/api/admin/notifications/unread-count', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
-      // Verify admin authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
-
-      // Check admin role
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId)
-      });
-
-      if (!user || (user.role !== 'admin' && user.role !== 'platform_admin')) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Admin access required'
-        });
-      }
-
       const count = await notificationService.getUnreadCount();
 
       res.json({
@@ -11552,28 +13388,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // PATCH /api/admin/notifications/:id/read - Mark single notification as read
-  app.patch('/api/admin/notifications/:id/read', async (req: Request, res: Response) => {
+  app.patch('/api/admin/notifications/:id/read', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
-      // Verify admin authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
-
-      // Check admin role
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId)
-      });
-
-      if (!user || (user.role !== 'admin' && user.role !== 'platform_admin')) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Admin access required'
-        });
-      }
-
       const notificationId = parseInt(req.params.id);
       const result = await notificationService.markAsRead(notificationId);
 
@@ -11599,28 +13415,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // PATCH /api/admin/notifications/read-all - Mark all notifications as read
-  app.patch('/api/admin/notifications/read-all', async (req: Request, res: Response) => {
+  app.patch('/api/admin/notifications/read-all', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
-      // Verify admin authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
-
-      // Check admin role
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId)
-      });
-
-      if (!user || (user.role !== 'admin' && user.role !== 'platform_admin')) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Admin access required'
-        });
-      }
-
       const count = await notificationService.markAllAsRead();
 
       res.json({
@@ -11638,28 +13434,8 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<W
   });
 
   // DELETE /api/admin/notifications/:id - Delete notification
-  app.delete('/api/admin/notifications/:id', async (req: Request, res: Response) => {
+  app.delete('/api/admin/notifications/:id', requirePermission(Permission.PLATFORM_ADMIN_ACCESS), async (req: Request, res: Response) => {
     try {
-      // Verify admin authentication
-      if (!req.session || !req.session.userId) {
-        return res.status(401).json({
-          status: 'error',
-          message: 'Authentication required'
-        });
-      }
-
-      // Check admin role
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, req.session.userId)
-      });
-
-      if (!user || (user.role !== 'admin' && user.role !== 'platform_admin')) {
-        return res.status(403).json({
-          status: 'error',
-          message: 'Admin access required'
-        });
-      }
-
       const notificationId = parseInt(req.params.id);
       const deleted = await notificationService.deleteNotification(notificationId);
 
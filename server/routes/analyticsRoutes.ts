@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { storage } from '../storage';
+import { Permission } from '../../shared/permissions';
+import { requirePermission } from '../middleware/permissionMiddleware';
 
 const router = Router();
 
@@ -90,18 +92,10 @@ const generateAnalyticsData = async (period: string = '12months') => {
 };
 
 // GET /api/admin/analytics - Get platform analytics
-router.get('/analytics', async (req, res) => {
+router.get('/analytics', requirePermission(Permission.VIEW_PLATFORM_ANALYTICS), async (req, res) => {
   try {
     const { period = '12months' } = req.query;
     
-    // Verify admin access
-    if (!req.user || req.user.role !== 'platform_admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     const analyticsData = await generateAnalyticsData(period as string);
     
     res.json({
@@ -121,16 +115,8 @@ router.get('/analytics', async (req, res) => {
 });
 
 // GET /api/admin/system-health - Get system health metrics
-router.get('/system-health', async (req, res) => {
+router.get('/system-health', requirePermission(Permission.SYSTEM_CONFIGURATION), async (_req, res) => {
   try {
-    // Verify admin access
-    if (!req.user || req.user.role !== 'platform_admin') {
-      return res.status(403).json({
-        error: 'Forbidden',
-        message: 'Admin access required'
-      });
-    }
-
     // Get real system metrics
     const memUsage = process.memoryUsage();
     const uptime = process.uptime();
@@ -11,6 +11,13 @@ import {
 import { eq, and, desc } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { getWebSocketService } from '../utils/websocketService';
+import { canAccessCompany, requireSessionUser } from '../utils/surveyAccess';
+import collaborationManager from '../utils/collaborationManager';
+import { Collaborator } from '../utils/collaborationStore';
+import { collaborationOperationSchema, lockRequestSchema } from '../../shared/collaborationOps';
+import { Permission } from '../../shared/permissions';
+import { requirePermission } from '../middleware/permissionMiddleware';
+import { AppError } from '../middleware/errorHandler';
 
 // Helper function to generate random hex color
 function getRandomColor(): string {
@@ -22,10 +29,53 @@ function getRandomColor(): string {
   return colors[Math.floor(Math.random() * colors.length)];
 }
 
+// Zod issues keyed by path, as the other collaboration errors report them
+function validationErrors(issues: Array<{ path: (string | number)[]; message: string }>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  issues.forEach(issue => {
+    errors[issue.path.join('.') || 'body'] = issue.message;
+  });
+  return errors;
+}
+
+/**
+ * The session user as a collaborator on a session whose survey they may
+ * edit; sends the matching error response and returns null otherwise
+ */
+async function loadCollaborator(
+  req: express.Request,
+  res: express.Response
+): Promise<{ sessionId: number; collaborator: Collaborator } | null> {
+  const sessionId = parseInt(req.params.sessionId);
+  if (isNaN(sessionId)) {
+    res.status(400).json({ status: 'error', message: 'Invalid session ID' });
+    return null;
+  }
+
+  const user = await requireSessionUser(req, res);
+  if (!user) return null;
+
+  const [session] = await db.select({ companyId: surveys.companyId })
+    .from(collaborationSessions)
+    .innerJoin(surveys, eq(surveys.id, collaborationSessions.surveyId))
+    .where(eq(collaborationSessions.id, sessionId));
+  if (!session) {
+    res.status(404).json({ status: 'error', message: 'Session not found' });
+    return null;
+  }
+  if (!canAccessCompany(req, user, session.companyId)) {
+    res.status(403).json({ status: 'error', message: 'You can only collaborate on your own company\'s surveys' });
+    return null;
+  }
+
+  const account = await db.query.users.findFirst({ where: eq(users.id, user.id), columns: { username: true } });
+  return { sessionId, collaborator: { userId: user.id, username: account?.username ?? `user-${user.id}` } };
+}
+
 const router = express.Router();
 
 // Join or create a session
-router.post('/:sessionId/join', async (req, res) => {
+router.post('/:sessionId/join', requirePermission(Permission.VIEW_SURVEYS), async (req, res) => {
   try {
     const { sessionId } = req.params;
     const { userId, username } = req.body;
@@ -137,7 +187,7 @@ router.post('/:sessionId/join', async (req, res) => {
 });
 
 // Get all collaboration sessions
-router.get('/', async (_req, res) => {
+router.get('/', requirePermission(Permission.VIEW_SURVEYS), async (_req, res) => {
   try {
     const sessions = await db.select({
       id: collaborationSessions.id,
@@ -200,7 +250,7 @@ router.get('/', async (_req, res) => {
 });
 
 // Create a new session (added functionality)
-router.post('/', async (req, res) => {
+router.post('/', requirePermission(Permission.EDIT_SURVEY), async (req, res) => {
   try {
     const { title, description, userId, username, surveyId } = req.body;
     
@@ -325,8 +375,139 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Get the survey a session edits, with its field versions and element locks
+router.get('/:sessionId/workspace', requirePermission(Permission.VIEW_SURVEYS), async (req, res) => {
+  try {
+    const access = await loadCollaborator(req, res);
+    if (!access) return;
+
+    const workspace = await collaborationManager.getWorkspace(access.sessionId);
+    if (!workspace) {
+      return res.status(404).json({ status: 'error', message: 'Session not found' });
+    }
+
+    return res.json({
+      status: 'success',
+      data: { ...workspace, user: { id: access.collaborator.userId, username: access.collaborator.username } }
+    });
+  } catch (error) {
+    console.error('Error loading collaboration workspace:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to load the survey of this session'
+    });
+  }
+});
+
+// Apply an operation on a question, option or survey setting
+router.post('/:sessionId/operations', requirePermission(Permission.EDIT_SURVEY), async (req, res) => {
+  try {
+    const access = await loadCollaborator(req, res);
+    if (!access) return;
+
+    const parsed = collaborationOperationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid operation',
+        errors: validationErrors(parsed.error.issues)
+      });
+    }
+
+    const outcome = await collaborationManager.applyOperation(access.sessionId, access.collaborator, parsed.data);
+    if (!outcome) {
+      return res.status(404).json({ status: 'error', message: 'Session not found' });
+    }
+
+    // Conflicted and locked operations carry what the client needs to rebase or wait
+    if (outcome.status !== 'applied') {
+      return res.status(outcome.status === 'conflicted' ? 409 : 423).json({
+        status: 'error',
+        message: outcome.message,
+        data: outcome
+      });
+    }
+    return res.json({ status: 'success', data: outcome });
+  } catch (error) {
+    // Changes to an active survey that its approval workflow does not allow
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ status: 'error', message: error.message, code: error.code });
+    }
+    console.error('Error applying collaboration operation:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to apply the change'
+    });
+  }
+});
+
+// Lock an element for editing; locking an element again extends the lock
+router.post('/:sessionId/locks', requirePermission(Permission.EDIT_SURVEY), async (req, res) => {
+  try {
+    const access = await loadCollaborator(req, res);
+    if (!access) return;
+
+    const parsed = lockRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid lock request',
+        errors: validationErrors(parsed.error.issues)
+      });
+    }
+
+    const outcome = await collaborationManager.lockElement(access.sessionId, access.collaborator, parsed.data);
+    if (!outcome) {
+      return res.status(404).json({ status: 'error', message: 'Session not found' });
+    }
+    if (!outcome.acquired) {
+      return res.status(423).json({
+        status: 'error',
+        message: `${outcome.lock.username} is already editing this`,
+        data: outcome
+      });
+    }
+    return res.json({ status: 'success', data: outcome });
+  } catch (error) {
+    console.error('Error locking collaboration element:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to lock the element'
+    });
+  }
+});
+
+// Release a lock; the element ID of an option lock contains a slash, so it is URL-encoded
+router.delete('/:sessionId/locks/:elementType/:elementId', requirePermission(Permission.EDIT_SURVEY), async (req, res) => {
+  try {
+    const access = await loadCollaborator(req, res);
+    if (!access) return;
+
+    const parsed = lockRequestSchema.safeParse({ elementType: req.params.elementType, elementId: req.params.elementId });
+    if (!parsed.success) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Invalid lock',
+        errors: validationErrors(parsed.error.issues)
+      });
+    }
+
+    const outcome = await collaborationManager.unlockElement(access.sessionId, access.collaborator.userId, parsed.data);
+    if (!outcome) {
+      return res.status(404).json({ status: 'error', message: 'Session not found' });
+    }
+    return res.json({ status: 'success', data: outcome });
+  } catch (error) {
+    console.error('Error releasing collaboration lock:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to release the lock'
+    });
+  }
+});
+
 // Get a specific session with participants and comments
-router.get('/:sessionId', async (req, res) => {
+router.get('/:sessionId', requirePermission(Permission.VIEW_SURVEYS), async (req, res) => {
   try {
     const { sessionId } = req.params;
     
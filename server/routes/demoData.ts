@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { db } from '../db';
 import { users } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
+import { Permission } from '../../shared/permissions';
+import { requirePermission } from '../middleware/permissionMiddleware';
 
 const router = Router();
 
@@ -35,7 +37,7 @@ const isDemoAccount = async (req: any): Promise<boolean> => {
 };
 
 // Basic analytics data for demo account
-router.get('/company/:companyId/analytics', async (req, res) => {
+router.get('/company/:companyId/analytics', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -91,7 +93,7 @@ router.get('/company/:companyId/analytics', async (req, res) => {
 });
 
 // Competitor analysis for demo account
-router.get('/company/:companyId/competitors', async (req, res) => {
+router.get('/company/:companyId/competitors', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -178,7 +180,7 @@ router.get('/company/:companyId/competitors', async (req, res) => {
 });
 
 // Market fit analysis for demo account
-router.get('/company/:companyId/market-fit/:productId', async (req, res) => {
+router.get('/company/:companyId/market-fit/:productId', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -260,7 +262,7 @@ router.get('/company/:companyId/market-fit/:productId', async (req, res) => {
 });
 
 // Customer segments for demo account
-router.get('/company/:companyId/segments', async (req, res) => {
+router.get('/company/:companyId/segments', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -386,7 +388,7 @@ router.get('/company/:companyId/segments', async (req, res) => {
 });
 
 // Feature priorities for demo account
-router.get('/company/:companyId/feature-priorities', async (req, res) => {
+router.get('/company/:companyId/feature-priorities', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -512,7 +514,7 @@ router.get('/company/:companyId/feature-priorities', async (req, res) => {
 });
 
 // Pricing strategies for demo account
-router.get('/company/:companyId/pricing-strategies', async (req, res) => {
+router.get('/company/:companyId/pricing-strategies', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -634,7 +636,7 @@ router.get('/company/:companyId/pricing-strategies', async (req, res) => {
 });
 
 // Marketing strategies for demo account
-router.get('/company/:companyId/marketing-strategies', async (req, res) => {
+router.get('/company/:companyId/marketing-strategies', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -768,7 +770,7 @@ router.get('/company/:companyId/marketing-strategies', async (req, res) => {
 });
 
 // Revenue forecasts for demo account
-router.get('/company/:companyId/revenue-forecasts', async (req, res) => {
+router.get('/company/:companyId/revenue-forecasts', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
@@ -844,7 +846,7 @@ router.get('/company/:companyId/revenue-forecasts', async (req, res) => {
 });
 
 // Focus group simulation for demo account
-router.post('/company/:companyId/focus-group', async (req, res) => {
+router.post('/company/:companyId/focus-group', requirePermission(Permission.VIEW_ANALYTICS), async (req, res) => {
   try {
     // Check if this is the demo account
     const isDemo = await isDemoAccount(req);
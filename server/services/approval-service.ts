@@ -0,0 +1,641 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  approvalWorkflows,
+  auditLogs,
+  collaborationComments,
+  collaborationSessions,
+  surveyReviewDecisions,
+  surveyReviews,
+  surveyVersions,
+  surveys,
+  users,
+  SurveyReview,
+  SurveyReviewDecision
+} from '../../shared/schema';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { notificationService } from './notification-service';
+import { surveyVersionService } from './survey-version-service';
+import {
+  APPROVER_ROLES,
+  ApprovalMember,
+  ApprovalWorkflow,
+  PublishGate,
+  ReviewCommentSummary,
+  ReviewDecision,
+  ReviewPolicy,
+  ReviewStatus,
+  SurveyReviewSummary,
+  approvalWorkflowSchema,
+  decisionBlocker,
+  evaluateReview,
+  requiredReviewersFor,
+  reviewCommentSchema,
+  reviewDecisionSchema,
+  reviewRequestSchema
+} from '../../shared/approvals';
+import { SurveySnapshot, snapshotsEqual } from '../../shared/surveyVersions';
+
+const logger = new Logger('ApprovalService');
+
+// The publish gate compares the survey with this many of its latest approved reviews
+const APPROVED_REVIEWS_CHECKED = 10;
+
+// Comments of a review are collaboration comments on this entity type
+const REVIEW_ENTITY_TYPE = 'review';
+
+export interface ApprovalActor {
+  id: number;
+  // Company owners and admins, and platform admins
+  isApprover: boolean;
+  ipAddress: string | null;
+}
+
+interface ApprovalSurvey {
+  id: number;
+  companyId: number;
+  title: string;
+  currentVersionId: number | null;
+}
+
+const DEFAULT_WORKFLOW = {
+  enabled: false,
+  reviewerIds: [] as number[],
+  requiredApprovals: 1,
+  allowSelfApproval: false
+};
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null);
+
+/**
+ * ApprovalService - Company approval workflows and the survey reviews they
+ * require. A review approves a snapshot of the survey's questions; while the
+ * workflow is enabled a survey can only go live with content that matches an
+ * approved review or the version that is already live. Every decision is kept
+ * as a collaboration comment and written to the audit log.
+ */
+export class ApprovalService {
+  async getWorkflow(companyId: number): Promise<ApprovalWorkflow> {
+    const row = await db.query.approvalWorkflows.findFirst({ where: eq(approvalWorkflows.companyId, companyId) });
+    if (!row) {
+      return { ...DEFAULT_WORKFLOW, companyId, updatedAt: null };
+    }
+    return {
+      companyId,
+      enabled: row.enabled,
+      reviewerIds: row.reviewerIds ?? [],
+      requiredApprovals: row.requiredApprovals,
+      allowSelfApproval: row.allowSelfApproval,
+      updatedAt: row.updatedAt.toISOString()
+    };
+  }
+
+  async updateWorkflow(companyId: number, input: unknown, actor: ApprovalActor): Promise<ApprovalWorkflow> {
+    const data = this.parse(approvalWorkflowSchema, input, 'Invalid approval workflow');
+    const reviewerIds = Array.from(new Set(data.reviewerIds));
+    await this.assertCompanyUsers(companyId, reviewerIds);
+
+    const before = await this.getWorkflow(companyId);
+    const values = {
+      enabled: data.enabled,
+      reviewerIds,
+      requiredApprovals: data.requiredApprovals,
+      allowSelfApproval: data.allowSelfApproval,
+      updatedBy: actor.id,
+      updatedAt: new Date()
+    };
+    await db.insert(approvalWorkflows)
+      .values({ companyId, ...values })
+      .onConflictDoUpdate({ target: approvalWorkflows.companyId, set: values });
+
+    const workflow = await this.getWorkflow(companyId);
+    await this.audit(db, actor, companyId, 'approval_workflow_updated', 'approval_workflow', companyId, {
+      before: { ...before, companyId: undefined, updatedAt: undefined },
+      after: { ...workflow, companyId: undefined, updatedAt: undefined }
+    });
+
+    logger.info(`[APPROVALS] Company ${companyId} ${workflow.enabled ? 'enabled' : 'disabled'} approvals with ${reviewerIds.length} required reviewers`);
+    return workflow;
+  }
+
+  // Company users that can be picked as reviewers
+  async listMembers(companyId: number): Promise<ApprovalMember[]> {
+    return db.select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(eq(users.companyId, companyId))
+      .orderBy(asc(users.username));
+  }
+
+  async listReviews(surveyId: number): Promise<SurveyReviewSummary[]> {
+    const rows: SurveyReview[] = await db.select()
+      .from(surveyReviews)
+      .where(eq(surveyReviews.surveyId, surveyId))
+      .orderBy(desc(surveyReviews.createdAt));
+    return this.summarize(rows);
+  }
+
+  /**
+   * Ask for a survey to be approved. The review covers a snapshot of the
+   * current questions (saved as a draft version) unless a version is named,
+   * and replaces any review of the survey that is still pending.
+   */
+  async requestReview(survey: ApprovalSurvey, input: unknown, actor: ApprovalActor): Promise<SurveyReviewSummary> {
+    const data = this.parse(reviewRequestSchema, input, 'Invalid review request');
+
+    const session = await db.query.collaborationSessions.findFirst({
+      where: and(eq(collaborationSessions.id, data.sessionId), eq(collaborationSessions.surveyId, survey.id))
+    });
+    if (!session) {
+      throw new AppError('Collaboration session not found for this survey', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const workflow = await this.getWorkflow(survey.companyId);
+    const requested = Array.from(new Set(data.reviewerIds ?? []));
+    await this.assertCompanyUsers(survey.companyId, requested);
+
+    let versionId = data.versionId;
+    if (versionId) {
+      // Throws when the version belongs to another survey
+      await surveyVersionService.publishableSnapshot(survey.id, versionId);
+    } else {
+      const draft = await surveyVersionService.createDraft(survey.id, { name: `Review: ${data.title}`.slice(0, 120) }, actor.id);
+      versionId = draft.id;
+    }
+
+    const requiredReviewerIds = requiredReviewersFor(workflow, actor.id);
+    const reviewerIds = Array.from(new Set([
+      ...requiredReviewerIds,
+      ...requested.filter(id => workflow.allowSelfApproval || id !== actor.id)
+    ]));
+
+    const review = await db.transaction(async (tx: any) => {
+      await tx.update(surveyReviews)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(surveyReviews.surveyId, survey.id), eq(surveyReviews.status, 'pending')));
+
+      const [created] = await tx.insert(surveyReviews).values({
+        surveyId: survey.id,
+        companyId: survey.companyId,
+        sessionId: session.id,
+        versionId,
+        title: data.title,
+        notes: data.notes || null,
+        requestedBy: actor.id,
+        status: 'pending',
+        reviewerIds,
+        requiredReviewerIds,
+        requiredApprovals: workflow.requiredApprovals,
+        allowSelfApproval: workflow.allowSelfApproval
+      }).returning();
+
+      await tx.update(collaborationSessions)
+        .set({ reviewStatus: 'under_review', reviewedBy: null, reviewedAt: null, updatedAt: new Date() })
+        .where(eq(collaborationSessions.id, session.id));
+
+      await this.audit(tx, actor, survey.companyId, 'survey_review_requested', 'survey_review', created.id, {
+        surveyId: survey.id,
+        versionId,
+        reviewerIds,
+        requiredReviewerIds,
+        requiredApprovals: workflow.requiredApprovals
+      });
+      return created as SurveyReview;
+    });
+
+    // Without named reviewers the company's approvers are asked
+    const recipients = reviewerIds.length > 0
+      ? reviewerIds
+      : (await this.listMembers(survey.companyId))
+          .filter(member => (APPROVER_ROLES as readonly string[]).includes(member.role) && member.id !== actor.id)
+          .map(member => member.id);
+    const requester = await this.usernameOf(actor.id);
+    await this.notify(recipients, {
+      title: `Review requested: ${survey.title}`,
+      message: `${requester} asked you to review "${data.title}" before the survey is published.`,
+      sessionId: session.id,
+      metadata: { surveyId: survey.id, reviewId: review.id },
+      actorId: actor.id
+    });
+
+    logger.info(`[APPROVALS] Survey ${survey.id}: review ${review.id} requested from ${recipients.length} users`);
+    const [summary] = await this.summarize([review]);
+    return summary;
+  }
+
+  /**
+   * Approve or reject a review. The reviewer's reasoning is stored as a
+   * collaboration comment on the review; the review closes as soon as its
+   * decisions settle it.
+   */
+  async decide(survey: ApprovalSurvey, reviewId: number, input: unknown, actor: ApprovalActor): Promise<SurveyReviewSummary> {
+    const data = this.parse(reviewDecisionSchema, input, 'Invalid review decision');
+
+    const { review, status } = await db.transaction(async (tx: any) => {
+      const [locked] = await tx.select()
+        .from(surveyReviews)
+        .where(and(eq(surveyReviews.id, reviewId), eq(surveyReviews.surveyId, survey.id)))
+        .for('update');
+      if (!locked) {
+        throw new AppError('Review not found', 404, undefined, ErrorCodes.NOT_FOUND);
+      }
+      const current = locked as SurveyReview;
+
+      const decisions: SurveyReviewDecision[] = await tx.select()
+        .from(surveyReviewDecisions)
+        .where(eq(surveyReviewDecisions.reviewId, current.id));
+      const records = decisions.map(d => ({ reviewerId: d.reviewerId, decision: d.decision as ReviewDecision }));
+
+      const blocker = decisionBlocker(this.policyOf(current), actor, records);
+      if (blocker) {
+        const conflict = blocker.reason === 'closed' || blocker.reason === 'already_decided';
+        throw new AppError(
+          blocker.message,
+          conflict ? 409 : 403,
+          undefined,
+          conflict ? ErrorCodes.CONFLICT : ErrorCodes.FORBIDDEN
+        );
+      }
+
+      const [comment] = await tx.insert(collaborationComments).values({
+        sessionId: current.sessionId,
+        userId: actor.id,
+        entityType: REVIEW_ENTITY_TYPE,
+        entityId: current.id,
+        comment: data.comment || 'Approved',
+        category: data.decision
+      }).returning();
+
+      await tx.insert(surveyReviewDecisions).values({
+        reviewId: current.id,
+        reviewerId: actor.id,
+        decision: data.decision,
+        commentId: comment.id
+      });
+
+      const status = evaluateReview(this.policyOf(current), [...records, { reviewerId: actor.id, decision: data.decision }]);
+      const now = new Date();
+      let updated = current;
+      if (status !== 'pending') {
+        [updated] = await tx.update(surveyReviews)
+          .set({ status, decidedAt: now, updatedAt: now })
+          .where(eq(surveyReviews.id, current.id))
+          .returning();
+        await tx.update(collaborationSessions)
+          .set({ reviewStatus: status, reviewedBy: actor.id, reviewedAt: now, updatedAt: now })
+          .where(eq(collaborationSessions.id, current.sessionId));
+      }
+
+      await this.audit(tx, actor, survey.companyId, `survey_review_${data.decision}`, 'survey_review', current.id, {
+        surveyId: survey.id,
+        versionId: current.versionId,
+        decision: data.decision,
+        commentId: comment.id,
+        reviewStatus: status
+      });
+      return { review: updated as SurveyReview, status };
+    });
+
+    const reviewer = await this.usernameOf(actor.id);
+    const outcome = status === 'pending'
+      ? ''
+      : status === 'approved' ? ' The survey can now be published.' : ' Address the feedback and request a new review.';
+    await this.notify([review.requestedBy].filter(id => id !== actor.id), {
+      title: `Review ${data.decision}: ${survey.title}`,
+      message: `${reviewer} ${data.decision} "${review.title}".${outcome}`,
+      sessionId: review.sessionId,
+      metadata: { surveyId: survey.id, reviewId: review.id, decision: data.decision, status },
+      actorId: actor.id,
+      priority: data.decision === 'rejected' ? 'high' : 'medium'
+    });
+
+    logger.info(`[APPROVALS] Survey ${survey.id}: user ${actor.id} ${data.decision} review ${review.id} (${status})`);
+    const [summary] = await this.summarize([review]);
+    return summary;
+  }
+
+  async addComment(survey: ApprovalSurvey, reviewId: number, input: unknown, actor: ApprovalActor): Promise<ReviewCommentSummary> {
+    const data = this.parse(reviewCommentSchema, input, 'Invalid comment');
+    const review = await this.loadReview(survey.id, reviewId);
+
+    const [comment] = await db.insert(collaborationComments).values({
+      sessionId: review.sessionId,
+      userId: actor.id,
+      entityType: REVIEW_ENTITY_TYPE,
+      entityId: review.id,
+      comment: data.comment,
+      category: 'general'
+    }).returning();
+
+    return {
+      id: comment.id,
+      userId: actor.id,
+      username: await this.usernameOf(actor.id),
+      comment: comment.comment,
+      decision: null,
+      createdAt: comment.createdAt.toISOString()
+    };
+  }
+
+  // Withdraw a pending review; only its requester or an approver can
+  async cancelReview(survey: ApprovalSurvey, reviewId: number, actor: ApprovalActor): Promise<SurveyReviewSummary> {
+    const review = await this.loadReview(survey.id, reviewId);
+    if (review.requestedBy !== actor.id && !actor.isApprover) {
+      throw new AppError('Only the requester or a company admin can cancel this review', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+    if (review.status !== 'pending') {
+      throw new AppError('This review has already been closed', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const cancelled = await db.transaction(async (tx: any) => {
+      const [updated] = await tx.update(surveyReviews)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(surveyReviews.id, review.id), eq(surveyReviews.status, 'pending')))
+        .returning();
+      if (!updated) {
+        throw new AppError('This review has already been closed', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      await tx.update(collaborationSessions)
+        .set({ reviewStatus: 'not_reviewed', updatedAt: new Date() })
+        .where(eq(collaborationSessions.id, review.sessionId));
+      await this.audit(tx, actor, survey.companyId, 'survey_review_cancelled', 'survey_review', review.id, {
+        surveyId: survey.id,
+        versionId: review.versionId
+      });
+      return updated as SurveyReview;
+    });
+
+    const [summary] = await this.summarize([cancelled]);
+    return summary;
+  }
+
+  /**
+   * Whether the survey's current questions, or those of a draft version, may
+   * be published under the company's workflow
+   */
+  async publishGate(survey: ApprovalSurvey, versionId?: number): Promise<PublishGate> {
+    const workflow = await this.getWorkflow(survey.companyId);
+    if (!workflow.enabled) {
+      return { required: false, approved: true, reviewId: null, reason: null };
+    }
+    return this.gateFor(survey, await surveyVersionService.publishableSnapshot(survey.id, versionId));
+  }
+
+  /**
+   * Whether settings and questions that are not saved yet may be live; edits
+   * to a survey respondents can answer are checked before they are written
+   */
+  async contentGate(survey: ApprovalSurvey, snapshot: SurveySnapshot): Promise<PublishGate> {
+    const workflow = await this.getWorkflow(survey.companyId);
+    if (!workflow.enabled) {
+      return { required: false, approved: true, reviewId: null, reason: null };
+    }
+    return this.gateFor(survey, snapshot);
+  }
+
+  /**
+   * Refuse what a transaction wrote to an active survey unless the result is
+   * approved content; call it inside the transaction, before it commits
+   */
+  async assertLiveContentApproved(tx: any, surveyId: number): Promise<void> {
+    const survey = await tx.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true, companyId: true, title: true, currentVersionId: true, isActive: true }
+    });
+    if (!survey?.isActive) return;
+
+    const gate = await this.contentGate(survey, await surveyVersionService.publishableSnapshot(surveyId, undefined, tx));
+    if (!gate.approved) {
+      throw new AppError(gate.reason ?? 'This survey needs an approved review before it can be published', 409, undefined, ErrorCodes.CONFLICT);
+    }
+  }
+
+  async assertPublishable(survey: ApprovalSurvey, versionId?: number): Promise<void> {
+    const gate = await this.publishGate(survey, versionId);
+    if (!gate.approved) {
+      throw new AppError(gate.reason ?? 'This survey needs an approved review before it can be published', 409, undefined, ErrorCodes.CONFLICT);
+    }
+  }
+
+  private async gateFor(survey: ApprovalSurvey, snapshot: SurveySnapshot): Promise<PublishGate> {
+    // Re-activating a survey without changing it needs no new review
+    if (survey.currentVersionId) {
+      const live = await db.query.surveyVersions.findFirst({
+        where: eq(surveyVersions.id, survey.currentVersionId),
+        columns: { snapshot: true }
+      });
+      if (live && snapshotsEqual(live.snapshot as SurveySnapshot, snapshot)) {
+        return { required: true, approved: true, reviewId: null, reason: null };
+      }
+    }
+
+    const approved = await db.select({ id: surveyReviews.id, snapshot: surveyVersions.snapshot })
+      .from(surveyReviews)
+      .innerJoin(surveyVersions, eq(surveyVersions.id, surveyReviews.versionId))
+      .where(and(eq(surveyReviews.surveyId, survey.id), eq(surveyReviews.status, 'approved')))
+      .orderBy(desc(surveyReviews.decidedAt))
+      .limit(APPROVED_REVIEWS_CHECKED);
+    const match = approved.find((row: { id: number; snapshot: unknown }) => snapshotsEqual(row.snapshot as SurveySnapshot, snapshot));
+    if (match) {
+      return { required: true, approved: true, reviewId: match.id, reason: null };
+    }
+
+    const pending = await db.query.surveyReviews.findFirst({
+      where: and(eq(surveyReviews.surveyId, survey.id), eq(surveyReviews.status, 'pending')),
+      orderBy: desc(surveyReviews.createdAt),
+      columns: { id: true, title: true }
+    });
+    return {
+      required: true,
+      approved: false,
+      reviewId: pending?.id ?? null,
+      reason: pending
+        ? `"${pending.title}" is still waiting for approval`
+        : approved.length > 0
+          ? 'The survey has changed since it was approved. Request a new review before publishing.'
+          : 'This survey needs an approved review before it can be published'
+    };
+  }
+
+  private policyOf(review: SurveyReview): ReviewPolicy {
+    return {
+      status: review.status as ReviewStatus,
+      requestedBy: review.requestedBy,
+      reviewerIds: review.reviewerIds ?? [],
+      requiredReviewerIds: review.requiredReviewerIds ?? [],
+      requiredApprovals: review.requiredApprovals,
+      allowSelfApproval: review.allowSelfApproval
+    };
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown, message: string): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'review';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError(message, 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async assertCompanyUsers(companyId: number, userIds: number[]): Promise<void> {
+    if (userIds.length === 0) return;
+    const found = await db.select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.id, userIds), eq(users.companyId, companyId)));
+    if (found.length !== userIds.length) {
+      throw new AppError('Invalid reviewers', 400, { reviewerIds: ['Reviewers must be users of your company'] }, ErrorCodes.VALIDATION_ERROR);
+    }
+  }
+
+  private async loadReview(surveyId: number, reviewId: number): Promise<SurveyReview> {
+    const review = await db.query.surveyReviews.findFirst({
+      where: and(eq(surveyReviews.id, reviewId), eq(surveyReviews.surveyId, surveyId))
+    });
+    if (!review) {
+      throw new AppError('Review not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return review;
+  }
+
+  private async usernameOf(userId: number): Promise<string> {
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId), columns: { username: true } });
+    return user?.username ?? `User ${userId}`;
+  }
+
+  private async audit(
+    tx: any,
+    actor: ApprovalActor,
+    companyId: number,
+    action: string,
+    entityType: string,
+    entityId: number,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await tx.insert(auditLogs).values({
+      userId: actor.id,
+      companyId,
+      action,
+      entityType,
+      entityId: String(entityId),
+      details,
+      ipAddress: actor.ipAddress
+    });
+  }
+
+  // Notifications are best effort; a failure must not undo the review
+  private async notify(
+    userIds: number[],
+    input: {
+      title: string;
+      message: string;
+      sessionId: number;
+      metadata: Record<string, unknown>;
+      actorId: number;
+      priority?: 'high' | 'medium';
+    }
+  ): Promise<void> {
+    if (userIds.length === 0) return;
+    if (!notificationService) {
+      logger.warn('[APPROVALS] NotificationService not available, reviewers were not notified');
+      return;
+    }
+    await notificationService.createUserNotifications(userIds, {
+      category: 'survey',
+      priority: input.priority ?? 'medium',
+      title: input.title,
+      message: input.message,
+      link: `/collaboration/${input.sessionId}`,
+      metadata: input.metadata,
+      actionableUserId: input.actorId
+    }).catch(error => {
+      logger.error('[APPROVALS] Error notifying users:', error);
+    });
+  }
+
+  private async summarize(reviews: SurveyReview[]): Promise<SurveyReviewSummary[]> {
+    if (reviews.length === 0) return [];
+    const reviewIds = reviews.map(review => review.id);
+
+    const decisions: SurveyReviewDecision[] = await db.select()
+      .from(surveyReviewDecisions)
+      .where(inArray(surveyReviewDecisions.reviewId, reviewIds));
+    const comments: Array<{ id: number; userId: number; entityId: number; comment: string; createdAt: Date }> = await db.select({
+      id: collaborationComments.id,
+      userId: collaborationComments.userId,
+      entityId: collaborationComments.entityId,
+      comment: collaborationComments.comment,
+      createdAt: collaborationComments.createdAt
+    })
+      .from(collaborationComments)
+      .where(and(eq(collaborationComments.entityType, REVIEW_ENTITY_TYPE), inArray(collaborationComments.entityId, reviewIds)))
+      .orderBy(asc(collaborationComments.createdAt));
+
+    const userIds = new Set<number>();
+    reviews.forEach(review => {
+      userIds.add(review.requestedBy);
+      (review.reviewerIds ?? []).forEach(id => userIds.add(id));
+    });
+    decisions.forEach(decision => userIds.add(decision.reviewerId));
+    comments.forEach(comment => userIds.add(comment.userId));
+    const names = new Map<number, string>();
+    if (userIds.size > 0) {
+      const rows = await db.select({ id: users.id, username: users.username })
+        .from(users)
+        .where(inArray(users.id, Array.from(userIds)));
+      rows.forEach((row: { id: number; username: string }) => names.set(row.id, row.username));
+    }
+    const nameOf = (id: number) => names.get(id) ?? `User ${id}`;
+    const decisionByComment = new Map(decisions.filter(d => d.commentId).map(d => [d.commentId as number, d.decision as ReviewDecision]));
+
+    return reviews.map(review => {
+      const reviewDecisions = decisions.filter(d => d.reviewId === review.id);
+      const required = new Set(review.requiredReviewerIds ?? []);
+      const reviewerIds = Array.from(new Set([...(review.reviewerIds ?? []), ...reviewDecisions.map(d => d.reviewerId)]));
+
+      return {
+        id: review.id,
+        surveyId: review.surveyId,
+        sessionId: review.sessionId,
+        versionId: review.versionId,
+        title: review.title,
+        notes: review.notes,
+        status: review.status as ReviewStatus,
+        requestedBy: { id: review.requestedBy, username: nameOf(review.requestedBy) },
+        requiredApprovals: review.requiredApprovals,
+        approvals: reviewDecisions.filter(d => d.decision === 'approved').length,
+        reviewers: reviewerIds.map(id => {
+          const decision = reviewDecisions.find(d => d.reviewerId === id);
+          return {
+            id,
+            username: nameOf(id),
+            required: required.has(id),
+            decision: (decision?.decision as ReviewDecision | undefined) ?? null,
+            decidedAt: decision ? decision.createdAt.toISOString() : null
+          };
+        }),
+        comments: comments
+          .filter(comment => comment.entityId === review.id)
+          .map(comment => ({
+            id: comment.id,
+            userId: comment.userId,
+            username: nameOf(comment.userId),
+            comment: comment.comment,
+            decision: decisionByComment.get(comment.id) ?? null,
+            createdAt: comment.createdAt.toISOString()
+          })),
+        decidedAt: toIso(review.decidedAt),
+        createdAt: review.createdAt.toISOString(),
+        updatedAt: review.updatedAt.toISOString()
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const approvalService = new ApprovalService();
@@ -0,0 +1,637 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { pipeline } from 'stream/promises';
+import type { CustomTypesConfig, PoolClient } from 'pg';
+import { is } from 'drizzle-orm';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { z } from 'zod';
+import { db, pool } from '../db';
+import * as schema from '../../shared/schema';
+import { systemBackups, backupSettings, SystemBackup, BackupSettings } from '../../shared/schema';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { dataSubjectRequestService } from './data-subject-request-service';
+
+const logger = new Logger('BackupService');
+
+const gunzip = promisify(zlib.gunzip);
+
+export const BACKUP_FORMAT = 'personalysis-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// The backup catalogue and schedule are never captured or overwritten by a restore,
+// nor is the record of privacy requests, which restores must keep honouring
+const UNMANAGED_TABLES = new Set(['system_backups', 'backup_settings', 'data_subject_requests']);
+const RESPONSES_TABLE = 'survey_responses';
+const INSERT_BATCH_SIZE = 250;
+
+// Read every column as Postgres text so values restore exactly, whatever the server time zone
+const RAW_TEXT_TYPES = { getTypeParser: () => (value: string) => value } as unknown as CustomTypesConfig;
+
+export const BackupType = {
+  AUTO: 'auto',
+  MANUAL: 'manual'
+} as const;
+
+export const BackupStatus = {
+  IN_PROGRESS: 'in-progress',
+  COMPLETED: 'completed',
+  FAILED: 'failed'
+} as const;
+
+interface BackupTableData {
+  name: string;
+  columns: string[];
+  rows: unknown[][];
+}
+
+interface BackupArchive {
+  format: string;
+  version: number;
+  createdAt: string;
+  includeResponses: boolean;
+  tables: BackupTableData[];
+}
+
+export interface RestoreTableSummary {
+  table: string;
+  currentRows: number;
+  backupRows: number;
+}
+
+export interface RestoreResult {
+  backupId: number;
+  dryRun: boolean;
+  tables: RestoreTableSummary[];
+  // Tables missing from the archive whose rows reference restored tables; they are emptied
+  clearedTables: RestoreTableSummary[];
+  // Tables in the archive that no longer exist in the database
+  skippedTables: string[];
+  warnings: string[];
+  // Completed erasures whose data was in the archive and was erased again
+  reappliedErasures: number;
+  restoredAt?: string;
+}
+
+export const backupSettingsSchema = z.object({
+  dailyBackups: z.boolean(),
+  weeklyBackups: z.boolean(),
+  monthlyBackups: z.boolean(),
+  includeResponses: z.boolean(),
+  retentionDays: z.number().int().min(1).max(3650)
+});
+
+export type BackupSettingsInput = z.infer<typeof backupSettingsSchema>;
+
+/**
+ * Directory backups are written to, BACKUP_DIR or ./backups
+ */
+export function getBackupDirectory(): string {
+  return path.resolve(process.env.BACKUP_DIR || path.join(process.cwd(), 'backups'));
+}
+
+export function formatBackupSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const hashFile = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+/**
+ * Schema tables ordered so every table comes after the tables it references
+ */
+function orderedSchemaTables(): { name: string; references: string[] }[] {
+  const tables = new Map<string, Set<string>>();
+  for (const value of Object.values(schema)) {
+    if (!is(value, PgTable)) continue;
+    const config = getTableConfig(value);
+    const references = tables.get(config.name) ?? new Set<string>();
+    for (const foreignKey of config.foreignKeys) {
+      const target = getTableConfig(foreignKey.reference().foreignTable).name;
+      if (target !== config.name) references.add(target);
+    }
+    tables.set(config.name, references);
+  }
+
+  const ordered: { name: string; references: string[] }[] = [];
+  const placed = new Set<string>();
+  let remaining = Array.from(tables.keys()).sort();
+  while (remaining.length > 0) {
+    const ready = remaining.filter(name => Array.from(tables.get(name)!).every(ref => placed.has(ref) || !tables.has(ref)));
+    // A reference cycle: place the rest in name order and let row order sort it out
+    const batch = ready.length > 0 ? ready : remaining;
+    for (const name of batch) {
+      ordered.push({ name, references: Array.from(tables.get(name)!) });
+      placed.add(name);
+    }
+    remaining = remaining.filter(name => !placed.has(name));
+  }
+  return ordered;
+}
+
+/**
+ * The given tables and every table that references them, directly or through others
+ */
+function withDependents(tables: { name: string; references: string[] }[], roots: Iterable<string>): Set<string> {
+  const found = new Set(roots);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const table of tables) {
+      if (!found.has(table.name) && table.references.some(ref => found.has(ref))) {
+        found.add(table.name);
+        changed = true;
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Tables left out when responses are excluded: survey_responses and anything referencing it
+ */
+function responseTables(tables: { name: string; references: string[] }[]): Set<string> {
+  return withDependents(tables, [RESPONSES_TABLE]);
+}
+
+export interface RestorePlan {
+  // Archive tables in the order they are filled; they are cleared in reverse
+  restore: string[];
+  // Tables the archive lacks whose rows would reference replaced rows, children first
+  clear: string[];
+  // Archive tables that no longer exist in the database
+  skipped: string[];
+}
+
+/**
+ * Decide what a restore touches. An archive taken without responses has no
+ * survey_responses, yet those rows reference the surveys being replaced, so
+ * every table depending on a restored one is emptied before it.
+ */
+export function planRestore(archiveTables: string[], databaseTables: Set<string>): RestorePlan {
+  const schemaTables = orderedSchemaTables();
+  const position = new Map(schemaTables.map((table, index) => [table.name, index]));
+  const rank = (name: string) => position.get(name) ?? schemaTables.length;
+
+  const restore = archiveTables
+    .filter(name => databaseTables.has(name) && !UNMANAGED_TABLES.has(name))
+    .map((name, index) => ({ name, index }))
+    .sort((a, b) => rank(a.name) - rank(b.name) || a.index - b.index)
+    .map(table => table.name);
+  const restored = new Set(restore);
+
+  const clear = Array.from(withDependents(schemaTables, restore))
+    .filter(name => !restored.has(name) && databaseTables.has(name) && !UNMANAGED_TABLES.has(name))
+    .sort((a, b) => rank(b) - rank(a));
+
+  return { restore, clear, skipped: archiveTables.filter(name => !databaseTables.has(name)) };
+}
+
+/**
+ * A restore that empties tables with rows in them loses data the archive
+ * cannot bring back, so it only goes ahead once the caller has confirmed it
+ */
+export function assertDataLossConfirmed(clearedTables: RestoreTableSummary[], confirmed: boolean): void {
+  const losses = clearedTables.filter(table => table.currentRows > 0);
+  if (losses.length === 0 || confirmed) return;
+  throw new AppError(
+    'This restore deletes rows from tables that are not in the backup. Confirm the data loss to continue.',
+    409,
+    { confirmDataLoss: losses.map(table => `${table.table}: ${table.currentRows} row(s)`) },
+    ErrorCodes.CONFLICT
+  );
+}
+
+/**
+ * Read and verify an archive: the checksum must match the catalogue and the
+ * content must be a backup this version understands
+ */
+export async function readBackupArchive(backup: Pick<SystemBackup, 'status' | 'path' | 'checksum'>): Promise<BackupArchive> {
+  if (backup.status !== BackupStatus.COMPLETED || !backup.path) {
+    throw new AppError('Only completed backups can be restored', 400, undefined, ErrorCodes.OPERATION_NOT_ALLOWED);
+  }
+  if (!fs.existsSync(backup.path)) {
+    throw new AppError('Backup archive is missing from the backup directory', 410, undefined, ErrorCodes.NOT_FOUND);
+  }
+
+  const checksum = await hashFile(backup.path);
+  if (backup.checksum && checksum !== backup.checksum) {
+    throw new AppError('Backup archive failed checksum verification', 422, undefined, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  return parseBackupArchive(await fs.promises.readFile(backup.path));
+}
+
+export async function parseBackupArchive(compressed: Buffer): Promise<BackupArchive> {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse((await gunzip(compressed)).toString('utf8'));
+  } catch {
+    throw new AppError('File is not a readable backup archive', 422, undefined, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  if (archive?.format !== BACKUP_FORMAT || !Array.isArray(archive.tables)) {
+    throw new AppError('File is not a readable backup archive', 422, undefined, ErrorCodes.VALIDATION_ERROR);
+  }
+  if (archive.version > BACKUP_FORMAT_VERSION) {
+    throw new AppError(`Backup format version ${archive.version} is newer than this server supports`, 422, undefined, ErrorCodes.VALIDATION_ERROR);
+  }
+  return archive;
+}
+
+async function loadDatabaseColumns(client: PoolClient): Promise<Map<string, Map<string, string>>> {
+  const result = await client.query(`
+    SELECT table_name, column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+    ORDER BY table_name, ordinal_position
+  `);
+
+  const columns = new Map<string, Map<string, string>>();
+  for (const row of result.rows) {
+    if (!columns.has(row.table_name)) columns.set(row.table_name, new Map());
+    columns.get(row.table_name)!.set(row.column_name, row.data_type);
+  }
+  return columns;
+}
+
+/**
+ * BackupService - Logical backups of the schema tables written as gzipped,
+ * checksummed JSON archives, restores with a dry-run preview, and the
+ * automatic backup schedule and retention.
+ */
+export class BackupService {
+  async listBackups(filters: { type?: string; status?: string; limit?: number } = {}): Promise<SystemBackup[]> {
+    const conditions = [];
+    if (filters.type) conditions.push(eq(systemBackups.type, filters.type));
+    if (filters.status) conditions.push(eq(systemBackups.status, filters.status));
+
+    const query = db.select()
+      .from(systemBackups)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(systemBackups.createdAt));
+
+    return filters.limit ? query.limit(filters.limit) : query;
+  }
+
+  async getBackup(id: number): Promise<SystemBackup> {
+    const [backup] = await db.select().from(systemBackups).where(eq(systemBackups.id, id)).limit(1);
+    if (!backup) {
+      throw new AppError('Backup not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return backup;
+  }
+
+  /**
+   * Dump every schema table into a new archive. The catalogue row is created
+   * first and marked failed if the dump does not complete.
+   */
+  async createBackup(options: {
+    name: string;
+    description?: string;
+    includeResponses: boolean;
+    type: typeof BackupType[keyof typeof BackupType];
+    userId?: number | null;
+  }): Promise<SystemBackup> {
+    const directory = getBackupDirectory();
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const slug = options.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'backup';
+    const filePath = path.join(directory, `${slug}-${Date.now()}.json.gz`);
+
+    const [backup] = await db.insert(systemBackups).values({
+      name: options.name,
+      description: options.description || null,
+      type: options.type,
+      status: BackupStatus.IN_PROGRESS,
+      includeResponses: options.includeResponses,
+      path: filePath,
+      userId: options.userId ?? null
+    }).returning();
+
+    const client = await pool.connect();
+    try {
+      // One snapshot for every table so the archive is consistent
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      const databaseColumns = await loadDatabaseColumns(client);
+      const tables = orderedSchemaTables();
+      const excluded = options.includeResponses ? new Set<string>() : responseTables(tables);
+
+      const gzip = zlib.createGzip();
+      const written = pipeline(gzip, fs.createWriteStream(filePath));
+      const write = (chunk: string) =>
+        new Promise<void>(resolve => (gzip.write(chunk) ? resolve() : gzip.once('drain', resolve)));
+
+      const header = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        includeResponses: options.includeResponses
+      };
+      await write(`${JSON.stringify(header).slice(0, -1)},"tables":[`);
+
+      const tableCounts: Record<string, number> = {};
+      let first = true;
+      for (const table of tables) {
+        const columns = databaseColumns.get(table.name);
+        if (!columns || UNMANAGED_TABLES.has(table.name) || excluded.has(table.name)) continue;
+
+        const orderBy = columns.has('id') ? ' ORDER BY "id"' : '';
+        const result = await client.query({
+          text: `SELECT * FROM ${quoteIdent(table.name)}${orderBy}`,
+          rowMode: 'array',
+          types: RAW_TEXT_TYPES
+        });
+
+        const data: BackupTableData = {
+          name: table.name,
+          columns: result.fields.map(field => field.name),
+          rows: result.rows
+        };
+        await write(`${first ? '' : ','}${JSON.stringify(data)}`);
+        first = false;
+        tableCounts[table.name] = result.rows.length;
+      }
+
+      await write(']}');
+      gzip.end();
+      await written;
+      await client.query('COMMIT');
+
+      const { size } = await fs.promises.stat(filePath);
+      const checksum = await hashFile(filePath);
+
+      const [completed] = await db.update(systemBackups)
+        .set({
+          status: BackupStatus.COMPLETED,
+          size: formatBackupSize(size),
+          sizeBytes: size,
+          checksum,
+          tableCounts,
+          completedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(systemBackups.id, backup.id))
+        .returning();
+
+      logger.info(`[CREATE_BACKUP] Backup ${backup.id} written to ${filePath} (${formatBackupSize(size)})`);
+      return completed;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+      await db.update(systemBackups)
+        .set({
+          status: BackupStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date()
+        })
+        .where(eq(systemBackups.id, backup.id));
+      logger.error(`[CREATE_BACKUP] Backup ${backup.id} failed:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace the contents of every table in the archive. The work runs in one
+   * transaction; a dry run goes through the same steps and rolls back, so the
+   * preview also surfaces constraint failures. A real restore that empties
+   * tables with rows in them needs confirmDataLoss.
+   */
+  async restoreBackup(id: number, options: { dryRun: boolean; confirmDataLoss?: boolean }): Promise<RestoreResult> {
+    const backup = await this.getBackup(id);
+    const archive = await readBackupArchive(backup);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const databaseColumns = await loadDatabaseColumns(client);
+
+      const plan = planRestore(archive.tables.map(table => table.name), new Set(databaseColumns.keys()));
+      const archiveTables = new Map(archive.tables.map(table => [table.name, table]));
+      const tables = plan.restore.map(name => archiveTables.get(name)!);
+
+      const countRows = async (name: string): Promise<number> =>
+        (await client.query(`SELECT COUNT(*)::int AS count FROM ${quoteIdent(name)}`)).rows[0].count;
+      const summaries: RestoreTableSummary[] = [];
+      for (const table of tables) {
+        summaries.push({ table: table.name, currentRows: await countRows(table.name), backupRows: table.rows.length });
+      }
+      const clearedTables: RestoreTableSummary[] = [];
+      for (const name of plan.clear) {
+        clearedTables.push({ table: name, currentRows: await countRows(name), backupRows: 0 });
+      }
+      const warnings = clearedTables
+        .filter(table => table.currentRows > 0)
+        .map(table => `${table.table} is not in this backup and its ${table.currentRows} row(s) will be deleted`);
+      if (!options.dryRun) {
+        assertDataLossConfirmed(clearedTables, options.confirmDataLoss === true);
+      }
+
+      // Children are cleared before the tables they reference, then filled after them
+      for (const name of [...plan.clear, ...[...plan.restore].reverse()]) {
+        await client.query(`DELETE FROM ${quoteIdent(name)}`);
+      }
+      for (const table of tables) {
+        await this.insertRows(client, table, databaseColumns.get(table.name)!);
+      }
+      const reappliedErasures = await dataSubjectRequestService.reapplyErasures(client);
+
+      const result = { backupId: id, tables: summaries, clearedTables, skippedTables: plan.skipped, warnings, reappliedErasures };
+      if (options.dryRun) {
+        await client.query('ROLLBACK');
+        logger.info(`[RESTORE_BACKUP] Dry run of backup ${id} succeeded (${tables.length} tables, ${plan.clear.length} cleared)`);
+        return { ...result, dryRun: true };
+      }
+
+      await client.query('COMMIT');
+      logger.info(`[RESTORE_BACKUP] Restored backup ${id} (${tables.length} tables, ${plan.clear.length} cleared)`);
+      return { ...result, dryRun: false, restoredAt: new Date().toISOString() };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (error instanceof AppError) throw error;
+      logger.error(`[RESTORE_BACKUP] Restore of backup ${id} failed:`, error);
+      throw new AppError(
+        `Restore failed, nothing was changed: ${error instanceof Error ? error.message : String(error)}`,
+        409,
+        undefined,
+        ErrorCodes.CONFLICT
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertRows(client: PoolClient, table: BackupTableData, columnTypes: Map<string, string>): Promise<void> {
+    // Columns dropped since the backup are ignored; new columns take their defaults
+    const kept = table.columns
+      .map((name, index) => ({ name, index }))
+      .filter(column => columnTypes.has(column.name));
+    if (kept.length === 0 || table.rows.length === 0) return;
+
+    const columnList = kept.map(column => quoteIdent(column.name)).join(', ');
+    for (let start = 0; start < table.rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = table.rows.slice(start, start + INSERT_BATCH_SIZE);
+      const values: unknown[] = [];
+      const placeholders = batch.map(row => {
+        const slots = kept.map(column => {
+          values.push(row[column.index]);
+          return `$${values.length}`;
+        });
+        return `(${slots.join(', ')})`;
+      });
+
+      await client.query(`INSERT INTO ${quoteIdent(table.name)} (${columnList}) VALUES ${placeholders.join(', ')}`, values);
+    }
+
+    if (columnTypes.has('id')) {
+      await client.query(
+        `SELECT setval(pg_get_serial_sequence($1, 'id'), COALESCE((SELECT MAX("id") FROM ${quoteIdent(table.name)}), 0) + 1, false)`,
+        [quoteIdent(table.name)]
+      );
+    }
+  }
+
+  /**
+   * Register an uploaded archive as a backup so it can be previewed and restored
+   */
+  async importArchive(compressed: Buffer, fileName: string, userId?: number | null): Promise<SystemBackup> {
+    const archive = await parseBackupArchive(compressed);
+
+    const directory = getBackupDirectory();
+    await fs.promises.mkdir(directory, { recursive: true });
+    const baseName = path.basename(fileName).replace(/[^A-Za-z0-9._-]+/g, '-').replace(/\.json\.gz$|\.gz$/, '') || 'upload';
+    const filePath = path.join(directory, `${baseName}-${Date.now()}.json.gz`);
+    await fs.promises.writeFile(filePath, compressed);
+
+    const tableCounts = Object.fromEntries(archive.tables.map(table => [table.name, table.rows.length]));
+    const [backup] = await db.insert(systemBackups).values({
+      name: `Uploaded: ${path.basename(fileName)}`.slice(0, 255),
+      description: `Uploaded archive created ${archive.createdAt}`,
+      type: BackupType.MANUAL,
+      status: BackupStatus.COMPLETED,
+      includeResponses: archive.includeResponses !== false,
+      path: filePath,
+      size: formatBackupSize(compressed.length),
+      sizeBytes: compressed.length,
+      checksum: crypto.createHash('sha256').update(compressed).digest('hex'),
+      tableCounts,
+      userId: userId ?? null,
+      completedAt: new Date()
+    }).returning();
+
+    logger.info(`[IMPORT_BACKUP] Registered uploaded archive ${fileName} as backup ${backup.id}`);
+    return backup;
+  }
+
+  async deleteBackup(id: number, options: { allowAutomatic?: boolean } = {}): Promise<SystemBackup> {
+    const backup = await this.getBackup(id);
+    if (backup.type === BackupType.AUTO && !options.allowAutomatic) {
+      throw new AppError('Automatic backups cannot be deleted', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+
+    if (backup.path) {
+      await fs.promises.rm(backup.path, { force: true });
+    }
+    await db.delete(systemBackups).where(eq(systemBackups.id, id));
+    return backup;
+  }
+
+  /**
+   * Path of a completed archive for download
+   */
+  async getArchivePath(id: number): Promise<{ path: string; fileName: string }> {
+    const backup = await this.getBackup(id);
+    if (backup.status !== BackupStatus.COMPLETED || !backup.path || !fs.existsSync(backup.path)) {
+      throw new AppError('Backup archive is not available', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return { path: backup.path, fileName: path.basename(backup.path) };
+  }
+
+  async getSettings(): Promise<BackupSettings> {
+    const [settings] = await db.select().from(backupSettings).limit(1);
+    if (settings) return settings;
+
+    const [created] = await db.insert(backupSettings).values({}).returning();
+    return created;
+  }
+
+  async updateSettings(input: unknown, userId?: number | null): Promise<BackupSettings> {
+    const result = backupSettingsSchema.safeParse(input);
+    if (!result.success) {
+      const errors: Record<string, string[]> = {};
+      for (const issue of result.error.errors) {
+        (errors[issue.path.join('.') || 'settings'] ||= []).push(issue.message);
+      }
+      throw new AppError('Invalid backup settings', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const current = await this.getSettings();
+    const [updated] = await db.update(backupSettings)
+      .set({ ...result.data, updatedBy: userId ?? null, updatedAt: new Date() })
+      .where(eq(backupSettings.id, current.id))
+      .returning();
+
+    logger.info(`[UPDATE_SETTINGS] Backup schedule updated, retention ${updated.retentionDays} days`);
+    return updated;
+  }
+
+  /**
+   * Take the automatic backup due today, if any. Monthly backups run on the
+   * 1st, weekly ones on Sundays, daily ones every day; at most one per day.
+   */
+  async runScheduledBackup(now: Date = new Date()): Promise<SystemBackup | null> {
+    const settings = await this.getSettings();
+    const kind = settings.monthlyBackups && now.getDate() === 1 ? 'Monthly'
+      : settings.weeklyBackups && now.getDay() === 0 ? 'Weekly'
+      : settings.dailyBackups ? 'Daily'
+      : null;
+    if (!kind) return null;
+
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const [latest] = await db.select({ createdAt: systemBackups.createdAt })
+      .from(systemBackups)
+      .where(and(eq(systemBackups.type, BackupType.AUTO), eq(systemBackups.status, BackupStatus.COMPLETED)))
+      .orderBy(desc(systemBackups.createdAt))
+      .limit(1);
+    if (latest && latest.createdAt >= startOfDay) return null;
+
+    return this.createBackup({
+      name: `${kind} backup ${now.toISOString().slice(0, 10)}`,
+      type: BackupType.AUTO,
+      includeResponses: settings.includeResponses
+    });
+  }
+
+  /**
+   * Delete automatic backups older than the retention period
+   */
+  async applyRetention(now: Date = new Date()): Promise<number> {
+    const settings = await this.getSettings();
+    const cutoff = new Date(now.getTime() - settings.retentionDays * 24 * 60 * 60 * 1000);
+
+    const expired = await db.select()
+      .from(systemBackups)
+      .where(and(eq(systemBackups.type, BackupType.AUTO), lt(systemBackups.createdAt, cutoff)));
+
+    for (const backup of expired) {
+      await this.deleteBackup(backup.id, { allowAutomatic: true });
+    }
+    return expired.length;
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupService();
@@ -0,0 +1,655 @@
+import crypto from 'crypto';
+import type { PoolClient } from 'pg';
+import { z } from 'zod';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { db, pool } from '../db';
+import { auditLogs, dataSubjectRequests, DataSubjectRequest } from '../../shared/schema';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { EmailLocale, resolveEmailLocale } from '../utils/emailTemplates';
+import { signCompletionCertificate, subjectFingerprint } from '../utils/privacyCertificate';
+import {
+  generateSecureToken,
+  sendPrivacyRequestCompletedEmail,
+  sendPrivacyRequestRejectedEmail,
+  sendPrivacyRequestVerificationEmail
+} from './emailService';
+import {
+  CompletionCertificate,
+  DOWNLOAD_TTL_DAYS,
+  DataSubjectRequestDetail,
+  DataSubjectRequestQueue,
+  DataSubjectRequestStatus,
+  DataSubjectRequestStatusName,
+  DataSubjectRequestSummary,
+  DataSubjectRequestType,
+  EMPTY_SUBJECT_DATA_COUNTS,
+  PrivacyJurisdiction,
+  SUBJECT_ACCESS_INFORMATION,
+  SignedCompletionCertificate,
+  SubjectDataCounts,
+  VERIFICATION_RESEND_MINUTES,
+  VERIFICATION_TTL_HOURS,
+  daysUntil,
+  dataSubjectRequestSchema,
+  deadlineState,
+  legalDeadline,
+  privacyTokenSchema,
+  redactFreeTextAnswers,
+  rejectDataSubjectRequestSchema
+} from '../../shared/dataSubjectRequests';
+
+const logger = new Logger('DataSubjectRequestService');
+
+const FREE_TEXT_QUESTION_TYPE = 'text';
+const ERASED = '[erased]';
+const QUEUE_LIMIT = 200;
+const HOUR_MS = 60 * 60 * 1000;
+
+const OPEN_STATUSES: DataSubjectRequestStatusName[] = [DataSubjectRequestStatus.UNVERIFIED, DataSubjectRequestStatus.PENDING];
+
+// Cookie consents of a subject: $1 user IDs and $2 session IDs link a row to
+// them, $3 devices (ip_address + user_agent) only suggest it
+const LINKED_CONSENT = 'user_id = ANY($1::int[]) OR session_id = ANY($2::text[])';
+const DEVICE_CONSENT = `user_agent IS NOT NULL AND ip_address || E'\\n' || user_agent = ANY($3::text[])`;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Log lines name the subject by a short fingerprint, never by address
+const subjectLabel = (email: string) => subjectFingerprint(email).slice(0, 12);
+
+export interface PrivacyRequestContext {
+  baseUrl: string;
+  locale?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface PrivacyRequestActor {
+  id: number;
+  ipAddress?: string | null;
+}
+
+// What the public verification page shows once a request is confirmed
+export interface VerifiedDataSubjectRequest {
+  type: DataSubjectRequestType;
+  status: DataSubjectRequestStatusName;
+  dueAt: string | null;
+}
+
+// Identifying columns of the respondent rows a subject's email matches
+interface SubjectRecords {
+  responseIds: number[];
+  surveyIds: number[];
+  sessionIds: number[];
+  // Accounts and survey session IDs under the email, which link cookie consents to the subject
+  userIds: number[];
+  sessionKeys: string[];
+  // ip_address + user_agent of responses and sessions, to find the matching cookie consents
+  devices: string[];
+}
+
+/**
+ * DataSubjectRequestService - GDPR/CCPA requests from survey respondents.
+ * Anyone can ask for access to, an export of or the erasure of the data held
+ * under their email address; the request only enters the queue once the
+ * address owner confirms it from the verification email, which also starts
+ * the legal deadline. Platform staff then fulfil or reject it. Erasure
+ * anonymises responses and deletes sessions, cookie consents, newsletter
+ * subscriptions and email copies in one transaction, and is re-applied
+ * whenever a backup is restored. Every completion is recorded in audit_logs
+ * with a signed certificate.
+ */
+export class DataSubjectRequestService {
+  /**
+   * Record a request and email the verification link. Always succeeds for a
+   * valid address so the endpoint does not reveal whether we hold any data;
+   * an open request of the same type is reused and its link re-sent at most
+   * every few minutes.
+   */
+  async createRequest(input: unknown, context: PrivacyRequestContext): Promise<void> {
+    const request = this.parse(dataSubjectRequestSchema, input);
+    const locale = resolveEmailLocale(context.locale);
+
+    const [open] = await db.select()
+      .from(dataSubjectRequests)
+      .where(and(
+        eq(dataSubjectRequests.email, request.email),
+        eq(dataSubjectRequests.type, request.type),
+        inArray(dataSubjectRequests.status, OPEN_STATUSES)
+      ))
+      .orderBy(desc(dataSubjectRequests.createdAt))
+      .limit(1);
+
+    if (open?.status === DataSubjectRequestStatus.PENDING) {
+      logger.info(`[PRIVACY] ${request.type} request for ${subjectLabel(request.email)} is already pending (#${open.id})`);
+      return;
+    }
+    if (open && Date.now() - open.updatedAt.getTime() < VERIFICATION_RESEND_MINUTES * 60 * 1000) {
+      logger.info(`[PRIVACY] Not re-sending the verification of request #${open.id} yet`);
+      return;
+    }
+
+    const token = generateSecureToken();
+    const verification = {
+      verificationTokenHash: hashToken(token),
+      verificationExpiresAt: new Date(Date.now() + VERIFICATION_TTL_HOURS * HOUR_MS),
+      jurisdiction: request.jurisdiction,
+      details: request.details || null,
+      locale,
+      requestIp: context.ipAddress ?? null,
+      updatedAt: new Date()
+    };
+
+    let id: number;
+    if (open) {
+      await db.update(dataSubjectRequests).set(verification).where(eq(dataSubjectRequests.id, open.id));
+      id = open.id;
+    } else {
+      const [created] = await db.insert(dataSubjectRequests)
+        .values({ ...verification, type: request.type, email: request.email })
+        .returning({ id: dataSubjectRequests.id });
+      id = created.id;
+    }
+
+    await sendPrivacyRequestVerificationEmail(request.email, request.type, token, context.baseUrl, locale);
+    logger.info(`[PRIVACY] Sent the verification of ${request.type} request #${id} for ${subjectLabel(request.email)}`);
+  }
+
+  /**
+   * Confirm a request from its verification link. The legal deadline runs
+   * from here; opening the link again returns the request as it stands.
+   */
+  async verifyRequest(input: unknown): Promise<VerifiedDataSubjectRequest> {
+    const { token } = this.parse(privacyTokenSchema, input);
+    const [request] = await db.select()
+      .from(dataSubjectRequests)
+      .where(eq(dataSubjectRequests.verificationTokenHash, hashToken(token)))
+      .limit(1);
+
+    if (!request) {
+      throw new AppError('This link is invalid or has expired', 400, undefined, ErrorCodes.TOKEN_EXPIRED);
+    }
+    if (request.status !== DataSubjectRequestStatus.UNVERIFIED) {
+      return { type: request.type as DataSubjectRequestType, status: request.status as DataSubjectRequestStatusName, dueAt: request.dueAt?.toISOString() ?? null };
+    }
+    if (!request.verificationExpiresAt || request.verificationExpiresAt.getTime() < Date.now()) {
+      throw new AppError('This link is invalid or has expired', 400, undefined, ErrorCodes.TOKEN_EXPIRED);
+    }
+
+    const verifiedAt = new Date();
+    const dueAt = legalDeadline(request.jurisdiction as PrivacyJurisdiction, verifiedAt);
+    await db.update(dataSubjectRequests)
+      .set({ status: DataSubjectRequestStatus.PENDING, verifiedAt, dueAt, updatedAt: verifiedAt })
+      .where(eq(dataSubjectRequests.id, request.id));
+
+    logger.info(`[PRIVACY] Request #${request.id} verified, due ${dueAt.toISOString()}`);
+    return { type: request.type as DataSubjectRequestType, status: DataSubjectRequestStatus.PENDING, dueAt: dueAt.toISOString() };
+  }
+
+  /**
+   * The admin queue: pending requests by deadline, or all requests in one status
+   */
+  async getQueue(status?: string): Promise<DataSubjectRequestQueue> {
+    const statuses = Object.values(DataSubjectRequestStatus) as string[];
+    const filter = status && statuses.includes(status) ? status : DataSubjectRequestStatus.PENDING;
+
+    const rows: DataSubjectRequest[] = await db.select()
+      .from(dataSubjectRequests)
+      .where(eq(dataSubjectRequests.status, filter))
+      .orderBy(filter === DataSubjectRequestStatus.PENDING ? asc(dataSubjectRequests.dueAt) : desc(dataSubjectRequests.createdAt))
+      .limit(QUEUE_LIMIT);
+
+    const pending: DataSubjectRequest[] = filter === DataSubjectRequestStatus.PENDING
+      ? rows
+      : await db.select().from(dataSubjectRequests).where(eq(dataSubjectRequests.status, DataSubjectRequestStatus.PENDING));
+
+    const now = new Date();
+    const states = pending.map(row => deadlineState(row.dueAt, now));
+    return {
+      requests: rows.map(row => this.toSummary(row, now)),
+      counts: {
+        pending: pending.length,
+        dueSoon: states.filter(state => state === 'due_soon').length,
+        overdue: states.filter(state => state === 'overdue').length
+      }
+    };
+  }
+
+  /**
+   * One request with the records it covers: live counts while it is open,
+   * what was handed over or erased once completed
+   */
+  async getRequest(id: number): Promise<DataSubjectRequestDetail> {
+    const request = await this.load(id);
+    let records = (request.result as SubjectDataCounts | null) ?? null;
+    if (!records) {
+      const client = await pool.connect();
+      try {
+        records = await this.countSubjectData(client, request.email);
+      } finally {
+        client.release();
+      }
+    }
+    return {
+      ...this.toSummary(request, new Date()),
+      records,
+      certificate: (request.certificate as SignedCompletionCertificate | null) ?? null
+    };
+  }
+
+  /**
+   * Fulfil a verified request. Access and export requests get a download
+   * link; erasure requests erase the subject's data. Either way the request
+   * is closed with a signed certificate in the same transaction, and the
+   * subject is told by email afterwards.
+   */
+  async fulfilRequest(id: number, actor: PrivacyRequestActor, baseUrl: string): Promise<DataSubjectRequestDetail> {
+    const request = await this.load(id);
+    this.assertPending(request);
+
+    const type = request.type as DataSubjectRequestType;
+    const completedAt = new Date();
+    const download = type === 'erasure'
+      ? undefined
+      : { token: generateSecureToken(), expiresAt: new Date(completedAt.getTime() + DOWNLOAD_TTL_DAYS * 24 * HOUR_MS) };
+
+    const client = await pool.connect();
+    let signed: SignedCompletionCertificate;
+    let records: SubjectDataCounts;
+    try {
+      await client.query('BEGIN');
+      // Lock the request so two admins cannot fulfil it twice
+      const locked = await client.query('SELECT status FROM data_subject_requests WHERE id = $1 FOR UPDATE', [id]);
+      if (locked.rows[0]?.status !== DataSubjectRequestStatus.PENDING) {
+        throw new AppError('This request has already been handled', 409, undefined, ErrorCodes.CONFLICT);
+      }
+
+      let backups: CompletionCertificate['backups'];
+      if (type === 'erasure') {
+        records = await this.eraseSubjectData(client, request.email);
+        const archives = await client.query(`SELECT COUNT(*)::int AS count FROM system_backups WHERE status = 'completed'`);
+        backups = { archives: archives.rows[0].count, erasureReappliedOnRestore: true };
+      } else {
+        records = await this.countSubjectData(client, request.email);
+      }
+
+      signed = signCompletionCertificate({
+        requestId: request.id,
+        type,
+        jurisdiction: request.jurisdiction as PrivacyJurisdiction,
+        subject: subjectFingerprint(request.email),
+        receivedAt: request.createdAt.toISOString(),
+        verifiedAt: request.verifiedAt!.toISOString(),
+        dueAt: request.dueAt!.toISOString(),
+        completedAt: completedAt.toISOString(),
+        completedBy: actor.id,
+        onTime: completedAt.getTime() <= request.dueAt!.getTime(),
+        records,
+        ...(backups ? { backups } : {}),
+        ...(download ? { downloadExpiresAt: download.expiresAt.toISOString() } : {})
+      });
+
+      await client.query(
+        `UPDATE data_subject_requests
+            SET status = $2, completed_at = $3, handled_by_id = $4, result = $5, certificate = $6,
+                download_token_hash = $7, download_expires_at = $8, updated_at = $3
+          WHERE id = $1`,
+        [
+          id,
+          DataSubjectRequestStatus.COMPLETED,
+          completedAt,
+          actor.id,
+          JSON.stringify(records),
+          JSON.stringify(signed),
+          download ? hashToken(download.token) : null,
+          download?.expiresAt ?? null
+        ]
+      );
+      await client.query(
+        `INSERT INTO audit_logs (user_id, action, entity_type, entity_id, details, ip_address, timestamp)
+         VALUES ($1, 'privacy_request.completed', 'data_subject_request', $2, $3, $4, $5)`,
+        [actor.id, String(id), JSON.stringify(signed), actor.ipAddress ?? null, completedAt]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (error instanceof AppError) throw error;
+      logger.error(`[PRIVACY] Fulfilling request #${id} failed:`, error);
+      throw new AppError('The request could not be fulfilled, nothing was changed', 500, undefined, ErrorCodes.DATABASE_ERROR);
+    } finally {
+      client.release();
+    }
+
+    await sendPrivacyRequestCompletedEmail(request.email, type, baseUrl, download, request.locale as EmailLocale);
+    logger.info(`[PRIVACY] Fulfilled ${type} request #${id} (${records.responses} responses${signed.certificate.onTime ? '' : ', late'})`);
+    return this.getRequest(id);
+  }
+
+  /**
+   * Turn down a verified request, e.g. when it is manifestly unfounded; the
+   * subject is told the reason
+   */
+  async rejectRequest(id: number, input: unknown, actor: PrivacyRequestActor): Promise<DataSubjectRequestDetail> {
+    const { reason } = this.parse(rejectDataSubjectRequestSchema, input);
+    const request = await this.load(id);
+    this.assertPending(request);
+
+    const rejectedAt = new Date();
+    await db.transaction(async (tx: any) => {
+      const updated = await tx.update(dataSubjectRequests)
+        .set({ status: DataSubjectRequestStatus.REJECTED, rejectedAt, rejectionReason: reason, handledById: actor.id, updatedAt: rejectedAt })
+        .where(and(eq(dataSubjectRequests.id, id), eq(dataSubjectRequests.status, DataSubjectRequestStatus.PENDING)))
+        .returning({ id: dataSubjectRequests.id });
+      if (updated.length === 0) {
+        throw new AppError('This request has already been handled', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      await tx.insert(auditLogs).values({
+        userId: actor.id,
+        action: 'privacy_request.rejected',
+        entityType: 'data_subject_request',
+        entityId: String(id),
+        details: {
+          type: request.type,
+          jurisdiction: request.jurisdiction,
+          subject: subjectFingerprint(request.email),
+          reason
+        },
+        ipAddress: actor.ipAddress ?? null
+      });
+    });
+
+    await sendPrivacyRequestRejectedEmail(request.email, request.type as DataSubjectRequestType, reason, request.locale as EmailLocale);
+    logger.info(`[PRIVACY] Rejected ${request.type} request #${id}`);
+    return this.getRequest(id);
+  }
+
+  /**
+   * The data held about the subject of a fulfilled access or export request,
+   * read at download time so it reflects the current records
+   */
+  async buildDataPackage(input: unknown): Promise<{ filename: string; data: Record<string, unknown> }> {
+    const { token } = this.parse(privacyTokenSchema, input);
+    const [request] = await db.select()
+      .from(dataSubjectRequests)
+      .where(eq(dataSubjectRequests.downloadTokenHash, hashToken(token)))
+      .limit(1);
+
+    if (!request || !request.downloadExpiresAt || request.downloadExpiresAt.getTime() < Date.now()) {
+      throw new AppError('This download link is invalid or has expired', 400, undefined, ErrorCodes.TOKEN_EXPIRED);
+    }
+
+    const client = await pool.connect();
+    let records: Record<string, unknown[]>;
+    try {
+      records = await this.readSubjectData(client, request.email);
+    } finally {
+      client.release();
+    }
+
+    await db.update(dataSubjectRequests)
+      .set({ downloadedAt: new Date(), updatedAt: new Date() })
+      .where(eq(dataSubjectRequests.id, request.id));
+
+    logger.info(`[PRIVACY] Data package of request #${request.id} downloaded`);
+    return {
+      filename: `personal-data-${request.id}.json`,
+      data: {
+        generatedAt: new Date().toISOString(),
+        request: {
+          id: request.id,
+          type: request.type,
+          jurisdiction: request.jurisdiction,
+          receivedAt: request.createdAt.toISOString(),
+          completedAt: request.completedAt?.toISOString() ?? null
+        },
+        subject: { email: request.email },
+        ...(request.type === 'access' ? { processing: SUBJECT_ACCESS_INFORMATION } : {}),
+        data: records
+      }
+    };
+  }
+
+  /**
+   * Erase the data held under an email address inside the caller's
+   * transaction. Responses are kept for the surveys' aggregate results but
+   * stripped of everything that identifies the respondent, including
+   * free-text answers; the rest is deleted. Email copies are blanked rather
+   * than deleted so delivery statistics still add up. Cookie consents are only
+   * deleted when their account or session links them to the subject; consents
+   * that merely come from the same IP address and browser may be someone
+   * else's, so they lose the device details instead.
+   */
+  async eraseSubjectData(client: PoolClient, email: string): Promise<SubjectDataCounts> {
+    const subject = await this.findSubjectRecords(client, email);
+
+    let responses = 0;
+    if (subject.responseIds.length > 0) {
+      const freeText = await client.query(
+        'SELECT id FROM survey_questions WHERE survey_id = ANY($1::int[]) AND question_type = $2',
+        [subject.surveyIds, FREE_TEXT_QUESTION_TYPE]
+      );
+      const freeTextIds: number[] = freeText.rows.map((row: { id: number }) => row.id);
+      const rows = await client.query('SELECT id, responses FROM survey_responses WHERE id = ANY($1::int[])', [subject.responseIds]);
+      for (const row of rows.rows) {
+        await client.query(
+          `UPDATE survey_responses
+              SET respondent_email = NULL, respondent_id = $2, ip_address = NULL, user_agent = NULL,
+                  referrer = NULL, feedback = NULL, demographics = '{}', responses = $3, is_anonymized = true
+            WHERE id = $1`,
+          [row.id, `erased-${row.id}`, JSON.stringify(redactFreeTextAnswers(row.responses, freeTextIds) ?? [])]
+        );
+        responses++;
+      }
+    }
+
+    const consentParams = [subject.userIds, subject.sessionKeys, subject.devices];
+    const linkedConsents = (await client.query(`DELETE FROM cookie_consents WHERE ${LINKED_CONSENT}`, consentParams.slice(0, 2))).rowCount ?? 0;
+    const deviceConsents = subject.devices.length > 0
+      ? (await client.query(
+        `UPDATE cookie_consents SET ip_address = $4, user_agent = NULL, country = NULL, region = NULL, updated_at = NOW()
+          WHERE ${DEVICE_CONSENT}`,
+        [...consentParams, ERASED]
+      )).rowCount ?? 0
+      : 0;
+    const cookieConsents = linkedConsents + deviceConsents;
+    const surveySessions = subject.sessionIds.length > 0
+      ? (await client.query('DELETE FROM survey_sessions WHERE id = ANY($1::int[])', [subject.sessionIds])).rowCount ?? 0
+      : 0;
+    const newsletterSubscriptions = (await client.query(
+      'DELETE FROM newsletter_subscribers WHERE LOWER(email) = $1',
+      [email]
+    )).rowCount ?? 0;
+    const emailDeliveries = (await client.query(
+      `UPDATE email_deliveries SET to_address = $2, subject = $2, html = '', text = '', updated_at = NOW()
+        WHERE LOWER(to_address) = $1`,
+      [email, ERASED]
+    )).rowCount ?? 0;
+
+    return { responses, surveySessions, cookieConsents, newsletterSubscriptions, emailDeliveries };
+  }
+
+  /**
+   * Erase again the subjects of every completed erasure, inside a restore's
+   * transaction, so restoring an older backup does not bring their data back.
+   * Completion entries missing from the restored audit log are written again.
+   * Returns the number of erasures that found data to remove.
+   */
+  async reapplyErasures(client: PoolClient): Promise<number> {
+    const result = await client.query(
+      `SELECT DISTINCT email FROM data_subject_requests WHERE type = 'erasure' AND status = $1`,
+      [DataSubjectRequestStatus.COMPLETED]
+    );
+
+    let reapplied = 0;
+    for (const { email } of result.rows as Array<{ email: string }>) {
+      const erased = await this.eraseSubjectData(client, email);
+      if (Object.values(erased).some(count => count > 0)) reapplied++;
+    }
+
+    await client.query(
+      `INSERT INTO audit_logs (user_id, action, entity_type, entity_id, details, timestamp)
+       SELECT (SELECT u.id FROM users u WHERE u.id = d.handled_by_id), 'privacy_request.completed',
+              'data_subject_request', d.id::text, d.certificate, d.completed_at
+         FROM data_subject_requests d
+        WHERE d.status = $1 AND d.certificate IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM audit_logs a
+             WHERE a.action = 'privacy_request.completed' AND a.entity_type = 'data_subject_request' AND a.entity_id = d.id::text
+          )`,
+      [DataSubjectRequestStatus.COMPLETED]
+    );
+
+    if (reapplied > 0) {
+      logger.info(`[PRIVACY] Re-applied ${reapplied} erasures after restoring a backup`);
+    }
+    return reapplied;
+  }
+
+  private async findSubjectRecords(client: PoolClient, email: string): Promise<SubjectRecords> {
+    const responses = await client.query(
+      'SELECT id, survey_id, ip_address, user_agent FROM survey_responses WHERE LOWER(respondent_email) = $1',
+      [email]
+    );
+    const responseIds: number[] = responses.rows.map((row: { id: number }) => row.id);
+    const sessions = responseIds.length > 0
+      ? await client.query(
+        'SELECT id, session_id, ip_address, user_agent FROM survey_sessions WHERE survey_response_id = ANY($1::int[])',
+        [responseIds]
+      )
+      : { rows: [] };
+    const accounts = await client.query('SELECT id FROM users WHERE LOWER(email) = $1', [email]);
+
+    const devices = new Set<string>();
+    [...responses.rows, ...sessions.rows].forEach((row: { ip_address: string | null; user_agent: string | null }) => {
+      if (row.ip_address && row.user_agent) devices.add(`${row.ip_address}\n${row.user_agent}`);
+    });
+
+    return {
+      responseIds,
+      surveyIds: Array.from(new Set<number>(responses.rows.map((row: { survey_id: number }) => row.survey_id))),
+      sessionIds: sessions.rows.map((row: { id: number }) => row.id),
+      userIds: accounts.rows.map((row: { id: number }) => row.id),
+      sessionKeys: sessions.rows.map((row: { session_id: string }) => row.session_id),
+      devices: Array.from(devices)
+    };
+  }
+
+  private async countSubjectData(client: PoolClient, email: string): Promise<SubjectDataCounts> {
+    const subject = await this.findSubjectRecords(client, email);
+    const count = async (query: string, params: unknown[]) => (await client.query(query, params)).rows[0].count as number;
+
+    return {
+      ...EMPTY_SUBJECT_DATA_COUNTS,
+      responses: subject.responseIds.length,
+      surveySessions: subject.sessionIds.length,
+      cookieConsents: await count(
+        `SELECT COUNT(*)::int AS count FROM cookie_consents WHERE ${LINKED_CONSENT} OR (${DEVICE_CONSENT})`,
+        [subject.userIds, subject.sessionKeys, subject.devices]
+      ),
+      newsletterSubscriptions: await count('SELECT COUNT(*)::int AS count FROM newsletter_subscribers WHERE LOWER(email) = $1', [email]),
+      emailDeliveries: await count('SELECT COUNT(*)::int AS count FROM email_deliveries WHERE LOWER(to_address) = $1', [email])
+    };
+  }
+
+  private async readSubjectData(client: PoolClient, email: string): Promise<Record<string, unknown[]>> {
+    const subject = await this.findSubjectRecords(client, email);
+
+    const responses = await client.query(
+      `SELECT r.id, s.title AS survey, c.name AS company, r.respondent_id, r.respondent_email, r.language,
+              r.responses, r.traits, r.demographics, r.feedback, r.satisfaction_score, r.ip_address, r.user_agent,
+              r.referrer, r.source, r.start_time, r.complete_time
+         FROM survey_responses r
+         JOIN surveys s ON s.id = r.survey_id
+         LEFT JOIN companies c ON c.id = r.company_id
+        WHERE r.id = ANY($1::int[])
+        ORDER BY r.start_time`,
+      [subject.responseIds]
+    );
+    const surveySessions = await client.query(
+      `SELECT id, status, answers, answered_count, ip_address, user_agent, started_at, last_activity_at, completed_at
+         FROM survey_sessions WHERE id = ANY($1::int[]) ORDER BY started_at`,
+      [subject.sessionIds]
+    );
+    const cookieConsents = await client.query(
+      `SELECT necessary, analytics, marketing, functional, consent_version, consent_timestamp, ip_address, user_agent, country, region
+         FROM cookie_consents
+        WHERE ${LINKED_CONSENT} OR (${DEVICE_CONSENT})
+        ORDER BY consent_timestamp`,
+      [subject.userIds, subject.sessionKeys, subject.devices]
+    );
+    const newsletterSubscriptions = await client.query(
+      `SELECT email, name, subscription_source, subscribed, confirmed, subscribed_at, unsubscribed_at, ip_address, user_agent
+         FROM newsletter_subscribers WHERE LOWER(email) = $1`,
+      [email]
+    );
+    const emailDeliveries = await client.query(
+      `SELECT template, locale, subject, status, sent_at, created_at
+         FROM email_deliveries WHERE LOWER(to_address) = $1 ORDER BY created_at`,
+      [email]
+    );
+
+    return {
+      responses: responses.rows,
+      surveySessions: surveySessions.rows,
+      cookieConsents: cookieConsents.rows,
+      newsletterSubscriptions: newsletterSubscriptions.rows,
+      emailDeliveries: emailDeliveries.rows
+    };
+  }
+
+  private toSummary(request: DataSubjectRequest, now: Date): DataSubjectRequestSummary {
+    const open = request.status === DataSubjectRequestStatus.PENDING;
+    return {
+      id: request.id,
+      type: request.type as DataSubjectRequestType,
+      status: request.status as DataSubjectRequestStatusName,
+      email: request.email,
+      jurisdiction: request.jurisdiction as PrivacyJurisdiction,
+      details: request.details,
+      createdAt: request.createdAt.toISOString(),
+      verifiedAt: request.verifiedAt?.toISOString() ?? null,
+      dueAt: request.dueAt?.toISOString() ?? null,
+      completedAt: request.completedAt?.toISOString() ?? null,
+      rejectedAt: request.rejectedAt?.toISOString() ?? null,
+      rejectionReason: request.rejectionReason,
+      handledById: request.handledById,
+      result: (request.result as SubjectDataCounts | null) ?? null,
+      deadline: open ? deadlineState(request.dueAt, now) : null,
+      daysLeft: open && request.dueAt ? daysUntil(request.dueAt, now) : null
+    };
+  }
+
+  private assertPending(request: DataSubjectRequest): void {
+    if (request.status === DataSubjectRequestStatus.UNVERIFIED) {
+      throw new AppError('The requester has not confirmed this request yet', 409, undefined, ErrorCodes.BUSINESS_RULE_VIOLATION);
+    }
+    if (request.status !== DataSubjectRequestStatus.PENDING) {
+      throw new AppError('This request has already been handled', 409, undefined, ErrorCodes.CONFLICT);
+    }
+  }
+
+  private async load(id: number): Promise<DataSubjectRequest> {
+    const [request] = await db.select().from(dataSubjectRequests).where(eq(dataSubjectRequests.id, id)).limit(1);
+    if (!request) {
+      throw new AppError('Privacy request not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return request;
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'request';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid privacy request', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+}
+
+// Export singleton instance
+export const dataSubjectRequestService = new DataSubjectRequestService();
@@ -0,0 +1,238 @@
+import { db } from '../db';
+import { emailDeliveries, EmailDelivery, EmailDeliveryStatus } from '../../shared/schema';
+import { and, desc, eq, lte, lt, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { EmailLocale, EmailTemplate, EmailTemplateData, renderEmail } from '../utils/emailTemplates';
+import { createEmailTransport, EmailTransport } from './email-transport';
+
+const logger = new Logger('EmailDeliveryService');
+
+// Sends are attempted at most this many times before the delivery stays failed
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+// First retry after 5 minutes, doubling with every further attempt
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+export interface SendEmailOptions {
+  locale?: EmailLocale;
+  userId?: number | null;
+}
+
+export interface BounceReport {
+  messageId?: string;
+  email?: string;
+  reason?: string;
+}
+
+const retryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+
+/**
+ * EmailDeliveryService - Renders templated emails, hands them to the
+ * configured transport and records every send in the delivery log, retrying
+ * failures with exponential backoff and tracking bounces.
+ */
+export class EmailDeliveryService {
+  private transport: EmailTransport | null = null;
+
+  getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createEmailTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Replace the transport, e.g. with an outbox in a temporary directory
+   */
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Render a template and send it; failed sends are logged and retried later
+   */
+  async send<T extends EmailTemplate>(
+    template: T,
+    to: string,
+    data: EmailTemplateData[T],
+    options: SendEmailOptions = {}
+  ): Promise<EmailDelivery> {
+    const locale = options.locale ?? 'en';
+    const rendered = renderEmail(template, data, locale);
+
+    const [delivery] = await db.insert(emailDeliveries).values({
+      template,
+      locale,
+      toAddress: to,
+      userId: options.userId ?? null,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      transport: this.getTransport().name,
+      status: EmailDeliveryStatus.PENDING
+    }).returning();
+
+    return this.attempt(delivery);
+  }
+
+  private async attempt(delivery: EmailDelivery): Promise<EmailDelivery> {
+    const transport = this.getTransport();
+    const attempts = delivery.attempts + 1;
+
+    try {
+      const { messageId } = await transport.send({
+        to: delivery.toAddress,
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text,
+        deliveryId: delivery.id
+      });
+
+      const [sent] = await db.update(emailDeliveries)
+        .set({
+          status: EmailDeliveryStatus.SENT,
+          transport: transport.name,
+          attempts,
+          messageId,
+          lastError: null,
+          nextAttemptAt: null,
+          sentAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(emailDeliveries.id, delivery.id))
+        .returning();
+
+      logger.info(`[EMAIL] Sent ${delivery.template} email ${delivery.id} to ${delivery.toAddress} via ${transport.name}`);
+      return sent;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const willRetry = attempts < MAX_EMAIL_ATTEMPTS;
+
+      const [failed] = await db.update(emailDeliveries)
+        .set({
+          status: EmailDeliveryStatus.FAILED,
+          transport: transport.name,
+          attempts,
+          lastError: message,
+          nextAttemptAt: willRetry ? new Date(Date.now() + retryDelay(attempts)) : null,
+          updatedAt: new Date()
+        })
+        .where(eq(emailDeliveries.id, delivery.id))
+        .returning();
+
+      logger.warn(`[EMAIL] Sending ${delivery.template} email ${delivery.id} failed (attempt ${attempts}/${MAX_EMAIL_ATTEMPTS}): ${message}`);
+      return failed;
+    }
+  }
+
+  /**
+   * Retry failed deliveries whose backoff has elapsed
+   */
+  async retryDue(limit = 50): Promise<{ retried: number; sent: number }> {
+    const due = await db.select()
+      .from(emailDeliveries)
+      .where(and(
+        eq(emailDeliveries.status, EmailDeliveryStatus.FAILED),
+        lt(emailDeliveries.attempts, MAX_EMAIL_ATTEMPTS),
+        lte(emailDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(emailDeliveries.nextAttemptAt)
+      .limit(limit);
+
+    let sent = 0;
+    for (const delivery of due) {
+      const result = await this.attempt(delivery);
+      if (result.status === EmailDeliveryStatus.SENT) sent++;
+    }
+    return { retried: due.length, sent };
+  }
+
+  /**
+   * Retry one delivery immediately, regardless of its backoff
+   */
+  async retryDelivery(id: number): Promise<EmailDelivery> {
+    const delivery = await db.query.emailDeliveries.findFirst({ where: eq(emailDeliveries.id, id) });
+    if (!delivery) {
+      throw new AppError('Email delivery not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    if (delivery.status === EmailDeliveryStatus.SENT) {
+      throw new AppError('Email has already been sent', 409, undefined, ErrorCodes.CONFLICT);
+    }
+    return this.attempt(delivery);
+  }
+
+  /**
+   * Mark a delivery as bounced, matched by transport message ID or, failing
+   * that, the most recent email sent to the address
+   */
+  async recordBounce(report: BounceReport): Promise<EmailDelivery | null> {
+    if (!report.messageId && !report.email) {
+      throw new AppError('A message ID or email address is required', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const delivery = report.messageId
+      ? await db.query.emailDeliveries.findFirst({ where: eq(emailDeliveries.messageId, report.messageId) })
+      : await db.query.emailDeliveries.findFirst({
+        where: and(
+          eq(emailDeliveries.toAddress, report.email!),
+          eq(emailDeliveries.status, EmailDeliveryStatus.SENT)
+        ),
+        orderBy: [desc(emailDeliveries.sentAt)]
+      });
+
+    if (!delivery) {
+      logger.warn(`[EMAIL] Bounce for unknown message ${report.messageId ?? report.email}`);
+      return null;
+    }
+
+    const [bounced] = await db.update(emailDeliveries)
+      .set({
+        status: EmailDeliveryStatus.BOUNCED,
+        bouncedAt: new Date(),
+        bounceReason: report.reason ?? null,
+        nextAttemptAt: null,
+        updatedAt: new Date()
+      })
+      .where(eq(emailDeliveries.id, delivery.id))
+      .returning();
+
+    logger.warn(`[EMAIL] Email ${delivery.id} to ${delivery.toAddress} bounced: ${report.reason ?? 'no reason given'}`);
+    return bounced;
+  }
+
+  async listDeliveries(options: { status?: string; limit?: number } = {}) {
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+    return db.select({
+      id: emailDeliveries.id,
+      template: emailDeliveries.template,
+      locale: emailDeliveries.locale,
+      toAddress: emailDeliveries.toAddress,
+      subject: emailDeliveries.subject,
+      transport: emailDeliveries.transport,
+      status: emailDeliveries.status,
+      attempts: emailDeliveries.attempts,
+      lastError: emailDeliveries.lastError,
+      nextAttemptAt: emailDeliveries.nextAttemptAt,
+      sentAt: emailDeliveries.sentAt,
+      bouncedAt: emailDeliveries.bouncedAt,
+      bounceReason: emailDeliveries.bounceReason,
+      createdAt: emailDeliveries.createdAt
+    })
+      .from(emailDeliveries)
+      .where(options.status ? eq(emailDeliveries.status, options.status) : undefined)
+      .orderBy(desc(emailDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getStatusCounts(): Promise<Record<string, number>> {
+    const rows = await db.select({ status: emailDeliveries.status, count: sql<number>`count(*)::int` })
+      .from(emailDeliveries)
+      .groupBy(emailDeliveries.status);
+    return Object.fromEntries(rows.map((row: { status: string; count: number }) => [row.status, row.count]));
+  }
+}
+
+// Export singleton instance
+export const emailDeliveryService = new EmailDeliveryService();
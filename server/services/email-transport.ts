@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('EmailTransport');
+
+/**
+ * Email Transports
+ *
+ * The delivery service hands rendered messages to a transport:
+ * - smtp:   sends through any SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ * - outbox: writes each message as a JSON file to EMAIL_OUTBOX_DIR (default ./outbox),
+ *           for development and tests
+ *
+ * EMAIL_TRANSPORT selects one explicitly; otherwise SMTP is used when
+ * SMTP_HOST is configured and the outbox everywhere else.
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Delivery log ID, passed along so transports can tag the message
+  deliveryId?: number;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+export function getEmailFromAddress(): string {
+  return process.env.EMAIL_FROM || 'PersonalysisPro <no-reply@personalysispro.com>';
+}
+
+export function getOutboxDirectory(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox'));
+}
+
+/**
+ * SMTP transport backed by nodemailer
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: OutgoingEmail): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({
+      from: getEmailFromAddress(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.deliveryId ? { 'X-Delivery-ID': String(message.deliveryId) } : undefined
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+export interface OutboxMessage extends OutgoingEmail {
+  messageId: string;
+  from: string;
+  createdAt: string;
+}
+
+/**
+ * Outbox transport: one JSON file per message, newest last when sorted by name
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+
+  constructor(private directory: string = getOutboxDirectory()) {}
+
+  async send(message: OutgoingEmail): Promise<{ messageId: string }> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const messageId = `<${crypto.randomUUID()}@outbox.personalysispro>`;
+    const createdAt = new Date().toISOString();
+    const fileName = `${createdAt.replace(/[:.]/g, '-')}-${message.deliveryId ?? 'adhoc'}.json`;
+    const stored: OutboxMessage = { ...message, messageId, from: getEmailFromAddress(), createdAt };
+
+    await fs.promises.writeFile(path.join(this.directory, fileName), JSON.stringify(stored, null, 2));
+    return { messageId };
+  }
+
+  /**
+   * Most recent messages in the outbox, newest first
+   */
+  async list(limit = 50): Promise<OutboxMessage[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const recent = files.filter(file => file.endsWith('.json')).sort().reverse().slice(0, limit);
+    const messages = await Promise.all(
+      recent.map(async file => JSON.parse(await fs.promises.readFile(path.join(this.directory, file), 'utf8')) as OutboxMessage)
+    );
+    return messages;
+  }
+}
+
+/**
+ * Build the transport selected by the environment
+ */
+export function createEmailTransport(): EmailTransport {
+  const selected = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'outbox');
+
+  if (selected === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      logger.warn('[EMAIL] EMAIL_TRANSPORT=smtp but SMTP_HOST is not set; falling back to the outbox');
+      return new OutboxTransport();
+    }
+    logger.info(`[EMAIL] Using SMTP transport via ${process.env.SMTP_HOST}`);
+    return new SmtpTransport();
+  }
+
+  if (selected !== 'outbox') {
+    logger.warn(`[EMAIL] Unknown EMAIL_TRANSPORT "${selected}"; using the outbox`);
+  }
+  logger.info(`[EMAIL] Using outbox transport at ${getOutboxDirectory()}`);
+  return new OutboxTransport();
+}
@@ -1,15 +1,22 @@
 import crypto from 'crypto';
 import { Logger } from '../utils/Logger';
+import { EmailLocale, EmailTemplate, EmailTemplateData } from '../utils/emailTemplates';
+import { emailDeliveryService } from './email-delivery-service';
+import { EmailDeliveryStatus } from '../../shared/schema';
+import type { DataSubjectRequestType } from '../../shared/dataSubjectRequests';
 
 const logger = new Logger('EmailService');
 
 /**
  * Email Service
- * 
- * A lightweight implementation that logs email content to the console
- * instead of actually sending emails. This removes the need for third-party
- * services like SendGrid while still providing the business logic for email
- * verification and password reset.
+ *
+ * Business-level helpers for the emails the platform sends. Each one renders
+ * a localized template and sends it through the email delivery service,
+ * which picks the transport (SMTP or the development outbox), records the
+ * send in the delivery log and retries failures.
+ *
+ * The helpers resolve to true once the email has been handed to the
+ * transport; a false result means the send failed and is queued for retry.
  */
 
 /**
@@ -20,85 +27,67 @@ export function generateSecureToken(length: number = 32): string {
 }
 
 /**
- * Logs an email that would have been sent for email verification
+ * Signed token for the one-click unsubscribe link in newsletter emails
  */
-export async function sendVerificationEmail(
-  email: string,
-  username: string,
-  token: string,
-  baseUrl: string
+export function getNewsletterUnsubscribeToken(email: string): string {
+  return crypto
+    .createHmac('sha256', process.env.SESSION_SECRET || 'personalysispro-secret-key')
+    .update(`newsletter-unsubscribe:${email.toLowerCase()}`)
+    .digest('hex');
+}
+
+export function isValidNewsletterUnsubscribeToken(email: string, token: string): boolean {
+  const expected = Buffer.from(getNewsletterUnsubscribeToken(email));
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+async function deliver<T extends EmailTemplate>(
+  template: T,
+  to: string,
+  data: EmailTemplateData[T],
+  locale?: EmailLocale,
+  userId?: number | null
 ): Promise<boolean> {
   try {
-    const verificationLink = `${baseUrl}/api/verify-email?token=${token}`;
-    
-    // Log the email that would have been sent
-    logger.info(`
-    [EMAIL VERIFICATION]
-    To: ${email}
-    Subject: Verify Your PersonalysisPro Account
-
-    Dear ${username},
-
-    Thank you for registering with PersonalysisPro! Please click the link below to verify your email address:
-    
-    ${verificationLink}
-    
-    This link will expire in 24 hours.
-    
-    If you did not create an account, please ignore this email.
-    
-    Best regards,
-    The PersonalysisPro Team
-    `);
-    
-    return true;
+    const delivery = await emailDeliveryService.send(template, to, data, { locale, userId });
+    return delivery.status === EmailDeliveryStatus.SENT;
   } catch (error) {
-    logger.error('Error sending verification email:', error);
+    logger.error(`Error sending ${template} email:`, error);
     return false;
   }
 }
 
 /**
- * Logs an email that would have been sent for password reset
+ * Send the email address verification link
+ */
+export async function sendVerificationEmail(
+  email: string,
+  username: string,
+  token: string,
+  baseUrl: string,
+  locale?: EmailLocale
+): Promise<boolean> {
+  const link = `${baseUrl}/api/verify-email?token=${token}`;
+  return deliver('verification', email, { name: username, link }, locale);
+}
+
+/**
+ * Send the password reset link
  */
 export async function sendPasswordResetEmail(
   email: string,
   username: string,
   token: string,
-  baseUrl: string
+  baseUrl: string,
+  locale?: EmailLocale
 ): Promise<boolean> {
-  try {
-    const resetLink = `${baseUrl}/reset-password?token=${token}`;
-    
-    // Log the email that would have been sent
-    logger.info(`
-    [PASSWORD RESET]
-    To: ${email}
-    Subject: Reset Your PersonalysisPro Password
-
-    Dear ${username},
-
-    We received a request to reset your password. Click the link below to set a new password:
-    
-    ${resetLink}
-    
-    This link will expire in 1 hour.
-    
-    If you did not request a password reset, please ignore this email.
-    
-    Best regards,
-    The PersonalysisPro Team
-    `);
-    
-    return true;
-  } catch (error) {
-    logger.error('Error sending password reset email:', error);
-    return false;
-  }
+  const link = `${baseUrl}/reset-password?token=${token}`;
+  return deliver('password_reset', email, { name: username, link }, locale);
 }
 
 /**
- * Logs an email that would have been sent for user invitations
+ * Send a user invitation (see user_invitations)
  */
 export async function sendInvitationEmail(
   email: string,
@@ -106,108 +95,124 @@ export async function sendInvitationEmail(
   companyName: string,
   token: string,
   baseUrl: string,
-  role: string
+  role: string,
+  locale?: EmailLocale
 ): Promise<boolean> {
-  try {
-    const invitationLink = `${baseUrl}/accept-invitation?token=${token}`;
-    
-    // Log the email that would have been sent
-    logger.info(`
-    [USER INVITATION]
-    To: ${email}
-    Subject: You've Been Invited to Join PersonalysisPro
-
-    Hello,
-
-    ${inviterName} has invited you to join ${companyName} on PersonalysisPro with the role of ${role}.
-    
-    Click the link below to accept this invitation and create your account:
-    
-    ${invitationLink}
-    
-    This invitation expires in 7 days.
-    
-    Best regards,
-    The PersonalysisPro Team
-    `);
-    
-    return true;
-  } catch (error) {
-    logger.error('Error sending invitation email:', error);
-    return false;
-  }
+  const link = `${baseUrl}/accept-invitation?token=${token}`;
+  return deliver('invitation', email, { inviterName, companyName, role, link }, locale);
 }
 
 /**
- * Logs an email that would have been sent for account lockout notification
+ * Send the account lockout notification
  */
 export async function sendAccountLockoutEmail(
   email: string,
   username: string,
-  unlockTime: Date
+  unlockTime: Date,
+  locale?: EmailLocale
 ): Promise<boolean> {
-  try {
-    const formattedTime = unlockTime.toLocaleString();
-    
-    // Log the email that would have been sent
-    logger.info(`
-    [ACCOUNT LOCKOUT]
-    To: ${email}
-    Subject: Your PersonalysisPro Account Has Been Temporarily Locked
-
-    Dear ${username},
-
-    For security reasons, your account has been temporarily locked due to multiple failed login attempts.
-    
-    Your account will be automatically unlocked at ${formattedTime}.
-    
-    If you did not attempt to log in, please contact our support team immediately as your account may have been the target of an attack.
-    
-    Best regards,
-    The PersonalysisPro Team
-    `);
-    
-    return true;
-  } catch (error) {
-    logger.error('Error sending account lockout email:', error);
-    return false;
-  }
+  return deliver('account_lockout', email, { name: username, unlockTime }, locale);
 }
 
 /**
- * Logs an email that would have been sent for welcome messages
+ * Send the welcome message to a new user
  */
 export async function sendWelcomeEmail(
   email: string,
-  username: string
+  username: string,
+  baseUrl?: string,
+  locale?: EmailLocale
 ): Promise<boolean> {
-  try {
-    // Log the email that would have been sent
-    logger.info(`
-    [WELCOME]
-    To: ${email}
-    Subject: Welcome to PersonalysisPro!
-
-    Dear ${username},
-
-    Thank you for joining PersonalysisPro! We're excited to have you on board.
-    
-    Here are some resources to help you get started:
-    - View your dashboard to see your business insights
-    - Create your first survey to gather customer data
-    - Explore our analytics tools to gain deep insights
-    
-    If you have any questions, our support team is always ready to help.
-    
-    Best regards,
-    The PersonalysisPro Team
-    `);
-    
-    return true;
-  } catch (error) {
-    logger.error('Error sending welcome email:', error);
-    return false;
-  }
+  return deliver('welcome', email, { name: username, link: baseUrl ? `${baseUrl}/dashboard` : undefined }, locale);
+}
+
+/**
+ * Send one newsletter issue to a subscriber. Paragraphs in the content are
+ * separated by blank lines.
+ */
+export async function sendNewsletterEmail(
+  email: string,
+  subject: string,
+  content: string,
+  baseUrl: string,
+  name?: string | null,
+  locale?: EmailLocale
+): Promise<boolean> {
+  const unsubscribeUrl = `${baseUrl}/api/newsletter/unsubscribe?email=${encodeURIComponent(email)}&token=${getNewsletterUnsubscribeToken(email)}`;
+  return deliver('newsletter', email, { subject, content, unsubscribeUrl, name: name ?? undefined }, locale);
+}
+
+/**
+ * Tell the ticket owner about a status change and/or a new public reply
+ */
+export async function sendSupportTicketUpdateEmail(
+  email: string,
+  ticket: { ticketNumber: string; subject: string },
+  update: { status?: string; comment?: string },
+  baseUrl: string,
+  options: { name?: string | null; userId?: number | null; locale?: EmailLocale } = {}
+): Promise<boolean> {
+  return deliver(
+    'support_ticket',
+    email,
+    {
+      name: options.name ?? undefined,
+      ticketNumber: ticket.ticketNumber,
+      ticketSubject: ticket.subject,
+      status: update.status,
+      comment: update.comment,
+      link: `${baseUrl}/dashboard`
+    },
+    options.locale,
+    options.userId
+  );
+}
+
+/**
+ * Ask a data subject to confirm a privacy request made for their address
+ */
+export async function sendPrivacyRequestVerificationEmail(
+  email: string,
+  requestType: DataSubjectRequestType,
+  token: string,
+  baseUrl: string,
+  locale?: EmailLocale
+): Promise<boolean> {
+  const link = `${baseUrl}/privacy/requests?token=${token}`;
+  return deliver('privacy_request_verification', email, { requestType, link }, locale);
+}
+
+/**
+ * Tell a data subject their request was fulfilled; access and export
+ * requests come with a download link
+ */
+export async function sendPrivacyRequestCompletedEmail(
+  email: string,
+  requestType: DataSubjectRequestType,
+  baseUrl: string,
+  download?: { token: string; expiresAt: Date },
+  locale?: EmailLocale
+): Promise<boolean> {
+  return deliver(
+    'privacy_request_completed',
+    email,
+    download
+      ? { requestType, link: `${baseUrl}/api/privacy/requests/download?token=${download.token}`, expiresAt: download.expiresAt }
+      : { requestType },
+    locale
+  );
+}
+
+/**
+ * Tell a data subject why their request was rejected
+ */
+export async function sendPrivacyRequestRejectedEmail(
+  email: string,
+  requestType: DataSubjectRequestType,
+  reason: string,
+  locale?: EmailLocale
+): Promise<boolean> {
+  return deliver('privacy_request_rejected', email, { requestType, reason }, locale);
 }
 
 /**
@@ -218,7 +223,7 @@ export function getBaseUrl(req: any): string {
   if (process.env.NODE_ENV === 'production') {
     return `${req.protocol}://${req.get('host')}`;
   }
-  
+
   // In development
   return `http://localhost:${process.env.PORT || 5000}`;
-}
\ No newline at end of file
+}
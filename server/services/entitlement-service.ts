@@ -0,0 +1,207 @@
+import { db } from '../db';
+import {
+  clientSurveyDeployments,
+  companies,
+  licenses,
+  subscriptions,
+  surveyResponses,
+  surveys,
+  userInvitations,
+  users
+} from '../../shared/schema';
+import { and, desc, eq, gt, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { SeatUsage, seatUsage } from '../../shared/team';
+import {
+  EntitlementErrorCode,
+  EntitlementFeature,
+  EntitlementUsage,
+  EntitlementViolation,
+  Entitlements,
+  checkActive,
+  checkFeature,
+  checkLimit,
+  resolveEntitlements,
+  usageItem
+} from '../../shared/entitlements';
+
+const logger = new Logger('EntitlementService');
+
+/**
+ * Raised by services that refuse an action over an entitlement; routes send
+ * it with sendLimitExceeded so the client gets the limit and usage
+ */
+export class EntitlementError extends AppError {
+  constructor(public violation: EntitlementViolation) {
+    super(violation.message, 403, { [violation.entitlement]: [violation.message] }, violation.code);
+  }
+}
+
+/**
+ * EntitlementService - Resolves what a company may use from its assigned
+ * license, its own limits and its subscription, and checks survey creation,
+ * response intake, AI generation, exports and seats against them. Checks
+ * return the violation, or null when the action is allowed.
+ */
+export class EntitlementService {
+  async getEntitlements(companyId: number, tx: any = db): Promise<Entitlements> {
+    const [row] = await tx.select({ company: companies, license: licenses })
+      .from(companies)
+      .leftJoin(licenses, eq(licenses.id, companies.licenseId))
+      .where(eq(companies.id, companyId));
+    if (!row) {
+      throw new AppError('Company not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const [subscription] = await tx.select({
+      planType: subscriptions.planType,
+      status: subscriptions.status,
+      endDate: subscriptions.endDate,
+      autoRenew: subscriptions.autoRenew
+    })
+      .from(subscriptions)
+      .where(eq(subscriptions.companyId, companyId))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+
+    return resolveEntitlements({ company: row.company, license: row.license, subscription: subscription ?? null });
+  }
+
+  // Entitlements with how much of each limit the company uses, for /api/company/:id/usage
+  async getUsage(companyId: number): Promise<EntitlementUsage> {
+    const entitlements = await this.getEntitlements(companyId);
+    const [surveyCount, responseCount, seats] = await Promise.all([
+      this.countSurveys(companyId),
+      this.countResponses(companyId),
+      this.seatUsage(companyId, db, entitlements)
+    ]);
+    return {
+      entitlements,
+      usage: {
+        surveys: usageItem(surveyCount, entitlements.limits.surveys),
+        responses: usageItem(responseCount, entitlements.limits.responses),
+        seats: usageItem(seats.members + seats.pendingInvitations, entitlements.limits.seats)
+      }
+    };
+  }
+
+  /**
+   * Seats taken by active members and by invitations that can still be
+   * accepted. Pass the transaction that locks the company when the result
+   * decides whether someone may join.
+   */
+  async seatUsage(companyId: number, tx: any = db, entitlements?: Entitlements): Promise<SeatUsage> {
+    const { limits } = entitlements ?? await this.getEntitlements(companyId, tx);
+    const [[memberCount], [invitationCount]] = await Promise.all([
+      tx.select({ total: sql<number>`count(*)::int` })
+        .from(users)
+        .where(and(eq(users.companyId, companyId), sql`${users.isActive} IS NOT FALSE`)),
+      tx.select({ total: sql<number>`count(*)::int` })
+        .from(userInvitations)
+        .where(and(
+          eq(userInvitations.companyId, companyId),
+          eq(userInvitations.status, 'pending'),
+          gt(userInvitations.expiresAt, new Date())
+        ))
+    ]);
+    return seatUsage(limits.seats, memberCount.total, invitationCount.total);
+  }
+
+  async checkSurveyCreation(companyId: number): Promise<EntitlementViolation | null> {
+    const entitlements = await this.getEntitlements(companyId);
+    return this.logged(companyId, checkLimit(entitlements, 'surveys', await this.countSurveys(companyId)));
+  }
+
+  /**
+   * Whether the company can take `adding` more responses, and the deployment
+   * they arrive through has room for them
+   */
+  async checkResponseIntake(
+    companyId: number,
+    deploymentId: number | null = null,
+    adding = 1,
+    tx: any = db
+  ): Promise<EntitlementViolation | null> {
+    const entitlements = await this.getEntitlements(companyId, tx);
+    const violation = checkLimit(entitlements, 'responses', await this.countResponses(companyId, tx), adding);
+    if (violation || deploymentId === null) {
+      return this.logged(companyId, violation);
+    }
+
+    const deployment = await tx.query.clientSurveyDeployments.findFirst({
+      where: eq(clientSurveyDeployments.id, deploymentId),
+      columns: { id: true, maxResponses: true }
+    });
+    if (!deployment || deployment.maxResponses === null || deployment.maxResponses < 0) {
+      return null;
+    }
+    const [{ total }] = await tx.select({ total: sql<number>`count(*)::int` })
+      .from(surveyResponses)
+      .where(eq(surveyResponses.deploymentId, deploymentId));
+    if (total + adding <= deployment.maxResponses) {
+      return null;
+    }
+    return this.logged(companyId, {
+      code: EntitlementErrorCode.DEPLOYMENT_LIMIT_EXCEEDED,
+      message: `This survey link has reached its limit of ${deployment.maxResponses} responses.`,
+      entitlement: 'deployment',
+      current: total,
+      maximum: deployment.maxResponses
+    });
+  }
+
+  /**
+   * Check response intake again in the transaction that stores the response.
+   * The company row stays locked until it commits, so concurrent submissions
+   * to any of its surveys cannot both take the last response.
+   */
+  async reserveResponseIntake(tx: any, companyId: number, deploymentId: number | null = null): Promise<void> {
+    await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, companyId)).for('update');
+    const violation = await this.checkResponseIntake(companyId, deploymentId, 1, tx);
+    if (violation) {
+      throw new EntitlementError(violation);
+    }
+  }
+
+  // AI generated responses need the AI feature and count towards the response limit
+  async checkAIGeneration(companyId: number, count: number): Promise<EntitlementViolation | null> {
+    const entitlements = await this.getEntitlements(companyId);
+    const violation = checkFeature(entitlements, 'aiInsights')
+      ?? checkLimit(entitlements, 'responses', await this.countResponses(companyId), count);
+    return this.logged(companyId, violation);
+  }
+
+  async checkFeature(companyId: number, feature: EntitlementFeature): Promise<EntitlementViolation | null> {
+    return this.logged(companyId, checkFeature(await this.getEntitlements(companyId), feature));
+  }
+
+  async checkActive(companyId: number): Promise<EntitlementViolation | null> {
+    return this.logged(companyId, checkActive(await this.getEntitlements(companyId)));
+  }
+
+  private async countSurveys(companyId: number): Promise<number> {
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(surveys)
+      .where(eq(surveys.companyId, companyId));
+    return total;
+  }
+
+  private async countResponses(companyId: number, tx: any = db): Promise<number> {
+    const [{ total }] = await tx.select({ total: sql<number>`count(*)::int` })
+      .from(surveyResponses)
+      .where(eq(surveyResponses.companyId, companyId));
+    return total;
+  }
+
+  private logged(companyId: number, violation: EntitlementViolation | null): EntitlementViolation | null {
+    if (violation) {
+      logger.info(`[ENTITLEMENTS] Company ${companyId} refused: ${violation.code} (${violation.entitlement})`);
+    }
+    return violation;
+  }
+}
+
+// Export singleton instance
+export const entitlementService = new EntitlementService();
@@ -1,4 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { TraitModel, DEFAULT_TRAIT_MODEL, normalizeTraitScores } from '../../shared/traitModel';
+import { checkQuestionAnswer, describeQuestionForPrompt, sampleQuestionAnswer } from '../../shared/questionTypes';
 
 interface SurveyQuestion {
   id: number;
@@ -51,6 +53,22 @@ export interface BatchTiming {
   responseCount: number;
 }
 
+// Free text answers used when the model's answer is missing or unusable
+const SAMPLE_TEXT_RESPONSES = [
+  "I find this product very useful for my daily tasks.",
+  "The quality is good but could be improved in some areas.",
+  "I would recommend this to others based on my experience.",
+  "It meets my needs well and I'm satisfied with the purchase.",
+  "There are some features I really like and some that could be better.",
+  "Overall, I'm happy with this product and would buy it again.",
+  "The product works as expected and provides good value.",
+  "I have mixed feelings - some aspects are great, others need work.",
+  "This product has helped me solve a specific problem I had.",
+  "I appreciate the attention to detail in the design and functionality."
+];
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
 export class GeminiAIService {
   private genAI: GoogleGenerativeAI;
   private apiKey: string;
@@ -79,7 +97,8 @@ export class GeminiAIService {
       batchStartTime: Date;
       batchCompleteTime: Date;
       batchCount: number;
-    }) => Promise<void> | void
+    }) => Promise<void> | void,
+    traitModel: TraitModel = DEFAULT_TRAIT_MODEL
   ): Promise<{ responses: AIResponseData[]; batchTimings: BatchTiming[] }> {
     // Process responses in batches of 5 to avoid token/rate limits per batch
     const batchSize = 5;
@@ -106,7 +125,8 @@ export class GeminiAIService {
           questions,
           businessContext,
           demographics,
-          batchStart + i + 1
+          batchStart + i + 1,
+          traitModel
         ).catch(error => {
           console.error(`Error generating response ${batchStart + i + 1}:`, error);
           const fallbackStartTime = new Date();
@@ -114,7 +134,7 @@ export class GeminiAIService {
           return {
             responses: this.generateFallbackResponses(questions),
             demographics: this.generateDefaultDemographics(demographics),
-            traits: this.generateDefaultTraits(),
+            traits: this.generateDefaultTraits(traitModel),
             startTime: fallbackStartTime,
             completeTime: fallbackCompleteTime
           };
@@ -177,7 +197,8 @@ export class GeminiAIService {
     questions: SurveyQuestion[],
     businessContext: BusinessContext,
     demographics: Demographics,
-    responseNumber: number
+    responseNumber: number,
+    traitModel: TraitModel
   ): Promise<AIResponseData> {
     const startTime = new Date();
     const model = this.genAI.getGenerativeModel({
@@ -191,7 +212,7 @@ export class GeminiAIService {
       }
     });
 
-    const prompt = this.buildPrompt(questions, businessContext, demographics, responseNumber);
+    const prompt = this.buildPrompt(questions, businessContext, demographics, responseNumber, traitModel);
     
     const result = await model.generateContent(prompt);
     const response = await result.response;
@@ -203,7 +224,7 @@ export class GeminiAIService {
     const realisticCompletionTime = this.calculateRealisticCompletionTime(questions);
     const completeTime = new Date(startTime.getTime() + realisticCompletionTime);
 
-    const parsedResponse = this.parseAIResponse(text, questions, demographics);
+    const parsedResponse = this.parseAIResponse(text, questions, demographics, traitModel);
     
     return {
       ...parsedResponse,
@@ -255,7 +276,8 @@ export class GeminiAIService {
     questions: SurveyQuestion[],
     businessContext: BusinessContext,
     demographics: Demographics,
-    responseNumber: number
+    responseNumber: number,
+    traitModel: TraitModel
   ): string {
     const questionsText = questions
       .sort((a, b) => a.order - b.order)
@@ -278,74 +300,9 @@ export class GeminiAIService {
           questionText += `\n   Scenario: ${q.scenarioText}`;
         }
         
-        // Add options for multiple choice questions
-        if (q.questionType === 'multiple-choice' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   ⚠️  OPTIONS REQUIRED - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        } else if (q.questionType === 'slider') {
-          const config = q.sliderConfig || {};
-          const min = config.min || 0;
-          const max = config.max || 100;
-          const step = config.step || 1;
-          questionText += `\n   📊 SLIDER - Provide number between ${min} and ${max}`;
-        } else if (q.questionType === 'ranking' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   📋 RANKING REQUIRED - Rank these options (1 = highest priority):`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            questionText += `\n     - ${optionText}`;
-          });
-        } else if (q.questionType === 'text') {
-          questionText += `\n   ✏️  TEXT INPUT - Provide realistic text response`;
-        } else if (q.questionType === 'scenario' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   ⚠️  SCENARIO WITH OPTIONS - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        } else if (q.questionType === 'scenario' && !q.options) {
-          questionText += `\n   📝 SCENARIO TEXT - Provide realistic text response`;
-        } else if (q.questionType === 'image' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   🖼️  IMAGE SELECTION - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        } else if (q.questionType === 'mood-board' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   🎨 MOOD BOARD - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        } else if (q.questionType === 'personality-matrix' && q.options) {
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   🧠 PERSONALITY MATRIX - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        } else if (q.options && q.questionType !== 'multiple-choice' && q.questionType !== 'ranking') {
-          // Handle other question types that might have options
-          const options = Array.isArray(q.options) ? q.options : JSON.parse(q.options);
-          questionText += `\n   ⚠️  OPTIONS REQUIRED - Select ONE option value:`;
-          options.forEach((opt: any, optIndex: number) => {
-            const optionText = opt.text || opt.value || opt.label || String(opt);
-            const optionValue = opt.value || opt.id || `option_${optIndex}`;
-            questionText += `\n     - ${optionText} (value: ${optionValue})`;
-          });
-        }
+        // Add the answer format for the question type
+        const hint = describeQuestionForPrompt(q);
+        questionText += `\n   ${hint.split('\n').join('\n   ')}`;
         
         return questionText;
       })
@@ -379,6 +336,9 @@ export class GeminiAIService {
 - Target Income (if enabled): ${persona.income}
 Important: stay within the allowed enums for demographics, but bias your selections to this persona seed so responses differ across #.`;
 
+    const traitCount = traitModel.length;
+    const { traitList, traitExample } = this.describeTraitModel(traitModel);
+
     return `You are generating realistic survey responses for a market research survey. Generate response #${responseNumber} that represents a real person taking this survey.
 
 ${businessContextText}
@@ -423,24 +383,14 @@ DEMOGRAPHICS OUTPUT CONSTRAINTS (CRITICAL):
 Please respond with a JSON object containing:
 1. "responses" - Array of objects with "questionId" and "answer" fields
 2. "demographics" - Object with demographic information (only include enabled demographics from the list above)
-3. "traits" - Array of exactly 5 personality traits with name, score (0-100), and category
+3. "traits" - Array of exactly ${traitCount} personality traits with name, score (0-100), and category
 
 MANDATORY TRAITS FORMAT:
-You MUST return EXACTLY these 5 traits (no more, no less, no synonyms):
-1. Innovation (category: "behavioral") - score 0-100
-2. Analytical Thinking (category: "cognitive") - score 0-100
-3. Leadership (category: "social") - score 0-100
-4. Adaptability (category: "behavioral") - score 0-100
-5. Creativity (category: "cognitive") - score 0-100
+You MUST return EXACTLY these ${traitCount} traits (no more, no less, no synonyms):
+${traitList}
 
 The traits array must be in this exact format:
-[
-  {"name": "Innovation", "score": 75, "category": "behavioral"},
-  {"name": "Analytical Thinking", "score": 80, "category": "cognitive"},
-  {"name": "Leadership", "score": 65, "category": "social"},
-  {"name": "Adaptability", "score": 70, "category": "behavioral"},
-  {"name": "Creativity", "score": 60, "category": "cognitive"}
-]
+${traitExample}
 
 Example response format:
 {
@@ -457,18 +407,12 @@ Example response format:
     "education": "bachelor",
     "income": "50k-75k"
   },
-  "traits": [
-    {"name": "Innovation", "score": 75, "category": "behavioral"},
-    {"name": "Analytical Thinking", "score": 80, "category": "cognitive"},
-    {"name": "Leadership", "score": 65, "category": "social"},
-    {"name": "Adaptability", "score": 70, "category": "behavioral"},
-    {"name": "Creativity", "score": 60, "category": "cognitive"}
-  ]
+  "traits": ${traitExample}
 }
 
 IMPORTANT:
 - Include ONLY demographics that were marked as "Yes" in the demographics list above
-- Traits MUST be an array with exactly 5 objects in the format shown
+- Traits MUST be an array with exactly ${traitCount} objects in the format shown
 - Each trait must have the exact name, category, and a score between 0-100
 - Base trait scores on the respondent's answers to make them realistic and varied
 
@@ -481,7 +425,8 @@ Respond ONLY with valid JSON, no additional text.`;
   private parseAIResponse(
     aiText: string,
     questions: SurveyQuestion[],
-    demographics: Demographics
+    demographics: Demographics,
+    traitModel: TraitModel
   ): Omit<AIResponseData, 'startTime' | 'completeTime'> {
     try {
       // Extract a JSON-looking block and repair common issues before parsing
@@ -490,7 +435,7 @@ Respond ONLY with valid JSON, no additional text.`;
       const parsed = JSON.parse(cleanedText);
 
       // Parse, validate, and slightly jitter traits for variance
-      const traits = this.jitterTraits(this.parseAndValidateTraits(parsed.traits));
+      const traits = this.jitterTraits(this.parseAndValidateTraits(parsed.traits, traitModel));
 
       // Filter demographics to only include enabled ones
       const filteredDemographics = this.filterDemographics(
@@ -517,7 +462,7 @@ Respond ONLY with valid JSON, no additional text.`;
       return {
         responses: this.generateFallbackResponses(questions),
         demographics: this.generateDefaultDemographics(demographics),
-        traits: this.generateDefaultTraits()
+        traits: this.generateDefaultTraits(traitModel)
       };
     }
   }
@@ -631,43 +576,16 @@ Respond ONLY with valid JSON, no additional text.`;
   }
 
   /**
-   * Parse and validate traits array - ensures exactly 5 traits with correct format
+   * Parse and validate traits array - ensures exactly one entry per model trait
    */
-  private parseAndValidateTraits(traitsInput: any): TraitSummary[] {
-    const allowedTraits: TraitSummary[] = [
-      { name: 'Innovation', score: 0, category: 'behavioral' },
-      { name: 'Analytical Thinking', score: 0, category: 'cognitive' },
-      { name: 'Leadership', score: 0, category: 'social' },
-      { name: 'Adaptability', score: 0, category: 'behavioral' },
-      { name: 'Creativity', score: 0, category: 'cognitive' }
-    ];
-
+  private parseAndValidateTraits(traitsInput: any, traitModel: TraitModel): TraitSummary[] {
     // If traits is not an array, return default
     if (!Array.isArray(traitsInput)) {
-      return this.generateDefaultTraits();
+      return this.generateDefaultTraits(traitModel);
     }
 
-    // Map and enforce allowed set exactly once each
-    const allowedMap = new Map(allowedTraits.map(t => [t.name, t.category] as const));
-    const scores = new Map<string, number>();
-    
-    for (const item of traitsInput) {
-      const name = typeof item?.name === 'string' ? item.name : '';
-      const scoreRaw = parseInt(item?.score ?? 0);
-      if (allowedMap.has(name)) {
-        const clamped = Math.max(0, Math.min(100, isNaN(scoreRaw) ? 0 : scoreRaw));
-        scores.set(name, clamped);
-      }
-    }
-
-    // Build final array in canonical order, defaulting missing ones to 50
-    const finalTraits: TraitSummary[] = allowedTraits.map(t => ({
-      name: t.name,
-      category: t.category,
-      score: scores.has(t.name) ? (scores.get(t.name) as number) : 50
-    }));
-
-    return finalTraits;
+    // Build final array in model order, defaulting missing ones to 50
+    return normalizeTraitScores(traitModel, traitsInput);
   }
 
   /**
@@ -709,34 +627,37 @@ Respond ONLY with valid JSON, no additional text.`;
   }
 
   /**
-   * Generate default traits array with all 5 required traits
+   * Generate default traits array with every model trait at 50
    */
-  private generateDefaultTraits(): TraitSummary[] {
-    return [
-      { name: 'Innovation', score: 50, category: 'behavioral' },
-      { name: 'Analytical Thinking', score: 50, category: 'cognitive' },
-      { name: 'Leadership', score: 50, category: 'social' },
-      { name: 'Adaptability', score: 50, category: 'behavioral' },
-      { name: 'Creativity', score: 50, category: 'cognitive' }
-    ];
+  private generateDefaultTraits(traitModel: TraitModel): TraitSummary[] {
+    return normalizeTraitScores(traitModel, []);
+  }
+
+  /**
+   * Describe the trait model for a prompt: a numbered list and an example array
+   */
+  private describeTraitModel(traitModel: TraitModel): { traitList: string; traitExample: string } {
+    const traitList = traitModel
+      .map((t, index) => `${index + 1}. ${t.name} (category: "${t.category}")${t.description ? ` - ${t.description}` : ''} - score 0-100`)
+      .join('\n');
+    const traitExample = '[\n' + traitModel
+      .map((t, index) => `  {"name": ${JSON.stringify(t.name)}, "score": ${60 + ((index * 7) % 30)}, "category": "${t.category}"}`)
+      .join(',\n') + '\n]';
+    return { traitList, traitExample };
   }
 
   /**
    * Generate trait summaries from an actual survey submission (answers provided by the user).
-   * Returns exactly 5 traits with name, score (0-100), and category.
+   * Returns one trait per trait model entry with name, score (0-100), and category.
    */
   public async generateTraitsFromSubmission(
     questions: SurveyQuestion[],
     responses: Array<{questionId: number; answer: any}>,
     businessContext: BusinessContext & { title?: string; surveyType?: string },
+    traitModel: TraitModel = DEFAULT_TRAIT_MODEL
   ): Promise<TraitSummary[]> {
-    const allowedTraits: TraitSummary[] = [
-      { name: 'Innovation', score: 0, category: 'behavioral' },
-      { name: 'Analytical Thinking', score: 0, category: 'cognitive' },
-      { name: 'Leadership', score: 0, category: 'social' },
-      { name: 'Adaptability', score: 0, category: 'behavioral' },
-      { name: 'Creativity', score: 0, category: 'cognitive' }
-    ];
+    const traitCount = traitModel.length;
+    const { traitList, traitExample } = this.describeTraitModel(traitModel);
     const model = this.genAI.getGenerativeModel({
       model: 'gemini-2.5-flash',
       generationConfig: {
@@ -780,31 +701,21 @@ Respond ONLY with valid JSON, no additional text.`;
 
     const prompt = `You are an expert psychometrics and market-research analyst.
 
-Analyze the survey submission and produce scores ONLY for the following EXACT 5 traits. Use the respondent's selected answers to infer realistic scores.
+Analyze the survey submission and produce scores ONLY for the following EXACT ${traitCount} traits. Use the respondent's selected answers to infer realistic scores.
 
 MANDATORY OUTPUT CONSTRAINTS:
-- Output EXACTLY these 5 traits, no others and no synonyms:
-  1) Innovation (behavioral)
-  2) Analytical Thinking (cognitive)
-  3) Leadership (social)
-  4) Adaptability (behavioral)
-  5) Creativity (cognitive)
-- Return ONLY a JSON array of 5 objects with fields: name (string), score (integer 0-100), category (string)
-- The "name" MUST match one of the five EXACT strings above (case-sensitive)
-- The "category" MUST match the corresponding category in parentheses
+- Output EXACTLY these ${traitCount} traits, no others and no synonyms:
+${traitList}
+- Return ONLY a JSON array of ${traitCount} objects with fields: name (string), score (integer 0-100), category (string)
+- The "name" MUST match one of the EXACT trait names above (case-sensitive)
+- The "category" MUST match the corresponding category given above
 
 Context:\n${contextText}
 
 Questions, Options, and Selected Answers:\n${questionsText}
 
-Response format (exactly 5 items, names/categories as specified):
-[
-  {"name":"Innovation","score":82,"category":"behavioral"},
-  {"name":"Analytical Thinking","score":73,"category":"cognitive"},
-  {"name":"Leadership","score":68,"category":"social"},
-  {"name":"Adaptability","score":85,"category":"behavioral"},
-  {"name":"Creativity","score":83,"category":"cognitive"}
-]
+Response format (exactly ${traitCount} items, names/categories as specified):
+${traitExample}
 `;
 
     const result = await model.generateContent(prompt);
@@ -822,26 +733,60 @@ Response format (exactly 5 items, names/categories as specified):
     if (!Array.isArray(parsed)) {
       throw new Error('Gemini traits response is not an array');
     }
-    // Map and enforce allowed set exactly once each
-    const allowedMap = new Map(allowedTraits.map(t => [t.name, t.category] as const));
-    const scores = new Map<string, number>();
-    for (const item of parsed) {
-      const name = typeof item?.name === 'string' ? item.name : '';
-      const scoreRaw = parseInt(item?.score ?? 0);
-      if (allowedMap.has(name)) {
-        const clamped = Math.max(0, Math.min(100, isNaN(scoreRaw) ? 0 : scoreRaw));
-        scores.set(name, clamped);
+    // Enforce the model's traits exactly once each, in model order
+    return normalizeTraitScores(traitModel, parsed);
+  }
+
+  /**
+   * Translate survey texts for the translation pipeline. Returns the
+   * translation of each key Gemini answered; missing keys are left out.
+   */
+  public async translateTexts(
+    texts: Array<{ key: string; text: string }>,
+    sourceLanguage: string,
+    targetLanguage: string,
+    context?: string
+  ): Promise<Record<string, string>> {
+    if (texts.length === 0) return {};
+    const model = this.genAI.getGenerativeModel({
+      model: 'gemini-2.5-flash',
+      generationConfig: {
+        temperature: 0.2,
+        maxOutputTokens: 8192,
+        responseMimeType: 'application/json'
       }
-    }
+    });
 
-    // Build final array in canonical order, defaulting missing ones to 50
-    const finalTraits: TraitSummary[] = allowedTraits.map(t => ({
-      name: t.name,
-      category: t.category,
-      score: scores.has(t.name) ? (scores.get(t.name) as number) : 50
-    }));
+    const input = Object.fromEntries(texts.map(({ key, text }) => [key, text]));
+    const prompt = `You are a professional translator of market-research surveys.
+
+Translate every value of the JSON object below from ${sourceLanguage} into ${targetLanguage}.
+${context ? `The survey is titled "${context}".\n` : ''}
+RULES:
+- Keep the keys exactly as they are and translate only the values
+- Keep the tone neutral and the wording natural for respondents in that language
+- Answer options must stay short and mutually distinct
+- Keep placeholders, numbers, brand and product names unchanged
+- Return ONLY the JSON object with the same keys
+
+${JSON.stringify(input, null, 2)}
+`;
 
-    return finalTraits;
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    const text = response.text();
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(this.repairJson(this.extractJsonBlock(text)));
+    } catch (e) {
+      throw new Error('Gemini did not return valid JSON for translations');
+    }
+    const translated: Record<string, string> = {};
+    texts.forEach(({ key }) => {
+      if (typeof parsed?.[key] === 'string' && parsed[key].trim()) translated[key] = parsed[key].trim();
+    });
+    return translated;
   }
 
   /**
@@ -860,100 +805,15 @@ Response format (exactly 5 items, names/categories as specified):
 
       let answer = existingResponse.answer;
 
-      if (question.questionType === 'multiple-choice' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        // If answer is not in options, pick a random one
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}", selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.questionType === 'slider') {
-        const config = question.sliderConfig || {};
-        const min = config.min || 1;
-        const max = config.max || 10;
-        const numAnswer = parseInt(answer);
-        if (isNaN(numAnswer) || numAnswer < min || numAnswer > max) {
-          answer = Math.floor(Math.random() * (max - min + 1)) + min;
+      // Replace answers that don't fit the question type with a random valid one
+      if (!checkQuestionAnswer(question, answer).valid || answer === 'This is a realistic text response.') {
+        const sample = sampleQuestionAnswer(question);
+        if (sample !== null) {
+          console.warn(`Question ${question.id}: Invalid ${question.questionType} answer "${answer}", selecting random answer`);
+          answer = sample;
+        } else {
+          answer = pickRandom(SAMPLE_TEXT_RESPONSES);
         }
-      } else if (question.questionType === 'ranking' && question.options) {
-        // Generate a random ranking if not provided
-        if (!answer || typeof answer !== 'string') {
-          const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-          const shuffled = [...options].sort(() => Math.random() - 0.5);
-          answer = JSON.stringify(shuffled.map((opt: any, index: number) => ({
-            rank: index + 1,
-            option: opt.text || opt.value || opt.label || String(opt),
-            value: opt.value || opt.id || `option_${index}`
-          })));
-        }
-      } else if (question.questionType === 'scenario' && question.options) {
-        // Scenario questions with options - must select from options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}" for scenario question, selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.questionType === 'image' && question.options) {
-        // Image selection questions - must select from options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}" for image question, selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.questionType === 'mood-board' && question.options) {
-        // Mood board questions - must select from options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}" for mood-board question, selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.questionType === 'personality-matrix' && question.options) {
-        // Personality matrix questions - must select from options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}" for personality-matrix question, selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.options && question.questionType !== 'multiple-choice' && question.questionType !== 'ranking' && question.questionType !== 'slider' && question.questionType !== 'scenario' && question.questionType !== 'image' && question.questionType !== 'mood-board' && question.questionType !== 'personality-matrix' && question.questionType !== 'text') {
-        // Handle any other question types that have options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const optionValues = options.map((opt: any) => opt.value || opt.id);
-        
-        if (!optionValues.includes(answer)) {
-          console.warn(`Question ${question.id}: Invalid option "${answer}" for ${question.questionType}, selecting random option`);
-          const randomOption = options[Math.floor(Math.random() * options.length)];
-          answer = randomOption.value || randomOption.id;
-        }
-      } else if (question.questionType === 'text' && (!answer || answer === 'This is a realistic text response.')) {
-        // Generate more realistic text responses
-        const responses = [
-          "I find this product very useful for my daily tasks.",
-          "The quality is good but could be improved in some areas.",
-          "I would recommend this to others based on my experience.",
-          "It meets my needs well and I'm satisfied with the purchase.",
-          "There are some features I really like and some that could be better.",
-          "Overall, I'm happy with this product and would buy it again.",
-          "The product works as expected and provides good value.",
-          "I have mixed feelings - some aspects are great, others need work.",
-          "This product has helped me solve a specific problem I had.",
-          "I appreciate the attention to detail in the design and functionality."
-        ];
-        answer = responses[Math.floor(Math.random() * responses.length)];
       }
 
       validated.push({ questionId: question.id, answer });
@@ -1037,56 +897,7 @@ Response format (exactly 5 items, names/categories as specified):
     const responses: Array<{questionId: number; answer: any}> = [];
 
     questions.forEach(question => {
-      let answer: any;
-
-      if (question.questionType === 'multiple-choice' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else if (question.questionType === 'slider') {
-        const config = question.sliderConfig || {};
-        const min = config.min || 1;
-        const max = config.max || 10;
-        answer = Math.floor(Math.random() * (max - min + 1)) + min;
-      } else if (question.questionType === 'ranking' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const shuffled = [...options].sort(() => Math.random() - 0.5);
-        answer = JSON.stringify(shuffled.map((opt: any, index: number) => ({
-          rank: index + 1,
-          option: opt.text || opt.value || opt.label || String(opt),
-          value: opt.value || opt.id || `option_${index}`
-        })));
-      } else if (question.questionType === 'scenario' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else if (question.questionType === 'image' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else if (question.questionType === 'mood-board' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else if (question.questionType === 'personality-matrix' && question.options) {
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else if (question.options && question.questionType !== 'multiple-choice' && question.questionType !== 'ranking' && question.questionType !== 'slider' && question.questionType !== 'scenario' && question.questionType !== 'image' && question.questionType !== 'mood-board' && question.questionType !== 'personality-matrix') {
-        // Handle any other question types that have options
-        const options = Array.isArray(question.options) ? question.options : JSON.parse(question.options);
-        const randomOption = options[Math.floor(Math.random() * options.length)];
-        answer = randomOption.value || randomOption.id;
-      } else {
-        const responses = [
-          "I find this product very useful for my daily tasks.",
-          "The quality is good but could be improved in some areas.",
-          "I would recommend this to others based on my experience.",
-          "It meets my needs well and I'm satisfied with the purchase.",
-          "There are some features I really like and some that could be better."
-        ];
-        answer = responses[Math.floor(Math.random() * responses.length)];
-      }
+      const answer = sampleQuestionAnswer(question) ?? pickRandom(SAMPLE_TEXT_RESPONSES);
 
       responses.push({ questionId: question.id, answer });
     });
@@ -0,0 +1,289 @@
+import fs from 'fs';
+import path from 'path';
+import { IntegrationCredentials } from '../../shared/integrations';
+import { csvCell } from '../utils/surveyUtils';
+
+/**
+ * Integration Connectors
+ *
+ * A connector talks to one provider on behalf of an integration:
+ * - testConnection: checks the credentials and settings, throwing when they do not work
+ * - pushResponses:  sends survey responses collected since the last sync
+ * - pullContacts:   reads the provider's contacts
+ *
+ * Connectors are looked up by provider ID. The file connector exchanges CSV or
+ * JSON files in a folder below INTEGRATION_FILES_DIR (default ./integration-files),
+ * so syncing can be exercised without any external service. Each company gets
+ * its own company-<id> folder there, and configured folders resolve inside it.
+ */
+
+export interface ConnectorContext {
+  integrationId: number;
+  // Company that owns the integration; connectors never reach another company's data
+  companyId: number | null;
+  name: string;
+  apiUrl: string | null;
+  // Decrypted credentials
+  credentials: IntegrationCredentials;
+  config: Record<string, unknown>;
+}
+
+export interface ExportedResponse {
+  id: number;
+  surveyId: number;
+  surveyTitle: string | null;
+  respondentId: string;
+  respondentEmail: string | null;
+  completed: boolean;
+  startTime: string;
+  completeTime: string | null;
+  createdAt: string;
+  answers: unknown;
+  traits: unknown;
+  demographics: unknown;
+}
+
+export interface PulledContact {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  externalId: string | null;
+  attributes: Record<string, unknown>;
+}
+
+export interface IntegrationConnector {
+  readonly provider: string;
+  testConnection(context: ConnectorContext): Promise<{ message: string }>;
+  pushResponses?(context: ConnectorContext, responses: ExportedResponse[]): Promise<number>;
+  pullContacts?(context: ConnectorContext): Promise<PulledContact[]>;
+}
+
+export function getIntegrationFilesDirectory(): string {
+  return path.resolve(process.env.INTEGRATION_FILES_DIR || path.join(process.cwd(), 'integration-files'));
+}
+
+const RESPONSE_COLUMNS: Array<keyof ExportedResponse> = [
+  'id',
+  'surveyId',
+  'surveyTitle',
+  'respondentId',
+  'respondentEmail',
+  'completed',
+  'startTime',
+  'completeTime',
+  'createdAt',
+  'answers',
+  'traits',
+  'demographics'
+];
+
+// Source columns recognised for each contact field, compared without case, spaces or underscores
+const CONTACT_COLUMNS = {
+  email: ['email', 'emailaddress', 'mail'],
+  firstName: ['firstname', 'givenname'],
+  lastName: ['lastname', 'surname', 'familyname'],
+  externalId: ['id', 'externalid', 'contactid']
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeColumn = (column: string) => column.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Parse CSV text into records keyed by the header row. Handles quoted cells
+ * with commas, doubled quotes and line breaks.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(cells => cells.some(value => value.trim() !== ''));
+  if (!header) return [];
+  return records.map(cells => Object.fromEntries(header.map((column, index) => [column.trim(), cells[index] ?? ''])));
+}
+
+/**
+ * Map a source record to a contact, or null when it has no valid email address
+ */
+export function toContact(record: Record<string, unknown>): PulledContact | null {
+  const fields: Partial<Record<keyof typeof CONTACT_COLUMNS, string>> = {};
+  const attributes: Record<string, unknown> = {};
+
+  Object.entries(record).forEach(([column, value]) => {
+    const normalized = normalizeColumn(column);
+    const field = (Object.keys(CONTACT_COLUMNS) as Array<keyof typeof CONTACT_COLUMNS>)
+      .find(key => (CONTACT_COLUMNS[key] as readonly string[]).includes(normalized));
+    if (field && !fields[field] && value !== null && value !== undefined && String(value).trim() !== '') {
+      fields[field] = String(value).trim();
+    } else if (!field) {
+      attributes[column] = value;
+    }
+  });
+
+  const email = fields.email?.toLowerCase();
+  if (!email || !EMAIL_PATTERN.test(email)) return null;
+  return {
+    email,
+    firstName: fields.firstName ?? null,
+    lastName: fields.lastName ?? null,
+    externalId: fields.externalId ?? null,
+    attributes
+  };
+}
+
+/**
+ * File connector: appends pushed responses to a CSV or JSON file and reads
+ * contacts from one, inside the integration's folder
+ */
+export class FileConnector implements IntegrationConnector {
+  readonly provider = 'file';
+
+  constructor(private baseDirectory: string = getIntegrationFilesDirectory()) {}
+
+  async testConnection(context: ConnectorContext): Promise<{ message: string }> {
+    const directory = this.resolveDirectory(context);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const probe = path.join(directory, `.probe-${process.pid}-${Date.now()}`);
+    await fs.promises.writeFile(probe, '');
+    await fs.promises.unlink(probe);
+    return { message: `Folder ${path.relative(this.companyDirectory(context), directory) || '.'} is writable` };
+  }
+
+  async pushResponses(context: ConnectorContext, responses: ExportedResponse[]): Promise<number> {
+    if (responses.length === 0) return 0;
+    const directory = this.resolveDirectory(context);
+    await fs.promises.mkdir(directory, { recursive: true });
+    const file = this.resolveFile(directory, context, 'responsesFile', 'responses');
+
+    if (this.format(context) === 'json') {
+      const existing = await this.readJsonArray(file);
+      await fs.promises.writeFile(file, JSON.stringify([...existing, ...responses], null, 2));
+    } else {
+      const isNew = !(await fs.promises.stat(file).catch(() => null))?.size;
+      const lines = responses.map(response => RESPONSE_COLUMNS.map(column => csvCell(response[column])).join(','));
+      const header = isNew ? RESPONSE_COLUMNS.join(',') + '\n' : '';
+      await fs.promises.appendFile(file, header + lines.join('\n') + '\n');
+    }
+    return responses.length;
+  }
+
+  async pullContacts(context: ConnectorContext): Promise<PulledContact[]> {
+    const directory = this.resolveDirectory(context);
+    const file = this.resolveFile(directory, context, 'contactsFile', 'contacts');
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: unknown[] = this.format(context) === 'json' ? JSON.parse(text) : parseCsv(text);
+    if (!Array.isArray(records)) {
+      throw new Error('The contacts file must contain a JSON array');
+    }
+    return records
+      .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object')
+      .map(toContact)
+      .filter((contact): contact is PulledContact => contact !== null);
+  }
+
+  private format(context: ConnectorContext): 'csv' | 'json' {
+    return context.config.format === 'json' ? 'json' : 'csv';
+  }
+
+  // The company's own folder below the base directory
+  private companyDirectory(context: ConnectorContext): string {
+    if (!context.companyId) {
+      throw new Error('File integrations must belong to a company');
+    }
+    return path.join(this.baseDirectory, `company-${context.companyId}`);
+  }
+
+  // The configured folder, which must stay inside the company's folder
+  private resolveDirectory(context: ConnectorContext): string {
+    const root = this.companyDirectory(context);
+    const configured = typeof context.config.directory === 'string' && context.config.directory.trim()
+      ? context.config.directory.trim()
+      : `integration-${context.integrationId}`;
+    const directory = path.resolve(root, configured);
+    if (directory !== root && !directory.startsWith(root + path.sep)) {
+      throw new Error("The folder must be inside the company's integration files folder");
+    }
+    return directory;
+  }
+
+  private resolveFile(directory: string, context: ConnectorContext, key: string, fallback: string): string {
+    const configured = context.config[key];
+    const name = typeof configured === 'string' && configured.trim()
+      ? configured.trim()
+      : `${fallback}.${this.format(context)}`;
+    if (path.basename(name) !== name) {
+      throw new Error(`${key} must be a file name without a folder`);
+    }
+    return path.join(directory, name);
+  }
+
+  private async readJsonArray(file: string): Promise<unknown[]> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+const CONNECTORS: Record<string, () => IntegrationConnector> = {
+  file: () => new FileConnector()
+};
+
+/**
+ * The connector for a provider, or null when the provider has none yet
+ */
+export function getConnector(provider: string): IntegrationConnector | null {
+  return CONNECTORS[provider]?.() ?? null;
+}
+
+/**
+ * Replace or add a connector, e.g. a file connector in a temporary directory
+ */
+export function registerConnector(provider: string, factory: () => IntegrationConnector): void {
+  CONNECTORS[provider] = factory;
+}
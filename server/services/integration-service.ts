@@ -0,0 +1,440 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  integrations,
+  integrationContacts,
+  surveyResponses,
+  surveys,
+  Integration,
+  IntegrationContact,
+  IntegrationStatus
+} from '../../shared/schema';
+import { and, asc, desc, eq, gt, inArray, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { decryptCredential, encryptCredential } from '../utils/credentialCrypto';
+import {
+  INTEGRATION_CREDENTIAL_FIELDS,
+  IntegrationContactSummary,
+  IntegrationCredentials,
+  IntegrationSummary,
+  IntegrationSyncResult,
+  IntegrationSyncSettings,
+  createIntegrationSchema,
+  getIntegrationProvider,
+  updateIntegrationSchema
+} from '../../shared/integrations';
+import { ConnectorContext, ExportedResponse, getConnector, IntegrationConnector } from './integration-connectors';
+
+const logger = new Logger('IntegrationService');
+
+// Responses pushed per sync; the rest follow on the next run
+const PUSH_BATCH_SIZE = 500;
+
+/**
+ * Which integrations a request may see: one company's, or every company's
+ * (companyId null) for platform administrators
+ */
+export interface IntegrationScope {
+  companyId: number | null;
+}
+
+// Kept in the sync_state column
+interface SyncState {
+  lastPushedResponseId?: number;
+  lastAttemptAt?: string;
+  lastResult?: IntegrationSyncResult;
+}
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null);
+
+/**
+ * IntegrationService - Company integrations with third-party providers.
+ * Credentials are encrypted at rest; each provider's connector tests the
+ * connection, pushes new survey responses and pulls contacts, either on
+ * demand or on the schedule set in the integration's config.
+ */
+export class IntegrationService {
+  private running = new Set<number>();
+
+  async listIntegrations(scope: IntegrationScope): Promise<IntegrationSummary[]> {
+    const rows: Integration[] = await db.select()
+      .from(integrations)
+      .where(scope.companyId !== null ? eq(integrations.companyId, scope.companyId) : undefined)
+      .orderBy(desc(integrations.createdAt));
+    const contactCounts = await this.contactCounts(rows.map(row => row.id));
+    return rows.map(row => this.summarize(row, contactCounts.get(row.id) ?? 0));
+  }
+
+  async getIntegration(scope: IntegrationScope, id: number): Promise<IntegrationSummary> {
+    const integration = await this.loadIntegration(scope, id);
+    const contactCounts = await this.contactCounts([id]);
+    return this.summarize(integration, contactCounts.get(id) ?? 0);
+  }
+
+  async createIntegration(scope: IntegrationScope, input: unknown): Promise<IntegrationSummary> {
+    const data = this.parse(createIntegrationSchema, input);
+    const provider = getIntegrationProvider(data.provider)!;
+    const config = { ...(data.config ?? {}) };
+    this.validateConfig(data.provider, config);
+
+    const [integration] = await db.insert(integrations).values({
+      name: data.name,
+      provider: provider.id,
+      type: provider.category,
+      status: IntegrationStatus.CONFIGURED,
+      companyId: scope.companyId ?? data.companyId ?? null,
+      apiUrl: data.apiUrl ?? null,
+      config,
+      ...this.encryptCredentials(data.credentials ?? {})
+    }).returning();
+
+    logger.info(`[INTEGRATION] Created ${provider.id} integration ${integration.id} for company ${integration.companyId ?? 'none'}`);
+    return this.summarize(integration, 0);
+  }
+
+  async updateIntegration(scope: IntegrationScope, id: number, input: unknown): Promise<IntegrationSummary> {
+    const existing = await this.loadIntegration(scope, id);
+    const data = this.parse(updateIntegrationSchema, input);
+    const config = data.config !== undefined
+      ? { ...(existing.config as Record<string, unknown> ?? {}), ...data.config }
+      : undefined;
+    if (config) this.validateConfig(existing.provider, config);
+
+    let status: string | undefined;
+    if (data.enabled === false) {
+      status = IntegrationStatus.INACTIVE;
+    } else if (data.enabled === true && existing.status === IntegrationStatus.INACTIVE) {
+      status = IntegrationStatus.CONFIGURED;
+    } else if (data.credentials || data.apiUrl !== undefined || config) {
+      // Changed settings have to prove themselves again
+      status = existing.status === IntegrationStatus.INACTIVE ? undefined : IntegrationStatus.CONFIGURED;
+    }
+
+    const [integration] = await db.update(integrations)
+      .set({
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.apiUrl !== undefined ? { apiUrl: data.apiUrl } : {}),
+        ...(config ? { config } : {}),
+        ...(status ? { status } : {}),
+        ...this.encryptCredentials(data.credentials ?? {}),
+        updatedAt: new Date()
+      })
+      .where(eq(integrations.id, id))
+      .returning();
+
+    const contactCounts = await this.contactCounts([id]);
+    return this.summarize(integration, contactCounts.get(id) ?? 0);
+  }
+
+  async deleteIntegration(scope: IntegrationScope, id: number): Promise<void> {
+    await this.loadIntegration(scope, id);
+    await db.delete(integrations).where(eq(integrations.id, id));
+    logger.info(`[INTEGRATION] Deleted integration ${id}`);
+  }
+
+  /**
+   * Check the integration's credentials and settings with its connector
+   */
+  async testConnection(scope: IntegrationScope, id: number): Promise<{ ok: boolean; message: string; integration: IntegrationSummary }> {
+    const integration = await this.loadIntegration(scope, id);
+    const connector = this.requireConnector(integration);
+
+    let ok = true;
+    let message: string;
+    try {
+      ({ message } = await connector.testConnection(this.buildContext(integration)));
+    } catch (error) {
+      ok = false;
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    const [updated] = await db.update(integrations)
+      .set({
+        status: ok ? IntegrationStatus.ACTIVE : IntegrationStatus.ERROR,
+        lastError: ok ? null : message,
+        updatedAt: new Date()
+      })
+      .where(eq(integrations.id, id))
+      .returning();
+
+    logger.info(`[INTEGRATION] Connection test for integration ${id}: ${ok ? 'ok' : 'failed'} - ${message}`);
+    const contactCounts = await this.contactCounts([id]);
+    return { ok, message, integration: this.summarize(updated, contactCounts.get(id) ?? 0) };
+  }
+
+  /**
+   * Sync one integration now
+   */
+  async syncNow(scope: IntegrationScope, id: number): Promise<IntegrationSummary> {
+    const integration = await this.loadIntegration(scope, id);
+    this.requireConnector(integration);
+    if (this.running.has(id)) {
+      throw new AppError('This integration is already syncing', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const synced = await this.sync(integration);
+    const contactCounts = await this.contactCounts([id]);
+    return this.summarize(synced, contactCounts.get(id) ?? 0);
+  }
+
+  /**
+   * Sync every enabled integration whose sync interval has elapsed since its last attempt
+   */
+  async syncDue(): Promise<{ synced: number; failed: number }> {
+    const candidates: Integration[] = await db.select()
+      .from(integrations)
+      .where(inArray(integrations.status, [IntegrationStatus.ACTIVE, IntegrationStatus.CONFIGURED, IntegrationStatus.ERROR]));
+
+    const now = Date.now();
+    const due = candidates.filter(integration => {
+      const interval = Number((integration.config as IntegrationSyncSettings | null)?.syncIntervalMinutes) || 0;
+      if (interval <= 0 || !getConnector(integration.provider) || this.running.has(integration.id)) return false;
+      const lastAttemptAt = (integration.syncState as SyncState | null)?.lastAttemptAt;
+      return !lastAttemptAt || now - new Date(lastAttemptAt).getTime() >= interval * 60 * 1000;
+    });
+
+    let failed = 0;
+    for (const integration of due) {
+      const result = await this.sync(integration);
+      if (result.status === IntegrationStatus.ERROR) failed++;
+    }
+    return { synced: due.length - failed, failed };
+  }
+
+  async listContacts(scope: IntegrationScope, id: number, limit = 100): Promise<IntegrationContactSummary[]> {
+    await this.loadIntegration(scope, id);
+    const rows: IntegrationContact[] = await db.select()
+      .from(integrationContacts)
+      .where(eq(integrationContacts.integrationId, id))
+      .orderBy(asc(integrationContacts.email))
+      .limit(Math.min(Math.max(limit, 1), 500));
+
+    return rows.map(row => ({
+      id: row.id,
+      email: row.email,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      externalId: row.externalId,
+      attributes: (row.attributes as Record<string, unknown>) ?? {},
+      syncedAt: row.syncedAt.toISOString()
+    }));
+  }
+
+  private async sync(integration: Integration): Promise<Integration> {
+    const connector = getConnector(integration.provider)!;
+    const provider = getIntegrationProvider(integration.provider);
+    const settings = (integration.config as IntegrationSyncSettings | null) ?? {};
+    const state: SyncState = { ...((integration.syncState as SyncState | null) ?? {}), lastAttemptAt: new Date().toISOString() };
+    const context = this.buildContext(integration);
+
+    this.running.add(integration.id);
+    try {
+      let pushed = 0;
+      let pulled = 0;
+
+      if (connector.pushResponses && provider?.capabilities.pushResponses && settings.pushResponses !== false) {
+        const responses = await this.responsesSince(integration.companyId, state.lastPushedResponseId ?? 0);
+        pushed = await connector.pushResponses(context, responses);
+        if (responses.length > 0) {
+          state.lastPushedResponseId = responses[responses.length - 1].id;
+        }
+      }
+
+      if (connector.pullContacts && provider?.capabilities.pullContacts && settings.pullContacts !== false) {
+        const contacts = await connector.pullContacts(context);
+        for (const contact of contacts) {
+          await db.insert(integrationContacts)
+            .values({ integrationId: integration.id, companyId: integration.companyId, ...contact })
+            .onConflictDoUpdate({
+              target: [integrationContacts.integrationId, integrationContacts.email],
+              set: {
+                firstName: contact.firstName,
+                lastName: contact.lastName,
+                externalId: contact.externalId,
+                attributes: contact.attributes,
+                syncedAt: new Date()
+              }
+            });
+        }
+        pulled = contacts.length;
+      }
+
+      state.lastResult = { pushed, pulled, finishedAt: new Date().toISOString() };
+      const [synced] = await db.update(integrations)
+        .set({
+          status: IntegrationStatus.ACTIVE,
+          lastSynced: new Date(),
+          lastError: null,
+          syncState: state,
+          updatedAt: new Date()
+        })
+        .where(eq(integrations.id, integration.id))
+        .returning();
+
+      logger.info(`[INTEGRATION] Synced integration ${integration.id}: ${pushed} responses pushed, ${pulled} contacts pulled`);
+      return synced;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const [failed] = await db.update(integrations)
+        .set({
+          status: IntegrationStatus.ERROR,
+          lastError: message,
+          syncState: state,
+          updatedAt: new Date()
+        })
+        .where(eq(integrations.id, integration.id))
+        .returning();
+
+      logger.warn(`[INTEGRATION] Sync of integration ${integration.id} failed: ${message}`);
+      return failed;
+    } finally {
+      this.running.delete(integration.id);
+    }
+  }
+
+  // Responses after the sync cursor, oldest first; integrations without a company export every company's
+  private async responsesSince(companyId: number | null, afterId: number): Promise<ExportedResponse[]> {
+    const rows = await db.select({ response: surveyResponses, surveyTitle: surveys.title })
+      .from(surveyResponses)
+      .leftJoin(surveys, eq(surveys.id, surveyResponses.surveyId))
+      .where(and(
+        gt(surveyResponses.id, afterId),
+        companyId !== null ? eq(surveyResponses.companyId, companyId) : undefined
+      ))
+      .orderBy(asc(surveyResponses.id))
+      .limit(PUSH_BATCH_SIZE);
+
+    return rows.map(({ response, surveyTitle }: { response: typeof surveyResponses.$inferSelect; surveyTitle: string | null }) => ({
+      id: response.id,
+      surveyId: response.surveyId,
+      surveyTitle,
+      respondentId: response.respondentId,
+      respondentEmail: response.respondentEmail,
+      completed: response.completed,
+      startTime: response.startTime.toISOString(),
+      completeTime: toIso(response.completeTime),
+      createdAt: response.createdAt.toISOString(),
+      answers: response.responses,
+      traits: response.traits,
+      demographics: response.demographics
+    }));
+  }
+
+  private buildContext(integration: Integration): ConnectorContext {
+    const credentials: IntegrationCredentials = {};
+    INTEGRATION_CREDENTIAL_FIELDS.forEach(field => {
+      credentials[field] = decryptCredential(integration[field]);
+    });
+    return {
+      integrationId: integration.id,
+      companyId: integration.companyId,
+      name: integration.name,
+      apiUrl: integration.apiUrl,
+      credentials,
+      config: (integration.config as Record<string, unknown>) ?? {}
+    };
+  }
+
+  private requireConnector(integration: Integration): IntegrationConnector {
+    const connector = getConnector(integration.provider);
+    if (!connector) {
+      const name = getIntegrationProvider(integration.provider)?.name ?? integration.provider;
+      throw new AppError(`${name} integrations cannot connect yet`, 400, undefined, ErrorCodes.INVALID_INPUT);
+    }
+    return connector;
+  }
+
+  // Only the credentials present in the input are changed; null or an empty string clears one
+  private encryptCredentials(credentials: IntegrationCredentials): IntegrationCredentials {
+    const encrypted: IntegrationCredentials = {};
+    INTEGRATION_CREDENTIAL_FIELDS.forEach(field => {
+      if (credentials[field] !== undefined) {
+        encrypted[field] = encryptCredential(credentials[field]);
+      }
+    });
+    return encrypted;
+  }
+
+  private validateConfig(providerId: string, config: Record<string, unknown>): void {
+    const provider = getIntegrationProvider(providerId);
+    const errors: Record<string, string[]> = {};
+    provider?.config.forEach(field => {
+      const value = config[field.key];
+      if (field.required && (value === undefined || value === null || String(value).trim() === '')) {
+        errors[`config.${field.key}`] = [`${field.label} is required`];
+      } else if (field.options && value !== undefined && value !== null && !field.options.includes(String(value))) {
+        errors[`config.${field.key}`] = [`${field.label} must be one of ${field.options.join(', ')}`];
+      }
+    });
+    const interval = config.syncIntervalMinutes;
+    if (interval !== undefined && interval !== null && (!Number.isInteger(Number(interval)) || Number(interval) < 0)) {
+      errors['config.syncIntervalMinutes'] = ['Sync interval must be a whole number of minutes'];
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new AppError('Invalid integration settings', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'integration';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid integration details', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async loadIntegration(scope: IntegrationScope, id: number): Promise<Integration> {
+    const integration = await db.query.integrations.findFirst({
+      where: and(
+        eq(integrations.id, id),
+        scope.companyId !== null ? eq(integrations.companyId, scope.companyId) : undefined
+      )
+    });
+    if (!integration) {
+      throw new AppError('Integration not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return integration;
+  }
+
+  private async contactCounts(ids: number[]): Promise<Map<number, number>> {
+    if (ids.length === 0) return new Map();
+    const rows = await db.select({ integrationId: integrationContacts.integrationId, count: sql<number>`count(*)::int` })
+      .from(integrationContacts)
+      .where(inArray(integrationContacts.integrationId, ids))
+      .groupBy(integrationContacts.integrationId);
+    return new Map(rows.map((row: { integrationId: number; count: number }) => [row.integrationId, row.count]));
+  }
+
+  private summarize(integration: Integration, contactCount: number): IntegrationSummary {
+    const state = (integration.syncState as SyncState | null) ?? {};
+    return {
+      id: integration.id,
+      name: integration.name,
+      provider: integration.provider,
+      category: integration.type,
+      status: integration.status,
+      companyId: integration.companyId,
+      apiUrl: integration.apiUrl,
+      config: (integration.config as Record<string, unknown>) ?? {},
+      credentials: Object.fromEntries(
+        INTEGRATION_CREDENTIAL_FIELDS.map(field => [field, !!integration[field]])
+      ) as IntegrationSummary['credentials'],
+      lastSynced: toIso(integration.lastSynced),
+      lastError: integration.lastError,
+      lastResult: state.lastResult ?? null,
+      contactCount,
+      createdAt: integration.createdAt.toISOString(),
+      updatedAt: integration.updatedAt.toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const integrationService = new IntegrationService();
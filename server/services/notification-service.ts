@@ -88,6 +88,46 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Create the same notification for each of the given users. These are
+   * personal, so they are not broadcast to the admins.
+   */
+  async createUserNotifications(
+    userIds: number[],
+    input: Omit<CreateAdminNotificationInput, 'actionableUserId'> & { actionableUserId?: number | null }
+  ): Promise<number> {
+    const recipients = Array.from(new Set(userIds));
+    if (recipients.length === 0) return 0;
+
+    try {
+      const result = await db
+        .insert(notifications)
+        .values(recipients.map(userId => ({
+          userId,
+          type: input.priority === 'high' ? 'alert' : 'info',
+          title: input.title.slice(0, 100),
+          message: input.message,
+          isRead: false,
+          link: input.link || null,
+          metadata: input.metadata || null,
+          isGlobal: false,
+          category: input.category,
+          priority: input.priority,
+          actionableUserId: input.actionableUserId || null,
+          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+        })))
+        .returning({ id: notifications.id });
+
+      logger.info(
+        `[CREATE_NOTIFICATION] Notified ${result.length} users: ${input.title}`
+      );
+      return result.length;
+    } catch (error) {
+      logger.error('[CREATE_NOTIFICATION] Error creating user notifications:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get admin notifications with optional filtering
    */
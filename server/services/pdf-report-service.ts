@@ -0,0 +1,500 @@
+import PDFDocument from 'pdfkit';
+import { Logger } from '../utils/Logger';
+import { ChartDatum, MIN_RADAR_AXES, barChartHeight, drawBarChart, drawRadarChart } from '../utils/pdfCharts';
+
+const logger = new Logger('PdfReportService');
+
+const PRIMARY = '#2563eb';
+const HEADING = '#1e40af';
+const TEXT = '#374151';
+const MUTED = '#6b7280';
+const BORDER = '#d1d5db';
+
+const MARGIN = 50;
+
+// Larger exports belong in the Excel or JSON formats
+export const PDF_RESPONSE_ROW_LIMIT = 500;
+
+const LOGO_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Demographic breakdowns in the order they are printed; the first key of
+// each group found in the analytics is used
+const DEMOGRAPHIC_GROUPS: { title: string; keys: string[] }[] = [
+  { title: 'Gender', keys: ['genderDistribution', 'gender'] },
+  { title: 'Age', keys: ['ageDistribution', 'ageGroups', 'age'] },
+  { title: 'Location', keys: ['locationDistribution', 'location'] },
+  { title: 'Education', keys: ['educationDistribution', 'education'] },
+  { title: 'Income', keys: ['incomeDistribution', 'income'] },
+  { title: 'Occupation', keys: ['occupationDistribution', 'occupation'] }
+];
+
+// Same categories as the Business Context sheet of the Excel export
+const BUSINESS_CATEGORIES = [
+  { key: 'industries', title: 'Industries' },
+  { key: 'companySizes', title: 'Company Sizes' },
+  { key: 'departments', title: 'Departments' },
+  { key: 'roles', title: 'Roles' },
+  { key: 'decisionStyles', title: 'Decision Styles' },
+  { key: 'decisionTimeframes', title: 'Decision Timeframes' },
+  { key: 'growthStages', title: 'Growth Stages' },
+  { key: 'learningPreferences', title: 'Learning Preferences' },
+  { key: 'skills', title: 'Skills' },
+  { key: 'challenges', title: 'Challenges' }
+];
+
+const LABEL_KEYS = [
+  'label', 'name', 'range', 'gender', 'location', 'industry', 'companySize', 'department', 'role',
+  'style', 'timeframe', 'stage', 'preference', 'skill', 'challenge', 'device', 'time', 'month'
+];
+
+export interface PdfReportInput {
+  kind: 'survey' | 'company';
+  title: string;
+  companyName: string;
+  subjectId: number;
+  // The export data object shared with the JSON and Excel formats
+  data: any;
+  logo?: Buffer | null;
+  generatedAt?: Date;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+interface ContentsEntry {
+  title: string;
+  destination: string;
+  page: number;
+  level: 0 | 1;
+}
+
+const formatDate = (value: unknown) => {
+  if (!value) return 'N/A';
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? 'N/A' : date.toISOString().slice(0, 16).replace('T', ' ');
+};
+
+const formatNumber = (value: unknown, digits = 1) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number.toFixed(digits) : 'N/A';
+};
+
+/**
+ * Chart rows from a breakdown in any of the shapes the analytics use: a list
+ * of objects with a label and a percentage, value or count, or a map of
+ * label to count
+ */
+export function distributionEntries(raw: unknown): ChartDatum[] {
+  if (Array.isArray(raw)) {
+    return raw.flatMap((item): ChartDatum[] => {
+      if (!item || typeof item !== 'object') return [];
+      const labelKey = LABEL_KEYS.find(key => typeof item[key] === 'string')
+        ?? Object.keys(item).find(key => typeof item[key] === 'string');
+      if (!labelKey) return [];
+      const percentage = Number(item.percentage);
+      if (Number.isFinite(percentage)) {
+        return [{ label: item[labelKey], value: percentage, unit: '%' }];
+      }
+      const value = Number(item.value ?? item.count);
+      return Number.isFinite(value) ? [{ label: item[labelKey], value }] : [];
+    });
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw as Record<string, unknown>)
+      .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
+      .map(([label, value]) => ({ label, value: value as number }));
+  }
+  return [];
+}
+
+// PNG or JPEG are the image formats PDFKit can embed
+export function imageFormat(buffer: Buffer): 'png' | 'jpeg' | null {
+  if (buffer.length > 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  return null;
+}
+
+/**
+ * Renders the survey and company exports as paginated PDF documents with a
+ * cover, a table of contents, vector charts and page numbers. PDFKit writes
+ * the file itself, so no browser is needed on the server.
+ */
+export class PdfReportService {
+  /**
+   * Fetch a logo for the cover from a data URL or an http(s) URL. Anything
+   * else, or a logo that cannot be loaded, leaves the cover without one.
+   */
+  async loadLogo(source: string | null | undefined): Promise<Buffer | null> {
+    if (!source) return null;
+
+    try {
+      let buffer: Buffer | null = null;
+      const dataUrl = source.match(/^data:image\/[a-z+.-]+;base64,(.+)$/i);
+      if (dataUrl) {
+        buffer = Buffer.from(dataUrl[1], 'base64');
+      } else if (/^https?:\/\//i.test(source)) {
+        const response = await fetch(source, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+        if (!response.ok) {
+          logger.warn(`[LOGO] ${source} answered ${response.status}`);
+          return null;
+        }
+        if (Number(response.headers.get('content-length')) > MAX_LOGO_BYTES) {
+          logger.warn(`[LOGO] ${source} is larger than ${MAX_LOGO_BYTES} bytes`);
+          return null;
+        }
+        buffer = Buffer.from(await response.arrayBuffer());
+      }
+
+      if (!buffer || buffer.length > MAX_LOGO_BYTES || !imageFormat(buffer)) {
+        return null;
+      }
+      return buffer;
+    } catch (error) {
+      logger.warn(`[LOGO] Could not load the report logo: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  async render(input: PdfReportInput): Promise<Buffer> {
+    const generatedAt = input.generatedAt ?? new Date();
+    const reportTitle = `${input.title} - ${input.kind === 'survey' ? 'Survey' : 'Company'} Report`;
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      bufferPages: true,
+      info: {
+        Title: reportTitle,
+        Author: input.companyName,
+        Creator: 'PersonalysisPro',
+        CreationDate: generatedAt
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.renderCover(doc, input, reportTitle, generatedAt);
+
+    // The contents page is filled in once the sections know their pages
+    doc.addPage();
+    const contentsPage = doc.bufferedPageRange().count - 1;
+    const contents: ContentsEntry[] = [];
+
+    const startSection = (title: string) => {
+      doc.addPage();
+      const destination = `section-${contents.length + 1}`;
+      contents.push({ title, destination, page: doc.bufferedPageRange().count, level: 0 });
+      const outline = doc.outline.addItem(title);
+      this.heading(doc, title, destination);
+      return outline;
+    };
+    const startSubsection = (outline: PDFKit.PDFOutline, title: string, height: number) => {
+      this.ensureSpace(doc, height + 30);
+      const destination = `section-${contents.length + 1}`;
+      contents.push({ title, destination, page: doc.bufferedPageRange().count, level: 1 });
+      outline.addItem(title);
+      this.subheading(doc, title, destination);
+    };
+
+    const data = input.data ?? {};
+
+    if (data.analytics) {
+      startSection('Analytics Summary');
+      this.renderMetrics(doc, [
+        ['Total Responses', String(data.analytics.totalResponses ?? 0)],
+        ['Completion Rate', `${formatNumber(data.analytics.completionRate ?? 0)}%`],
+        ['Avg Satisfaction', formatNumber(data.analytics.averageSatisfactionScore ?? 0)],
+        ['Month-over-Month Growth', `${formatNumber(data.analytics.monthOverMonthGrowth ?? 0)}%`]
+      ]);
+    }
+
+    if (Array.isArray(data.traits) && data.traits.length > 0) {
+      const outline = startSection('Personality Traits');
+      const scores: ChartDatum[] = data.traits.map((t: any) => ({ label: String(t.name ?? 'N/A'), value: Number(t.score) || 0 }));
+
+      if (scores.length >= MIN_RADAR_AXES) {
+        startSubsection(outline, 'Trait Profile', 300);
+        const top = doc.y;
+        drawRadarChart(doc, scores, { x: (doc.page.width - 300) / 2, y: top, size: 300 });
+        doc.y = top + 310;
+      }
+
+      startSubsection(outline, 'Trait Scores', barChartHeight(scores.length));
+      this.renderBarChart(doc, scores, 100);
+
+      this.renderTable(
+        doc,
+        [{ header: 'Trait', width: 0.5 }, { header: 'Score', width: 0.2, align: 'right' }, { header: 'Category', width: 0.3 }],
+        data.traits.map((t: any) => [String(t.name ?? 'N/A'), String(t.score ?? 0), String(t.category ?? 'N/A')])
+      );
+    }
+
+    if (data.demographics) {
+      const groups = DEMOGRAPHIC_GROUPS
+        .map(group => ({
+          title: group.title,
+          entries: distributionEntries(group.keys.map(key => data.demographics[key]).find(value => value !== undefined))
+        }))
+        .filter(group => group.entries.length > 0);
+
+      if (groups.length > 0) {
+        const outline = startSection('Demographics');
+        groups.forEach(group => {
+          startSubsection(outline, group.title, barChartHeight(group.entries.length));
+          this.renderBarChart(doc, group.entries);
+        });
+      }
+    }
+
+    if (data.businessContext) {
+      const categories = BUSINESS_CATEGORIES
+        .map(category => ({ title: category.title, entries: distributionEntries(data.businessContext[category.key]) }))
+        .filter(category => category.entries.length > 0);
+
+      if (categories.length > 0) {
+        const outline = startSection('Business Intelligence');
+        categories.forEach(category => {
+          startSubsection(outline, category.title, barChartHeight(category.entries.length));
+          this.renderBarChart(doc, category.entries);
+        });
+      }
+    }
+
+    if (data.engagement) {
+      const outline = startSection('Engagement Metrics');
+      const engagement = data.engagement;
+      const metrics: [string, unknown, (value: unknown) => string][] = [
+        ['Daily Active Users', engagement.dailyActiveUsers, value => String(value)],
+        ['Monthly Active Users', engagement.monthlyActiveUsers, value => String(value)],
+        ['Average Session Duration', engagement.averageSessionDuration ?? engagement.averageSessionLength, value => `${formatNumber(value, 2)} min`],
+        ['Retention Rate', engagement.retentionRate, value => `${formatNumber(value)}%`],
+        ['Bounce Rate', engagement.bounceRate, value => `${formatNumber(value)}%`],
+        ['Conversion Rate', engagement.conversionRate, value => `${formatNumber(value)}%`],
+        ['Growth Rate', engagement.growthRate, value => `${formatNumber(value)}%`]
+      ];
+      this.renderTable(
+        doc,
+        [{ header: 'Metric', width: 0.6 }, { header: 'Value', width: 0.4, align: 'right' }],
+        metrics.filter(([, value]) => value !== undefined && value !== null).map(([label, value, format]) => [label, format(value)])
+      );
+
+      const devices = distributionEntries(engagement.completionByDevice ?? engagement.deviceUsage);
+      if (devices.length > 0) {
+        startSubsection(outline, 'Completion by Device', barChartHeight(devices.length));
+        this.renderBarChart(doc, devices);
+      }
+    }
+
+    if (Array.isArray(data.responses) && data.responses.length > 0) {
+      startSection(`Survey Responses (${data.responses.length})`);
+      const withSurvey = input.kind === 'company';
+      const columns: TableColumn[] = [
+        { header: 'ID', width: 0.1 },
+        ...(withSurvey ? [{ header: 'Survey', width: 0.1 }] : []),
+        { header: 'Respondent', width: withSurvey ? 0.25 : 0.3 },
+        { header: 'Completed', width: 0.12 },
+        { header: 'Created At (UTC)', width: withSurvey ? 0.25 : 0.3 },
+        { header: 'Satisfaction', width: 0.18, align: 'right' }
+      ];
+      this.renderTable(
+        doc,
+        columns,
+        data.responses.slice(0, PDF_RESPONSE_ROW_LIMIT).map((r: any) => [
+          String(r.id),
+          ...(withSurvey ? [String(r.surveyId ?? 'N/A')] : []),
+          String(r.respondentId || 'N/A'),
+          r.completed ? 'Yes' : 'No',
+          formatDate(r.createdAt),
+          r.satisfactionScore != null ? String(r.satisfactionScore) : 'N/A'
+        ])
+      );
+      if (data.responses.length > PDF_RESPONSE_ROW_LIMIT) {
+        doc.moveDown(0.5).font('Helvetica-Oblique').fontSize(9).fillColor(MUTED).text(
+          `... and ${data.responses.length - PDF_RESPONSE_ROW_LIMIT} more responses. Use the Excel or JSON export for all of them.`,
+          MARGIN
+        );
+      }
+    }
+
+    this.renderContents(doc, contentsPage, contents);
+    this.renderFooters(doc, `${input.companyName} · ${input.title}`);
+
+    doc.end();
+    return finished;
+  }
+
+  private renderCover(doc: PDFKit.PDFDocument, input: PdfReportInput, reportTitle: string, generatedAt: Date) {
+    let top = 120;
+    if (input.logo) {
+      try {
+        doc.image(input.logo, MARGIN, MARGIN, { fit: [180, 80] });
+        top = MARGIN + 120;
+      } catch (error) {
+        logger.warn(`[LOGO] Could not embed the report logo: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    doc.rect(MARGIN, top, 60, 4).fill(PRIMARY);
+    doc.font('Helvetica-Bold').fontSize(28).fillColor(HEADING)
+      .text(reportTitle, MARGIN, top + 20, { width: this.contentWidth(doc) });
+    doc.moveDown(1);
+
+    const details: [string, string][] = [
+      ['Company', input.companyName],
+      [input.kind === 'survey' ? 'Survey ID' : 'Company ID', String(input.subjectId)],
+      ['Generated', `${formatDate(generatedAt)} UTC`]
+    ];
+    details.forEach(([label, value]) => {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor(MUTED).text(`${label}: `, MARGIN, doc.y, { continued: true })
+        .font('Helvetica').fillColor(TEXT).text(value);
+    });
+  }
+
+  private renderContents(doc: PDFKit.PDFDocument, page: number, contents: ContentsEntry[]) {
+    doc.switchToPage(page);
+    doc.x = MARGIN;
+    doc.y = MARGIN;
+    this.heading(doc, 'Contents');
+
+    if (contents.length === 0) {
+      doc.font('Helvetica').fontSize(11).fillColor(MUTED).text('No sections were selected for this export.');
+      return;
+    }
+
+    const width = this.contentWidth(doc);
+    contents.forEach(entry => {
+      const indent = entry.level === 1 ? 18 : 0;
+      const y = doc.y;
+      doc.font(entry.level === 0 ? 'Helvetica-Bold' : 'Helvetica').fontSize(entry.level === 0 ? 12 : 10).fillColor(TEXT);
+      doc.text(entry.title, MARGIN + indent, y, { width: width - indent - 40, goTo: entry.destination, lineBreak: false });
+      doc.text(String(entry.page), MARGIN + width - 40, y, { width: 40, align: 'right', goTo: entry.destination, lineBreak: false });
+      doc.y = y + (entry.level === 0 ? 22 : 16);
+    });
+  }
+
+  // Page numbers and the report name on every page but the cover
+  private renderFooters(doc: PDFKit.PDFDocument, label: string) {
+    const range = doc.bufferedPageRange();
+    for (let index = range.start + 1; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      const y = doc.page.height - MARGIN + 15;
+      doc.moveTo(MARGIN, y - 6).lineTo(doc.page.width - MARGIN, y - 6).lineWidth(0.5).strokeColor(BORDER).stroke();
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED);
+      doc.text(label, MARGIN, y, { width: this.contentWidth(doc) - 80, lineBreak: false, ellipsis: true });
+      doc.text(`Page ${index + 1} of ${range.count}`, doc.page.width - MARGIN - 80, y, { width: 80, align: 'right', lineBreak: false });
+      doc.page.margins.bottom = bottom;
+    }
+  }
+
+  private renderMetrics(doc: PDFKit.PDFDocument, metrics: [string, string][]) {
+    const gap = 12;
+    const width = (this.contentWidth(doc) - gap) / 2;
+    const height = 60;
+    const top = doc.y;
+
+    metrics.forEach(([label, value], index) => {
+      const x = MARGIN + (index % 2) * (width + gap);
+      const y = top + Math.floor(index / 2) * (height + gap);
+      doc.rect(x, y, width, height).fill('#f0f9ff');
+      doc.rect(x, y, 4, height).fill(PRIMARY);
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(label, x + 14, y + 12, { width: width - 20 });
+      doc.font('Helvetica-Bold').fontSize(20).fillColor(HEADING).text(value, x + 14, y + 28, { width: width - 20 });
+    });
+
+    doc.x = MARGIN;
+    doc.y = top + Math.ceil(metrics.length / 2) * (height + gap);
+  }
+
+  /**
+   * Table whose column widths are fractions of the content width; the header
+   * row is repeated on every page the table continues on
+   */
+  private renderTable(doc: PDFKit.PDFDocument, columns: TableColumn[], rows: string[][]) {
+    const width = this.contentWidth(doc);
+    const rowHeight = 18;
+    const padding = 5;
+
+    const drawRow = (cells: string[], header: boolean, shaded: boolean) => {
+      const y = doc.y;
+      if (header || shaded) {
+        doc.rect(MARGIN, y, width, rowHeight).fill(header ? '#f3f4f6' : '#f9fafb');
+      }
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(TEXT);
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const columnWidth = column.width * width;
+        doc.text(cells[index] ?? '', x + padding, y + 5, {
+          width: columnWidth - padding * 2,
+          align: column.align ?? 'left',
+          lineBreak: false,
+          ellipsis: true
+        });
+        x += columnWidth;
+      });
+      doc.moveTo(MARGIN, y + rowHeight).lineTo(MARGIN + width, y + rowHeight).lineWidth(0.5).strokeColor(BORDER).stroke();
+      doc.x = MARGIN;
+      doc.y = y + rowHeight;
+    };
+
+    this.ensureSpace(doc, rowHeight * 2);
+    drawRow(columns.map(column => column.header), true, false);
+    rows.forEach((row, index) => {
+      if (this.ensureSpace(doc, rowHeight)) {
+        drawRow(columns.map(column => column.header), true, false);
+      }
+      drawRow(row, false, index % 2 === 1);
+    });
+    doc.moveDown(1);
+  }
+
+  private renderBarChart(doc: PDFKit.PDFDocument, data: ChartDatum[], max?: number) {
+    const top = doc.y;
+    const height = drawBarChart(doc, data, { x: MARGIN, y: top, width: this.contentWidth(doc), max });
+    doc.x = MARGIN;
+    doc.y = top + height + 10;
+  }
+
+  // Headings carry the named destinations the contents page links to
+  private heading(doc: PDFKit.PDFDocument, title: string, destination?: string) {
+    doc.font('Helvetica-Bold').fontSize(18).fillColor(HEADING).text(title, MARGIN, doc.y, { destination });
+    const y = doc.y + 4;
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(2).strokeColor(PRIMARY).stroke();
+    doc.y = y + 14;
+  }
+
+  private subheading(doc: PDFKit.PDFDocument, title: string, destination?: string) {
+    doc.font('Helvetica-Bold').fontSize(13).fillColor(TEXT).text(title, MARGIN, doc.y, { destination });
+    doc.y += 8;
+  }
+
+  // Start a new page when the next block would not fit; true if it did
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): boolean {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  private contentWidth(doc: PDFKit.PDFDocument) {
+    return doc.page.width - MARGIN * 2;
+  }
+}
+
+// Export singleton instance
+export const pdfReportService = new PdfReportService();
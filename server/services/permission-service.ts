@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { auditLogs, rolePermissions, userPermissions, users } from '../../shared/schema';
+import { and, asc, eq, isNotNull, lte } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  EDITABLE_ROLES,
+  PermissionName,
+  PermissionOverride,
+  PermissionUserOption,
+  RolePermissionSummary,
+  UserPermissionSummary,
+  hasFullAccess,
+  isOverrideActive,
+  isPermission,
+  resolvePermissions,
+  rolePermissionsSchema,
+  userPermissionOverrideSchema
+} from '../../shared/permissions';
+
+const logger = new Logger('PermissionService');
+
+// Role matrices and user overrides are re-read after this long, so changes
+// made on another node apply without a restart
+const CACHE_TTL_MS = 30 * 1000;
+
+export interface PermissionActor {
+  id: number;
+  ipAddress: string | null;
+}
+
+export interface PermissionSubject {
+  id: number;
+  role: string;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+const sameSet = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every(item => b.includes(item));
+
+/**
+ * PermissionService - Resolves what a user may do from the role_permissions
+ * matrix and their user_permissions overrides. While role_permissions is
+ * empty every role uses DEFAULT_ROLE_PERMISSIONS; the first change to the
+ * matrix stores the defaults of all roles, after which the table is
+ * authoritative. Platform administrators always hold every permission.
+ */
+export class PermissionService {
+  private matrixCache: CacheEntry<Map<string, PermissionName[]> | null> | null = null;
+  private overrideCache = new Map<number, CacheEntry<PermissionOverride[]>>();
+
+  async permissionsFor(user: PermissionSubject, now = new Date()): Promise<Set<PermissionName>> {
+    if (hasFullAccess(user.role)) {
+      return new Set(ALL_PERMISSIONS);
+    }
+    const [rolePermissionList, overrides] = await Promise.all([
+      this.rolePermissions(user.role),
+      this.overridesFor(user.id)
+    ]);
+    return resolvePermissions(rolePermissionList, overrides, now);
+  }
+
+  async hasPermission(user: PermissionSubject, permission: PermissionName): Promise<boolean> {
+    return (await this.permissionsFor(user)).has(permission);
+  }
+
+  async getRoleMatrix(): Promise<RolePermissionSummary[]> {
+    const matrix = await this.loadMatrix();
+    return EDITABLE_ROLES.map(role => {
+      const permissions = matrix ? matrix.get(role) ?? [] : DEFAULT_ROLE_PERMISSIONS[role];
+      return {
+        role,
+        permissions,
+        customized: !sameSet(permissions, DEFAULT_ROLE_PERMISSIONS[role])
+      };
+    });
+  }
+
+  async updateRolePermissions(role: string, input: unknown, actor: PermissionActor): Promise<RolePermissionSummary> {
+    this.assertEditableRole(role);
+    const { permissions } = this.parse(rolePermissionsSchema, input, 'Invalid role permissions');
+    return this.replaceRolePermissions(role, Array.from(new Set(permissions)), actor, 'role_permissions_updated');
+  }
+
+  async resetRolePermissions(role: string, actor: PermissionActor): Promise<RolePermissionSummary> {
+    this.assertEditableRole(role);
+    return this.replaceRolePermissions(role, DEFAULT_ROLE_PERMISSIONS[role], actor, 'role_permissions_reset');
+  }
+
+  async listUserOverrides(): Promise<UserPermissionSummary[]> {
+    const rows = await db.select({
+      id: userPermissions.id,
+      userId: userPermissions.userId,
+      username: users.username,
+      role: users.role,
+      companyId: users.companyId,
+      permission: userPermissions.permission,
+      granted: userPermissions.granted,
+      reason: userPermissions.reason,
+      grantedBy: userPermissions.grantedBy,
+      expiresAt: userPermissions.expiresAt,
+      createdAt: userPermissions.createdAt
+    })
+      .from(userPermissions)
+      .innerJoin(users, eq(users.id, userPermissions.userId))
+      .orderBy(asc(users.username), asc(userPermissions.permission));
+
+    return rows
+      .filter((row: { permission: string }) => isPermission(row.permission))
+      .map((row: any) => ({
+        ...row,
+        permission: row.permission as PermissionName,
+        expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+        createdAt: row.createdAt.toISOString()
+      }));
+  }
+
+  // Users that can be picked for an override
+  async listUsers(): Promise<PermissionUserOption[]> {
+    return db.select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .orderBy(asc(users.username));
+  }
+
+  async setUserOverride(userId: number, input: unknown, actor: PermissionActor): Promise<UserPermissionSummary> {
+    const data = this.parse(userPermissionOverrideSchema, input, 'Invalid permission override');
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId), columns: { id: true, companyId: true } });
+    if (!user) {
+      throw new AppError('User not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const values = {
+      granted: data.granted,
+      reason: data.reason || null,
+      grantedBy: actor.id,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      updatedAt: new Date()
+    };
+    await db.insert(userPermissions)
+      .values({ userId, permission: data.permission, ...values })
+      .onConflictDoUpdate({ target: [userPermissions.userId, userPermissions.permission], set: values });
+    this.overrideCache.delete(userId);
+
+    await this.audit(actor, user.companyId, data.granted ? 'user_permission_granted' : 'user_permission_denied', userId, {
+      permission: data.permission,
+      reason: values.reason,
+      expiresAt: data.expiresAt ?? null
+    });
+    logger.info(`[PERMISSIONS] User ${actor.id} ${data.granted ? 'granted' : 'denied'} ${data.permission} for user ${userId}${data.expiresAt ? ` until ${data.expiresAt}` : ''}`);
+
+    const overrides = await this.listUserOverrides();
+    return overrides.find(override => override.userId === userId && override.permission === data.permission)!;
+  }
+
+  async removeUserOverride(userId: number, permission: string, actor: PermissionActor): Promise<void> {
+    const [removed] = await db.delete(userPermissions)
+      .where(and(eq(userPermissions.userId, userId), eq(userPermissions.permission, permission)))
+      .returning();
+    if (!removed) {
+      throw new AppError('Permission override not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    this.overrideCache.delete(userId);
+
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId), columns: { companyId: true } });
+    await this.audit(actor, user?.companyId ?? null, 'user_permission_removed', userId, {
+      permission,
+      granted: removed.granted
+    });
+  }
+
+  /**
+   * Delete overrides whose expiry has passed. They already stopped applying
+   * when they expired; this keeps the table and the admin list clean.
+   */
+  async removeExpiredOverrides(now = new Date()): Promise<number> {
+    const removed = await db.delete(userPermissions)
+      .where(and(isNotNull(userPermissions.expiresAt), lte(userPermissions.expiresAt, now)))
+      .returning({ userId: userPermissions.userId });
+    for (const { userId } of removed) {
+      this.overrideCache.delete(userId);
+    }
+    return removed.length;
+  }
+
+  private async replaceRolePermissions(
+    role: string,
+    permissions: PermissionName[],
+    actor: PermissionActor,
+    action: string
+  ): Promise<RolePermissionSummary> {
+    const before = (await this.getRoleMatrix()).find(summary => summary.role === role)!;
+
+    await db.transaction(async (tx: any) => {
+      // The first change stores every role's defaults so the table becomes the whole matrix
+      const [existing] = await tx.select({ id: rolePermissions.id }).from(rolePermissions).limit(1);
+      if (!existing) {
+        const defaults = EDITABLE_ROLES.filter(other => other !== role)
+          .flatMap(other => DEFAULT_ROLE_PERMISSIONS[other].map(permission => ({ role: other, permission })));
+        if (defaults.length > 0) {
+          await tx.insert(rolePermissions).values(defaults);
+        }
+      }
+
+      await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+      if (permissions.length > 0) {
+        await tx.insert(rolePermissions).values(permissions.map(permission => ({ role, permission })));
+      }
+
+      await this.audit(actor, null, action, role, {
+        added: permissions.filter(permission => !before.permissions.includes(permission)),
+        removed: before.permissions.filter(permission => !permissions.includes(permission))
+      }, tx);
+    });
+    this.matrixCache = null;
+
+    logger.info(`[PERMISSIONS] User ${actor.id} set ${permissions.length} permissions for role ${role}`);
+    return (await this.getRoleMatrix()).find(summary => summary.role === role)!;
+  }
+
+  private async rolePermissions(role: string): Promise<PermissionName[]> {
+    const matrix = await this.loadMatrix();
+    if (!matrix) {
+      return DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+    }
+    return matrix.get(role) ?? [];
+  }
+
+  // The stored matrix by role, or null while every role uses its defaults
+  private async loadMatrix(): Promise<Map<string, PermissionName[]> | null> {
+    if (this.matrixCache && Date.now() - this.matrixCache.loadedAt < CACHE_TTL_MS) {
+      return this.matrixCache.value;
+    }
+
+    const rows = await db.select({ role: rolePermissions.role, permission: rolePermissions.permission })
+      .from(rolePermissions);
+    let matrix: Map<string, PermissionName[]> | null = null;
+    if (rows.length > 0) {
+      matrix = new Map();
+      for (const row of rows) {
+        if (!isPermission(row.permission)) continue;
+        matrix.set(row.role, [...(matrix.get(row.role) ?? []), row.permission]);
+      }
+    }
+
+    this.matrixCache = { value: matrix, loadedAt: Date.now() };
+    return matrix;
+  }
+
+  private async overridesFor(userId: number): Promise<PermissionOverride[]> {
+    const cached = this.overrideCache.get(userId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.value;
+    }
+
+    const rows = await db.select({
+      permission: userPermissions.permission,
+      granted: userPermissions.granted,
+      expiresAt: userPermissions.expiresAt
+    })
+      .from(userPermissions)
+      .where(eq(userPermissions.userId, userId));
+    // Expired rows are dropped here; the expiry is checked again when permissions are resolved
+    const overrides = rows.filter((row: PermissionOverride) => isOverrideActive(row));
+
+    this.overrideCache.set(userId, { value: overrides, loadedAt: Date.now() });
+    return overrides;
+  }
+
+  private assertEditableRole(role: string): void {
+    if (!EDITABLE_ROLES.includes(role)) {
+      throw new AppError(
+        hasFullAccess(role) ? 'Platform administrators always have every permission' : 'Unknown role',
+        400,
+        undefined,
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+  }
+
+  private async audit(
+    actor: PermissionActor,
+    companyId: number | null,
+    action: string,
+    entity: string | number,
+    details: Record<string, unknown>,
+    tx: any = db
+  ): Promise<void> {
+    await tx.insert(auditLogs).values({
+      userId: actor.id,
+      companyId,
+      action,
+      entityType: typeof entity === 'number' ? 'user_permission' : 'role_permission',
+      entityId: String(entity),
+      details,
+      ipAddress: actor.ipAddress
+    });
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown, message: string): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'permissions';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError(message, 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
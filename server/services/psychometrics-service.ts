@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { surveys, surveyQuestions, surveyResponses } from '../../shared/schema';
+import { resolveTraitModel } from '../../shared/traitModel';
+import { and, asc, eq } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { ScorableAnswer } from '../utils/traitScoring';
+import { computePsychometrics, PsychometricsReport } from '../utils/psychometrics';
+
+const logger = new Logger('PsychometricsService');
+
+const parseAnswers = (raw: unknown): ScorableAnswer[] => {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value.filter(answer => answer && answer.questionId != null) : [];
+};
+
+/**
+ * PsychometricsService - Reliability statistics for a survey's trait items,
+ * computed from its completed responses.
+ */
+export class PsychometricsService {
+  async getSurveyReport(surveyId: number): Promise<PsychometricsReport & { surveyId: number }> {
+    const survey = await db.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true, traitModel: true }
+    });
+    if (!survey) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const [questions, responses] = await Promise.all([
+      db.select({
+        id: surveyQuestions.id,
+        question: surveyQuestions.question,
+        questionType: surveyQuestions.questionType,
+        options: surveyQuestions.options,
+        sliderConfig: surveyQuestions.sliderConfig
+      })
+        .from(surveyQuestions)
+        .where(eq(surveyQuestions.surveyId, surveyId))
+        .orderBy(asc(surveyQuestions.order)),
+      db.select({ responses: surveyResponses.responses })
+        .from(surveyResponses)
+        .where(and(eq(surveyResponses.surveyId, surveyId), eq(surveyResponses.completed, true)))
+    ]);
+
+    const report = computePsychometrics(
+      resolveTraitModel(survey.traitModel),
+      questions,
+      responses.map((row: { responses: unknown }) => parseAnswers(row.responses))
+    );
+
+    logger.info(`[PSYCHOMETRICS] Survey ${surveyId}: ${report.responseCount} responses, ${report.weakItems.length} weak items`);
+    return { surveyId, ...report };
+  }
+}
+
+// Export singleton instance
+export const psychometricsService = new PsychometricsService();
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { surveys, surveyQuestions, surveyResponses } from '../../shared/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { mapAnswersByQuestion } from '../utils/surveyUtils';
+import { computeQuestionStats, QuestionStats } from '../utils/questionStats';
+
+const logger = new Logger('QuestionStatsService');
+
+/**
+ * QuestionStatsService - Per-question answer summaries for a survey (option
+ * counts, slider distributions, average ranks, text samples), built by each
+ * question type's aggregator from the completed responses.
+ */
+export class QuestionStatsService {
+  async getSurveyStats(surveyId: number): Promise<{ surveyId: number; responseCount: number; questions: QuestionStats[] }> {
+    const survey = await db.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true }
+    });
+    if (!survey) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const [questions, responses] = await Promise.all([
+      db.select({
+        id: surveyQuestions.id,
+        order: surveyQuestions.order,
+        question: surveyQuestions.question,
+        questionType: surveyQuestions.questionType,
+        options: surveyQuestions.options,
+        sliderConfig: surveyQuestions.sliderConfig,
+        scenarioText: surveyQuestions.scenarioText,
+        displayLogic: surveyQuestions.displayLogic
+      })
+        .from(surveyQuestions)
+        .where(eq(surveyQuestions.surveyId, surveyId))
+        .orderBy(asc(surveyQuestions.order)),
+      db.select({ responses: surveyResponses.responses })
+        .from(surveyResponses)
+        .where(and(eq(surveyResponses.surveyId, surveyId), eq(surveyResponses.completed, true)))
+    ]);
+
+    const answerSets = responses
+      .map((row: { responses: unknown }) => mapAnswersByQuestion(row.responses))
+      .filter((answers: Map<string, any> | null): answers is Map<string, any> => answers !== null);
+
+    logger.info(`[QUESTION_STATS] Survey ${surveyId}: ${questions.length} questions, ${answerSets.length} responses`);
+    return { surveyId, responseCount: answerSets.length, questions: computeQuestionStats(questions, answerSets) };
+  }
+}
+
+// Export singleton instance
+export const questionStatsService = new QuestionStatsService();
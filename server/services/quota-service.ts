@@ -0,0 +1,264 @@
+import { db } from '../db';
+import { surveys, surveyResponses, clientSurveyDeployments } from '../../shared/schema';
+import { SQL, and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import {
+  DEFAULT_SCREEN_OUT_MESSAGE,
+  QuotaCell,
+  QuotaCounts,
+  QuotaPlan,
+  QuotaPlanStatus,
+  SurveyQuotaReport,
+  evaluateQuotas,
+  quotaPlanSchema,
+  quotaStatusFromCounts,
+  resolveQuotaPlan
+} from '../../shared/quotas';
+
+const logger = new Logger('QuotaService');
+
+// First key of the advisory locks that serialise quota checks, the survey ID is the second
+const QUOTA_LOCK_NAMESPACE = 7301;
+
+// Demographic values that read as numbers for range conditions
+const NUMBER_PATTERN = '^\\s*-?[0-9]+(\\.[0-9]+)?\\s*$';
+
+export interface QuotaCheckResult {
+  accepted: boolean;
+  // Whether any quota plan applied; surveys without quotas skip the dashboard update
+  hasQuotas: boolean;
+  reasons: string[];
+  message?: string;
+}
+
+export interface QuotaAdmission<T> {
+  check: QuotaCheckResult;
+  // What `save` returned; null when the respondent was screened out
+  saved: T | null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+};
+
+/**
+ * SQL test for responses whose demographics fall in a quota cell, matching
+ * `matchesQuotaCell`: categories compare case-insensitively, ranges need a number.
+ */
+export function quotaCellCondition(cell: QuotaCell): SQL {
+  return and(...cell.conditions.map(condition => {
+    const value = sql`(${surveyResponses.demographics} ->> ${condition.field}::text)`;
+    if (condition.values && condition.values.length > 0) {
+      return inArray(sql`lower(trim(${value}))`, condition.values.map(option => option.trim().toLowerCase()));
+    }
+    const number = sql`(CASE WHEN ${value} ~ ${NUMBER_PATTERN} THEN trim(${value})::numeric END)`;
+    return and(
+      condition.min !== undefined ? sql`${number} >= ${condition.min}` : undefined,
+      condition.max !== undefined ? sql`${number} <= ${condition.max}` : undefined
+    );
+  }))!;
+}
+
+/**
+ * QuotaService - Quota sampling for surveys and client deployments. Plans are
+ * stored on the survey and on each deployment; fill levels are counted in the
+ * database from the demographics of completed responses.
+ */
+export class QuotaService {
+  /**
+   * Validate a submitted quota plan. Null or an empty plan clears the quotas.
+   */
+  validatePlan(raw: unknown): QuotaPlan | null {
+    if (raw === null || raw === undefined) return null;
+
+    const parsed = quotaPlanSchema.safeParse(raw);
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'quotas';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid quota plan', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return resolveQuotaPlan(parsed.data);
+  }
+
+  async getSurveyQuotaReport(surveyId: number): Promise<SurveyQuotaReport> {
+    const survey = await db.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true, quotas: true, maxResponses: true }
+    });
+    if (!survey) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const deployments: Array<typeof clientSurveyDeployments.$inferSelect> = await db.select()
+      .from(clientSurveyDeployments)
+      .where(eq(clientSurveyDeployments.surveyId, surveyId))
+      .orderBy(asc(clientSurveyDeployments.id));
+
+    const [surveyStatus, ...deploymentStatuses] = await Promise.all([
+      this.planStatus(survey.quotas, surveyId, null, survey.maxResponses),
+      ...deployments.map(deployment => this.planStatus(deployment.quotas, surveyId, deployment.id, deployment.maxResponses))
+    ]);
+
+    return {
+      surveyId,
+      survey: surveyStatus,
+      deployments: deployments.map((deployment, index) => ({
+        deploymentId: deployment.id,
+        clientId: deployment.clientId,
+        deploymentStatus: deployment.status,
+        ...deploymentStatuses[index]
+      })),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async updateSurveyQuotas(surveyId: number, raw: unknown): Promise<SurveyQuotaReport> {
+    const plan = this.validatePlan(raw);
+    const [updated] = await db.update(surveys)
+      .set({ quotas: plan, updatedAt: new Date() })
+      .where(eq(surveys.id, surveyId))
+      .returning({ id: surveys.id });
+    if (!updated) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info(`[QUOTAS] Survey ${surveyId}: ${plan ? `${plan.cells.length} quota cells` : 'quotas cleared'}`);
+    return this.getSurveyQuotaReport(surveyId);
+  }
+
+  async updateDeploymentQuotas(surveyId: number, deploymentId: number, raw: unknown): Promise<SurveyQuotaReport> {
+    const plan = this.validatePlan(raw);
+    const [updated] = await db.update(clientSurveyDeployments)
+      .set({ quotas: plan, updatedAt: new Date() })
+      .where(and(eq(clientSurveyDeployments.id, deploymentId), eq(clientSurveyDeployments.surveyId, surveyId)))
+      .returning({ id: clientSurveyDeployments.id });
+    if (!updated) {
+      throw new AppError('Deployment not found for this survey', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    logger.info(`[QUOTAS] Deployment ${deploymentId} of survey ${surveyId}: ${plan ? `${plan.cells.length} quota cells` : 'quotas cleared'}`);
+    return this.getSurveyQuotaReport(surveyId);
+  }
+
+  /**
+   * Decide whether a respondent about to complete the survey still fits the
+   * survey's quotas and, when they came through one, their deployment's.
+   * Pass `tx` to count inside a transaction that holds the survey's quota lock.
+   */
+  async checkRespondent(surveyId: number, deploymentId: number | null, demographics: unknown, tx: any = db): Promise<QuotaCheckResult> {
+    const survey = await tx.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true, quotas: true, maxResponses: true }
+    });
+    const deployment = deploymentId
+      ? await tx.query.clientSurveyDeployments.findFirst({
+          where: and(eq(clientSurveyDeployments.id, deploymentId), eq(clientSurveyDeployments.surveyId, surveyId))
+        })
+      : undefined;
+    if (deploymentId && !deployment) {
+      throw new AppError('Deployment not found for this survey', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const surveyPlan = resolveQuotaPlan(survey?.quotas);
+    const deploymentPlan = resolveQuotaPlan(deployment?.quotas);
+    if (!surveyPlan && !deploymentPlan) {
+      return { accepted: true, hasQuotas: false, reasons: [] };
+    }
+
+    const respondent = asRecord(demographics);
+    const reasons: string[] = [];
+    let message: string | null | undefined;
+
+    if (surveyPlan) {
+      const counts = await this.countResponses(surveyPlan, surveyId, null, tx);
+      const status = quotaStatusFromCounts(surveyPlan, counts, survey?.maxResponses ?? null);
+      const decision = evaluateQuotas(status, surveyPlan, respondent);
+      reasons.push(...decision.reasons);
+      if (!decision.accepted) message = surveyPlan.screenOutMessage;
+    }
+    if (deploymentPlan && deployment) {
+      const counts = await this.countResponses(deploymentPlan, surveyId, deployment.id, tx);
+      const status = quotaStatusFromCounts(deploymentPlan, counts, deployment.maxResponses ?? null);
+      const decision = evaluateQuotas(status, deploymentPlan, respondent);
+      reasons.push(...decision.reasons);
+      if (!decision.accepted) message = message || deploymentPlan.screenOutMessage;
+    }
+
+    if (reasons.length > 0) {
+      logger.info(`[QUOTAS] Survey ${surveyId}: respondent screened out (${reasons.join(', ')})`);
+      return { accepted: false, hasQuotas: true, reasons, message: message || DEFAULT_SCREEN_OUT_MESSAGE };
+    }
+    return { accepted: true, hasQuotas: true, reasons: [] };
+  }
+
+  /**
+   * Store a respondent's response if they still fit the quotas. The check and
+   * `save` run in one transaction holding the survey's advisory lock, so two
+   * submissions cannot both take the last place in a cell.
+   */
+  async admitRespondent<T>(
+    surveyId: number,
+    deploymentId: number | null,
+    demographics: unknown,
+    save: (tx: any) => Promise<T>
+  ): Promise<QuotaAdmission<T>> {
+    return db.transaction(async (tx: any) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${QUOTA_LOCK_NAMESPACE}::int, ${surveyId}::int)`);
+
+      const check = await this.checkRespondent(surveyId, deploymentId, demographics, tx);
+      if (!check.accepted) {
+        return { check, saved: null };
+      }
+      return { check, saved: await save(tx) };
+    });
+  }
+
+  private async planStatus(
+    raw: unknown,
+    surveyId: number,
+    deploymentId: number | null,
+    maxResponses: number | null
+  ): Promise<QuotaPlanStatus> {
+    const plan = resolveQuotaPlan(raw);
+    if (!plan) return { plan, status: null };
+
+    const counts = await this.countResponses(plan, surveyId, deploymentId);
+    return { plan, status: quotaStatusFromCounts(plan, counts, maxResponses) };
+  }
+
+  // Completed responses of the survey, or of one deployment, in total and per cell
+  private async countResponses(plan: QuotaPlan, surveyId: number, deploymentId: number | null, tx: any = db): Promise<QuotaCounts> {
+    const fields: Record<string, SQL<number>> = { total: sql<number>`count(*)::int` };
+    plan.cells.forEach((cell, index) => {
+      fields[`cell${index}`] = sql<number>`(count(*) FILTER (WHERE ${quotaCellCondition(cell)}))::int`;
+    });
+
+    const [row] = await tx.select(fields)
+      .from(surveyResponses)
+      .where(and(
+        eq(surveyResponses.surveyId, surveyId),
+        eq(surveyResponses.completed, true),
+        deploymentId !== null ? eq(surveyResponses.deploymentId, deploymentId) : undefined
+      ));
+
+    return {
+      total: Number(row?.total ?? 0),
+      cells: plan.cells.map((_cell, index) => Number(row?.[`cell${index}`] ?? 0))
+    };
+  }
+}
+
+// Export singleton instance
+export const quotaService = new QuotaService();
@@ -0,0 +1,529 @@
+import fs from 'fs';
+import path from 'path';
+import type { Writable } from 'stream';
+import { and, asc, desc, eq, gt, inArray, lt, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  responseExportJobs,
+  surveyQuestions,
+  surveyResponses,
+  surveys,
+  Survey,
+  ResponseExportJob
+} from '../../shared/schema';
+import {
+  DIRECT_EXPORT_ROW_LIMIT,
+  EXPORT_BATCH_SIZE,
+  EXPORT_FILE_RETENTION_HOURS,
+  RESPONSE_EXPORT_EXTENSIONS,
+  responseExportRequestSchema,
+  type Codebook,
+  type ExportJobSummary,
+  type ResponseExportFormat,
+  type ResponseExportRequest
+} from '../../shared/responseExports';
+import { resolveTraitModel } from '../../shared/traitModel';
+import { createResponseCoder, type ExportResponseRow, type ResponseCoder } from '../utils/responseCodebook';
+import { createSavLayout, encodeSavCase, encodeSavDictionary, SAV_CASE_COUNT_OFFSET } from '../utils/savWriter';
+import { csvCell } from '../utils/surveyUtils';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { notificationService } from './notification-service';
+
+const logger = new Logger('ResponseExportService');
+
+// A running job whose process died is picked up again after this long
+const STALE_JOB_MINUTES = 30;
+const MAX_JOB_ATTEMPTS = 3;
+
+export type ExportSurvey = Pick<Survey, 'id' | 'title' | 'companyId' | 'traitModel'>;
+
+// Receives the export in chunks; resolves once the chunk may be followed by the next
+export type ExportSink = (chunk: Buffer | string) => Promise<void>;
+
+/**
+ * Directory background export files are written to, EXPORT_DIR or ./exports
+ */
+export function getExportDirectory(): string {
+  return path.resolve(process.env.EXPORT_DIR || path.join(process.cwd(), 'exports'));
+}
+
+export function exportFileName(survey: Pick<Survey, 'id' | 'title'>, format: ResponseExportFormat, date = new Date()): string {
+  const slug = survey.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || `survey-${survey.id}`;
+  return `${slug}-responses-${date.toISOString().split('T')[0]}.${RESPONSE_EXPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * Sink writing to a stream, waiting for it to drain when its buffer is full.
+ * Rejects once the stream is closed, e.g. when the client disconnects.
+ */
+export function streamSink(stream: Writable): ExportSink {
+  return chunk => new Promise<void>((resolve, reject) => {
+    if (stream.destroyed) return reject(new Error('The export stream was closed'));
+    if (stream.write(chunk)) return resolve();
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      if (stream.destroyed) reject(new Error('The export stream was closed'));
+      else resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+}
+
+const csvLine = (values: unknown[]) => `${values.map(csvCell).join(',')}\r\n`;
+
+/**
+ * Coded response exports (wide CSV, SPSS .sav and the codebook) for one survey.
+ * Responses are read in keyset pages so memory use does not grow with the
+ * survey; exports over DIRECT_EXPORT_ROW_LIMIT run as background jobs whose
+ * files can be downloaded until they expire.
+ */
+export class ResponseExportService {
+  private parse(input: unknown): ResponseExportRequest {
+    const result = responseExportRequestSchema.safeParse(input ?? {});
+    if (!result.success) {
+      const errors: Record<string, string[]> = {};
+      for (const issue of result.error.errors) {
+        (errors[issue.path.join('.') || 'input'] ||= []).push(issue.message);
+      }
+      throw new AppError('Invalid export options', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return result.data;
+  }
+
+  /**
+   * Read export options from query parameters (?format=sav&includeTraits=false)
+   */
+  parseQuery(query: Record<string, unknown>): ResponseExportRequest {
+    const flag = (value: unknown) => (value === undefined ? undefined : value === 'true' || value === true);
+    return this.parse({
+      format: typeof query.format === 'string' ? query.format : undefined,
+      includeTraits: flag(query.includeTraits),
+      includeDemographics: flag(query.includeDemographics),
+      includeIncomplete: flag(query.includeIncomplete)
+    });
+  }
+
+  parseRequest(body: unknown): ResponseExportRequest {
+    return this.parse(body);
+  }
+
+  private responseFilter(surveyId: number, includeIncomplete: boolean) {
+    return includeIncomplete
+      ? eq(surveyResponses.surveyId, surveyId)
+      : and(eq(surveyResponses.surveyId, surveyId), eq(surveyResponses.completed, true));
+  }
+
+  async countResponses(surveyId: number, includeIncomplete: boolean): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(surveyResponses)
+      .where(this.responseFilter(surveyId, includeIncomplete));
+    return Number(row?.count ?? 0);
+  }
+
+  /**
+   * Whether an export of this many responses should run in the background
+   */
+  needsBackgroundJob(responseCount: number): boolean {
+    return responseCount > DIRECT_EXPORT_ROW_LIMIT;
+  }
+
+  /**
+   * Yield a survey's responses in id order, one page of `batchSize` at a
+   * time, continuing after the last id seen rather than using OFFSET
+   */
+  async *streamResponses(
+    surveyId: number,
+    options: { includeIncomplete: boolean; batchSize?: number }
+  ): AsyncGenerator<ExportResponseRow[]> {
+    const batchSize = options.batchSize ?? EXPORT_BATCH_SIZE;
+    let lastId = 0;
+    while (true) {
+      const rows = await db.select({
+        id: surveyResponses.id,
+        surveyVersionId: surveyResponses.surveyVersionId,
+        respondentId: surveyResponses.respondentId,
+        source: surveyResponses.source,
+        language: surveyResponses.language,
+        completed: surveyResponses.completed,
+        isAIGenerated: surveyResponses.isAIGenerated,
+        startTime: surveyResponses.startTime,
+        completeTime: surveyResponses.completeTime,
+        completionTimeSeconds: surveyResponses.completionTimeSeconds,
+        satisfactionScore: surveyResponses.satisfactionScore,
+        responses: surveyResponses.responses,
+        traits: surveyResponses.traits,
+        demographics: surveyResponses.demographics
+      })
+        .from(surveyResponses)
+        .where(and(this.responseFilter(surveyId, options.includeIncomplete), gt(surveyResponses.id, lastId)))
+        .orderBy(asc(surveyResponses.id))
+        .limit(batchSize);
+
+      if (rows.length === 0) return;
+      yield rows;
+      if (rows.length < batchSize) return;
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  /**
+   * Every response's trait scores, read page by page, for report summaries
+   */
+  async collectTraits(surveyId: number): Promise<unknown[]> {
+    const traits: unknown[] = [];
+    for await (const rows of this.streamResponses(surveyId, { includeIncomplete: true })) {
+      rows.forEach(row => traits.push(row.traits));
+    }
+    return traits;
+  }
+
+  /**
+   * Demographic fields recorded on any of the survey's responses, sorted
+   */
+  private async demographicKeys(surveyId: number, includeIncomplete: boolean): Promise<string[]> {
+    const result = await db.execute(sql`
+      SELECT DISTINCT key
+      FROM ${surveyResponses},
+        json_object_keys(CASE WHEN json_typeof(${surveyResponses.demographics}) = 'object'
+          THEN ${surveyResponses.demographics} ELSE '{}'::json END) AS key
+      WHERE ${surveyResponses.surveyId} = ${surveyId}
+        ${includeIncomplete ? sql`` : sql`AND ${surveyResponses.completed} = true`}
+      ORDER BY key
+    `);
+    return (result.rows as Array<{ key: string }>).map(row => row.key);
+  }
+
+  /**
+   * Variables for the survey's current questions, trait model and recorded
+   * demographics, and the coder that fills them from a response
+   */
+  async buildCoder(survey: ExportSurvey, request: ResponseExportRequest): Promise<ResponseCoder> {
+    const questions = await db.select({
+      id: surveyQuestions.id,
+      question: surveyQuestions.question,
+      questionType: surveyQuestions.questionType,
+      options: surveyQuestions.options,
+      sliderConfig: surveyQuestions.sliderConfig,
+      scenarioText: surveyQuestions.scenarioText
+    })
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, survey.id))
+      .orderBy(asc(surveyQuestions.order), asc(surveyQuestions.id));
+
+    return createResponseCoder({
+      questions,
+      traitModel: request.includeTraits ? resolveTraitModel(survey.traitModel) : null,
+      demographicKeys: request.includeDemographics
+        ? await this.demographicKeys(survey.id, request.includeIncomplete)
+        : []
+    });
+  }
+
+  /**
+   * Write the export to `sink`, returning the number of responses written.
+   * SPSS files say their case count is unknown; writeJobFile patches it in.
+   */
+  async writeExport(survey: ExportSurvey, request: ResponseExportRequest, sink: ExportSink): Promise<number> {
+    const coder = await this.buildCoder(survey, request);
+
+    if (request.format === 'codebook') {
+      const codebook: Codebook = {
+        survey: { id: survey.id, title: survey.title },
+        generatedAt: new Date().toISOString(),
+        responseCount: await this.countResponses(survey.id, request.includeIncomplete),
+        includeIncomplete: request.includeIncomplete,
+        missingValues: 'Empty CSV cells and SPSS system-missing values mean the question was not answered or the value was not recorded',
+        variables: coder.variables
+      };
+      await sink(JSON.stringify(codebook, null, 2));
+      return codebook.responseCount;
+    }
+
+    const sav = request.format === 'sav' ? createSavLayout(coder.variables) : null;
+    await sink(sav
+      ? encodeSavDictionary(sav, { fileLabel: survey.title })
+      : csvLine(coder.variables.map(variable => variable.name)));
+
+    let written = 0;
+    for await (const rows of this.streamResponses(survey.id, { includeIncomplete: request.includeIncomplete })) {
+      const chunk = sav
+        ? Buffer.concat(rows.map(row => encodeSavCase(sav, coder.code(row))))
+        : rows.map(row => csvLine(coder.code(row))).join('');
+      await sink(chunk);
+      written += rows.length;
+    }
+    return written;
+  }
+
+  private toSummary(job: ResponseExportJob, surveyTitle: string | null): ExportJobSummary {
+    return {
+      id: job.id,
+      surveyId: job.surveyId,
+      surveyTitle,
+      format: job.format as ResponseExportFormat,
+      status: job.status as ExportJobSummary['status'],
+      rowCount: job.rowCount,
+      sizeBytes: job.sizeBytes,
+      error: job.error,
+      downloadUrl: job.status === 'completed' ? `/api/export-jobs/${job.id}/download` : null,
+      createdAt: job.createdAt.toISOString(),
+      completedAt: job.completedAt?.toISOString() ?? null,
+      expiresAt: job.expiresAt?.toISOString() ?? null
+    };
+  }
+
+  async getJob(jobId: number): Promise<ResponseExportJob> {
+    const [job] = await db.select().from(responseExportJobs).where(eq(responseExportJobs.id, jobId)).limit(1);
+    if (!job) {
+      throw new AppError('Export not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return job;
+  }
+
+  async getJobSummary(job: ResponseExportJob): Promise<ExportJobSummary> {
+    const [survey] = await db.select({ title: surveys.title }).from(surveys).where(eq(surveys.id, job.surveyId)).limit(1);
+    return this.toSummary(job, survey?.title ?? null);
+  }
+
+  /**
+   * The user's recent exports, newest first, optionally for one survey
+   */
+  async listJobs(userId: number, surveyId?: number): Promise<ExportJobSummary[]> {
+    const rows = await db.select({ job: responseExportJobs, surveyTitle: surveys.title })
+      .from(responseExportJobs)
+      .leftJoin(surveys, eq(surveys.id, responseExportJobs.surveyId))
+      .where(surveyId
+        ? and(eq(responseExportJobs.requestedBy, userId), eq(responseExportJobs.surveyId, surveyId))
+        : eq(responseExportJobs.requestedBy, userId))
+      .orderBy(desc(responseExportJobs.createdAt))
+      .limit(50);
+    return rows.map((row: { job: ResponseExportJob; surveyTitle: string | null }) => this.toSummary(row.job, row.surveyTitle));
+  }
+
+  /**
+   * Queue a background export and start it straight away; the cron job
+   * picks it up if this process stops before it finishes
+   */
+  async createJob(survey: ExportSurvey, userId: number, request: ResponseExportRequest): Promise<ExportJobSummary> {
+    const [job] = await db.insert(responseExportJobs).values({
+      surveyId: survey.id,
+      companyId: survey.companyId,
+      requestedBy: userId,
+      format: request.format,
+      options: {
+        includeTraits: request.includeTraits,
+        includeDemographics: request.includeDemographics,
+        includeIncomplete: request.includeIncomplete
+      },
+      status: 'queued'
+    }).returning();
+
+    logger.info(`[EXPORT_JOB] Queued ${request.format} export ${job.id} of survey ${survey.id} for user ${userId}`);
+    this.runJob(job.id).catch(error => {
+      logger.error(`[EXPORT_JOB] Error running export ${job.id}:`, error);
+    });
+    return this.toSummary(job, survey.title);
+  }
+
+  /**
+   * Mark the job running unless another worker already has it
+   */
+  private async claim(jobId: number): Promise<ResponseExportJob | null> {
+    const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000);
+    const [job] = await db.update(responseExportJobs)
+      .set({
+        status: 'running',
+        attempts: sql`${responseExportJobs.attempts} + 1`,
+        startedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(responseExportJobs.id, jobId),
+        sql`(${responseExportJobs.status} = 'queued' OR (${responseExportJobs.status} = 'running' AND ${responseExportJobs.startedAt} < ${staleBefore}))`
+      ))
+      .returning();
+    return job ?? null;
+  }
+
+  async runJob(jobId: number): Promise<ResponseExportJob | null> {
+    const job = await this.claim(jobId);
+    if (!job) return null;
+
+    const directory = getExportDirectory();
+    const filePath = path.join(directory, `export-${job.id}.${RESPONSE_EXPORT_EXTENSIONS[job.format as ResponseExportFormat]}`);
+    const partPath = `${filePath}.part`;
+
+    try {
+      const [survey] = await db.select({
+        id: surveys.id,
+        title: surveys.title,
+        companyId: surveys.companyId,
+        traitModel: surveys.traitModel
+      }).from(surveys).where(eq(surveys.id, job.surveyId)).limit(1);
+      if (!survey) {
+        throw new Error('The survey no longer exists');
+      }
+
+      const request = this.parse({ ...(job.options as object), format: job.format });
+      await fs.promises.mkdir(directory, { recursive: true });
+      const rowCount = await this.writeJobFile(survey, request, partPath);
+      await fs.promises.rename(partPath, filePath);
+      const { size } = await fs.promises.stat(filePath);
+
+      const [completed] = await db.update(responseExportJobs)
+        .set({
+          status: 'completed',
+          rowCount,
+          filePath,
+          fileName: exportFileName(survey, request.format),
+          sizeBytes: size,
+          error: null,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + EXPORT_FILE_RETENTION_HOURS * 60 * 60 * 1000),
+          updatedAt: new Date()
+        })
+        .where(eq(responseExportJobs.id, job.id))
+        .returning();
+
+      logger.info(`[EXPORT_JOB] Export ${job.id} wrote ${rowCount} responses to ${filePath}`);
+      await this.notify(completed, {
+        title: 'Your export is ready',
+        message: `The ${request.format.toUpperCase()} export of "${survey.title}" (${rowCount} responses) can be downloaded for ${EXPORT_FILE_RETENTION_HOURS} hours.`,
+        link: `/api/export-jobs/${job.id}/download`,
+        priority: 'medium'
+      });
+      return completed;
+    } catch (error) {
+      await fs.promises.rm(partPath, { force: true }).catch(() => undefined);
+      const message = error instanceof Error ? error.message : String(error);
+      // Retry crashes of the worker, not errors in the export itself
+      const [failed] = await db.update(responseExportJobs)
+        .set({ status: 'failed', error: message, updatedAt: new Date() })
+        .where(eq(responseExportJobs.id, job.id))
+        .returning();
+
+      logger.error(`[EXPORT_JOB] Export ${job.id} failed:`, error);
+      await this.notify(failed, {
+        title: 'Your export failed',
+        message: `The ${job.format.toUpperCase()} export could not be created: ${message}`,
+        priority: 'high'
+      });
+      return failed;
+    }
+  }
+
+  private async writeJobFile(survey: ExportSurvey, request: ResponseExportRequest, filePath: string): Promise<number> {
+    const stream = fs.createWriteStream(filePath);
+    const finished = new Promise<void>((resolve, reject) => {
+      stream.once('finish', resolve);
+      stream.once('error', reject);
+    });
+    let rowCount: number;
+    try {
+      rowCount = await this.writeExport(survey, request, streamSink(stream));
+    } finally {
+      stream.end();
+    }
+    await finished;
+
+    // The header was written before the cases were counted
+    if (request.format === 'sav') {
+      const handle = await fs.promises.open(filePath, 'r+');
+      try {
+        const count = Buffer.alloc(4);
+        count.writeInt32LE(rowCount, 0);
+        await handle.write(count, 0, 4, SAV_CASE_COUNT_OFFSET);
+      } finally {
+        await handle.close();
+      }
+    }
+    return rowCount;
+  }
+
+  private async notify(
+    job: ResponseExportJob,
+    content: { title: string; message: string; link?: string; priority: 'medium' | 'high' }
+  ): Promise<void> {
+    if (!notificationService) {
+      logger.warn('[EXPORT_JOB] Notification service not initialized, skipping export notification');
+      return;
+    }
+    await notificationService.createUserNotifications([job.requestedBy], {
+      category: 'response',
+      priority: content.priority,
+      title: content.title,
+      message: content.message,
+      link: content.link,
+      metadata: { exportJobId: job.id, surveyId: job.surveyId, format: job.format }
+    }).catch(error => {
+      logger.error('[EXPORT_JOB] Error notifying the requester:', error);
+    });
+  }
+
+  /**
+   * Path of a finished export's file, or a 410 once it has expired
+   */
+  async downloadPath(job: ResponseExportJob): Promise<{ filePath: string; fileName: string }> {
+    if (job.status === 'expired' || (job.expiresAt && job.expiresAt < new Date())) {
+      throw new AppError('This export has expired. Please run it again.', 410, undefined, ErrorCodes.NOT_FOUND);
+    }
+    if (job.status !== 'completed' || !job.filePath) {
+      throw new AppError('This export is not ready yet', 409, undefined, ErrorCodes.CONFLICT);
+    }
+    const exists = await fs.promises.access(job.filePath).then(() => true, () => false);
+    if (!exists) {
+      throw new AppError('The export file is no longer available. Please run it again.', 410, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return { filePath: job.filePath, fileName: job.fileName || path.basename(job.filePath) };
+  }
+
+  /**
+   * Run queued exports (and ones whose worker stopped) and delete expired files
+   */
+  async processDue(limit = 5): Promise<{ ran: number; expired: number }> {
+    const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000);
+    const due = await db.select({ id: responseExportJobs.id })
+      .from(responseExportJobs)
+      .where(and(
+        lt(responseExportJobs.attempts, MAX_JOB_ATTEMPTS),
+        sql`(${responseExportJobs.status} = 'queued' OR (${responseExportJobs.status} = 'running' AND ${responseExportJobs.startedAt} < ${staleBefore}))`
+      ))
+      .orderBy(asc(responseExportJobs.createdAt))
+      .limit(limit);
+
+    let ran = 0;
+    for (const { id } of due) {
+      if (await this.runJob(id)) ran++;
+    }
+
+    const expiredJobs = await db.update(responseExportJobs)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(eq(responseExportJobs.status, 'completed'), lt(responseExportJobs.expiresAt, new Date())))
+      .returning();
+    for (const job of expiredJobs as ResponseExportJob[]) {
+      if (job.filePath) {
+        await fs.promises.rm(job.filePath, { force: true }).catch(error => {
+          logger.error(`[EXPORT_JOB] Error deleting expired export ${job.id}:`, error);
+        });
+      }
+    }
+
+    // Jobs that kept failing to finish are given up on
+    await db.update(responseExportJobs)
+      .set({ status: 'failed', error: 'The export did not finish', updatedAt: new Date() })
+      .where(and(
+        inArray(responseExportJobs.status, ['queued', 'running']),
+        sql`${responseExportJobs.attempts} >= ${MAX_JOB_ATTEMPTS}`,
+        lt(responseExportJobs.updatedAt, staleBefore)
+      ));
+
+    return { ran, expired: expiredJobs.length };
+  }
+}
+
+// Export singleton instance
+export const responseExportService = new ResponseExportService();
@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { db } from '../db';
+import { storage } from '../storage';
+import { sharedReports, sharedReportViews, companies, surveys, SharedReport } from '../../shared/schema';
+import {
+  createSharedReportSchema,
+  extendSharedReportSchema,
+  REPORT_SECTIONS,
+  ReportSection,
+  resolveReportSections
+} from '../../shared/sharedReports';
+import { z } from 'zod';
+import { desc, eq, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('SharedReportService');
+
+const BCRYPT_ROUNDS = 10;
+
+// Analytics keys that belong to each report section; keys not listed here
+// (response counts, completion rate) are always part of the report
+const SECTION_ANALYTICS_KEYS: Record<ReportSection, string[]> = {
+  traits: ['topTraits', 'personalityTraits', 'averageTraits', 'traitData', 'traitDistribution'],
+  demographics: ['demographics', 'marketSegments'],
+  stereotypes: ['genderStereotypes'],
+  products: ['productRecommendations'],
+  engagement: ['engagementMetrics', 'responsesByPeriod'],
+  business: ['businessContext'],
+  intelligence: ['advancedAnalytics', 'userSegments', 'monthlyGrowth']
+};
+
+export interface SharedReportSummary {
+  id: number;
+  token: string;
+  companyId: number;
+  companyName: string | null;
+  surveyId: number | 'all';
+  createdBy: number | null;
+  passwordProtected: boolean;
+  sections: ReportSection[];
+  expiresAt: Date;
+  revokedAt: Date | null;
+  status: 'active' | 'expired' | 'revoked';
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SharedReportViewer {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const reportStatus = (report: Pick<SharedReport, 'revokedAt' | 'expiresAt'>): SharedReportSummary['status'] => {
+  if (report.revokedAt) return 'revoked';
+  return report.expiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+};
+
+const toSummary = (report: SharedReport, companyName: string | null): SharedReportSummary => ({
+  id: report.id,
+  token: report.token,
+  companyId: report.companyId,
+  companyName,
+  surveyId: report.surveyId ?? 'all',
+  createdBy: report.createdBy,
+  passwordProtected: !!report.passwordHash,
+  sections: resolveReportSections(report.sections),
+  expiresAt: report.expiresAt,
+  revokedAt: report.revokedAt,
+  status: reportStatus(report),
+  viewCount: report.viewCount,
+  lastViewedAt: report.lastViewedAt,
+  createdAt: report.createdAt
+});
+
+const parseInput = <T extends z.ZodTypeAny>(schema: T, input: unknown, message: string): z.infer<T> => {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const errors: Record<string, string[]> = {};
+    for (const issue of result.error.errors) {
+      (errors[issue.path.join('.') || 'input'] ||= []).push(issue.message);
+    }
+    throw new AppError(message, 400, errors, ErrorCodes.VALIDATION_ERROR);
+  }
+  return result.data;
+};
+
+const addDays = (from: Date, days: number) => new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Drop the analytics of sections the link does not share
+ */
+export function scopeAnalytics(analytics: Record<string, unknown>, sections: ReportSection[]): Record<string, unknown> {
+  const hidden = new Set(
+    REPORT_SECTIONS.filter(section => !sections.includes(section)).flatMap(section => SECTION_ANALYTICS_KEYS[section])
+  );
+  return Object.fromEntries(Object.entries(analytics).filter(([key]) => !hidden.has(key)));
+}
+
+/**
+ * Refuse a link that cannot be opened: expired and revoked links answer 410,
+ * protected links 401 until the right password is supplied
+ */
+export async function assertShareOpenable(
+  report: Pick<SharedReport, 'revokedAt' | 'expiresAt' | 'passwordHash'>,
+  password: string | undefined
+): Promise<void> {
+  const status = reportStatus(report);
+  if (status !== 'active') {
+    throw new AppError(
+      status === 'revoked' ? 'This shared report has been revoked' : 'Shared report has expired',
+      410,
+      undefined,
+      ErrorCodes.TOKEN_EXPIRED
+    );
+  }
+
+  if (report.passwordHash) {
+    if (!password) {
+      throw new AppError('This shared report is password protected', 401, undefined, ErrorCodes.PASSWORD_REQUIRED);
+    }
+    if (!(await bcrypt.compare(password, report.passwordHash))) {
+      throw new AppError('Incorrect password', 401, undefined, ErrorCodes.INVALID_CREDENTIALS);
+    }
+  }
+}
+
+/**
+ * SharedReportService - Public, revocable links to a company's or survey's
+ * analytics report, with optional password protection and view tracking.
+ */
+export class SharedReportService {
+  async createShare(body: unknown, createdBy: number): Promise<SharedReportSummary> {
+    const input = parseInput(createSharedReportSchema, body, 'Invalid share settings');
+    const company = await storage.getCompany(input.companyId);
+    if (!company) {
+      throw new AppError('Company not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    // A link can only expose surveys of the company it is created for
+    if (input.surveyId !== 'all') {
+      const survey = await db.query.surveys.findFirst({
+        where: eq(surveys.id, input.surveyId),
+        columns: { id: true, companyId: true }
+      });
+      if (!survey || survey.companyId !== input.companyId) {
+        throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+      }
+    }
+
+    const [report] = await db.insert(sharedReports).values({
+      token: crypto.randomBytes(32).toString('hex'),
+      companyId: input.companyId,
+      surveyId: input.surveyId === 'all' ? null : input.surveyId,
+      createdBy,
+      passwordHash: input.password ? await bcrypt.hash(input.password, BCRYPT_ROUNDS) : null,
+      sections: resolveReportSections(input.sections),
+      expiresAt: addDays(new Date(), input.expiresInDays)
+    }).returning();
+
+    logger.info(`[SHARED_REPORT] User ${createdBy} shared report ${report.id} for company ${report.companyId}`);
+    return toSummary(report, company.name);
+  }
+
+  /**
+   * Shared links of one company, or of every company when companyId is null
+   */
+  async listShares(companyId: number | null): Promise<SharedReportSummary[]> {
+    const rows = await db.select({ report: sharedReports, companyName: companies.name })
+      .from(sharedReports)
+      .leftJoin(companies, eq(sharedReports.companyId, companies.id))
+      .where(companyId === null ? undefined : eq(sharedReports.companyId, companyId))
+      .orderBy(desc(sharedReports.createdAt));
+
+    return rows.map((row: { report: SharedReport; companyName: string | null }) => toSummary(row.report, row.companyName));
+  }
+
+  async getShare(id: number): Promise<SharedReport> {
+    const report = await db.query.sharedReports.findFirst({ where: eq(sharedReports.id, id) });
+    if (!report) {
+      throw new AppError('Shared report not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return report;
+  }
+
+  async revokeShare(id: number): Promise<SharedReportSummary> {
+    const existing = await this.getShare(id);
+    if (existing.revokedAt) {
+      return toSummary(existing, null);
+    }
+
+    const [report] = await db.update(sharedReports)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(eq(sharedReports.id, id))
+      .returning();
+
+    logger.info(`[SHARED_REPORT] Revoked shared report ${id}`);
+    return toSummary(report, null);
+  }
+
+  /**
+   * Push the expiry back by the given number of days, counted from the
+   * current expiry or from now when the link has already expired
+   */
+  async extendShare(id: number, body: unknown): Promise<SharedReportSummary> {
+    const { expiresInDays } = parseInput(extendSharedReportSchema, body, 'Invalid expiry');
+    const existing = await this.getShare(id);
+    if (existing.revokedAt) {
+      throw new AppError('A revoked link cannot be extended', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const from = existing.expiresAt.getTime() > Date.now() ? existing.expiresAt : new Date();
+    const [report] = await db.update(sharedReports)
+      .set({ expiresAt: addDays(from, expiresInDays), updatedAt: new Date() })
+      .where(eq(sharedReports.id, id))
+      .returning();
+
+    logger.info(`[SHARED_REPORT] Extended shared report ${id} to ${report.expiresAt.toISOString()}`);
+    return toSummary(report, null);
+  }
+
+  async getViews(id: number, limit = 100) {
+    return db.select({
+      viewedAt: sharedReportViews.viewedAt,
+      ipAddress: sharedReportViews.ipAddress,
+      userAgent: sharedReportViews.userAgent
+    })
+      .from(sharedReportViews)
+      .where(eq(sharedReportViews.sharedReportId, id))
+      .orderBy(desc(sharedReportViews.viewedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Resolve a public link to its scoped analytics and record the view
+   */
+  async openShare(token: string, password: string | undefined, viewer: SharedReportViewer) {
+    const report = await db.query.sharedReports.findFirst({ where: eq(sharedReports.token, token) });
+    if (!report) {
+      throw new AppError('Shared report not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    await assertShareOpenable(report, password);
+
+    const analytics = report.surveyId === null
+      ? await storage.getCompanyStats(report.companyId)
+      : await storage.getSurveyAnalytics(report.surveyId);
+    if (!analytics) {
+      throw new AppError('Analytics data not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+
+    const now = new Date();
+    await db.transaction(async (tx: any) => {
+      await tx.insert(sharedReportViews).values({
+        sharedReportId: report.id,
+        viewedAt: now,
+        ipAddress: viewer.ipAddress,
+        userAgent: viewer.userAgent
+      });
+      await tx.update(sharedReports)
+        .set({ viewCount: sql`${sharedReports.viewCount} + 1`, lastViewedAt: now })
+        .where(eq(sharedReports.id, report.id));
+    });
+
+    const company = await storage.getCompany(report.companyId);
+    const sections = resolveReportSections(report.sections);
+
+    return {
+      companyName: company?.name || `Company ${report.companyId}`,
+      companyId: report.companyId,
+      surveyId: report.surveyId ?? 'all',
+      sections,
+      analytics: scopeAnalytics(analytics, sections),
+      createdAt: report.createdAt,
+      expiresAt: report.expiresAt
+    };
+  }
+}
+
+// Export singleton instance
+export const sharedReportService = new SharedReportService();
@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { surveySessions, surveyQuestions, SurveySessionStatus, SurveySession } from '../../shared/schema';
+import { eq, and, lt, asc, ne, isNull, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { getVisibleQuestions } from '../../shared/questionLogic';
+
+const logger = new Logger('SurveySessionService');
+
+// Sessions without activity for this long are treated as abandoned
+const DEFAULT_ABANDON_AFTER_MINUTES = 60;
+
+// Prefix for sessions that are not backed by a stored survey (built-in question sets)
+export const EPHEMERAL_SESSION_PREFIX = 'session_local_';
+
+export interface StartSessionInput {
+  surveyId: number;
+  companyId: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionAnswer {
+  questionId: number;
+  answer: any;
+}
+
+export interface DropOffQuestionStat {
+  questionId: number;
+  question: string;
+  order: number;
+  reached: number;      // Sessions that got as far as this question and were shown it
+  answered: number;     // Sessions that answered this question
+  droppedHere: number;  // Abandoned sessions whose last answer was the previous question
+  dropOffRate: number;  // droppedHere / reached, as a percentage
+}
+
+export interface DropOffReport {
+  surveyId: number;
+  totalSessions: number;
+  completedSessions: number;
+  abandonedSessions: number;
+  inProgressSessions: number;
+  completionRate: number;
+  questions: DropOffQuestionStat[];
+}
+
+/**
+ * SurveySessionService - Persists partial survey responses so respondents can
+ * resume after a reload, and turns abandoned sessions into drop-off statistics.
+ */
+export class SurveySessionService {
+  /**
+   * Start a new survey session and issue a resume token
+   */
+  async startSession(input: StartSessionInput): Promise<SurveySession> {
+    const sessionId = `session_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`;
+    const resumeToken = crypto.randomBytes(24).toString('hex');
+
+    const [session] = await db
+      .insert(surveySessions)
+      .values({
+        sessionId,
+        surveyId: input.surveyId,
+        companyId: input.companyId,
+        resumeToken,
+        status: SurveySessionStatus.IN_PROGRESS,
+        answers: {},
+        answeredCount: 0,
+        ipAddress: input.ipAddress || null,
+        userAgent: input.userAgent || null,
+      })
+      .returning();
+
+    logger.info(`[START_SESSION] Started session ${sessionId} for survey ${input.surveyId}`);
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<SurveySession | null> {
+    const [session] = await db
+      .select()
+      .from(surveySessions)
+      .where(eq(surveySessions.sessionId, sessionId))
+      .limit(1);
+    return session || null;
+  }
+
+  async getSessionByResumeToken(resumeToken: string): Promise<SurveySession | null> {
+    const [session] = await db
+      .select()
+      .from(surveySessions)
+      .where(eq(surveySessions.resumeToken, resumeToken))
+      .limit(1);
+    return session || null;
+  }
+
+  /**
+   * Store a single answer against an in-progress session.
+   * Abandoned sessions are revived, since the respondent evidently came back.
+   */
+  async saveAnswer(sessionId: string, questionId: number, answer: any): Promise<SurveySession> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new AppError('Survey session not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    if (session.status === SurveySessionStatus.COMPLETED) {
+      throw new AppError('Survey session is already completed', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const [question] = await db
+      .select({ id: surveyQuestions.id })
+      .from(surveyQuestions)
+      .where(and(eq(surveyQuestions.id, questionId), eq(surveyQuestions.surveyId, session.surveyId)))
+      .limit(1);
+    if (!question) {
+      throw new AppError('The question is not part of this survey', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    // The answer is merged into the stored map by the update itself, so concurrent
+    // saves to the same session each keep their answer; completed sessions are
+    // skipped in case a submission claimed the session meanwhile
+    const answers = sql`(coalesce(${surveySessions.answers}::jsonb, '{}'::jsonb) || jsonb_build_object(${String(questionId)}::text, ${JSON.stringify(answer)}::jsonb))`;
+    const [updated] = await db
+      .update(surveySessions)
+      .set({
+        answers: sql`${answers}::json`,
+        answeredCount: sql`(SELECT count(*)::int FROM jsonb_object_keys(${answers}))`,
+        lastQuestionId: questionId,
+        status: SurveySessionStatus.IN_PROGRESS,
+        abandonedAt: null,
+        lastActivityAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(surveySessions.id, session.id),
+        ne(surveySessions.status, SurveySessionStatus.COMPLETED)
+      ))
+      .returning();
+    if (!updated) {
+      throw new AppError('Survey session is already completed', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Merge stored answers with answers submitted on completion.
+   * Submitted answers win, so a client with fresher state overrides what was saved.
+   */
+  mergeAnswers(session: SurveySession | null, submitted: SessionAnswer[] | undefined): SessionAnswer[] {
+    const merged = new Map<number, any>();
+
+    const stored = (session?.answers as Record<string, any>) || {};
+    for (const [questionId, answer] of Object.entries(stored)) {
+      merged.set(parseInt(questionId), answer);
+    }
+    for (const item of submitted || []) {
+      if (item && item.questionId != null) {
+        merged.set(Number(item.questionId), item.answer);
+      }
+    }
+
+    return Array.from(merged.entries()).map(([questionId, answer]) => ({ questionId, answer }));
+  }
+
+  /**
+   * Mark a session as completed before its response is stored. The update only
+   * matches sessions that are not completed yet, so of two concurrent
+   * submissions exactly one gets the session back; the other gets null.
+   */
+  async claimCompletion(sessionId: string): Promise<SurveySession | null> {
+    const [claimed] = await db
+      .update(surveySessions)
+      .set({
+        status: SurveySessionStatus.COMPLETED,
+        completedAt: new Date(),
+        lastActivityAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(surveySessions.sessionId, sessionId),
+        ne(surveySessions.status, SurveySessionStatus.COMPLETED)
+      ))
+      .returning();
+    return claimed || null;
+  }
+
+  /**
+   * Hand a claimed session back when its response could not be stored
+   */
+  async releaseCompletion(sessionId: string): Promise<void> {
+    await db
+      .update(surveySessions)
+      .set({
+        status: SurveySessionStatus.IN_PROGRESS,
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(surveySessions.sessionId, sessionId),
+        eq(surveySessions.status, SurveySessionStatus.COMPLETED),
+        isNull(surveySessions.surveyResponseId)
+      ));
+  }
+
+  /**
+   * Link a claimed session to the stored survey response
+   */
+  async completeSession(sessionId: string, surveyResponseId: number): Promise<void> {
+    await db
+      .update(surveySessions)
+      .set({
+        surveyResponseId,
+        updatedAt: new Date(),
+      })
+      .where(eq(surveySessions.sessionId, sessionId));
+
+    logger.info(`[COMPLETE_SESSION] Session ${sessionId} completed as response ${surveyResponseId}`);
+  }
+
+  /**
+   * Flag in-progress sessions with no recent activity as abandoned
+   */
+  async markAbandonedSessions(idleMinutes: number = DEFAULT_ABANDON_AFTER_MINUTES): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - idleMinutes * 60 * 1000);
+      const result = await db
+        .update(surveySessions)
+        .set({
+          status: SurveySessionStatus.ABANDONED,
+          abandonedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(surveySessions.status, SurveySessionStatus.IN_PROGRESS),
+          lt(surveySessions.lastActivityAt, cutoff)
+        ))
+        .returning({ id: surveySessions.id });
+
+      logger.info(`[MARK_ABANDONED] Marked ${result.length} sessions as abandoned`);
+      return result.length;
+    } catch (error) {
+      logger.error('[MARK_ABANDONED] Error marking abandoned sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a per-question drop-off report for a survey
+   */
+  async getDropOffReport(surveyId: number): Promise<DropOffReport> {
+    const questions = await db
+      .select({
+        id: surveyQuestions.id,
+        question: surveyQuestions.question,
+        order: surveyQuestions.order,
+        questionType: surveyQuestions.questionType,
+        options: surveyQuestions.options,
+        displayLogic: surveyQuestions.displayLogic
+      })
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, surveyId))
+      .orderBy(asc(surveyQuestions.order));
+
+    const sessions = await db
+      .select()
+      .from(surveySessions)
+      .where(eq(surveySessions.surveyId, surveyId));
+
+    return buildDropOffReport(surveyId, questions, sessions);
+  }
+}
+
+/**
+ * Compute drop-off statistics from sessions. A session "reached" a question if it
+ * answered that question or any later one; an abandoned session "dropped" at the
+ * first question after the furthest one it answered. Questions that display logic
+ * hid from a session, given its answers, are not counted as reached.
+ */
+export function buildDropOffReport(
+  surveyId: number,
+  questions: Array<{
+    id: number;
+    question: string;
+    order: number;
+    questionType?: string | null;
+    options?: unknown;
+    displayLogic?: unknown;
+  }>,
+  sessions: Array<Pick<SurveySession, 'status' | 'answers'>>
+): DropOffReport {
+  const ordered = [...questions].sort((a, b) => a.order - b.order);
+  const indexById = new Map(ordered.map((q, index) => [q.id, index] as const));
+
+  const reached = new Array(ordered.length).fill(0);
+  const answered = new Array(ordered.length).fill(0);
+  const droppedHere = new Array(ordered.length).fill(0);
+
+  let completedSessions = 0;
+  let abandonedSessions = 0;
+  let inProgressSessions = 0;
+
+  for (const session of sessions) {
+    if (session.status === SurveySessionStatus.COMPLETED) completedSessions++;
+    else if (session.status === SurveySessionStatus.ABANDONED) abandonedSessions++;
+    else inProgressSessions++;
+
+    // Positions, in survey order, of the questions this session was shown;
+    // answers left on questions that were hidden again do not count
+    const answers = (session.answers as Record<string, any>) || {};
+    const shown = getVisibleQuestions(ordered, answers).map(q => indexById.get(q.id)!);
+
+    let furthest = -1;
+    for (const index of shown) {
+      if (!(String(ordered[index].id) in answers)) continue;
+      answered[index]++;
+      furthest = Math.max(furthest, index);
+    }
+
+    const next = shown.find(index => index > furthest);
+
+    // Completed sessions reached every question they were shown, including skipped optional ones
+    for (const index of shown) {
+      if (session.status === SurveySessionStatus.COMPLETED || index <= furthest || index === next) {
+        reached[index]++;
+      }
+    }
+
+    if (session.status === SurveySessionStatus.ABANDONED && next !== undefined) {
+      droppedHere[next]++;
+    }
+  }
+
+  const totalSessions = sessions.length;
+
+  return {
+    surveyId,
+    totalSessions,
+    completedSessions,
+    abandonedSessions,
+    inProgressSessions,
+    completionRate: totalSessions > 0 ? Math.round((completedSessions / totalSessions) * 100) : 0,
+    questions: ordered.map((q, index) => ({
+      questionId: q.id,
+      question: q.question,
+      order: q.order,
+      reached: reached[index],
+      answered: answered[index],
+      droppedHere: droppedHere[index],
+      dropOffRate: reached[index] > 0 ? Math.round((droppedHere[index] / reached[index]) * 100) : 0,
+    })),
+  };
+}
+
+// Export singleton instance
+export const surveySessionService = new SurveySessionService();
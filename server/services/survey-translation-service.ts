@@ -0,0 +1,185 @@
+import { db } from '../db';
+import { surveys, surveyQuestions, systemSettings } from '../../shared/schema';
+import { asc, desc, eq } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { approvalService } from './approval-service';
+import {
+  DEFAULT_SURVEY_LANGUAGE,
+  QuestionTranslations,
+  SurveyContentTranslations,
+  SurveyTranslationsState,
+  SurveyTranslationsUpdate,
+  parseQuestionTranslations,
+  parseSurveyContentTranslations,
+  pruneQuestionTranslation,
+  pruneTranslation,
+  questionTexts,
+  resolveTranslationPublishThreshold,
+  surveyLanguages,
+  surveyTexts,
+  surveyTranslationsUpdateSchema
+} from '../../shared/surveyTranslations';
+
+const logger = new Logger('SurveyTranslationService');
+
+type SurveyRow = typeof surveys.$inferSelect;
+type QuestionRow = typeof surveyQuestions.$inferSelect;
+
+/**
+ * SurveyTranslationService - Translations of a survey's texts, questions and
+ * options into the extra languages it is offered in. The survey's own
+ * language stays in the regular columns; translations only ever replace
+ * display texts, so answers keep their canonical option values. Respondents
+ * only see the languages that have been published. Changes to an active
+ * survey under an approval workflow need approved content, like question edits.
+ */
+export class SurveyTranslationService {
+  async getTranslations(surveyId: number): Promise<SurveyTranslationsState> {
+    const { survey, questions } = await this.load(db, surveyId);
+    return this.buildState(survey, questions, await this.getPublishThreshold());
+  }
+
+  /**
+   * Completeness a language needs to be published, from systemSettings.general
+   */
+  async getPublishThreshold(): Promise<number> {
+    const [settings] = await db.select({ general: systemSettings.general })
+      .from(systemSettings)
+      .orderBy(desc(systemSettings.id))
+      .limit(1);
+    return resolveTranslationPublishThreshold(settings?.general);
+  }
+
+  /**
+   * Replace the survey's translation languages and save the given
+   * translations. Questions left out of the update keep theirs, minus any
+   * language that is no longer offered.
+   */
+  async updateTranslations(surveyId: number, input: unknown): Promise<SurveyTranslationsState> {
+    const update = this.parseUpdate(input);
+    const publishThreshold = await this.getPublishThreshold();
+
+    const state = await db.transaction(async (tx: any) => {
+      const { survey, questions } = await this.load(tx, surveyId);
+      const sourceLanguage = survey.surveyLanguage || DEFAULT_SURVEY_LANGUAGE;
+      const languages = surveyLanguages(sourceLanguage, update.languages).slice(1);
+
+      const questionsById = new Map(questions.map(question => [question.id, question]));
+      const unknown = update.questions.filter(entry => !questionsById.has(entry.id));
+      if (unknown.length > 0) {
+        throw new AppError('Translations refer to questions that are not in this survey', 400, {
+          questions: unknown.map(entry => `Question ${entry.id} is not in this survey`)
+        }, ErrorCodes.VALIDATION_ERROR);
+      }
+      const updates = new Map(update.questions.map(entry => [entry.id, entry.translations]));
+
+      const surveyTranslations: SurveyContentTranslations = {};
+      const texts = surveyTexts(survey);
+      languages.forEach(language => {
+        const translation = language in update.survey
+          ? update.survey[language]
+          : parseSurveyContentTranslations(survey.translations)[language];
+        if (!translation) return;
+        const pruned = pruneTranslation(texts, translation);
+        if (Object.keys(pruned).length > 0) surveyTranslations[language] = pruned;
+      });
+      // Removing a language also takes it away from respondents
+      const published = surveyLanguages(sourceLanguage, survey.publishedLanguages)
+        .slice(1)
+        .filter(language => languages.includes(language));
+
+      await tx.update(surveys).set({
+        translationLanguages: languages,
+        publishedLanguages: published,
+        translations: Object.keys(surveyTranslations).length > 0 ? surveyTranslations : null,
+        updatedAt: new Date()
+      }).where(eq(surveys.id, surveyId));
+
+      const saved: QuestionRow[] = [];
+      for (const question of questions) {
+        const current = parseQuestionTranslations(question.translations);
+        const incoming = updates.get(question.id) ?? {};
+        const translations: QuestionTranslations = {};
+        languages.forEach(language => {
+          const translation = language in incoming ? incoming[language] : current[language];
+          if (!translation) return;
+          const pruned = pruneQuestionTranslation(question, translation);
+          if (Object.keys(pruned).length > 0) translations[language] = pruned;
+        });
+
+        const value = Object.keys(translations).length > 0 ? translations : null;
+        if (JSON.stringify(value) !== JSON.stringify(question.translations ?? null)) {
+          await tx.update(surveyQuestions)
+            .set({ translations: value, updatedAt: new Date() })
+            .where(eq(surveyQuestions.id, question.id));
+        }
+        saved.push({ ...question, translations: value });
+      }
+
+      // Translations are part of the approved content of an active survey
+      await approvalService.assertLiveContentApproved(tx, surveyId);
+
+      return this.buildState(
+        { ...survey, translationLanguages: languages, publishedLanguages: published, translations: surveyTranslations },
+        saved,
+        publishThreshold
+      );
+    });
+
+    logger.info(`[TRANSLATIONS] Saved translations for survey ${surveyId} (${state.languages.join(', ') || 'none'})`);
+    return state;
+  }
+
+  private buildState(survey: SurveyRow, questions: QuestionRow[], publishThreshold: number): SurveyTranslationsState {
+    const sourceLanguage = survey.surveyLanguage || DEFAULT_SURVEY_LANGUAGE;
+    const languages = surveyLanguages(sourceLanguage, survey.translationLanguages).slice(1);
+    return {
+      surveyId: survey.id,
+      sourceLanguage,
+      languages,
+      published: surveyLanguages(sourceLanguage, survey.publishedLanguages).slice(1).filter(code => languages.includes(code)),
+      publishThreshold,
+      survey: {
+        texts: surveyTexts(survey),
+        translations: parseSurveyContentTranslations(survey.translations)
+      },
+      questions: questions.map(question => ({
+        id: question.id,
+        order: question.order,
+        questionType: question.questionType,
+        texts: questionTexts(question),
+        translations: parseQuestionTranslations(question.translations)
+      }))
+    };
+  }
+
+  private parseUpdate(input: unknown): SurveyTranslationsUpdate {
+    const parsed = surveyTranslationsUpdateSchema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'translations';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid translations', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async load(tx: any, surveyId: number): Promise<{ survey: SurveyRow; questions: QuestionRow[] }> {
+    const survey = await tx.query.surveys.findFirst({ where: eq(surveys.id, surveyId) });
+    if (!survey) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    const questions = await tx.select()
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, surveyId))
+      .orderBy(asc(surveyQuestions.order));
+    return { survey, questions };
+  }
+}
+
+// Export singleton instance
+export const surveyTranslationService = new SurveyTranslationService();
@@ -0,0 +1,349 @@
+import { db } from '../db';
+import { surveys, surveyQuestions, surveyResponses, surveyVersions, users, SurveyVersion } from '../../shared/schema';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import {
+  SNAPSHOT_QUESTION_FIELDS,
+  SNAPSHOT_SETTING_FIELDS,
+  SurveySnapshot,
+  SurveyVersionDetail,
+  SurveyVersionDiff,
+  SurveyVersionSummary,
+  buildSurveySnapshot,
+  createSurveyVersionSchema,
+  diffSurveySnapshots,
+  snapshotsEqual
+} from '../../shared/surveyVersions';
+
+const logger = new Logger('SurveyVersionService');
+
+export interface SurveyVersionInput {
+  name?: string;
+  description?: string;
+}
+
+export interface PublishResult {
+  version: SurveyVersionSummary;
+  // False when the survey had not changed since its current version
+  created: boolean;
+}
+
+/**
+ * SurveyVersionService - Immutable versions of a survey's settings and
+ * questions. Publishing records what respondents answer; responses are pinned
+ * to the survey's current published version. Restoring copies an old version
+ * into a new draft, which goes live when it is published.
+ */
+export class SurveyVersionService {
+  async listVersions(surveyId: number): Promise<SurveyVersionSummary[]> {
+    const survey = await this.loadSurvey(surveyId);
+    const rows = await db.select({ version: surveyVersions, username: users.username })
+      .from(surveyVersions)
+      .leftJoin(users, eq(users.id, surveyVersions.createdBy))
+      .where(eq(surveyVersions.surveyId, surveyId))
+      .orderBy(desc(surveyVersions.versionNumber));
+    const responseCounts = await this.responseCounts(surveyId);
+
+    return rows.map((row: { version: SurveyVersion; username: string | null }) =>
+      this.summarize(row.version, row.username, survey.currentVersionId, responseCounts.get(row.version.id) ?? 0)
+    );
+  }
+
+  async getVersion(surveyId: number, versionId: number): Promise<SurveyVersionDetail> {
+    const survey = await this.loadSurvey(surveyId);
+    const version = await this.loadVersion(surveyId, versionId);
+    const creator = version.createdBy
+      ? await db.query.users.findFirst({ where: eq(users.id, version.createdBy), columns: { username: true } })
+      : undefined;
+    const responseCounts = await this.responseCounts(surveyId);
+
+    return {
+      ...this.summarize(version, creator?.username ?? null, survey.currentVersionId, responseCounts.get(version.id) ?? 0),
+      snapshot: version.snapshot as SurveySnapshot
+    };
+  }
+
+  async compareVersions(surveyId: number, fromVersionId: number, toVersionId: number): Promise<SurveyVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.loadVersion(surveyId, fromVersionId),
+      this.loadVersion(surveyId, toVersionId)
+    ]);
+    return diffSurveySnapshots(from.snapshot as SurveySnapshot, to.snapshot as SurveySnapshot, { fromVersionId, toVersionId });
+  }
+
+  /**
+   * Save the survey's current settings and questions as a draft version
+   */
+  async createDraft(surveyId: number, input: unknown, userId: number | null): Promise<SurveyVersionSummary> {
+    const { name, description } = this.parseInput(input);
+    const version = await db.transaction(async (tx: any) => {
+      const snapshot = await this.workingSnapshot(tx, surveyId);
+      return this.insertVersion(tx, surveyId, {
+        status: 'draft',
+        name,
+        description,
+        snapshot,
+        createdBy: userId
+      });
+    });
+
+    logger.info(`[VERSIONS] Survey ${surveyId}: saved draft v${version.versionNumber}`);
+    return this.summaryOf(surveyId, version);
+  }
+
+  /**
+   * Publish the survey's current settings and questions. Nothing is created
+   * when they match the current published version.
+   */
+  async publishWorkingCopy(surveyId: number, input: unknown, userId: number | null): Promise<PublishResult> {
+    const { name, description } = this.parseInput(input);
+    const result = await db.transaction(async (tx: any) => {
+      const survey = await this.loadSurvey(surveyId, tx);
+      const snapshot = await this.workingSnapshot(tx, surveyId, survey);
+
+      if (survey.currentVersionId) {
+        const current = await tx.query.surveyVersions.findFirst({ where: eq(surveyVersions.id, survey.currentVersionId) });
+        if (current && snapshotsEqual(current.snapshot as SurveySnapshot, snapshot)) {
+          return { version: current as SurveyVersion, created: false };
+        }
+      }
+
+      const version = await this.insertVersion(tx, surveyId, {
+        status: 'published',
+        name,
+        description,
+        snapshot,
+        createdBy: userId,
+        publishedAt: new Date()
+      });
+      await tx.update(surveys).set({ currentVersionId: version.id }).where(eq(surveys.id, surveyId));
+      return { version, created: true };
+    });
+
+    if (result.created) {
+      logger.info(`[VERSIONS] Survey ${surveyId}: published v${result.version.versionNumber}`);
+    }
+    return { version: await this.summaryOf(surveyId, result.version), created: result.created };
+  }
+
+  /**
+   * Publish a draft: its settings and questions replace the survey's and it
+   * becomes the version new responses are recorded against
+   */
+  async publishDraft(surveyId: number, versionId: number): Promise<SurveyVersionSummary> {
+    const version = await db.transaction(async (tx: any) => {
+      const draft = await this.loadVersion(surveyId, versionId, tx);
+      if (draft.status !== 'draft') {
+        throw new AppError('This version is already published', 409, undefined, ErrorCodes.CONFLICT);
+      }
+
+      await this.applySnapshot(tx, surveyId, draft.snapshot as SurveySnapshot);
+      // Questions that no longer existed were re-created, so record the applied state
+      const snapshot = await this.workingSnapshot(tx, surveyId);
+      const [published] = await tx.update(surveyVersions)
+        .set({ status: 'published', snapshot, publishedAt: new Date() })
+        .where(eq(surveyVersions.id, draft.id))
+        .returning();
+      await tx.update(surveys)
+        .set({ currentVersionId: published.id, updatedAt: new Date() })
+        .where(eq(surveys.id, surveyId));
+      return published as SurveyVersion;
+    });
+
+    logger.info(`[VERSIONS] Survey ${surveyId}: published draft v${version.versionNumber}`);
+    return this.summaryOf(surveyId, version);
+  }
+
+  /**
+   * Copy an earlier version into a new draft; the live survey is unchanged
+   * until the draft is published
+   */
+  async restoreVersion(surveyId: number, versionId: number, userId: number | null): Promise<SurveyVersionSummary> {
+    const version = await db.transaction(async (tx: any) => {
+      const source = await this.loadVersion(surveyId, versionId, tx);
+      return this.insertVersion(tx, surveyId, {
+        status: 'draft',
+        name: `Restored from ${source.name}`,
+        description: source.description ?? undefined,
+        snapshot: source.snapshot as SurveySnapshot,
+        createdBy: userId,
+        restoredFromVersionId: source.id
+      });
+    });
+
+    logger.info(`[VERSIONS] Survey ${surveyId}: restored version #${versionId} as draft v${version.versionNumber}`);
+    return this.summaryOf(surveyId, version);
+  }
+
+  /**
+   * ID of the version a new response answers, publishing the survey first
+   * when it has never been published (surveys created before versioning)
+   */
+  async ensureCurrentVersion(surveyId: number): Promise<number | null> {
+    const survey = await db.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { id: true, currentVersionId: true }
+    });
+    if (!survey) return null;
+    if (survey.currentVersionId) return survey.currentVersionId;
+
+    const { version } = await this.publishWorkingCopy(surveyId, {}, null);
+    return version.id;
+  }
+
+  /**
+   * The settings and questions a publish would make live: those of the given
+   * draft, or the survey's current ones
+   */
+  async publishableSnapshot(surveyId: number, versionId?: number, tx: any = db): Promise<SurveySnapshot> {
+    if (versionId) {
+      const version = await this.loadVersion(surveyId, versionId, tx);
+      return version.snapshot as SurveySnapshot;
+    }
+    return this.workingSnapshot(tx, surveyId);
+  }
+
+  private parseInput(input: unknown): SurveyVersionInput {
+    const parsed = createSurveyVersionSchema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'version';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid version details', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async loadSurvey(surveyId: number, tx: any = db) {
+    const survey = await tx.query.surveys.findFirst({ where: eq(surveys.id, surveyId) });
+    if (!survey) {
+      throw new AppError('Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return survey as typeof surveys.$inferSelect;
+  }
+
+  private async loadVersion(surveyId: number, versionId: number, tx: any = db): Promise<SurveyVersion> {
+    const version = await tx.query.surveyVersions.findFirst({
+      where: and(eq(surveyVersions.id, versionId), eq(surveyVersions.surveyId, surveyId))
+    });
+    if (!version) {
+      throw new AppError('Version not found for this survey', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return version;
+  }
+
+  private async workingSnapshot(tx: any, surveyId: number, survey?: typeof surveys.$inferSelect): Promise<SurveySnapshot> {
+    const row = survey ?? await this.loadSurvey(surveyId, tx);
+    const questions = await tx.select()
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, surveyId))
+      .orderBy(asc(surveyQuestions.order));
+    return buildSurveySnapshot(row, questions);
+  }
+
+  private async insertVersion(
+    tx: any,
+    surveyId: number,
+    values: Omit<typeof surveyVersions.$inferInsert, 'surveyId' | 'versionNumber' | 'name' | 'description'> & SurveyVersionInput
+  ): Promise<SurveyVersion> {
+    const [{ next }] = await tx.select({ next: sql<number>`COALESCE(MAX(${surveyVersions.versionNumber}), 0) + 1` })
+      .from(surveyVersions)
+      .where(eq(surveyVersions.surveyId, surveyId));
+    const versionNumber = Number(next);
+
+    const [version] = await tx.insert(surveyVersions).values({
+      ...values,
+      surveyId,
+      versionNumber,
+      name: values.name || `Version ${versionNumber}`,
+      description: values.description || null
+    }).returning();
+    return version;
+  }
+
+  // Write a snapshot's settings and questions back to the survey, keeping question IDs where they still exist
+  private async applySnapshot(tx: any, surveyId: number, snapshot: SurveySnapshot): Promise<void> {
+    const settings: Record<string, unknown> = {};
+    SNAPSHOT_SETTING_FIELDS.forEach(field => {
+      if (field in snapshot.settings) settings[field] = snapshot.settings[field];
+    });
+    await tx.update(surveys).set({ ...settings, updatedAt: new Date() }).where(eq(surveys.id, surveyId));
+
+    const existing: Array<{ id: number }> = await tx.select({ id: surveyQuestions.id })
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, surveyId));
+    const existingIds = new Set(existing.map(question => question.id));
+    const keptIds = new Set<number>();
+
+    for (const question of snapshot.questions) {
+      const values: Record<string, unknown> = { surveyId, updatedAt: new Date() };
+      SNAPSHOT_QUESTION_FIELDS.forEach(field => {
+        values[field] = question[field] ?? null;
+      });
+      values.required = question.required ?? true;
+
+      if (existingIds.has(question.id)) {
+        keptIds.add(question.id);
+        await tx.update(surveyQuestions).set(values).where(eq(surveyQuestions.id, question.id));
+      } else {
+        await tx.insert(surveyQuestions).values({ ...values, createdAt: new Date() });
+      }
+    }
+
+    for (const id of Array.from(existingIds)) {
+      if (!keptIds.has(id)) {
+        await tx.delete(surveyQuestions).where(eq(surveyQuestions.id, id));
+      }
+    }
+  }
+
+  private async responseCounts(surveyId: number): Promise<Map<number, number>> {
+    const rows = await db.select({
+      versionId: surveyResponses.surveyVersionId,
+      count: sql<number>`COUNT(*)`
+    })
+      .from(surveyResponses)
+      .where(eq(surveyResponses.surveyId, surveyId))
+      .groupBy(surveyResponses.surveyVersionId);
+
+    return new Map(rows
+      .filter((row: { versionId: number | null }) => row.versionId !== null)
+      .map((row: { versionId: number | null; count: number }) => [row.versionId as number, Number(row.count)]));
+  }
+
+  private async summaryOf(surveyId: number, version: SurveyVersion): Promise<SurveyVersionSummary> {
+    const { snapshot, ...summary } = await this.getVersion(surveyId, version.id);
+    return summary;
+  }
+
+  private summarize(
+    version: SurveyVersion,
+    username: string | null,
+    currentVersionId: number | null,
+    responseCount: number
+  ): SurveyVersionSummary {
+    const snapshot = version.snapshot as SurveySnapshot;
+    return {
+      id: version.id,
+      surveyId: version.surveyId,
+      versionNumber: version.versionNumber,
+      status: version.status === 'published' ? 'published' : 'draft',
+      name: version.name,
+      description: version.description,
+      questionCount: snapshot?.questions?.length ?? 0,
+      createdBy: version.createdBy ? { id: version.createdBy, username: username ?? `User ${version.createdBy}` } : null,
+      restoredFromVersionId: version.restoredFromVersionId,
+      isCurrent: version.id === currentVersionId,
+      responseCount,
+      createdAt: version.createdAt.toISOString(),
+      publishedAt: version.publishedAt ? version.publishedAt.toISOString() : null
+    };
+  }
+}
+
+// Export singleton instance
+export const surveyVersionService = new SurveyVersionService();
@@ -0,0 +1,535 @@
+import crypto from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  approvalWorkflows,
+  auditLogs,
+  companies,
+  surveys,
+  userInvitations,
+  users
+} from '../../shared/schema';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { sendInvitationEmail } from './emailService';
+import { EntitlementError, entitlementService } from './entitlement-service';
+import { checkLimit } from '../../shared/entitlements';
+import {
+  INVITATION_TTL_DAYS,
+  InvitationPreview,
+  TEAM_ROLES,
+  TEAM_ROLE_LABELS,
+  TeamInvitation,
+  TeamMember,
+  TeamOverview,
+  acceptInvitationSchema,
+  invitationStatus,
+  isOwnerRole,
+  teamInvitationSchema,
+  teamRoleChangeSchema,
+  teamRoleOf
+} from '../../shared/team';
+
+const logger = new Logger('TeamService');
+
+const BCRYPT_ROUNDS = 10;
+
+export interface TeamActor {
+  id: number;
+  // Company owners and platform admins; only they grant or take away the owner role
+  canManageOwners: boolean;
+  ipAddress: string | null;
+}
+
+export interface TeamPermissions {
+  canInvite: boolean;
+  canManage: boolean;
+}
+
+// Members are the company's users that have not been deactivated
+const activeMember = (companyId: number) =>
+  and(eq(users.companyId, companyId), sql`${users.isActive} IS NOT FALSE`);
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null);
+
+/**
+ * TeamService - The members of a company workspace and the invitations that
+ * bring new ones in. Every member and pending invitation takes a seat; the
+ * company's assigned license sets how many there are. Removing a member hands
+ * their surveys to another member and deactivates the account.
+ */
+export class TeamService {
+  async getOverview(companyId: number, permissions: TeamPermissions): Promise<TeamOverview> {
+    const company = await this.loadCompany(companyId);
+    const [members, invitations, seats] = await Promise.all([
+      this.listMembers(companyId),
+      this.listInvitations(companyId),
+      entitlementService.seatUsage(companyId)
+    ]);
+    return { companyId, companyName: company.name, members, invitations, seats, ...permissions };
+  }
+
+  async listMembers(companyId: number): Promise<TeamMember[]> {
+    const rows = await db.select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      role: users.role,
+      lastLogin: users.lastLogin,
+      createdAt: users.createdAt
+    })
+      .from(users)
+      .where(activeMember(companyId))
+      .orderBy(asc(users.username));
+    if (rows.length === 0) return [];
+
+    const surveyCounts = await db.select({ userId: surveys.createdById, total: sql<number>`count(*)::int` })
+      .from(surveys)
+      .where(and(eq(surveys.companyId, companyId), inArray(surveys.createdById, rows.map((row: { id: number }) => row.id))))
+      .groupBy(surveys.createdById);
+    const countsByUser = new Map<number, number>(surveyCounts.map((row: { userId: number; total: number }) => [row.userId, row.total]));
+
+    return rows.map((row: any) => ({
+      ...row,
+      teamRole: teamRoleOf(row.role),
+      lastLogin: toIso(row.lastLogin),
+      createdAt: row.createdAt.toISOString(),
+      surveyCount: countsByUser.get(row.id) ?? 0
+    }));
+  }
+
+  async listInvitations(companyId: number): Promise<TeamInvitation[]> {
+    const rows = await db.select({
+      id: userInvitations.id,
+      email: userInvitations.email,
+      role: userInvitations.role,
+      status: userInvitations.status,
+      invitedBy: userInvitations.invitedBy,
+      inviterName: users.username,
+      expiresAt: userInvitations.expiresAt,
+      acceptedAt: userInvitations.acceptedAt,
+      createdAt: userInvitations.createdAt
+    })
+      .from(userInvitations)
+      .leftJoin(users, eq(users.id, userInvitations.invitedBy))
+      .where(eq(userInvitations.companyId, companyId))
+      .orderBy(desc(userInvitations.createdAt));
+    return rows.map((row: any) => this.summarizeInvitation(row));
+  }
+
+  /**
+   * Invite someone into the company by email. The invitation holds a seat
+   * until it is accepted, revoked or expires.
+   */
+  async invite(companyId: number, input: unknown, actor: TeamActor, baseUrl: string): Promise<TeamInvitation> {
+    const data = this.parse(teamInvitationSchema, input, 'Invalid invitation');
+    if (isOwnerRole(TEAM_ROLES[data.role]) && !actor.canManageOwners) {
+      throw new AppError('Only company owners can invite owners', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+
+    const existingUser = await db.query.users.findFirst({
+      where: sql`lower(${users.email}) = ${data.email}`,
+      columns: { id: true, companyId: true }
+    });
+    if (existingUser) {
+      throw new AppError(
+        existingUser.companyId === companyId ? 'This person is already a member of your team' : 'An account with this email already exists',
+        409,
+        { email: ['Already registered'] },
+        ErrorCodes.ALREADY_EXISTS
+      );
+    }
+
+    const company = await this.loadCompany(companyId);
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invitation = await db.transaction(async (tx: any) => {
+      // Lock the company so concurrent invitations cannot share the last seat
+      await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, companyId)).for('update');
+
+      const pending = await tx.select({ id: userInvitations.id, expiresAt: userInvitations.expiresAt })
+        .from(userInvitations)
+        .where(and(
+          eq(userInvitations.companyId, companyId),
+          eq(userInvitations.status, 'pending'),
+          sql`lower(${userInvitations.email}) = ${data.email}`
+        ));
+      const stale = pending.filter((row: { expiresAt: Date }) => row.expiresAt.getTime() <= Date.now());
+      if (stale.length < pending.length) {
+        throw new AppError('This email already has a pending invitation', 409, { email: ['Already invited'] }, ErrorCodes.ALREADY_EXISTS);
+      }
+      if (stale.length > 0) {
+        await tx.update(userInvitations)
+          .set({ status: 'expired' })
+          .where(inArray(userInvitations.id, stale.map((row: { id: number }) => row.id)));
+      }
+
+      const entitlements = await entitlementService.getEntitlements(companyId, tx);
+      const seats = await entitlementService.seatUsage(companyId, tx, entitlements);
+      const violation = checkLimit(entitlements, 'seats', seats.members + seats.pendingInvitations);
+      if (violation) {
+        throw new EntitlementError(violation);
+      }
+
+      const [created] = await tx.insert(userInvitations).values({
+        email: data.email,
+        role: TEAM_ROLES[data.role],
+        companyId,
+        invitedBy: actor.id,
+        token,
+        expiresAt
+      }).returning();
+
+      await this.audit(tx, actor, companyId, 'team_invitation_created', 'team_invitation', created.id, {
+        email: data.email,
+        role: data.role,
+        expiresAt: expiresAt.toISOString()
+      });
+      return created;
+    });
+
+    const inviter = await db.query.users.findFirst({ where: eq(users.id, actor.id), columns: { username: true } });
+    const sent = await sendInvitationEmail(
+      data.email,
+      inviter?.username ?? company.name,
+      company.name,
+      token,
+      baseUrl,
+      TEAM_ROLE_LABELS[data.role]
+    );
+    if (!sent) {
+      logger.warn(`[TEAM] Invitation ${invitation.id} was created but its email could not be sent yet`);
+    }
+
+    logger.info(`[TEAM] User ${actor.id} invited ${data.email} to company ${companyId} as ${data.role}`);
+    return this.summarizeInvitation({ ...invitation, inviterName: inviter?.username ?? null });
+  }
+
+  async revokeInvitation(companyId: number, invitationId: number, actor: TeamActor): Promise<TeamInvitation> {
+    const invitation = await db.query.userInvitations.findFirst({
+      where: and(eq(userInvitations.id, invitationId), eq(userInvitations.companyId, companyId))
+    });
+    if (!invitation) {
+      throw new AppError('Invitation not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    const status = invitationStatus(invitation);
+    if (status !== 'pending') {
+      throw new AppError(`This invitation is already ${status}`, 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const [revoked] = await db.update(userInvitations)
+      .set({ status: 'revoked' })
+      .where(and(eq(userInvitations.id, invitationId), eq(userInvitations.status, 'pending')))
+      .returning();
+    if (!revoked) {
+      throw new AppError('This invitation was accepted or revoked in the meantime', 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    await this.audit(db, actor, companyId, 'team_invitation_revoked', 'team_invitation', invitationId, {
+      email: invitation.email
+    });
+    logger.info(`[TEAM] User ${actor.id} revoked invitation ${invitationId} of company ${companyId}`);
+    return this.summarizeInvitation({ ...revoked, inviterName: null });
+  }
+
+  // The invitation behind an emailed link, for the accept page
+  async previewInvitation(token: string): Promise<InvitationPreview> {
+    const invitation = await this.loadInvitation(token);
+    const [company, inviter] = await Promise.all([
+      invitation.companyId ? db.query.companies.findFirst({ where: eq(companies.id, invitation.companyId), columns: { name: true } }) : null,
+      db.query.users.findFirst({ where: eq(users.id, invitation.invitedBy), columns: { username: true } })
+    ]);
+    return {
+      email: invitation.email,
+      companyName: company?.name ?? '',
+      role: teamRoleOf(invitation.role),
+      inviterName: inviter?.username ?? null,
+      expiresAt: invitation.expiresAt.toISOString(),
+      status: invitationStatus(invitation)
+    };
+  }
+
+  /**
+   * Accept an invitation: creates the invitee's account in the company with
+   * the invited role. The emailed token proves the address, so the account
+   * starts verified.
+   */
+  async acceptInvitation(token: string, input: unknown, ipAddress: string | null): Promise<{ userId: number; username: string; companyId: number }> {
+    const data = this.parse(acceptInvitationSchema, input, 'Invalid account details');
+    const invitation = await this.loadInvitation(token);
+    this.assertPending(invitation);
+    if (!invitation.companyId) {
+      throw new AppError('This invitation is not linked to a company', 410, undefined, ErrorCodes.OPERATION_NOT_ALLOWED);
+    }
+    const companyId: number = invitation.companyId;
+
+    const [emailTaken, usernameTaken] = await Promise.all([
+      db.query.users.findFirst({ where: sql`lower(${users.email}) = ${invitation.email.toLowerCase()}`, columns: { id: true } }),
+      db.query.users.findFirst({ where: eq(users.username, data.username), columns: { id: true } })
+    ]);
+    if (emailTaken) {
+      throw new AppError('An account with this email already exists', 409, undefined, ErrorCodes.ALREADY_EXISTS);
+    }
+    if (usernameTaken) {
+      throw new AppError('This username is taken', 409, { username: ['Choose another username'] }, ErrorCodes.ALREADY_EXISTS);
+    }
+
+    const password = await bcrypt.hash(data.password, BCRYPT_ROUNDS);
+    const user = await db.transaction(async (tx: any) => {
+      await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, companyId)).for('update');
+      const [locked] = await tx.select().from(userInvitations).where(eq(userInvitations.id, invitation.id)).for('update');
+      this.assertPending(locked);
+
+      // The invitation held a seat; the license may have shrunk since
+      const entitlements = await entitlementService.getEntitlements(companyId, tx);
+      const seats = await entitlementService.seatUsage(companyId, tx, entitlements);
+      const violation = checkLimit(entitlements, 'seats', seats.members);
+      if (violation) {
+        throw new EntitlementError(violation);
+      }
+
+      const [created] = await tx.insert(users).values({
+        username: data.username,
+        password,
+        email: invitation.email,
+        firstName: data.firstName || null,
+        lastName: data.lastName || null,
+        companyId,
+        role: invitation.role,
+        isActive: true,
+        emailVerified: true,
+        passwordLastChanged: new Date()
+      }).returning({ id: users.id, username: users.username });
+
+      await tx.update(userInvitations)
+        .set({ status: 'accepted', acceptedById: created.id, acceptedAt: new Date() })
+        .where(eq(userInvitations.id, invitation.id));
+
+      await this.audit(tx, { id: created.id, canManageOwners: false, ipAddress }, companyId, 'team_invitation_accepted', 'team_invitation', invitation.id, {
+        email: invitation.email,
+        role: teamRoleOf(invitation.role)
+      });
+      return created;
+    });
+
+    logger.info(`[TEAM] ${invitation.email} accepted invitation ${invitation.id} and joined company ${companyId} as user ${user.id}`);
+    return { userId: user.id, username: user.username, companyId };
+  }
+
+  async changeRole(companyId: number, userId: number, input: unknown, actor: TeamActor): Promise<TeamMember> {
+    const { role } = this.parse(teamRoleChangeSchema, input, 'Invalid role');
+    const member = await this.loadMember(companyId, userId);
+    const newRole = TEAM_ROLES[role];
+    if (member.role === newRole) {
+      return (await this.listMembers(companyId)).find(other => other.id === userId)!;
+    }
+    if ((isOwnerRole(member.role) || isOwnerRole(newRole)) && !actor.canManageOwners) {
+      throw new AppError('Only company owners can change who is an owner', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+
+    await db.transaction(async (tx: any) => {
+      await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, companyId)).for('update');
+      if (isOwnerRole(member.role)) {
+        await this.assertAnotherOwner(tx, companyId, userId);
+      }
+      await tx.update(users).set({ role: newRole, updatedAt: new Date() }).where(eq(users.id, userId));
+      await this.audit(tx, actor, companyId, 'team_member_role_changed', 'user', userId, {
+        from: member.role,
+        to: newRole
+      });
+    });
+
+    logger.info(`[TEAM] User ${actor.id} made user ${userId} of company ${companyId} ${role}`);
+    return (await this.listMembers(companyId)).find(other => other.id === userId)!;
+  }
+
+  /**
+   * Remove a member from the company. Their surveys move to transferToId, or
+   * to the acting user when they belong to the company, or else to an owner;
+   * they stop being a required reviewer and their account is deactivated.
+   */
+  async removeMember(
+    companyId: number,
+    userId: number,
+    transferToId: number | null,
+    actor: TeamActor
+  ): Promise<{ removedUserId: number; transferredTo: number; surveysTransferred: number }> {
+    if (userId === actor.id) {
+      throw new AppError('You cannot remove yourself from the team', 400, undefined, ErrorCodes.OPERATION_NOT_ALLOWED);
+    }
+    const member = await this.loadMember(companyId, userId);
+    if (isOwnerRole(member.role) && !actor.canManageOwners) {
+      throw new AppError('Only company owners can remove an owner', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+
+    const result = await db.transaction(async (tx: any) => {
+      await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, companyId)).for('update');
+      if (isOwnerRole(member.role)) {
+        await this.assertAnotherOwner(tx, companyId, userId);
+      }
+
+      const recipient = await this.surveyRecipient(tx, companyId, userId, transferToId, actor.id);
+      const transferred = await tx.update(surveys)
+        .set({ createdById: recipient, updatedAt: new Date() })
+        .where(and(eq(surveys.companyId, companyId), eq(surveys.createdById, userId)))
+        .returning({ id: surveys.id });
+
+      const [workflow] = await tx.select({ reviewerIds: approvalWorkflows.reviewerIds })
+        .from(approvalWorkflows)
+        .where(eq(approvalWorkflows.companyId, companyId));
+      if (workflow?.reviewerIds?.includes(userId)) {
+        await tx.update(approvalWorkflows)
+          .set({ reviewerIds: workflow.reviewerIds.filter((id: number) => id !== userId), updatedAt: new Date() })
+          .where(eq(approvalWorkflows.companyId, companyId));
+      }
+
+      await tx.update(users)
+        .set({ companyId: null, isActive: false, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      await this.audit(tx, actor, companyId, 'team_member_removed', 'user', userId, {
+        username: member.username,
+        role: member.role,
+        surveysTransferredTo: recipient,
+        surveyIds: transferred.map((survey: { id: number }) => survey.id)
+      });
+      return { removedUserId: userId, transferredTo: recipient, surveysTransferred: transferred.length };
+    });
+
+    logger.info(`[TEAM] User ${actor.id} removed user ${userId} from company ${companyId}; ${result.surveysTransferred} surveys moved to user ${result.transferredTo}`);
+    return result;
+  }
+
+  private async surveyRecipient(tx: any, companyId: number, removedId: number, transferToId: number | null, actorId: number): Promise<number> {
+    if (transferToId !== null) {
+      if (transferToId === removedId) {
+        throw new AppError('Surveys must move to another member', 400, { transferTo: ['Choose another member'] }, ErrorCodes.VALIDATION_ERROR);
+      }
+      const [recipient] = await tx.select({ id: users.id }).from(users)
+        .where(and(eq(users.id, transferToId), activeMember(companyId)));
+      if (!recipient) {
+        throw new AppError('Surveys can only move to a member of the team', 400, { transferTo: ['Not a team member'] }, ErrorCodes.VALIDATION_ERROR);
+      }
+      return recipient.id;
+    }
+
+    const [actor] = await tx.select({ id: users.id }).from(users)
+      .where(and(eq(users.id, actorId), activeMember(companyId)));
+    if (actor) return actor.id;
+
+    // Platform admins outside the company hand the surveys to an owner
+    const [owner] = await tx.select({ id: users.id }).from(users)
+      .where(and(activeMember(companyId), eq(users.role, TEAM_ROLES.owner), sql`${users.id} <> ${removedId}`))
+      .orderBy(asc(users.id))
+      .limit(1);
+    if (!owner) {
+      throw new AppError('Choose the member who takes over the surveys', 400, { transferTo: ['Required'] }, ErrorCodes.VALIDATION_ERROR);
+    }
+    return owner.id;
+  }
+
+  // A company always keeps an owner
+  private async assertAnotherOwner(tx: any, companyId: number, userId: number): Promise<void> {
+    const [owners] = await tx.select({ total: sql<number>`count(*)::int` }).from(users)
+      .where(and(activeMember(companyId), eq(users.role, TEAM_ROLES.owner), sql`${users.id} <> ${userId}`));
+    if (owners.total === 0) {
+      throw new AppError('Make another member an owner first; a team needs at least one owner', 409, undefined, ErrorCodes.BUSINESS_RULE_VIOLATION);
+    }
+  }
+
+  private async loadCompany(companyId: number): Promise<{ id: number; name: string }> {
+    const company = await db.query.companies.findFirst({ where: eq(companies.id, companyId), columns: { id: true, name: true } });
+    if (!company) {
+      throw new AppError('Company not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return company;
+  }
+
+  private async loadMember(companyId: number, userId: number): Promise<{ id: number; username: string; role: string }> {
+    const [member] = await db.select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(and(eq(users.id, userId), activeMember(companyId)));
+    if (!member) {
+      throw new AppError('Team member not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return member;
+  }
+
+  private async loadInvitation(token: string) {
+    const invitation = token
+      ? await db.query.userInvitations.findFirst({ where: eq(userInvitations.token, token) })
+      : undefined;
+    if (!invitation) {
+      throw new AppError('Invitation not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return invitation;
+  }
+
+  private assertPending(invitation: { status: string; expiresAt: Date }): void {
+    const status = invitationStatus(invitation);
+    if (status !== 'pending') {
+      throw new AppError(
+        status === 'accepted' ? 'This invitation has already been used' : `This invitation has ${status === 'revoked' ? 'been revoked' : 'expired'}`,
+        410,
+        undefined,
+        ErrorCodes.TOKEN_EXPIRED
+      );
+    }
+  }
+
+  private summarizeInvitation(row: any): TeamInvitation {
+    return {
+      id: row.id,
+      email: row.email,
+      role: teamRoleOf(row.role),
+      status: invitationStatus(row),
+      invitedBy: row.invitedBy,
+      inviterName: row.inviterName ?? null,
+      expiresAt: row.expiresAt.toISOString(),
+      acceptedAt: toIso(row.acceptedAt),
+      createdAt: row.createdAt.toISOString()
+    };
+  }
+
+  private async audit(
+    tx: any,
+    actor: TeamActor,
+    companyId: number,
+    action: string,
+    entityType: string,
+    entityId: number,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await tx.insert(auditLogs).values({
+      userId: actor.id,
+      companyId,
+      action,
+      entityType,
+      entityId: String(entityId),
+      details,
+      ipAddress: actor.ipAddress
+    });
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown, message: string): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'team';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError(message, 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+}
+
+// Export singleton instance
+export const teamService = new TeamService();
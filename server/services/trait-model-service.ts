@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { surveys, templates } from '../../shared/schema';
+import { TraitModel, traitModelSchema, resolveTraitModel, DEFAULT_TRAIT_MODEL } from '../../shared/traitModel';
+import { eq } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('TraitModelService');
+
+/**
+ * TraitModelService - Loads and stores the trait models that decide which
+ * traits a survey (or the template it was created from) scores.
+ */
+export class TraitModelService {
+  /**
+   * Validate a submitted trait model, throwing a 400 AppError when invalid
+   */
+  validate(input: unknown): TraitModel {
+    const result = traitModelSchema.safeParse(input);
+    if (!result.success) {
+      const errors: Record<string, string[]> = {};
+      for (const issue of result.error.errors) {
+        const field = issue.path.length > 0 ? `traitModel.${issue.path.join('.')}` : 'traitModel';
+        (errors[field] ||= []).push(issue.message);
+      }
+      throw new AppError('Invalid trait model', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return result.data;
+  }
+
+  /**
+   * Trait model for a survey, falling back to the default model
+   */
+  async getSurveyTraitModel(surveyId: number): Promise<TraitModel> {
+    const survey = await db.query.surveys.findFirst({
+      where: eq(surveys.id, surveyId),
+      columns: { traitModel: true }
+    });
+    return resolveTraitModel(survey?.traitModel);
+  }
+
+  async updateSurveyTraitModel(surveyId: number, input: unknown): Promise<TraitModel> {
+    const traitModel = this.validate(input);
+
+    try {
+      await db
+        .update(surveys)
+        .set({ traitModel, updatedAt: new Date() })
+        .where(eq(surveys.id, surveyId));
+
+      logger.info(`[UPDATE_TRAIT_MODEL] Survey ${surveyId} now scores ${traitModel.length} traits`);
+      return traitModel;
+    } catch (error) {
+      logger.error('[UPDATE_TRAIT_MODEL] Error updating survey trait model:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Trait model declared by a template, or the default model when it has none
+   */
+  async getTemplateTraitModel(templateId: number): Promise<TraitModel> {
+    const template = await db.query.templates.findFirst({
+      where: eq(templates.id, templateId),
+      columns: { traits: true }
+    });
+    return template ? resolveTraitModel(template.traits) : DEFAULT_TRAIT_MODEL;
+  }
+}
+
+// Export singleton instance
+export const traitModelService = new TraitModelService();
@@ -0,0 +1,194 @@
+import { db } from '../db';
+import { surveys } from '../../shared/schema';
+import { eq } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { approvalService } from './approval-service';
+import { surveyTranslationService } from './survey-translation-service';
+import { createTranslationProvider, TranslationProvider } from './translation-providers';
+import {
+  MAX_TRANSLATION_LENGTH,
+  PendingTranslation,
+  QuestionTranslation,
+  SurveyContentTranslation,
+  SurveyTranslationsState,
+  getSurveyLanguage,
+  pendingTranslations,
+  translationProgress,
+  withTranslatedText
+} from '../../shared/surveyTranslations';
+
+const logger = new Logger('TranslationPipelineService');
+
+// Texts sent to the provider per request, to keep prompts and responses small
+const DRAFT_BATCH_SIZE = 40;
+
+const languageName = (code: string) => getSurveyLanguage(code)?.name ?? code;
+
+// Provider keys for pending texts; opaque to the provider
+const pendingKey = (pending: PendingTranslation) =>
+  pending.questionId === null ? `survey.${pending.text.key}` : `q${pending.questionId}.${pending.text.key}`;
+
+/**
+ * TranslationPipelineService - Keeps a survey's translations moving: drafts
+ * missing (and optionally outdated) texts through the configured machine
+ * translation provider for review, and publishes a language to respondents
+ * once enough of it is translated and reviewed.
+ */
+export class TranslationPipelineService {
+  private provider: TranslationProvider | null = null;
+
+  getProvider(): TranslationProvider {
+    if (!this.provider) {
+      this.provider = createTranslationProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider, e.g. with the offline stub in tests
+   */
+  setProvider(provider: TranslationProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Machine-translate the texts of a language that have no translation yet,
+   * plus those whose source changed when includeStale is set. Results are
+   * saved as drafts, which do not count towards completeness until reviewed.
+   */
+  async draftTranslations(
+    surveyId: number,
+    language: string,
+    options: { includeStale?: boolean } = {}
+  ): Promise<{ state: SurveyTranslationsState; drafted: number }> {
+    const state = await surveyTranslationService.getTranslations(surveyId);
+    this.assertLanguage(state, language);
+
+    const pending = pendingTranslations(state, language, options);
+    if (pending.length === 0) {
+      return { state, drafted: 0 };
+    }
+
+    const provider = this.getProvider();
+    const translated: Record<string, string> = {};
+    for (let start = 0; start < pending.length; start += DRAFT_BATCH_SIZE) {
+      const batch = pending.slice(start, start + DRAFT_BATCH_SIZE);
+      try {
+        Object.assign(translated, await provider.translate({
+          sourceLanguage: state.sourceLanguage,
+          targetLanguage: language,
+          texts: batch.map(entry => ({ key: pendingKey(entry), text: entry.text.source })),
+          context: state.survey.texts.find(text => text.key === 'title')?.source
+        }));
+      } catch (error) {
+        logger.error(`[TRANSLATION] ${provider.name} failed to draft ${language} for survey ${surveyId}:`, error);
+        throw new AppError(
+          `Machine translation into ${languageName(language)} failed; please try again later`,
+          502,
+          undefined,
+          ErrorCodes.EXTERNAL_SERVICE_ERROR
+        );
+      }
+    }
+
+    let surveyTranslation: SurveyContentTranslation | undefined = state.survey.translations[language];
+    const questionTranslations = new Map<number, QuestionTranslation | undefined>();
+    let drafted = 0;
+    for (const entry of pending) {
+      const value = translated[pendingKey(entry)]?.trim().slice(0, MAX_TRANSLATION_LENGTH);
+      if (!value) continue;
+      if (entry.questionId === null) {
+        surveyTranslation = withTranslatedText(surveyTranslation, entry.text, value, { draft: true });
+      } else {
+        const current = questionTranslations.has(entry.questionId)
+          ? questionTranslations.get(entry.questionId)
+          : state.questions.find(question => question.id === entry.questionId)?.translations[language];
+        questionTranslations.set(entry.questionId, withTranslatedText(current, entry.text, value, { draft: true }));
+      }
+      drafted++;
+    }
+
+    if (drafted === 0) {
+      return { state, drafted };
+    }
+
+    const saved = await surveyTranslationService.updateTranslations(surveyId, {
+      languages: state.languages,
+      survey: surveyTranslation ? { [language]: surveyTranslation } : {},
+      questions: Array.from(questionTranslations, ([id, translation]) => ({ id, translations: { [language]: translation } }))
+    });
+
+    logger.info(`[TRANSLATION] Drafted ${drafted} ${language} texts for survey ${surveyId} with ${provider.name}`);
+    return { state: saved, drafted };
+  }
+
+  /**
+   * Offer a language to respondents. Refused while fewer texts than the
+   * platform's publish threshold have a reviewed, up-to-date translation.
+   */
+  async publishLanguage(surveyId: number, language: string): Promise<SurveyTranslationsState> {
+    const state = await surveyTranslationService.getTranslations(surveyId);
+    this.assertLanguage(state, language);
+
+    const progress = translationProgress(state, language);
+    if (progress.percentage < state.publishThreshold) {
+      const details: string[] = [];
+      if (progress.missing > 0) details.push(`${progress.missing} not translated`);
+      if (progress.stale > 0) details.push(`${progress.stale} outdated`);
+      if (progress.drafts > 0) details.push(`${progress.drafts} drafts awaiting review`);
+      throw new AppError(
+        `${languageName(language)} is ${progress.percentage}% translated; at least ${state.publishThreshold}% is required to publish`,
+        409,
+        { [language]: details },
+        ErrorCodes.BUSINESS_RULE_VIOLATION
+      );
+    }
+
+    if (state.published.includes(language)) {
+      return state;
+    }
+    return this.savePublished(state, [...state.published, language]);
+  }
+
+  /**
+   * Stop offering a language to respondents; its translations are kept
+   */
+  async unpublishLanguage(surveyId: number, language: string): Promise<SurveyTranslationsState> {
+    const state = await surveyTranslationService.getTranslations(surveyId);
+    this.assertLanguage(state, language);
+
+    if (!state.published.includes(language)) {
+      return state;
+    }
+    return this.savePublished(state, state.published.filter(code => code !== language));
+  }
+
+  private async savePublished(state: SurveyTranslationsState, published: string[]): Promise<SurveyTranslationsState> {
+    await db.transaction(async (tx: any) => {
+      await tx.update(surveys)
+        .set({ publishedLanguages: published, updatedAt: new Date() })
+        .where(eq(surveys.id, state.surveyId));
+      // The languages respondents see are part of the approved content
+      await approvalService.assertLiveContentApproved(tx, state.surveyId);
+    });
+
+    logger.info(`[TRANSLATION] Survey ${state.surveyId} published languages: ${published.join(', ') || 'none'}`);
+    return { ...state, published };
+  }
+
+  private assertLanguage(state: SurveyTranslationsState, language: string): void {
+    if (!state.languages.includes(language)) {
+      throw new AppError(
+        `${languageName(language)} is not one of this survey's translation languages`,
+        400,
+        { language: [`Add ${languageName(language)} to the survey's languages first`] },
+        ErrorCodes.VALIDATION_ERROR
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const translationPipelineService = new TranslationPipelineService();
@@ -0,0 +1,85 @@
+import GeminiAIService from './gemini-ai-service';
+import { getSurveyLanguage } from '../../shared/surveyTranslations';
+import { Logger } from '../utils/Logger';
+
+const logger = new Logger('TranslationProviders');
+
+/**
+ * Translation Providers
+ *
+ * The translation pipeline drafts missing survey translations through a provider:
+ * - gemini: translates with Gemini through the AI service (needs GEMINI_API_KEY)
+ * - stub:   offline; prefixes each text with the target language code, for
+ *           development and tests
+ *
+ * TRANSLATION_PROVIDER selects one explicitly; otherwise Gemini is used when
+ * GEMINI_API_KEY is configured and the stub everywhere else.
+ */
+
+export interface TranslationRequest {
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Keys are opaque to the provider and come back unchanged
+  texts: Array<{ key: string; text: string }>;
+  // Survey title, to help with terminology
+  context?: string;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  // Translations by key; keys the provider could not translate are left out
+  translate(request: TranslationRequest): Promise<Record<string, string>>;
+}
+
+const languageName = (code: string) => getSurveyLanguage(code)?.name ?? code;
+
+/**
+ * Gemini provider backed by the AI service
+ */
+export class GeminiTranslationProvider implements TranslationProvider {
+  readonly name = 'gemini';
+  private gemini: GeminiAIService | null = null;
+
+  async translate(request: TranslationRequest): Promise<Record<string, string>> {
+    this.gemini ??= new GeminiAIService();
+    return this.gemini.translateTexts(
+      request.texts,
+      languageName(request.sourceLanguage),
+      languageName(request.targetLanguage),
+      request.context
+    );
+  }
+}
+
+/**
+ * Offline provider: "[de] Original text", so drafted texts are easy to spot
+ */
+export class StubTranslationProvider implements TranslationProvider {
+  readonly name = 'stub';
+
+  async translate(request: TranslationRequest): Promise<Record<string, string>> {
+    return Object.fromEntries(request.texts.map(({ key, text }) => [key, `[${request.targetLanguage}] ${text}`]));
+  }
+}
+
+/**
+ * Build the provider selected by the environment
+ */
+export function createTranslationProvider(): TranslationProvider {
+  const selected = process.env.TRANSLATION_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'stub');
+
+  if (selected === 'gemini') {
+    if (!process.env.GEMINI_API_KEY) {
+      logger.warn('[TRANSLATION] TRANSLATION_PROVIDER=gemini but GEMINI_API_KEY is not set; falling back to the stub');
+      return new StubTranslationProvider();
+    }
+    logger.info('[TRANSLATION] Using Gemini translation provider');
+    return new GeminiTranslationProvider();
+  }
+
+  if (selected !== 'stub') {
+    logger.warn(`[TRANSLATION] Unknown TRANSLATION_PROVIDER "${selected}"; using the stub`);
+  }
+  logger.info('[TRANSLATION] Using offline stub translation provider');
+  return new StubTranslationProvider();
+}
@@ -0,0 +1,443 @@
+import * as bcrypt from 'bcrypt';
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  auditLogs,
+  mfaRecoveryCodes,
+  mfaTrustedDevices,
+  systemSettings,
+  users,
+  User
+} from '../../shared/schema';
+import { and, desc, eq, gt, isNull, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { decryptCredential, encryptCredential } from '../utils/credentialCrypto';
+import {
+  buildOtpauthUrl,
+  generateDeviceToken,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashDeviceToken,
+  hashRecoveryCode,
+  verifyTotp
+} from '../utils/totp';
+import {
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
+  TwoFactorStatus,
+  isTotpCode,
+  isTwoFactorRequired,
+  resolveTwoFactorPolicy,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  twoFactorLockoutMinutes
+} from '../../shared/twoFactor';
+
+const logger = new Logger('TwoFactorService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TwoFactorActor {
+  id: number;
+  companyId: number | null;
+  ipAddress: string | null;
+}
+
+export interface DeviceDetails {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// How the second step was passed, for the login activity log
+export interface SecondFactorResult {
+  method: 'totp' | 'recovery_code';
+  recoveryCodesRemaining: number;
+}
+
+type TwoFactorUser = Pick<User, 'id' | 'role' | 'mfaEnabled'>;
+
+const invalidCode = () =>
+  new AppError('The code is not valid. Check your authenticator app and try again.', 401, undefined, ErrorCodes.INVALID_CREDENTIALS);
+
+const lockedOut = (lockedUntil: Date, now: Date) => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return new AppError(
+    `Too many invalid codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    429,
+    undefined,
+    ErrorCodes.RATE_LIMITED
+  );
+};
+
+// Counters reset by an accepted code
+const NO_FAILED_ATTEMPTS = { mfaFailedAttempts: 0, mfaLockedUntil: null };
+
+/**
+ * TwoFactorService - TOTP enrollment, recovery codes and remembered devices
+ * for the second login step. The policy in systemSettings.security decides
+ * who has to use it. Secrets are stored encrypted; recovery codes and device
+ * tokens only as hashes. Invalid codes are counted on the user and lock the
+ * checks for a while. All expiry decisions use the injected clock.
+ */
+export class TwoFactorService {
+  constructor(private clock: () => Date = () => new Date()) {}
+
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    const [settings] = await db.select({ security: systemSettings.security })
+      .from(systemSettings)
+      .orderBy(desc(systemSettings.id))
+      .limit(1);
+    return resolveTwoFactorPolicy(settings?.security);
+  }
+
+  async isRequired(user: Pick<User, 'role'>, policy?: TwoFactorPolicy): Promise<boolean> {
+    return isTwoFactorRequired(policy ?? await this.getPolicy(), user.role);
+  }
+
+  /**
+   * Whether a login that passed the password check needs a second step, and
+   * whether the user first has to set up an authenticator. A remembered
+   * device skips the step for users who already use two-factor.
+   */
+  async loginRequirement(user: TwoFactorUser, deviceToken?: string | null): Promise<{ required: boolean; enrollmentRequired: boolean }> {
+    if (user.mfaEnabled) {
+      const trusted = deviceToken ? await this.useTrustedDevice(user.id, deviceToken) : false;
+      return { required: !trusted, enrollmentRequired: false };
+    }
+    const required = await this.isRequired(user);
+    return { required, enrollmentRequired: required };
+  }
+
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.loadUser(userId);
+    const policy = await this.getPolicy();
+    const now = this.clock();
+    const [[codes], devices] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(mfaRecoveryCodes)
+        .where(and(eq(mfaRecoveryCodes.userId, user.id), isNull(mfaRecoveryCodes.usedAt))),
+      db.select()
+        .from(mfaTrustedDevices)
+        .where(and(eq(mfaTrustedDevices.userId, user.id), gt(mfaTrustedDevices.expiresAt, now)))
+        .orderBy(desc(mfaTrustedDevices.createdAt))
+    ]);
+    return {
+      enabled: !!user.mfaEnabled,
+      enrolledAt: user.mfaEnrolledAt ? user.mfaEnrolledAt.toISOString() : null,
+      required: isTwoFactorRequired(policy, user.role),
+      enrollmentPending: !user.mfaEnabled && !!user.mfaPendingSecret,
+      recoveryCodesRemaining: user.mfaEnabled ? codes.total : 0,
+      trustedDeviceDays: policy.trustedDeviceDays,
+      trustedDevices: devices.map((device: typeof mfaTrustedDevices.$inferSelect) => ({
+        id: device.id,
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        createdAt: device.createdAt.toISOString(),
+        lastUsedAt: device.lastUsedAt ? device.lastUsedAt.toISOString() : null,
+        expiresAt: device.expiresAt.toISOString()
+      }))
+    };
+  }
+
+  /**
+   * Start setting up an authenticator: a new secret is kept aside until the
+   * user confirms it with a code, so an abandoned enrollment changes nothing
+   */
+  async beginEnrollment(userId: number): Promise<TwoFactorEnrollment> {
+    const user = await this.loadUser(userId);
+    if (user.mfaEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409, undefined, ErrorCodes.CONFLICT);
+    }
+    const secret = generateTotpSecret();
+    await db.update(users)
+      .set({ mfaPendingSecret: encryptCredential(secret), updatedAt: this.clock() })
+      .where(eq(users.id, user.id));
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email);
+    logger.info(`[2FA] User ${user.id} started enrollment`);
+    return { secret, otpauthUrl, qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl) };
+  }
+
+  // Confirm the pending secret with a code from the app; returns the new recovery codes
+  async confirmEnrollment(userId: number, input: unknown, actor: TwoFactorActor): Promise<string[]> {
+    const { code } = this.parse(twoFactorCodeSchema, input);
+    const now = this.clock();
+
+    const recoveryCodes = await db.transaction(async (tx: any) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!user) {
+        throw new AppError('User not found', 404, undefined, ErrorCodes.NOT_FOUND);
+      }
+      if (user.mfaEnabled) {
+        throw new AppError('Two-factor authentication is already enabled', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      this.assertNotLockedOut(user, now);
+      const secret = decryptCredential(user.mfaPendingSecret);
+      if (!secret) {
+        throw new AppError('Start the setup again to get a new QR code', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      const step = verifyTotp(secret, code, now);
+      if (step === null) {
+        return this.recordFailure(tx, user, now);
+      }
+
+      await tx.update(users)
+        .set({
+          mfaEnabled: true,
+          mfaSecret: encryptCredential(secret),
+          mfaPendingSecret: null,
+          mfaEnrolledAt: now,
+          mfaLastUsedStep: step,
+          ...NO_FAILED_ATTEMPTS,
+          updatedAt: now
+        })
+        .where(eq(users.id, userId));
+      const codes = await this.replaceRecoveryCodes(tx, userId);
+      await this.audit(tx, actor, 'two_factor_enabled', userId, {});
+
+      logger.info(`[2FA] User ${userId} enabled two-factor authentication`);
+      return codes;
+    });
+    // The failed attempt is committed before the code is refused
+    if (!recoveryCodes) {
+      throw invalidCode();
+    }
+    return recoveryCodes;
+  }
+
+  /**
+   * Check the second login step: an authenticator code, or a recovery code
+   * which is then used up. Throws a 401 when neither matches, and a 429 while
+   * too many invalid codes in a row keep the user locked out.
+   */
+  async verifySecondFactor(userId: number, input: unknown, actor: TwoFactorActor): Promise<SecondFactorResult> {
+    const { code } = this.parse(twoFactorCodeSchema, input);
+    const now = this.clock();
+
+    const result = await db.transaction(async (tx: any): Promise<SecondFactorResult | null> => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!user || !user.mfaEnabled) {
+        throw new AppError('Two-factor authentication is not enabled', 409, undefined, ErrorCodes.CONFLICT);
+      }
+      this.assertNotLockedOut(user, now);
+
+      if (isTotpCode(code)) {
+        const step = verifyTotp(decryptCredential(user.mfaSecret) ?? '', code, now, user.mfaLastUsedStep ?? null);
+        if (step === null) {
+          return this.recordFailure(tx, user, now);
+        }
+        await tx.update(users).set({ mfaLastUsedStep: step, ...NO_FAILED_ATTEMPTS }).where(eq(users.id, userId));
+        return { method: 'totp' as const, recoveryCodesRemaining: await this.countRecoveryCodes(tx, userId) };
+      }
+
+      const [recovery] = await tx.update(mfaRecoveryCodes)
+        .set({ usedAt: now })
+        .where(and(
+          eq(mfaRecoveryCodes.userId, userId),
+          eq(mfaRecoveryCodes.codeHash, hashRecoveryCode(code)),
+          isNull(mfaRecoveryCodes.usedAt)
+        ))
+        .returning({ id: mfaRecoveryCodes.id });
+      if (!recovery) {
+        return this.recordFailure(tx, user, now);
+      }
+      await tx.update(users).set(NO_FAILED_ATTEMPTS).where(eq(users.id, userId));
+      const remaining = await this.countRecoveryCodes(tx, userId);
+      await this.audit(tx, actor, 'two_factor_recovery_code_used', userId, { recoveryCodesRemaining: remaining });
+      logger.info(`[2FA] User ${userId} signed in with a recovery code (${remaining} left)`);
+      return { method: 'recovery_code' as const, recoveryCodesRemaining: remaining };
+    });
+    // The failed attempt is committed before the code is refused
+    if (!result) {
+      throw invalidCode();
+    }
+    return result;
+  }
+
+  // New recovery codes replace all old ones; needs a current authenticator code
+  async regenerateRecoveryCodes(userId: number, input: unknown, actor: TwoFactorActor): Promise<string[]> {
+    const { code } = this.parse(twoFactorCodeSchema, input);
+    if (!isTotpCode(code)) {
+      throw new AppError('Enter a code from your authenticator app', 400, { code: ['Enter a code from your authenticator app'] }, ErrorCodes.VALIDATION_ERROR);
+    }
+    await this.verifySecondFactor(userId, { code }, actor);
+
+    return db.transaction(async (tx: any) => {
+      const recoveryCodes = await this.replaceRecoveryCodes(tx, userId);
+      await this.audit(tx, actor, 'two_factor_recovery_codes_regenerated', userId, {});
+      return recoveryCodes;
+    });
+  }
+
+  // Users turn it off with their password and a code, unless the policy requires it for them
+  async disable(userId: number, input: unknown, actor: TwoFactorActor): Promise<void> {
+    const { password, code } = this.parse(twoFactorDisableSchema, input);
+    const user = await this.loadUser(userId);
+    if (await this.isRequired(user)) {
+      throw new AppError('Two-factor authentication is required for your account', 403, undefined, ErrorCodes.FORBIDDEN);
+    }
+    const passwordMatches = user.password.startsWith('$2')
+      ? await bcrypt.compare(password, user.password)
+      : password === user.password;
+    if (!passwordMatches) {
+      throw new AppError('The password is not correct', 401, { password: ['The password is not correct'] }, ErrorCodes.INVALID_CREDENTIALS);
+    }
+    await this.verifySecondFactor(user.id, { code }, actor);
+    await this.clear(user.id, actor, 'two_factor_disabled');
+  }
+
+  // Platform admins reset a user who lost their authenticator and recovery codes
+  async reset(userId: number, actor: TwoFactorActor): Promise<void> {
+    await this.loadUser(userId);
+    await this.clear(userId, actor, 'two_factor_reset');
+  }
+
+  /**
+   * Remember the device the user signed in from; returns the token for the
+   * cookie, or null when the policy does not allow remembered devices
+   */
+  async trustDevice(userId: number, device: DeviceDetails): Promise<{ token: string; expiresAt: Date } | null> {
+    const { trustedDeviceDays } = await this.getPolicy();
+    if (trustedDeviceDays <= 0) {
+      return null;
+    }
+    const token = generateDeviceToken();
+    const now = this.clock();
+    const expiresAt = new Date(now.getTime() + trustedDeviceDays * DAY_MS);
+    await db.insert(mfaTrustedDevices).values({
+      userId,
+      tokenHash: hashDeviceToken(token),
+      userAgent: device.userAgent?.slice(0, 500) ?? null,
+      ipAddress: device.ipAddress,
+      expiresAt,
+      lastUsedAt: now
+    });
+    return { token, expiresAt };
+  }
+
+  async revokeDevice(userId: number, deviceId: number): Promise<void> {
+    const [removed] = await db.delete(mfaTrustedDevices)
+      .where(and(eq(mfaTrustedDevices.id, deviceId), eq(mfaTrustedDevices.userId, userId)))
+      .returning({ id: mfaTrustedDevices.id });
+    if (!removed) {
+      throw new AppError('Device not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+  }
+
+  async revokeAllDevices(userId: number): Promise<number> {
+    const removed = await db.delete(mfaTrustedDevices)
+      .where(eq(mfaTrustedDevices.userId, userId))
+      .returning({ id: mfaTrustedDevices.id });
+    return removed.length;
+  }
+
+  // A remembered device counts until it expires; each use is recorded
+  private async useTrustedDevice(userId: number, token: string): Promise<boolean> {
+    const now = this.clock();
+    const [device] = await db.update(mfaTrustedDevices)
+      .set({ lastUsedAt: now })
+      .where(and(
+        eq(mfaTrustedDevices.userId, userId),
+        eq(mfaTrustedDevices.tokenHash, hashDeviceToken(token)),
+        gt(mfaTrustedDevices.expiresAt, now)
+      ))
+      .returning({ id: mfaTrustedDevices.id });
+    return !!device;
+  }
+
+  private async loadUser(userId: number): Promise<User> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new AppError('User not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return user;
+  }
+
+  private async clear(userId: number, actor: TwoFactorActor, action: string): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      await tx.update(users)
+        .set({
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaPendingSecret: null,
+          mfaEnrolledAt: null,
+          mfaLastUsedStep: null,
+          ...NO_FAILED_ATTEMPTS,
+          updatedAt: this.clock()
+        })
+        .where(eq(users.id, userId));
+      await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+      await tx.delete(mfaTrustedDevices).where(eq(mfaTrustedDevices.userId, userId));
+      await this.audit(tx, actor, action, userId, {});
+    });
+    logger.info(`[2FA] ${action} for user ${userId} by user ${actor.id}`);
+  }
+
+  private assertNotLockedOut(user: User, now: Date): void {
+    if (user.mfaLockedUntil && user.mfaLockedUntil.getTime() > now.getTime()) {
+      throw lockedOut(user.mfaLockedUntil, now);
+    }
+  }
+
+  // Count an invalid code against the user and lock their checks once there are too many in a row
+  private async recordFailure(tx: any, user: User, now: Date): Promise<null> {
+    const failedAttempts = (user.mfaFailedAttempts ?? 0) + 1;
+    const lockoutMinutes = twoFactorLockoutMinutes(failedAttempts);
+    await tx.update(users)
+      .set({
+        mfaFailedAttempts: failedAttempts,
+        mfaLockedUntil: lockoutMinutes > 0 ? new Date(now.getTime() + lockoutMinutes * 60 * 1000) : null
+      })
+      .where(eq(users.id, user.id));
+
+    if (lockoutMinutes > 0) {
+      logger.warn(`[2FA] User ${user.id} locked out for ${lockoutMinutes} minute(s) after ${failedAttempts} invalid codes`);
+    }
+    return null;
+  }
+
+  private async replaceRecoveryCodes(tx: any, userId: number): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+    await tx.insert(mfaRecoveryCodes).values(codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })));
+    return codes;
+  }
+
+  private async countRecoveryCodes(tx: any, userId: number): Promise<number> {
+    const [{ total }] = await tx.select({ total: sql<number>`count(*)::int` })
+      .from(mfaRecoveryCodes)
+      .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+    return total;
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'twoFactor';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid two-factor request', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async audit(tx: any, actor: TwoFactorActor, action: string, userId: number, details: Record<string, unknown>) {
+    await tx.insert(auditLogs).values({
+      userId: actor.id,
+      companyId: actor.companyId,
+      action,
+      entityType: 'user',
+      entityId: String(userId),
+      details,
+      ipAddress: actor.ipAddress
+    });
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
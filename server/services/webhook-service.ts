@@ -0,0 +1,511 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  webhookSubscriptions,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryAttempt
+} from '../../shared/schema';
+import { and, desc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { AppError } from '../middleware/errorHandler';
+import { ErrorCodes } from '../utils/apiResponses';
+import { Logger } from '../utils/Logger';
+import { signPayload, SignatureConfig } from '../utils/apiSignature';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_HEADERS,
+  WEBHOOK_PING_EVENT,
+  WebhookDeliveryDetail,
+  WebhookDeliveryStatus,
+  WebhookDeliverySummary,
+  WebhookEnvelope,
+  WebhookEvent,
+  WebhookSubscriptionSummary,
+  createWebhookSubscriptionSchema,
+  isBlockedWebhookHost,
+  isPrivateAddress,
+  updateWebhookSubscriptionSchema,
+  webhookRetryDelay
+} from '../../shared/webhooks';
+
+const logger = new Logger('WebhookService');
+
+// Receivers must answer within this time or the attempt counts as failed
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Response bodies are kept in the attempt log up to this length
+const MAX_LOGGED_BODY_LENGTH = 1000;
+
+// A fresh delivery is attempted straight away; the retry job leaves it alone until then
+const PENDING_GRACE_MS = 60 * 1000;
+
+const MAX_SUBSCRIPTIONS_PER_COMPANY = 20;
+
+/**
+ * Sign a webhook body with the subscription secret. Receivers recompute the
+ * HMAC-SHA256 of `${body}.${timestamp}` and compare it with the signature header.
+ */
+export function signWebhookBody(body: string, secret: string): Record<string, string> {
+  const config: SignatureConfig = {
+    headerName: WEBHOOK_HEADERS.signature,
+    timestampHeaderName: WEBHOOK_HEADERS.timestamp,
+    expirationTimeMs: 5 * 60 * 1000,
+    secretKey: secret
+  };
+  return signPayload(body, config);
+}
+
+export function buildWebhookEnvelope(
+  event: WebhookEnvelope['event'],
+  companyId: number,
+  data: Record<string, unknown>
+): WebhookEnvelope {
+  return {
+    id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+    event,
+    companyId,
+    createdAt: new Date().toISOString(),
+    data
+  };
+}
+
+export type HostLookup = (hostname: string) => Promise<Array<{ address: string }>>;
+
+const lookupAll: HostLookup = hostname => dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Resolve the host of a webhook URL and return why it may not be called, or
+ * null when every address it resolves to is public. Checked when a URL is
+ * saved and again before each request, since DNS answers can change.
+ */
+export async function checkWebhookDestination(url: string, lookup: HostLookup = lookupAll): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return 'The webhook URL is not valid';
+  }
+  if (isBlockedWebhookHost(hostname)) {
+    return 'Webhook URLs must point to a public address';
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(hostname.replace(/^\[|\]$/g, ''));
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.length === 0) {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `${hostname} resolves to a private, loopback or link-local address`;
+  }
+  return null;
+}
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null);
+
+/**
+ * WebhookService - Company webhook subscriptions for tracked lifecycle
+ * events. Every event is queued as a delivery, signed with the subscription
+ * secret and POSTed to its URL; failures are retried with exponential backoff
+ * and each HTTP attempt is kept in the delivery log.
+ */
+export class WebhookService {
+  async listSubscriptions(companyId: number): Promise<WebhookSubscriptionSummary[]> {
+    const rows: WebhookSubscription[] = await db.select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.companyId, companyId))
+      .orderBy(desc(webhookSubscriptions.createdAt));
+
+    const lastDeliveries = new Map<number, { status: WebhookDeliveryStatus; createdAt: string }>();
+    if (rows.length > 0) {
+      const latest = await db.selectDistinctOn([webhookDeliveries.subscriptionId], {
+        subscriptionId: webhookDeliveries.subscriptionId,
+        status: webhookDeliveries.status,
+        createdAt: webhookDeliveries.createdAt
+      })
+        .from(webhookDeliveries)
+        .where(inArray(webhookDeliveries.subscriptionId, rows.map(row => row.id)))
+        .orderBy(webhookDeliveries.subscriptionId, desc(webhookDeliveries.createdAt));
+      latest.forEach((row: { subscriptionId: number; status: string; createdAt: Date }) => {
+        lastDeliveries.set(row.subscriptionId, { status: row.status as WebhookDeliveryStatus, createdAt: row.createdAt.toISOString() });
+      });
+    }
+
+    return rows.map(row => this.summarizeSubscription(row, lastDeliveries.get(row.id) ?? null));
+  }
+
+  /**
+   * Create a subscription; the generated secret is returned only here and on rotation
+   */
+  async createSubscription(
+    companyId: number,
+    input: unknown,
+    userId: number | null
+  ): Promise<{ subscription: WebhookSubscriptionSummary; secret: string }> {
+    const data = this.parse(createWebhookSubscriptionSchema, input);
+    await this.assertPublicDestination(data.url);
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.companyId, companyId));
+    if (count >= MAX_SUBSCRIPTIONS_PER_COMPANY) {
+      throw new AppError(`A company can have at most ${MAX_SUBSCRIPTIONS_PER_COMPANY} webhooks`, 409, undefined, ErrorCodes.CONFLICT);
+    }
+
+    const secret = generateSecret();
+    const [subscription] = await db.insert(webhookSubscriptions).values({
+      companyId,
+      url: data.url,
+      description: data.description || null,
+      events: data.events,
+      active: data.active ?? true,
+      secret,
+      createdBy: userId
+    }).returning();
+
+    logger.info(`[WEBHOOK] Company ${companyId} subscribed ${subscription.url} to ${data.events.join(', ')}`);
+    return { subscription: this.summarizeSubscription(subscription, null), secret };
+  }
+
+  async updateSubscription(companyId: number, subscriptionId: number, input: unknown): Promise<WebhookSubscriptionSummary> {
+    await this.loadSubscription(companyId, subscriptionId);
+    const data = this.parse(updateWebhookSubscriptionSchema, input);
+    if (data.url !== undefined) {
+      await this.assertPublicDestination(data.url);
+    }
+
+    const [subscription] = await db.update(webhookSubscriptions)
+      .set({
+        ...(data.url !== undefined ? { url: data.url } : {}),
+        ...(data.description !== undefined ? { description: data.description || null } : {}),
+        ...(data.events !== undefined ? { events: data.events } : {}),
+        ...(data.active !== undefined ? { active: data.active } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(webhookSubscriptions.id, subscriptionId))
+      .returning();
+
+    return this.summarizeSubscription(subscription, null);
+  }
+
+  async rotateSecret(companyId: number, subscriptionId: number): Promise<{ subscription: WebhookSubscriptionSummary; secret: string }> {
+    await this.loadSubscription(companyId, subscriptionId);
+    const secret = generateSecret();
+    const [subscription] = await db.update(webhookSubscriptions)
+      .set({ secret, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, subscriptionId))
+      .returning();
+
+    logger.info(`[WEBHOOK] Rotated the secret of webhook ${subscriptionId}`);
+    return { subscription: this.summarizeSubscription(subscription, null), secret };
+  }
+
+  async deleteSubscription(companyId: number, subscriptionId: number): Promise<void> {
+    await this.loadSubscription(companyId, subscriptionId);
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, subscriptionId));
+    logger.info(`[WEBHOOK] Deleted webhook ${subscriptionId} of company ${companyId}`);
+  }
+
+  /**
+   * Queue an event for every active subscription of the company that wants it
+   * and attempt the deliveries in the background
+   */
+  async dispatch(companyId: number, event: WebhookEvent, data: Record<string, unknown>): Promise<number> {
+    const subscriptions: WebhookSubscription[] = await db.select()
+      .from(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.companyId, companyId),
+        eq(webhookSubscriptions.active, true)
+      ));
+    const subscribed = subscriptions.filter(subscription =>
+      Array.isArray(subscription.events) && (subscription.events as string[]).includes(event)
+    );
+    if (subscribed.length === 0) return 0;
+
+    const payload = buildWebhookEnvelope(event, companyId, data);
+    const deliveries: WebhookDelivery[] = await db.insert(webhookDeliveries)
+      .values(subscribed.map(subscription => ({
+        subscriptionId: subscription.id,
+        companyId,
+        event,
+        payload,
+        nextAttemptAt: new Date(Date.now() + PENDING_GRACE_MS)
+      })))
+      .returning();
+
+    deliveries.forEach(delivery => {
+      const subscription = subscribed.find(candidate => candidate.id === delivery.subscriptionId)!;
+      this.attempt(delivery, subscription).catch(error => {
+        logger.error(`[WEBHOOK] Delivery ${delivery.id} could not be attempted:`, error);
+      });
+    });
+    return deliveries.length;
+  }
+
+  /**
+   * Send a ping to one subscription right away, whatever its events and state
+   */
+  async ping(companyId: number, subscriptionId: number): Promise<WebhookDeliveryDetail> {
+    const subscription = await this.loadSubscription(companyId, subscriptionId);
+    const [delivery] = await db.insert(webhookDeliveries).values({
+      subscriptionId,
+      companyId,
+      event: WEBHOOK_PING_EVENT,
+      payload: buildWebhookEnvelope(WEBHOOK_PING_EVENT, companyId, { subscriptionId, message: 'Test ping' }),
+      nextAttemptAt: new Date(Date.now() + PENDING_GRACE_MS)
+    }).returning();
+
+    await this.attempt(delivery, subscription);
+    return this.getDelivery(companyId, subscriptionId, delivery.id);
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery with its own retries
+   */
+  async replay(companyId: number, subscriptionId: number, deliveryId: number): Promise<WebhookDeliveryDetail> {
+    const subscription = await this.loadSubscription(companyId, subscriptionId);
+    const original = await this.loadDelivery(subscriptionId, deliveryId);
+
+    const [delivery] = await db.insert(webhookDeliveries).values({
+      subscriptionId,
+      companyId,
+      event: original.event,
+      payload: original.payload,
+      replayOfId: original.id,
+      nextAttemptAt: new Date(Date.now() + PENDING_GRACE_MS)
+    }).returning();
+
+    logger.info(`[WEBHOOK] Replaying delivery ${original.id} as ${delivery.id}`);
+    await this.attempt(delivery, subscription);
+    return this.getDelivery(companyId, subscriptionId, delivery.id);
+  }
+
+  async listDeliveries(
+    companyId: number,
+    subscriptionId: number,
+    options: { status?: string; limit?: number } = {}
+  ): Promise<WebhookDeliverySummary[]> {
+    await this.loadSubscription(companyId, subscriptionId);
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+    const rows: WebhookDelivery[] = await db.select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.subscriptionId, subscriptionId),
+        options.status ? eq(webhookDeliveries.status, options.status) : undefined
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+    return rows.map(row => this.summarizeDelivery(row));
+  }
+
+  async getDelivery(companyId: number, subscriptionId: number, deliveryId: number): Promise<WebhookDeliveryDetail> {
+    await this.loadSubscription(companyId, subscriptionId);
+    const delivery = await this.loadDelivery(subscriptionId, deliveryId);
+    const attempts: WebhookDeliveryAttempt[] = await db.select()
+      .from(webhookDeliveryAttempts)
+      .where(eq(webhookDeliveryAttempts.deliveryId, deliveryId))
+      .orderBy(desc(webhookDeliveryAttempts.attemptNumber));
+
+    return {
+      ...this.summarizeDelivery(delivery),
+      payload: delivery.payload as WebhookEnvelope,
+      attemptLog: attempts.map(attempt => ({
+        id: attempt.id,
+        attemptNumber: attempt.attemptNumber,
+        responseStatus: attempt.responseStatus,
+        responseBody: attempt.responseBody,
+        error: attempt.error,
+        durationMs: attempt.durationMs,
+        createdAt: attempt.createdAt.toISOString()
+      }))
+    };
+  }
+
+  /**
+   * Retry queued and failed deliveries whose backoff has elapsed
+   */
+  async retryDue(limit = 50): Promise<{ retried: number; delivered: number }> {
+    const due = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+      .where(and(
+        inArray(webhookDeliveries.status, ['pending', 'failed']),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+
+    let delivered = 0;
+    for (const row of due as Array<{ delivery: WebhookDelivery; subscription: WebhookSubscription }>) {
+      const result = await this.attempt(row.delivery, row.subscription);
+      if (result.status === 'delivered') delivered++;
+    }
+    return { retried: due.length, delivered };
+  }
+
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const attemptNumber = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const refused = await checkWebhookDestination(subscription.url);
+      if (refused) {
+        throw new Error(`Delivery refused: ${refused}`);
+      }
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SurveyPlatform-Webhooks/1.0',
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.delivery]: String(delivery.id),
+          ...signWebhookBody(body, subscription.secret)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_BODY_LENGTH) || null;
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    await db.insert(webhookDeliveryAttempts).values({
+      deliveryId: delivery.id,
+      attemptNumber,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs
+    });
+
+    if (!error) {
+      const [delivered] = await db.update(webhookDeliveries)
+        .set({
+          status: 'delivered',
+          attempts: attemptNumber,
+          responseStatus,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(webhookDeliveries.id, delivery.id))
+        .returning();
+
+      logger.info(`[WEBHOOK] Delivered ${delivery.event} ${delivery.id} to ${subscription.url} (HTTP ${responseStatus}, ${durationMs}ms)`);
+      return delivered;
+    }
+
+    const delay = webhookRetryDelay(attemptNumber);
+    const [failed] = await db.update(webhookDeliveries)
+      .set({
+        status: 'failed',
+        attempts: attemptNumber,
+        responseStatus,
+        lastError: error,
+        nextAttemptAt: delay === null ? null : new Date(Date.now() + delay),
+        updatedAt: new Date()
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+
+    logger.warn(`[WEBHOOK] Delivering ${delivery.event} ${delivery.id} to ${subscription.url} failed (attempt ${attemptNumber}/${MAX_WEBHOOK_ATTEMPTS}): ${error}`);
+    return failed;
+  }
+
+  private async assertPublicDestination(url: string): Promise<void> {
+    const refused = await checkWebhookDestination(url);
+    if (refused) {
+      throw new AppError('Invalid webhook details', 400, { url: [refused] }, ErrorCodes.VALIDATION_ERROR);
+    }
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+    const parsed = schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const errors: Record<string, string[]> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.') || 'webhook';
+        (errors[key] ||= []).push(issue.message);
+      });
+      throw new AppError('Invalid webhook details', 400, errors, ErrorCodes.VALIDATION_ERROR);
+    }
+    return parsed.data;
+  }
+
+  private async loadSubscription(companyId: number, subscriptionId: number): Promise<WebhookSubscription> {
+    const subscription = await db.query.webhookSubscriptions.findFirst({
+      where: and(eq(webhookSubscriptions.id, subscriptionId), eq(webhookSubscriptions.companyId, companyId))
+    });
+    if (!subscription) {
+      throw new AppError('Webhook not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return subscription;
+  }
+
+  private async loadDelivery(subscriptionId: number, deliveryId: number): Promise<WebhookDelivery> {
+    const delivery = await db.query.webhookDeliveries.findFirst({
+      where: and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.subscriptionId, subscriptionId))
+    });
+    if (!delivery) {
+      throw new AppError('Webhook delivery not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    }
+    return delivery;
+  }
+
+  private summarizeSubscription(
+    subscription: WebhookSubscription,
+    lastDelivery: WebhookSubscriptionSummary['lastDelivery']
+  ): WebhookSubscriptionSummary {
+    return {
+      id: subscription.id,
+      companyId: subscription.companyId,
+      url: subscription.url,
+      description: subscription.description,
+      events: (subscription.events as WebhookEvent[]) || [],
+      active: subscription.active,
+      secretHint: `${subscription.secret.slice(0, 6)}…${subscription.secret.slice(-4)}`,
+      createdAt: subscription.createdAt.toISOString(),
+      updatedAt: subscription.updatedAt.toISOString(),
+      lastDelivery
+    };
+  }
+
+  private summarizeDelivery(delivery: WebhookDelivery): WebhookDeliverySummary {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+      status: delivery.status as WebhookDeliveryStatus,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      nextAttemptAt: toIso(delivery.nextAttemptAt),
+      deliveredAt: toIso(delivery.deliveredAt),
+      replayOfId: delivery.replayOfId,
+      createdAt: delivery.createdAt.toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
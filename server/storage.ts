@@ -227,7 +227,7 @@ export interface IStorage {
   getSurvey(id: number): Promise<any>;
   getSurveyResponse(id: number): Promise<any>;
   getSurveyResponsesByCompany(companyId: number): Promise<any[]>;
-  createSurveyResponse(responseData: any): Promise<any>;
+  createSurveyResponse(responseData: any, tx?: any): Promise<any>;
   
   // Client operations
   getClientById(id: number): Promise<any>;
@@ -337,6 +337,11 @@ export class DatabaseStorage implements IStorage {
       passwordLastChanged: null,
       mfaEnabled: false,
       mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaEnrolledAt: null,
+      mfaLastUsedStep: null,
+      mfaFailedAttempts: 0,
+      mfaLockedUntil: null,
       loginAttempts: 0,
       lastFailedLogin: null,
       accountLocked: false,
@@ -368,6 +373,11 @@ export class DatabaseStorage implements IStorage {
       passwordLastChanged: null,
       mfaEnabled: false,
       mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaEnrolledAt: null,
+      mfaLastUsedStep: null,
+      mfaFailedAttempts: 0,
+      mfaLockedUntil: null,
       loginAttempts: 0,
       lastFailedLogin: null,
       accountLocked: false,
@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import type { EntitlementViolation } from '../../shared/entitlements';
 
 /**
  * Standard API response format
@@ -60,6 +61,27 @@ export function sendClientError(
   });
 }
 
+/**
+ * Send the error for an action the company's license does not allow
+ * @param res Express response object
+ * @param violation The limit or feature that refused the action
+ */
+export function sendLimitExceeded(res: Response, violation: EntitlementViolation): Response<ApiResponse> {
+  return res.status(403).json({
+    status: 'fail',
+    message: violation.message,
+    errors: { [violation.entitlement]: [violation.message] },
+    code: violation.code,
+    limits: {
+      entitlement: violation.entitlement,
+      current: violation.current,
+      maximum: violation.maximum
+    },
+    timestamp: new Date().toISOString(),
+    path: res.req?.originalUrl,
+  });
+}
+
 /**
  * Send an error response for server errors (5xx)
  * @param res Express response object
@@ -92,6 +114,7 @@ export const ErrorCodes = {
   UNAUTHORIZED: 'UNAUTHORIZED',
   FORBIDDEN: 'FORBIDDEN',
   AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
+  PASSWORD_REQUIRED: 'PASSWORD_REQUIRED',
   
   // Validation errors
   VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -116,6 +139,7 @@ export const ErrorCodes = {
   // Business logic errors
   BUSINESS_RULE_VIOLATION: 'BUSINESS_RULE_VIOLATION',
   OPERATION_NOT_ALLOWED: 'OPERATION_NOT_ALLOWED',
+  QUOTA_FULL: 'QUOTA_FULL',
 };
 
 /**
@@ -5,6 +5,16 @@ import {
   CollaborationUserData, 
   WebSocketMessage 
 } from '../../shared/websocket-types';
+import { Collaborator, Comment, CollaborationStore, DatabaseCollaborationStore, LockOutcome } from './collaborationStore';
+import { PubSubAdapter, createCollaborationPubSub } from './collaborationPubSub';
+import {
+  AppliedOperation,
+  CollaborationOperation,
+  CollaborationWorkspace,
+  ElementLock,
+  LockRequest,
+  OperationOutcome
+} from '../../shared/collaborationOps';
 
 // Participant in a collaboration session
 interface Participant {
@@ -17,91 +27,134 @@ interface Participant {
   cursorPosition?: { x: number, y: number };
 }
 
-// Change made to a document
-interface DocumentChange {
-  id: string;
-  userId: number;
-  username: string;
-  timestamp: Date;
-  type: 'insert' | 'delete' | 'update' | 'format';
-  content: string;
-  position: number;
-  length: number;
-}
-
-// Comment on a document
-interface Comment {
-  id: string;
+// Participant as other nodes see it
+interface ParticipantSummary {
+  connectionId: string;
   userId: number;
   username: string;
-  text: string;
-  createdAt: Date;
-  position: number;
-  resolved: boolean;
-  resolvedAt?: Date;
-  resolvedBy?: number;
+  status: 'online' | 'idle' | 'offline';
+  lastActiveAt: string;
+  cursorPosition?: { x: number, y: number };
 }
 
 // Collaboration session
 interface Session {
   id: number;
-  participants: Map<string, Participant>; // connectionId -> participant
-  document: {
-    content: string;
-    version: number;
-  };
-  changes: DocumentChange[];
+  participants: Map<string, Participant>; // connectionId -> participant on this node
+  remoteParticipants: Map<string, ParticipantSummary>; // connectionId -> participant on another node
   comments: Comment[];
   lastActiveAt: Date;
   createdAt: Date;
+  unsubscribe: () => Promise<void>;
 }
 
-class CollaborationManager {
+// Event shared with the other nodes serving a session
+type CollaborationEvent =
+  | { kind: 'broadcast'; message: CollaborationUserData | WebSocketMessage; excludeConnectionId?: string }
+  | { kind: 'operation'; change: AppliedOperation }
+  | { kind: 'locks'; locks: ElementLock[] }
+  | { kind: 'comment'; comment: Comment }
+  | { kind: 'presence'; participants: ParticipantSummary[]; left: string[] }
+  | { kind: 'presenceRequest' };
+
+type CollaborationEnvelope = CollaborationEvent & { nodeId: string; sessionId: number };
+
+export interface CollaborationManagerOptions {
+  store?: CollaborationStore;
+  pubsub?: PubSubAdapter;
+  nodeId?: string;
+}
+
+const sessionChannel = (sessionId: number) => `collaboration:session:${sessionId}`;
+
+// Dates arrive from other nodes as strings
+const reviveComment = (comment: Comment): Comment => ({
+  ...comment,
+  createdAt: new Date(comment.createdAt),
+  resolvedAt: comment.resolvedAt ? new Date(comment.resolvedAt) : undefined
+});
+
+/**
+ * Collaboration sessions over WebSocket. Operations on the session's survey
+ * and element locks go through the store, which applies them in one order
+ * across nodes; comments and presence are written through to the
+ * collaboration tables. Events are shared with other nodes serving the same
+ * session through the pub/sub adapter.
+ */
+export class CollaborationManager {
   private sessions: Map<number, Session> = new Map();
+  private loading: Map<number, Promise<Session | null>> = new Map();
   private connections: Map<string, {
     sessionId: number;
     userId: number;
   }> = new Map();
   private cleanupInterval: NodeJS.Timeout;
+  private store: CollaborationStore;
+  private pubsub: PubSubAdapter;
+  readonly nodeId: string;
 
-  constructor() {
-    logger.info('Collaboration manager initialized');
+  constructor(options: CollaborationManagerOptions = {}) {
+    this.store = options.store ?? new DatabaseCollaborationStore();
+    this.pubsub = options.pubsub ?? createCollaborationPubSub();
+    this.nodeId = options.nodeId ?? uuidv4();
+    logger.info(`Collaboration manager initialized (node ${this.nodeId})`);
     
     // Set up periodic cleanup of inactive sessions
     this.cleanupInterval = setInterval(() => {
       this.cleanupInactiveSessions();
     }, 15 * 60 * 1000); // Run every 15 minutes
+    this.cleanupInterval.unref?.();
   }
 
   /**
-   * Create a new session or get an existing one
+   * Load a session with its comments; null when it does not exist
    */
-  getOrCreateSession(sessionId: number): Session {
-    if (!this.sessions.has(sessionId)) {
-      logger.info(`Creating new collaboration session ${sessionId}`);
-      
-      this.sessions.set(sessionId, {
-        id: sessionId,
-        participants: new Map(),
-        document: {
-          content: '',
-          version: 0
-        },
-        changes: [],
-        comments: [],
-        lastActiveAt: new Date(),
-        createdAt: new Date()
-      });
+  async loadSession(sessionId: number): Promise<Session | null> {
+    const existing = this.sessions.get(sessionId);
+    if (existing) {
+      return existing;
     }
-    
-    return this.sessions.get(sessionId)!;
+    if (!this.loading.has(sessionId)) {
+      this.loading.set(sessionId, this.restoreSession(sessionId).finally(() => {
+        this.loading.delete(sessionId);
+      }));
+    }
+    return this.loading.get(sessionId)!;
+  }
+
+  private async restoreSession(sessionId: number): Promise<Session | null> {
+    const stored = await this.store.loadSession(sessionId);
+    if (!stored) {
+      return null;
+    }
+
+    const session: Session = {
+      id: sessionId,
+      participants: new Map(),
+      remoteParticipants: new Map(),
+      comments: stored.comments,
+      lastActiveAt: new Date(),
+      createdAt: new Date(),
+      unsubscribe: async () => {}
+    };
+
+    // Subscribe before publishing so replies to the presence request are not missed
+    session.unsubscribe = await this.pubsub.subscribe(sessionChannel(sessionId), (message) => this.handleEnvelope(message));
+    this.sessions.set(sessionId, session);
+    await this.publish(sessionId, { kind: 'presenceRequest' });
+
+    logger.info(`Loaded collaboration session ${sessionId}`);
+    return session;
   }
 
   /**
-   * Add a participant to a session
+   * Add a participant to a session; null when the session does not exist
    */
-  addParticipant(sessionId: number, userId: number, username: string, socket: WebSocket): string {
-    const session = this.getOrCreateSession(sessionId);
+  async addParticipant(sessionId: number, userId: number, username: string, socket: WebSocket): Promise<string | null> {
+    const session = await this.loadSession(sessionId);
+    if (!session) {
+      return null;
+    }
     const connectionId = uuidv4();
     
     const participant: Participant = {
@@ -121,6 +174,9 @@ class CollaborationManager {
       sessionId,
       userId
     });
+
+    this.savePresence(sessionId, userId, 'online');
+    await this.publish(sessionId, { kind: 'presence', participants: [this.summarize(participant)], left: [] });
     
     // Broadcast the join event to all participants
     this.broadcastToSession(sessionId, {
@@ -180,6 +236,13 @@ class CollaborationManager {
         // Remove the participant
         session.participants.delete(connectionId);
         session.lastActiveAt = new Date();
+        this.publish(sessionId, { kind: 'presence', participants: [], left: [connectionId] });
+
+        // Only offline once the user has no other connection to the session
+        const stillConnected = Array.from(session.participants.values()).some(p => p.userId === userId);
+        if (!stillConnected) {
+          this.savePresence(sessionId, userId, 'offline');
+        }
       }
     }
     
@@ -240,6 +303,9 @@ class CollaborationManager {
         participant.status = status;
         participant.lastActiveAt = new Date();
         session.lastActiveAt = new Date();
+
+        this.savePresence(sessionId, userId, status);
+        this.publish(sessionId, { kind: 'presence', participants: [this.summarize(participant)], left: [] });
         
         // Broadcast the status update
         this.broadcastToSession(sessionId, {
@@ -258,9 +324,9 @@ class CollaborationManager {
   }
 
   /**
-   * Process a document change
+   * Add a comment to the session or one of its questions
    */
-  processChange(connectionId: string, changeData: any): void {
+  async addComment(connectionId: string, commentData: any): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
       return;
@@ -268,183 +334,43 @@ class CollaborationManager {
     
     const { sessionId, userId } = connection;
     const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Create a change record
-        const change: DocumentChange = {
-          id: uuidv4(),
-          userId,
-          username: participant.username,
-          timestamp: new Date(),
-          type: changeData.type,
-          content: changeData.content,
-          position: changeData.position,
-          length: changeData.length
-        };
-        
-        // Update document content - this is simplified and would need more logic for accurate text merging
-        const doc = session.document;
-        
-        if (change.type === 'insert') {
-          const before = doc.content.substring(0, change.position);
-          const after = doc.content.substring(change.position);
-          doc.content = before + change.content + after;
-        } else if (change.type === 'delete') {
-          const before = doc.content.substring(0, change.position);
-          const after = doc.content.substring(change.position + change.length);
-          doc.content = before + after;
-        } else if (change.type === 'update') {
-          const before = doc.content.substring(0, change.position);
-          const after = doc.content.substring(change.position + change.length);
-          doc.content = before + change.content + after;
-        }
-        
-        // Increment document version
-        doc.version++;
-        
-        // Add change to history
-        session.changes.push(change);
-        
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the change
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'update',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'change',
-            value: {
-              id: change.id,
-              userId,
-              username: participant.username,
-              timestamp: change.timestamp.toISOString(),
-              type: change.type,
-              content: change.content,
-              position: change.position,
-              length: change.length,
-              docVersion: doc.version
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
+    const participant = session?.participants.get(connectionId);
+    if (!session || !participant) {
+      return;
     }
-  }
 
-  /**
-   * Add a comment to a document
-   */
-  addComment(connectionId: string, commentData: any): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
+    let comment: Comment;
+    try {
+      comment = await this.store.addComment(sessionId, {
+        userId,
+        username: participant.username,
+        text: commentData.text,
+        createdAt: new Date(),
+        questionId: Number(commentData.questionId) || null,
+        resolved: false
+      });
+    } catch (error) {
+      logger.error(`Failed to save comment in session ${sessionId}:`, error);
+      this.sendToParticipant(participant, { type: 'error', message: 'Your comment could not be saved' });
       return;
     }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Create a comment
-        const comment: Comment = {
-          id: uuidv4(),
-          userId,
-          username: participant.username,
-          text: commentData.text,
-          createdAt: new Date(),
-          position: commentData.position,
-          resolved: false
-        };
-        
-        // Add comment to session
-        session.comments.push(comment);
-        
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the comment
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'update',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'comment',
-            value: {
-              id: comment.id,
-              userId,
-              username: participant.username,
-              text: comment.text,
-              createdAt: comment.createdAt.toISOString(),
-              position: comment.position,
-              resolved: comment.resolved
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
+
+    // Add comment to session
+    session.comments.push(comment);
+
+    // Update activity timestamps
+    participant.lastActiveAt = new Date();
+    session.lastActiveAt = new Date();
+
+    // Broadcast the comment
+    this.deliverToSession(sessionId, this.commentMessage(sessionId, comment), connectionId);
+    await this.publish(sessionId, { kind: 'comment', comment });
   }
 
   /**
    * Resolve a comment
    */
-  resolveComment(connectionId: string, commentId: string): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Find and update the comment
-        const comment = session.comments.find(c => c.id === commentId);
-        if (comment) {
-          comment.resolved = true;
-          comment.resolvedAt = new Date();
-          comment.resolvedBy = userId;
-          
-          // Update activity timestamps
-          participant.lastActiveAt = new Date();
-          session.lastActiveAt = new Date();
-          
-          // Broadcast the resolution
-          this.broadcastToSession(sessionId, {
-            type: 'collaborationUpdate',
-            action: 'update',
-            entityId: sessionId,
-            userId,
-            changes: [{
-              field: 'resolveComment',
-              value: {
-                commentId,
-                resolvedBy: userId,
-                resolvedAt: comment.resolvedAt.toISOString()
-              }
-            }],
-            timestamp: new Date().toISOString()
-          }, connectionId);
-        }
-      }
-    }
-  }
-  
-  /**
-   * Add a new survey question
-   */
-  addSurveyQuestion(connectionId: string, surveyId: number, questionData: any, position?: number): void {
+  async resolveComment(connectionId: string, commentId: string): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
       return;
@@ -452,316 +378,84 @@ class CollaborationManager {
     
     const { sessionId, userId } = connection;
     const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the question addition
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'ADD_QUESTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'addQuestion',
-            value: {
-              surveyId,
-              question: questionData,
-              position,
-              addedBy: userId,
-              addedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
-  }
-  
-  /**
-   * Update a survey question
-   */
-  updateSurveyQuestion(connectionId: string, questionId: number, updates: any): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
+    const participant = session?.participants.get(connectionId);
+    if (!session || !participant) {
       return;
     }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the question update
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'UPDATE_QUESTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'updateQuestion',
-            value: {
-              questionId,
-              updates,
-              updatedBy: userId,
-              updatedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
-  }
-  
-  /**
-   * Delete a survey question
-   */
-  deleteSurveyQuestion(connectionId: string, questionId: number): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
+
+    let resolved: Comment | null;
+    try {
+      resolved = await this.store.resolveComment(sessionId, String(commentId), userId);
+    } catch (error) {
+      logger.error(`Failed to resolve comment ${commentId} in session ${sessionId}:`, error);
+      this.sendToParticipant(participant, { type: 'error', message: 'The comment could not be resolved' });
       return;
     }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the question deletion
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'DELETE_QUESTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'deleteQuestion',
-            value: {
-              questionId,
-              deletedBy: userId,
-              deletedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
-  }
-  
-  /**
-   * Add an option to a survey question
-   */
-  addQuestionOption(connectionId: string, questionId: number, optionData: any, position?: number): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
+    if (!resolved) {
       return;
     }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the option addition
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'ADD_QUESTION_OPTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'addQuestionOption',
-            value: {
-              questionId,
-              option: optionData,
-              position,
-              addedBy: userId,
-              addedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
+
+    this.storeComment(session, resolved);
+
+    // Update activity timestamps
+    participant.lastActiveAt = new Date();
+    session.lastActiveAt = new Date();
+
+    // Broadcast the resolution
+    this.deliverToSession(sessionId, this.commentMessage(sessionId, resolved), connectionId);
+    await this.publish(sessionId, { kind: 'comment', comment: resolved });
   }
-  
+
   /**
-   * Update an option for a survey question
+   * Apply an operation to the session's survey and broadcast it to every
+   * participant; null when the session does not exist. Conflicted and
+   * rejected operations only go back to the caller.
    */
-  updateQuestionOption(connectionId: string, questionId: number, optionId: number, updates: any): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the option update
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'UPDATE_QUESTION_OPTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'updateQuestionOption',
-            value: {
-              questionId,
-              optionId,
-              updates,
-              updatedBy: userId,
-              updatedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
+  async applyOperation(sessionId: number, actor: Collaborator, op: CollaborationOperation): Promise<OperationOutcome | null> {
+    const outcome = await this.store.applyOperation(sessionId, actor, op, new Date());
+    if (!outcome) {
+      return null;
     }
+
+    if (outcome.status === 'applied') {
+      this.touchSession(sessionId);
+      this.deliverToSession(sessionId, this.operationMessage(sessionId, outcome.change));
+      await this.publish(sessionId, { kind: 'operation', change: outcome.change });
+    } else {
+      logger.info(`Operation ${op.type} by user ${actor.userId} in session ${sessionId} was ${outcome.status}: ${outcome.reason}`);
+    }
+    return outcome;
   }
-  
+
   /**
-   * Delete an option from a survey question
+   * The survey a session edits with its field versions and locks; null when
+   * the session does not exist
    */
-  deleteQuestionOption(connectionId: string, questionId: number, optionId: number): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the option deletion
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'DELETE_QUESTION_OPTION',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'deleteQuestionOption',
-            value: {
-              questionId,
-              optionId,
-              deletedBy: userId,
-              deletedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
-    }
+  getWorkspace(sessionId: number): Promise<CollaborationWorkspace | null> {
+    return this.store.loadWorkspace(sessionId, new Date());
   }
-  
+
   /**
-   * Lock an element for editing by a user
+   * Lock an element for editing, or extend the lock the user already holds;
+   * null when the session does not exist
    */
-  lockElement(connectionId: string, elementType: string, elementId: number): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the lock
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'LOCK_ELEMENT',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'lockElement',
-            value: {
-              elementType,
-              elementId,
-              lockedBy: userId,
-              lockedAt: new Date().toISOString(),
-              username: participant.username
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
+  async lockElement(sessionId: number, actor: Collaborator, element: LockRequest): Promise<LockOutcome | null> {
+    const outcome = await this.store.acquireLock(sessionId, actor, element, new Date());
+    if (outcome?.acquired) {
+      await this.broadcastLocks(sessionId, outcome.locks);
     }
+    return outcome;
   }
-  
+
   /**
-   * Unlock an element that was being edited
+   * Release a lock the user holds; null when the session does not exist
    */
-  unlockElement(connectionId: string, elementType: string, elementId: number): void {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-    
-    const { sessionId, userId } = connection;
-    const session = this.sessions.get(sessionId);
-    
-    if (session) {
-      const participant = session.participants.get(connectionId);
-      if (participant) {
-        // Update activity timestamps
-        participant.lastActiveAt = new Date();
-        session.lastActiveAt = new Date();
-        
-        // Broadcast the unlock
-        this.broadcastToSession(sessionId, {
-          type: 'collaborationUpdate',
-          action: 'UNLOCK_ELEMENT',
-          entityId: sessionId,
-          userId,
-          changes: [{
-            field: 'unlockElement',
-            value: {
-              elementType,
-              elementId,
-              unlockedBy: userId,
-              unlockedAt: new Date().toISOString()
-            }
-          }],
-          timestamp: new Date().toISOString()
-        }, connectionId);
-      }
+  async unlockElement(sessionId: number, userId: number, element: LockRequest): Promise<{ released: boolean; locks: ElementLock[] } | null> {
+    const outcome = await this.store.releaseLock(sessionId, userId, element, new Date());
+    if (outcome?.released) {
+      await this.broadcastLocks(sessionId, outcome.locks);
     }
+    return outcome;
   }
   
   /**
@@ -984,9 +678,10 @@ class CollaborationManager {
   }
 
   /**
-   * Sync a participant with the current session state
+   * Sync a participant with the current session state: the survey being
+   * edited with its field versions and locks, participants and comments
    */
-  syncParticipant(connectionId: string): void {
+  async syncParticipant(connectionId: string): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
       return;
@@ -998,25 +693,28 @@ class CollaborationManager {
     if (session && session.participants.has(connectionId)) {
       const participant = session.participants.get(connectionId)!;
       const socket = participant.socket;
+
+      let workspace;
+      try {
+        workspace = await this.store.loadWorkspace(sessionId, new Date());
+      } catch (error) {
+        logger.error(`Failed to load the survey of session ${sessionId}:`, error);
+        this.sendToParticipant(participant, { type: 'error', message: 'The session could not be loaded' });
+        return;
+      }
       
       if (socket.readyState === WebSocket.OPEN) {
-        // Create a simplified view of participants for the sync
-        const participantsData = Array.from(session.participants.values()).map(p => ({
-          userId: p.userId,
-          username: p.username,
-          status: p.status,
-          lastActiveAt: p.lastActiveAt.toISOString(),
-          cursorPosition: p.cursorPosition
-        }));
+        // Participants on this node and on the other nodes serving the session
+        const participantsData = [
+          ...Array.from(session.participants.values()).map(p => this.summarize(p)),
+          ...Array.from(session.remoteParticipants.values())
+        ].map(({ connectionId: _connectionId, ...p }) => p);
         
         // Send the sync data
         socket.send(JSON.stringify({
           type: 'collaborationSync',
           sessionId,
-          document: {
-            content: session.document.content,
-            version: session.document.version
-          },
+          workspace,
           participants: participantsData,
           comments: session.comments.map(c => ({
             id: c.id,
@@ -1024,7 +722,7 @@ class CollaborationManager {
             username: c.username,
             text: c.text,
             createdAt: c.createdAt.toISOString(),
-            position: c.position,
+            questionId: c.questionId,
             resolved: c.resolved,
             resolvedAt: c.resolvedAt?.toISOString(),
             resolvedBy: c.resolvedBy
@@ -1038,12 +736,36 @@ class CollaborationManager {
   }
 
   /**
-   * Broadcast a message to all participants in a session
+   * Unsubscribe from every session and close the pub/sub adapter
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+    await Promise.all(Array.from(this.sessions.values()).map(session => session.unsubscribe()));
+    this.sessions.clear();
+    this.connections.clear();
+    await this.pubsub.close();
+  }
+
+  /**
+   * Broadcast a message to all participants in a session, on this node and on
+   * the other nodes serving it
    */
   private broadcastToSession(
     sessionId: number, 
     message: CollaborationUserData | WebSocketMessage, 
     excludeConnectionId?: string
+  ): void {
+    this.deliverToSession(sessionId, message, excludeConnectionId);
+    this.publish(sessionId, { kind: 'broadcast', message, excludeConnectionId });
+  }
+
+  /**
+   * Send a message to the participants connected to this node
+   */
+  private deliverToSession(
+    sessionId: number,
+    message: CollaborationUserData | WebSocketMessage,
+    excludeConnectionId?: string
   ): void {
     const session = this.sessions.get(sessionId);
     if (!session) {
@@ -1059,6 +781,173 @@ class CollaborationManager {
     });
   }
 
+  private sendToParticipant(participant: Participant, message: Record<string, unknown>): void {
+    if (participant.socket.readyState === WebSocket.OPEN) {
+      participant.socket.send(JSON.stringify({ ...message, timestamp: new Date().toISOString() }));
+    }
+  }
+
+  private async publish(sessionId: number, event: CollaborationEvent): Promise<void> {
+    try {
+      await this.pubsub.publish(sessionChannel(sessionId), JSON.stringify({ ...event, nodeId: this.nodeId, sessionId }));
+    } catch (error) {
+      logger.error(`Failed to publish ${event.kind} for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Handle an event published by another node
+   */
+  private async handleEnvelope(raw: string): Promise<void> {
+    const envelope = JSON.parse(raw) as CollaborationEnvelope;
+    if (envelope.nodeId === this.nodeId) {
+      return;
+    }
+    const session = this.sessions.get(envelope.sessionId);
+    if (!session) {
+      return;
+    }
+
+    switch (envelope.kind) {
+      case 'broadcast':
+        this.deliverToSession(session.id, envelope.message, envelope.excludeConnectionId);
+        break;
+      case 'operation':
+        this.deliverToSession(session.id, this.operationMessage(session.id, envelope.change));
+        break;
+      case 'locks':
+        this.deliverToSession(session.id, this.locksMessage(session.id, envelope.locks));
+        break;
+      case 'comment': {
+        const comment = reviveComment(envelope.comment);
+        this.storeComment(session, comment);
+        this.deliverToSession(session.id, this.commentMessage(session.id, comment));
+        break;
+      }
+      case 'presence':
+        envelope.participants.forEach(p => session.remoteParticipants.set(p.connectionId, p));
+        envelope.left.forEach(connectionId => session.remoteParticipants.delete(connectionId));
+        break;
+      case 'presenceRequest':
+        if (session.participants.size > 0) {
+          await this.publish(session.id, {
+            kind: 'presence',
+            participants: Array.from(session.participants.values()).map(p => this.summarize(p)),
+            left: []
+          });
+        }
+        break;
+    }
+  }
+
+  private touchSession(sessionId: number): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActiveAt = new Date();
+    }
+  }
+
+  private async broadcastLocks(sessionId: number, locks: ElementLock[]): Promise<void> {
+    this.touchSession(sessionId);
+    this.deliverToSession(sessionId, this.locksMessage(sessionId, locks));
+    await this.publish(sessionId, { kind: 'locks', locks });
+  }
+
+  private storeComment(session: Session, comment: Comment): void {
+    const index = session.comments.findIndex(c => c.id === comment.id);
+    if (index === -1) {
+      session.comments.push(comment);
+    } else {
+      session.comments[index] = comment;
+    }
+  }
+
+  private savePresence(sessionId: number, userId: number, status: 'online' | 'idle' | 'offline'): void {
+    this.store.updatePresence(sessionId, userId, status).catch(error => {
+      logger.warn(`Failed to save presence of user ${userId} in session ${sessionId}: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  private summarize(participant: Participant): ParticipantSummary {
+    return {
+      connectionId: participant.connectionId,
+      userId: participant.userId,
+      username: participant.username,
+      status: participant.status,
+      lastActiveAt: participant.lastActiveAt.toISOString(),
+      cursorPosition: participant.cursorPosition
+    };
+  }
+
+  private operationMessage(sessionId: number, change: AppliedOperation): CollaborationUserData {
+    return {
+      type: 'collaborationUpdate',
+      action: 'update',
+      entityId: sessionId,
+      userId: change.userId,
+      changes: [{
+        field: 'operation',
+        value: change
+      }],
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // Locks are sent whole; they are few and expire on their own
+  private locksMessage(sessionId: number, locks: ElementLock[]): CollaborationUserData {
+    return {
+      type: 'collaborationUpdate',
+      action: 'update',
+      entityId: sessionId,
+      userId: 0,
+      changes: [{
+        field: 'locks',
+        value: locks
+      }],
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private commentMessage(sessionId: number, comment: Comment): CollaborationUserData {
+    if (comment.resolved) {
+      return {
+        type: 'collaborationUpdate',
+        action: 'update',
+        entityId: sessionId,
+        userId: comment.resolvedBy ?? comment.userId,
+        changes: [{
+          field: 'resolveComment',
+          value: {
+            commentId: comment.id,
+            resolvedBy: comment.resolvedBy,
+            resolvedAt: comment.resolvedAt?.toISOString()
+          }
+        }],
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    return {
+      type: 'collaborationUpdate',
+      action: 'update',
+      entityId: sessionId,
+      userId: comment.userId,
+      changes: [{
+        field: 'comment',
+        value: {
+          id: comment.id,
+          userId: comment.userId,
+          username: comment.username,
+          text: comment.text,
+          createdAt: comment.createdAt.toISOString(),
+          questionId: comment.questionId,
+          resolved: comment.resolved
+        }
+      }],
+      timestamp: new Date().toISOString()
+    };
+  }
+
   /**
    * Clean up inactive sessions and participants
    */
@@ -1082,8 +971,17 @@ class CollaborationManager {
         }
       }
     });
+
+    // Forget participants of other nodes that have gone quiet, e.g. because their node stopped
+    this.sessions.forEach(session => {
+      session.remoteParticipants.forEach((participant, connectionId) => {
+        if (now.getTime() - new Date(participant.lastActiveAt).getTime() > 30 * 60 * 1000) {
+          session.remoteParticipants.delete(connectionId);
+        }
+      });
+    });
     
-    // Remove inactive sessions
+    // Unload inactive sessions; their state stays in the database
     this.sessions.forEach((session, sessionId) => {
       const inactiveTime = now.getTime() - session.lastActiveAt.getTime();
       
@@ -1097,6 +995,9 @@ class CollaborationManager {
         
         // Remove the session
         this.sessions.delete(sessionId);
+        session.unsubscribe().catch(error => {
+          logger.warn(`Failed to unsubscribe from session ${sessionId}: ${error instanceof Error ? error.message : error}`);
+        });
       }
     });
   }
@@ -1104,4 +1005,4 @@ class CollaborationManager {
 
 // Export a singleton instance
 const collaborationManager = new CollaborationManager();
-export default collaborationManager;
\ No newline at end of file
+export default collaborationManager;
@@ -0,0 +1,324 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AppliedOperation,
+  CollaborationChangeType,
+  CollaborationEntityType,
+  CollaborationOperation,
+  EditableQuestion,
+  ElementLock,
+  FieldVersions,
+  OperationOutcome,
+  SurveySettings,
+  VersionVector,
+  advanceVersions,
+  applyOptionOperation,
+  conflictKey,
+  findBlockingLock,
+  isConcurrent,
+  locksWithoutQuestion,
+  reorderQuestionList,
+  touchedKeys,
+  versionKeys
+} from '../../shared/collaborationOps';
+
+/**
+ * Collaboration Operations
+ *
+ * Applies structured collaborative edits to a survey. An operation is checked
+ * against the element locks and the version vector of the field it changes:
+ * when another user changed that field since the sender last saw it, the
+ * operation is not applied and comes back as conflicted, unless both ended
+ * up with the same value. The stores run this inside whatever keeps one
+ * session's operations from interleaving (a row lock in the database).
+ */
+
+export type NewQuestionValues = Omit<EditableQuestion, 'id'>;
+
+// The survey a session edits, as seen from inside the session's transaction
+export interface SurveyWorkspace {
+  getQuestion(questionId: number): Promise<EditableQuestion | null>;
+  listQuestions(): Promise<EditableQuestion[]>;
+  insertQuestion(values: NewQuestionValues): Promise<EditableQuestion>;
+  updateQuestion(questionId: number, values: Partial<NewQuestionValues>): Promise<EditableQuestion>;
+  deleteQuestion(questionId: number): Promise<void>;
+  getSurvey(): Promise<SurveySettings>;
+  updateSurvey(values: SurveySettings): Promise<SurveySettings>;
+}
+
+// A row of collaboration_changes, whatever its status
+export interface ChangeRecord {
+  entityType: CollaborationEntityType;
+  entityId: number;
+  changeType: CollaborationChangeType;
+  field: string | null;
+  previousValue: unknown;
+  newValue: unknown;
+  baseVersion: VersionVector;
+}
+
+export type OperationExecution =
+  | { status: 'rejected'; lock: ElementLock }
+  | {
+      status: 'conflicted';
+      reason: 'concurrent' | 'missing';
+      key: string | null;
+      current: unknown;
+      version: VersionVector;
+      record: ChangeRecord;
+    }
+  | {
+      status: 'applied';
+      record: ChangeRecord;
+      result: Pick<AppliedOperation, 'question' | 'deletedQuestionId' | 'questionOrder' | 'survey'>;
+      // All field versions after the operation, and the ones it advanced
+      versions: FieldVersions;
+      advanced: FieldVersions;
+      locks: ElementLock[];
+    };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// What the operation did, as a collaboration_changes row
+function describe(op: CollaborationOperation, surveyId: number): Omit<ChangeRecord, 'previousValue' | 'newValue'> {
+  const baseVersion = 'baseVersion' in op ? op.baseVersion : {};
+  switch (op.type) {
+    case 'createQuestion':
+      return { entityType: 'question', entityId: 0, changeType: 'create', field: null, baseVersion };
+    case 'updateQuestion':
+      return { entityType: 'question', entityId: op.questionId, changeType: 'update', field: op.field, baseVersion };
+    case 'deleteQuestion':
+      return { entityType: 'question', entityId: op.questionId, changeType: 'delete', field: null, baseVersion };
+    case 'reorderQuestions':
+      return { entityType: 'question', entityId: surveyId, changeType: 'reorder', field: 'order', baseVersion };
+    case 'createOption':
+      return { entityType: 'option', entityId: op.questionId, changeType: 'create', field: null, baseVersion };
+    case 'updateOption':
+      return { entityType: 'option', entityId: op.questionId, changeType: 'update', field: `${op.optionId}:${op.field}`, baseVersion };
+    case 'deleteOption':
+      return { entityType: 'option', entityId: op.questionId, changeType: 'delete', field: op.optionId, baseVersion };
+    case 'reorderOptions':
+      return { entityType: 'option', entityId: op.questionId, changeType: 'reorder', field: 'order', baseVersion };
+    case 'updateSurvey':
+      return { entityType: 'surveySettings', entityId: surveyId, changeType: 'update', field: op.field, baseVersion };
+  }
+}
+
+/**
+ * Check an operation against the locks and versions of its session and apply
+ * it to the survey when it does not conflict
+ */
+export async function executeOperation(
+  workspace: SurveyWorkspace,
+  op: CollaborationOperation,
+  context: { surveyId: number; userId: number; versions: FieldVersions; locks: ElementLock[] }
+): Promise<OperationExecution> {
+  const { surveyId, userId, versions } = context;
+  const lock = findBlockingLock(context.locks, op, userId);
+  if (lock) {
+    return { status: 'rejected', lock };
+  }
+
+  const description = describe(op, surveyId);
+  const key = conflictKey(op);
+  const version = key ? versions[key] ?? {} : {};
+  const concurrent = 'baseVersion' in op && isConcurrent(key ? versions[key] : undefined, op.baseVersion, userId);
+
+  const conflict = (reason: 'concurrent' | 'missing', current: unknown, newValue: unknown): OperationExecution => ({
+    status: 'conflicted',
+    reason,
+    key,
+    current,
+    version,
+    record: { ...description, previousValue: current, newValue }
+  });
+
+  const applied = (
+    record: Omit<ChangeRecord, 'baseVersion'>,
+    result: Extract<OperationExecution, { status: 'applied' }>['result'],
+    keys: string[],
+    locks: ElementLock[] = context.locks
+  ): OperationExecution => {
+    const advancedVersions = advanceVersions(versions, keys, userId);
+    return {
+      status: 'applied',
+      record: { ...record, baseVersion: description.baseVersion },
+      result,
+      versions: advancedVersions.versions,
+      advanced: advancedVersions.advanced,
+      locks
+    };
+  };
+
+  switch (op.type) {
+    case 'createQuestion': {
+      const existing = await workspace.listQuestions();
+      const question = await workspace.insertQuestion({
+        surveyId,
+        question: op.question.question,
+        questionType: op.question.questionType,
+        required: op.question.required,
+        helpText: op.question.helpText ?? null,
+        order: existing.reduce((max, q) => Math.max(max, q.order), 0) + 1,
+        options: null,
+        customValidation: null,
+        sliderConfig: null,
+        scenarioText: null,
+        displayLogic: null
+      });
+      return applied(
+        { ...description, entityId: question.id, previousValue: null, newValue: question },
+        { question },
+        touchedKeys(op, { questionId: question.id })
+      );
+    }
+
+    case 'updateQuestion': {
+      const question = await workspace.getQuestion(op.questionId);
+      if (!question) {
+        return conflict('missing', null, op.value);
+      }
+      const current = question[op.field];
+      if (concurrent && !sameValue(current, op.value)) {
+        return conflict('concurrent', current, op.value);
+      }
+      const updated = await workspace.updateQuestion(op.questionId, { [op.field]: op.value });
+      return applied(
+        { ...description, previousValue: current, newValue: op.value },
+        { question: updated },
+        touchedKeys(op)
+      );
+    }
+
+    case 'deleteQuestion': {
+      const question = await workspace.getQuestion(op.questionId);
+      if (!question) {
+        return conflict('missing', null, null);
+      }
+      if (concurrent) {
+        return conflict('concurrent', question, null);
+      }
+      await workspace.deleteQuestion(op.questionId);
+      return applied(
+        { ...description, previousValue: question, newValue: null },
+        { deletedQuestionId: op.questionId },
+        touchedKeys(op),
+        locksWithoutQuestion(context.locks, op.questionId)
+      );
+    }
+
+    case 'reorderQuestions': {
+      const questions = await workspace.listQuestions();
+      const currentOrder = questions.map(q => q.id);
+      if (concurrent) {
+        return conflict('concurrent', currentOrder, op.questionIds);
+      }
+      const before = new Map(questions.map(q => [q.id, q]));
+      const reordered = reorderQuestionList(questions, op.questionIds);
+      const logicKeys: string[] = [];
+      for (const question of reordered) {
+        const previous = before.get(question.id)!;
+        const logicChanged = !sameValue(previous.displayLogic, question.displayLogic);
+        if (previous.order !== question.order || logicChanged) {
+          await workspace.updateQuestion(question.id, {
+            order: question.order,
+            ...(logicChanged ? { displayLogic: question.displayLogic } : {})
+          });
+        }
+        if (logicChanged) {
+          logicKeys.push(versionKeys.questionField(question.id, 'displayLogic'));
+        }
+      }
+      const questionOrder = reordered.map(q => q.id);
+      return applied(
+        { ...description, previousValue: currentOrder, newValue: questionOrder },
+        { questionOrder },
+        [...touchedKeys(op), ...logicKeys]
+      );
+    }
+
+    case 'createOption':
+    case 'updateOption':
+    case 'deleteOption':
+    case 'reorderOptions': {
+      const question = await workspace.getQuestion(op.questionId);
+      const newOptionId = op.type === 'createOption' ? `opt_${uuidv4().slice(0, 8)}` : undefined;
+      const change = question ? applyOptionOperation(question.options, op, newOptionId) : null;
+      if (!question || !change) {
+        return conflict('missing', null, op.type === 'updateOption' ? op.value : null);
+      }
+      if (concurrent && !(op.type === 'updateOption' && sameValue(change.previousValue, op.value))) {
+        return conflict('concurrent', change.previousValue, change.newValue);
+      }
+      const updated = await workspace.updateQuestion(op.questionId, { options: change.options });
+      return applied(
+        { ...description, previousValue: change.previousValue, newValue: change.newValue },
+        { question: updated },
+        touchedKeys(op, { optionId: newOptionId })
+      );
+    }
+
+    case 'updateSurvey': {
+      const survey = await workspace.getSurvey();
+      const current = survey[op.field] ?? null;
+      if (concurrent && !sameValue(current, op.value)) {
+        return conflict('concurrent', current, op.value);
+      }
+      const updated = await workspace.updateSurvey({ [op.field]: op.value });
+      return applied(
+        { ...description, previousValue: current, newValue: op.value },
+        { survey: updated },
+        touchedKeys(op)
+      );
+    }
+  }
+}
+
+/**
+ * The reply to the sender of an operation. Applied operations carry the
+ * sequence they were logged under and are what gets broadcast.
+ */
+export function toOutcome(
+  execution: OperationExecution,
+  op: CollaborationOperation,
+  actor: { userId: number; username: string },
+  sequence: number,
+  now: Date
+): OperationOutcome {
+  switch (execution.status) {
+    case 'rejected':
+      return {
+        status: 'rejected',
+        reason: 'locked',
+        message: `${execution.lock.username} is editing this ${execution.lock.elementType === 'surveySettings' ? 'survey' : execution.lock.elementType}`,
+        lock: execution.lock
+      };
+    case 'conflicted':
+      return {
+        status: 'conflicted',
+        reason: execution.reason,
+        message: execution.reason === 'missing'
+          ? 'What you edited has been deleted'
+          : 'Someone else changed this while you were editing it',
+        key: execution.key,
+        current: execution.current,
+        version: execution.version
+      };
+    case 'applied':
+      return {
+        status: 'applied',
+        change: {
+          sequence,
+          userId: actor.userId,
+          username: actor.username,
+          appliedAt: now.toISOString(),
+          operation: op,
+          entityType: execution.record.entityType,
+          entityId: execution.record.entityId,
+          changeType: execution.record.changeType,
+          field: execution.record.field,
+          ...execution.result,
+          versions: execution.advanced
+        }
+      };
+  }
+}
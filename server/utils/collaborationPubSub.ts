@@ -0,0 +1,127 @@
+import { Logger } from './Logger';
+
+const logger = new Logger('CollaborationPubSub');
+
+/**
+ * Collaboration Pub/Sub
+ *
+ * Carries collaboration events between server instances so several nodes can
+ * serve one session. Each node subscribes to the channels of the sessions it
+ * has loaded and publishes what its own participants do.
+ *
+ * - InMemoryPubSub: one process; also lets tests run several managers as nodes
+ * - RedisPubSub:    Redis channels, for running more than one instance
+ *
+ * COLLABORATION_PUBSUB=redis (with REDIS_URL) selects Redis; the default is in-memory.
+ */
+
+export type PubSubHandler = (message: string) => void | Promise<void>;
+
+export interface PubSubAdapter {
+  publish(channel: string, message: string): Promise<void>;
+  // Resolves to a function that removes this handler again
+  subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+export class InMemoryPubSub implements PubSubAdapter {
+  private channels = new Map<string, Set<PubSubHandler>>();
+
+  // Resolves once every subscriber has handled the message
+  async publish(channel: string, message: string): Promise<void> {
+    const handlers = Array.from(this.channels.get(channel) ?? []);
+    await Promise.all(handlers.map(async handler => {
+      try {
+        await handler(message);
+      } catch (error) {
+        logger.error(`[PUBSUB] Subscriber of ${channel} failed:`, error);
+      }
+    }));
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, new Set());
+    }
+    this.channels.get(channel)!.add(handler);
+
+    return async () => {
+      const handlers = this.channels.get(channel);
+      handlers?.delete(handler);
+      if (handlers && handlers.size === 0) {
+        this.channels.delete(channel);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+  }
+}
+
+export class RedisPubSub implements PubSubAdapter {
+  private publisher: any = null;
+  private subscriber: any = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor(private url: string) {}
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.connect();
+    await this.publisher.publish(channel, message);
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    await this.connect();
+    const listener = (message: string) => {
+      Promise.resolve(handler(message)).catch(error => {
+        logger.error(`[PUBSUB] Subscriber of ${channel} failed:`, error);
+      });
+    };
+    await this.subscriber.subscribe(channel, listener);
+    return async () => {
+      await this.subscriber.unsubscribe(channel, listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.publisher?.quit(), this.subscriber?.quit()]);
+    this.publisher = null;
+    this.subscriber = null;
+    this.connecting = null;
+  }
+
+  // Redis needs separate connections for publishing and subscribing
+  private connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const { createClient } = await import('redis');
+        const publisher = createClient({ url: this.url });
+        publisher.on('error', (err: Error) => logger.error('[PUBSUB] Redis publisher error:', err));
+        const subscriber = publisher.duplicate();
+        subscriber.on('error', (err: Error) => logger.error('[PUBSUB] Redis subscriber error:', err));
+        await Promise.all([publisher.connect(), subscriber.connect()]);
+        this.publisher = publisher;
+        this.subscriber = subscriber;
+        logger.info('[PUBSUB] Connected to Redis for collaboration events');
+      })().catch(error => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+}
+
+/**
+ * The adapter selected by COLLABORATION_PUBSUB
+ */
+export function createCollaborationPubSub(): PubSubAdapter {
+  if (process.env.COLLABORATION_PUBSUB === 'redis') {
+    if (process.env.REDIS_URL) {
+      return new RedisPubSub(process.env.REDIS_URL);
+    }
+    logger.warn('[PUBSUB] COLLABORATION_PUBSUB=redis but REDIS_URL is not set; sessions will not be shared between instances');
+  }
+  return new InMemoryPubSub();
+}
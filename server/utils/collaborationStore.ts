@@ -0,0 +1,386 @@
+import { db } from '../db';
+import {
+  collaborationSessions,
+  collaborationParticipants,
+  collaborationChanges,
+  collaborationComments,
+  surveyQuestions,
+  surveys,
+  users
+} from '../../shared/schema';
+import { and, asc, eq, inArray, max } from 'drizzle-orm';
+import {
+  CollaborationOperation,
+  CollaborationWorkspace,
+  EditableQuestion,
+  ElementLock,
+  FieldVersions,
+  LockRequest,
+  OperationOutcome,
+  SURVEY_EDIT_FIELDS,
+  SurveySettings,
+  acquireLock,
+  activeLocks,
+  releaseLock
+} from '../../shared/collaborationOps';
+import { ChangeRecord, NewQuestionValues, SurveyWorkspace, executeOperation, toOutcome } from './collaborationOperations';
+import { approvalService } from '../services/approval-service';
+
+/**
+ * Collaboration Store
+ *
+ * Write-through persistence for CollaborationManager. Operations are applied
+ * to the session's survey and logged in collaboration_changes; the session
+ * row holds the field versions and element locks and is locked for the
+ * duration of an operation, so sessions served by several nodes see one
+ * order of changes. Comments are rows in collaboration_comments and presence
+ * is kept in collaboration_participants.
+ */
+
+// Comment on a session, or on one of its questions
+export interface Comment {
+  id: string;
+  userId: number;
+  username: string;
+  text: string;
+  createdAt: Date;
+  questionId: number | null;
+  resolved: boolean;
+  resolvedAt?: Date;
+  resolvedBy?: number;
+}
+
+export interface StoredSession {
+  comments: Comment[];
+}
+
+export interface Collaborator {
+  userId: number;
+  username: string;
+}
+
+export type LockOutcome =
+  | { acquired: true; lock: ElementLock; locks: ElementLock[] }
+  | { acquired: false; lock: ElementLock; locks: ElementLock[] };
+
+// Locks are held this long when a session has no lock timeout of its own
+export const DEFAULT_LOCK_TIMEOUT_MS = 30000;
+
+export interface CollaborationStore {
+  // null when the session does not exist
+  loadSession(sessionId: number): Promise<StoredSession | null>;
+  loadWorkspace(sessionId: number, now: Date): Promise<CollaborationWorkspace | null>;
+  applyOperation(sessionId: number, actor: Collaborator, op: CollaborationOperation, now: Date): Promise<OperationOutcome | null>;
+  acquireLock(sessionId: number, actor: Collaborator, element: LockRequest, now: Date): Promise<LockOutcome | null>;
+  releaseLock(sessionId: number, userId: number, element: LockRequest, now: Date): Promise<{ released: boolean; locks: ElementLock[] } | null>;
+  addComment(sessionId: number, comment: Omit<Comment, 'id'>): Promise<Comment>;
+  resolveComment(sessionId: number, commentId: string, userId: number): Promise<Comment | null>;
+  updatePresence(sessionId: number, userId: number, status: 'online' | 'idle' | 'offline'): Promise<void>;
+}
+
+// Comments that are not about a question belong to the session
+const SESSION_COMMENT_ENTITY = 'document';
+const QUESTION_COMMENT_ENTITY = 'question';
+
+const questionColumns = {
+  id: surveyQuestions.id,
+  surveyId: surveyQuestions.surveyId,
+  question: surveyQuestions.question,
+  questionType: surveyQuestions.questionType,
+  required: surveyQuestions.required,
+  helpText: surveyQuestions.helpText,
+  order: surveyQuestions.order,
+  options: surveyQuestions.options,
+  customValidation: surveyQuestions.customValidation,
+  sliderConfig: surveyQuestions.sliderConfig,
+  scenarioText: surveyQuestions.scenarioText,
+  displayLogic: surveyQuestions.displayLogic
+};
+
+const surveyColumns = {
+  title: surveys.title,
+  description: surveys.description,
+  estimatedTime: surveys.estimatedTime,
+  customWelcomeMessage: surveys.customWelcomeMessage,
+  customCompletionMessage: surveys.customCompletionMessage
+};
+
+const toSettings = (row: Record<string, unknown> | undefined): SurveySettings =>
+  Object.fromEntries(SURVEY_EDIT_FIELDS.map(field => [field, row?.[field] ?? null]));
+
+function toComment(row: any): Comment {
+  return {
+    id: String(row.id),
+    userId: row.userId,
+    username: row.username ?? 'Unknown',
+    text: row.comment,
+    createdAt: row.createdAt,
+    questionId: row.entityType === QUESTION_COMMENT_ENTITY ? row.entityId : null,
+    resolved: !!row.resolved,
+    resolvedAt: row.resolvedAt ?? undefined,
+    resolvedBy: row.resolvedById ?? undefined
+  };
+}
+
+/**
+ * The survey of a session, read and written inside the session's transaction
+ */
+class DatabaseSurveyWorkspace implements SurveyWorkspace {
+  constructor(private tx: any, private surveyId: number) {}
+
+  async getQuestion(questionId: number): Promise<EditableQuestion | null> {
+    const [question] = await this.tx.select(questionColumns)
+      .from(surveyQuestions)
+      .where(and(eq(surveyQuestions.id, questionId), eq(surveyQuestions.surveyId, this.surveyId)));
+    return question ?? null;
+  }
+
+  async listQuestions(): Promise<EditableQuestion[]> {
+    return this.tx.select(questionColumns)
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.surveyId, this.surveyId))
+      .orderBy(asc(surveyQuestions.order), asc(surveyQuestions.id));
+  }
+
+  async insertQuestion(values: NewQuestionValues): Promise<EditableQuestion> {
+    const [question] = await this.tx.insert(surveyQuestions)
+      .values({ ...values, createdAt: new Date(), updatedAt: new Date() })
+      .returning(questionColumns);
+    return question;
+  }
+
+  async updateQuestion(questionId: number, values: Partial<NewQuestionValues>): Promise<EditableQuestion> {
+    const [question] = await this.tx.update(surveyQuestions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(surveyQuestions.id, questionId), eq(surveyQuestions.surveyId, this.surveyId)))
+      .returning(questionColumns);
+    return question;
+  }
+
+  async deleteQuestion(questionId: number): Promise<void> {
+    await this.tx.delete(surveyQuestions)
+      .where(and(eq(surveyQuestions.id, questionId), eq(surveyQuestions.surveyId, this.surveyId)));
+  }
+
+  async getSurvey(): Promise<SurveySettings> {
+    const [survey] = await this.tx.select(surveyColumns).from(surveys).where(eq(surveys.id, this.surveyId));
+    return toSettings(survey);
+  }
+
+  async updateSurvey(values: SurveySettings): Promise<SurveySettings> {
+    const [survey] = await this.tx.update(surveys)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(surveys.id, this.surveyId))
+      .returning(surveyColumns);
+    return toSettings(survey);
+  }
+}
+
+export class DatabaseCollaborationStore implements CollaborationStore {
+  async loadSession(sessionId: number): Promise<StoredSession | null> {
+    const session = await db.query.collaborationSessions.findFirst({
+      where: eq(collaborationSessions.id, sessionId),
+      columns: { id: true }
+    });
+    if (!session) return null;
+
+    const comments = await db.select({
+      id: collaborationComments.id,
+      userId: collaborationComments.userId,
+      username: users.username,
+      entityType: collaborationComments.entityType,
+      entityId: collaborationComments.entityId,
+      comment: collaborationComments.comment,
+      createdAt: collaborationComments.createdAt,
+      resolved: collaborationComments.resolved,
+      resolvedAt: collaborationComments.resolvedAt,
+      resolvedById: collaborationComments.resolvedById
+    })
+      .from(collaborationComments)
+      .leftJoin(users, eq(users.id, collaborationComments.userId))
+      .where(and(
+        eq(collaborationComments.sessionId, sessionId),
+        inArray(collaborationComments.entityType, [SESSION_COMMENT_ENTITY, QUESTION_COMMENT_ENTITY])
+      ))
+      .orderBy(asc(collaborationComments.id));
+
+    return { comments: comments.map(toComment) };
+  }
+
+  async loadWorkspace(sessionId: number, now: Date): Promise<CollaborationWorkspace | null> {
+    const session = await db.query.collaborationSessions.findFirst({
+      where: eq(collaborationSessions.id, sessionId),
+      columns: { id: true, surveyId: true, fieldVersions: true, currentLocks: true, lockTimeout: true }
+    });
+    if (!session) return null;
+
+    const workspace = new DatabaseSurveyWorkspace(db, session.surveyId);
+    const [[latest], questions, survey] = await Promise.all([
+      db.select({ sequence: max(collaborationChanges.version) })
+        .from(collaborationChanges)
+        .where(eq(collaborationChanges.sessionId, sessionId)),
+      workspace.listQuestions(),
+      workspace.getSurvey()
+    ]);
+
+    return {
+      sessionId,
+      surveyId: session.surveyId,
+      survey,
+      questions,
+      fieldVersions: (session.fieldVersions ?? {}) as FieldVersions,
+      locks: activeLocks(session.currentLocks, now),
+      lockTimeout: session.lockTimeout ?? DEFAULT_LOCK_TIMEOUT_MS,
+      sequence: latest?.sequence ?? 0
+    };
+  }
+
+  async applyOperation(sessionId: number, actor: Collaborator, op: CollaborationOperation, now: Date): Promise<OperationOutcome | null> {
+    return db.transaction(async (tx: any) => {
+      // Holds every other operation and lock change of the session until this one is done
+      const [session] = await tx.select({
+        surveyId: collaborationSessions.surveyId,
+        fieldVersions: collaborationSessions.fieldVersions,
+        currentLocks: collaborationSessions.currentLocks
+      })
+        .from(collaborationSessions)
+        .where(eq(collaborationSessions.id, sessionId))
+        .for('update');
+      if (!session) return null;
+
+      const execution = await executeOperation(new DatabaseSurveyWorkspace(tx, session.surveyId), op, {
+        surveyId: session.surveyId,
+        userId: actor.userId,
+        versions: (session.fieldVersions ?? {}) as FieldVersions,
+        locks: activeLocks(session.currentLocks, now)
+      });
+      if (execution.status === 'rejected') {
+        return toOutcome(execution, op, actor, 0, now);
+      }
+
+      if (execution.status === 'conflicted') {
+        await this.recordChange(tx, sessionId, actor, execution.record, 'conflicted', null, now);
+        return toOutcome(execution, op, actor, 0, now);
+      }
+
+      // An active survey under an approval workflow only takes approved content; throwing rolls the change back
+      await approvalService.assertLiveContentApproved(tx, session.surveyId);
+
+      const [latest] = await tx.select({ sequence: max(collaborationChanges.version) })
+        .from(collaborationChanges)
+        .where(eq(collaborationChanges.sessionId, sessionId));
+      const sequence = (latest?.sequence ?? 0) + 1;
+
+      await this.recordChange(tx, sessionId, actor, execution.record, 'applied', sequence, now);
+      await tx.update(collaborationSessions)
+        .set({ fieldVersions: execution.versions, currentLocks: execution.locks, lastActiveAt: now })
+        .where(eq(collaborationSessions.id, sessionId));
+
+      return toOutcome(execution, op, actor, sequence, now);
+    });
+  }
+
+  async acquireLock(sessionId: number, actor: Collaborator, element: LockRequest, now: Date): Promise<LockOutcome | null> {
+    return db.transaction(async (tx: any) => {
+      const [session] = await tx.select({
+        currentLocks: collaborationSessions.currentLocks,
+        lockTimeout: collaborationSessions.lockTimeout
+      })
+        .from(collaborationSessions)
+        .where(eq(collaborationSessions.id, sessionId))
+        .for('update');
+      if (!session) return null;
+
+      const locks = activeLocks(session.currentLocks, now);
+      const result = acquireLock(locks, { ...element, ...actor }, now, session.lockTimeout ?? DEFAULT_LOCK_TIMEOUT_MS);
+      if (!result.acquired) {
+        return { ...result, locks };
+      }
+
+      await tx.update(collaborationSessions)
+        .set({ currentLocks: result.locks, lastActiveAt: now })
+        .where(eq(collaborationSessions.id, sessionId));
+      return result;
+    });
+  }
+
+  async releaseLock(sessionId: number, userId: number, element: LockRequest, now: Date): Promise<{ released: boolean; locks: ElementLock[] } | null> {
+    return db.transaction(async (tx: any) => {
+      const [session] = await tx.select({ currentLocks: collaborationSessions.currentLocks })
+        .from(collaborationSessions)
+        .where(eq(collaborationSessions.id, sessionId))
+        .for('update');
+      if (!session) return null;
+
+      const result = releaseLock(activeLocks(session.currentLocks, now), element, userId);
+      // Written even when nothing was released, so expired locks are cleared out
+      await tx.update(collaborationSessions)
+        .set({ currentLocks: result.locks })
+        .where(eq(collaborationSessions.id, sessionId));
+      return result;
+    });
+  }
+
+  async addComment(sessionId: number, comment: Omit<Comment, 'id'>): Promise<Comment> {
+    const [row] = await db.insert(collaborationComments).values({
+      sessionId,
+      userId: comment.userId,
+      entityType: comment.questionId ? QUESTION_COMMENT_ENTITY : SESSION_COMMENT_ENTITY,
+      entityId: comment.questionId ?? sessionId,
+      comment: comment.text,
+      resolved: false,
+      createdAt: comment.createdAt
+    }).returning();
+
+    return toComment({ ...row, username: comment.username });
+  }
+
+  async resolveComment(sessionId: number, commentId: string, userId: number): Promise<Comment | null> {
+    const id = parseInt(commentId);
+    if (isNaN(id)) return null;
+
+    const [row] = await db.update(collaborationComments)
+      .set({ resolved: true, resolvedById: userId, resolvedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(collaborationComments.id, id), eq(collaborationComments.sessionId, sessionId)))
+      .returning();
+    if (!row) return null;
+
+    const author = await db.query.users.findFirst({ where: eq(users.id, row.userId), columns: { username: true } });
+    return toComment({ ...row, username: author?.username });
+  }
+
+  async updatePresence(sessionId: number, userId: number, status: 'online' | 'idle' | 'offline'): Promise<void> {
+    await db.insert(collaborationParticipants)
+      .values({ sessionId, userId, status, lastActiveAt: new Date() })
+      .onConflictDoUpdate({
+        target: [collaborationParticipants.sessionId, collaborationParticipants.userId],
+        set: { status, lastActiveAt: new Date(), updatedAt: new Date() }
+      });
+  }
+
+  private async recordChange(
+    tx: any,
+    sessionId: number,
+    actor: Collaborator,
+    record: ChangeRecord,
+    status: 'applied' | 'conflicted',
+    sequence: number | null,
+    now: Date
+  ): Promise<void> {
+    await tx.insert(collaborationChanges).values({
+      sessionId,
+      userId: actor.userId,
+      entityType: record.entityType,
+      entityId: record.entityId,
+      changeType: record.changeType,
+      field: record.field,
+      previousValue: record.previousValue ?? null,
+      newValue: record.newValue ?? null,
+      baseVersion: record.baseVersion,
+      appliedAt: now,
+      appliedBy: status === 'applied' ? actor.userId : null,
+      status,
+      version: sequence
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { Logger } from './Logger';
+
+const logger = new Logger('CredentialCrypto');
+
+/**
+ * Credential Encryption
+ *
+ * Integration credentials (API keys, secrets and OAuth tokens) are stored
+ * encrypted with AES-256-GCM as `enc:v1:<iv>:<auth tag>:<ciphertext>` (base64
+ * parts). The key is derived from INTEGRATION_ENCRYPTION_KEY, falling back to
+ * SESSION_SECRET in development. Values without the prefix are legacy
+ * plaintext and are returned as they are.
+ */
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (!cachedKey) {
+    const secret = process.env.INTEGRATION_ENCRYPTION_KEY;
+    if (!secret) {
+      logger.warn('[CREDENTIALS] INTEGRATION_ENCRYPTION_KEY is not set; deriving the credential key from SESSION_SECRET');
+    }
+    const material = secret || process.env.SESSION_SECRET || 'personalysispro-secret-key';
+    cachedKey = crypto.createHash('sha256').update(material).digest();
+  }
+  return cachedKey;
+}
+
+export function isEncryptedCredential(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a credential for storage. Every value is encrypted, including input
+ * that happens to start with the prefix, so nothing can be stored as plaintext.
+ */
+export function encryptCredential(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypt a stored credential; throws when it was encrypted with another key or tampered with
+ */
+export function decryptCredential(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (!isEncryptedCredential(value)) return value;
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  if (!iv || !tag || ciphertext === undefined) {
+    throw new Error('Malformed encrypted credential');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,382 @@
+import en from '../../client/src/locales/translations/en.json';
+import de from '../../client/src/locales/translations/de.json';
+import es from '../../client/src/locales/translations/es.json';
+import fr from '../../client/src/locales/translations/fr.json';
+import it from '../../client/src/locales/translations/it.json';
+import ar from '../../client/src/locales/translations/ar.json';
+import type { DataSubjectRequestType } from '../../shared/dataSubjectRequests';
+
+/**
+ * Email Templates
+ *
+ * Renders the HTML and plain-text bodies of outgoing emails from the client
+ * translation files. Email copy lives under the `emails` namespace; labels
+ * the app already translates (button texts, ticket statuses) are reused from
+ * their existing keys so both stay in sync.
+ */
+
+const TRANSLATIONS: Record<string, unknown> = { en, de, es, fr, it, ar };
+
+export const SUPPORTED_EMAIL_LOCALES = ['en', 'de', 'es', 'fr', 'it', 'ar'] as const;
+export type EmailLocale = typeof SUPPORTED_EMAIL_LOCALES[number];
+
+const RTL_LOCALES: EmailLocale[] = ['ar'];
+
+export const EMAIL_TEMPLATES = [
+  'verification',
+  'password_reset',
+  'invitation',
+  'newsletter',
+  'support_ticket',
+  'account_lockout',
+  'welcome',
+  'privacy_request_verification',
+  'privacy_request_completed',
+  'privacy_request_rejected'
+] as const;
+export type EmailTemplate = typeof EMAIL_TEMPLATES[number];
+
+export interface EmailTemplateData {
+  verification: { name: string; link: string };
+  password_reset: { name: string; link: string };
+  invitation: { inviterName: string; companyName: string; role: string; link: string };
+  newsletter: { subject: string; content: string; unsubscribeUrl: string; name?: string };
+  support_ticket: {
+    name?: string;
+    ticketNumber: string;
+    ticketSubject: string;
+    status?: string;
+    comment?: string;
+    link: string;
+  };
+  account_lockout: { name: string; unlockTime: Date };
+  welcome: { name: string; link?: string };
+  privacy_request_verification: { requestType: DataSubjectRequestType; link: string };
+  // link and expiresAt are set for access and export requests, which end with a download
+  privacy_request_completed: { requestType: DataSubjectRequestType; link?: string; expiresAt?: Date };
+  privacy_request_rejected: { requestType: DataSubjectRequestType; reason: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Layout-independent content of an email; rendered to both HTML and text
+interface EmailContent {
+  subject: string;
+  greetingName?: string;
+  paragraphs: string[];
+  quote?: string;
+  action?: { label: string; url: string };
+  notes?: string[];
+  footer?: string;
+  unsubscribe?: { label: string; url: string };
+}
+
+// Ticket statuses with an existing translated label in the admin ticket views
+const TICKET_STATUS_KEYS: Record<string, string> = {
+  new: 'components.admin.supportTickets.open',
+  open: 'components.admin.supportTickets.open',
+  in_progress: 'components.admin.supportTickets.inProgress',
+  resolved: 'components.admin.supportTickets.resolved',
+  closed: 'components.admin.supportTickets.closed'
+};
+
+/**
+ * Pick the first supported locale from a locale code or Accept-Language value
+ */
+export function resolveEmailLocale(raw?: string | null): EmailLocale {
+  if (!raw) return 'en';
+  for (const part of raw.split(',')) {
+    const code = part.split(';')[0].trim().slice(0, 2).toLowerCase();
+    if ((SUPPORTED_EMAIL_LOCALES as readonly string[]).includes(code)) {
+      return code as EmailLocale;
+    }
+  }
+  return 'en';
+}
+
+const lookup = (locale: string, key: string): string | undefined => {
+  let node: unknown = TRANSLATIONS[locale];
+  for (const part of key.split('.')) {
+    if (!node || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+};
+
+const interpolate = (value: string, vars: Record<string, string>) =>
+  value.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in vars ? vars[name] : match));
+
+/**
+ * Translate a key for the locale, falling back to English and then the key
+ */
+export function translateEmail(locale: EmailLocale, key: string, vars: Record<string, string> = {}): string {
+  return interpolate(lookup(locale, key) ?? lookup('en', key) ?? key, vars);
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+function buildContent<T extends EmailTemplate>(template: T, data: EmailTemplateData[T], locale: EmailLocale): EmailContent {
+  const t = (key: string, vars: Record<string, string> = {}) => translateEmail(locale, key, vars);
+
+  switch (template) {
+    case 'verification': {
+      const d = data as EmailTemplateData['verification'];
+      return {
+        subject: t('emails.verification.subject'),
+        greetingName: d.name,
+        paragraphs: [t('emails.verification.intro')],
+        action: { label: t('emails.verification.action'), url: d.link },
+        notes: [t('emails.verification.expiry'), t('emails.verification.ignore')]
+      };
+    }
+    case 'password_reset': {
+      const d = data as EmailTemplateData['password_reset'];
+      return {
+        subject: t('emails.passwordReset.subject'),
+        greetingName: d.name,
+        paragraphs: [t('emails.passwordReset.intro')],
+        action: { label: t('auth.resetPassword.resetButton'), url: d.link },
+        notes: [t('emails.passwordReset.expiry'), t('emails.passwordReset.ignore')]
+      };
+    }
+    case 'invitation': {
+      const d = data as EmailTemplateData['invitation'];
+      const vars = { inviterName: d.inviterName, companyName: d.companyName, role: d.role };
+      return {
+        subject: t('emails.invitation.subject', vars),
+        paragraphs: [t('emails.invitation.intro', vars)],
+        action: { label: t('emails.invitation.action'), url: d.link },
+        notes: [t('emails.invitation.expiry')]
+      };
+    }
+    case 'newsletter': {
+      const d = data as EmailTemplateData['newsletter'];
+      return {
+        subject: d.subject,
+        greetingName: d.name,
+        paragraphs: d.content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean),
+        footer: t('emails.newsletter.footer'),
+        unsubscribe: { label: t('emails.newsletter.unsubscribe'), url: d.unsubscribeUrl }
+      };
+    }
+    case 'support_ticket': {
+      const d = data as EmailTemplateData['support_ticket'];
+      const paragraphs: string[] = [];
+      if (d.status) {
+        const statusKey = TICKET_STATUS_KEYS[d.status];
+        paragraphs.push(t('emails.supportTicket.statusChanged', { status: statusKey ? t(statusKey) : humanize(d.status) }));
+      }
+      if (d.comment) {
+        paragraphs.push(t('emails.supportTicket.newComment'));
+      }
+      return {
+        subject: t('emails.supportTicket.subject', { ticketNumber: d.ticketNumber, ticketSubject: d.ticketSubject }),
+        greetingName: d.name,
+        paragraphs,
+        quote: d.comment,
+        action: { label: t('emails.supportTicket.action'), url: d.link }
+      };
+    }
+    case 'account_lockout': {
+      const d = data as EmailTemplateData['account_lockout'];
+      return {
+        subject: t('emails.accountLockout.subject'),
+        greetingName: d.name,
+        paragraphs: [
+          t('emails.accountLockout.intro'),
+          t('emails.accountLockout.unlock', { unlockTime: d.unlockTime.toLocaleString(locale) })
+        ],
+        notes: [t('emails.accountLockout.warning')]
+      };
+    }
+    case 'welcome': {
+      const d = data as EmailTemplateData['welcome'];
+      return {
+        subject: t('emails.welcome.subject'),
+        greetingName: d.name,
+        paragraphs: [t('emails.welcome.intro'), t('emails.welcome.nextSteps')],
+        ...(d.link ? { action: { label: t('header.dashboard'), url: d.link } } : {}),
+        notes: [t('emails.welcome.help')]
+      };
+    }
+    case 'privacy_request_verification': {
+      const d = data as EmailTemplateData['privacy_request_verification'];
+      return {
+        subject: t('emails.privacyRequest.verifySubject'),
+        paragraphs: [t('emails.privacyRequest.verifyIntro', { requestType: t(`emails.privacyRequest.types.${d.requestType}`) })],
+        action: { label: t('emails.privacyRequest.verifyAction'), url: d.link },
+        notes: [t('emails.privacyRequest.verifyExpiry'), t('emails.privacyRequest.verifyIgnore')],
+        footer: t('emails.privacyRequest.footer')
+      };
+    }
+    case 'privacy_request_completed': {
+      const d = data as EmailTemplateData['privacy_request_completed'];
+      const requestType = t(`emails.privacyRequest.types.${d.requestType}`);
+      return {
+        subject: t('emails.privacyRequest.completedSubject'),
+        paragraphs: [t(d.link ? 'emails.privacyRequest.completedDownload' : 'emails.privacyRequest.completedErasure', { requestType })],
+        ...(d.link ? { action: { label: t('emails.privacyRequest.downloadAction'), url: d.link } } : {}),
+        ...(d.expiresAt ? { notes: [t('emails.privacyRequest.downloadExpiry', { expiresAt: d.expiresAt.toLocaleString(locale) })] } : {}),
+        footer: t('emails.privacyRequest.footer')
+      };
+    }
+    case 'privacy_request_rejected': {
+      const d = data as EmailTemplateData['privacy_request_rejected'];
+      return {
+        subject: t('emails.privacyRequest.rejectedSubject'),
+        paragraphs: [t('emails.privacyRequest.rejectedIntro', { requestType: t(`emails.privacyRequest.types.${d.requestType}`) })],
+        quote: d.reason,
+        notes: [t('emails.privacyRequest.rejectedHelp')],
+        footer: t('emails.privacyRequest.footer')
+      };
+    }
+    default:
+      throw new Error(`Unknown email template: ${template}`);
+  }
+}
+
+function renderText(content: EmailContent, locale: EmailLocale): string {
+  const t = (key: string, vars: Record<string, string> = {}) => translateEmail(locale, key, vars);
+  const lines: string[] = [
+    content.greetingName ? t('emails.layout.greeting', { name: content.greetingName }) : t('emails.layout.greetingAnonymous'),
+    '',
+    ...content.paragraphs.flatMap(paragraph => [paragraph, ''])
+  ];
+
+  if (content.quote) {
+    lines.push(...content.quote.split('\n').map(line => `> ${line}`), '');
+  }
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`, '');
+  }
+  for (const note of content.notes ?? []) {
+    lines.push(note, '');
+  }
+
+  lines.push(t('emails.layout.signOff'), t('emails.layout.team'), '', '--', content.footer ?? t('emails.layout.footer'));
+  if (content.unsubscribe) {
+    lines.push(`${content.unsubscribe.label}: ${content.unsubscribe.url}`);
+  }
+  return lines.join('\n');
+}
+
+function renderHtml(content: EmailContent, locale: EmailLocale): string {
+  const t = (key: string, vars: Record<string, string> = {}) => translateEmail(locale, key, vars);
+  const dir = RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+  const greeting = content.greetingName
+    ? t('emails.layout.greeting', { name: content.greetingName })
+    : t('emails.layout.greetingAnonymous');
+
+  const paragraph = (text: string, style = '') =>
+    `<p style="margin:0 0 16px;${style}">${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+
+  const parts: string[] = [paragraph(greeting), ...content.paragraphs.map(text => paragraph(text))];
+
+  if (content.quote) {
+    parts.push(
+      `<blockquote style="margin:0 0 16px;padding:12px 16px;border-inline-start:4px solid #c7d2fe;background:#f5f7ff;color:#374151;">${escapeHtml(content.quote).replace(/\n/g, '<br>')}</blockquote>`
+    );
+  }
+  if (content.action) {
+    const url = escapeHtml(content.action.url);
+    parts.push(
+      `<p style="margin:24px 0;"><a href="${url}" style="display:inline-block;padding:12px 24px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;font-weight:600;">${escapeHtml(content.action.label)}</a></p>`,
+      paragraph(t('emails.layout.buttonFallback'), 'font-size:13px;color:#6b7280;'),
+      `<p style="margin:0 0 16px;font-size:13px;word-break:break-all;"><a href="${url}" style="color:#4f46e5;">${url}</a></p>`
+    );
+  }
+  for (const note of content.notes ?? []) {
+    parts.push(paragraph(note, 'font-size:14px;color:#4b5563;'));
+  }
+  parts.push(paragraph(`${t('emails.layout.signOff')}\n${t('emails.layout.team')}`));
+
+  const footer = [escapeHtml(content.footer ?? t('emails.layout.footer'))];
+  if (content.unsubscribe) {
+    footer.push(`<a href="${escapeHtml(content.unsubscribe.url)}" style="color:#6b7280;">${escapeHtml(content.unsubscribe.label)}</a>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;line-height:1.5;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #e5e7eb;font-size:20px;font-weight:700;color:#4f46e5;">PersonalysisPro</td></tr>
+<tr><td style="padding:32px;font-size:15px;">
+${parts.join('\n')}
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">${footer.join(' &middot; ')}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * Render the subject, HTML body and plain-text body of an email
+ */
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  locale: EmailLocale = 'en'
+): RenderedEmail {
+  const content = buildContent(template, data, locale);
+  return {
+    subject: content.subject,
+    html: renderHtml(content, locale),
+    text: renderText(content, locale)
+  };
+}
+
+// Sample data for the development preview endpoint
+export const EMAIL_PREVIEW_DATA: { [T in EmailTemplate]: EmailTemplateData[T] } = {
+  verification: { name: 'Alex', link: 'http://localhost:5000/api/verify-email?token=preview' },
+  password_reset: { name: 'Alex', link: 'http://localhost:5000/reset-password?token=preview' },
+  invitation: {
+    inviterName: 'Jordan Lee',
+    companyName: 'Acme Research',
+    role: 'business_user',
+    link: 'http://localhost:5000/accept-invitation?token=preview'
+  },
+  newsletter: {
+    subject: 'PersonalysisPro product update',
+    content: 'Shared report links now survive restarts and can be revoked at any time.\n\nBackups are written as compressed, checksummed archives.',
+    unsubscribeUrl: 'http://localhost:5000/unsubscribe?email=alex%40example.com',
+    name: 'Alex'
+  },
+  support_ticket: {
+    name: 'Alex',
+    ticketNumber: 'TICK-1042',
+    ticketSubject: 'Export stuck at 90%',
+    status: 'in_progress',
+    comment: 'We found the cause and are deploying a fix today.',
+    link: 'http://localhost:5000/dashboard'
+  },
+  account_lockout: { name: 'Alex', unlockTime: new Date(Date.UTC(2026, 0, 1, 12, 0)) },
+  welcome: { name: 'Alex', link: 'http://localhost:5000/dashboard' },
+  privacy_request_verification: { requestType: 'erasure', link: 'http://localhost:5000/privacy/requests?token=preview' },
+  privacy_request_completed: {
+    requestType: 'export',
+    link: 'http://localhost:5000/api/privacy/requests/download?token=preview',
+    expiresAt: new Date(Date.UTC(2026, 0, 8, 12, 0))
+  },
+  privacy_request_rejected: { requestType: 'access', reason: 'We hold no survey responses or other records for this email address.' }
+};
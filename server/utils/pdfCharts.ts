@@ -0,0 +1,128 @@
+// Charts for the PDF reports, drawn as vector paths so they stay sharp at any zoom
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  unit?: string;   // appended to the printed value, e.g. "%"
+}
+
+export interface RadarChartOptions {
+  x: number;       // left edge of the square the chart is drawn in
+  y: number;       // top edge
+  size: number;
+  max?: number;
+  color?: string;
+}
+
+export interface BarChartOptions {
+  x: number;
+  y: number;
+  width: number;
+  max?: number;
+  color?: string;
+  labelWidth?: number;
+}
+
+const GRID_COLOR = '#d1d5db';
+const LABEL_COLOR = '#374151';
+const DEFAULT_COLOR = '#2563eb';
+
+const BAR_HEIGHT = 14;
+const BAR_GAP = 6;
+
+// Radar charts need at least a triangle to be readable
+export const MIN_RADAR_AXES = 3;
+
+const formatValue = (datum: ChartDatum) =>
+  `${Number.isInteger(datum.value) ? datum.value : datum.value.toFixed(1)}${datum.unit ?? ''}`;
+
+/**
+ * Point on axis `index` of `count` at `fraction` of the radius; the first
+ * axis points straight up and the rest follow clockwise
+ */
+export function radarVertex(
+  cx: number,
+  cy: number,
+  radius: number,
+  index: number,
+  count: number,
+  fraction: number
+): [number, number] {
+  const angle = -Math.PI / 2 + (2 * Math.PI * index) / count;
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  return [cx + radius * clamped * Math.cos(angle), cy + radius * clamped * Math.sin(angle)];
+}
+
+export const barChartHeight = (count: number) => count * (BAR_HEIGHT + BAR_GAP);
+
+/**
+ * Spider chart of the scores with grid rings every fifth of the scale and
+ * the axis labels around the outside
+ */
+export function drawRadarChart(doc: PDFKit.PDFDocument, data: ChartDatum[], options: RadarChartOptions) {
+  const { size, max = 100, color = DEFAULT_COLOR } = options;
+  const count = data.length;
+  if (count < MIN_RADAR_AXES) return;
+
+  // Room for the labels around the chart
+  const radius = size / 2 - 40;
+  const cx = options.x + size / 2;
+  const cy = options.y + size / 2;
+
+  doc.save();
+  doc.lineWidth(0.5).strokeColor(GRID_COLOR);
+  for (let ring = 1; ring <= 5; ring++) {
+    const points = data.map((_, index) => radarVertex(cx, cy, radius, index, count, ring / 5));
+    doc.polygon(...points).stroke();
+  }
+  data.forEach((_, index) => {
+    const [ex, ey] = radarVertex(cx, cy, radius, index, count, 1);
+    doc.moveTo(cx, cy).lineTo(ex, ey).stroke();
+  });
+
+  const scorePoints = data.map((datum, index) => radarVertex(cx, cy, radius, index, count, datum.value / max));
+  doc.polygon(...scorePoints).fillOpacity(0.25).lineWidth(1.5).fillAndStroke(color, color);
+  doc.fillOpacity(1);
+  scorePoints.forEach(([px, py]) => doc.circle(px, py, 2).fill(color));
+
+  doc.font('Helvetica').fontSize(8).fillColor(LABEL_COLOR);
+  data.forEach((datum, index) => {
+    const [lx, ly] = radarVertex(cx, cy, radius + 14, index, count, 1);
+    const labelWidth = 80;
+    const align = Math.abs(lx - cx) < 1 ? 'center' : lx < cx ? 'right' : 'left';
+    const left = align === 'center' ? lx - labelWidth / 2 : align === 'right' ? lx - labelWidth : lx;
+    doc.text(`${datum.label} (${formatValue(datum)})`, left, ly - 4, { width: labelWidth, align, lineBreak: false, ellipsis: true });
+  });
+  doc.restore();
+}
+
+/**
+ * Horizontal bars with the label on the left and the value after the bar;
+ * returns the height drawn
+ */
+export function drawBarChart(doc: PDFKit.PDFDocument, data: ChartDatum[], options: BarChartOptions): number {
+  const { x, y, width, color = DEFAULT_COLOR, labelWidth = 140 } = options;
+  const max = options.max ?? Math.max(...data.map(d => d.value), 0);
+  const valueWidth = 50;
+  const trackWidth = width - labelWidth - valueWidth;
+
+  doc.save();
+  doc.font('Helvetica').fontSize(9);
+  data.forEach((datum, index) => {
+    const top = y + index * (BAR_HEIGHT + BAR_GAP);
+    const barWidth = max > 0 ? Math.max((Math.max(datum.value, 0) / max) * trackWidth, 0) : 0;
+
+    doc.fillColor(LABEL_COLOR).text(datum.label, x, top + 3, { width: labelWidth - 8, lineBreak: false, ellipsis: true });
+    doc.rect(x + labelWidth, top, trackWidth, BAR_HEIGHT).fill('#f3f4f6');
+    if (barWidth > 0) {
+      doc.rect(x + labelWidth, top, barWidth, BAR_HEIGHT).fill(color);
+    }
+    doc.fillColor(LABEL_COLOR).text(formatValue(datum), x + labelWidth + trackWidth + 6, top + 3, {
+      width: valueWidth - 6,
+      lineBreak: false
+    });
+  });
+  doc.restore();
+
+  return barChartHeight(data.length);
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { Logger } from './Logger';
+import type { CompletionCertificate, SignedCompletionCertificate } from '../../shared/dataSubjectRequests';
+
+const logger = new Logger('PrivacyCertificate');
+
+/**
+ * Privacy Request Certificates
+ *
+ * Completed data subject requests get a certificate signed with HMAC-SHA256
+ * over its canonical JSON (keys sorted), so a certificate copied out of the
+ * audit log can later be shown to be unaltered. The key comes from
+ * PRIVACY_CERTIFICATE_SECRET, falling back to SESSION_SECRET in development.
+ */
+
+let cachedSecret: string | null = null;
+
+function getSecret(): string {
+  if (!cachedSecret) {
+    const secret = process.env.PRIVACY_CERTIFICATE_SECRET;
+    if (!secret) {
+      logger.warn('[PRIVACY] PRIVACY_CERTIFICATE_SECRET is not set; signing certificates with SESSION_SECRET');
+    }
+    cachedSecret = secret || process.env.SESSION_SECRET || 'personalysispro-secret-key';
+  }
+  return cachedSecret;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal content always serialises the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Stable pseudonym of an email address for certificates and logs
+ */
+export function subjectFingerprint(email: string): string {
+  return crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+const sign = (certificate: CompletionCertificate) =>
+  crypto.createHmac('sha256', getSecret()).update(canonicalJson(certificate)).digest('hex');
+
+export function signCompletionCertificate(certificate: CompletionCertificate): SignedCompletionCertificate {
+  return { certificate, algorithm: 'HMAC-SHA256', signature: sign(certificate) };
+}
+
+export function verifyCompletionCertificate(signed: SignedCompletionCertificate): boolean {
+  if (signed?.algorithm !== 'HMAC-SHA256' || typeof signed.signature !== 'string') return false;
+  const expected = Buffer.from(sign(signed.certificate));
+  const given = Buffer.from(signed.signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
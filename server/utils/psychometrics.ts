@@ -0,0 +1,226 @@
+import { TraitModel } from '../../shared/traitModel';
+import { ScorableAnswer, ScorableQuestion, scoreTraitItems } from './traitScoring';
+
+/**
+ * Psychometric reliability statistics
+ *
+ * Works on the rule-based item scores from traitScoring: every question that
+ * carries weights for a trait is an item of that trait, scored 0-1 as the
+ * share of its possible range a respondent reached.
+ */
+
+// Below this many responses the statistics are reported but flagged as unreliable
+export const MIN_PSYCHOMETRIC_SAMPLE = 10;
+
+// Corrected item-total correlation below which an item is flagged as weak
+export const WEAK_ITEM_CORRELATION = 0.3;
+
+// Item difficulty (mean item score) outside this band means nearly everyone answers alike
+const DIFFICULTY_FLOOR = 0.1;
+const DIFFICULTY_CEILING = 0.9;
+
+export type ItemFlag =
+  | 'low_item_total_correlation'
+  | 'negative_item_total_correlation'
+  | 'no_variance'
+  | 'too_easy'
+  | 'too_hard'
+  | 'alpha_improves_if_removed';
+
+export interface PsychometricQuestion extends ScorableQuestion {
+  question?: string | null;
+}
+
+export interface ItemStatistics {
+  questionId: number;
+  question: string;
+  respondents: number;
+  // Mean item score on a 0-1 scale; high values mean the keyed answer is common
+  difficulty: number | null;
+  itemTotalCorrelation: number | null;
+  alphaIfDeleted: number | null;
+  flags: ItemFlag[];
+}
+
+export interface TraitReliability {
+  trait: string;
+  category: string;
+  itemCount: number;
+  // Respondents who answered every item of the trait
+  completeCases: number;
+  alpha: number | null;
+  interpretation: 'excellent' | 'good' | 'acceptable' | 'questionable' | 'poor' | 'unacceptable' | null;
+  items: ItemStatistics[];
+}
+
+export interface WeakItem {
+  trait: string;
+  questionId: number;
+  question: string;
+  flags: ItemFlag[];
+}
+
+export interface PsychometricsReport {
+  responseCount: number;
+  hasEnoughData: boolean;
+  minimumSample: number;
+  message?: string;
+  traits: TraitReliability[];
+  weakItems: WeakItem[];
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+// Sample variance (n - 1)
+const variance = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((total, value) => total + (value - m) ** 2, 0) / (values.length - 1);
+};
+
+const correlation = (xs: number[], ys: number[]): number | null => {
+  if (xs.length < 3) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    sx += (xs[i] - mx) ** 2;
+    sy += (ys[i] - my) ** 2;
+  }
+  return sx > 0 && sy > 0 ? covariance / Math.sqrt(sx * sy) : null;
+};
+
+/**
+ * Cronbach's alpha for a respondents x items matrix of complete cases
+ */
+export function cronbachAlpha(matrix: number[][]): number | null {
+  const k = matrix[0]?.length ?? 0;
+  if (k < 2 || matrix.length < 2) return null;
+
+  const itemVariances = Array.from({ length: k }, (_, j) => variance(matrix.map(row => row[j])));
+  const totalVariance = variance(matrix.map(row => row.reduce((total, value) => total + value, 0)));
+  if (totalVariance === 0) return null;
+
+  return (k / (k - 1)) * (1 - itemVariances.reduce((total, value) => total + value, 0) / totalVariance);
+}
+
+const interpretAlpha = (alpha: number | null): TraitReliability['interpretation'] => {
+  if (alpha === null) return null;
+  if (alpha >= 0.9) return 'excellent';
+  if (alpha >= 0.8) return 'good';
+  if (alpha >= 0.7) return 'acceptable';
+  if (alpha >= 0.6) return 'questionable';
+  if (alpha >= 0.5) return 'poor';
+  return 'unacceptable';
+};
+
+/**
+ * Reliability per trait, per-item statistics and the list of weak items for a
+ * set of stored responses
+ */
+export function computePsychometrics(
+  model: TraitModel,
+  questions: PsychometricQuestion[],
+  responses: ScorableAnswer[][]
+): PsychometricsReport {
+  // itemScores[trait][questionId] -> score per respondent (undefined when unanswered)
+  const itemScores = new Map<string, Map<number, (number | undefined)[]>>();
+  model.forEach(trait => itemScores.set(trait.name, new Map()));
+
+  responses.forEach((answers, respondent) => {
+    for (const item of scoreTraitItems(model, questions, answers)) {
+      if (item.max <= item.min) continue;
+      const byQuestion = itemScores.get(item.trait)!;
+      if (!byQuestion.has(item.questionId)) byQuestion.set(item.questionId, new Array(responses.length));
+      byQuestion.get(item.questionId)![respondent] = (item.value - item.min) / (item.max - item.min);
+    }
+  });
+
+  const questionText = new Map(questions.map(q => [Number(q.id), q.question || `Question ${q.id}`]));
+
+  const traits: TraitReliability[] = model.map(trait => {
+    const byQuestion = itemScores.get(trait.name)!;
+    const questionIds = Array.from(byQuestion.keys()).sort((a, b) => a - b);
+    const columns = questionIds.map(id => byQuestion.get(id)!);
+
+    // Listwise deletion: alpha and correlations use respondents who answered every item
+    const matrix: number[][] = [];
+    for (let respondent = 0; respondent < responses.length; respondent++) {
+      const row = columns.map(column => column[respondent]);
+      if (row.every(value => value !== undefined)) matrix.push(row as number[]);
+    }
+
+    const alpha = cronbachAlpha(matrix);
+    const totals = matrix.map(row => row.reduce((total, value) => total + value, 0));
+
+    const items: ItemStatistics[] = questionIds.map((questionId, j) => {
+      const answered = columns[j].filter((value): value is number => value !== undefined);
+      const difficulty = answered.length > 0 ? mean(answered) : null;
+      const itemColumn = matrix.map(row => row[j]);
+      const itemTotalCorrelation = questionIds.length >= 2
+        ? correlation(itemColumn, totals.map((total, i) => total - itemColumn[i]))
+        : null;
+      const alphaIfDeleted = questionIds.length >= 3
+        ? cronbachAlpha(matrix.map(row => row.filter((_, column) => column !== j)))
+        : null;
+
+      const flags: ItemFlag[] = [];
+      if (answered.length >= 2 && variance(answered) === 0) flags.push('no_variance');
+      if (difficulty !== null && difficulty > DIFFICULTY_CEILING) flags.push('too_easy');
+      if (difficulty !== null && difficulty < DIFFICULTY_FLOOR) flags.push('too_hard');
+      if (itemTotalCorrelation !== null && itemTotalCorrelation < 0) flags.push('negative_item_total_correlation');
+      else if (itemTotalCorrelation !== null && itemTotalCorrelation < WEAK_ITEM_CORRELATION) flags.push('low_item_total_correlation');
+      if (alpha !== null && alphaIfDeleted !== null && alphaIfDeleted > alpha) flags.push('alpha_improves_if_removed');
+
+      return {
+        questionId,
+        question: questionText.get(questionId) || `Question ${questionId}`,
+        respondents: answered.length,
+        difficulty: round(difficulty),
+        itemTotalCorrelation: round(itemTotalCorrelation),
+        alphaIfDeleted: round(alphaIfDeleted),
+        flags
+      };
+    });
+
+    return {
+      trait: trait.name,
+      category: trait.category,
+      itemCount: questionIds.length,
+      completeCases: matrix.length,
+      alpha: round(alpha),
+      interpretation: interpretAlpha(alpha),
+      items
+    };
+  });
+
+  const weakItems: WeakItem[] = traits.flatMap(trait =>
+    trait.items
+      .filter(item => item.flags.length > 0)
+      .map(item => ({ trait: trait.trait, questionId: item.questionId, question: item.question, flags: item.flags }))
+  );
+
+  const hasEnoughData = responses.length >= MIN_PSYCHOMETRIC_SAMPLE;
+  const measuredTraits = traits.filter(trait => trait.itemCount > 0).length;
+
+  let message: string | undefined;
+  if (measuredTraits === 0) {
+    message = 'No question carries trait weights for this survey\'s trait model, so there are no items to analyse.';
+  } else if (!hasEnoughData) {
+    message = `You have ${responses.length} responses. Collect at least ${MIN_PSYCHOMETRIC_SAMPLE} responses before relying on these reliability figures.`;
+  }
+
+  return {
+    responseCount: responses.length,
+    hasEnoughData,
+    minimumSample: MIN_PSYCHOMETRIC_SAMPLE,
+    ...(message ? { message } : {}),
+    traits,
+    weakItems
+  };
+}
@@ -0,0 +1,60 @@
+import { getVisibleQuestions } from '../../shared/questionLogic';
+import { aggregateQuestionAnswers, type QuestionAggregate } from '../../shared/questionTypes';
+
+export interface StatsQuestion {
+  id: number;
+  order: number;
+  question: string;
+  questionType: string | null;
+  options?: unknown;
+  sliderConfig?: unknown;
+  scenarioText?: string | null;
+  displayLogic?: unknown;
+}
+
+export interface QuestionStats {
+  questionId: number;
+  order: number;
+  question: string;
+  questionType: string;
+  shown: number;     // respondents the display logic showed the question to
+  answered: number;
+  summary: QuestionAggregate;
+}
+
+const hasAnswer = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Summarize each question's answers with its question type's aggregator.
+ * Respondents only count for the questions their answers made visible.
+ * @param questions Survey questions in any order
+ * @param answerSets One map of answers per response, keyed by question ID
+ */
+export function computeQuestionStats(questions: StatsQuestion[], answerSets: Map<string, any>[]): QuestionStats[] {
+  const answersByQuestion = new Map<number, unknown[]>(questions.map(q => [q.id, []]));
+  const shownCounts = new Map<number, number>(questions.map(q => [q.id, 0]));
+
+  for (const answers of answerSets) {
+    for (const question of getVisibleQuestions(questions, answers)) {
+      shownCounts.set(question.id, (shownCounts.get(question.id) ?? 0) + 1);
+      const answer = answers.get(String(question.id));
+      if (hasAnswer(answer)) answersByQuestion.get(question.id)!.push(answer);
+    }
+  }
+
+  return [...questions]
+    .sort((a, b) => a.order - b.order)
+    .map(question => {
+      const summary = aggregateQuestionAnswers(question, answersByQuestion.get(question.id) ?? []);
+      return {
+        questionId: question.id,
+        order: question.order,
+        question: question.question,
+        questionType: question.questionType || 'multiple-choice',
+        shown: shownCounts.get(question.id) ?? 0,
+        answered: summary.responses,
+        summary
+      };
+    });
+}
@@ -0,0 +1,216 @@
+import { answerVariablesFor, codeQuestionAnswer, type CodedValue, type QuestionLike } from '../../shared/questionTypes';
+import type { TraitModel } from '../../shared/traitModel';
+import { SAV_MAX_STRING_WIDTH, type CodebookVariable } from '../../shared/responseExports';
+import { mapAnswersByQuestion } from './surveyUtils';
+
+// The survey_responses columns the coded export reads
+export interface ExportResponseRow {
+  id: number;
+  surveyVersionId: number | null;
+  respondentId: string;
+  source: string | null;
+  language: string | null;
+  completed: boolean;
+  isAIGenerated: boolean | null;
+  startTime: Date | string | null;
+  completeTime: Date | string | null;
+  completionTimeSeconds: number | null;
+  satisfactionScore: number | null;
+  responses: unknown;
+  traits: unknown;
+  demographics: unknown;
+}
+
+export interface CodebookQuestion extends QuestionLike {
+  id: number;
+  question: string;
+}
+
+export interface ResponseCoder {
+  variables: CodebookVariable[];
+  // One value per variable, in variable order
+  code(row: ExportResponseRow): CodedValue[];
+}
+
+const YES_NO = [{ value: 0, label: 'No' }, { value: 1, label: 'Yes' }];
+
+const MAX_NAME_LENGTH = 64;
+const DEMOGRAPHIC_WIDTH = 128;
+
+const isoDate = (value: Date | string | null): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const parseRecord = (value: unknown): Record<string, unknown> | null => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value && typeof value === 'object' ? value as Record<string, unknown> : null;
+};
+
+// Trait scores keyed by lower-cased name; traits are stored as [{name, score}] or a record
+function traitScoreMap(raw: unknown): Map<string, number> {
+  const scores = new Map<string, number>();
+  const parsed = parseRecord(raw);
+  if (!parsed) return scores;
+  const entries: Array<[unknown, unknown]> = Array.isArray(parsed)
+    ? parsed.map((trait: any) => [trait?.name, trait?.score])
+    : Object.entries(parsed);
+  for (const [name, score] of entries) {
+    const number = Number(score);
+    if (typeof name === 'string' && name.trim() && score !== null && score !== '' && Number.isFinite(number)) {
+      scores.set(name.trim().toLowerCase(), number);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Variable names that work as CSV headers and SPSS names:
+ * a letter first, then letters, digits and underscores, unique regardless of case
+ */
+export function createVariableNamer(): (base: string) => string {
+  const used = new Set<string>();
+  return (base: string) => {
+    let stem = base.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'var';
+    if (!/^[a-z]/.test(stem)) stem = `v_${stem}`;
+    stem = stem.slice(0, MAX_NAME_LENGTH);
+
+    let name = stem;
+    for (let n = 2; used.has(name); n++) {
+      const suffix = `_${n}`;
+      name = `${stem.slice(0, MAX_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  };
+}
+
+/**
+ * Build the variables of a survey's coded export and the function that codes
+ * one response into them. Questions are numbered q1, q2, ... in survey order;
+ * their answers are coded by each question type.
+ */
+export function createResponseCoder(options: {
+  questions: CodebookQuestion[];
+  traitModel: TraitModel | null;
+  demographicKeys: string[];
+}): ResponseCoder {
+  const nameFor = createVariableNamer();
+  const variables: CodebookVariable[] = [];
+  const extractors: Array<(row: ExportResponseRow, answers: Map<string, any>, coded: Map<number, CodedValue[]>) => CodedValue> = [];
+
+  const add = (variable: Omit<CodebookVariable, 'name'> & { name: string }, extract: typeof extractors[number]) => {
+    variables.push({ ...variable, name: nameFor(variable.name) });
+    extractors.push(extract);
+  };
+
+  add({ name: 'response_id', label: 'Response ID', source: 'response', type: 'numeric', measure: 'nominal' }, row => row.id);
+  add({ name: 'respondent_id', label: 'Respondent ID', source: 'response', type: 'string', measure: 'nominal', width: 64 }, row => row.respondentId);
+  add(
+    {
+      name: 'survey_version_id',
+      label: 'Published survey version',
+      source: 'response',
+      type: 'numeric',
+      measure: 'nominal',
+      description: 'Responses from earlier versions may not have answers for newer questions'
+    },
+    row => row.surveyVersionId
+  );
+  add({ name: 'source', label: 'Response source', source: 'response', type: 'string', measure: 'nominal', width: 32 }, row => row.source);
+  add({ name: 'language', label: 'Language the survey was taken in', source: 'response', type: 'string', measure: 'nominal', width: 8 }, row => row.language);
+  add(
+    { name: 'completed', label: 'Completed the survey', source: 'response', type: 'numeric', measure: 'nominal', valueLabels: YES_NO },
+    row => (row.completed ? 1 : 0)
+  );
+  add(
+    { name: 'ai_generated', label: 'Generated by the AI response generator', source: 'response', type: 'numeric', measure: 'nominal', valueLabels: YES_NO },
+    row => (row.isAIGenerated ? 1 : 0)
+  );
+  add(
+    { name: 'started_at', label: 'Started at', source: 'response', type: 'string', measure: 'nominal', width: 24, description: 'ISO 8601, UTC' },
+    row => isoDate(row.startTime)
+  );
+  add(
+    { name: 'completed_at', label: 'Completed at', source: 'response', type: 'string', measure: 'nominal', width: 24, description: 'ISO 8601, UTC' },
+    row => isoDate(row.completeTime)
+  );
+  add(
+    { name: 'duration_seconds', label: 'Time to complete (seconds)', source: 'response', type: 'numeric', measure: 'scale' },
+    row => row.completionTimeSeconds
+  );
+  add(
+    { name: 'satisfaction_score', label: 'Satisfaction score', source: 'response', type: 'numeric', measure: 'scale' },
+    row => row.satisfactionScore
+  );
+
+  options.questions.forEach((question, index) => {
+    const title = question.question || `Question ${question.id}`;
+    answerVariablesFor(question).forEach((variable, part) => {
+      add(
+        {
+          name: `q${index + 1}${variable.suffix}`,
+          label: variable.label ? `${title} [${variable.label}]` : title,
+          source: 'question',
+          type: variable.type,
+          measure: variable.measure,
+          ...(variable.type === 'string' ? { width: SAV_MAX_STRING_WIDTH } : {}),
+          questionId: question.id,
+          questionType: question.questionType ?? undefined,
+          ...(variable.valueLabels ? { valueLabels: variable.valueLabels } : {})
+        },
+        // A question's variables share one coding of its answer per response
+        (_row, answers, coded) => {
+          let values = coded.get(index);
+          if (!values) {
+            values = codeQuestionAnswer(question, answers.get(String(question.id)));
+            coded.set(index, values);
+          }
+          return values[part] ?? null;
+        }
+      );
+    });
+  });
+
+  (options.traitModel ?? []).forEach(trait => {
+    const key = trait.name.toLowerCase();
+    add(
+      {
+        name: `trait_${trait.name}`,
+        label: trait.name,
+        source: 'trait',
+        type: 'numeric',
+        measure: 'scale',
+        description: `${trait.category} trait score, 0-100`
+      },
+      row => traitScoreMap(row.traits).get(key) ?? null
+    );
+  });
+
+  options.demographicKeys.forEach(key => {
+    add(
+      { name: `demo_${key}`, label: key, source: 'demographic', type: 'string', measure: 'nominal', width: DEMOGRAPHIC_WIDTH },
+      row => {
+        const value = parseRecord(row.demographics)?.[key];
+        if (value === undefined || value === null || value === '') return null;
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      }
+    );
+  });
+
+  return {
+    variables,
+    code(row) {
+      const answers = mapAnswersByQuestion(row.responses) ?? new Map<string, any>();
+      const coded = new Map<number, CodedValue[]>();
+      return extractors.map(extract => extract(row, answers, coded));
+    }
+  };
+}
@@ -0,0 +1,214 @@
+// SPSS system file (.sav) writer for the coded response export. Writes the
+// uncompressed little-endian layout with UTF-8 text, long variable names,
+// value labels and measurement levels, one case at a time so exports can stream.
+import type { CodedValue } from '../../shared/questionTypes';
+import { SAV_MAX_STRING_WIDTH, type CodebookVariable } from '../../shared/responseExports';
+
+// Byte offset of the case count in the file header, for patching it once the
+// number of cases is known
+export const SAV_CASE_COUNT_OFFSET = 80;
+
+const SYSMIS = -Number.MAX_VALUE;
+const PRODUCT_NAME = '@(#) SPSS DATA FILE PersonalysisPro';
+const MAX_VARIABLE_LABEL_BYTES = 255;
+const MAX_VALUE_LABEL_BYTES = 120;
+
+const FORMAT_TYPE_A = 1;
+const FORMAT_TYPE_F = 5;
+const MEASURE_CODES = { nominal: 1, ordinal: 2, scale: 3 } as const;
+
+interface SavVariable {
+  variable: CodebookVariable;
+  shortName: string;
+  // Bytes a string occupies, 0 for numeric variables
+  width: number;
+  // 8-byte segments in each case, more than one for strings over 8 bytes
+  segments: number;
+  // 1-based position in the dictionary, counting continuation records
+  dictionaryIndex: number;
+}
+
+export interface SavLayout {
+  variables: SavVariable[];
+  caseSize: number;
+}
+
+/** Cut a UTF-8 string to at most `bytes` bytes without splitting a character */
+export function truncateUtf8(value: string, bytes: number): Buffer {
+  const encoded = Buffer.from(value, 'utf8');
+  if (encoded.length <= bytes) return encoded;
+  let end = bytes;
+  // Step back over continuation bytes (10xxxxxx) to a character boundary
+  while (end > 0 && (encoded[end] & 0xc0) === 0x80) end--;
+  return encoded.subarray(0, end);
+}
+
+const padded = (value: Buffer, length: number) => {
+  const out = Buffer.alloc(length, 0x20);
+  value.copy(out, 0, 0, Math.min(value.length, length));
+  return out;
+};
+
+const int32 = (...values: number[]) => {
+  const out = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => out.writeInt32LE(value, i * 4));
+  return out;
+};
+
+const float64 = (value: number) => {
+  const out = Buffer.alloc(8);
+  out.writeDoubleLE(value, 0);
+  return out;
+};
+
+const roundUp = (value: number, multiple: number) => Math.ceil(value / multiple) * multiple;
+
+/**
+ * Assign the 8-character names SPSS keeps in variable records; the full
+ * names go in the long variable names record
+ */
+function shortNames(variables: CodebookVariable[]): string[] {
+  const used = new Set<string>();
+  return variables.map(variable => {
+    let name = variable.name.toUpperCase().slice(0, 8);
+    for (let n = 1; used.has(name); n++) {
+      const suffix = String(n);
+      name = `${variable.name.toUpperCase().slice(0, 8 - suffix.length)}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+export function createSavLayout(variables: CodebookVariable[]): SavLayout {
+  const names = shortNames(variables);
+  let position = 1;
+  const layout = variables.map((variable, index) => {
+    const width = variable.type === 'string'
+      ? Math.min(Math.max(variable.width ?? SAV_MAX_STRING_WIDTH, 1), SAV_MAX_STRING_WIDTH)
+      : 0;
+    const segments = width > 0 ? Math.ceil(width / 8) : 1;
+    const entry = { variable, shortName: names[index], width, segments, dictionaryIndex: position };
+    position += segments;
+    return entry;
+  });
+  return { variables: layout, caseSize: position - 1 };
+}
+
+function variableRecords(entry: SavVariable): Buffer[] {
+  const { variable, width } = entry;
+  const format = width > 0
+    ? (FORMAT_TYPE_A << 16) | (width << 8)
+    : (FORMAT_TYPE_F << 16) | (8 << 8) | (variable.measure === 'scale' ? 2 : 0);
+
+  const label = truncateUtf8(variable.label, MAX_VARIABLE_LABEL_BYTES);
+  const records = [
+    int32(2, width, label.length > 0 ? 1 : 0, 0, format, format),
+    padded(Buffer.from(entry.shortName, 'ascii'), 8)
+  ];
+  if (label.length > 0) {
+    records.push(int32(label.length), padded(label, roundUp(label.length, 4)));
+  }
+  // Strings wider than 8 bytes continue over extra unnamed records
+  for (let i = 1; i < entry.segments; i++) {
+    records.push(int32(2, -1, 0, 0, 0, 0), padded(Buffer.alloc(0), 8));
+  }
+  return records;
+}
+
+function valueLabelRecords(entry: SavVariable): Buffer[] {
+  const labels = entry.variable.valueLabels;
+  if (!labels?.length || entry.width > 0) return [];
+
+  const records = [int32(3, labels.length)];
+  for (const { value, label } of labels) {
+    const text = truncateUtf8(label, MAX_VALUE_LABEL_BYTES);
+    const length = Buffer.from([text.length]);
+    records.push(float64(value), length, padded(text, roundUp(text.length + 1, 8) - 1));
+  }
+  records.push(int32(4, 1, entry.dictionaryIndex));
+  return records;
+}
+
+const extensionRecord = (subtype: number, size: number, data: Buffer) =>
+  Buffer.concat([int32(7, subtype, size, data.length / size), data]);
+
+function extensionRecords(layout: SavLayout): Buffer[] {
+  // Release 21, IEEE doubles, little-endian, UTF-8 (code page 65001)
+  const integerInfo = extensionRecord(3, 4, int32(21, 0, 0, -1, 1, 1, 2, 65001));
+
+  const lowest = Buffer.from([0xfe, 0xff, 0xff, 0xff, 0xff, 0xff, 0xef, 0xff]);
+  const floatInfo = extensionRecord(4, 8, Buffer.concat([float64(SYSMIS), float64(Number.MAX_VALUE), lowest]));
+
+  const display = extensionRecord(11, 4, int32(
+    ...layout.variables.flatMap(({ variable, width }) => [
+      MEASURE_CODES[variable.measure],
+      width > 0 ? Math.min(width, 40) : 8,
+      width > 0 ? 0 : 1
+    ])
+  ));
+
+  const longNames = extensionRecord(13, 1, Buffer.from(
+    layout.variables.map(({ shortName, variable }) => `${shortName}=${variable.name}`).join('\t'),
+    'utf8'
+  ));
+
+  const encoding = extensionRecord(20, 1, Buffer.from('UTF-8', 'ascii'));
+
+  return [integerInfo, floatInfo, display, longNames, encoding];
+}
+
+const twoDigits = (value: number) => String(value).padStart(2, '0');
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * File header and dictionary. Pass `caseCount` when it is known up front;
+ * otherwise the header says "unknown" (-1), which readers accept, and
+ * SAV_CASE_COUNT_OFFSET can be patched afterwards.
+ */
+export function encodeSavDictionary(
+  layout: SavLayout,
+  options: { fileLabel: string; createdAt?: Date; caseCount?: number }
+): Buffer {
+  const created = options.createdAt ?? new Date();
+  const date = `${twoDigits(created.getUTCDate())} ${MONTHS[created.getUTCMonth()]} ${twoDigits(created.getUTCFullYear() % 100)}`;
+  const time = `${twoDigits(created.getUTCHours())}:${twoDigits(created.getUTCMinutes())}:${twoDigits(created.getUTCSeconds())}`;
+
+  const header = Buffer.concat([
+    Buffer.from('$FL2', 'ascii'),
+    padded(Buffer.from(PRODUCT_NAME, 'ascii'), 60),
+    int32(2, layout.caseSize, 0, 0, options.caseCount ?? -1),
+    float64(100),
+    Buffer.from(date, 'ascii'),
+    Buffer.from(time, 'ascii'),
+    padded(truncateUtf8(options.fileLabel, 64), 64),
+    Buffer.alloc(3)
+  ]);
+
+  return Buffer.concat([
+    header,
+    ...layout.variables.flatMap(variableRecords),
+    ...layout.variables.flatMap(valueLabelRecords),
+    ...extensionRecords(layout),
+    int32(999, 0)
+  ]);
+}
+
+/** One case, values in variable order; nulls become system-missing or blanks */
+export function encodeSavCase(layout: SavLayout, values: CodedValue[]): Buffer {
+  const out = Buffer.alloc(layout.caseSize * 8, 0x20);
+  let offset = 0;
+  layout.variables.forEach((entry, index) => {
+    const value = values[index];
+    if (entry.width > 0) {
+      if (value !== null && value !== undefined) {
+        truncateUtf8(String(value), entry.width).copy(out, offset);
+      }
+    } else {
+      const number = typeof value === 'number' ? value : value === null || value === undefined ? NaN : Number(value);
+      out.writeDoubleLE(Number.isFinite(number) ? number : SYSMIS, offset);
+    }
+    offset += entry.segments * 8;
+  });
+  return out;
+}
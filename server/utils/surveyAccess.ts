@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { db } from '../db';
+import { surveys, users, Survey } from '../../shared/schema';
+import { eq } from 'drizzle-orm';
+import { sendClientError, ErrorCodes } from './apiResponses';
+import { isApproverRole } from '../../shared/approvals';
+import { Permission } from '../../shared/permissions';
+
+/**
+ * Survey Access Helpers
+ *
+ * Shared version of the session + company ownership check that survey routes
+ * perform before exposing a survey's data.
+ */
+
+export interface SurveyAccessUser {
+  id: number;
+  companyId: number | null;
+  role: string;
+}
+
+/**
+ * Whether the request comes from a platform administrator, judged by the
+ * session user's role only; request headers are never trusted for this
+ */
+export function isPlatformAdminRequest(req: Request, user?: { role: string } | null): boolean {
+  const role = user ? user.role : req.session?.userId ? req.session.userRole : undefined;
+  return role === 'admin' || role === 'platform_admin';
+}
+
+/**
+ * Whether the user may configure the company's approval workflow and decide
+ * any of its survey reviews. Uses the permissions a route guard resolved, and
+ * the approver roles where no guard ran.
+ */
+export function isApproverRequest(req: Request, user: { role: string }): boolean {
+  if (req.permissions) {
+    return req.permissions.has(Permission.APPROVE_SURVEYS);
+  }
+  return isApproverRole(user.role) || isPlatformAdminRequest(req, user);
+}
+
+/**
+ * Whether the user may see a company's data: their own company, or any
+ * company for platform administrators
+ */
+export function canAccessCompany(req: Request, user: SurveyAccessUser, companyId: number): boolean {
+  return user.companyId === companyId || isPlatformAdminRequest(req, user);
+}
+
+/**
+ * Load the session user, sending a 401 response when there is none
+ */
+export async function requireSessionUser(req: Request, res: Response): Promise<SurveyAccessUser | null> {
+  if (!req.session || !req.session.userId) {
+    sendClientError(res, 'Authentication required', 401, undefined, ErrorCodes.UNAUTHORIZED);
+    return null;
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, req.session.userId),
+    columns: { id: true, companyId: true, role: true }
+  });
+
+  if (!user) {
+    sendClientError(res, 'User not found', 401, undefined, ErrorCodes.UNAUTHORIZED);
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Load a survey the session user is allowed to see, sending the matching
+ * 400/401/403/404 response and returning null otherwise
+ */
+export async function loadAccessibleSurvey(
+  req: Request,
+  res: Response,
+  surveyIdParam: string
+): Promise<{ survey: Survey; user: SurveyAccessUser } | null> {
+  const surveyId = parseInt(surveyIdParam);
+  if (isNaN(surveyId)) {
+    sendClientError(res, 'Invalid survey ID format', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+    return null;
+  }
+
+  const user = await requireSessionUser(req, res);
+  if (!user) return null;
+
+  const survey = await db.query.surveys.findFirst({
+    where: eq(surveys.id, surveyId)
+  });
+
+  if (!survey) {
+    sendClientError(res, 'Survey not found', 404, undefined, ErrorCodes.NOT_FOUND);
+    return null;
+  }
+
+  if (user.companyId !== survey.companyId && !isPlatformAdminRequest(req, user)) {
+    sendClientError(res, 'Access denied. You can only access your own company\'s surveys.', 403, undefined, ErrorCodes.FORBIDDEN);
+    return null;
+  }
+
+  return { survey, user };
+}
+
+/**
+ * Load the session user and require platform administrator rights, sending
+ * the matching 401/403 response and returning null otherwise
+ */
+export async function requirePlatformAdmin(req: Request, res: Response): Promise<SurveyAccessUser | null> {
+  const user = await requireSessionUser(req, res);
+  if (!user) return null;
+
+  if (!isPlatformAdminRequest(req, user)) {
+    sendClientError(res, 'Administrator access required', 403, undefined, ErrorCodes.FORBIDDEN);
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Resolve the company whose settings the session user manages: their own, or
+ * for platform administrators the one given in the companyId query parameter.
+ * Sends the matching 400/401 response and returns null otherwise.
+ */
+export async function requireCompanyScope(
+  req: Request,
+  res: Response
+): Promise<{ user: SurveyAccessUser; companyId: number } | null> {
+  const user = await requireSessionUser(req, res);
+  if (!user) return null;
+
+  const requested = typeof req.query.companyId === 'string' ? parseInt(req.query.companyId) : NaN;
+  const companyId = !isNaN(requested) && isPlatformAdminRequest(req, user) ? requested : user.companyId;
+  if (!companyId) {
+    sendClientError(res, 'Your account is not linked to a company', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+    return null;
+  }
+
+  return { user, companyId };
+}
+
+/**
+ * Like requireCompanyScope, but platform administrators who do not pass a
+ * companyId get every company's records (companyId null)
+ */
+export async function requireCompanyFilter(
+  req: Request,
+  res: Response
+): Promise<{ user: SurveyAccessUser; companyId: number | null } | null> {
+  const user = await requireSessionUser(req, res);
+  if (!user) return null;
+
+  if (isPlatformAdminRequest(req, user)) {
+    const requested = typeof req.query.companyId === 'string' ? parseInt(req.query.companyId) : NaN;
+    return { user, companyId: isNaN(requested) ? null : requested };
+  }
+
+  if (!user.companyId) {
+    sendClientError(res, 'Your account is not linked to a company', 400, undefined, ErrorCodes.VALIDATION_ERROR);
+    return null;
+  }
+
+  return { user, companyId: user.companyId };
+}
@@ -1,4 +1,13 @@
 import { type SurveyResponse, type Survey } from '../../shared/schema';
+import { getVisibleQuestions, type LogicQuestion } from '../../shared/questionLogic';
+import {
+  DEFAULT_QUESTION_TYPE,
+  checkQuestionAnswer,
+  csvHeadersFor,
+  flattenQuestionAnswer,
+  validateQuestionConfig,
+  type QuestionLike
+} from '../../shared/questionTypes';
 import crypto from 'crypto';
 
 /**
@@ -170,7 +179,70 @@ export async function checkExportPermission(req: any, companyId?: number): Promi
 }
 
 /**
- * Validate a survey response against required fields and business rules
+ * Parse stored or submitted answers (a list of {questionId, answer}, its JSON
+ * string or a record keyed by question ID) into a map keyed by question ID
+ */
+export function mapAnswersByQuestion(responses: unknown): Map<string, any> | null {
+  let responseArray: Array<{ questionId: number, answer: any }> = [];
+
+  if (Array.isArray(responses)) {
+    responseArray = responses;
+  } else if (typeof responses === 'string') {
+    try {
+      // The response might be a stringified JSON
+      responseArray = JSON.parse(responses);
+    } catch (e) {
+      console.error('Error parsing response data:', e);
+      return null;
+    }
+  } else if (responses && typeof responses === 'object') {
+    // Handle object format if present
+    const responseData = responses as Record<string, any>;
+    responseArray = Object.keys(responseData).map(key => ({
+      questionId: parseInt(key),
+      answer: responseData[key]
+    }));
+  } else {
+    return null;
+  }
+
+  const answeredQuestions = new Map<string, any>();
+  (Array.isArray(responseArray) ? responseArray : []).forEach(item => {
+    if (item && item.questionId) {
+      answeredQuestions.set(item.questionId.toString(), item.answer);
+    }
+  });
+  return answeredQuestions;
+}
+
+const hasAnswer = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Drop answers to questions the respondent was not shown, e.g. answers saved
+ * before an earlier answer changed and a display rule hid the question again
+ * @param questions Survey questions including their display logic
+ * @param responses Answers as a list of {questionId, answer}
+ * @returns The answers to visible questions
+ */
+export function pruneHiddenAnswers<T extends { questionId: number | string }>(
+  questions: LogicQuestion[],
+  responses: T[]
+): T[] {
+  const answers = mapAnswersByQuestion(responses) ?? new Map<string, any>();
+  const visibleIds = new Set(getVisibleQuestions(questions, answers).map(question => String(question.id)));
+  const knownIds = new Set(questions.map(question => String(question.id)));
+
+  return (responses || []).filter(item => {
+    const id = String(item?.questionId);
+    return !knownIds.has(id) || visibleIds.has(id);
+  });
+}
+
+/**
+ * Validate a survey response against required fields and business rules.
+ * Questions hidden by their display logic are not required and must not be
+ * answered; every answer is checked against its question type.
  * @param response Survey response to validate
  * @param survey Survey metadata including questions
  * @returns Validation results
@@ -201,43 +273,41 @@ export function validateSurveyResponse(response: SurveyResponse, survey: Survey
   
   // Validate against required questions
   if (survey.questions && Array.isArray(survey.questions)) {
-    // Handle both array format and record format for responses
-    let responseArray: Array<{questionId: number, answer: string}> = [];
-    
-    if (Array.isArray(response.responses)) {
-      responseArray = response.responses;
-    } else if (typeof response.responses === 'string') {
-      try {
-        // The response might be a stringified JSON
-        responseArray = JSON.parse(response.responses);
-      } catch (e) {
-        console.error('Error parsing response data:', e);
-        errors.responses = ['Invalid response data format'];
-        return { valid: false, errors };
-      }
-    } else {
-      // Handle object format if present
-      const responseData = response.responses as Record<string, any>;
-      responseArray = Object.keys(responseData).map(key => ({
-        questionId: parseInt(key),
-        answer: responseData[key]
-      }));
-    }
-    
     // Create a map for easier lookup
-    const answeredQuestions = new Map();
-    responseArray.forEach(item => {
-      if (item && item.questionId) {
-        answeredQuestions.set(item.questionId.toString(), item.answer);
-      }
-    });
-    
+    const answeredQuestions = mapAnswersByQuestion(response.responses);
+    if (!answeredQuestions) {
+      errors.responses = ['Invalid response data format'];
+      return { valid: false, errors };
+    }
+
+    // Only questions the display logic shows for these answers apply
+    const visibleIds = new Set(
+      getVisibleQuestions(survey.questions, answeredQuestions).map(question => question.id.toString())
+    );
+
     survey.questions.forEach(question => {
+      const questionId = question.id.toString();
+
+      if (!visibleIds.has(questionId)) {
+        if (hasAnswer(answeredQuestions.get(questionId))) {
+          if (!errors[questionId]) errors[questionId] = [];
+          errors[questionId].push('This question was not shown and cannot be answered');
+        }
+        return;
+      }
+
+      // Answers must fit the question's type and settings
+      if (hasAnswer(answeredQuestions.get(questionId))) {
+        const check = checkQuestionAnswer(question, answeredQuestions.get(questionId));
+        if (!check.valid) {
+          if (!errors[questionId]) errors[questionId] = [];
+          errors[questionId].push(...check.errors);
+        }
+      }
+
       if (question.required) {
-        const questionId = question.id.toString();
-        
         // Check if the question was answered
-        if (!answeredQuestions.has(questionId) || !answeredQuestions.get(questionId)) {
+        if (!hasAnswer(answeredQuestions.get(questionId))) {
           if (!errors[questionId]) errors[questionId] = [];
           errors[questionId].push('This question requires an answer');
         }
@@ -286,12 +356,88 @@ export function validateSurveyResponse(response: SurveyResponse, survey: Survey
 }
 
 /**
- * Generate CSV data from survey responses
+ * Validate the type and type-specific settings of questions submitted by the
+ * survey editor
+ * @param questions Questions as submitted
+ * @returns Errors keyed by question number, or null when all are valid
+ */
+export function validateQuestionConfigs(questions: any[]): Record<string, string[]> | null {
+  const errors: Record<string, string[]> = {};
+
+  (questions || []).forEach((question, index) => {
+    const questionErrors = validateQuestionConfig({
+      ...question,
+      questionType: question?.questionType || DEFAULT_QUESTION_TYPE
+    });
+    if (questionErrors.length > 0) {
+      errors[`question_${question?.order ?? index + 1}`] = questionErrors;
+    }
+  });
+
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+// Standard response fields exported ahead of the answers
+const CSV_RESPONSE_FIELDS = [
+  'id',
+  'surveyId',
+  'companyId',
+  'respondentId',
+  'respondentEmail',
+  'ipAddress',
+  'source',
+  'startTime',
+  'completeTime',
+  'createdAt'
+];
+
+/**
+ * Format a value as a CSV cell, quoting it when needed
+ */
+export function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (/[",\n\r]/.test(text)) {
+    // Escape double quotes with double double quotes
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+const parseRecord = (value: unknown): Record<string, any> | null => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value && typeof value === 'object' ? value as Record<string, any> : null;
+};
+
+// Trait scores keyed by trait name; traits are stored as [{name, score}] or a record
+function traitScores(traits: unknown): Record<string, any> {
+  const parsed = parseRecord(traits);
+  if (!parsed) return {};
+  if (!Array.isArray(parsed)) return parsed;
+  return Object.fromEntries(
+    parsed.filter(trait => trait && trait.name).map(trait => [trait.name, trait.score])
+  );
+}
+
+/**
+ * Generate CSV data from survey responses. With the survey's questions, each
+ * question gets its own column(s) in survey order, flattened by its question
+ * type; without them, answers are exported raw as response_<questionId>.
  * @param responses Array of survey responses
  * @param surveyInfo Optional survey metadata
+ * @param questions Optional survey questions
  * @returns CSV formatted string
  */
-export function generateCSV(responses: any[], surveyInfo: any | null): string {
+export function generateCSV(responses: any[], surveyInfo: any | null, questions?: QuestionLike[]): string {
   if (!responses || !Array.isArray(responses) || responses.length === 0) {
     return 'No data';
   }
@@ -311,89 +457,48 @@ export function generateCSV(responses: any[], surveyInfo: any | null): string {
     csvData += `# Total Responses: ${responses.length}\n`;
     csvData += '#\n'; // Empty line to separate metadata from data
   }
-  
-  // Get all possible columns from all responses
-  const columns = new Set<string>();
-  responses.forEach(response => {
-    // Add standard fields
-    columns.add('id');
-    columns.add('surveyId');
-    columns.add('companyId');
-    columns.add('respondentId');
-    columns.add('respondentEmail');
-    columns.add('ipAddress');
-    columns.add('source');
-    columns.add('startTime');
-    columns.add('completeTime');
-    columns.add('createdAt');
-    
-    // Add fields from responses
-    if (response.responses && typeof response.responses === 'object') {
-      Object.keys(response.responses).forEach(key => {
-        columns.add(`response_${key}`);
-      });
-    }
-    
-    // Add traits
-    if (response.traits && typeof response.traits === 'object') {
-      Object.keys(response.traits).forEach(key => {
-        columns.add(`trait_${key}`);
-      });
-    }
-    
-    // Add demographics
-    if (response.demographics && typeof response.demographics === 'object') {
-      Object.keys(response.demographics).forEach(key => {
-        columns.add(`demographic_${key}`);
-      });
-    }
+
+  const rows = responses.map(response => ({
+    response,
+    answers: mapAnswersByQuestion(response.responses) ?? new Map<string, any>(),
+    traits: traitScores(response.traits),
+    demographics: parseRecord(response.demographics) ?? {}
+  }));
+
+  // Answer columns come from the questions when known, otherwise from the answers
+  const answerKeys = new Set<string>();
+  if (!questions) {
+    rows.forEach(row => row.answers.forEach((_, key) => answerKeys.add(key)));
+  }
+  const traitKeys = new Set<string>();
+  const demographicKeys = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row.traits).forEach(key => traitKeys.add(key));
+    Object.keys(row.demographics).forEach(key => demographicKeys.add(key));
   });
-  
-  // Convert columns to array and sort for consistent output
-  const columnArray = Array.from(columns).sort();
-  
-  // Add header row
-  csvData += columnArray.join(',') + '\n';
-  
-  // Add data rows
-  responses.forEach(response => {
-    const rowData: string[] = [];
-    
-    columnArray.forEach(column => {
-      let value = '';
-      
-      if (column.startsWith('response_') && response.responses) {
-        const key = column.replace('response_', '');
-        value = response.responses[key] || '';
-      } else if (column.startsWith('trait_') && response.traits) {
-        const key = column.replace('trait_', '');
-        value = response.traits[key] || '';
-      } else if (column.startsWith('demographic_') && response.demographics) {
-        const key = column.replace('demographic_', '');
-        value = response.demographics[key] || '';
-      } else {
-        value = response[column] || '';
-      }
-      
-      // Format value for CSV (escape quotes, handle commas)
-      if (typeof value === 'string') {
-        // Escape double quotes with double double quotes
-        value = value.replace(/"/g, '""');
-        
-        // If value contains comma or newline, wrap in quotes
-        if (value.includes(',') || value.includes('\n') || value.includes('"')) {
-          value = `"${value}"`;
-        }
-      } else if (typeof value === 'object') {
-        // Convert objects to JSON string
-        value = `"${JSON.stringify(value).replace(/"/g, '""')}"`;
-      }
-      
-      rowData.push(String(value));
-    });
-    
-    csvData += rowData.join(',') + '\n';
+  const sortedTraits = Array.from(traitKeys).sort();
+  const sortedDemographics = Array.from(demographicKeys).sort();
+  const sortedAnswers = Array.from(answerKeys).sort((a, b) => Number(a) - Number(b));
+
+  const header = [
+    ...CSV_RESPONSE_FIELDS,
+    ...(questions ? questions.flatMap(question => csvHeadersFor(question)) : sortedAnswers.map(key => `response_${key}`)),
+    ...sortedTraits.map(key => `trait_${key}`),
+    ...sortedDemographics.map(key => `demographic_${key}`)
+  ];
+  csvData += header.map(csvCell).join(',') + '\n';
+
+  rows.forEach(({ response, answers, traits, demographics }) => {
+    const cells = [
+      ...CSV_RESPONSE_FIELDS.map(field => response[field]),
+      ...(questions
+        ? questions.flatMap(question => flattenQuestionAnswer(question, answers.get(String(question.id))))
+        : sortedAnswers.map(key => answers.get(key))),
+      ...sortedTraits.map(key => traits[key]),
+      ...sortedDemographics.map(key => demographics[key])
+    ];
+    csvData += cells.map(csvCell).join(',') + '\n';
   });
   
   return csvData;
-}
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import {
+  RECOVERY_CODE_COUNT,
+  TOTP_DIGITS,
+  TOTP_DRIFT_STEPS,
+  TOTP_ISSUER,
+  TOTP_PERIOD_SECONDS,
+  normalizeRecoveryCode
+} from '../../shared/twoFactor';
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30 second
+ * steps) as authenticator apps implement them, plus recovery codes and
+ * remembered-device tokens. Everything that depends on the time takes `now`,
+ * so callers and tests can pass their own clock.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the key size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const totpStep = (now: Date): number => Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+
+export function hotp(secret: string, counter: number, digits = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = ((digest[offset] & 0x7f) << 24)
+    | (digest[offset + 1] << 16)
+    | (digest[offset + 2] << 8)
+    | digest[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export const generateTotp = (secret: string, now: Date): string => hotp(secret, totpStep(now));
+
+/**
+ * The time step a code belongs to, or null when it matches none within the
+ * allowed drift. Steps up to `lastUsedStep` are refused so a code cannot be
+ * used twice.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: Date,
+  lastUsedStep: number | null = null
+): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(candidate)) {
+    return null;
+  }
+  const current = totpStep(now);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = hotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// The otpauth:// URI authenticator apps read from the enrollment QR code
+export function buildOtpauthUrl(secret: string, accountName: string, issuer = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes look like "k7d2m-q9x4p"; only their hashes are stored
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// Remembered-device cookies carry a random token; the database keeps its hash
+export const generateDeviceToken = (): string => crypto.randomBytes(32).toString('hex');
+
+export const hashDeviceToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
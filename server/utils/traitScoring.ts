@@ -0,0 +1,278 @@
+import type { PersonalityTrait } from '../../shared/schema';
+import { TraitModel, TraitWeights, cleanTraitWeights } from '../../shared/traitModel';
+
+/**
+ * Rule-based trait scoring
+ *
+ * Scores are computed only from the trait weights stored on answer options
+ * (`options[].traits`) and sliders (`sliderConfig.traitWeights`). There is no
+ * randomness and no model call, so the same answers always give the same
+ * scores. Narrative analysis is layered on top separately.
+ */
+
+export interface ScorableQuestion {
+  id: number;
+  questionType?: string | null;
+  options?: unknown;
+  sliderConfig?: unknown;
+}
+
+export interface ScorableAnswer {
+  questionId: number | string;
+  answer: unknown;
+}
+
+/**
+ * What one answered question contributes to one trait. `min` and `max` are the
+ * lowest and highest values any answer to the question could have produced.
+ */
+export interface TraitItemScore {
+  questionId: number;
+  trait: string;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export interface TraitScoringResult {
+  traits: PersonalityTrait[];
+  // Number of answered questions that measured each trait, keyed by trait name
+  itemCounts: Record<string, number>;
+}
+
+interface WeightedOption {
+  keys: string[];
+  weights: TraitWeights;
+}
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+const parseOptions = (raw: unknown): WeightedOption[] => {
+  const options = parseJson(raw);
+  if (!Array.isArray(options)) return [];
+
+  return options.map((option: any) => {
+    if (typeof option === 'string' || typeof option === 'number') {
+      return { keys: [String(option)], weights: {} };
+    }
+    const keys = [option?.value, option?.id, option?.text, option?.label]
+      .filter(key => key !== undefined && key !== null && key !== '')
+      .map(key => String(key));
+    return { keys, weights: cleanTraitWeights(option?.traits) ?? {} };
+  });
+};
+
+const parseSliderConfig = (raw: unknown) => {
+  const config = (parseJson(raw) ?? {}) as Record<string, unknown>;
+  const min = Number(config.min ?? 0);
+  const max = Number(config.max ?? 100);
+  return {
+    min: Number.isFinite(min) ? min : 0,
+    max: Number.isFinite(max) ? max : 100,
+    weights: cleanTraitWeights(config.traitWeights) ?? {}
+  };
+};
+
+// Weight a set of weights gives a trait, matching trait names case-insensitively
+const weightFor = (weights: TraitWeights, trait: string): number => {
+  const target = trait.toLowerCase();
+  for (const [name, weight] of Object.entries(weights)) {
+    if (name.toLowerCase() === target) return weight;
+  }
+  return 0;
+};
+
+const findOption = (options: WeightedOption[], token: unknown): WeightedOption | undefined => {
+  if (token === undefined || token === null || token === '') return undefined;
+  const key = String(typeof token === 'object' ? (token as any).value ?? (token as any).option : token);
+  return options.find(option => option.keys.includes(key));
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Ranking answers arrive as [{rank, option, value}] (often JSON encoded) or a plain ordered list
+const rankedOptionOrder = (options: WeightedOption[], answer: unknown): WeightedOption[] | undefined => {
+  const parsed = parseJson(answer);
+  if (!Array.isArray(parsed)) return undefined;
+
+  const entries = parsed
+    .map((entry: any, index: number) => ({
+      option: findOption(options, entry),
+      rank: Number.isFinite(Number(entry?.rank)) ? Number(entry.rank) : index + 1,
+      index
+    }))
+    .filter(entry => entry.option)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+  if (entries.length === 0) return undefined;
+
+  // Unranked options fill the remaining places in their listed order
+  const order: WeightedOption[] = [];
+  for (const entry of entries) {
+    if (!order.includes(entry.option!)) order.push(entry.option!);
+  }
+  for (const option of options) {
+    if (!order.includes(option)) order.push(option);
+  }
+  return order;
+};
+
+const scoreQuestion = (
+  model: TraitModel,
+  question: ScorableQuestion,
+  answer: unknown
+): TraitItemScore[] => {
+  const items: TraitItemScore[] = [];
+  const questionId = Number(question.id);
+
+  if (question.questionType === 'slider') {
+    const { min, max, weights } = parseSliderConfig(question.sliderConfig);
+    const position = Number(answer);
+    if (answer === '' || answer === null || !Number.isFinite(position) || max <= min) return items;
+
+    const fraction = Math.max(0, Math.min(1, (position - min) / (max - min)));
+    for (const trait of model) {
+      const weight = weightFor(weights, trait.name);
+      if (weight === 0) continue;
+      items.push({
+        questionId,
+        trait: trait.name,
+        value: weight * fraction,
+        min: Math.min(0, weight),
+        max: Math.max(0, weight)
+      });
+    }
+    return items;
+  }
+
+  const options = parseOptions(question.options);
+  if (options.length === 0) return items;
+
+  if (question.questionType === 'ranking') {
+    const order = rankedOptionOrder(options, answer);
+    if (!order || order.length < 2) return items;
+
+    // First place counts fully, last place not at all
+    const factors = order.map((_, place) => (order.length - 1 - place) / (order.length - 1));
+    const ascending = [...factors].sort((a, b) => a - b);
+
+    for (const trait of model) {
+      const weights = order.map(option => weightFor(option.weights, trait.name));
+      if (weights.every(weight => weight === 0)) continue;
+
+      // Extremes by pairing sorted weights with sorted (or reversed) rank factors
+      const sortedWeights = [...weights].sort((a, b) => a - b);
+      items.push({
+        questionId,
+        trait: trait.name,
+        value: sum(weights.map((weight, place) => weight * factors[place])),
+        min: sum(sortedWeights.map((weight, i) => weight * ascending[ascending.length - 1 - i])),
+        max: sum(sortedWeights.map((weight, i) => weight * ascending[i]))
+      });
+    }
+    return items;
+  }
+
+  // Any option-based question: a list answer is a multi-select, anything else a single choice
+  const parsed = parseJson(answer);
+  if (Array.isArray(parsed)) {
+    const selected = options.filter(option => parsed.some(token => findOption([option], token)));
+    if (selected.length === 0) return items;
+
+    for (const trait of model) {
+      const weights = options.map(option => weightFor(option.weights, trait.name));
+      if (weights.every(weight => weight === 0)) continue;
+      items.push({
+        questionId,
+        trait: trait.name,
+        value: sum(selected.map(option => weightFor(option.weights, trait.name))),
+        min: sum(weights.filter(weight => weight < 0)),
+        max: sum(weights.filter(weight => weight > 0))
+      });
+    }
+    return items;
+  }
+
+  const chosen = findOption(options, parsed);
+  if (!chosen) return items;
+
+  for (const trait of model) {
+    const weights = options.map(option => weightFor(option.weights, trait.name));
+    if (weights.every(weight => weight === 0)) continue;
+    items.push({
+      questionId,
+      trait: trait.name,
+      value: weightFor(chosen.weights, trait.name),
+      min: Math.min(...weights),
+      max: Math.max(...weights)
+    });
+  }
+  return items;
+};
+
+/**
+ * Whether any question carries a trait weight for a trait in the model
+ */
+export function hasTraitWeights(model: TraitModel, questions: ScorableQuestion[]): boolean {
+  return questions.some(question => {
+    const weightSets = question.questionType === 'slider'
+      ? [parseSliderConfig(question.sliderConfig).weights]
+      : parseOptions(question.options).map(option => option.weights);
+    return weightSets.some(weights => model.some(trait => weightFor(weights, trait.name) !== 0));
+  });
+}
+
+/**
+ * Per-question, per-trait contributions for one set of answers. Unanswered
+ * questions and questions that do not measure a trait contribute nothing.
+ */
+export function scoreTraitItems(
+  model: TraitModel,
+  questions: ScorableQuestion[],
+  responses: ScorableAnswer[]
+): TraitItemScore[] {
+  const answers = new Map<number, unknown>();
+  for (const response of responses || []) {
+    if (response && response.questionId != null) answers.set(Number(response.questionId), response.answer);
+  }
+
+  return questions.flatMap(question =>
+    answers.has(Number(question.id)) ? scoreQuestion(model, question, answers.get(Number(question.id))) : []
+  );
+}
+
+/**
+ * Score a response against a trait model. Each trait is the share of its
+ * possible range the answers reached, scaled to 0-100; traits no answered
+ * question measures sit at the neutral 50.
+ */
+export function scoreTraits(
+  model: TraitModel,
+  questions: ScorableQuestion[],
+  responses: ScorableAnswer[]
+): TraitScoringResult {
+  const items = scoreTraitItems(model, questions, responses).filter(item => item.max > item.min);
+  const itemCounts: Record<string, number> = {};
+
+  const traits = model.map(trait => {
+    const traitItems = items.filter(item => item.trait === trait.name);
+    itemCounts[trait.name] = traitItems.length;
+
+    const reached = sum(traitItems.map(item => item.value - item.min));
+    const possible = sum(traitItems.map(item => item.max - item.min));
+    const score = possible > 0 ? Math.round((100 * reached) / possible) : 50;
+
+    return { name: trait.name, category: trait.category, score: Math.max(0, Math.min(100, score)) };
+  });
+
+  return { traits, itemCounts };
+}
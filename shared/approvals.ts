@@ -0,0 +1,189 @@
+// Survey approval workflow: who has to approve a survey before it can go live,
+// how reviewers decide and when a review counts as approved
+import { z } from "zod";
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected", "cancelled"] as const;
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const REVIEW_DECISIONS = ["approved", "rejected"] as const;
+
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+// Company roles that configure the workflow and may approve any review of their company
+export const APPROVER_ROLES = ["business_owner", "business_admin"] as const;
+
+export const isApproverRole = (role: string | null | undefined): boolean =>
+  !!role && (APPROVER_ROLES as readonly string[]).includes(role);
+
+export const MAX_REQUIRED_APPROVALS = 20;
+
+export const approvalWorkflowSchema = z.object({
+  enabled: z.boolean(),
+  // Reviewers who must all approve before a survey can be published
+  reviewerIds: z.array(z.number().int().positive()).max(50).default([]),
+  requiredApprovals: z.number().int().min(1).max(MAX_REQUIRED_APPROVALS).default(1),
+  allowSelfApproval: z.boolean().default(false),
+});
+
+export type ApprovalWorkflowInput = z.infer<typeof approvalWorkflowSchema>;
+
+export interface ApprovalWorkflow extends ApprovalWorkflowInput {
+  companyId: number;
+  updatedAt: string | null;
+}
+
+export const reviewRequestSchema = z.object({
+  sessionId: z.number().int().positive(),
+  title: z.string().trim().min(1, "Enter a title").max(200),
+  notes: z.string().trim().max(2000).optional(),
+  // Review this saved version instead of a snapshot of the current questions
+  versionId: z.number().int().positive().optional(),
+  // Reviewers asked in addition to the ones the workflow requires
+  reviewerIds: z.array(z.number().int().positive()).max(50).optional(),
+});
+
+export type ReviewRequestInput = z.infer<typeof reviewRequestSchema>;
+
+export const reviewDecisionSchema = z
+  .object({
+    decision: z.enum(REVIEW_DECISIONS),
+    comment: z.string().trim().max(5000).optional(),
+  })
+  .refine((value) => value.decision !== "rejected" || !!value.comment, {
+    message: "Explain what needs to change when rejecting",
+    path: ["comment"],
+  });
+
+export type ReviewDecisionInput = z.infer<typeof reviewDecisionSchema>;
+
+export const reviewCommentSchema = z.object({
+  comment: z.string().trim().min(1, "Enter a comment").max(5000),
+});
+
+// The parts of a review that decide who may act on it and when it is approved
+export interface ReviewPolicy {
+  status: ReviewStatus;
+  requestedBy: number;
+  // Everyone asked to review; the required ones are also in here
+  reviewerIds: number[];
+  requiredReviewerIds: number[];
+  requiredApprovals: number;
+  allowSelfApproval: boolean;
+}
+
+export interface ReviewDecisionRecord {
+  reviewerId: number;
+  decision: ReviewDecision;
+}
+
+/**
+ * Reviewers a new review must wait for. The requester only counts when the
+ * workflow allows approving your own changes, otherwise the review could
+ * never be approved.
+ */
+export function requiredReviewersFor(
+  workflow: Pick<ApprovalWorkflowInput, "reviewerIds" | "allowSelfApproval">,
+  requestedBy: number
+): number[] {
+  return Array.from(new Set(workflow.reviewerIds)).filter(
+    (id) => workflow.allowSelfApproval || id !== requestedBy
+  );
+}
+
+/**
+ * Status of a review after its decisions: a single rejection rejects it, and
+ * it is approved once every required reviewer approved and there are enough
+ * approvals overall
+ */
+export function evaluateReview(
+  policy: Pick<ReviewPolicy, "requiredReviewerIds" | "requiredApprovals">,
+  decisions: ReviewDecisionRecord[]
+): Exclude<ReviewStatus, "cancelled"> {
+  if (decisions.some((d) => d.decision === "rejected")) return "rejected";
+
+  const approvedBy = new Set(decisions.filter((d) => d.decision === "approved").map((d) => d.reviewerId));
+  const requiredDone = policy.requiredReviewerIds.every((id) => approvedBy.has(id));
+  return requiredDone && approvedBy.size >= policy.requiredApprovals ? "approved" : "pending";
+}
+
+export interface DecisionBlocker {
+  reason: "closed" | "own_request" | "not_a_reviewer" | "already_decided";
+  message: string;
+}
+
+/**
+ * Why a user may not approve or reject a review, or null when they may
+ */
+export function decisionBlocker(
+  policy: ReviewPolicy,
+  user: { id: number; isApprover: boolean },
+  decisions: ReviewDecisionRecord[]
+): DecisionBlocker | null {
+  if (policy.status !== "pending") {
+    return { reason: "closed", message: "This review has already been closed" };
+  }
+  if (user.id === policy.requestedBy && !policy.allowSelfApproval) {
+    return { reason: "own_request", message: "You cannot approve or reject a review you requested" };
+  }
+  if (!policy.reviewerIds.includes(user.id) && !user.isApprover) {
+    return { reason: "not_a_reviewer", message: "Only the requested reviewers or a company admin can decide this review" };
+  }
+  if (decisions.some((d) => d.reviewerId === user.id)) {
+    return { reason: "already_decided", message: "You have already decided this review" };
+  }
+  return null;
+}
+
+export interface ReviewerSummary {
+  id: number;
+  username: string;
+  required: boolean;
+  decision: ReviewDecision | null;
+  decidedAt: string | null;
+}
+
+export interface ReviewCommentSummary {
+  id: number;
+  userId: number;
+  username: string;
+  comment: string;
+  // Set on the comment a reviewer left with their decision
+  decision: ReviewDecision | null;
+  createdAt: string;
+}
+
+export interface SurveyReviewSummary {
+  id: number;
+  surveyId: number;
+  sessionId: number;
+  versionId: number | null;
+  title: string;
+  notes: string | null;
+  status: ReviewStatus;
+  requestedBy: { id: number; username: string };
+  requiredApprovals: number;
+  approvals: number;
+  reviewers: ReviewerSummary[];
+  comments: ReviewCommentSummary[];
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Whether a survey's questions may go live, returned by the publish gate
+export interface PublishGate {
+  // False when the company has no approval workflow
+  required: boolean;
+  approved: boolean;
+  // The approved review that covers the content, or the pending one waiting for a decision
+  reviewId: number | null;
+  reason: string | null;
+}
+
+// A company user who can be picked as a reviewer
+export interface ApprovalMember {
+  id: number;
+  username: string;
+  role: string;
+}
@@ -0,0 +1,606 @@
+// Structured collaborative editing: field-level operations on survey
+// questions, their options and the survey settings, the version vectors that
+// detect concurrent edits, and the element locks that keep others out
+import { z } from "zod";
+import { renumberQuestions } from "./questionLogic";
+import { DEFAULT_QUESTION_TYPE, QUESTION_TYPE_IDS } from "./questionTypes";
+
+// Question columns an update operation may change; order and options have their own operations
+export const QUESTION_EDIT_FIELDS = [
+  "question",
+  "questionType",
+  "required",
+  "helpText",
+  "customValidation",
+  "sliderConfig",
+  "scenarioText",
+  "displayLogic",
+] as const;
+
+export type QuestionEditField = typeof QUESTION_EDIT_FIELDS[number];
+
+export const OPTION_EDIT_FIELDS = ["text", "value", "image", "description"] as const;
+
+export type OptionEditField = typeof OPTION_EDIT_FIELDS[number];
+
+export const SURVEY_EDIT_FIELDS = [
+  "title",
+  "description",
+  "estimatedTime",
+  "customWelcomeMessage",
+  "customCompletionMessage",
+] as const;
+
+export type SurveyEditField = typeof SURVEY_EDIT_FIELDS[number];
+
+export type CollaborationEntityType = "question" | "option" | "surveySettings";
+
+// Operations seen from each user, keyed by user ID
+export type VersionVector = Record<string, number>;
+
+// Version vector of every field that has been edited, keyed by versionKeys
+export type FieldVersions = Record<string, VersionVector>;
+
+export interface EditableOption {
+  id: string;
+  text: string;
+  value: string;
+  image?: string | null;
+  description?: string | null;
+  [key: string]: unknown;
+}
+
+// A survey_questions row as collaborators edit it
+export interface EditableQuestion {
+  id: number;
+  surveyId: number;
+  question: string;
+  questionType: string;
+  required: boolean | null;
+  helpText: string | null;
+  order: number;
+  // Stored as the survey editor saved them: strings or option objects
+  options: unknown;
+  customValidation: string | null;
+  sliderConfig: unknown;
+  scenarioText: string | null;
+  displayLogic: unknown;
+}
+
+export type SurveySettings = Partial<Record<SurveyEditField, unknown>>;
+
+const nullableText = z.string().nullable();
+
+const QUESTION_VALUE_SCHEMAS: Record<QuestionEditField, z.ZodTypeAny> = {
+  question: z.string().trim().min(1, "Question text cannot be empty"),
+  questionType: z.enum(QUESTION_TYPE_IDS),
+  required: z.boolean(),
+  helpText: nullableText,
+  customValidation: nullableText,
+  sliderConfig: z.record(z.unknown()).nullable(),
+  scenarioText: nullableText,
+  displayLogic: z.unknown(),
+};
+
+const OPTION_VALUE_SCHEMAS: Record<OptionEditField, z.ZodTypeAny> = {
+  text: z.string().trim().min(1, "Options cannot be empty"),
+  value: z.string().trim().min(1, "Option values cannot be empty"),
+  image: nullableText,
+  description: nullableText,
+};
+
+const SURVEY_VALUE_SCHEMAS: Record<SurveyEditField, z.ZodTypeAny> = {
+  title: z.string().trim().min(1, "Title cannot be empty"),
+  description: nullableText,
+  estimatedTime: z.number().int().positive().nullable(),
+  customWelcomeMessage: nullableText,
+  customCompletionMessage: nullableText,
+};
+
+const entityIdSchema = z.number().int().positive();
+const optionIdSchema = z.string().min(1);
+// Version vector of the field as the sender last saw it
+const baseVersionSchema = z.record(z.string(), z.number().int().nonnegative()).default({});
+
+export const collaborationOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("createQuestion"),
+    question: z.object({
+      question: z.string().trim().min(1, "Question text cannot be empty"),
+      questionType: z.enum(QUESTION_TYPE_IDS).default(DEFAULT_QUESTION_TYPE),
+      required: z.boolean().default(true),
+      helpText: nullableText.optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("updateQuestion"),
+    questionId: entityIdSchema,
+    field: z.enum(QUESTION_EDIT_FIELDS),
+    value: z.unknown(),
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("deleteQuestion"),
+    questionId: entityIdSchema,
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("reorderQuestions"),
+    questionIds: z.array(entityIdSchema).min(1),
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("createOption"),
+    questionId: entityIdSchema,
+    option: z.object({
+      text: z.string().trim().min(1, "Options cannot be empty"),
+      value: z.string().trim().min(1).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("updateOption"),
+    questionId: entityIdSchema,
+    optionId: optionIdSchema,
+    field: z.enum(OPTION_EDIT_FIELDS),
+    value: z.unknown(),
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("deleteOption"),
+    questionId: entityIdSchema,
+    optionId: optionIdSchema,
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("reorderOptions"),
+    questionId: entityIdSchema,
+    optionIds: z.array(optionIdSchema).min(1),
+    baseVersion: baseVersionSchema,
+  }),
+  z.object({
+    type: z.literal("updateSurvey"),
+    field: z.enum(SURVEY_EDIT_FIELDS),
+    value: z.unknown(),
+    baseVersion: baseVersionSchema,
+  }),
+]).superRefine((op, ctx) => {
+  const check =
+    op.type === "updateQuestion" ? { schema: QUESTION_VALUE_SCHEMAS[op.field], value: op.value } :
+    op.type === "updateOption" ? { schema: OPTION_VALUE_SCHEMAS[op.field], value: op.value } :
+    op.type === "updateSurvey" ? { schema: SURVEY_VALUE_SCHEMAS[op.field], value: op.value } :
+    null;
+  if (!check) return;
+
+  const result = check.schema.safeParse(check.value);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ["value", ...issue.path] }));
+  }
+});
+
+export type CollaborationOperation = z.infer<typeof collaborationOperationSchema>;
+
+// What a client sends; the base version may be left out for operations that never conflict
+export type CollaborationOperationInput = z.input<typeof collaborationOperationSchema>;
+
+export type CollaborationChangeType = "create" | "update" | "delete" | "reorder";
+
+/**
+ * Keys of the version vectors. Every field has one, and so do questions and
+ * options as a whole (advanced by any edit inside them) and the two orderings.
+ */
+export const versionKeys = {
+  question: (questionId: number) => `question:${questionId}`,
+  questionField: (questionId: number, field: string) => `question:${questionId}:${field}`,
+  optionOrder: (questionId: number) => `question:${questionId}:options`,
+  option: (questionId: number, optionId: string) => `option:${questionId}/${optionId}`,
+  optionField: (questionId: number, optionId: string, field: string) => `option:${questionId}/${optionId}:${field}`,
+  questionOrder: "survey:order",
+  surveyField: (field: string) => `survey:${field}`,
+};
+
+/**
+ * The version vector an operation is checked against; null for operations
+ * that cannot conflict (creating a question or an option)
+ */
+export function conflictKey(op: CollaborationOperation): string | null {
+  switch (op.type) {
+    case "updateQuestion":
+      return versionKeys.questionField(op.questionId, op.field);
+    case "deleteQuestion":
+      return versionKeys.question(op.questionId);
+    case "reorderQuestions":
+      return versionKeys.questionOrder;
+    case "updateOption":
+      return versionKeys.optionField(op.questionId, op.optionId, op.field);
+    case "deleteOption":
+      return versionKeys.option(op.questionId, op.optionId);
+    case "reorderOptions":
+      return versionKeys.optionOrder(op.questionId);
+    case "updateSurvey":
+      return versionKeys.surveyField(op.field);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Every version vector an applied operation advances. Created questions and
+ * options are passed in because their IDs are only known once they exist.
+ */
+export function touchedKeys(op: CollaborationOperation, created?: { questionId?: number; optionId?: string }): string[] {
+  switch (op.type) {
+    case "createQuestion":
+      return created?.questionId ? [versionKeys.question(created.questionId)] : [];
+    case "updateQuestion":
+      return [versionKeys.questionField(op.questionId, op.field), versionKeys.question(op.questionId)];
+    case "deleteQuestion":
+      return [versionKeys.question(op.questionId)];
+    case "reorderQuestions":
+      return [versionKeys.questionOrder];
+    case "createOption":
+      return [
+        ...(created?.optionId ? [versionKeys.option(op.questionId, created.optionId)] : []),
+        versionKeys.optionOrder(op.questionId),
+        versionKeys.question(op.questionId),
+      ];
+    case "updateOption":
+      return [
+        versionKeys.optionField(op.questionId, op.optionId, op.field),
+        versionKeys.option(op.questionId, op.optionId),
+        versionKeys.question(op.questionId),
+      ];
+    case "deleteOption":
+      return [versionKeys.option(op.questionId, op.optionId), versionKeys.optionOrder(op.questionId), versionKeys.question(op.questionId)];
+    case "reorderOptions":
+      return [versionKeys.optionOrder(op.questionId), versionKeys.question(op.questionId)];
+    case "updateSurvey":
+      return [versionKeys.surveyField(op.field)];
+  }
+}
+
+/**
+ * Whether another user changed the field after the sender last saw it. The
+ * sender's own entry is ignored: one user's edits reach the server in the
+ * order they were made, even when the client has not seen the reply yet.
+ */
+export function isConcurrent(current: VersionVector | undefined, base: VersionVector, userId: number): boolean {
+  if (!current) return false;
+  const self = String(userId);
+  return Object.entries(current).some(([user, count]) => user !== self && count > (base[user] ?? 0));
+}
+
+/**
+ * Advance the given keys by one operation of the user. Returns all versions
+ * and just the advanced ones, which is what other clients need to merge.
+ */
+export function advanceVersions(
+  versions: FieldVersions,
+  keys: string[],
+  userId: number
+): { versions: FieldVersions; advanced: FieldVersions } {
+  const self = String(userId);
+  const next: FieldVersions = { ...versions };
+  const advanced: FieldVersions = {};
+  keys.forEach((key) => {
+    const vector = { ...(next[key] ?? {}) };
+    vector[self] = (vector[self] ?? 0) + 1;
+    next[key] = vector;
+    advanced[key] = vector;
+  });
+  return { versions: next, advanced };
+}
+
+// Entry-wise maximum of two sets of field versions
+export function mergeFieldVersions(current: FieldVersions, incoming: FieldVersions): FieldVersions {
+  const merged: FieldVersions = { ...current };
+  Object.entries(incoming).forEach(([key, vector]) => {
+    const combined = { ...(merged[key] ?? {}) };
+    Object.entries(vector).forEach(([user, count]) => {
+      combined[user] = Math.max(combined[user] ?? 0, count);
+    });
+    merged[key] = combined;
+  });
+  return merged;
+}
+
+// ID an option is addressed by: its ID, value or text; plain string options are their own ID
+export function optionIdOf(option: unknown, index: number): string {
+  if (typeof option === "string" || typeof option === "number") return String(option);
+  const raw = (option ?? {}) as Record<string, unknown>;
+  const id = [raw.id, raw.value, raw.text, raw.label].find((key) => key !== undefined && key !== null && key !== "");
+  return id !== undefined ? String(id) : `opt_${index}`;
+}
+
+export function toEditableOption(option: unknown, index: number): EditableOption {
+  const id = optionIdOf(option, index);
+  if (typeof option !== "object" || option === null) {
+    return { id, text: id, value: id };
+  }
+  const raw = option as Record<string, unknown>;
+  return {
+    ...raw,
+    id,
+    text: String(raw.text ?? raw.label ?? raw.value ?? id),
+    value: String(raw.value ?? raw.id ?? raw.text ?? id),
+  };
+}
+
+// Stored options as a list; anything else counts as no options
+export function optionList(options: unknown): unknown[] {
+  if (Array.isArray(options)) return options;
+  if (typeof options === "string") {
+    try {
+      const parsed = JSON.parse(options);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+export function editableOptions(options: unknown): EditableOption[] {
+  return optionList(options).map(toEditableOption);
+}
+
+/**
+ * Put items in the requested order. Requested IDs that no longer exist are
+ * skipped and items the requester did not know about keep their place after
+ * the ordered ones, so a reorder never drops a concurrently created item.
+ */
+export function orderByIds<T>(items: T[], idOf: (item: T, index: number) => string, requested: string[]): T[] {
+  const entries = items.map((item, index) => ({ item, id: idOf(item, index) }));
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const ordered = Array.from(new Set(requested))
+    .map((id) => byId.get(id))
+    .filter((entry): entry is { item: T; id: string } => !!entry);
+  const placed = new Set(ordered.map((entry) => entry.id));
+  return [...ordered, ...entries.filter((entry) => !placed.has(entry.id))].map((entry) => entry.item);
+}
+
+/**
+ * Put questions in the requested order and number them from 1. Display logic
+ * refers to questions by their order, so its conditions move along with the
+ * questions they point at; conditions left pointing at a later question are dropped.
+ */
+export function reorderQuestionList<T extends Pick<EditableQuestion, "id" | "order" | "displayLogic">>(
+  questions: T[],
+  questionIds: number[]
+): T[] {
+  return renumberQuestions(orderByIds(questions, (question) => String(question.id), questionIds.map(String)))
+    .map((question) => ({ ...question, displayLogic: question.displayLogic ?? null }));
+}
+
+/**
+ * Apply an option operation to a question's stored options. Options the
+ * operation does not touch are kept exactly as stored. Null when the option
+ * the operation addresses does not exist.
+ */
+export function applyOptionOperation(
+  options: unknown,
+  op: Extract<CollaborationOperation, { type: "createOption" | "updateOption" | "deleteOption" | "reorderOptions" }>,
+  newOptionId?: string
+): { options: unknown[]; previousValue: unknown; newValue: unknown } | null {
+  const list = optionList(options);
+  const index = "optionId" in op ? list.findIndex((option, i) => optionIdOf(option, i) === op.optionId) : -1;
+
+  switch (op.type) {
+    case "createOption": {
+      const created = { id: newOptionId ?? `opt_${list.length}`, text: op.option.text, value: op.option.value ?? op.option.text };
+      return { options: [...list, created], previousValue: null, newValue: created };
+    }
+    case "updateOption": {
+      if (index === -1) return null;
+      const current = toEditableOption(list[index], index);
+      const updated = { ...current, [op.field]: op.value };
+      return {
+        options: list.map((option, i) => (i === index ? updated : option)),
+        previousValue: current[op.field] ?? null,
+        newValue: op.value,
+      };
+    }
+    case "deleteOption":
+      if (index === -1) return null;
+      return { options: list.filter((_option, i) => i !== index), previousValue: list[index], newValue: null };
+    case "reorderOptions": {
+      const reordered = orderByIds(list, optionIdOf, op.optionIds);
+      return {
+        options: reordered,
+        previousValue: list.map(optionIdOf),
+        newValue: reordered.map(optionIdOf),
+      };
+    }
+  }
+}
+
+export type LockElementType = "question" | "option" | "surveySettings";
+
+export const LOCK_ELEMENT_TYPES = ["question", "option", "surveySettings"] as const;
+
+// Locks are kept in collaboration_sessions.current_locks
+export interface ElementLock {
+  elementType: LockElementType;
+  // Question ID, "<question ID>/<option ID>", or "survey"
+  elementId: string;
+  userId: number;
+  username: string;
+  lockedAt: string;
+  expiresAt: string;
+}
+
+export const lockRequestSchema = z.object({
+  elementType: z.enum(LOCK_ELEMENT_TYPES),
+  elementId: z.string().trim().min(1),
+});
+
+export type LockRequest = z.infer<typeof lockRequestSchema>;
+
+export const lockElementIds = {
+  question: (questionId: number) => String(questionId),
+  option: (questionId: number, optionId: string) => `${questionId}/${optionId}`,
+  surveySettings: "survey",
+};
+
+// Elements whose lock keeps other users from applying the operation
+export function lockTargets(op: CollaborationOperation): LockRequest[] {
+  switch (op.type) {
+    case "updateQuestion":
+    case "deleteQuestion":
+    case "createOption":
+    case "reorderOptions":
+      return [{ elementType: "question", elementId: lockElementIds.question(op.questionId) }];
+    case "updateOption":
+    case "deleteOption":
+      return [
+        { elementType: "question", elementId: lockElementIds.question(op.questionId) },
+        { elementType: "option", elementId: lockElementIds.option(op.questionId, op.optionId) },
+      ];
+    case "updateSurvey":
+      return [{ elementType: "surveySettings", elementId: lockElementIds.surveySettings }];
+    default:
+      return [];
+  }
+}
+
+// Stored locks that have not expired yet
+export function activeLocks(stored: unknown, now: Date): ElementLock[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((lock): lock is ElementLock =>
+    !!lock &&
+    typeof lock === "object" &&
+    typeof lock.elementType === "string" &&
+    typeof lock.elementId === "string" &&
+    typeof lock.userId === "number" &&
+    new Date(lock.expiresAt).getTime() > now.getTime()
+  );
+}
+
+const sameElement = (lock: ElementLock, element: LockRequest) =>
+  lock.elementType === element.elementType && lock.elementId === element.elementId;
+
+// An active lock another user holds on something the operation changes
+export function findBlockingLock(locks: ElementLock[], op: CollaborationOperation, userId: number): ElementLock | null {
+  const targets = lockTargets(op);
+  return locks.find((lock) => lock.userId !== userId && targets.some((target) => sameElement(lock, target))) ?? null;
+}
+
+/**
+ * Take a lock for lockTimeoutMs. Taking a lock the user already holds
+ * extends it; a lock another user holds is returned instead.
+ */
+export function acquireLock(
+  locks: ElementLock[],
+  request: LockRequest & { userId: number; username: string },
+  now: Date,
+  lockTimeoutMs: number
+): { acquired: true; lock: ElementLock; locks: ElementLock[] } | { acquired: false; lock: ElementLock } {
+  const existing = locks.find((lock) => sameElement(lock, request));
+  if (existing && existing.userId !== request.userId) {
+    return { acquired: false, lock: existing };
+  }
+
+  const lock: ElementLock = {
+    elementType: request.elementType,
+    elementId: request.elementId,
+    userId: request.userId,
+    username: request.username,
+    lockedAt: existing?.lockedAt ?? now.toISOString(),
+    expiresAt: new Date(now.getTime() + lockTimeoutMs).toISOString(),
+  };
+  return { acquired: true, lock, locks: [...locks.filter((held) => !sameElement(held, request)), lock] };
+}
+
+// Release a lock the user holds; locks of other users stay
+export function releaseLock(locks: ElementLock[], element: LockRequest, userId: number): { released: boolean; locks: ElementLock[] } {
+  const remaining = locks.filter((lock) => !(sameElement(lock, element) && lock.userId === userId));
+  return { released: remaining.length < locks.length, locks: remaining };
+}
+
+// Drop the locks on a deleted question and its options
+export function locksWithoutQuestion(locks: ElementLock[], questionId: number): ElementLock[] {
+  const id = lockElementIds.question(questionId);
+  return locks.filter((lock) => !(
+    (lock.elementType === "question" && lock.elementId === id) ||
+    (lock.elementType === "option" && lock.elementId.startsWith(`${id}/`))
+  ));
+}
+
+// An operation the server applied, as it is broadcast to every collaborator
+export interface AppliedOperation {
+  // Position in the session's change log
+  sequence: number;
+  userId: number;
+  username: string;
+  appliedAt: string;
+  operation: CollaborationOperation;
+  entityType: CollaborationEntityType;
+  entityId: number;
+  changeType: CollaborationChangeType;
+  field: string | null;
+  // Question as it is after the operation; absent when it was deleted
+  question?: EditableQuestion;
+  deletedQuestionId?: number;
+  // Question IDs in order after the questions were reordered
+  questionOrder?: number[];
+  survey?: SurveySettings;
+  // Versions the operation advanced, to be merged into the collaborators' own
+  versions: FieldVersions;
+}
+
+export type OperationOutcome =
+  | { status: "applied"; change: AppliedOperation }
+  | {
+      status: "conflicted";
+      // "concurrent": someone else changed the field first; "missing": it was deleted
+      reason: "concurrent" | "missing";
+      message: string;
+      key: string | null;
+      // The field's current value and version, to rebase on
+      current: unknown;
+      version: VersionVector;
+    }
+  | { status: "rejected"; reason: "locked"; message: string; lock: ElementLock };
+
+// Everything a collaborator needs to start editing
+export interface CollaborationWorkspace {
+  sessionId: number;
+  surveyId: number;
+  survey: SurveySettings;
+  questions: EditableQuestion[];
+  fieldVersions: FieldVersions;
+  locks: ElementLock[];
+  lockTimeout: number;
+  sequence: number;
+}
+
+/**
+ * Apply a broadcast operation to a workspace. Applying the same operation
+ * twice leaves the same result, so a client may apply its own reply and
+ * the broadcast of it.
+ */
+export function applyToWorkspace<T extends Pick<CollaborationWorkspace, "questions" | "fieldVersions" | "survey" | "sequence">>(
+  workspace: T,
+  change: AppliedOperation
+): T {
+  let questions = workspace.questions;
+  if (change.question) {
+    const updated = change.question;
+    questions = questions.some((question) => question.id === updated.id)
+      ? questions.map((question) => (question.id === updated.id ? updated : question))
+      : [...questions, updated];
+  }
+  if (change.deletedQuestionId !== undefined) {
+    questions = questions.filter((question) => question.id !== change.deletedQuestionId);
+  }
+  if (change.questionOrder) {
+    questions = reorderQuestionList(questions, change.questionOrder);
+  }
+
+  return {
+    ...workspace,
+    questions: [...questions].sort((a, b) => a.order - b.order),
+    survey: change.survey ? { ...workspace.survey, ...change.survey } : workspace.survey,
+    fieldVersions: mergeFieldVersions(workspace.fieldVersions, change.versions),
+    sequence: Math.max(workspace.sequence, change.sequence),
+  };
+}
@@ -0,0 +1,210 @@
+// Data subject requests (GDPR/CCPA): respondents ask by email for a copy of
+// their data, a machine-readable export or its erasure, and platform staff
+// fulfil verified requests before the legal deadline
+import { z } from "zod";
+
+export const DATA_SUBJECT_REQUEST_TYPES = ["access", "export", "erasure"] as const;
+
+export type DataSubjectRequestType = typeof DATA_SUBJECT_REQUEST_TYPES[number];
+
+export const DATA_SUBJECT_REQUEST_TYPE_LABELS: Record<DataSubjectRequestType, string> = {
+  access: "Access to my data",
+  export: "Export of my data",
+  erasure: "Erasure of my data",
+};
+
+export const DataSubjectRequestStatus = {
+  UNVERIFIED: "unverified",
+  PENDING: "pending",
+  COMPLETED: "completed",
+  REJECTED: "rejected",
+} as const;
+
+export type DataSubjectRequestStatusName = typeof DataSubjectRequestStatus[keyof typeof DataSubjectRequestStatus];
+
+export const PRIVACY_JURISDICTIONS = ["gdpr", "ccpa"] as const;
+
+export type PrivacyJurisdiction = typeof PRIVACY_JURISDICTIONS[number];
+
+export const PRIVACY_JURISDICTION_LABELS: Record<PrivacyJurisdiction, string> = {
+  gdpr: "GDPR (EU and UK)",
+  ccpa: "CCPA (California)",
+};
+
+// Days to respond, counted from verification: one month under GDPR Art. 12(3), 45 days under the CCPA
+export const LEGAL_RESPONSE_DAYS: Record<PrivacyJurisdiction, number> = { gdpr: 30, ccpa: 45 };
+
+// Requests this close to their deadline are flagged in the queue
+export const DUE_SOON_DAYS = 7;
+
+export const VERIFICATION_TTL_HOURS = 48;
+// Another verification email for the same address and request type is sent at most this often
+export const VERIFICATION_RESEND_MINUTES = 10;
+export const DOWNLOAD_TTL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeSubjectEmail = (email: string) => email.trim().toLowerCase();
+
+export const dataSubjectRequestSchema = z.object({
+  email: z.string().trim().max(254).email("Enter a valid email address").transform(normalizeSubjectEmail),
+  type: z.enum(DATA_SUBJECT_REQUEST_TYPES, { errorMap: () => ({ message: "Choose access, export or erasure" }) }),
+  jurisdiction: z.enum(PRIVACY_JURISDICTIONS).default("gdpr"),
+  details: z.string().trim().max(2000).optional(),
+});
+
+export type DataSubjectRequestInput = z.infer<typeof dataSubjectRequestSchema>;
+
+// Verification and download links carry a 32-byte hex token
+export const privacyTokenSchema = z.object({
+  token: z.string().trim().regex(/^[a-f0-9]{64}$/, "This link is invalid or has expired"),
+});
+
+export const rejectDataSubjectRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Give the reason the request is rejected").max(1000),
+});
+
+export const legalDeadline = (jurisdiction: PrivacyJurisdiction, verifiedAt: Date): Date =>
+  new Date(verifiedAt.getTime() + LEGAL_RESPONSE_DAYS[jurisdiction] * DAY_MS);
+
+export type DeadlineState = "on_track" | "due_soon" | "overdue";
+
+/**
+ * Where an open request stands against its deadline; null when there is none yet
+ */
+export function deadlineState(dueAt: Date | string | null | undefined, now = new Date()): DeadlineState | null {
+  if (!dueAt) return null;
+  const left = new Date(dueAt).getTime() - now.getTime();
+  if (left < 0) return "overdue";
+  return left <= DUE_SOON_DAYS * DAY_MS ? "due_soon" : "on_track";
+}
+
+/**
+ * Whole days until the deadline, negative once it has passed
+ */
+export const daysUntil = (dueAt: Date | string, now = new Date()): number =>
+  Math.floor((new Date(dueAt).getTime() - now.getTime()) / DAY_MS);
+
+// Records held about a subject, per category of personal data
+export interface SubjectDataCounts {
+  responses: number;
+  surveySessions: number;
+  cookieConsents: number;
+  newsletterSubscriptions: number;
+  emailDeliveries: number;
+}
+
+export const SUBJECT_DATA_CATEGORIES: Array<{ key: keyof SubjectDataCounts; label: string }> = [
+  { key: "responses", label: "Survey responses" },
+  { key: "surveySessions", label: "Survey sessions" },
+  { key: "cookieConsents", label: "Cookie consents" },
+  { key: "newsletterSubscriptions", label: "Newsletter subscriptions" },
+  { key: "emailDeliveries", label: "Emails sent" },
+];
+
+export const EMPTY_SUBJECT_DATA_COUNTS: SubjectDataCounts = {
+  responses: 0,
+  surveySessions: 0,
+  cookieConsents: 0,
+  newsletterSubscriptions: 0,
+  emailDeliveries: 0,
+};
+
+export interface DataSubjectRequestSummary {
+  id: number;
+  type: DataSubjectRequestType;
+  status: DataSubjectRequestStatusName;
+  email: string;
+  jurisdiction: PrivacyJurisdiction;
+  details: string | null;
+  createdAt: string;
+  verifiedAt: string | null;
+  dueAt: string | null;
+  completedAt: string | null;
+  rejectedAt: string | null;
+  rejectionReason: string | null;
+  handledById: number | null;
+  result: SubjectDataCounts | null;
+  deadline: DeadlineState | null;
+  daysLeft: number | null;
+}
+
+export interface DataSubjectRequestQueue {
+  requests: DataSubjectRequestSummary[];
+  counts: { pending: number; dueSoon: number; overdue: number };
+}
+
+// A pending request with the records it would cover, shown before fulfilling it
+export interface DataSubjectRequestDetail extends DataSubjectRequestSummary {
+  records: SubjectDataCounts;
+  certificate: SignedCompletionCertificate | null;
+}
+
+export interface CompletionCertificate {
+  requestId: number;
+  type: DataSubjectRequestType;
+  jurisdiction: PrivacyJurisdiction;
+  // SHA-256 of the email address; the address itself stays out of the audit log
+  subject: string;
+  receivedAt: string;
+  verifiedAt: string;
+  dueAt: string;
+  completedAt: string;
+  completedBy: number;
+  onTime: boolean;
+  // Records handed over, or erased for erasure requests
+  records: SubjectDataCounts;
+  // Erasure only: archives that still hold the data; restoring one re-applies the erasure
+  backups?: { archives: number; erasureReappliedOnRestore: true };
+  // Access and export only: until when the subject can download their data
+  downloadExpiresAt?: string;
+}
+
+export interface SignedCompletionCertificate {
+  certificate: CompletionCertificate;
+  algorithm: "HMAC-SHA256";
+  signature: string;
+}
+
+/**
+ * Drop answers to free-text questions, which can name or describe the
+ * respondent; answers to closed questions are kept for the aggregate results
+ */
+export function redactFreeTextAnswers(responses: unknown, freeTextQuestionIds: Iterable<number>): unknown {
+  const ids = new Set(Array.from(freeTextQuestionIds, String));
+  let parsed = responses;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return [];
+    }
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed.filter((item) => !(item && typeof item === "object" && ids.has(String((item as { questionId?: unknown }).questionId))));
+  }
+  if (parsed && typeof parsed === "object") {
+    return Object.fromEntries(Object.entries(parsed as Record<string, unknown>).filter(([key]) => !ids.has(key)));
+  }
+  return parsed;
+}
+
+// What a subject access package says about the processing besides the data itself (GDPR Art. 15(1))
+export const SUBJECT_ACCESS_INFORMATION = {
+  purposes: [
+    "Analysing survey answers for the company that ran the survey",
+    "Scoring personality traits and summarising results for that company",
+    "Sending the newsletter you subscribed to",
+    "Remembering your cookie preferences",
+  ],
+  recipients: "The company that ran each survey, and the providers hosting the platform and sending its email",
+  retention: "Responses are kept until the surveying company deletes them or you ask for erasure; backups expire under the platform's backup retention",
+  source: "Collected from you when you took a survey, subscribed or set cookie preferences",
+  rights: [
+    "Ask for a copy or a machine-readable export of your data",
+    "Ask for your data to be corrected or erased",
+    "Object to or restrict processing",
+    "Lodge a complaint with a supervisory authority",
+  ],
+};
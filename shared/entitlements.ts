@@ -0,0 +1,281 @@
+// License entitlements: the limits and features a company's license and
+// subscription give it, how much of each it uses and why an action is refused
+import { z } from "zod";
+
+export const ENTITLEMENT_LIMITS = ["surveys", "responses", "seats"] as const;
+
+export type EntitlementLimit = typeof ENTITLEMENT_LIMITS[number];
+
+// License features; the first six are also stored on the company for companies without a license
+export const ENTITLEMENT_FEATURES = [
+  "aiInsights",
+  "advancedAnalytics",
+  "dataExport",
+  "socialSharing",
+  "customBranding",
+  "crmIntegration",
+  "apiAccess",
+  "prioritySupport",
+  "whiteLabeling",
+] as const;
+
+export type EntitlementFeature = typeof ENTITLEMENT_FEATURES[number];
+
+export const FEATURE_LABELS: Record<EntitlementFeature, string> = {
+  aiInsights: "AI insights",
+  advancedAnalytics: "Advanced analytics",
+  dataExport: "Data export",
+  socialSharing: "Social sharing",
+  customBranding: "Custom branding",
+  crmIntegration: "CRM integration",
+  apiAccess: "API access",
+  prioritySupport: "Priority support",
+  whiteLabeling: "White labeling",
+};
+
+const LIMIT_LABELS: Record<EntitlementLimit, string> = {
+  surveys: "surveys",
+  responses: "responses",
+  seats: "seats",
+};
+
+export const EntitlementErrorCode = {
+  SURVEY_LIMIT_EXCEEDED: "SURVEY_LIMIT_EXCEEDED",
+  RESPONSE_LIMIT_EXCEEDED: "RESPONSE_LIMIT_EXCEEDED",
+  SEAT_LIMIT_EXCEEDED: "SEAT_LIMIT_EXCEEDED",
+  DEPLOYMENT_LIMIT_EXCEEDED: "DEPLOYMENT_LIMIT_EXCEEDED",
+  FEATURE_NOT_INCLUDED: "FEATURE_NOT_INCLUDED",
+  LICENSE_INACTIVE: "LICENSE_INACTIVE",
+} as const;
+
+export type EntitlementErrorCodeName = typeof EntitlementErrorCode[keyof typeof EntitlementErrorCode];
+
+const LIMIT_ERROR_CODES: Record<EntitlementLimit, EntitlementErrorCodeName> = {
+  surveys: EntitlementErrorCode.SURVEY_LIMIT_EXCEEDED,
+  responses: EntitlementErrorCode.RESPONSE_LIMIT_EXCEEDED,
+  seats: EntitlementErrorCode.SEAT_LIMIT_EXCEEDED,
+};
+
+export type EntitlementStatus = "active" | "expired" | "suspended";
+
+export interface Entitlements {
+  companyId: number;
+  // Where the limits come from: the assigned license, or the company's own limits without one
+  source: "license" | "company";
+  licenseId: number | null;
+  plan: string;
+  status: EntitlementStatus;
+  // Why the entitlements are not active, e.g. "The license expired on ..."
+  statusReason: string | null;
+  validUntil: string | null;
+  // Null means unlimited
+  limits: Record<EntitlementLimit, number | null>;
+  features: Record<EntitlementFeature, boolean>;
+}
+
+export interface UsageItem {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  // 0 for unlimited
+  percent: number;
+}
+
+export interface EntitlementUsage {
+  entitlements: Entitlements;
+  usage: Record<EntitlementLimit, UsageItem>;
+}
+
+// Why an action was refused, sent to the client with the over-limit error
+export interface EntitlementViolation {
+  code: EntitlementErrorCodeName;
+  message: string;
+  entitlement: EntitlementLimit | EntitlementFeature | "license" | "deployment";
+  current?: number;
+  maximum?: number;
+}
+
+// Negative and missing limits are unlimited (licenses store -1 for unlimited)
+export const normalizeLimit = (value: number | null | undefined): number | null =>
+  value === null || value === undefined || value < 0 ? null : value;
+
+export function usageItem(used: number, limit: number | null): UsageItem {
+  return {
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    percent: limit === null ? 0 : limit === 0 ? 100 : Math.min(100, Math.round((used / limit) * 100)),
+  };
+}
+
+const licenseFeaturesSchema = z.record(z.unknown());
+
+// License features are stored as a JSON object, sometimes as a JSON string
+export function parseLicenseFeatures(raw: unknown): Partial<Record<EntitlementFeature, boolean>> {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  const parsed = licenseFeaturesSchema.safeParse(value);
+  if (!parsed.success) return {};
+
+  const features: Partial<Record<EntitlementFeature, boolean>> = {};
+  for (const feature of ENTITLEMENT_FEATURES) {
+    if (typeof parsed.data[feature] === "boolean") {
+      features[feature] = parsed.data[feature] as boolean;
+    }
+  }
+  return features;
+}
+
+export interface EntitlementSource {
+  company: {
+    id: number;
+    subscriptionTier: string;
+    licenseStatus: string;
+    licenseEndDate: Date | string | null;
+    trialEnds: Date | string | null;
+    maxUsers: number | null;
+    maxSurveys: number | null;
+    maxResponses: number | null;
+  } & Partial<Record<EntitlementFeature, boolean | null>>;
+  license: {
+    id: number;
+    type: string;
+    status: string;
+    endDate: Date | string;
+    maxSurveys: number;
+    maxResponses: number;
+    maxSeats: number;
+    features: unknown;
+  } | null;
+  // The company's latest subscription, if it has one
+  subscription: {
+    planType: string;
+    status: string;
+    endDate: Date | string | null;
+    autoRenew: boolean | null;
+  } | null;
+}
+
+const isPast = (value: Date | string | null | undefined, now: Date) =>
+  !!value && new Date(value).getTime() <= now.getTime();
+
+const formatDay = (value: Date | string) => new Date(value).toISOString().slice(0, 10);
+
+/**
+ * A company's effective entitlements. An assigned license sets the limits and
+ * features; features it does not mention fall back to the company's own
+ * toggles. The license, the company's license status, a trial and the
+ * subscription can each end the entitlements.
+ */
+export function resolveEntitlements({ company, license, subscription }: EntitlementSource, now = new Date()): Entitlements {
+  const licenseFeatures = license ? parseLicenseFeatures(license.features) : {};
+  const features = {} as Record<EntitlementFeature, boolean>;
+  for (const feature of ENTITLEMENT_FEATURES) {
+    features[feature] = licenseFeatures[feature] ?? company[feature] ?? false;
+  }
+
+  let status: EntitlementStatus = "active";
+  let statusReason: string | null = null;
+  const end = (next: EntitlementStatus, reason: string) => {
+    if (status === "active") {
+      status = next;
+      statusReason = reason;
+    }
+  };
+
+  if (license) {
+    if (license.status === "suspended") end("suspended", "The license is suspended");
+    else if (license.status !== "active") end("expired", "The license is no longer active");
+    else if (isPast(license.endDate, now)) end("expired", `The license expired on ${formatDay(license.endDate)}`);
+  }
+  if (company.licenseStatus === "suspended") end("suspended", "The account is suspended");
+  else if (company.licenseStatus !== "active") end("expired", "The account's license has expired");
+  else if (company.licenseEndDate && isPast(company.licenseEndDate, now)) {
+    end("expired", `The license expired on ${formatDay(company.licenseEndDate)}`);
+  }
+  if (!license && company.subscriptionTier === "trial" && company.trialEnds && isPast(company.trialEnds, now)) {
+    end("expired", `The trial ended on ${formatDay(company.trialEnds)}`);
+  }
+  if (subscription) {
+    if (subscription.status === "suspended") end("suspended", "The subscription is suspended");
+    else if (subscription.status !== "active") end("expired", "The subscription is no longer active");
+    else if (!subscription.autoRenew && subscription.endDate && isPast(subscription.endDate, now)) {
+      end("expired", `The subscription ended on ${formatDay(subscription.endDate)}`);
+    }
+  }
+
+  const validUntil = license?.endDate ?? company.licenseEndDate ?? null;
+  return {
+    companyId: company.id,
+    source: license ? "license" : "company",
+    licenseId: license?.id ?? null,
+    plan: subscription?.planType ?? license?.type ?? company.subscriptionTier,
+    status,
+    statusReason,
+    validUntil: validUntil ? new Date(validUntil).toISOString() : null,
+    limits: license
+      ? {
+          surveys: normalizeLimit(license.maxSurveys),
+          responses: normalizeLimit(license.maxResponses),
+          seats: normalizeLimit(license.maxSeats),
+        }
+      : {
+          surveys: normalizeLimit(company.maxSurveys),
+          responses: normalizeLimit(company.maxResponses),
+          seats: normalizeLimit(company.maxUsers),
+        },
+    features,
+  };
+}
+
+export function checkActive(entitlements: Entitlements): EntitlementViolation | null {
+  if (entitlements.status === "active") return null;
+  return {
+    code: EntitlementErrorCode.LICENSE_INACTIVE,
+    message: `${entitlements.statusReason ?? "The license is not active"}. Renew it to continue.`,
+    entitlement: "license",
+  };
+}
+
+/**
+ * Whether `adding` more of a limited resource fit next to the `used` ones.
+ * An inactive license refuses everything.
+ */
+export function checkLimit(
+  entitlements: Entitlements,
+  limit: EntitlementLimit,
+  used: number,
+  adding = 1
+): EntitlementViolation | null {
+  const inactive = checkActive(entitlements);
+  if (inactive) return inactive;
+
+  const maximum = entitlements.limits[limit];
+  if (maximum === null || used + adding <= maximum) return null;
+  return {
+    code: LIMIT_ERROR_CODES[limit],
+    message: adding > 1 && used < maximum
+      ? `Only ${maximum - used} more ${LIMIT_LABELS[limit]} fit in your license (${used} of ${maximum} used).`
+      : `${LIMIT_LABELS[limit][0].toUpperCase()}${LIMIT_LABELS[limit].slice(1)} limit reached. Your license allows ${maximum} ${LIMIT_LABELS[limit]}.`,
+    entitlement: limit,
+    current: used,
+    maximum,
+  };
+}
+
+export function checkFeature(entitlements: Entitlements, feature: EntitlementFeature): EntitlementViolation | null {
+  const inactive = checkActive(entitlements);
+  if (inactive) return inactive;
+  if (entitlements.features[feature]) return null;
+  return {
+    code: EntitlementErrorCode.FEATURE_NOT_INCLUDED,
+    message: `${FEATURE_LABELS[feature]} is not included in your license.`,
+    entitlement: feature,
+  };
+}
@@ -0,0 +1,154 @@
+// Third-party integrations: the provider catalog, the credentials and settings
+// each provider takes, and what the integrations API returns
+import { z } from "zod";
+
+export const INTEGRATION_CATEGORIES = {
+  crm: { title: "CRM Systems", description: "Connect with your customer relationship management platforms" },
+  analytics: { title: "Analytics Tools", description: "Integrate with analytics and data processing platforms" },
+  marketing: { title: "Marketing Platforms", description: "Connect with email and marketing automation services" },
+  communication: { title: "Communication Tools", description: "Integrate messaging and notification services" },
+  files: { title: "Files", description: "Exchange responses and contacts as CSV or JSON files" },
+} as const;
+
+export type IntegrationCategory = keyof typeof INTEGRATION_CATEGORIES;
+
+// Credential columns of the integrations table; stored encrypted and never sent back to the client
+export const INTEGRATION_CREDENTIAL_FIELDS = ["apiKey", "apiSecret", "accessToken", "refreshToken"] as const;
+
+export type IntegrationCredentialField = typeof INTEGRATION_CREDENTIAL_FIELDS[number];
+
+export type IntegrationCredentials = Partial<Record<IntegrationCredentialField, string | null>>;
+
+export interface IntegrationConfigField {
+  key: string;
+  label: string;
+  type: "text" | "select";
+  options?: readonly string[];
+  placeholder?: string;
+  required?: boolean;
+}
+
+export interface IntegrationProvider {
+  id: string;
+  name: string;
+  category: IntegrationCategory;
+  // Whether the server has a connector for it; the others can be saved but not synced yet
+  available: boolean;
+  credentials: IntegrationCredentialField[];
+  config: IntegrationConfigField[];
+  capabilities: { pushResponses: boolean; pullContacts: boolean };
+}
+
+const NO_CAPABILITIES = { pushResponses: false, pullContacts: false };
+
+const planned = (id: string, name: string, category: IntegrationCategory): IntegrationProvider => ({
+  id,
+  name,
+  category,
+  available: false,
+  credentials: ["apiKey"],
+  config: [],
+  capabilities: NO_CAPABILITIES,
+});
+
+export const INTEGRATION_PROVIDERS: IntegrationProvider[] = [
+  {
+    id: "file",
+    name: "CSV / JSON files",
+    category: "files",
+    available: true,
+    credentials: [],
+    config: [
+      { key: "directory", label: "Folder", type: "text", placeholder: "acme-exports", required: true },
+      { key: "format", label: "Format", type: "select", options: ["csv", "json"], required: true },
+      { key: "responsesFile", label: "Responses file", type: "text", placeholder: "responses.csv" },
+      { key: "contactsFile", label: "Contacts file", type: "text", placeholder: "contacts.csv" },
+    ],
+    capabilities: { pushResponses: true, pullContacts: true },
+  },
+  planned("salesforce", "Salesforce", "crm"),
+  planned("hubspot", "HubSpot", "crm"),
+  planned("zoho", "Zoho CRM", "crm"),
+  planned("google_analytics", "Google Analytics", "analytics"),
+  planned("mixpanel", "Mixpanel", "analytics"),
+  planned("amplitude", "Amplitude", "analytics"),
+  planned("mailchimp", "Mailchimp", "marketing"),
+  planned("sendgrid", "SendGrid", "marketing"),
+  planned("klaviyo", "Klaviyo", "marketing"),
+  planned("slack", "Slack", "communication"),
+  planned("twilio", "Twilio", "communication"),
+  planned("discord", "Discord", "communication"),
+];
+
+export const getIntegrationProvider = (id: string): IntegrationProvider | undefined =>
+  INTEGRATION_PROVIDERS.find((provider) => provider.id === id);
+
+// Sync settings kept in the integration's config next to the provider settings
+export interface IntegrationSyncSettings {
+  // 0 syncs only on demand
+  syncIntervalMinutes?: number;
+  pushResponses?: boolean;
+  pullContacts?: boolean;
+}
+
+export const SYNC_INTERVAL_OPTIONS = [0, 15, 60, 360, 1440] as const;
+
+const credentialsSchema = z.object(
+  Object.fromEntries(
+    INTEGRATION_CREDENTIAL_FIELDS.map((field) => [field, z.string().trim().max(4000).nullable().optional()])
+  ) as Record<IntegrationCredentialField, z.ZodOptional<z.ZodNullable<z.ZodString>>>
+);
+
+const configSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+export const createIntegrationSchema = z.object({
+  provider: z.string().refine((id) => !!getIntegrationProvider(id), "Unknown integration provider"),
+  name: z.string().trim().min(1, "Name is required").max(120),
+  apiUrl: z.string().trim().url().nullable().optional(),
+  credentials: credentialsSchema.optional(),
+  config: configSchema.optional(),
+  // Platform administrators may create an integration for any company
+  companyId: z.number().int().positive().optional(),
+});
+
+export const updateIntegrationSchema = createIntegrationSchema
+  .omit({ provider: true, companyId: true })
+  .partial()
+  .extend({ enabled: z.boolean().optional() });
+
+export type CreateIntegrationInput = z.infer<typeof createIntegrationSchema>;
+
+export interface IntegrationSyncResult {
+  pushed: number;
+  pulled: number;
+  finishedAt: string;
+}
+
+// An integration as returned by the API: credentials are reported as set or not, never their values
+export interface IntegrationSummary {
+  id: number;
+  name: string;
+  provider: string;
+  category: string;
+  status: string;
+  companyId: number | null;
+  apiUrl: string | null;
+  config: Record<string, unknown>;
+  credentials: Record<IntegrationCredentialField, boolean>;
+  lastSynced: string | null;
+  lastError: string | null;
+  lastResult: IntegrationSyncResult | null;
+  contactCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IntegrationContactSummary {
+  id: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  externalId: string | null;
+  attributes: Record<string, unknown>;
+  syncedAt: string;
+}
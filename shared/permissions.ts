@@ -0,0 +1,264 @@
+// Permission catalogue: every capability a route can require, what each role
+// gets by default and how per-user grants and denials change that
+import { z } from "zod";
+
+// Permissions (capability-based)
+export const Permission = {
+  // User management
+  MANAGE_USERS: 'manage_users',           // Add/edit/delete users
+  INVITE_USERS: 'invite_users',           // Invite new users
+
+  // Survey management
+  VIEW_SURVEYS: 'view_surveys',           // See the company's surveys and their setup
+  CREATE_SURVEY: 'create_survey',         // Create new surveys
+  EDIT_SURVEY: 'edit_survey',             // Edit existing surveys
+  DELETE_SURVEY: 'delete_survey',         // Delete surveys
+  PUBLISH_SURVEY: 'publish_survey',       // Make surveys public
+  APPROVE_SURVEYS: 'approve_surveys',     // Configure the approval workflow and decide any review
+
+  // Data & analytics
+  VIEW_RESPONSES: 'view_responses',       // View individual responses
+  EXPORT_DATA: 'export_data',             // Export response data
+  VIEW_ANALYTICS: 'view_analytics',       // View analytics dashboards
+  VIEW_REPORTS: 'view_reports',           // View pre-built reports
+  CREATE_REPORTS: 'create_reports',       // Create custom reports
+
+  // Business management
+  MANAGE_BILLING: 'manage_billing',       // Change/update billing
+  MANAGE_SUBSCRIPTION: 'manage_subscription', // Change subscription
+  MANAGE_COMPANY: 'manage_company',       // Edit company details
+  MANAGE_API_KEYS: 'manage_api_keys',     // Create/revoke API keys
+
+  // Integration management
+  MANAGE_INTEGRATIONS: 'manage_integrations', // Connect/disconnect integrations and webhooks
+
+  // Platform admin permissions (for you as platform owner)
+  PLATFORM_ADMIN_ACCESS: 'platform_admin_access',     // Access admin console
+  MANAGE_CLIENT_ACCOUNTS: 'manage_client_accounts',   // Manage all client accounts
+  MANAGE_LICENSES: 'manage_licenses',                 // Manage client licenses
+  VIEW_PLATFORM_ANALYTICS: 'view_platform_analytics', // View platform-wide analytics
+  MANAGE_SUPPORT_TICKETS: 'manage_support_tickets',   // Manage support tickets
+  SYSTEM_CONFIGURATION: 'system_configuration',       // Configure system settings
+  BILLING_OPERATIONS: 'billing_operations',           // All billing operations
+  FEATURE_MANAGEMENT: 'feature_management',           // Enable/disable features
+  USER_IMPERSONATION: 'user_impersonation',           // Temporarily act as other users
+  MANAGE_CONTENT: 'manage_content',                   // Blog articles and survey templates
+  MANAGE_PERMISSIONS: 'manage_permissions',           // Edit role permissions and user grants
+  MANAGE_PRIVACY_REQUESTS: 'manage_privacy_requests', // Fulfil respondents' data access and erasure requests
+} as const;
+
+export type PermissionName = typeof Permission[keyof typeof Permission];
+
+export const ALL_PERMISSIONS = Object.values(Permission) as PermissionName[];
+
+export const isPermission = (value: string): value is PermissionName =>
+  (ALL_PERMISSIONS as string[]).includes(value);
+
+export interface PermissionGroup {
+  id: string;
+  label: string;
+  permissions: Array<{ id: PermissionName; label: string; description: string }>;
+}
+
+// The catalogue as the admin console shows it
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    id: "users",
+    label: "Users",
+    permissions: [
+      { id: Permission.MANAGE_USERS, label: "Manage users", description: "Add, edit and remove company users" },
+      { id: Permission.INVITE_USERS, label: "Invite users", description: "Invite new users to the company" },
+    ],
+  },
+  {
+    id: "surveys",
+    label: "Surveys",
+    permissions: [
+      { id: Permission.VIEW_SURVEYS, label: "View surveys", description: "See surveys, their versions, reviews and quotas" },
+      { id: Permission.CREATE_SURVEY, label: "Create surveys", description: "Create surveys and survey templates" },
+      { id: Permission.EDIT_SURVEY, label: "Edit surveys", description: "Change questions, versions, quotas and collaborate" },
+      { id: Permission.DELETE_SURVEY, label: "Delete surveys", description: "Delete surveys and reset their data" },
+      { id: Permission.PUBLISH_SURVEY, label: "Publish surveys", description: "Activate surveys and publish versions" },
+      { id: Permission.APPROVE_SURVEYS, label: "Approve surveys", description: "Configure the approval workflow and decide any review" },
+    ],
+  },
+  {
+    id: "data",
+    label: "Data & analytics",
+    permissions: [
+      { id: Permission.VIEW_RESPONSES, label: "View responses", description: "Read individual survey responses" },
+      { id: Permission.EXPORT_DATA, label: "Export data", description: "Download responses and analytics" },
+      { id: Permission.VIEW_ANALYTICS, label: "View analytics", description: "Open analytics dashboards and trends" },
+      { id: Permission.VIEW_REPORTS, label: "View reports", description: "Open reports and their shared links" },
+      { id: Permission.CREATE_REPORTS, label: "Create reports", description: "Share reports and generate AI responses" },
+    ],
+  },
+  {
+    id: "business",
+    label: "Business",
+    permissions: [
+      { id: Permission.MANAGE_BILLING, label: "Manage billing", description: "Update billing details" },
+      { id: Permission.MANAGE_SUBSCRIPTION, label: "Manage subscription", description: "Change the subscription plan" },
+      { id: Permission.MANAGE_COMPANY, label: "Manage company", description: "Edit company details" },
+      { id: Permission.MANAGE_API_KEYS, label: "Manage API keys", description: "Create and revoke API keys" },
+      { id: Permission.MANAGE_INTEGRATIONS, label: "Manage integrations", description: "Connect integrations and webhooks" },
+    ],
+  },
+  {
+    id: "platform",
+    label: "Platform",
+    permissions: [
+      { id: Permission.PLATFORM_ADMIN_ACCESS, label: "Admin console", description: "Open the admin console" },
+      { id: Permission.MANAGE_CLIENT_ACCOUNTS, label: "Client accounts", description: "Manage every client company" },
+      { id: Permission.MANAGE_LICENSES, label: "Licenses", description: "Issue and change client licenses" },
+      { id: Permission.VIEW_PLATFORM_ANALYTICS, label: "Platform analytics", description: "See platform-wide analytics and surveys" },
+      { id: Permission.MANAGE_SUPPORT_TICKETS, label: "Support tickets", description: "Work on support tickets and demo requests" },
+      { id: Permission.SYSTEM_CONFIGURATION, label: "System configuration", description: "System settings, backups and email delivery" },
+      { id: Permission.BILLING_OPERATIONS, label: "Billing operations", description: "Create and settle invoices" },
+      { id: Permission.FEATURE_MANAGEMENT, label: "Feature management", description: "Enable and disable features" },
+      { id: Permission.USER_IMPERSONATION, label: "Impersonation", description: "Act as other users" },
+      { id: Permission.MANAGE_CONTENT, label: "Content", description: "Blog articles and survey templates" },
+      { id: Permission.MANAGE_PERMISSIONS, label: "Permissions", description: "Edit role permissions and user grants" },
+      { id: Permission.MANAGE_PRIVACY_REQUESTS, label: "Privacy requests", description: "Fulfil respondents' data access, export and erasure requests" },
+    ],
+  },
+];
+
+// Roles that always hold every permission, so nobody can lock the platform out
+export const FULL_ACCESS_ROLES = ["platform_admin", "admin"] as const;
+
+export const hasFullAccess = (role: string | null | undefined): boolean =>
+  !!role && (FULL_ACCESS_ROLES as readonly string[]).includes(role);
+
+const SURVEY_AUTHORING: PermissionName[] = [
+  Permission.VIEW_SURVEYS,
+  Permission.CREATE_SURVEY,
+  Permission.EDIT_SURVEY,
+  Permission.PUBLISH_SURVEY,
+];
+
+const DATA_VIEWING: PermissionName[] = [
+  Permission.VIEW_RESPONSES,
+  Permission.VIEW_ANALYTICS,
+  Permission.VIEW_REPORTS,
+];
+
+const BUSINESS_ADMINISTRATION: PermissionName[] = [
+  ...SURVEY_AUTHORING,
+  ...DATA_VIEWING,
+  Permission.DELETE_SURVEY,
+  Permission.APPROVE_SURVEYS,
+  Permission.EXPORT_DATA,
+  Permission.CREATE_REPORTS,
+  Permission.MANAGE_USERS,
+  Permission.INVITE_USERS,
+  Permission.MANAGE_COMPANY,
+  Permission.MANAGE_API_KEYS,
+  Permission.MANAGE_INTEGRATIONS,
+];
+
+// Permissions of the editable roles (the UserRole values below platform admin)
+// until an administrator changes the role matrix
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, PermissionName[]> = {
+  platform_support: [
+    Permission.PLATFORM_ADMIN_ACCESS,
+    Permission.MANAGE_SUPPORT_TICKETS,
+    Permission.MANAGE_PRIVACY_REQUESTS,
+    Permission.VIEW_PLATFORM_ANALYTICS,
+    Permission.VIEW_SURVEYS,
+    ...DATA_VIEWING,
+  ],
+  platform_billing: [
+    Permission.PLATFORM_ADMIN_ACCESS,
+    Permission.BILLING_OPERATIONS,
+    Permission.MANAGE_LICENSES,
+    Permission.MANAGE_BILLING,
+    Permission.VIEW_PLATFORM_ANALYTICS,
+  ],
+  business_owner: [...BUSINESS_ADMINISTRATION, Permission.MANAGE_BILLING, Permission.MANAGE_SUBSCRIPTION],
+  business_admin: BUSINESS_ADMINISTRATION,
+  business_analyst: [Permission.VIEW_SURVEYS, ...DATA_VIEWING, Permission.EXPORT_DATA, Permission.CREATE_REPORTS],
+  business_user: [...SURVEY_AUTHORING, ...DATA_VIEWING, Permission.EXPORT_DATA],
+  survey_manager: [...SURVEY_AUTHORING, ...DATA_VIEWING, Permission.DELETE_SURVEY, Permission.EXPORT_DATA],
+  report_viewer: [Permission.VIEW_SURVEYS, Permission.VIEW_ANALYTICS, Permission.VIEW_REPORTS],
+};
+
+export const EDITABLE_ROLES = Object.keys(DEFAULT_ROLE_PERMISSIONS);
+
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(ALL_PERMISSIONS as [PermissionName, ...PermissionName[]])).max(ALL_PERMISSIONS.length),
+});
+
+export const userPermissionOverrideSchema = z
+  .object({
+    permission: z.enum(ALL_PERMISSIONS as [PermissionName, ...PermissionName[]]),
+    // false denies the permission even when the user's role has it
+    granted: z.boolean().default(true),
+    reason: z.string().trim().max(500).optional(),
+    // Temporary overrides stop applying at this time and are then removed
+    expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  })
+  .refine((value) => !value.expiresAt || new Date(value.expiresAt).getTime() > Date.now(), {
+    message: "The expiry must be in the future",
+    path: ["expiresAt"],
+  });
+
+export type UserPermissionOverrideInput = z.infer<typeof userPermissionOverrideSchema>;
+
+export interface PermissionOverride {
+  permission: string;
+  granted: boolean;
+  expiresAt: Date | string | null;
+}
+
+export const isOverrideActive = (override: Pick<PermissionOverride, "expiresAt">, now = new Date()): boolean =>
+  !override.expiresAt || new Date(override.expiresAt).getTime() > now.getTime();
+
+/**
+ * A user's effective permissions: those of their role, plus the grants and
+ * minus the denials that have not expired. A denial wins over a grant of the
+ * same permission.
+ */
+export function resolvePermissions(
+  rolePermissions: readonly string[],
+  overrides: PermissionOverride[],
+  now = new Date()
+): Set<PermissionName> {
+  const permissions = new Set(rolePermissions.filter(isPermission));
+  const active = overrides.filter((override) => isPermission(override.permission) && isOverrideActive(override, now));
+
+  for (const override of active) {
+    if (override.granted) permissions.add(override.permission as PermissionName);
+  }
+  for (const override of active) {
+    if (!override.granted) permissions.delete(override.permission as PermissionName);
+  }
+  return permissions;
+}
+
+export interface RolePermissionSummary {
+  role: string;
+  permissions: PermissionName[];
+  // False while the role still uses DEFAULT_ROLE_PERMISSIONS
+  customized: boolean;
+}
+
+export interface UserPermissionSummary {
+  id: number;
+  userId: number;
+  username: string;
+  role: string;
+  companyId: number | null;
+  permission: PermissionName;
+  granted: boolean;
+  reason: string | null;
+  grantedBy: number | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface PermissionUserOption {
+  id: number;
+  username: string;
+  role: string;
+}
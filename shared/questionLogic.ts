@@ -0,0 +1,253 @@
+// Display/skip rules for survey questions, shared by the survey editor, the
+// survey pages, response validation and analytics
+import { z } from "zod";
+import { getQuestionType } from "./questionTypes";
+
+export const CONDITION_OPERATORS = [
+  "equals",
+  "not_equals",
+  "in",
+  "range",
+  "answer_count",
+] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "is",
+  not_equals: "is not",
+  in: "is any of",
+  range: "is between",
+  answer_count: "has this many answers",
+};
+
+// Operators that make sense for each kind of source question
+export function operatorsForQuestionType(questionType?: string | null): ConditionOperator[] {
+  return getQuestionType(questionType).logicOperators;
+}
+
+/**
+ * One test against the answer to an earlier question. Questions are referenced
+ * by `order` so rules survive saving new questions that have no ID yet.
+ * Option values are matched against the option's value, ID or text.
+ */
+export interface QuestionCondition {
+  questionOrder: number;
+  operator: ConditionOperator;
+  value?: string;      // equals / not_equals
+  values?: string[];   // in
+  min?: number;        // range / answer_count
+  max?: number;        // range / answer_count
+}
+
+/**
+ * "show" displays the question only when the conditions match; "skip" hides
+ * it when they match. `match` decides whether all or any conditions must hold.
+ */
+export interface QuestionDisplayLogic {
+  action: "show" | "skip";
+  match: "all" | "any";
+  conditions: QuestionCondition[];
+}
+
+export const MAX_CONDITIONS_PER_QUESTION = 10;
+
+export const questionConditionSchema = z
+  .object({
+    questionOrder: z.number().int().positive(),
+    operator: z.enum(CONDITION_OPERATORS),
+    value: z.string().optional(),
+    values: z.array(z.string()).optional(),
+    min: z.number().finite().optional(),
+    max: z.number().finite().optional(),
+  })
+  .refine(
+    (c) => {
+      if (c.operator === "equals" || c.operator === "not_equals") return c.value !== undefined && c.value !== "";
+      if (c.operator === "in") return !!c.values && c.values.length > 0;
+      return c.min !== undefined || c.max !== undefined;
+    },
+    { message: "Condition is missing the value it compares against" }
+  )
+  .refine((c) => c.min === undefined || c.max === undefined || c.min <= c.max, {
+    message: "Condition minimum must not exceed its maximum",
+  });
+
+export const questionDisplayLogicSchema = z.object({
+  action: z.enum(["show", "skip"]),
+  match: z.enum(["all", "any"]),
+  conditions: z.array(questionConditionSchema).max(MAX_CONDITIONS_PER_QUESTION),
+});
+
+// Minimum a question needs for its visibility to be evaluated
+export interface LogicQuestion {
+  id: number | string;
+  order: number;
+  questionType?: string | null;
+  options?: unknown;
+  displayLogic?: unknown;
+}
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+const isAnswered = (answer: unknown): boolean => {
+  const parsed = parseJson(answer);
+  if (parsed === undefined || parsed === null || parsed === "") return false;
+  return !Array.isArray(parsed) || parsed.length > 0;
+};
+
+/**
+ * Turn stored display logic into rules. Unusable conditions are dropped, as are
+ * conditions on the question itself or later questions when `ownOrder` is
+ * given; null means the question is always shown.
+ */
+export function resolveDisplayLogic(raw: unknown, ownOrder?: number): QuestionDisplayLogic | null {
+  const value = parseJson(raw) as any;
+  if (!value || typeof value !== "object" || !Array.isArray(value.conditions)) return null;
+
+  const conditions: QuestionCondition[] = [];
+  for (const item of value.conditions.slice(0, MAX_CONDITIONS_PER_QUESTION)) {
+    const parsed = questionConditionSchema.safeParse(item);
+    if (!parsed.success) continue;
+    if (ownOrder !== undefined && parsed.data.questionOrder >= ownOrder) continue;
+    conditions.push(parsed.data);
+  }
+  if (conditions.length === 0) return null;
+
+  return {
+    action: value.action === "skip" ? "skip" : "show",
+    match: value.match === "any" ? "any" : "all",
+    conditions,
+  };
+}
+
+// Every key an option can be referred to by; string options get the same
+// `opt_<index>` ID the questions endpoint gives them
+const optionKeys = (options: unknown): string[][] => {
+  const parsed = parseJson(options);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.map((option: any, index) => {
+    if (typeof option === "string" || typeof option === "number") return [String(option), `opt_${index}`];
+    return [option?.value, option?.id, option?.text, option?.label]
+      .filter((key) => key !== undefined && key !== null && key !== "")
+      .map((key) => String(key));
+  });
+};
+
+// Answer tokens: a single choice, a multi-select or a ranking ([{rank, option, value}])
+const answerTokens = (answer: unknown): string[] => {
+  const parsed = parseJson(answer);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items
+    .map((item: any) => (item && typeof item === "object" ? item.value ?? item.option ?? item.id : item))
+    .filter((item) => item !== undefined && item !== null && item !== "")
+    .map((item) => String(item));
+};
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+// Whether an answer token and a rule value refer to the same option (or text)
+const sameChoice = (keys: string[][], token: string, expected: string): boolean => {
+  if (normalizeText(token) === normalizeText(expected)) return true;
+  const option = keys.find((k) => k.includes(token));
+  return !!option && option.includes(expected);
+};
+
+const withinBounds = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+/**
+ * Whether one condition holds for the answer given to its source question.
+ * Unanswered source questions never satisfy a condition.
+ */
+export function evaluateCondition(condition: QuestionCondition, source: LogicQuestion, answer: unknown): boolean {
+  if (!isAnswered(answer)) return false;
+
+  const tokens = answerTokens(answer);
+  const keys = optionKeys(source.options);
+
+  switch (condition.operator) {
+    case "equals":
+      return tokens.some((token) => sameChoice(keys, token, condition.value ?? ""));
+    case "not_equals":
+      return !tokens.some((token) => sameChoice(keys, token, condition.value ?? ""));
+    case "in":
+      return tokens.some((token) => (condition.values ?? []).some((expected) => sameChoice(keys, token, expected)));
+    case "range": {
+      const value = Number(parseJson(answer));
+      return Number.isFinite(value) && withinBounds(value, condition.min, condition.max);
+    }
+    case "answer_count":
+      return withinBounds(tokens.length, condition.min, condition.max);
+    default:
+      return false;
+  }
+}
+
+export type AnswerLookup = Map<string, unknown> | Record<string, unknown>;
+
+const answerFor = (answers: AnswerLookup, id: number | string): unknown =>
+  answers instanceof Map ? answers.get(String(id)) : answers[String(id)];
+
+/**
+ * The questions a respondent is shown for a set of answers, in survey order.
+ * Rules are evaluated front to back, so answers to questions that end up
+ * hidden never make later questions appear.
+ */
+export function getVisibleQuestions<T extends LogicQuestion>(questions: T[], answers: AnswerLookup): T[] {
+  const ordered = [...questions].sort((a, b) => a.order - b.order);
+  const visibleByOrder = new Map<number, T>();
+  const visible: T[] = [];
+
+  for (const question of ordered) {
+    const logic = resolveDisplayLogic(question.displayLogic, question.order);
+    let shown = true;
+
+    if (logic) {
+      const results = logic.conditions.map((condition) => {
+        const source = visibleByOrder.get(condition.questionOrder);
+        return !!source && evaluateCondition(condition, source, answerFor(answers, source.id));
+      });
+      const matched = logic.match === "all" ? results.every(Boolean) : results.some(Boolean);
+      shown = logic.action === "show" ? matched : !matched;
+    }
+
+    if (shown) {
+      visibleByOrder.set(question.order, question);
+      visible.push(question);
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Renumber questions 1..n in their current list order after a move or delete,
+ * keeping every rule pointed at the same source question. Conditions on
+ * questions that are gone or no longer come earlier are dropped.
+ */
+export function renumberQuestions<T extends { order: number; displayLogic?: unknown }>(list: T[]): T[] {
+  const orderMap = new Map(list.map((question, index) => [question.order, index + 1] as const));
+
+  return list.map((question, index) => {
+    const order = index + 1;
+    const logic = resolveDisplayLogic(question.displayLogic);
+    if (!logic) return { ...question, order };
+
+    const conditions = logic.conditions
+      .filter((c) => orderMap.has(c.questionOrder))
+      .map((c) => ({ ...c, questionOrder: orderMap.get(c.questionOrder)! }))
+      .filter((c) => c.questionOrder < order);
+
+    return { ...question, order, displayLogic: conditions.length > 0 ? { ...logic, conditions } : undefined };
+  });
+}
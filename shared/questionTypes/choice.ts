@@ -0,0 +1,143 @@
+// Shared implementation for the option-based question types
+import { z } from "zod";
+import {
+  AnswerVariable,
+  ChoiceOption,
+  CodedValue,
+  QuestionLike,
+  QuestionTypeDefinition,
+  answerToken,
+  editorOptionSchema,
+  findOption,
+  optionCode,
+  optionValueLabels,
+  parseChoiceOptions,
+  parseJson,
+  pickOne,
+  round,
+} from "./types";
+import type { ConditionOperator } from "../questionLogic";
+
+export interface ChoiceConfig {
+  options: ChoiceOption[];
+}
+
+// Selected option tokens; a single choice is a list of one
+export const choiceAnswerSchema = z.preprocess((raw) => {
+  const parsed = parseJson(raw);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.map(answerToken).filter((token) => token !== undefined);
+}, z.array(z.string()).min(1, "No option was selected"));
+
+export const choiceConfigSchema = z.object({
+  options: z.array(editorOptionSchema).min(1, "Add at least one option"),
+});
+
+export function validateChoiceAnswer(answer: string[], config: ChoiceConfig, multiple: boolean): string[] {
+  const errors: string[] = [];
+  if (!multiple && answer.length > 1) errors.push("Only one option can be selected");
+  const unknown = answer.filter((token) => !findOption(config.options, token));
+  if (unknown.length > 0) errors.push(`Not an option of this question: ${unknown.join(", ")}`);
+  return errors;
+}
+
+export function flattenChoiceAnswer(answer: string[], config: ChoiceConfig): string {
+  return answer.map((token) => findOption(config.options, token)?.label ?? token).join("; ");
+}
+
+/**
+ * A single choice is one variable holding the option code; with several
+ * selections allowed, each option gets a 0/1 variable
+ */
+export function choiceAnswerVariables(config: ChoiceConfig, multiple: boolean): AnswerVariable[] {
+  if (!multiple) {
+    return [{ suffix: "", label: "", type: "numeric", measure: "nominal", valueLabels: optionValueLabels(config.options) }];
+  }
+  return config.options.map((option, index) => ({
+    suffix: `_${index + 1}`,
+    label: option.label,
+    type: "numeric",
+    measure: "nominal",
+    valueLabels: [{ value: 0, label: "Not selected" }, { value: 1, label: "Selected" }],
+  }));
+}
+
+export function codeChoiceAnswer(answer: string[], config: ChoiceConfig, multiple: boolean): CodedValue[] {
+  if (!multiple) {
+    return [optionCode(config.options, answer[0])];
+  }
+  const chosen = new Set(answer.map((token) => optionCode(config.options, token)));
+  return config.options.map((_, index) => (chosen.has(index + 1) ? 1 : 0));
+}
+
+export function aggregateChoiceAnswers(answers: string[][], config: ChoiceConfig) {
+  const counts = new Map(config.options.map((option) => [option.value, 0]));
+  let other = 0;
+
+  for (const answer of answers) {
+    const chosen = new Set<string>();
+    for (const token of answer) {
+      const option = findOption(config.options, token);
+      if (option) chosen.add(option.value);
+      else other++;
+    }
+    chosen.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  }
+
+  return {
+    kind: "choice" as const,
+    responses: answers.length,
+    other,
+    options: config.options.map((option) => ({
+      value: option.value,
+      label: option.label,
+      count: counts.get(option.value) ?? 0,
+      percentage: answers.length > 0 ? round(((counts.get(option.value) ?? 0) / answers.length) * 100, 1) : 0,
+    })),
+  };
+}
+
+export function choicePromptHint(heading: string, config: ChoiceConfig): string {
+  return [
+    `${heading} - Select ONE option value:`,
+    ...config.options.map((option) => `  - ${option.label} (value: ${option.value})`),
+  ].join("\n");
+}
+
+interface ChoiceTypeSpec {
+  type: string;
+  label: string;
+  description: string;
+  // Heading used in AI prompts
+  promptHeading: string;
+  // Whether several options may be selected at once
+  multiple?: boolean;
+  logicOperators?: ConditionOperator[];
+}
+
+/**
+ * Define an option-based question type: answers are one (or, with `multiple`,
+ * several) of the question's options.
+ */
+export function createChoiceType(spec: ChoiceTypeSpec): QuestionTypeDefinition<ChoiceConfig, string[]> {
+  const multiple = spec.multiple ?? false;
+
+  return {
+    type: spec.type,
+    label: spec.label,
+    description: spec.description,
+    hasOptions: true,
+    logicOperators: spec.logicOperators ?? ["equals", "not_equals", "in", "answer_count"],
+    configSchema: choiceConfigSchema,
+    resolveConfig: (question: QuestionLike) => ({ options: parseChoiceOptions(question.options) }),
+    answerSchema: choiceAnswerSchema,
+    validateAnswer: (answer, config) => validateChoiceAnswer(answer, config, multiple),
+    csvColumns: () => [""],
+    flattenAnswer: (answer, config) => [flattenChoiceAnswer(answer, config)],
+    answerVariables: (config) => choiceAnswerVariables(config, multiple),
+    codeAnswer: (answer, config) => codeChoiceAnswer(answer, config, multiple),
+    aggregate: aggregateChoiceAnswers,
+    promptHint: (config) => choicePromptHint(spec.promptHeading, config),
+    sampleAnswer: (config, random) => (config.options.length > 0 ? pickOne(config.options, random).value : null),
+  };
+}
@@ -0,0 +1,8 @@
+import { createChoiceType } from "./choice";
+
+export const imageType = createChoiceType({
+  type: "image",
+  label: "Image Selection",
+  description: "Pick one of several images",
+  promptHeading: "🖼️  IMAGE SELECTION",
+});
@@ -0,0 +1,159 @@
+// Registry of survey question types, shared by the survey editor, the survey
+// pages, response validation, exports, analytics and AI response generation.
+// Adding a type means adding its module here and to QUESTION_TYPE_IDS.
+import { AnswerVariable, CodedValue, QuestionAggregate, QuestionLike, QuestionTypeDefinition } from "./types";
+import { multipleChoiceType } from "./multipleChoice";
+import { sliderType } from "./slider";
+import { rankingType } from "./ranking";
+import { scenarioType } from "./scenario";
+import { moodBoardType } from "./moodBoard";
+import { imageType } from "./image";
+import { personalityMatrixType } from "./personalityMatrix";
+import { textType } from "./text";
+
+export * from "./types";
+export { MAX_TEXT_ANSWER_LENGTH } from "./text";
+export { DEFAULT_SLIDER_MIN, DEFAULT_SLIDER_MAX } from "./slider";
+
+export const QUESTION_TYPE_IDS = [
+  "multiple-choice",
+  "slider",
+  "ranking",
+  "scenario",
+  "mood-board",
+  "image",
+  "personality-matrix",
+  "text",
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPE_IDS[number];
+
+export const DEFAULT_QUESTION_TYPE: QuestionType = "multiple-choice";
+
+export const QUESTION_TYPES: Record<QuestionType, QuestionTypeDefinition> = {
+  "multiple-choice": multipleChoiceType,
+  slider: sliderType,
+  ranking: rankingType,
+  scenario: scenarioType,
+  "mood-board": moodBoardType,
+  image: imageType,
+  "personality-matrix": personalityMatrixType,
+  text: textType,
+};
+
+export function isQuestionType(type: unknown): type is QuestionType {
+  return typeof type === "string" && (QUESTION_TYPE_IDS as readonly string[]).includes(type);
+}
+
+// Unknown or missing types are treated as multiple choice, as the survey pages do
+export function getQuestionType(type?: string | null): QuestionTypeDefinition {
+  return QUESTION_TYPES[isQuestionType(type) ? type : DEFAULT_QUESTION_TYPE];
+}
+
+export type AnswerCheck =
+  | { valid: true; answer: unknown }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate the settings the survey editor submitted for a question: its type
+ * and the type's configuration. Returns error messages, empty when valid.
+ */
+export function validateQuestionConfig(question: { questionType?: unknown } & Record<string, unknown>): string[] {
+  if (!isQuestionType(question.questionType)) {
+    return [`Unknown question type: ${String(question.questionType ?? "")}`];
+  }
+  const parsed = QUESTION_TYPES[question.questionType].configSchema.safeParse(question);
+  return parsed.success ? [] : parsed.error.issues.map((issue) => issue.message);
+}
+
+/**
+ * Parse and validate one answer against its question
+ */
+export function checkQuestionAnswer(question: QuestionLike, raw: unknown): AnswerCheck {
+  const definition = getQuestionType(question.questionType);
+  const parsed = definition.answerSchema.safeParse(raw);
+  if (!parsed.success) return { valid: false, errors: parsed.error.issues.map((issue) => issue.message) };
+
+  const errors = definition.validateAnswer(parsed.data, definition.resolveConfig(question));
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, answer: parsed.data };
+}
+
+/**
+ * CSV column headers for a question: one column, or one per part of the
+ * answer (e.g. each ranked option) labelled "<question> [<part>]"
+ */
+export function csvHeadersFor(question: QuestionLike): string[] {
+  const definition = getQuestionType(question.questionType);
+  const title = question.question || `Question ${question.id}`;
+  return definition
+    .csvColumns(definition.resolveConfig(question))
+    .map((column) => (column ? `${title} [${column}]` : title));
+}
+
+/**
+ * CSV cells for an answer, matching csvHeadersFor. Answers that don't parse
+ * are written as they were stored so nothing is lost from the export.
+ */
+export function flattenQuestionAnswer(question: QuestionLike, raw: unknown): Array<string | number> {
+  const definition = getQuestionType(question.questionType);
+  const config = definition.resolveConfig(question);
+  const width = definition.csvColumns(config).length;
+
+  if (raw === undefined || raw === null || raw === "") return Array(width).fill("");
+  const parsed = definition.answerSchema.safeParse(raw);
+  if (!parsed.success) {
+    const fallback = typeof raw === "object" ? JSON.stringify(raw) : String(raw);
+    return [fallback, ...Array(width - 1).fill("")];
+  }
+  return definition.flattenAnswer(parsed.data, config);
+}
+
+/**
+ * Variables of the coded export for a question, as its question type defines them
+ */
+export function answerVariablesFor(question: QuestionLike): AnswerVariable[] {
+  const definition = getQuestionType(question.questionType);
+  return definition.answerVariables(definition.resolveConfig(question));
+}
+
+/**
+ * Coded values for an answer, matching answerVariablesFor. Missing answers and
+ * answers that don't parse are missing values, so numeric variables stay numeric.
+ */
+export function codeQuestionAnswer(question: QuestionLike, raw: unknown): CodedValue[] {
+  const definition = getQuestionType(question.questionType);
+  const config = definition.resolveConfig(question);
+  const width = definition.answerVariables(config).length;
+
+  if (raw === undefined || raw === null || raw === "") return Array(width).fill(null);
+  const parsed = definition.answerSchema.safeParse(raw);
+  if (!parsed.success) return Array(width).fill(null);
+  return definition.codeAnswer(parsed.data, config);
+}
+
+/**
+ * Summarize the answers to one question. Answers that don't parse are left out.
+ */
+export function aggregateQuestionAnswers(question: QuestionLike, answers: unknown[]): QuestionAggregate {
+  const definition = getQuestionType(question.questionType);
+  const parsed = answers
+    .map((answer) => definition.answerSchema.safeParse(answer))
+    .filter((result) => result.success)
+    .map((result) => result.data);
+  return definition.aggregate(parsed, definition.resolveConfig(question));
+}
+
+// Answer instructions for an AI model generating sample responses
+export function describeQuestionForPrompt(question: QuestionLike): string {
+  const definition = getQuestionType(question.questionType);
+  return definition.promptHint(definition.resolveConfig(question));
+}
+
+/**
+ * A random valid answer for a question, or null when the type needs the caller
+ * to supply one (free text)
+ */
+export function sampleQuestionAnswer(question: QuestionLike, random: () => number = Math.random): unknown {
+  const definition = getQuestionType(question.questionType);
+  return definition.sampleAnswer(definition.resolveConfig(question), random);
+}
@@ -0,0 +1,8 @@
+import { createChoiceType } from "./choice";
+
+export const moodBoardType = createChoiceType({
+  type: "mood-board",
+  label: "Mood Board",
+  description: "Pick the mood or style that fits best",
+  promptHeading: "🎨 MOOD BOARD",
+});
@@ -0,0 +1,9 @@
+import { createChoiceType } from "./choice";
+
+export const multipleChoiceType = createChoiceType({
+  type: "multiple-choice",
+  label: "Multiple Choice",
+  description: "Pick from a list of text options",
+  promptHeading: "⚠️  OPTIONS REQUIRED",
+  multiple: true,
+});
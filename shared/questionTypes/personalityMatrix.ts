@@ -0,0 +1,8 @@
+import { createChoiceType } from "./choice";
+
+export const personalityMatrixType = createChoiceType({
+  type: "personality-matrix",
+  label: "Personality Matrix",
+  description: "Pick the statement that describes the respondent best",
+  promptHeading: "🧠 PERSONALITY MATRIX",
+});
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import {
+  ChoiceOption,
+  QuestionLike,
+  QuestionTypeDefinition,
+  answerToken,
+  findOption,
+  parseChoiceOptions,
+  parseJson,
+  round,
+} from "./types";
+import { choiceConfigSchema } from "./choice";
+
+export interface RankingConfig {
+  options: ChoiceOption[];
+}
+
+// Option tokens from first to last place. Stored rankings are [{rank, option, value}].
+const rankingAnswerSchema = z.preprocess((raw) => {
+  const parsed = parseJson(raw);
+  if (!Array.isArray(parsed)) return parsed;
+  const ranked = parsed.every((item) => item && typeof item === "object" && Number.isFinite(Number(item.rank)))
+    ? [...parsed].sort((a, b) => Number(a.rank) - Number(b.rank))
+    : parsed;
+  return ranked.map(answerToken).filter((token) => token !== undefined);
+}, z.array(z.string(), { invalid_type_error: "Expected a ranked list of options" }).min(1, "Rank at least one option"));
+
+// Index of each option in a ranking, keyed by option value
+const placesOf = (answer: string[], options: ChoiceOption[]) => {
+  const places = new Map<string, number>();
+  answer.forEach((token, index) => {
+    const option = findOption(options, token);
+    if (option && !places.has(option.value)) places.set(option.value, index + 1);
+  });
+  return places;
+};
+
+export const rankingType: QuestionTypeDefinition<RankingConfig, string[]> = {
+  type: "ranking",
+  label: "Ranking",
+  description: "Put options in order of preference",
+  hasOptions: true,
+  logicOperators: ["answer_count", "in"],
+  configSchema: choiceConfigSchema,
+  resolveConfig: (question: QuestionLike) => ({ options: parseChoiceOptions(question.options) }),
+  answerSchema: rankingAnswerSchema,
+  validateAnswer: (answer, config) => {
+    const errors: string[] = [];
+    const unknown = answer.filter((token) => !findOption(config.options, token));
+    if (unknown.length > 0) errors.push(`Not an option of this question: ${unknown.join(", ")}`);
+    if (placesOf(answer, config.options).size < answer.length - unknown.length) {
+      errors.push("Each option can only be ranked once");
+    }
+    return errors;
+  },
+  // One column per option holding the place it was ranked in
+  csvColumns: (config) => config.options.map((option) => option.label),
+  flattenAnswer: (answer, config) => {
+    const places = placesOf(answer, config.options);
+    return config.options.map((option) => places.get(option.value) ?? "");
+  },
+  // One variable per option holding its place; unranked options are missing
+  answerVariables: (config) =>
+    config.options.map((option, index) => ({
+      suffix: `_${index + 1}`,
+      label: option.label,
+      type: "numeric" as const,
+      measure: "ordinal" as const,
+    })),
+  codeAnswer: (answer, config) => {
+    const places = placesOf(answer, config.options);
+    return config.options.map((option) => places.get(option.value) ?? null);
+  },
+  aggregate: (answers, config) => {
+    const rankings = answers.map((answer) => placesOf(answer, config.options));
+    return {
+      kind: "ranking",
+      responses: answers.length,
+      options: config.options.map((option) => {
+        const places = rankings.map((r) => r.get(option.value)).filter((p): p is number => p !== undefined);
+        return {
+          value: option.value,
+          label: option.label,
+          averageRank: places.length > 0 ? round(places.reduce((sum, p) => sum + p, 0) / places.length) : null,
+          firstPlace: places.filter((p) => p === 1).length,
+        };
+      }),
+    };
+  },
+  promptHint: (config) => [
+    "📋 RANKING REQUIRED - Rank these options (1 = highest priority):",
+    ...config.options.map((option) => `  - ${option.label}`),
+  ].join("\n"),
+  sampleAnswer: (config, random) => {
+    if (config.options.length === 0) return null;
+    const shuffled = config.options
+      .map((option) => ({ option, sort: random() }))
+      .sort((a, b) => a.sort - b.sort)
+      .map(({ option }) => option);
+    return JSON.stringify(shuffled.map((option, index) => ({ rank: index + 1, option: option.label, value: option.value })));
+  },
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { ChoiceOption, QuestionLike, QuestionTypeDefinition, editorOptionSchema, parseChoiceOptions, pickOne } from "./types";
+import {
+  aggregateChoiceAnswers,
+  choiceAnswerSchema,
+  choiceAnswerVariables,
+  codeChoiceAnswer,
+  choicePromptHint,
+  flattenChoiceAnswer,
+  validateChoiceAnswer,
+} from "./choice";
+import { MAX_TEXT_ANSWER_LENGTH, aggregateTextAnswers } from "./text";
+
+// Scenarios with options are answered by picking one; without options they take free text
+export interface ScenarioConfig {
+  scenarioText: string;
+  options: ChoiceOption[];
+}
+
+const hasOptions = (config: ScenarioConfig) => config.options.length > 0;
+
+export const scenarioType: QuestionTypeDefinition<ScenarioConfig, string[]> = {
+  type: "scenario",
+  label: "Scenario",
+  description: "Describe a situation and ask how the respondent would react",
+  hasOptions: true,
+  logicOperators: ["equals", "not_equals", "in", "answer_count"],
+  configSchema: z.object({
+    scenarioText: z.string().nullable().optional(),
+    options: z.array(editorOptionSchema).optional(),
+  }),
+  resolveConfig: (question: QuestionLike) => ({
+    scenarioText: question.scenarioText ?? "",
+    options: parseChoiceOptions(question.options),
+  }),
+  // Text answers become a single token
+  answerSchema: choiceAnswerSchema,
+  validateAnswer: (answer, config) => {
+    if (hasOptions(config)) return validateChoiceAnswer(answer, config, false);
+    return answer.join(" ").length > MAX_TEXT_ANSWER_LENGTH
+      ? [`Answers are limited to ${MAX_TEXT_ANSWER_LENGTH} characters`]
+      : [];
+  },
+  csvColumns: () => [""],
+  flattenAnswer: (answer, config) => [hasOptions(config) ? flattenChoiceAnswer(answer, config) : answer.join(" ")],
+  answerVariables: (config) =>
+    hasOptions(config)
+      ? choiceAnswerVariables(config, false)
+      : [{ suffix: "", label: "", type: "string", measure: "nominal" }],
+  codeAnswer: (answer, config) => (hasOptions(config) ? codeChoiceAnswer(answer, config, false) : [answer.join(" ")]),
+  aggregate: (answers, config) =>
+    hasOptions(config)
+      ? aggregateChoiceAnswers(answers, config)
+      : aggregateTextAnswers(answers.map((answer) => answer.join(" "))),
+  promptHint: (config) =>
+    hasOptions(config)
+      ? choicePromptHint("⚠️  SCENARIO WITH OPTIONS", config)
+      : "📝 SCENARIO TEXT - Provide realistic text response",
+  sampleAnswer: (config, random) => (hasOptions(config) ? pickOne(config.options, random).value : null),
+};
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { QuestionLike, QuestionTypeDefinition, parseJson, round } from "./types";
+
+export interface SliderConfig {
+  min: number;
+  max: number;
+  step: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+// The survey pages render a 0-100 slider unless the question says otherwise
+export const DEFAULT_SLIDER_MIN = 0;
+export const DEFAULT_SLIDER_MAX = 100;
+
+const HISTOGRAM_BUCKETS = 10;
+
+const finite = (value: unknown): number | undefined => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+};
+
+const sliderConfigSchema = z
+  .object({
+    sliderConfig: z
+      .object({
+        min: z.number().finite().optional(),
+        max: z.number().finite().optional(),
+        step: z.number().positive().optional(),
+        minLabel: z.string().optional(),
+        maxLabel: z.string().optional(),
+        traitWeights: z.any().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    ({ sliderConfig }) => (sliderConfig?.min ?? DEFAULT_SLIDER_MIN) < (sliderConfig?.max ?? DEFAULT_SLIDER_MAX),
+    { message: "Slider minimum must be below its maximum", path: ["sliderConfig"] }
+  );
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const sliderType: QuestionTypeDefinition<SliderConfig, number> = {
+  type: "slider",
+  label: "Slider",
+  description: "Pick a number on a scale",
+  hasOptions: false,
+  logicOperators: ["range"],
+  configSchema: sliderConfigSchema,
+  resolveConfig: (question: QuestionLike) => {
+    const raw = (parseJson(question.sliderConfig) ?? {}) as Record<string, unknown>;
+    const min = finite(raw.min) ?? DEFAULT_SLIDER_MIN;
+    const max = finite(raw.max) ?? DEFAULT_SLIDER_MAX;
+    const step = finite(raw.step) ?? 1;
+    return {
+      min: min < max ? min : DEFAULT_SLIDER_MIN,
+      max: min < max ? max : DEFAULT_SLIDER_MAX,
+      step: step > 0 ? step : 1,
+      minLabel: typeof raw.minLabel === "string" ? raw.minLabel : undefined,
+      maxLabel: typeof raw.maxLabel === "string" ? raw.maxLabel : undefined,
+    };
+  },
+  answerSchema: z.preprocess((raw) => finite(parseJson(raw)) ?? raw, z.number({ invalid_type_error: "Expected a number" }).finite()),
+  validateAnswer: (answer, config) =>
+    answer < config.min || answer > config.max ? [`Must be between ${config.min} and ${config.max}`] : [],
+  csvColumns: () => [""],
+  flattenAnswer: (answer) => [answer],
+  // The end labels of the scale become value labels
+  answerVariables: (config) => {
+    const valueLabels = [
+      ...(config.minLabel ? [{ value: config.min, label: config.minLabel }] : []),
+      ...(config.maxLabel ? [{ value: config.max, label: config.maxLabel }] : []),
+    ];
+    return [{ suffix: "", label: "", type: "numeric", measure: "scale", ...(valueLabels.length > 0 ? { valueLabels } : {}) }];
+  },
+  codeAnswer: (answer) => [answer],
+  aggregate: (answers, config) => {
+    const sorted = [...answers].sort((a, b) => a - b);
+    const width = (config.max - config.min) / HISTOGRAM_BUCKETS;
+    const histogram = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+      from: round(config.min + i * width),
+      to: round(config.min + (i + 1) * width),
+      count: 0,
+    }));
+    for (const answer of sorted) {
+      const bucket = Math.min(HISTOGRAM_BUCKETS - 1, Math.max(0, Math.floor((answer - config.min) / width)));
+      histogram[bucket].count++;
+    }
+
+    return {
+      kind: "numeric",
+      responses: sorted.length,
+      mean: sorted.length > 0 ? round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length) : null,
+      median: sorted.length > 0 ? median(sorted) : null,
+      min: sorted.length > 0 ? sorted[0] : null,
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+      histogram,
+    };
+  },
+  promptHint: (config) => `📊 SLIDER - Provide number between ${config.min} and ${config.max}`,
+  sampleAnswer: (config, random) => {
+    const steps = Math.floor((config.max - config.min) / config.step);
+    return round(config.min + Math.floor(random() * (steps + 1)) * config.step, 4);
+  },
+};
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { QuestionTypeDefinition, round } from "./types";
+
+export const MAX_TEXT_ANSWER_LENGTH = 5000;
+
+// Number of answers shown as examples in text summaries
+const TEXT_SAMPLE_SIZE = 5;
+
+export const textAnswerSchema = z.preprocess(
+  (raw) => (typeof raw === "number" ? String(raw) : typeof raw === "string" ? raw.trim() : raw),
+  z.string({ invalid_type_error: "Expected text" })
+    .min(1, "Answer cannot be empty")
+    .max(MAX_TEXT_ANSWER_LENGTH, `Answers are limited to ${MAX_TEXT_ANSWER_LENGTH} characters`)
+);
+
+export function aggregateTextAnswers(answers: string[]) {
+  return {
+    kind: "text" as const,
+    responses: answers.length,
+    averageLength: answers.length > 0 ? round(answers.reduce((sum, a) => sum + a.length, 0) / answers.length, 1) : 0,
+    samples: answers.slice(0, TEXT_SAMPLE_SIZE),
+  };
+}
+
+export const textType: QuestionTypeDefinition<Record<string, never>, string> = {
+  type: "text",
+  label: "Text",
+  description: "Free text answer",
+  hasOptions: false,
+  logicOperators: ["equals", "not_equals"],
+  configSchema: z.object({}).passthrough(),
+  resolveConfig: () => ({}),
+  answerSchema: textAnswerSchema,
+  validateAnswer: () => [],
+  csvColumns: () => [""],
+  flattenAnswer: (answer) => [answer],
+  answerVariables: () => [{ suffix: "", label: "", type: "string", measure: "nominal" }],
+  codeAnswer: (answer) => [answer],
+  aggregate: aggregateTextAnswers,
+  promptHint: () => "✏️  TEXT INPUT - Provide realistic text response",
+  // Callers fill in free text themselves
+  sampleAnswer: () => null,
+};
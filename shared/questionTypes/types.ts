@@ -0,0 +1,186 @@
+// Building blocks for question type modules (see ./index.ts for the registry)
+import { z } from "zod";
+import type { ConditionOperator } from "../questionLogic";
+
+// The parts of a stored question the type modules read
+export interface QuestionLike {
+  id: number | string;
+  question?: string | null;
+  questionType?: string | null;
+  options?: unknown;
+  sliderConfig?: unknown;
+  scenarioText?: string | null;
+}
+
+// One answer option, normalized from the string or object forms stored in `options`
+export interface ChoiceOption {
+  value: string;
+  label: string;
+  // Everything an answer may use to refer to the option: value, ID, text, label
+  keys: string[];
+}
+
+export interface OptionCount {
+  value: string;
+  label: string;
+  count: number;
+  percentage: number; // of respondents who answered the question
+}
+
+export interface RankedOptionStat {
+  value: string;
+  label: string;
+  averageRank: number | null;
+  firstPlace: number;
+}
+
+export interface ValueLabel {
+  value: number;
+  label: string;
+}
+
+/**
+ * One variable of the coded response export (wide CSV column, SPSS variable,
+ * codebook entry). Choice answers are coded as numbers with value labels.
+ */
+export interface AnswerVariable {
+  // Appended to the question's variable name; "" for a question's only variable
+  suffix: string;
+  // Appended to the question text; "" for a question's only variable
+  label: string;
+  type: "numeric" | "string";
+  measure: "nominal" | "ordinal" | "scale";
+  valueLabels?: ValueLabel[];
+}
+
+export type CodedValue = number | string | null;
+
+/**
+ * Per-question summary of a set of answers. `responses` counts valid answers.
+ */
+export type QuestionAggregate =
+  | { kind: "choice"; responses: number; options: OptionCount[]; other: number }
+  | {
+      kind: "numeric";
+      responses: number;
+      mean: number | null;
+      median: number | null;
+      min: number | null;
+      max: number | null;
+      histogram: Array<{ from: number; to: number; count: number }>;
+    }
+  | { kind: "ranking"; responses: number; options: RankedOptionStat[] }
+  | { kind: "text"; responses: number; averageLength: number; samples: string[] };
+
+/**
+ * Everything the platform needs to know about one question type. `TConfig` is
+ * the normalized, type-specific settings of a question; `TAnswer` is a parsed
+ * answer.
+ */
+export interface QuestionTypeDefinition<TConfig = any, TAnswer = any> {
+  type: string;
+  label: string;
+  description: string;
+  // Whether the editor shows an option list for this type
+  hasOptions: boolean;
+  // Display logic operators that can test answers to this type
+  logicOperators: ConditionOperator[];
+  // Validates the settings submitted by the survey editor
+  configSchema: z.ZodTypeAny;
+  // Reads the settings off a stored question, tolerating legacy shapes
+  resolveConfig(question: QuestionLike): TConfig;
+  // Parses a stored or submitted answer, including its JSON-encoded form
+  answerSchema: z.ZodType<TAnswer, z.ZodTypeDef, unknown>;
+  // Checks a parsed answer against the question's settings
+  validateAnswer(answer: TAnswer, config: TConfig): string[];
+  // Extra CSV column labels; one empty label means a single column for the question
+  csvColumns(config: TConfig): string[];
+  // One cell per CSV column
+  flattenAnswer(answer: TAnswer, config: TConfig): Array<string | number>;
+  // Variables of the coded export; codeAnswer returns one value per variable
+  answerVariables(config: TConfig): AnswerVariable[];
+  codeAnswer(answer: TAnswer, config: TConfig): CodedValue[];
+  aggregate(answers: TAnswer[], config: TConfig): QuestionAggregate;
+  // How the AI model should answer when generating sample responses
+  promptHint(config: TConfig): string;
+  // A plausible random answer, or null when the caller should supply one
+  sampleAnswer(config: TConfig, random: () => number): unknown;
+}
+
+export const parseJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+const optionKeys = (option: any, index: number): string[] => {
+  if (typeof option === "string" || typeof option === "number") return [String(option), `opt_${index}`];
+  return [option?.value, option?.id, option?.text, option?.label]
+    .filter((key) => key !== undefined && key !== null && key !== "")
+    .map((key) => String(key));
+};
+
+/**
+ * Normalize stored options. String options get the same `opt_<index>` ID the
+ * questions endpoint gives them.
+ */
+export function parseChoiceOptions(raw: unknown): ChoiceOption[] {
+  const options = parseJson(raw);
+  if (!Array.isArray(options)) return [];
+
+  return options
+    .map((option: any, index) => {
+      const keys = optionKeys(option, index);
+      const label = typeof option === "object" && option
+        ? String(option.text ?? option.label ?? option.value ?? keys[0] ?? "")
+        : String(option);
+      return { value: keys[0] ?? "", label, keys };
+    })
+    .filter((option) => option.keys.length > 0);
+}
+
+// Token an answer uses for an option: a plain value, or {value|option|id} from rankings
+export const answerToken = (item: unknown): string | undefined => {
+  const token = item && typeof item === "object"
+    ? (item as any).value ?? (item as any).option ?? (item as any).id
+    : item;
+  return token === undefined || token === null || token === "" ? undefined : String(token);
+};
+
+export const findOption = (options: ChoiceOption[], token: string): ChoiceOption | undefined =>
+  options.find((option) => option.keys.includes(token)) ??
+  options.find((option) => option.keys.some((key) => key.toLowerCase() === token.toLowerCase()));
+
+// Options are coded 1..n in the order the question lists them
+export const optionCode = (options: ChoiceOption[], token: string): number | null => {
+  const option = findOption(options, token);
+  return option ? options.indexOf(option) + 1 : null;
+};
+
+export const optionValueLabels = (options: ChoiceOption[]): ValueLabel[] =>
+  options.map((option, index) => ({ value: index + 1, label: option.label }));
+
+// Raw option entries as the survey editor submits them
+export const editorOptionSchema = z.union([
+  z.string().trim().min(1, "Options cannot be empty"),
+  z
+    .object({
+      id: z.string().optional(),
+      text: z.string().optional(),
+      label: z.string().optional(),
+      value: z.string().optional(),
+    })
+    .passthrough()
+    .refine((option) => [option.text, option.label, option.value].some((v) => !!v?.trim()), {
+      message: "Every option needs text",
+    }),
+]);
+
+export const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const pickOne = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
@@ -0,0 +1,263 @@
+// Quota sampling for survey collection: demographic cells with targets,
+// shared by the completion endpoint, the quota routes and the quota dashboard
+import { z } from "zod";
+
+// Demographic fields the survey pages collect (see `demographics` on survey responses)
+export const QUOTA_FIELDS = ["gender", "age", "location", "education", "income"] as const;
+
+export type QuotaField = typeof QUOTA_FIELDS[number];
+
+export const QUOTA_FIELD_LABELS: Record<QuotaField, string> = {
+  gender: "Gender",
+  age: "Age",
+  location: "Region",
+  education: "Education",
+  income: "Income",
+};
+
+/**
+ * One test against a respondent's demographics: `values` matches categories
+ * (case-insensitive), `min`/`max` match numbers. Ages are stored as the lower
+ * bound of their bucket, so ages 25-44 is `{ field: "age", min: 25, max: 44 }`.
+ */
+export interface QuotaCondition {
+  field: QuotaField;
+  values?: string[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A quota cell: respondents matching all conditions. A "max" cell closes once
+ * it reaches its target; a "min" cell reserves the rest of the sample once it
+ * needs every remaining response. Percent targets are shares of the sample size.
+ */
+export interface QuotaCell {
+  id: string;
+  label: string;
+  conditions: QuotaCondition[];
+  limitType: "max" | "min";
+  unit: "count" | "percent";
+  value: number;
+}
+
+export interface QuotaPlan {
+  // Total responses wanted; defaults to the survey or deployment response cap
+  sampleSize?: number | null;
+  cells: QuotaCell[];
+  // Shown to screened-out respondents instead of the default message
+  screenOutMessage?: string | null;
+}
+
+export const MAX_QUOTA_CELLS = 50;
+
+export const DEFAULT_SCREEN_OUT_MESSAGE =
+  "Thank you for your interest. We already have enough responses from people like you, so this survey has closed for you.";
+
+export const quotaConditionSchema = z
+  .object({
+    field: z.enum(QUOTA_FIELDS),
+    values: z.array(z.string().trim().min(1)).optional(),
+    min: z.number().finite().optional(),
+    max: z.number().finite().optional(),
+  })
+  .refine((c) => (c.values && c.values.length > 0) || c.min !== undefined || c.max !== undefined, {
+    message: "Condition needs values or a range",
+  })
+  .refine((c) => c.min === undefined || c.max === undefined || c.min <= c.max, {
+    message: "Condition minimum must not exceed its maximum",
+  });
+
+export const quotaCellSchema = z
+  .object({
+    id: z.string().trim().min(1).max(64),
+    label: z.string().trim().min(1, "Every quota needs a label").max(120),
+    conditions: z.array(quotaConditionSchema).min(1, "Every quota needs at least one condition").max(QUOTA_FIELDS.length),
+    limitType: z.enum(["max", "min"]),
+    unit: z.enum(["count", "percent"]),
+    value: z.number().positive("Quota targets must be positive"),
+  })
+  .refine((cell) => cell.unit !== "percent" || cell.value <= 100, {
+    message: "Percentage targets cannot exceed 100",
+  });
+
+export const quotaPlanSchema = z
+  .object({
+    sampleSize: z.number().int().positive().nullable().optional(),
+    cells: z.array(quotaCellSchema).max(MAX_QUOTA_CELLS),
+    screenOutMessage: z.string().trim().max(1000).nullable().optional(),
+  })
+  .refine((plan) => new Set(plan.cells.map((cell) => cell.id)).size === plan.cells.length, {
+    message: "Quota IDs must be unique",
+  });
+
+/**
+ * Read a stored quota plan; null when there is none or it is unusable
+ */
+export function resolveQuotaPlan(raw: unknown): QuotaPlan | null {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const parsed = quotaPlanSchema.safeParse(value);
+  if (!parsed.success) return null;
+  return parsed.data.cells.length > 0 || parsed.data.sampleSize ? parsed.data : null;
+}
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+export function matchesQuotaCondition(condition: QuotaCondition, demographics: Record<string, unknown>): boolean {
+  const actual = demographics?.[condition.field];
+  if (actual === undefined || actual === null || actual === "") return false;
+
+  if (condition.values && condition.values.length > 0) {
+    return condition.values.some((value) => normalize(value) === normalize(actual));
+  }
+  const number = Number(actual);
+  return Number.isFinite(number) &&
+    (condition.min === undefined || number >= condition.min) &&
+    (condition.max === undefined || number <= condition.max);
+}
+
+export function matchesQuotaCell(cell: QuotaCell, demographics: Record<string, unknown>): boolean {
+  return cell.conditions.every((condition) => matchesQuotaCondition(condition, demographics));
+}
+
+// Number of responses a cell targets; percent cells need a sample size
+export function quotaCellTarget(cell: QuotaCell, sampleSize: number | null): number | null {
+  if (cell.unit === "count") return Math.floor(cell.value);
+  return sampleSize ? Math.round((cell.value / 100) * sampleSize) : null;
+}
+
+export interface QuotaCellStatus {
+  id: string;
+  label: string;
+  limitType: "max" | "min";
+  unit: "count" | "percent";
+  value: number;
+  target: number | null;
+  count: number;
+  // Share of the target collected so far, 0-100
+  fill: number | null;
+  // For "max" cells: no more respondents accepted. For "min" cells: target met.
+  full: boolean;
+}
+
+export interface QuotaStatus {
+  sampleSize: number | null;
+  total: number;
+  full: boolean;
+  cells: QuotaCellStatus[];
+}
+
+// Responses collected so far, and how many of them fall in each cell of a plan
+export interface QuotaCounts {
+  total: number;
+  // In the order of the plan's cells
+  cells: number[];
+}
+
+/**
+ * Fill levels of every cell, given the demographics of the responses collected
+ * so far. `defaultSampleSize` applies when the plan has no sample size.
+ */
+export function computeQuotaStatus(
+  plan: QuotaPlan,
+  collected: Array<Record<string, unknown>>,
+  defaultSampleSize: number | null = null
+): QuotaStatus {
+  return quotaStatusFromCounts(plan, {
+    total: collected.length,
+    cells: plan.cells.map((cell) => collected.filter((demographics) => matchesQuotaCell(cell, demographics)).length),
+  }, defaultSampleSize);
+}
+
+/**
+ * Fill levels of every cell from counts made elsewhere, such as in the database
+ */
+export function quotaStatusFromCounts(
+  plan: QuotaPlan,
+  counts: QuotaCounts,
+  defaultSampleSize: number | null = null
+): QuotaStatus {
+  const sampleSize = plan.sampleSize ?? defaultSampleSize ?? null;
+  const cells = plan.cells.map((cell, index) => {
+    const target = quotaCellTarget(cell, sampleSize);
+    const count = counts.cells[index] ?? 0;
+    return {
+      id: cell.id,
+      label: cell.label,
+      limitType: cell.limitType,
+      unit: cell.unit,
+      value: cell.value,
+      target,
+      count,
+      fill: target ? Math.min(100, Math.round((count / target) * 100)) : null,
+      full: target !== null && count >= target,
+    };
+  });
+
+  return {
+    sampleSize,
+    total: counts.total,
+    full: sampleSize !== null && counts.total >= sampleSize,
+    cells,
+  };
+}
+
+// A plan with its fill levels, as shown on the quota dashboard
+export interface QuotaPlanStatus {
+  plan: QuotaPlan | null;
+  status: QuotaStatus | null;
+}
+
+export interface DeploymentQuotaStatus extends QuotaPlanStatus {
+  deploymentId: number;
+  clientId: number;
+  deploymentStatus: string;
+}
+
+export interface SurveyQuotaReport {
+  surveyId: number;
+  survey: QuotaPlanStatus;
+  deployments: DeploymentQuotaStatus[];
+  timestamp: string;
+}
+
+export interface QuotaDecision {
+  accepted: boolean;
+  // Labels of the cells (or "Sample size") that screened the respondent out
+  reasons: string[];
+}
+
+/**
+ * Whether one more respondent with these demographics still fits the plan.
+ * They are screened out when the sample is full, when they fall in a full
+ * "max" cell, or when they are outside a "min" cell that needs every
+ * remaining response to reach its target.
+ */
+export function evaluateQuotas(status: QuotaStatus, plan: QuotaPlan, demographics: Record<string, unknown>): QuotaDecision {
+  if (status.full) return { accepted: false, reasons: ["Sample size"] };
+
+  const remaining = status.sampleSize !== null ? status.sampleSize - status.total : null;
+  const reasons: string[] = [];
+
+  plan.cells.forEach((cell, index) => {
+    const cellStatus = status.cells[index];
+    if (cellStatus.target === null) return;
+    const inCell = matchesQuotaCell(cell, demographics);
+
+    if (cell.limitType === "max" && inCell && cellStatus.count >= cellStatus.target) {
+      reasons.push(cell.label);
+    }
+    if (cell.limitType === "min" && !inCell && remaining !== null && remaining - 1 < cellStatus.target - cellStatus.count) {
+      reasons.push(cell.label);
+    }
+  });
+
+  return { accepted: reasons.length === 0, reasons };
+}
@@ -0,0 +1,94 @@
+// Coded response exports: wide CSV, SPSS .sav and the codebook describing
+// their variables, streamed directly or written by a background job
+import { z } from "zod";
+import type { ValueLabel } from "./questionTypes";
+
+export const RESPONSE_EXPORT_FORMATS = ["csv", "sav", "codebook"] as const;
+
+export type ResponseExportFormat = typeof RESPONSE_EXPORT_FORMATS[number];
+
+export const RESPONSE_EXPORT_FORMAT_LABELS: Record<ResponseExportFormat, string> = {
+  csv: "CSV (one column per variable)",
+  sav: "SPSS (.sav with value labels)",
+  codebook: "Codebook (JSON)",
+};
+
+export const RESPONSE_EXPORT_EXTENSIONS: Record<ResponseExportFormat, string> = {
+  csv: "csv",
+  sav: "sav",
+  codebook: "codebook.json",
+};
+
+export const RESPONSE_EXPORT_CONTENT_TYPES: Record<ResponseExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  sav: "application/x-spss-sav",
+  codebook: "application/json",
+};
+
+// Exports of more responses than this run as background jobs
+export const DIRECT_EXPORT_ROW_LIMIT = 5000;
+
+// Rows read per keyset page while streaming
+export const EXPORT_BATCH_SIZE = 1000;
+
+// Finished export files can be downloaded for this long
+export const EXPORT_FILE_RETENTION_HOURS = 72;
+
+// SPSS strings longer than this need extra records most readers skip; the CSV keeps the full text
+export const SAV_MAX_STRING_WIDTH = 255;
+
+export const EXPORT_JOB_STATUSES = ["queued", "running", "completed", "failed", "expired"] as const;
+
+export type ExportJobStatus = typeof EXPORT_JOB_STATUSES[number];
+
+export const responseExportRequestSchema = z.object({
+  format: z.enum(RESPONSE_EXPORT_FORMATS).default("csv"),
+  includeTraits: z.boolean().default(true),
+  includeDemographics: z.boolean().default(true),
+  // Only completed responses unless asked otherwise
+  includeIncomplete: z.boolean().default(false),
+});
+
+export type ResponseExportRequest = z.infer<typeof responseExportRequestSchema>;
+
+export type VariableSource = "response" | "question" | "trait" | "demographic";
+
+export interface CodebookVariable {
+  // Column name in the CSV and variable name in SPSS
+  name: string;
+  label: string;
+  source: VariableSource;
+  type: "numeric" | "string";
+  measure: "nominal" | "ordinal" | "scale";
+  // Bytes SPSS stores for string variables
+  width?: number;
+  questionId?: number;
+  questionType?: string;
+  valueLabels?: ValueLabel[];
+  description?: string;
+}
+
+export interface Codebook {
+  survey: { id: number; title: string };
+  generatedAt: string;
+  responseCount: number;
+  includeIncomplete: boolean;
+  // Empty cells (CSV) and system-missing values (SPSS) mean the question was not answered
+  missingValues: string;
+  variables: CodebookVariable[];
+}
+
+export interface ExportJobSummary {
+  id: number;
+  surveyId: number;
+  surveyTitle: string | null;
+  format: ResponseExportFormat;
+  status: ExportJobStatus;
+  rowCount: number | null;
+  sizeBytes: number | null;
+  error: string | null;
+  downloadUrl: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
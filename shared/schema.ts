@@ -2,6 +2,7 @@ import { pgTable, text, serial, integer, json, timestamp, boolean, varchar, uniq
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { QUESTION_TYPE_IDS } from "./questionTypes";
 
 // User roles for platform access
 export const UserRole = {
@@ -19,45 +20,8 @@ export const UserRole = {
   REPORT_VIEWER: 'report_viewer',    // Can only view reports and results
 } as const;
 
-// Permissions (capability-based)
-export const Permission = {
-  // User management
-  MANAGE_USERS: 'manage_users',           // Add/edit/delete users
-  INVITE_USERS: 'invite_users',           // Invite new users
-  
-  // Survey management
-  CREATE_SURVEY: 'create_survey',         // Create new surveys
-  EDIT_SURVEY: 'edit_survey',             // Edit existing surveys
-  DELETE_SURVEY: 'delete_survey',         // Delete surveys
-  PUBLISH_SURVEY: 'publish_survey',       // Make surveys public
-  
-  // Data & analytics
-  VIEW_RESPONSES: 'view_responses',       // View individual responses
-  EXPORT_DATA: 'export_data',             // Export response data
-  VIEW_ANALYTICS: 'view_analytics',       // View analytics dashboards
-  VIEW_REPORTS: 'view_reports',           // View pre-built reports
-  CREATE_REPORTS: 'create_reports',       // Create custom reports
-  
-  // Business management
-  MANAGE_BILLING: 'manage_billing',       // Change/update billing
-  MANAGE_SUBSCRIPTION: 'manage_subscription', // Change subscription
-  MANAGE_COMPANY: 'manage_company',       // Edit company details
-  MANAGE_API_KEYS: 'manage_api_keys',     // Create/revoke API keys
-  
-  // Integration management
-  MANAGE_INTEGRATIONS: 'manage_integrations', // Connect/disconnect integrations
-  
-  // Platform admin permissions (for you as platform owner)
-  PLATFORM_ADMIN_ACCESS: 'platform_admin_access',     // Access admin console
-  MANAGE_CLIENT_ACCOUNTS: 'manage_client_accounts',   // Manage all client accounts
-  MANAGE_LICENSES: 'manage_licenses',                 // Manage client licenses
-  VIEW_PLATFORM_ANALYTICS: 'view_platform_analytics', // View platform-wide analytics
-  MANAGE_SUPPORT_TICKETS: 'manage_support_tickets',   // Manage support tickets
-  SYSTEM_CONFIGURATION: 'system_configuration',       // Configure system settings
-  BILLING_OPERATIONS: 'billing_operations',           // All billing operations
-  FEATURE_MANAGEMENT: 'feature_management',           // Enable/disable features
-  USER_IMPERSONATION: 'user_impersonation',           // Temporarily act as other users
-} as const;
+// Permissions (capability-based); the catalogue lives in ./permissions
+export { Permission } from "./permissions";
 
 // License tiers for businesses (Plan types)
 export const SubscriptionTier = {
@@ -105,7 +69,12 @@ export const users = pgTable("users", {
   
   // Multi-factor authentication
   mfaEnabled: boolean("mfa_enabled").default(false),
-  mfaSecret: text("mfa_secret"),
+  mfaSecret: text("mfa_secret"), // Encrypted TOTP secret (see server/utils/totp.ts)
+  mfaPendingSecret: text("mfa_pending_secret"), // Encrypted secret of an enrollment not yet confirmed
+  mfaEnrolledAt: timestamp("mfa_enrolled_at"),
+  mfaLastUsedStep: integer("mfa_last_used_step"), // Last accepted TOTP time step, so codes cannot be replayed
+  mfaFailedAttempts: integer("mfa_failed_attempts").default(0).notNull(), // Invalid codes in a row since the last accepted one
+  mfaLockedUntil: timestamp("mfa_locked_until"), // Two-factor checks are refused until then
   
   // Account security
   loginAttempts: integer("login_attempts").default(0),
@@ -233,8 +202,10 @@ export const surveys = pgTable("surveys", {
   collectDemographics: boolean("collect_demographics").default(true),
   estimatedTime: integer("estimated_time_minutes"),
   maxResponses: integer("max_responses"),
+  quotas: json("quotas"), // Quota plan: demographic cells with targets (see shared/quotas.ts)
   expiryDate: timestamp("expiry_date"),
   status: text("status").default("active").notNull(),
+  currentVersionId: integer("current_version_id"), // Published survey_versions row new responses are recorded against
   adminDeactivated: boolean("admin_deactivated").default(false), // Admin-side deactivation (blocks all client actions)
   responseCount: integer("response_count").default(0),
   completionRate: integer("completion_rate").default(0),
@@ -252,6 +223,9 @@ export const surveys = pgTable("surveys", {
 
   // Survey Configuration Columns
   surveyLanguage: text("survey_language").default("en"),
+  translationLanguages: json("translation_languages"), // Extra languages respondents can choose, see shared/surveyTranslations.ts
+  translations: json("translations"), // Title, description and messages per translation language
+  publishedLanguages: json("published_languages"), // Translation languages respondents can choose
   enableAIInsights: boolean("enable_ai_insights").default(true),
   enableSocialSharing: boolean("enable_social_sharing").default(true),
 
@@ -265,6 +239,9 @@ export const surveys = pgTable("surveys", {
   // AI Responses Settings
   enableAIResponses: boolean("enable_ai_responses").default(false),
 
+  // Traits scored for this survey (see shared/traitModel.ts); null means the default model
+  traitModel: json("trait_model"),
+
   // Admin Management Fields
   adminNote: text("admin_note"), // Internal admin notes
 
@@ -281,14 +258,37 @@ export const surveyQuestions = pgTable("survey_questions", {
   required: boolean("required").default(true),
   helpText: text("help_text"),
   order: integer("order").notNull(),
-  options: json("options"), // Array of options for multiple choice questions
+  options: json("options"), // Array of options for multiple choice questions, each may carry trait weights
   customValidation: text("custom_validation"),
-  sliderConfig: json("slider_config"), // Store slider configuration (minLabel, maxLabel)
+  sliderConfig: json("slider_config"), // Store slider configuration (minLabel, maxLabel, traitWeights)
   scenarioText: text("scenario_text"), // Store scenario description text
+  displayLogic: json("display_logic"), // Show/skip rules based on earlier answers (see shared/questionLogic.ts)
+  translations: json("translations"), // Question, option and label texts per language, options keyed by value
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Immutable snapshots of a survey's settings and questions. Published versions
+// are what respondents answered; drafts are saved or restored states.
+export const surveyVersions = pgTable("survey_versions", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").references(() => surveys.id, { onDelete: "cascade" }).notNull(),
+  versionNumber: integer("version_number").notNull(),
+  status: text("status").default("draft").notNull(), // draft, published
+  name: text("name").notNull(),
+  description: text("description"),
+  snapshot: json("snapshot").notNull(), // Settings and questions, see shared/surveyVersions.ts
+  createdBy: integer("created_by").references(() => users.id),
+  restoredFromVersionId: integer("restored_from_version_id"), // Version a restored draft was copied from
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at")
+}, (table) => ({
+  unq: unique("survey_version_number_unique").on(table.surveyId, table.versionNumber)
+}));
+
+export type SurveyVersion = typeof surveyVersions.$inferSelect;
+export type InsertSurveyVersion = typeof surveyVersions.$inferInsert;
+
 // Survey Templates table for managing reusable survey templates
 export const templates = pgTable("templates", {
   id: serial("id").primaryKey(),
@@ -297,7 +297,7 @@ export const templates = pgTable("templates", {
   description: text("description").notNull(),
   estimatedTime: integer("estimated_time"), // in minutes
   questionCount: integer("question_count"),
-  traits: json("traits"), // Array of personality traits this template measures
+  traits: json("traits"), // Trait model this template measures (legacy rows hold trait names)
   isActive: boolean("is_active").default(true),
   surveyType: text("survey_type").notNull(), // personality, consumer-preferences, employee-satisfaction, etc.
   image: text("image"), // Template preview image URL
@@ -315,9 +315,9 @@ export const templateQuestions = pgTable("template_questions", {
   required: boolean("required").default(true),
   helpText: text("help_text"),
   order: integer("order").notNull(),
-  options: json("options"), // Array of options for multiple choice questions
+  options: json("options"), // Array of options for multiple choice questions, each may carry trait weights
   customValidation: text("custom_validation"),
-  sliderConfig: json("slider_config"), // Store slider configuration (minLabel, maxLabel)
+  sliderConfig: json("slider_config"), // Store slider configuration (minLabel, maxLabel, traitWeights)
   scenarioText: text("scenario_text"), // Store scenario description text
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
@@ -383,6 +383,9 @@ export const surveyResponses = pgTable("survey_responses", {
   userAgent: text("user_agent"),
   source: text("source"), // Where the response came from (e.g. direct, email, social)
   referrer: text("referrer"),
+  deploymentId: integer("deployment_id").references(() => clientSurveyDeployments.id), // Client deployment the response came through
+  surveyVersionId: integer("survey_version_id").references(() => surveyVersions.id), // Published version of the questions that were answered
+  language: text("language"), // Language the survey was taken in
   startTime: timestamp("start_time").defaultNow().notNull(),
   completeTime: timestamp("complete_time"),
   
@@ -420,6 +423,69 @@ export const surveyResponses = pgTable("survey_responses", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Survey session status values
+export const SurveySessionStatus = {
+  IN_PROGRESS: 'in_progress',
+  COMPLETED: 'completed',
+  ABANDONED: 'abandoned'
+} as const;
+
+// Partial responses for in-progress survey sessions, keyed by session ID so respondents can resume
+export const surveySessions = pgTable("survey_sessions", {
+  id: serial("id").primaryKey(),
+  sessionId: text("session_id").notNull().unique(),
+  surveyId: integer("survey_id").references(() => surveys.id, { onDelete: "cascade" }).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  resumeToken: text("resume_token").notNull().unique(),
+  status: text("status").default(SurveySessionStatus.IN_PROGRESS).notNull(), // in_progress, completed, abandoned
+  answers: json("answers").default({}).notNull(), // Map of questionId -> answer
+  answeredCount: integer("answered_count").default(0).notNull(),
+  lastQuestionId: integer("last_question_id"), // Last question the respondent answered
+  surveyResponseId: integer("survey_response_id").references(() => surveyResponses.id, { onDelete: "set null" }), // Set once the session is completed
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  abandonedAt: timestamp("abandoned_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type SurveySession = typeof surveySessions.$inferSelect;
+export type InsertSurveySession = typeof surveySessions.$inferInsert;
+
+// Public links to a company's or survey's analytics report
+export const sharedReports = pgTable("shared_reports", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  surveyId: integer("survey_id").references(() => surveys.id, { onDelete: "cascade" }), // Null shares every survey of the company
+  createdBy: integer("created_by").references(() => users.id),
+  passwordHash: text("password_hash"), // Null when the link is not password protected
+  sections: json("sections").default([]).notNull(), // Visible report sections, see shared/sharedReports.ts
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").default(0).notNull(),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type SharedReport = typeof sharedReports.$inferSelect;
+export type InsertSharedReport = typeof sharedReports.$inferInsert;
+
+// One row per successful view of a shared report
+export const sharedReportViews = pgTable("shared_report_views", {
+  id: serial("id").primaryKey(),
+  sharedReportId: integer("shared_report_id").references(() => sharedReports.id, { onDelete: "cascade" }).notNull(),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent")
+});
+
+export type SharedReportView = typeof sharedReportViews.$inferSelect;
+
 // Newsletter subscriptions table
 export const newsletterSubscribers = pgTable("newsletter_subscribers", {
   id: serial("id").primaryKey(),
@@ -688,10 +754,11 @@ export const IntegrationStatus = {
 export const integrations = pgTable("integrations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  type: text("type").notNull(), // crm, email, analytics
-  provider: text("provider").notNull(), // e.g., Salesforce, HubSpot, Mailchimp
+  type: text("type").notNull(), // Provider category: crm, analytics, marketing, communication, files
+  provider: text("provider").notNull(), // Provider ID from shared/integrations.ts, e.g. file, salesforce, hubspot
   status: text("status").default(IntegrationStatus.INACTIVE).notNull(),
   companyId: integer("company_id").references(() => companies.id),
+  // Credentials are encrypted at rest (server/utils/credentialCrypto.ts)
   apiKey: text("api_key"),
   apiSecret: text("api_secret"),
   apiUrl: text("api_url"),
@@ -699,11 +766,30 @@ export const integrations = pgTable("integrations", {
   refreshToken: text("refresh_token"),
   tokenExpiresAt: timestamp("token_expires_at"),
   lastSynced: timestamp("last_synced"),
+  lastError: text("last_error"),
   config: json("config").default({}),
+  syncState: json("sync_state"), // Sync cursor and last result, kept apart from the user-editable config
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Contacts pulled from an integration, one row per email address
+export const integrationContacts = pgTable("integration_contacts", {
+  id: serial("id").primaryKey(),
+  integrationId: integer("integration_id").references(() => integrations.id, { onDelete: "cascade" }).notNull(),
+  companyId: integer("company_id").references(() => companies.id),
+  email: text("email").notNull(),
+  firstName: text("first_name"),
+  lastName: text("last_name"),
+  externalId: text("external_id"), // The contact's ID in the connected system
+  attributes: json("attributes"), // Any other columns of the source record
+  syncedAt: timestamp("synced_at").defaultNow().notNull()
+}, (table) => ({
+  unq: unique("integration_contact_email_unique").on(table.integrationId, table.email)
+}));
+
+export type IntegrationContact = typeof integrationContacts.$inferSelect;
+
 // Licenses table for managing different license types and their details
 export const licenses = pgTable("licenses", {
   id: serial("id").primaryKey(),
@@ -754,6 +840,7 @@ export const clientSurveyDeployments = pgTable("client_survey_deployments", {
   maxResponses: integer("max_responses"), // Optional limit on number of responses
   customBranding: boolean("custom_branding").default(false),
   customConfig: json("custom_config"), // Optional deployment-specific configuration
+  quotas: json("quotas"), // Deployment-specific quota plan (see shared/quotas.ts)
   responseCount: integer("response_count").default(0), // Track responses received
 
   lastResponseDate: timestamp("last_response_date"), // Track date of most recent response
@@ -1184,6 +1271,7 @@ export const collaborationSessions = pgTable("collaboration_sessions", {
   version: integer("version").default(1).notNull(), // For tracking survey version being edited
   lockTimeout: integer("lock_timeout").default(30000), // Time in ms before locks expire
   currentLocks: json("current_locks"), // Currently locked elements and by whom
+  fieldVersions: json("field_versions"), // Version vector of every edited field (see shared/collaborationOps.ts)
   customPermissions: json("custom_permissions"), // Special permission rules for this session
   invitedUsers: integer("invited_users").array(), // Users specifically invited to join
   reviewStatus: text("review_status").default("not_reviewed"), // not_reviewed, under_review, approved, rejected
@@ -1222,8 +1310,12 @@ export const collaborationChanges = pgTable("collaboration_changes", {
   appliedAt: timestamp("applied_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   appliedBy: integer("applied_by").references(() => users.id), // Person who applied/approved the change
-  status: text("status").default("applied").notNull() // pending, applied, rejected, conflicted
-});
+  status: text("status").default("applied").notNull(), // pending, applied, rejected, conflicted
+  version: integer("version"), // Position in the session's change log; unique per session, null for changes that were not applied
+  baseVersion: json("base_version") // Version vector of the field the change was made against
+}, (table) => ({
+  unq: unique("collaboration_change_version_unique").on(table.sessionId, table.version)
+}));
 
 export const collaborationComments: any = pgTable("collaboration_comments", {
   id: serial("id").primaryKey(),
@@ -1232,6 +1324,7 @@ export const collaborationComments: any = pgTable("collaboration_comments", {
   entityType: text("entity_type").notNull(), // survey, question, option, choice
   entityId: integer("entity_id").notNull(),
   comment: text("comment").notNull(),
+  position: integer("position"), // Offset in the session document the comment is anchored to
   resolved: boolean("resolved").default(false),
   resolvedById: integer("resolved_by_id").references(() => users.id),
   resolvedAt: timestamp("resolved_at"),
@@ -1318,7 +1411,7 @@ export type ProductRecommendation = {
 // Export validation schema for question display in UI
 export const surveyQuestionUiSchema = z.object({
   id: z.number(),
-  type: z.enum(["text", "image", "multiple-choice", "slider", "ranking", "scenario", "mood-board", "personality-matrix"]),
+  type: z.enum(QUESTION_TYPE_IDS),
   question: z.string(),
   description: z.string().optional(),
   category: z.string().optional(),
@@ -1770,8 +1863,28 @@ export const systemBackups = pgTable("system_backups", {
   status: varchar("status", { length: 20 }).notNull(), // 'completed', 'in-progress', 'failed'
   size: varchar("size", { length: 50 }),
   path: varchar("path", { length: 255 }),
+  description: text("description"),
+  includeResponses: boolean("include_responses").default(true).notNull(),
+  sizeBytes: integer("size_bytes"), // Size of the compressed archive
+  checksum: varchar("checksum", { length: 64 }), // SHA-256 of the compressed archive
+  tableCounts: json("table_counts"), // Rows per table captured in the archive
+  error: text("error"),
   userId: integer("user_id").references(() => users.id),
-  createdAt: timestamp("created_at").defaultNow().notNull()
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Schedule and retention for automatic backups (single row)
+export const backupSettings = pgTable("backup_settings", {
+  id: serial("id").primaryKey(),
+  dailyBackups: boolean("daily_backups").default(true).notNull(),
+  weeklyBackups: boolean("weekly_backups").default(true).notNull(),
+  monthlyBackups: boolean("monthly_backups").default(true).notNull(),
+  includeResponses: boolean("include_responses").default(true).notNull(),
+  retentionDays: integer("retention_days").default(90).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications)
@@ -1791,6 +1904,8 @@ export const insertSystemBackupSchema = createInsertSchema(systemBackups)
 export type SystemBackup = typeof systemBackups.$inferSelect;
 export type InsertSystemBackup = z.infer<typeof insertSystemBackupSchema>;
 
+export type BackupSettings = typeof backupSettings.$inferSelect;
+
 // ============== Table Relations ==============
 
 // Define explicit relations for surveys
@@ -1858,12 +1973,225 @@ export const userInvitations = pgTable("user_invitations", {
   invitedBy: integer("invited_by").references(() => users.id).notNull(),
   token: text("token").notNull().unique(),
   expiresAt: timestamp("expires_at").notNull(),
-  status: text("status").default("pending").notNull(), // pending, accepted, expired
+  status: text("status").default("pending").notNull(), // pending, accepted, expired, revoked
   acceptedById: integer("accepted_by_id").references(() => users.id),
   acceptedAt: timestamp("accepted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Email delivery statuses
+export const EmailDeliveryStatus = {
+  PENDING: 'pending',
+  SENT: 'sent',
+  FAILED: 'failed', // Will be retried until the attempt limit is reached
+  BOUNCED: 'bounced'
+} as const;
+
+// Every outgoing email, with the rendered content so failed sends can be retried
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  template: text("template").notNull(), // verification, password_reset, invitation, newsletter, support_ticket, ...
+  locale: text("locale").default("en").notNull(),
+  toAddress: text("to_address").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  transport: text("transport").notNull(), // smtp, outbox
+  status: text("status").default(EmailDeliveryStatus.PENDING).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  messageId: text("message_id"), // Transport message ID, used to match bounce reports
+  nextAttemptAt: timestamp("next_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  bouncedAt: timestamp("bounced_at"),
+  bounceReason: text("bounce_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+
+// Company webhook endpoints that receive signed lifecycle events (see shared/webhooks.ts)
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // HMAC signing key shared with the receiver
+  events: json("events").notNull(), // Subscribed event names
+  active: boolean("active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+// Delivery queue: one row per event sent to a subscription, retried with exponential backoff
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => webhookSubscriptions.id, { onDelete: "cascade" }).notNull(),
+  companyId: integer("company_id").notNull(),
+  event: text("event").notNull(),
+  payload: json("payload").notNull(), // The signed JSON envelope
+  status: text("status").default("pending").notNull(), // pending, delivered, failed
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  replayOfId: integer("replay_of_id"), // Delivery this one replays
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+// Every HTTP attempt made for a delivery
+export const webhookDeliveryAttempts = pgTable("webhook_delivery_attempts", {
+  id: serial("id").primaryKey(),
+  deliveryId: integer("delivery_id").references(() => webhookDeliveries.id, { onDelete: "cascade" }).notNull(),
+  attemptNumber: integer("attempt_number").notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export type WebhookDeliveryAttempt = typeof webhookDeliveryAttempts.$inferSelect;
+
+// Per-company approval workflow that gates survey publishing (see shared/approvals.ts)
+export const approvalWorkflows = pgTable("approval_workflows", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull().unique(),
+  enabled: boolean("enabled").default(false).notNull(),
+  reviewerIds: integer("reviewer_ids").array().notNull(), // Reviewers who must all approve
+  requiredApprovals: integer("required_approvals").default(1).notNull(),
+  allowSelfApproval: boolean("allow_self_approval").default(false).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type ApprovalWorkflowRow = typeof approvalWorkflows.$inferSelect;
+
+// A request to approve a survey version; the workflow is copied in when it is requested
+export const surveyReviews = pgTable("survey_reviews", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").references(() => surveys.id, { onDelete: "cascade" }).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  sessionId: integer("session_id").references(() => collaborationSessions.id).notNull(),
+  versionId: integer("version_id").references(() => surveyVersions.id, { onDelete: "set null" }), // The reviewed snapshot
+  title: text("title").notNull(),
+  notes: text("notes"),
+  requestedBy: integer("requested_by").references(() => users.id).notNull(),
+  status: text("status").default("pending").notNull(), // pending, approved, rejected, cancelled
+  reviewerIds: integer("reviewer_ids").array().notNull(), // Everyone asked to review
+  requiredReviewerIds: integer("required_reviewer_ids").array().notNull(),
+  requiredApprovals: integer("required_approvals").default(1).notNull(),
+  allowSelfApproval: boolean("allow_self_approval").default(false).notNull(),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type SurveyReview = typeof surveyReviews.$inferSelect;
+
+// One approval or rejection per reviewer; the reasoning is a collaboration comment
+export const surveyReviewDecisions = pgTable("survey_review_decisions", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").references(() => surveyReviews.id, { onDelete: "cascade" }).notNull(),
+  reviewerId: integer("reviewer_id").references(() => users.id).notNull(),
+  decision: text("decision").notNull(), // approved, rejected
+  commentId: integer("comment_id").references(() => collaborationComments.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  unq: unique("survey_review_decision_unique").on(table.reviewId, table.reviewerId)
+}));
+
+export type SurveyReviewDecision = typeof surveyReviewDecisions.$inferSelect;
+
+// Two-factor recovery codes; each can sign in once instead of an authenticator code
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+
+// Devices that skip the second login step until they expire ("remember this device")
+export const mfaTrustedDevices = pgTable("mfa_trusted_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export type MfaTrustedDevice = typeof mfaTrustedDevices.$inferSelect;
+
+// Response exports too large to stream in a request; the file is kept in EXPORT_DIR until it expires
+export const responseExportJobs = pgTable("response_export_jobs", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").references(() => surveys.id, { onDelete: "cascade" }).notNull(),
+  companyId: integer("company_id").references(() => companies.id).notNull(),
+  requestedBy: integer("requested_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  format: text("format").notNull(), // csv, sav, codebook
+  options: json("options").notNull(), // includeTraits, includeDemographics, includeIncomplete
+  status: text("status").default("queued").notNull(), // queued, running, completed, failed, expired
+  rowCount: integer("row_count"),
+  filePath: text("file_path"),
+  fileName: text("file_name"),
+  sizeBytes: integer("size_bytes"),
+  error: text("error"),
+  attempts: integer("attempts").default(0).notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type ResponseExportJob = typeof responseExportJobs.$inferSelect;
+
+// Respondents' access, export and erasure requests (see shared/dataSubjectRequests.ts).
+// Completed erasures stay on record so they can be re-applied after a backup restore.
+export const dataSubjectRequests = pgTable("data_subject_requests", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // access, export, erasure
+  status: text("status").default("unverified").notNull(), // unverified, pending, completed, rejected
+  email: text("email").notNull(), // Lower-cased
+  jurisdiction: text("jurisdiction").default("gdpr").notNull(), // gdpr, ccpa
+  details: text("details"),
+  locale: text("locale").default("en").notNull(),
+  requestIp: text("request_ip"),
+  verificationTokenHash: text("verification_token_hash"),
+  verificationExpiresAt: timestamp("verification_expires_at"),
+  verifiedAt: timestamp("verified_at"),
+  dueAt: timestamp("due_at"), // Legal deadline, counted from verification
+  downloadTokenHash: text("download_token_hash"),
+  downloadExpiresAt: timestamp("download_expires_at"),
+  downloadedAt: timestamp("downloaded_at"),
+  handledById: integer("handled_by_id").references(() => users.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  rejectedAt: timestamp("rejected_at"),
+  rejectionReason: text("rejection_reason"),
+  result: json("result"), // Records found or erased per category
+  certificate: json("certificate"), // Signed completion certificate, also written to audit_logs
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type DataSubjectRequest = typeof dataSubjectRequests.$inferSelect;
+
 // Blog Categories table
 export const blogCategories = pgTable("blog_categories", {
   id: serial("id").primaryKey(),
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * Shared report links
+ *
+ * A shared report exposes a company's (or a single survey's) analytics on a
+ * public link. The owner picks which blocks of the report are visible; the
+ * server strips the analytics of hidden blocks before the data leaves it.
+ */
+
+export const REPORT_SECTIONS = [
+  "traits",
+  "demographics",
+  "stereotypes",
+  "products",
+  "engagement",
+  "business",
+  "intelligence"
+] as const;
+
+export type ReportSection = typeof REPORT_SECTIONS[number];
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  traits: "Personality traits",
+  demographics: "Demographics",
+  stereotypes: "Stereotypes",
+  products: "Product recommendations",
+  engagement: "Engagement",
+  business: "Business context",
+  intelligence: "Business intelligence"
+};
+
+export const SHARED_REPORT_MAX_DAYS = 365;
+export const SHARED_REPORT_DEFAULT_DAYS = 30;
+
+// Keep only known sections, in canonical order; an empty or missing list means everything
+export function resolveReportSections(raw: unknown): ReportSection[] {
+  if (!Array.isArray(raw)) return [...REPORT_SECTIONS];
+  const picked = REPORT_SECTIONS.filter(section => raw.includes(section));
+  return picked.length > 0 ? picked : [...REPORT_SECTIONS];
+}
+
+export const createSharedReportSchema = z.object({
+  companyId: z.coerce.number().int().positive(),
+  surveyId: z.union([z.literal("all"), z.coerce.number().int().positive()]).default("all"),
+  expiresInDays: z.coerce.number().int().min(1).max(SHARED_REPORT_MAX_DAYS).default(SHARED_REPORT_DEFAULT_DAYS),
+  password: z.string().min(4).max(128).optional().or(z.literal("").transform(() => undefined)),
+  sections: z.array(z.enum(REPORT_SECTIONS)).optional()
+});
+
+export const extendSharedReportSchema = z.object({
+  expiresInDays: z.coerce.number().int().min(1).max(SHARED_REPORT_MAX_DAYS)
+});
+
+export type CreateSharedReportInput = z.infer<typeof createSharedReportSchema>;
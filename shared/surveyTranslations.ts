@@ -0,0 +1,544 @@
+// Multilingual survey content: translations of a survey's texts and of each
+// question and option, stored next to the source text in the survey's own
+// language. Options are translated by their canonical value, so answers are
+// recorded (and analysed) the same way whatever language they were given in.
+import { z } from "zod";
+import { answerToken, findOption, parseChoiceOptions, parseJson, type QuestionLike } from "./questionTypes";
+
+export interface SurveyLanguage {
+  code: string;
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+}
+
+export type TextDirection = "ltr" | "rtl";
+
+export const SURVEY_LANGUAGES: SurveyLanguage[] = [
+  { code: "en", name: "English", nativeName: "English", direction: "ltr" },
+  { code: "es", name: "Spanish", nativeName: "Español", direction: "ltr" },
+  { code: "fr", name: "French", nativeName: "Français", direction: "ltr" },
+  { code: "de", name: "German", nativeName: "Deutsch", direction: "ltr" },
+  { code: "it", name: "Italian", nativeName: "Italiano", direction: "ltr" },
+  { code: "pt", name: "Portuguese", nativeName: "Português", direction: "ltr" },
+  { code: "nl", name: "Dutch", nativeName: "Nederlands", direction: "ltr" },
+  { code: "pl", name: "Polish", nativeName: "Polski", direction: "ltr" },
+  { code: "tr", name: "Turkish", nativeName: "Türkçe", direction: "ltr" },
+  { code: "ar", name: "Arabic", nativeName: "العربية", direction: "rtl" },
+  { code: "he", name: "Hebrew", nativeName: "עברית", direction: "rtl" },
+  { code: "ja", name: "Japanese", nativeName: "日本語", direction: "ltr" },
+  { code: "zh", name: "Chinese", nativeName: "中文", direction: "ltr" },
+  { code: "ko", name: "Korean", nativeName: "한국어", direction: "ltr" },
+];
+
+export const SURVEY_LANGUAGE_CODES = SURVEY_LANGUAGES.map((language) => language.code);
+
+export const DEFAULT_SURVEY_LANGUAGE = "en";
+
+// More languages than this make the editor unwieldy and are rarely fielded at once
+export const MAX_TRANSLATION_LANGUAGES = 12;
+
+export const MAX_TRANSLATION_LENGTH = 5000;
+
+export const getSurveyLanguage = (code: string | null | undefined): SurveyLanguage | undefined =>
+  SURVEY_LANGUAGES.find((language) => language.code === code);
+
+export const textDirection = (code: string | null | undefined): TextDirection =>
+  getSurveyLanguage(code)?.direction ?? "ltr";
+
+// Bookkeeping kept with each translation, keyed like TranslatableText keys
+interface TranslationTracking {
+  // Fingerprint of the source text each text was translated from; a
+  // different fingerprint means the source changed and the text is stale
+  sources?: Record<string, string>;
+  // Texts drafted by machine translation that nobody has reviewed yet
+  drafts?: string[];
+}
+
+// Texts of one question in one language; options are keyed by their canonical value
+export interface QuestionTranslation extends TranslationTracking {
+  question?: string;
+  helpText?: string;
+  scenarioText?: string;
+  options?: Record<string, string>;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+export type QuestionTranslations = Record<string, QuestionTranslation>;
+
+export interface SurveyContentTranslation extends TranslationTracking {
+  title?: string;
+  description?: string;
+  customWelcomeMessage?: string;
+  customCompletionMessage?: string;
+}
+
+export type TranslationEntry = QuestionTranslation | SurveyContentTranslation;
+
+export type SurveyContentTranslations = Record<string, SurveyContentTranslation>;
+
+export const SURVEY_CONTENT_FIELDS = ["title", "description", "customWelcomeMessage", "customCompletionMessage"] as const;
+
+export type SurveyContentField = typeof SURVEY_CONTENT_FIELDS[number];
+
+const translationText = z.string().trim().max(MAX_TRANSLATION_LENGTH);
+
+export const languageCodeSchema = z.enum(SURVEY_LANGUAGE_CODES as [string, ...string[]], {
+  errorMap: () => ({ message: "Unsupported language" }),
+});
+
+const trackingSchema = {
+  sources: z.record(z.string().max(16)).optional(),
+  drafts: z.array(z.string().max(200)).optional(),
+};
+
+export const questionTranslationSchema = z.object({
+  ...trackingSchema,
+  question: translationText.optional(),
+  helpText: translationText.optional(),
+  scenarioText: translationText.optional(),
+  options: z.record(translationText).optional(),
+  minLabel: translationText.optional(),
+  maxLabel: translationText.optional(),
+});
+
+export const surveyContentTranslationSchema = z.object({
+  ...trackingSchema,
+  title: translationText.optional(),
+  description: translationText.optional(),
+  customWelcomeMessage: translationText.optional(),
+  customCompletionMessage: translationText.optional(),
+});
+
+export const surveyTranslationsUpdateSchema = z.object({
+  // Languages offered besides the survey's own
+  languages: z.array(languageCodeSchema).max(MAX_TRANSLATION_LANGUAGES),
+  survey: z.record(languageCodeSchema, surveyContentTranslationSchema).default({}),
+  questions: z
+    .array(
+      z.object({
+        id: z.number().int().positive(),
+        translations: z.record(languageCodeSchema, questionTranslationSchema),
+      })
+    )
+    .default([]),
+});
+
+export type SurveyTranslationsUpdate = z.infer<typeof surveyTranslationsUpdateSchema>;
+
+// One translatable text of a question, e.g. "question" or "options.red"
+export interface TranslatableText {
+  key: string;
+  label: string;
+  source: string;
+}
+
+export interface TranslationEditorQuestion {
+  id: number;
+  order: number;
+  questionType: string;
+  texts: TranslatableText[];
+  translations: QuestionTranslations;
+}
+
+export interface SurveyTranslationsState {
+  surveyId: number;
+  sourceLanguage: string;
+  languages: string[];
+  // Languages respondents can choose; a subset of `languages`
+  published: string[];
+  // Completeness (percent) a language needs before it can be published
+  publishThreshold: number;
+  survey: { texts: TranslatableText[]; translations: SurveyContentTranslations };
+  questions: TranslationEditorQuestion[];
+}
+
+// Unless the platform settings say otherwise, 90% of a language's texts must be current to publish it
+export const DEFAULT_TRANSLATION_PUBLISH_THRESHOLD = 90;
+
+/**
+ * The publish threshold from systemSettings.general; missing or invalid values take the default
+ */
+export function resolveTranslationPublishThreshold(general: unknown): number {
+  const settings = parseJson(general);
+  const value = settings && typeof settings === "object"
+    ? Number((settings as Record<string, unknown>).translationPublishThreshold)
+    : NaN;
+  return Number.isFinite(value) && value >= 0 && value <= 100 ? Math.round(value) : DEFAULT_TRANSLATION_PUBLISH_THRESHOLD;
+}
+
+/**
+ * Short stable fingerprint of a source text (32-bit FNV-1a), stored next to a
+ * translation to notice when the source changes. Surrounding whitespace does not count.
+ */
+export function sourceFingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of text.trim()) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+const sliderLabels = (question: QuestionLike): { minLabel?: string; maxLabel?: string } => {
+  const config = parseJson(question.sliderConfig);
+  if (!config || typeof config !== "object") return {};
+  const { minLabel, maxLabel } = config as Record<string, unknown>;
+  return {
+    minLabel: typeof minLabel === "string" && minLabel.trim() ? minLabel : undefined,
+    maxLabel: typeof maxLabel === "string" && maxLabel.trim() ? maxLabel : undefined,
+  };
+};
+
+/**
+ * The texts of a question a translator has to provide, in display order
+ */
+export function questionTexts(question: QuestionLike & { helpText?: string | null }): TranslatableText[] {
+  const texts: TranslatableText[] = [];
+  const add = (key: string, label: string, source: string | null | undefined) => {
+    if (source && source.trim()) texts.push({ key, label, source });
+  };
+
+  add("question", "Question", question.question);
+  add("helpText", "Help text", question.helpText);
+  add("scenarioText", "Scenario", question.scenarioText);
+  parseChoiceOptions(question.options).forEach((option, index) => {
+    add(`options.${option.value}`, `Option ${index + 1}`, option.label);
+  });
+  const { minLabel, maxLabel } = sliderLabels(question);
+  add("minLabel", "Minimum label", minLabel);
+  add("maxLabel", "Maximum label", maxLabel);
+  return texts;
+}
+
+export function surveyTexts(survey: Partial<Record<SurveyContentField, string | null>>): TranslatableText[] {
+  const labels: Record<SurveyContentField, string> = {
+    title: "Title",
+    description: "Description",
+    customWelcomeMessage: "Welcome message",
+    customCompletionMessage: "Completion message",
+  };
+  return SURVEY_CONTENT_FIELDS
+    .filter((field) => !!survey[field]?.trim())
+    .map((field) => ({ key: field, label: labels[field], source: survey[field] as string }));
+}
+
+/**
+ * Read one text of a translation by its TranslatableText key
+ */
+export function translatedText(translation: TranslationEntry | undefined, key: string): string | undefined {
+  if (!translation) return undefined;
+  const text = key.startsWith("options.")
+    ? (translation as QuestionTranslation).options?.[key.slice("options.".length)]
+    : (translation as Record<string, unknown>)[key];
+  return typeof text === "string" && text.trim() ? text : undefined;
+}
+
+/**
+ * Set one text of a translation, recording the source it was translated
+ * from. Machine drafts are marked as such; anything else counts as reviewed.
+ */
+export function withTranslatedText<T extends TranslationEntry>(
+  translation: T | undefined,
+  text: TranslatableText,
+  value: string,
+  options: { draft?: boolean } = {}
+): T {
+  const next = { ...translation } as T & QuestionTranslation;
+  if (text.key.startsWith("options.")) {
+    next.options = { ...next.options, [text.key.slice("options.".length)]: value };
+  } else {
+    (next as Record<string, unknown>)[text.key] = value;
+  }
+  next.sources = { ...next.sources, [text.key]: sourceFingerprint(text.source) };
+  const drafts = (next.drafts ?? []).filter((key) => key !== text.key);
+  next.drafts = options.draft ? [...drafts, text.key] : drafts;
+  if (next.drafts.length === 0) delete next.drafts;
+  return next;
+}
+
+export type TranslationStatus = "missing" | "stale" | "draft" | "current";
+
+/**
+ * Whether a text is translated, and if so whether the translation still
+ * matches its source and has been reviewed. Translations saved before
+ * fingerprints were recorded count as current.
+ */
+export function translationStatus(translation: TranslationEntry | undefined, text: TranslatableText): TranslationStatus {
+  if (!translatedText(translation, text.key)) return "missing";
+  const fingerprint = translation?.sources?.[text.key];
+  if (fingerprint && fingerprint !== sourceFingerprint(text.source)) return "stale";
+  return translation?.drafts?.includes(text.key) ? "draft" : "current";
+}
+
+/**
+ * Keep only non-empty translations of texts that still exist, so removed
+ * options and cleared fields do not leave entries behind. Texts without a
+ * recorded source are stamped with the current one.
+ */
+export function pruneTranslation<T extends TranslationEntry>(texts: TranslatableText[], translation: T): T {
+  const pruned: QuestionTranslation = {};
+  const sources: Record<string, string> = {};
+  const drafts: string[] = [];
+  for (const text of texts) {
+    const value = translatedText(translation, text.key);
+    if (!value) continue;
+    if (text.key.startsWith("options.")) {
+      pruned.options = { ...pruned.options, [text.key.slice("options.".length)]: value };
+    } else {
+      (pruned as Record<string, unknown>)[text.key] = value;
+    }
+    sources[text.key] = translation.sources?.[text.key] ?? sourceFingerprint(text.source);
+    if (translation.drafts?.includes(text.key)) drafts.push(text.key);
+  }
+  if (Object.keys(sources).length > 0) pruned.sources = sources;
+  if (drafts.length > 0) pruned.drafts = drafts;
+  return pruned as T;
+}
+
+export const pruneQuestionTranslation = (
+  question: QuestionLike & { helpText?: string | null },
+  translation: QuestionTranslation
+): QuestionTranslation => pruneTranslation(questionTexts(question), translation);
+
+export interface TranslationProgress {
+  total: number;
+  current: number;
+  drafts: number;
+  stale: number;
+  missing: number;
+  // Share of texts with a reviewed, up-to-date translation
+  percentage: number;
+}
+
+/**
+ * How complete a language is over the survey and its questions. Only
+ * reviewed translations of the current source texts count as complete.
+ */
+export function translationProgress(
+  state: Pick<SurveyTranslationsState, "survey" | "questions">,
+  language: string
+): TranslationProgress {
+  const counts: Record<TranslationStatus, number> = { missing: 0, stale: 0, draft: 0, current: 0 };
+  state.survey.texts.forEach((text) => counts[translationStatus(state.survey.translations[language], text)]++);
+  state.questions.forEach((question) =>
+    question.texts.forEach((text) => counts[translationStatus(question.translations[language], text)]++)
+  );
+  const total = counts.missing + counts.stale + counts.draft + counts.current;
+  return {
+    total,
+    current: counts.current,
+    drafts: counts.draft,
+    stale: counts.stale,
+    missing: counts.missing,
+    percentage: total > 0 ? Math.floor((counts.current / total) * 100) : 100,
+  };
+}
+
+// A text of the survey (questionId null) or of a question that needs translating
+export interface PendingTranslation {
+  questionId: number | null;
+  text: TranslatableText;
+  status: TranslationStatus;
+}
+
+/**
+ * Texts of a language with no translation, and optionally those whose source
+ * changed since they were translated; reviewed and drafted texts are left alone
+ */
+export function pendingTranslations(
+  state: Pick<SurveyTranslationsState, "survey" | "questions">,
+  language: string,
+  options: { includeStale?: boolean } = {}
+): PendingTranslation[] {
+  const wanted = (status: TranslationStatus) => status === "missing" || (options.includeStale === true && status === "stale");
+  const pending: PendingTranslation[] = [];
+  state.survey.texts.forEach((text) => {
+    const status = translationStatus(state.survey.translations[language], text);
+    if (wanted(status)) pending.push({ questionId: null, text, status });
+  });
+  state.questions.forEach((question) =>
+    question.texts.forEach((text) => {
+      const status = translationStatus(question.translations[language], text);
+      if (wanted(status)) pending.push({ questionId: question.id, text, status });
+    })
+  );
+  return pending;
+}
+
+export const parseQuestionTranslations = (raw: unknown): QuestionTranslations => {
+  const value = parseJson(raw);
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as QuestionTranslations) : {};
+};
+
+export const parseSurveyContentTranslations = (raw: unknown): SurveyContentTranslations => {
+  const value = parseJson(raw);
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as SurveyContentTranslations) : {};
+};
+
+/**
+ * Languages a survey can be taken in: its own first, then the translations offered
+ */
+export function surveyLanguages(sourceLanguage: string | null | undefined, translationLanguages: unknown): string[] {
+  const source = sourceLanguage || DEFAULT_SURVEY_LANGUAGE;
+  const extra = Array.isArray(translationLanguages) ? translationLanguages.map(String) : [];
+  return [source, ...extra.filter((code) => code !== source && SURVEY_LANGUAGE_CODES.includes(code))];
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== "*" && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * Pick the first preferred language the survey is offered in, matching
+ * regional tags (pt-BR) on their base language; otherwise the survey's own
+ */
+export function negotiateLanguage(preferences: string[], available: string[], fallback: string): string {
+  for (const preference of preferences) {
+    const tag = preference.toLowerCase();
+    const base = tag.split(/[-_]/)[0];
+    const match = available.find((code) => code === tag) ?? available.find((code) => code === base);
+    if (match) return match;
+  }
+  return fallback;
+}
+
+// Language a survey is shown in, with the others the respondent can switch to
+export interface SurveyLanguageChoice {
+  code: string;
+  direction: TextDirection;
+  source: string;
+  available: string[];
+}
+
+/**
+ * Resolve the language for a respondent: the requested one when the survey is
+ * offered in it, else the best match from the browser's Accept-Language header.
+ * "auto" asks for the header alone.
+ */
+export function chooseSurveyLanguage(
+  requested: string | null | undefined,
+  acceptLanguage: string | null | undefined,
+  sourceLanguage: string | null | undefined,
+  translationLanguages: unknown
+): SurveyLanguageChoice {
+  const available = surveyLanguages(sourceLanguage, translationLanguages);
+  const preferences = [
+    ...(requested && requested !== "auto" ? [requested] : []),
+    ...parseAcceptLanguage(acceptLanguage),
+  ];
+  const code = negotiateLanguage(preferences, available, available[0]);
+  return { code, direction: textDirection(code), source: available[0], available };
+}
+
+/**
+ * The question as shown in `language`: texts replaced where translated,
+ * option values left as they are so answers stay canonical. String options
+ * become objects with the `opt_<index>` ID the questions endpoint gives them.
+ * Stale translations are left out until they are updated, so respondents
+ * never see a translation of an older wording.
+ */
+export function localizeQuestion<T extends QuestionLike & { helpText?: string | null }>(
+  question: T,
+  translations: QuestionTranslations,
+  language: string
+): T {
+  const translation = translations[language];
+  if (!translation) return question;
+
+  const usable = new Map<string, string>();
+  questionTexts(question).forEach((text) => {
+    const status = translationStatus(translation, text);
+    if (status === "current" || status === "draft") usable.set(text.key, translatedText(translation, text.key)!);
+  });
+  if (usable.size === 0) return question;
+
+  const localized: T = { ...question };
+  if (usable.has("question")) localized.question = usable.get("question");
+  if (usable.has("helpText")) localized.helpText = usable.get("helpText");
+  if (usable.has("scenarioText")) localized.scenarioText = usable.get("scenarioText");
+
+  const rawOptions = parseJson(question.options);
+  if (Array.isArray(rawOptions)) {
+    const parsed = parseChoiceOptions(rawOptions);
+    localized.options = rawOptions.map((option: any, index: number) => {
+      const label = parsed[index] ? usable.get(`options.${parsed[index].value}`) : undefined;
+      if (!label) return option;
+      // Keep the value the option was answered with before it was translated
+      return typeof option === "object" && option
+        ? { ...option, text: label, label, value: option.value ?? option.text ?? option.label ?? parsed[index].value }
+        : { id: `opt_${index}`, text: label, value: String(option) };
+    });
+  }
+
+  const sliderConfig = parseJson(question.sliderConfig);
+  if (sliderConfig && typeof sliderConfig === "object" && (usable.has("minLabel") || usable.has("maxLabel"))) {
+    localized.sliderConfig = {
+      ...(sliderConfig as object),
+      ...(usable.has("minLabel") ? { minLabel: usable.get("minLabel") } : {}),
+      ...(usable.has("maxLabel") ? { maxLabel: usable.get("maxLabel") } : {}),
+    };
+  }
+  return localized;
+}
+
+export function localizeSurveyContent<T extends Partial<Record<SurveyContentField, string | null>>>(
+  survey: T,
+  translations: SurveyContentTranslations,
+  language: string
+): T {
+  const translation = translations[language];
+  if (!translation) return survey;
+  const localized: T = { ...survey };
+  surveyTexts(survey).forEach((text) => {
+    const status = translationStatus(translation, text);
+    if (status === "current" || status === "draft") {
+      (localized as Record<string, unknown>)[text.key] = translatedText(translation, text.key);
+    }
+  });
+  return localized;
+}
+
+/**
+ * Replace option labels given in any translation with the option's canonical
+ * value, so analytics count an option once whatever language it was chosen in.
+ * Answers that are not option labels are returned unchanged.
+ */
+export function canonicalizeAnswer(question: QuestionLike, translations: QuestionTranslations, answer: unknown): unknown {
+  const options = parseChoiceOptions(question.options);
+  if (options.length === 0) return answer;
+
+  const byLabel = new Map<string, string>();
+  Object.values(translations).forEach((translation) => {
+    Object.entries(translation?.options ?? {}).forEach(([value, label]) => {
+      if (typeof label === "string" && label.trim() && options.some((option) => option.value === value)) {
+        byLabel.set(label.trim().toLowerCase(), value);
+      }
+    });
+  });
+  if (byLabel.size === 0) return answer;
+
+  const canonical = (token: unknown): unknown => {
+    const text = answerToken(token);
+    if (text === undefined || typeof token === "object" || findOption(options, text)) return token;
+    return byLabel.get(text.trim().toLowerCase()) ?? token;
+  };
+
+  const parsed = parseJson(answer);
+  return Array.isArray(parsed) ? parsed.map(canonical) : canonical(parsed);
+}
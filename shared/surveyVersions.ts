@@ -0,0 +1,292 @@
+// Immutable survey versions: snapshots of a survey's settings and questions,
+// and the structural diff between two of them
+import { z } from "zod";
+
+// Survey columns that belong to a version; everything else (status, counts,
+// quotas, admin fields) can change without a new version
+export const SNAPSHOT_SETTING_FIELDS = [
+  "title",
+  "description",
+  "surveyType",
+  "estimatedTime",
+  "customWelcomeMessage",
+  "customCompletionMessage",
+  "redirectUrl",
+  "allowAnonymous",
+  "requireEmail",
+  "collectDemographics",
+  "collectAge",
+  "collectGender",
+  "collectLocation",
+  "collectEducation",
+  "collectIncome",
+  "surveyLanguage",
+  "translationLanguages",
+  "publishedLanguages",
+  "translations",
+  "traitModel",
+] as const;
+
+export type SnapshotSettingField = typeof SNAPSHOT_SETTING_FIELDS[number];
+
+export type SurveySnapshotSettings = Partial<Record<SnapshotSettingField, unknown>>;
+
+export const SNAPSHOT_QUESTION_FIELDS = [
+  "question",
+  "questionType",
+  "required",
+  "helpText",
+  "order",
+  "options",
+  "customValidation",
+  "sliderConfig",
+  "scenarioText",
+  "displayLogic",
+  "translations",
+] as const;
+
+export type SnapshotQuestionField = typeof SNAPSHOT_QUESTION_FIELDS[number];
+
+export interface SnapshotQuestion {
+  // ID of the survey question the snapshot was taken from; matches questions across versions
+  id: number;
+  question: string;
+  questionType: string;
+  required: boolean | null;
+  helpText: string | null;
+  order: number;
+  options: unknown;
+  customValidation: string | null;
+  sliderConfig: unknown;
+  scenarioText: string | null;
+  displayLogic: unknown;
+  translations: unknown;
+}
+
+export interface SurveySnapshot {
+  settings: SurveySnapshotSettings;
+  questions: SnapshotQuestion[];
+}
+
+export const SURVEY_VERSION_STATUSES = ["draft", "published"] as const;
+
+export type SurveyVersionStatus = typeof SURVEY_VERSION_STATUSES[number];
+
+export const createSurveyVersionSchema = z.object({
+  name: z.string().trim().max(120).optional(),
+  description: z.string().trim().max(1000).optional(),
+});
+
+// A version as listed for the version history, without its snapshot
+export interface SurveyVersionSummary {
+  id: number;
+  surveyId: number;
+  versionNumber: number;
+  status: SurveyVersionStatus;
+  name: string;
+  description: string | null;
+  questionCount: number;
+  createdBy: { id: number; username: string } | null;
+  restoredFromVersionId: number | null;
+  // The published version new responses are recorded against
+  isCurrent: boolean;
+  responseCount: number;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+export interface SurveyVersionDetail extends SurveyVersionSummary {
+  snapshot: SurveySnapshot;
+}
+
+/**
+ * Copy the versioned parts of a survey row and its questions
+ */
+export function buildSurveySnapshot(
+  survey: Record<string, any>,
+  questions: Array<Record<string, any>>
+): SurveySnapshot {
+  const settings: SurveySnapshotSettings = {};
+  SNAPSHOT_SETTING_FIELDS.forEach((field) => {
+    settings[field] = survey[field] ?? null;
+  });
+
+  return {
+    settings,
+    questions: [...questions]
+      .sort((a, b) => a.order - b.order || a.id - b.id)
+      .map((question) => ({
+        id: question.id,
+        question: question.question,
+        questionType: question.questionType,
+        required: question.required ?? null,
+        helpText: question.helpText ?? null,
+        order: question.order,
+        options: question.options ?? null,
+        customValidation: question.customValidation ?? null,
+        sliderConfig: question.sliderConfig ?? null,
+        scenarioText: question.scenarioText ?? null,
+        displayLogic: question.displayLogic ?? null,
+        translations: question.translations ?? null,
+      })),
+  };
+}
+
+// JSON with sorted object keys, so equal values compare equal however they were stored
+function canonical(value: unknown): string {
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed !== null && typeof parsed === "object") return canonical(parsed);
+    } catch {
+      // Plain string
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+export function snapshotsEqual(a: SurveySnapshot, b: SurveySnapshot): boolean {
+  return sameValue(a, b);
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface OptionChange {
+  kind: "added" | "removed" | "changed";
+  key: string;
+  label: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface QuestionChange {
+  kind: "added" | "removed" | "changed";
+  questionId: number;
+  order: number;
+  question: string;
+  // For changed questions: the fields that differ (options are listed separately)
+  fields: FieldChange[];
+  options: OptionChange[];
+}
+
+export interface SurveyVersionDiff {
+  fromVersionId: number;
+  toVersionId: number;
+  settings: FieldChange[];
+  questions: QuestionChange[];
+  summary: {
+    settingsChanged: number;
+    questionsAdded: number;
+    questionsRemoved: number;
+    questionsChanged: number;
+  };
+}
+
+const parseList = (value: unknown): unknown[] => {
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+};
+
+// Key and label of an editor option, which may be a bare string
+function describeOption(option: unknown, index: number): { key: string; label: string } {
+  if (option && typeof option === "object") {
+    const { id, value, text, label } = option as Record<string, unknown>;
+    const key = String(id ?? value ?? text ?? `opt_${index}`);
+    return { key, label: String(text ?? label ?? value ?? key) };
+  }
+  return { key: String(option), label: String(option) };
+}
+
+export function diffOptions(before: unknown, after: unknown): OptionChange[] {
+  const describe = (list: unknown[]) => new Map(list.map((option, index) => [describeOption(option, index).key, { option, ...describeOption(option, index) }]));
+  const oldOptions = describe(parseList(before));
+  const newOptions = describe(parseList(after));
+  const changes: OptionChange[] = [];
+
+  oldOptions.forEach((entry, key) => {
+    const next = newOptions.get(key);
+    if (!next) {
+      changes.push({ kind: "removed", key, label: entry.label, before: entry.option });
+    } else if (!sameValue(entry.option, next.option)) {
+      changes.push({ kind: "changed", key, label: next.label, before: entry.option, after: next.option });
+    }
+  });
+  newOptions.forEach((entry, key) => {
+    if (!oldOptions.has(key)) changes.push({ kind: "added", key, label: entry.label, after: entry.option });
+  });
+  return changes;
+}
+
+/**
+ * Structural differences between two snapshots: changed settings, and
+ * questions added, removed or changed (matched by question ID).
+ */
+export function diffSurveySnapshots(
+  from: SurveySnapshot,
+  to: SurveySnapshot,
+  ids: { fromVersionId: number; toVersionId: number }
+): SurveyVersionDiff {
+  const settings = SNAPSHOT_SETTING_FIELDS
+    .filter((field) => !sameValue(from.settings[field], to.settings[field]))
+    .map((field) => ({ field, before: from.settings[field] ?? null, after: to.settings[field] ?? null }));
+
+  const oldQuestions = new Map(from.questions.map((question) => [question.id, question]));
+  const newQuestions = new Map(to.questions.map((question) => [question.id, question]));
+  const questions: QuestionChange[] = [];
+
+  to.questions.forEach((question) => {
+    const previous = oldQuestions.get(question.id);
+    if (!previous) {
+      questions.push({ kind: "added", questionId: question.id, order: question.order, question: question.question, fields: [], options: [] });
+      return;
+    }
+    const fields = SNAPSHOT_QUESTION_FIELDS
+      .filter((field) => field !== "options" && !sameValue(previous[field], question[field]))
+      .map((field) => ({ field, before: previous[field] ?? null, after: question[field] ?? null }));
+    const options = diffOptions(previous.options, question.options);
+    if (fields.length > 0 || options.length > 0) {
+      questions.push({ kind: "changed", questionId: question.id, order: question.order, question: question.question, fields, options });
+    }
+  });
+  from.questions.forEach((question) => {
+    if (!newQuestions.has(question.id)) {
+      questions.push({ kind: "removed", questionId: question.id, order: question.order, question: question.question, fields: [], options: [] });
+    }
+  });
+
+  return {
+    ...ids,
+    settings,
+    questions,
+    summary: {
+      settingsChanged: settings.length,
+      questionsAdded: questions.filter((change) => change.kind === "added").length,
+      questionsRemoved: questions.filter((change) => change.kind === "removed").length,
+      questionsChanged: questions.filter((change) => change.kind === "changed").length,
+    },
+  };
+}
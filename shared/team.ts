@@ -0,0 +1,140 @@
+// Company teams: the roles a company gives its members, invitations into the
+// workspace and how many seats the company's license leaves
+import { z } from "zod";
+
+// Team roles and the user role each one grants
+export const TEAM_ROLES = {
+  owner: "business_owner",
+  analyst: "business_analyst",
+  viewer: "report_viewer",
+} as const;
+
+export type TeamRole = keyof typeof TEAM_ROLES;
+
+export const TEAM_ROLE_NAMES = Object.keys(TEAM_ROLES) as TeamRole[];
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Owner",
+  analyst: "Analyst",
+  viewer: "Viewer",
+};
+
+// The team role of a user role, or null for roles the team page does not assign
+export const teamRoleOf = (role: string | null | undefined): TeamRole | null =>
+  TEAM_ROLE_NAMES.find((name) => TEAM_ROLES[name] === role) ?? null;
+
+export const isOwnerRole = (role: string | null | undefined): boolean => role === TEAM_ROLES.owner;
+
+// Invitations can be accepted for this many days
+export const INVITATION_TTL_DAYS = 7;
+
+export const INVITATION_STATUSES = ["pending", "accepted", "expired", "revoked"] as const;
+
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+// A pending invitation past its expiry counts as expired even before it is marked so
+export const invitationStatus = (
+  invitation: { status: string; expiresAt: Date | string },
+  now = new Date()
+): InvitationStatus => {
+  if (invitation.status === "pending" && new Date(invitation.expiresAt).getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return invitation.status as InvitationStatus;
+};
+
+const teamRole = z.enum(TEAM_ROLE_NAMES as [TeamRole, ...TeamRole[]]);
+
+export const teamInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address").max(254),
+  role: teamRole.default("viewer"),
+});
+
+export type TeamInvitationInput = z.infer<typeof teamInvitationSchema>;
+
+export const teamRoleChangeSchema = z.object({
+  role: teamRole,
+});
+
+export const acceptInvitationSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Usernames need at least 3 characters")
+    .max(50)
+    .regex(/^[a-zA-Z0-9._-]+$/, "Use letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Passwords need at least 8 characters").max(200),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+
+export interface SeatUsage {
+  // Null when the company's seats are unlimited
+  limit: number | null;
+  members: number;
+  pendingInvitations: number;
+  available: number | null;
+}
+
+/**
+ * Seats a company uses: its active members plus the invitations that can
+ * still be accepted, which hold a seat until they are accepted, revoked or
+ * expire. A limit of null or below zero means unlimited.
+ */
+export function seatUsage(limit: number | null | undefined, members: number, pendingInvitations: number): SeatUsage {
+  const seats = limit === null || limit === undefined || limit < 0 ? null : limit;
+  return {
+    limit: seats,
+    members,
+    pendingInvitations,
+    available: seats === null ? null : Math.max(0, seats - members - pendingInvitations),
+  };
+}
+
+export interface TeamMember {
+  id: number;
+  username: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  // Null for roles outside the team roles, e.g. admins set up by the platform
+  teamRole: TeamRole | null;
+  lastLogin: string | null;
+  createdAt: string;
+  surveyCount: number;
+}
+
+export interface TeamInvitation {
+  id: number;
+  email: string;
+  role: TeamRole | null;
+  status: InvitationStatus;
+  invitedBy: number;
+  inviterName: string | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+}
+
+export interface TeamOverview {
+  companyId: number;
+  companyName: string;
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  seats: SeatUsage;
+  canInvite: boolean;
+  canManage: boolean;
+}
+
+// What the accept page shows before the invitee creates their account
+export interface InvitationPreview {
+  email: string;
+  companyName: string;
+  role: TeamRole | null;
+  inviterName: string | null;
+  expiresAt: string;
+  status: InvitationStatus;
+}
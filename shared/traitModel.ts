@@ -0,0 +1,198 @@
+// Trait model definitions shared by the survey editor, scoring and exports
+import { z } from "zod";
+import type { PersonalityTrait } from "./schema";
+
+// Trait categories, matching the groups used for trait descriptions in the UI
+export const TRAIT_CATEGORIES = [
+  "cognitive",
+  "behavioral",
+  "financial",
+  "personality",
+  "social",
+  "professional",
+  "emotional",
+  "digital",
+  "consumer",
+  "learning",
+  "creative",
+  "leadership",
+  "wellness",
+  "ethical",
+  "risk",
+] as const;
+
+export type TraitCategory = typeof TRAIT_CATEGORIES[number];
+
+export const MAX_TRAITS_PER_MODEL = 12;
+
+export interface TraitDefinition {
+  name: string;
+  category: TraitCategory;
+  description?: string;
+}
+
+export type TraitModel = TraitDefinition[];
+
+// The five traits every survey measured before trait models were configurable
+export const DEFAULT_TRAIT_MODEL: TraitModel = [
+  { name: "Innovation", category: "behavioral" },
+  { name: "Analytical Thinking", category: "cognitive" },
+  { name: "Leadership", category: "social" },
+  { name: "Adaptability", category: "behavioral" },
+  { name: "Creativity", category: "cognitive" },
+];
+
+// Named traits offered as suggestions when building a trait model
+export const TRAIT_LIBRARY: TraitModel = [
+  ...DEFAULT_TRAIT_MODEL,
+  { name: "Strategic Planning", category: "cognitive" },
+  { name: "Information Processing", category: "cognitive" },
+  { name: "Creative Problem Solving", category: "creative" },
+  { name: "Pattern Recognition", category: "cognitive" },
+  { name: "Value Consciousness", category: "financial" },
+  { name: "Price Sensitivity", category: "financial" },
+  { name: "Long-term Financial Planning", category: "financial" },
+  { name: "Resource Optimization", category: "financial" },
+  { name: "Decision Style", category: "behavioral" },
+  { name: "Risk Tolerance", category: "risk" },
+  { name: "Experimentation Comfort", category: "risk" },
+  { name: "Digital Fluency", category: "digital" },
+  { name: "Technology Adoption", category: "digital" },
+  { name: "Digital Content Preferences", category: "digital" },
+  { name: "Online Privacy Concerns", category: "digital" },
+  { name: "Brand Loyalty", category: "consumer" },
+  { name: "Quality Prioritization", category: "consumer" },
+  { name: "Trust Sensitivity", category: "consumer" },
+  { name: "Prestige Orientation", category: "consumer" },
+  { name: "Emotional Intelligence", category: "emotional" },
+  { name: "Interpersonal Communication", category: "social" },
+  { name: "Conflict Management", category: "emotional" },
+  { name: "Social Awareness", category: "social" },
+  { name: "Openness", category: "personality" },
+  { name: "Conscientiousness", category: "personality" },
+  { name: "Extraversion", category: "personality" },
+  { name: "Agreeableness", category: "personality" },
+  { name: "Neuroticism", category: "personality" },
+  { name: "Leadership Style", category: "leadership" },
+  { name: "Team Dynamics", category: "leadership" },
+  { name: "Decision Authority", category: "leadership" },
+  { name: "Delegation Comfort", category: "leadership" },
+  { name: "Learning Style", category: "learning" },
+  { name: "Cultural Appreciation", category: "learning" },
+  { name: "Experiential Preferences", category: "learning" },
+];
+
+export const traitDefinitionSchema = z.object({
+  name: z.string().trim().min(1, "Trait name is required").max(60),
+  category: z.enum(TRAIT_CATEGORIES),
+  description: z.string().trim().max(300).optional(),
+});
+
+export const traitModelSchema = z
+  .array(traitDefinitionSchema)
+  .min(1, "A trait model needs at least one trait")
+  .max(MAX_TRAITS_PER_MODEL, `A trait model can have at most ${MAX_TRAITS_PER_MODEL} traits`)
+  .refine(
+    (traits) => new Set(traits.map((t) => t.name.toLowerCase())).size === traits.length,
+    { message: "Trait names must be unique" }
+  );
+
+const isTraitCategory = (value: unknown): value is TraitCategory =>
+  typeof value === "string" && (TRAIT_CATEGORIES as readonly string[]).includes(value);
+
+/**
+ * Turn a stored trait model into definitions. Accepts the current object form and
+ * the legacy list of trait names kept on templates; anything unusable falls back
+ * to the default model.
+ */
+export function resolveTraitModel(raw: unknown): TraitModel {
+  if (!Array.isArray(raw) || raw.length === 0) return DEFAULT_TRAIT_MODEL;
+
+  const seen = new Set<string>();
+  const traits: TraitModel = [];
+  for (const item of raw) {
+    const name = typeof item === "string" ? item.trim() : typeof item?.name === "string" ? item.name.trim() : "";
+    if (!name || seen.has(name.toLowerCase())) continue;
+
+    const known = TRAIT_LIBRARY.find((t) => t.name.toLowerCase() === name.toLowerCase());
+    const category = isTraitCategory(item?.category) ? item.category : known?.category ?? "personality";
+    const description = typeof item?.description === "string" && item.description ? item.description : undefined;
+
+    seen.add(name.toLowerCase());
+    traits.push(description ? { name, category, description } : { name, category });
+  }
+
+  return traits.length > 0 ? traits.slice(0, MAX_TRAITS_PER_MODEL) : DEFAULT_TRAIT_MODEL;
+}
+
+/**
+ * Map raw trait scores onto a model: one entry per model trait, in model order,
+ * scores clamped to 0-100 and missing traits defaulted to 50. Names match
+ * case-insensitively; traits outside the model are dropped.
+ */
+export function normalizeTraitScores(model: TraitModel, raw: unknown): PersonalityTrait[] {
+  const scores = new Map<string, number>();
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      const name = typeof item?.name === "string" ? item.name.trim().toLowerCase() : "";
+      const score = parseInt(item?.score ?? 0);
+      if (name) scores.set(name, Math.max(0, Math.min(100, isNaN(score) ? 0 : score)));
+    }
+  }
+
+  return model.map((trait) => ({
+    name: trait.name,
+    category: trait.category,
+    score: scores.get(trait.name.toLowerCase()) ?? 50,
+  }));
+}
+
+/**
+ * Average trait scores across responses, one entry per model trait
+ */
+export function summarizeTraitScores(model: TraitModel, responseTraits: unknown[]): PersonalityTrait[] {
+  const totals = model.map(() => ({ sum: 0, count: 0 }));
+
+  for (const raw of responseTraits) {
+    if (!Array.isArray(raw)) continue;
+    model.forEach((trait, index) => {
+      const match = raw.find(
+        (t: any) => typeof t?.name === "string" && t.name.trim().toLowerCase() === trait.name.toLowerCase()
+      );
+      const score = Number(match?.score);
+      if (match && Number.isFinite(score)) {
+        totals[index].sum += score;
+        totals[index].count++;
+      }
+    });
+  }
+
+  return model.map((trait, index) => ({
+    name: trait.name,
+    category: trait.category,
+    score: totals[index].count > 0 ? Math.round(totals[index].sum / totals[index].count) : 0,
+  }));
+}
+
+// Per-trait weights carried by an answer option or a slider, keyed by trait name
+export type TraitWeights = Record<string, number>;
+
+// Weights run from -TRAIT_WEIGHT_LIMIT (counts against a trait) to +TRAIT_WEIGHT_LIMIT
+export const TRAIT_WEIGHT_LIMIT = 5;
+
+/**
+ * Keep only usable weights: finite, non-zero, clamped to the weight limit.
+ * Returns undefined when nothing is left so empty maps are not stored.
+ */
+export function cleanTraitWeights(raw: unknown): TraitWeights | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+
+  const weights: TraitWeights = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    const weight = Number(value);
+    if (!name.trim() || !Number.isFinite(weight) || weight === 0) continue;
+    weights[name.trim()] = Math.max(-TRAIT_WEIGHT_LIMIT, Math.min(TRAIT_WEIGHT_LIMIT, weight));
+  }
+
+  return Object.keys(weights).length > 0 ? weights : undefined;
+}
@@ -0,0 +1,158 @@
+// Two-factor authentication: TOTP enrollment, recovery codes, remembered
+// devices and who the platform requires to use it (systemSettings.security)
+import { z } from "zod";
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// Codes from one step before or after the current one are accepted for clock drift
+export const TOTP_DRIFT_STEPS = 1;
+export const TOTP_ISSUER = "PersonalysisPro";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// The second login step has to be finished within this time
+export const LOGIN_CHALLENGE_TTL_MINUTES = 5;
+
+// Invalid codes a user may enter in a row before their two-factor checks lock.
+// The first lock lasts a minute; each further invalid code doubles it, up to an hour.
+export const TWO_FACTOR_MAX_FAILED_ATTEMPTS = 5;
+export const TWO_FACTOR_LOCKOUT_MINUTES = 1;
+export const TWO_FACTOR_MAX_LOCKOUT_MINUTES = 60;
+
+// How long two-factor checks lock after this many invalid codes in a row; 0 below the limit
+export function twoFactorLockoutMinutes(failedAttempts: number): number {
+  if (failedAttempts < TWO_FACTOR_MAX_FAILED_ATTEMPTS) return 0;
+  return Math.min(
+    TWO_FACTOR_MAX_LOCKOUT_MINUTES,
+    TWO_FACTOR_LOCKOUT_MINUTES * 2 ** (failedAttempts - TWO_FACTOR_MAX_FAILED_ATTEMPTS)
+  );
+}
+
+export const challengeExpiresAt = (issuedAt: number) =>
+  new Date(issuedAt + LOGIN_CHALLENGE_TTL_MINUTES * 60 * 1000);
+
+export const isChallengeExpired = (issuedAt: number, now: Date) =>
+  challengeExpiresAt(issuedAt).getTime() <= now.getTime();
+
+export const TRUSTED_DEVICE_COOKIE = "ppro_trusted_device";
+
+export const TWO_FACTOR_ENFORCEMENTS = ["optional", "admins", "all"] as const;
+
+export type TwoFactorEnforcement = typeof TWO_FACTOR_ENFORCEMENTS[number];
+
+export const TWO_FACTOR_ENFORCEMENT_LABELS: Record<TwoFactorEnforcement, string> = {
+  optional: "Optional for everyone",
+  admins: "Required for platform staff",
+  all: "Required for everyone",
+};
+
+// Platform roles that can see every company's data
+export const PLATFORM_STAFF_ROLES = ["platform_admin", "admin", "platform_support", "platform_billing"] as const;
+
+export interface TwoFactorPolicy {
+  enforcement: TwoFactorEnforcement;
+  // Further roles that must use two-factor authentication
+  requiredRoles: string[];
+  // 0 turns "remember this device" off
+  trustedDeviceDays: number;
+}
+
+export const DEFAULT_TWO_FACTOR_POLICY: TwoFactorPolicy = {
+  enforcement: "admins",
+  requiredRoles: [],
+  trustedDeviceDays: 30,
+};
+
+// The policy keys stored in systemSettings.security next to the other security settings
+const securitySettingsSchema = z.object({
+  mfaEnforcement: z.enum(TWO_FACTOR_ENFORCEMENTS).optional().catch(undefined),
+  mfaRequiredRoles: z.array(z.string()).optional().catch(undefined),
+  mfaTrustedDeviceDays: z.coerce.number().int().min(0).max(365).optional().catch(undefined),
+}).passthrough();
+
+/**
+ * The two-factor policy from the stored security settings; missing or invalid
+ * keys take the default, so platform staff always need a second factor unless
+ * an admin relaxes it
+ */
+export function resolveTwoFactorPolicy(security: unknown): TwoFactorPolicy {
+  let value = security;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = {};
+    }
+  }
+  const parsed = securitySettingsSchema.safeParse(value ?? {});
+  const settings = parsed.success ? parsed.data : {};
+  return {
+    enforcement: settings.mfaEnforcement ?? DEFAULT_TWO_FACTOR_POLICY.enforcement,
+    requiredRoles: settings.mfaRequiredRoles ?? DEFAULT_TWO_FACTOR_POLICY.requiredRoles,
+    trustedDeviceDays: settings.mfaTrustedDeviceDays ?? DEFAULT_TWO_FACTOR_POLICY.trustedDeviceDays,
+  };
+}
+
+export function isTwoFactorRequired(policy: TwoFactorPolicy, role: string | null | undefined): boolean {
+  if (policy.enforcement === "all") return true;
+  if (!role) return false;
+  if (policy.enforcement === "admins" && (PLATFORM_STAFF_ROLES as readonly string[]).includes(role)) return true;
+  return policy.requiredRoles.includes(role);
+}
+
+// Recovery codes are shown as xxxxx-xxxxx; spaces, dashes and case do not matter when entered
+export const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, "");
+
+export const isTotpCode = (code: string) => new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ""));
+
+const codeSchema = z.string().trim().min(1, "Enter a code").max(32);
+
+export const twoFactorCodeSchema = z.object({
+  code: codeSchema,
+});
+
+export const twoFactorLoginSchema = z.object({
+  code: codeSchema,
+  rememberDevice: z.boolean().default(false),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+  code: codeSchema,
+});
+
+export interface TrustedDevice {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enrolledAt: string | null;
+  // Whether the policy requires it for this user, who then cannot turn it off
+  required: boolean;
+  enrollmentPending: boolean;
+  recoveryCodesRemaining: number;
+  trustedDeviceDays: number;
+  trustedDevices: TrustedDevice[];
+}
+
+// What the authenticator app needs; the secret is shown for manual entry
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+// Sent instead of the user when the password was right but a second step is needed
+export interface TwoFactorChallenge {
+  status: "two_factor_required";
+  message: string;
+  // The user has to set up an authenticator before signing in
+  enrollmentRequired: boolean;
+  expiresAt: string;
+}
@@ -0,0 +1,222 @@
+// Outbound webhooks: the lifecycle events a company can subscribe to, the
+// payload envelope they receive and how failed deliveries are retried
+import { z } from "zod";
+
+// Tracked events that are delivered to webhook subscribers (see server/middleware/event-tracker.ts)
+export const WEBHOOK_EVENTS = [
+  "SURVEY_CREATED",
+  "SURVEY_UPDATED",
+  "SURVEY_PUBLISHED",
+  "SURVEY_DELETED",
+  "RESPONSE_SUBMITTED",
+  "AI_JOB_STARTED",
+  "AI_JOB_COMPLETED",
+  "AI_JOB_FAILED",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent only by the test-ping button, whatever events a subscription has
+export const WEBHOOK_PING_EVENT = "PING";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  SURVEY_CREATED: "Survey created",
+  SURVEY_UPDATED: "Survey updated",
+  SURVEY_PUBLISHED: "Survey published",
+  SURVEY_DELETED: "Survey deleted",
+  RESPONSE_SUBMITTED: "Response submitted",
+  AI_JOB_STARTED: "AI job started",
+  AI_JOB_COMPLETED: "AI job completed",
+  AI_JOB_FAILED: "AI job failed",
+};
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+// Request headers; the signature is an HMAC-SHA256 of `${body}.${timestamp}` with the subscription secret
+export const WEBHOOK_HEADERS = {
+  signature: "X-Webhook-Signature",
+  timestamp: "X-Webhook-Timestamp",
+  event: "X-Webhook-Event",
+  delivery: "X-Webhook-Delivery",
+} as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Deliveries are attempted at most this many times before they stay failed
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+// First retry after a minute, doubling with every further attempt up to six hours
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt of a delivery that has failed `attempts` times,
+ * or null once it has used up its attempts
+ */
+export function webhookRetryDelay(attempts: number): number | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return null;
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// The JSON body every subscriber receives
+export interface WebhookEnvelope {
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_PING_EVENT;
+  companyId: number;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+// IPv4 ranges a webhook may never reach: this host, private networks, link-local (cloud metadata), multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// Expand an IPv6 address into its eight 16-bit groups, or null when it is not one
+function parseIpv6(address: string): number[] | null {
+  let text = address.split("%")[0].toLowerCase();
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const v4 = parseIpv4(embedded[2]);
+    if (v4 === null) return null;
+    text = `${embedded[1]}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet. Unparseable input counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const v4 = parseIpv4(address);
+  if (v4 !== null) {
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+      return ((v4 & mask) >>> 0) === ((parseIpv4(base)! & mask) >>> 0);
+    });
+  }
+
+  const v6 = parseIpv6(address);
+  if (!v6) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 address
+  const mapped = v6.slice(0, 5).every((group) => group === 0) && v6[5] === 0xffff;
+  const nat64 = v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) {
+    return isPrivateAddress(`${v6[6] >>> 8}.${v6[6] & 0xff}.${v6[7] >>> 8}.${v6[7] & 0xff}`);
+  }
+  if (v6.slice(0, 7).every((group) => group === 0) && v6[7] <= 1) return true; // :: and ::1
+  return (v6[0] & 0xfe00) === 0xfc00 // unique local fc00::/7
+    || (v6[0] & 0xffc0) === 0xfe80 // link-local fe80::/10
+    || (v6[0] & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+/**
+ * Whether a URL host names this machine or a non-public IP literal. Host
+ * names are resolved and checked again on the server before every request.
+ */
+export function isBlockedWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  if (parseIpv4(host) !== null || host.includes(":")) return isPrivateAddress(host);
+  return false;
+}
+
+const webhookHostname = (value: string): string | null => {
+  try {
+    return new URL(value).hostname;
+  } catch {
+    return null;
+  }
+};
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .url("Enter a valid URL")
+  .refine((value) => /^https?:\/\//i.test(value), "Webhook URLs must use http or https")
+  .refine((value) => {
+    const hostname = webhookHostname(value);
+    return hostname === null || !isBlockedWebhookHost(hostname);
+  }, "Webhook URLs must point to a public address");
+
+export const createWebhookSubscriptionSchema = z.object({
+  url: webhookUrl,
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+  active: z.boolean().optional(),
+});
+
+export const updateWebhookSubscriptionSchema = createWebhookSubscriptionSchema.partial();
+
+export type CreateWebhookSubscription = z.infer<typeof createWebhookSubscriptionSchema>;
+
+// A subscription as shown in the dashboard; the secret is only revealed when it is created or rotated
+export interface WebhookSubscriptionSummary {
+  id: number;
+  companyId: number;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  active: boolean;
+  secretHint: string;
+  createdAt: string;
+  updatedAt: string;
+  lastDelivery: { status: WebhookDeliveryStatus; createdAt: string } | null;
+}
+
+export interface WebhookDeliveryAttemptSummary {
+  id: number;
+  attemptNumber: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface WebhookDeliverySummary {
+  id: number;
+  subscriptionId: number;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  replayOfId: number | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryDetail extends WebhookDeliverySummary {
+  payload: WebhookEnvelope;
+  attemptLog: WebhookDeliveryAttemptSummary[];
+}
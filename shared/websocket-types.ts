@@ -1,4 +1,6 @@
 // WebSocket Message Types
+import type { SurveyQuotaReport } from './quotas';
+import type { CollaborationWorkspace } from './collaborationOps';
 
 // Base message interface
 export interface WebSocketMessage {
@@ -61,6 +63,15 @@ export interface SurveyResponseReceivedData extends WebSocketMessage {
   timestamp: string;
 }
 
+// Quota fill levels changed (a response was saved or a quota plan edited)
+export interface QuotaUpdateData extends WebSocketMessage {
+  type: 'quotaUpdate';
+  surveyId: number;
+  companyId?: number;
+  report: SurveyQuotaReport;
+  timestamp: string;
+}
+
 // Connection message
 export interface ConnectionMessage extends WebSocketMessage {
   type: 'connection';
@@ -89,10 +100,8 @@ export interface CollaborationConnectionSuccessMessage extends WebSocketMessage
 export interface CollaborationSyncMessage extends WebSocketMessage {
   type: 'collaborationSync';
   sessionId: number;
-  document: {
-    content: string;
-    version: number;
-  };
+  // Survey being edited, with its field versions and locks; null if it could not be loaded
+  workspace: CollaborationWorkspace | null;
   participants: Array<{
     userId: number;
     username: string;
@@ -106,7 +115,7 @@ export interface CollaborationSyncMessage extends WebSocketMessage {
     username: string;
     text: string;
     createdAt: string;
-    position: number;
+    questionId: number | null;
     resolved: boolean;
     resolvedAt?: string;
     resolvedBy?: number;
@@ -118,19 +127,15 @@ export interface CollaborationSyncMessage extends WebSocketMessage {
 export interface CollaborationUserData extends WebSocketMessage {
   type: 'collaborationUpdate';
   action: 'join' | 'leave' | 'update' | 'sync' 
-        | 'ADD_QUESTION' | 'UPDATE_QUESTION' | 'DELETE_QUESTION'
-        | 'ADD_QUESTION_OPTION' | 'UPDATE_QUESTION_OPTION' | 'DELETE_QUESTION_OPTION'
-        | 'LOCK_ELEMENT' | 'UNLOCK_ELEMENT'
         | 'CREATE_VERSION' | 'SWITCH_VERSION'
         | 'REQUEST_REVIEW' | 'SUBMIT_REVIEW'
         | 'NOTIFICATION';
   entityId: number; // sessionId
   userId: number;
   changes?: Array<{
-    field: 'cursor' | 'status' | 'change' | 'comment' | 'resolveComment' | 'participant'
-         | 'addQuestion' | 'updateQuestion' | 'deleteQuestion'
-         | 'addQuestionOption' | 'updateQuestionOption' | 'deleteQuestionOption'
-         | 'lockElement' | 'unlockElement'
+    // operation: an AppliedOperation; locks: every active ElementLock (see shared/collaborationOps.ts)
+    field: 'cursor' | 'status' | 'comment' | 'resolveComment' | 'participant'
+         | 'operation' | 'locks'
          | 'createVersion' | 'switchVersion'
          | 'requestReview' | 'submitReview'
          | 'notification';
@@ -157,6 +162,7 @@ export type WebSocketMessageTypes =
   | SystemUpdateData
   | SurveyAnalyticsUpdateData
   | SurveyResponseReceivedData
+  | QuotaUpdateData
   | ConnectionMessage
   | CollaborationJoinMessage
   | CollaborationConnectionSuccessMessage
@@ -0,0 +1,125 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  ReviewPolicy,
+  approvalWorkflowSchema,
+  decisionBlocker,
+  evaluateReview,
+  isApproverRole,
+  requiredReviewersFor,
+  reviewDecisionSchema
+} from '../../shared/approvals';
+import { approvalService } from '../../server/services/approval-service';
+import { surveyVersionService } from '../../server/services/survey-version-service';
+
+const policy = (overrides: Partial<ReviewPolicy> = {}): ReviewPolicy => ({
+  status: 'pending',
+  requestedBy: 1,
+  reviewerIds: [2, 3, 4],
+  requiredReviewerIds: [2, 3],
+  requiredApprovals: 2,
+  allowSelfApproval: false,
+  ...overrides
+});
+
+describe('Approvals', () => {
+  it('waits for every required reviewer and enough approvals', () => {
+    expect(evaluateReview(policy(), [])).toBe('pending');
+    expect(evaluateReview(policy(), [{ reviewerId: 2, decision: 'approved' }])).toBe('pending');
+    // Two approvals, but required reviewer 3 has not approved yet
+    expect(evaluateReview(policy(), [
+      { reviewerId: 2, decision: 'approved' },
+      { reviewerId: 4, decision: 'approved' }
+    ])).toBe('pending');
+    expect(evaluateReview(policy(), [
+      { reviewerId: 2, decision: 'approved' },
+      { reviewerId: 3, decision: 'approved' }
+    ])).toBe('approved');
+  });
+
+  it('counts approvals from optional reviewers towards the required number', () => {
+    const review = policy({ requiredReviewerIds: [2], requiredApprovals: 3 });
+    expect(evaluateReview(review, [
+      { reviewerId: 2, decision: 'approved' },
+      { reviewerId: 3, decision: 'approved' }
+    ])).toBe('pending');
+    expect(evaluateReview(review, [
+      { reviewerId: 2, decision: 'approved' },
+      { reviewerId: 3, decision: 'approved' },
+      { reviewerId: 9, decision: 'approved' }
+    ])).toBe('approved');
+  });
+
+  it('rejects a review as soon as anyone rejects it', () => {
+    expect(evaluateReview(policy(), [
+      { reviewerId: 2, decision: 'approved' },
+      { reviewerId: 4, decision: 'rejected' }
+    ])).toBe('rejected');
+  });
+
+  it('leaves the requester out of the required reviewers unless self-approval is allowed', () => {
+    expect(requiredReviewersFor({ reviewerIds: [1, 2, 2], allowSelfApproval: false }, 1)).toEqual([2]);
+    expect(requiredReviewersFor({ reviewerIds: [1, 2], allowSelfApproval: true }, 1)).toEqual([1, 2]);
+  });
+
+  it('only lets reviewers and approvers decide an open review once', () => {
+    expect(decisionBlocker(policy(), { id: 2, isApprover: false }, [])).toBeNull();
+    expect(decisionBlocker(policy(), { id: 8, isApprover: true }, [])).toBeNull();
+    expect(decisionBlocker(policy(), { id: 8, isApprover: false }, [])?.reason).toBe('not_a_reviewer');
+    expect(decisionBlocker(policy(), { id: 1, isApprover: true }, [])?.reason).toBe('own_request');
+    expect(decisionBlocker(policy({ allowSelfApproval: true }), { id: 1, isApprover: true }, [])).toBeNull();
+    expect(decisionBlocker(policy(), { id: 2, isApprover: false }, [{ reviewerId: 2, decision: 'approved' }])?.reason)
+      .toBe('already_decided');
+    expect(decisionBlocker(policy({ status: 'approved' }), { id: 3, isApprover: false }, [])?.reason).toBe('closed');
+  });
+
+  it('requires a comment when rejecting', () => {
+    expect(reviewDecisionSchema.safeParse({ decision: 'approved' }).success).toBe(true);
+    expect(reviewDecisionSchema.safeParse({ decision: 'rejected' }).success).toBe(false);
+    expect(reviewDecisionSchema.safeParse({ decision: 'rejected', comment: 'Question 3 is leading' }).success).toBe(true);
+  });
+
+  it('validates workflow settings and fills in defaults', () => {
+    expect(approvalWorkflowSchema.parse({ enabled: true })).toEqual({
+      enabled: true,
+      reviewerIds: [],
+      requiredApprovals: 1,
+      allowSelfApproval: false
+    });
+    expect(approvalWorkflowSchema.safeParse({ enabled: true, requiredApprovals: 0 }).success).toBe(false);
+    expect(isApproverRole('business_admin')).toBe(true);
+    expect(isApproverRole('survey_manager')).toBe(false);
+  });
+});
+
+describe('Approved content of active surveys', () => {
+  const snapshot = { settings: { title: 'Edited' }, questions: [] };
+  // A transaction in which the survey reads back as given
+  const transaction = (survey: Record<string, unknown> | undefined) => ({
+    query: { surveys: { findFirst: async () => survey } }
+  });
+  const survey = { id: 7, companyId: 3, title: 'Team survey', currentVersionId: 12, isActive: true };
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('leaves inactive surveys alone', async () => {
+    const gate = vi.spyOn(approvalService, 'contentGate');
+    await approvalService.assertLiveContentApproved(transaction({ ...survey, isActive: false }), 7);
+    await approvalService.assertLiveContentApproved(transaction(undefined), 7);
+    expect(gate).not.toHaveBeenCalled();
+  });
+
+  it('checks what the transaction wrote against the approval gate', async () => {
+    const tx = transaction(survey);
+    const snapshotOf = vi.spyOn(surveyVersionService, 'publishableSnapshot').mockResolvedValue(snapshot as any);
+    const gate = vi.spyOn(approvalService, 'contentGate')
+      .mockResolvedValueOnce({ required: true, approved: true, reviewId: 5, reason: null })
+      .mockResolvedValueOnce({ required: true, approved: false, reviewId: null, reason: 'The survey has changed since it was approved.' });
+
+    await expect(approvalService.assertLiveContentApproved(tx, 7)).resolves.toBeUndefined();
+    expect(snapshotOf).toHaveBeenCalledWith(7, undefined, tx);
+    expect(gate).toHaveBeenCalledWith(survey, snapshot);
+
+    await expect(approvalService.assertLiveContentApproved(tx, 7))
+      .rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT', message: 'The survey has changed since it was approved.' });
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { afterAll, describe, it, expect } from 'vitest';
+import { is } from 'drizzle-orm';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import * as schema from '../../shared/schema';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  assertDataLossConfirmed,
+  parseBackupArchive,
+  planRestore,
+  readBackupArchive
+} from '../../server/services/backup-service';
+
+const archiveOf = (content: unknown) => zlib.gzipSync(Buffer.from(JSON.stringify(content)));
+
+const validArchive = {
+  format: BACKUP_FORMAT,
+  version: BACKUP_FORMAT_VERSION,
+  createdAt: '2026-05-01T00:00:00.000Z',
+  includeResponses: false,
+  tables: [{ name: 'companies', columns: ['id', 'name'], rows: [['1', 'Acme']] }]
+};
+
+const schemaTables = new Set(
+  Object.values(schema).filter(value => is(value, PgTable)).map(table => getTableConfig(table as PgTable).name)
+);
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-test-'));
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('Backup archives', () => {
+  it('reads archives in the backup format', async () => {
+    const archive = await parseBackupArchive(archiveOf(validArchive));
+    expect(archive.tables).toEqual(validArchive.tables);
+  });
+
+  it('rejects files that are not backups this server understands', async () => {
+    await expect(parseBackupArchive(Buffer.from('plain text'))).rejects.toThrow('not a readable backup archive');
+    await expect(parseBackupArchive(archiveOf({ ...validArchive, format: 'other' }))).rejects.toThrow('not a readable backup archive');
+    await expect(parseBackupArchive(archiveOf({ ...validArchive, tables: undefined }))).rejects.toThrow('not a readable backup archive');
+    await expect(parseBackupArchive(archiveOf({ ...validArchive, version: BACKUP_FORMAT_VERSION + 1 })))
+      .rejects.toMatchObject({ statusCode: 422, message: expect.stringContaining('newer than this server supports') });
+  });
+
+  it('verifies the checksum recorded in the catalogue', async () => {
+    const content = archiveOf(validArchive);
+    const filePath = path.join(directory, 'backup.json.gz');
+    fs.writeFileSync(filePath, content);
+    const checksum = crypto.createHash('sha256').update(content).digest('hex');
+
+    await expect(readBackupArchive({ status: 'completed', path: filePath, checksum })).resolves.toMatchObject({ format: BACKUP_FORMAT });
+    await expect(readBackupArchive({ status: 'completed', path: filePath, checksum: '0'.repeat(64) }))
+      .rejects.toMatchObject({ statusCode: 422, message: 'Backup archive failed checksum verification' });
+    await expect(readBackupArchive({ status: 'failed', path: filePath, checksum })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(readBackupArchive({ status: 'completed', path: path.join(directory, 'missing.json.gz'), checksum }))
+      .rejects.toMatchObject({ statusCode: 410 });
+  });
+});
+
+describe('Restore plan', () => {
+  it('fills referenced tables before the tables that reference them', () => {
+    const plan = planRestore(['survey_questions', 'surveys', 'users', 'companies'], schemaTables);
+    const position = (name: string) => plan.restore.indexOf(name);
+    expect(position('companies')).toBeLessThan(position('users'));
+    expect(position('companies')).toBeLessThan(position('surveys'));
+    expect(position('surveys')).toBeLessThan(position('survey_questions'));
+  });
+
+  it('empties tables missing from an archive without responses, children first', () => {
+    const plan = planRestore(['companies', 'users', 'surveys'], schemaTables);
+    expect(plan.clear).toContain('survey_responses');
+    expect(plan.clear.indexOf('survey_sessions')).toBeLessThan(plan.clear.indexOf('survey_responses'));
+    expect(plan.clear).not.toContain('companies');
+
+    // Only tables that exist in the database are cleared
+    const full = planRestore(['companies'], new Set(['companies']));
+    expect(full).toEqual({ restore: ['companies'], clear: [], skipped: [] });
+  });
+
+  it('leaves the backup catalogue and privacy requests alone and skips dropped tables', () => {
+    const plan = planRestore(['companies', 'system_backups', 'data_subject_requests', 'old_table'], schemaTables);
+    expect(plan.restore).toEqual(['companies']);
+    expect(plan.clear).not.toContain('system_backups');
+    expect(plan.clear).not.toContain('data_subject_requests');
+    expect(plan.skipped).toEqual(['old_table']);
+  });
+});
+
+describe('Restore data loss', () => {
+  const cleared = [
+    { table: 'survey_sessions', currentRows: 0, backupRows: 0 },
+    { table: 'survey_responses', currentRows: 12, backupRows: 0 }
+  ];
+
+  it('refuses to empty tables with rows until the loss is confirmed', () => {
+    expect(() => assertDataLossConfirmed(cleared, false)).toThrow(expect.objectContaining({
+      statusCode: 409,
+      errors: { confirmDataLoss: ['survey_responses: 12 row(s)'] }
+    }));
+    expect(() => assertDataLossConfirmed(cleared, true)).not.toThrow();
+  });
+
+  it('needs no confirmation when the cleared tables are already empty', () => {
+    expect(() => assertDataLossConfirmed([cleared[0]], false)).not.toThrow();
+    expect(() => assertDataLossConfirmed([], false)).not.toThrow();
+  });
+});
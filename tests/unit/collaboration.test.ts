@@ -0,0 +1,416 @@
+import { WebSocket } from 'ws';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CollaborationManager } from '../../server/utils/collaborationManager';
+import { InMemoryPubSub } from '../../server/utils/collaborationPubSub';
+import {
+  Collaborator,
+  Comment,
+  CollaborationStore,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  LockOutcome,
+  StoredSession
+} from '../../server/utils/collaborationStore';
+import { ChangeRecord, NewQuestionValues, SurveyWorkspace, executeOperation, toOutcome } from '../../server/utils/collaborationOperations';
+import {
+  CollaborationOperation,
+  CollaborationOperationInput,
+  CollaborationWorkspace,
+  EditableQuestion,
+  ElementLock,
+  FieldVersions,
+  LockRequest,
+  OperationOutcome,
+  SurveySettings,
+  acquireLock,
+  activeLocks,
+  applyToWorkspace,
+  collaborationOperationSchema,
+  conflictKey,
+  releaseLock
+} from '../../shared/collaborationOps';
+
+const question = (id: number, order: number, values: Partial<EditableQuestion> = {}): EditableQuestion => ({
+  id,
+  surveyId: 7,
+  question: `Question ${id}`,
+  questionType: 'multiple-choice',
+  required: true,
+  helpText: null,
+  order,
+  options: null,
+  customValidation: null,
+  sliderConfig: null,
+  scenarioText: null,
+  displayLogic: null,
+  ...values
+});
+
+// The survey's questions, as the database workspace reads and writes them
+class MemorySurvey implements SurveyWorkspace {
+  private nextId = 100;
+
+  constructor(public questions: EditableQuestion[], public settings: SurveySettings = { title: 'Survey' }) {}
+
+  async getQuestion(questionId: number) {
+    const found = this.questions.find(q => q.id === questionId);
+    return found ? { ...found } : null;
+  }
+
+  async listQuestions() {
+    return [...this.questions].sort((a, b) => a.order - b.order).map(q => ({ ...q }));
+  }
+
+  async insertQuestion(values: NewQuestionValues) {
+    const created = { ...values, id: this.nextId++ };
+    this.questions.push(created);
+    return { ...created };
+  }
+
+  async updateQuestion(questionId: number, values: Partial<NewQuestionValues>) {
+    const index = this.questions.findIndex(q => q.id === questionId);
+    this.questions[index] = { ...this.questions[index], ...values };
+    return { ...this.questions[index] };
+  }
+
+  async deleteQuestion(questionId: number) {
+    this.questions = this.questions.filter(q => q.id !== questionId);
+  }
+
+  async getSurvey() {
+    return { ...this.settings };
+  }
+
+  async updateSurvey(values: SurveySettings) {
+    this.settings = { ...this.settings, ...values };
+    return { ...this.settings };
+  }
+}
+
+// Stands in for the collaboration tables shared by every node
+class MemoryStore implements CollaborationStore {
+  changes: Array<ChangeRecord & { status: string; version: number | null; userId: number }> = [];
+  comments: Comment[] = [];
+  presence = new Map<number, string>();
+  fieldVersions: FieldVersions = {};
+  locks: ElementLock[] = [];
+
+  constructor(public survey = new MemorySurvey([]), public lockTimeout = DEFAULT_LOCK_TIMEOUT_MS) {}
+
+  async loadSession(sessionId: number): Promise<StoredSession | null> {
+    if (sessionId !== 1) return null;
+    return { comments: this.comments.map(c => ({ ...c })) };
+  }
+
+  async loadWorkspace(sessionId: number, now: Date): Promise<CollaborationWorkspace | null> {
+    if (sessionId !== 1) return null;
+    return {
+      sessionId,
+      surveyId: 7,
+      survey: await this.survey.getSurvey(),
+      questions: await this.survey.listQuestions(),
+      fieldVersions: this.fieldVersions,
+      locks: activeLocks(this.locks, now),
+      lockTimeout: this.lockTimeout,
+      sequence: this.changes.filter(c => c.status === 'applied').length
+    };
+  }
+
+  async applyOperation(sessionId: number, actor: Collaborator, op: CollaborationOperation, now: Date): Promise<OperationOutcome | null> {
+    if (sessionId !== 1) return null;
+    const execution = await executeOperation(this.survey, op, {
+      surveyId: 7,
+      userId: actor.userId,
+      versions: this.fieldVersions,
+      locks: activeLocks(this.locks, now)
+    });
+    if (execution.status === 'rejected') {
+      return toOutcome(execution, op, actor, 0, now);
+    }
+    if (execution.status === 'conflicted') {
+      this.changes.push({ ...execution.record, status: 'conflicted', version: null, userId: actor.userId });
+      return toOutcome(execution, op, actor, 0, now);
+    }
+
+    const sequence = this.changes.filter(c => c.status === 'applied').length + 1;
+    this.changes.push({ ...execution.record, status: 'applied', version: sequence, userId: actor.userId });
+    this.fieldVersions = execution.versions;
+    this.locks = execution.locks;
+    return toOutcome(execution, op, actor, sequence, now);
+  }
+
+  async acquireLock(sessionId: number, actor: Collaborator, element: LockRequest, now: Date): Promise<LockOutcome | null> {
+    if (sessionId !== 1) return null;
+    const locks = activeLocks(this.locks, now);
+    const result = acquireLock(locks, { ...element, ...actor }, now, this.lockTimeout);
+    if (!result.acquired) return { ...result, locks };
+    this.locks = result.locks;
+    return result;
+  }
+
+  async releaseLock(sessionId: number, userId: number, element: LockRequest, now: Date) {
+    if (sessionId !== 1) return null;
+    const result = releaseLock(activeLocks(this.locks, now), element, userId);
+    this.locks = result.locks;
+    return result;
+  }
+
+  async addComment(_sessionId: number, comment: Omit<Comment, 'id'>): Promise<Comment> {
+    const saved = { ...comment, id: String(this.comments.length + 1) };
+    this.comments.push(saved);
+    return { ...saved };
+  }
+
+  async resolveComment(_sessionId: number, commentId: string, userId: number): Promise<Comment | null> {
+    const comment = this.comments.find(c => c.id === commentId);
+    if (!comment) return null;
+    Object.assign(comment, { resolved: true, resolvedBy: userId, resolvedAt: new Date() });
+    return { ...comment };
+  }
+
+  async updatePresence(_sessionId: number, userId: number, status: string): Promise<void> {
+    this.presence.set(userId, status);
+  }
+}
+
+const fakeSocket = () => {
+  const send = vi.fn();
+  return { socket: { readyState: WebSocket.OPEN, send } as unknown as WebSocket, messages: () => send.mock.calls.map(([raw]) => JSON.parse(raw)) };
+};
+
+const managers: CollaborationManager[] = [];
+const node = (store: CollaborationStore, pubsub: InMemoryPubSub, nodeId: string) => {
+  const manager = new CollaborationManager({ store, pubsub, nodeId });
+  managers.push(manager);
+  return manager;
+};
+
+const alice = { userId: 10, username: 'alice' };
+const bob = { userId: 11, username: 'bob' };
+
+// An operation as a client sends it, based on the versions the client has seen
+const clientOp = (input: CollaborationOperationInput, versions: FieldVersions = {}): CollaborationOperation => {
+  const op = collaborationOperationSchema.parse(input);
+  const key = conflictKey(op);
+  return key && 'baseVersion' in op ? { ...op, baseVersion: versions[key] ?? {} } : op;
+};
+
+const updates = (messages: any[], field: string) => messages
+  .filter(message => message.type === 'collaborationUpdate')
+  .flatMap(message => message.changes)
+  .filter((change: { field: string }) => change.field === field)
+  .map((change: { value: unknown }) => change.value);
+
+afterEach(async () => {
+  await Promise.all(managers.splice(0).map(manager => manager.shutdown()));
+});
+
+describe('Collaborative survey editing', () => {
+  it('applies field edits to the survey and broadcasts them to every node', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1), question(2, 2)]));
+    const pubsub = new InMemoryPubSub();
+    const nodeA = node(store, pubsub, 'a');
+    const nodeB = node(store, pubsub, 'b');
+    const aliceSocket = fakeSocket();
+    const bobSocket = fakeSocket();
+    await nodeA.addParticipant(1, alice.userId, alice.username, aliceSocket.socket);
+    await nodeB.addParticipant(1, bob.userId, bob.username, bobSocket.socket);
+
+    const outcome = await nodeA.applyOperation(1, alice, clientOp({ type: 'updateQuestion', questionId: 2, field: 'question', value: 'How old are you?' }));
+
+    expect(outcome).toMatchObject({ status: 'applied', change: { sequence: 1, entityType: 'question', entityId: 2, field: 'question' } });
+    expect(store.survey.questions.find(q => q.id === 2)?.question).toBe('How old are you?');
+    expect(store.changes).toMatchObject([{ status: 'applied', version: 1, previousValue: 'Question 2', newValue: 'How old are you?' }]);
+
+    // Bob's node applies the broadcast to the workspace he synced
+    const [change] = updates(bobSocket.messages(), 'operation');
+    expect(change.sequence).toBe(1);
+    const bobWorkspace = applyToWorkspace((await store.loadWorkspace(1, new Date()))!, change);
+    expect(bobWorkspace.questions.map(q => q.question)).toEqual(['Question 1', 'How old are you?']);
+    expect(updates(aliceSocket.messages(), 'operation')).toHaveLength(1);
+  });
+
+  it('marks a concurrent edit of the same field as conflicted', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+    const seen = { ...store.fieldVersions };
+
+    await manager.applyOperation(1, alice, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Alice' }, seen));
+    const outcome = await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Bob' }, seen));
+
+    expect(outcome).toMatchObject({ status: 'conflicted', reason: 'concurrent', current: 'Alice', version: { '10': 1 } });
+    expect(store.survey.questions[0].question).toBe('Alice');
+    expect(store.changes.map(c => [c.status, c.version])).toEqual([['applied', 1], ['conflicted', null]]);
+
+    // Once Bob has seen Alice's edit his own applies
+    const rebased = await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Bob' }, store.fieldVersions));
+    expect(rebased).toMatchObject({ status: 'applied', change: { sequence: 2 } });
+  });
+
+  it('applies concurrent edits of different fields, equal values and a user\'s own edits', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+    const seen = { ...store.fieldVersions };
+
+    await manager.applyOperation(1, alice, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Same' }, seen));
+    await manager.applyOperation(1, alice, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Typed on' }, seen));
+    const helpText = await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'helpText', value: 'Pick one' }, seen));
+    const same = await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Typed on' }, seen));
+
+    expect(helpText?.status).toBe('applied');
+    expect(same?.status).toBe('applied');
+    expect(store.survey.questions[0]).toMatchObject({ question: 'Typed on', helpText: 'Pick one' });
+  });
+
+  it('reports edits of deleted questions and rejects invalid values', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+
+    await manager.applyOperation(1, alice, clientOp({ type: 'deleteQuestion', questionId: 1 }));
+    const outcome = await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'required', value: false }));
+
+    expect(outcome).toMatchObject({ status: 'conflicted', reason: 'missing', message: 'What you edited has been deleted' });
+    expect(collaborationOperationSchema.safeParse({ type: 'updateQuestion', questionId: 1, field: 'required', value: 'yes' }).success).toBe(false);
+    expect(collaborationOperationSchema.safeParse({ type: 'updateQuestion', questionId: 1, field: 'id', value: 2 }).success).toBe(false);
+  });
+
+  it('keeps other users from editing a locked question until the lock expires', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1), question(2, 2)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+    const aliceSocket = fakeSocket();
+    await manager.addParticipant(1, alice.userId, alice.username, aliceSocket.socket);
+
+    const locked = await manager.lockElement(1, alice, { elementType: 'question', elementId: '1' });
+    expect(locked).toMatchObject({ acquired: true, lock: { userId: 10, username: 'alice' } });
+    expect(updates(aliceSocket.messages(), 'locks')).toEqual([[expect.objectContaining({ elementId: '1' })]]);
+    expect(await manager.lockElement(1, bob, { elementType: 'question', elementId: '1' })).toMatchObject({ acquired: false, lock: { userId: 10 } });
+
+    const edit = clientOp({ type: 'updateOption', questionId: 1, optionId: 'a', field: 'text', value: 'A' });
+    expect(await manager.applyOperation(1, bob, edit)).toMatchObject({ status: 'rejected', reason: 'locked', message: 'alice is editing this question' });
+    expect(store.changes).toHaveLength(0);
+
+    // Other questions stay editable, and the holder can still edit the locked one
+    expect((await manager.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 2, field: 'question', value: 'Free' })))?.status).toBe('applied');
+    expect((await manager.applyOperation(1, alice, clientOp({ type: 'updateQuestion', questionId: 1, field: 'question', value: 'Mine' })))?.status).toBe('applied');
+
+    const later = new Date(Date.now() + DEFAULT_LOCK_TIMEOUT_MS + 1000);
+    expect((await store.applyOperation(1, bob, clientOp({ type: 'updateQuestion', questionId: 1, field: 'helpText', value: 'Now' }), later))?.status).toBe('applied');
+  });
+
+  it('releases locks and drops the locks of a deleted question', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+
+    await manager.lockElement(1, alice, { elementType: 'question', elementId: '1' });
+    expect(await manager.unlockElement(1, bob.userId, { elementType: 'question', elementId: '1' })).toMatchObject({ released: false });
+    expect(await manager.unlockElement(1, alice.userId, { elementType: 'question', elementId: '1' })).toEqual({ released: true, locks: [] });
+
+    await manager.lockElement(1, alice, { elementType: 'option', elementId: '1/a' });
+    await manager.applyOperation(1, alice, clientOp({ type: 'deleteQuestion', questionId: 1 }));
+    expect(store.locks).toEqual([]);
+  });
+
+  it('reorders questions without dropping ones the client did not know about', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1), question(2, 2)]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+
+    const created = await manager.applyOperation(1, bob, clientOp({ type: 'createQuestion', question: { question: 'New', questionType: 'text', required: false } }));
+    expect(created).toMatchObject({ status: 'applied', change: { question: { id: 100, order: 3 } } });
+
+    const outcome = await manager.applyOperation(1, alice, clientOp({ type: 'reorderQuestions', questionIds: [2, 1] }));
+    expect(outcome).toMatchObject({ status: 'applied', change: { questionOrder: [2, 1, 100] } });
+    expect((await store.survey.listQuestions()).map(q => [q.id, q.order])).toEqual([[2, 1], [1, 2], [100, 3]]);
+  });
+
+  it('moves display logic conditions along with reordered questions', async () => {
+    const showIfYes = (questionOrder: number) => ({ action: 'show', match: 'all', conditions: [{ questionOrder, operator: 'equals', value: 'yes' }] });
+    const store = new MemoryStore(new MemorySurvey([
+      question(1, 1),
+      question(2, 2),
+      question(3, 3, { displayLogic: showIfYes(2) }),
+      question(4, 4, { displayLogic: showIfYes(3) })
+    ]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+    const bobView = await store.loadWorkspace(1, new Date());
+
+    const outcome = await manager.applyOperation(1, alice, clientOp({ type: 'reorderQuestions', questionIds: [2, 1, 4, 3] }));
+    expect(outcome.status).toBe('applied');
+
+    const questions = await store.survey.listQuestions();
+    expect(questions.map(q => [q.id, q.order])).toEqual([[2, 1], [1, 2], [4, 3], [3, 4]]);
+    // Question 3 still follows question 2, now first; question 4 came before question 3, so its condition is dropped
+    expect(questions.find(q => q.id === 3)!.displayLogic).toMatchObject({ conditions: [{ questionOrder: 1 }] });
+    expect(questions.find(q => q.id === 4)!.displayLogic).toBeNull();
+
+    // Collaborators applying the broadcast end up with the same logic
+    const { change } = outcome as Extract<typeof outcome, { status: 'applied' }>;
+    const applied = applyToWorkspace(bobView!, change);
+    expect(applied.questions.map(q => [q.id, q.order, q.displayLogic])).toEqual(questions.map(q => [q.id, q.order, q.displayLogic]));
+  });
+
+  it('edits options stored as plain strings and keeps the others as stored', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1, { options: ['Red', 'Green', 'Blue'] })]));
+    const manager = node(store, new InMemoryPubSub(), 'a');
+
+    await manager.applyOperation(1, alice, clientOp({ type: 'updateOption', questionId: 1, optionId: 'Green', field: 'text', value: 'Lime' }));
+    await manager.applyOperation(1, alice, clientOp({ type: 'deleteOption', questionId: 1, optionId: 'Blue' }));
+    const created = await manager.applyOperation(1, alice, clientOp({ type: 'createOption', questionId: 1, option: { text: 'Pink' } }));
+    const createdId = created?.status === 'applied' ? (created.change.question!.options as any[])[2].id : null;
+    await manager.applyOperation(1, alice, clientOp({ type: 'reorderOptions', questionId: 1, optionIds: [createdId, 'Red'] }));
+
+    expect(store.survey.questions[0].options).toEqual([
+      { id: createdId, text: 'Pink', value: 'Pink' },
+      'Red',
+      { id: 'Green', text: 'Lime', value: 'Green' }
+    ]);
+    expect(createdId).toMatch(/^opt_/);
+  });
+
+  it('replays comments on questions and the survey when a session is joined', async () => {
+    const store = new MemoryStore(new MemorySurvey([question(1, 1)]));
+    const first = node(store, new InMemoryPubSub(), 'a');
+    const aliceId = await first.addParticipant(1, alice.userId, alice.username, fakeSocket().socket);
+    await first.addComment(aliceId!, { text: 'Reword this', questionId: 1 });
+    await first.addComment(aliceId!, { text: 'Looks good' });
+    await first.applyOperation(1, alice, clientOp({ type: 'updateSurvey', field: 'title', value: 'Renamed' }));
+    await first.shutdown();
+
+    // A restarted node loads the session from the store
+    const restarted = node(store, new InMemoryPubSub(), 'b');
+    const bobSocket = fakeSocket();
+    const connectionId = await restarted.addParticipant(1, bob.userId, bob.username, bobSocket.socket);
+    await restarted.syncParticipant(connectionId!);
+
+    const sync = bobSocket.messages().find(message => message.type === 'collaborationSync');
+    expect(sync.workspace).toMatchObject({ survey: { title: 'Renamed' }, sequence: 1, questions: [{ id: 1 }] });
+    expect(sync.comments).toMatchObject([
+      { id: '1', text: 'Reword this', username: 'alice', questionId: 1 },
+      { id: '2', text: 'Looks good', questionId: null }
+    ]);
+    expect(await restarted.addParticipant(2, bob.userId, bob.username, bobSocket.socket)).toBeNull();
+  });
+
+  it('shares comments and presence between nodes serving one session', async () => {
+    const store = new MemoryStore();
+    const pubsub = new InMemoryPubSub();
+    const nodeA = node(store, pubsub, 'a');
+    const nodeB = node(store, pubsub, 'b');
+    const aliceSocket = fakeSocket();
+    const bobSocket = fakeSocket();
+
+    const aliceId = await nodeA.addParticipant(1, alice.userId, alice.username, aliceSocket.socket);
+    const bobId = await nodeB.addParticipant(1, bob.userId, bob.username, bobSocket.socket);
+    await nodeB.addComment(bobId!, { text: 'Nice' });
+    await nodeA.resolveComment(aliceId!, '1');
+
+    const changeFields = (messages: any[]) => messages
+      .filter(message => message.type === 'collaborationUpdate')
+      .flatMap(message => message.changes.map((change: { field: string }) => change.field));
+    expect(changeFields(bobSocket.messages())).toEqual(expect.arrayContaining(['resolveComment']));
+    expect(changeFields(aliceSocket.messages())).toEqual(expect.arrayContaining(['participant', 'comment']));
+
+    await nodeB.syncParticipant(bobId!);
+    const sync = bobSocket.messages().find(message => message.type === 'collaborationSync');
+    expect(sync.participants.map((p: { username: string }) => p.username).sort()).toEqual(['alice', 'bob']);
+    expect(sync.comments[0]).toMatchObject({ id: '1', resolved: true, resolvedBy: 10 });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompletionCertificate,
+  EMPTY_SUBJECT_DATA_COUNTS,
+  dataSubjectRequestSchema,
+  daysUntil,
+  deadlineState,
+  legalDeadline,
+  privacyTokenSchema,
+  redactFreeTextAnswers
+} from '../../shared/dataSubjectRequests';
+import {
+  canonicalJson,
+  signCompletionCertificate,
+  subjectFingerprint,
+  verifyCompletionCertificate
+} from '../../server/utils/privacyCertificate';
+import { dataSubjectRequestService } from '../../server/services/data-subject-request-service';
+
+const verifiedAt = new Date('2026-03-01T10:00:00Z');
+const day = (n: number) => new Date(verifiedAt.getTime() + n * 24 * 60 * 60 * 1000);
+
+const certificate: CompletionCertificate = {
+  requestId: 7,
+  type: 'erasure',
+  jurisdiction: 'gdpr',
+  subject: subjectFingerprint('Jane@Example.com'),
+  receivedAt: '2026-02-28T09:00:00.000Z',
+  verifiedAt: verifiedAt.toISOString(),
+  dueAt: day(30).toISOString(),
+  completedAt: day(3).toISOString(),
+  completedBy: 1,
+  onTime: true,
+  records: { ...EMPTY_SUBJECT_DATA_COUNTS, responses: 2, newsletterSubscriptions: 1 },
+  backups: { archives: 4, erasureReappliedOnRestore: true }
+};
+
+describe('Data subject request deadlines', () => {
+  it('counts the legal deadline from verification per jurisdiction', () => {
+    expect(legalDeadline('gdpr', verifiedAt)).toEqual(day(30));
+    expect(legalDeadline('ccpa', verifiedAt)).toEqual(day(45));
+  });
+
+  it('flags requests that are due soon or overdue', () => {
+    const dueAt = day(30);
+    expect(deadlineState(null, verifiedAt)).toBeNull();
+    expect(deadlineState(dueAt, day(1))).toBe('on_track');
+    expect(deadlineState(dueAt, day(23))).toBe('due_soon');
+    expect(deadlineState(dueAt.toISOString(), day(31))).toBe('overdue');
+    expect(daysUntil(dueAt, day(20))).toBe(10);
+    expect(daysUntil(dueAt, day(32))).toBe(-2);
+  });
+});
+
+describe('Data subject request input', () => {
+  it('normalises the email address and defaults to GDPR', () => {
+    const parsed = dataSubjectRequestSchema.parse({ email: '  Jane@Example.COM ', type: 'export' });
+    expect(parsed).toEqual({ email: 'jane@example.com', type: 'export', jurisdiction: 'gdpr' });
+  });
+
+  it('rejects unknown request types and malformed tokens', () => {
+    expect(dataSubjectRequestSchema.safeParse({ email: 'jane@example.com', type: 'rectify' }).success).toBe(false);
+    expect(dataSubjectRequestSchema.safeParse({ email: 'not-an-email', type: 'access' }).success).toBe(false);
+    expect(privacyTokenSchema.safeParse({ token: 'a'.repeat(64) }).success).toBe(true);
+    expect(privacyTokenSchema.safeParse({ token: 'xyz' }).success).toBe(false);
+  });
+});
+
+describe('redactFreeTextAnswers', () => {
+  it('drops free-text answers from answer lists and maps', () => {
+    const list = [{ questionId: 1, answer: 'a' }, { questionId: 2, answer: 'I live at 1 Main St' }];
+    expect(redactFreeTextAnswers(list, [2])).toEqual([{ questionId: 1, answer: 'a' }]);
+    expect(redactFreeTextAnswers({ 1: 'a', 2: 'my name is Jane' }, [2])).toEqual({ 1: 'a' });
+  });
+
+  it('parses answers stored as JSON text', () => {
+    expect(redactFreeTextAnswers(JSON.stringify([{ questionId: 3, answer: 'x' }]), [3])).toEqual([]);
+    expect(redactFreeTextAnswers('not json', [3])).toEqual([]);
+  });
+});
+
+describe('Completion certificates', () => {
+  it('serialises objects with sorted keys', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: true, e: null }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"e":null,"f":true}]},"b":1}');
+    expect(canonicalJson({ b: 1, a: 2 })).toBe(canonicalJson({ a: 2, b: 1 }));
+  });
+
+  it('fingerprints the subject without the address', () => {
+    expect(certificate.subject).toBe(subjectFingerprint(' jane@example.com'));
+    expect(certificate.subject).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('verifies signed certificates and detects tampering', () => {
+    const signed = signCompletionCertificate(certificate);
+    expect(signed.algorithm).toBe('HMAC-SHA256');
+    expect(verifyCompletionCertificate(signed)).toBe(true);
+    expect(verifyCompletionCertificate(JSON.parse(JSON.stringify(signed)))).toBe(true);
+
+    expect(verifyCompletionCertificate({ ...signed, certificate: { ...certificate, onTime: false } })).toBe(false);
+    expect(verifyCompletionCertificate({ ...signed, signature: signed.signature.replace(/^./, c => (c === 'a' ? 'b' : 'a')) })).toBe(false);
+  });
+});
+
+describe('Erasing cookie consents', () => {
+  // A pool client holding one response and one session of the subject, who also has an account
+  const subjectClient = () => {
+    const queries: Array<{ text: string; params: unknown[] }> = [];
+    const client = {
+      query: async (text: string, params: unknown[] = []) => {
+        queries.push({ text, params });
+        if (text.startsWith('SELECT id, survey_id')) return { rows: [{ id: 5, survey_id: 7, ip_address: '10.0.0.1', user_agent: 'Firefox' }] };
+        if (text.startsWith('SELECT id, session_id')) return { rows: [{ id: 9, session_id: 'sess_9', ip_address: '10.0.0.1', user_agent: 'Firefox' }] };
+        if (text.startsWith('SELECT id FROM users')) return { rows: [{ id: 3 }] };
+        if (text.startsWith('DELETE FROM cookie_consents')) return { rows: [], rowCount: 1 };
+        if (text.startsWith('UPDATE cookie_consents')) return { rows: [], rowCount: 2 };
+        return { rows: [], rowCount: 0 };
+      }
+    };
+    return { client: client as any, queries };
+  };
+
+  it('deletes consents linked by account or session and strips the device from the rest', async () => {
+    const { client, queries } = subjectClient();
+    const erased = await dataSubjectRequestService.eraseSubjectData(client, 'jane@example.com');
+
+    const deleted = queries.find(query => query.text.startsWith('DELETE FROM cookie_consents'))!;
+    expect(deleted.text).not.toContain('ip_address');
+    expect(deleted.params).toEqual([[3], ['sess_9']]);
+
+    const anonymized = queries.find(query => query.text.startsWith('UPDATE cookie_consents'))!;
+    expect(anonymized.text).toContain('user_agent = NULL');
+    expect(anonymized.params).toEqual([[3], ['sess_9'], ['10.0.0.1\nFirefox'], '[erased]']);
+    expect(erased.cookieConsents).toBe(3);
+  });
+});
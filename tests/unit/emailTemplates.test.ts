@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderEmail, resolveEmailLocale, EMAIL_TEMPLATES, EMAIL_PREVIEW_DATA } from '../../server/utils/emailTemplates';
+import { OutboxTransport } from '../../server/services/email-transport';
+
+describe('Email templates', () => {
+  it('renders every template in every locale without missing keys', () => {
+    for (const locale of ['en', 'de', 'es', 'fr', 'it', 'ar'] as const) {
+      for (const template of EMAIL_TEMPLATES) {
+        const email = renderEmail(template, EMAIL_PREVIEW_DATA[template] as any, locale);
+
+        expect(email.subject).not.toMatch(/emails\./);
+        expect(email.text).not.toMatch(/emails\.|\{\{/);
+        expect(email.html).toContain(`lang="${locale}"`);
+      }
+    }
+  });
+
+  it('localizes copy and reuses existing app labels', () => {
+    const english = renderEmail('password_reset', { name: 'Sam', link: 'https://example.com/r' });
+    const german = renderEmail('password_reset', { name: 'Sam', link: 'https://example.com/r' }, 'de');
+
+    expect(english.subject).toBe('Reset your PersonalysisPro password');
+    expect(english.text).toContain('Reset Password: https://example.com/r');
+    expect(german.text).toContain('Hallo Sam,');
+    expect(german.text).toContain('Passwort zurücksetzen: https://example.com/r');
+  });
+
+  it('escapes user-provided values in the HTML body only', () => {
+    const email = renderEmail('support_ticket', {
+      ticketNumber: 'TICK-1',
+      ticketSubject: 'Broken <b>export</b>',
+      comment: 'Try <script>alert(1)</script>',
+      link: 'https://example.com/t?a=1&b=2'
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+    expect(email.html).toContain('https://example.com/t?a=1&amp;b=2');
+    expect(email.text).toContain('> Try <script>alert(1)</script>');
+  });
+
+  it('renders Arabic right to left', () => {
+    const email = renderEmail('welcome', { name: 'Sam' }, 'ar');
+    expect(email.html).toContain('dir="rtl"');
+  });
+
+  it('picks the first supported locale from Accept-Language', () => {
+    expect(resolveEmailLocale('pt-BR,fr;q=0.8,en;q=0.5')).toBe('fr');
+    expect(resolveEmailLocale('ja')).toBe('en');
+    expect(resolveEmailLocale(undefined)).toBe('en');
+  });
+});
+
+describe('Outbox transport', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes each message to the outbox and lists the newest first', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    const transport = new OutboxTransport(directory);
+
+    const first = await transport.send({ to: 'a@example.com', subject: 'One', html: '<p>1</p>', text: '1', deliveryId: 1 });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await transport.send({ to: 'b@example.com', subject: 'Two', html: '<p>2</p>', text: '2', deliveryId: 2 });
+
+    const messages = await transport.list();
+    expect(messages.map(message => message.subject)).toEqual(['Two', 'One']);
+    expect(messages[1].messageId).toBe(first.messageId);
+    expect(messages[1].to).toBe('a@example.com');
+  });
+});
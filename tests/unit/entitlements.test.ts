@@ -0,0 +1,144 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  EntitlementSource,
+  checkFeature,
+  checkLimit,
+  parseLicenseFeatures,
+  resolveEntitlements,
+  usageItem
+} from '../../shared/entitlements';
+import { EntitlementError, entitlementService } from '../../server/services/entitlement-service';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const source = (overrides: Partial<EntitlementSource> = {}): EntitlementSource => ({
+  company: {
+    id: 7,
+    subscriptionTier: 'annual',
+    licenseStatus: 'active',
+    licenseEndDate: null,
+    trialEnds: null,
+    maxUsers: 3,
+    maxSurveys: 2,
+    maxResponses: 100,
+    dataExport: true,
+    aiInsights: false
+  },
+  license: null,
+  subscription: null,
+  ...overrides
+});
+
+const license = (overrides: Partial<NonNullable<EntitlementSource['license']>> = {}) => ({
+  id: 4,
+  type: 'project',
+  status: 'active',
+  endDate: '2026-12-31T00:00:00Z',
+  maxSurveys: 1,
+  maxResponses: 500,
+  maxSeats: 5,
+  features: { aiInsights: true },
+  ...overrides
+});
+
+describe('Entitlements', () => {
+  it("uses the company's own limits and toggles without a license", () => {
+    const entitlements = resolveEntitlements(source(), now);
+    expect(entitlements.source).toBe('company');
+    expect(entitlements.limits).toEqual({ surveys: 2, responses: 100, seats: 3 });
+    expect(entitlements.features.dataExport).toBe(true);
+    expect(entitlements.features.aiInsights).toBe(false);
+    expect(entitlements.status).toBe('active');
+  });
+
+  it('takes limits from the license and falls back to company toggles for unset features', () => {
+    const entitlements = resolveEntitlements(source({ license: license({ maxResponses: -1 }) }), now);
+    expect(entitlements.source).toBe('license');
+    expect(entitlements.limits).toEqual({ surveys: 1, responses: null, seats: 5 });
+    expect(entitlements.features.aiInsights).toBe(true);
+    expect(entitlements.features.dataExport).toBe(true);
+    expect(entitlements.features.whiteLabeling).toBe(false);
+  });
+
+  it('reads license features stored as JSON strings', () => {
+    expect(parseLicenseFeatures('{"dataExport":false,"apiAccess":true,"unknown":true}')).toEqual({ dataExport: false, apiAccess: true });
+    expect(parseLicenseFeatures('not json')).toEqual({});
+    expect(parseLicenseFeatures(null)).toEqual({});
+  });
+
+  it('ends the entitlements with an expired license, trial or subscription', () => {
+    expect(resolveEntitlements(source({ license: license({ endDate: '2026-05-01T00:00:00Z' }) }), now).status).toBe('expired');
+    expect(resolveEntitlements(source({ license: license({ status: 'suspended' }) }), now).status).toBe('suspended');
+    expect(resolveEntitlements(source({
+      company: { ...source().company, subscriptionTier: 'trial', trialEnds: '2026-05-15T00:00:00Z' }
+    }), now).status).toBe('expired');
+    expect(resolveEntitlements(source({
+      subscription: { planType: 'annual', status: 'active', endDate: '2026-05-01T00:00:00Z', autoRenew: false }
+    }), now).status).toBe('expired');
+    // Renewing subscriptions keep going past their end date
+    expect(resolveEntitlements(source({
+      subscription: { planType: 'annual', status: 'active', endDate: '2026-05-01T00:00:00Z', autoRenew: true }
+    }), now).status).toBe('active');
+  });
+
+  it('refuses additions beyond a limit with the usage in the violation', () => {
+    const entitlements = resolveEntitlements(source(), now);
+    expect(checkLimit(entitlements, 'surveys', 1)).toBeNull();
+    expect(checkLimit(entitlements, 'surveys', 2)).toMatchObject({
+      code: 'SURVEY_LIMIT_EXCEEDED',
+      entitlement: 'surveys',
+      current: 2,
+      maximum: 2
+    });
+    expect(checkLimit(entitlements, 'responses', 90, 10)).toBeNull();
+    expect(checkLimit(entitlements, 'responses', 90, 20)?.message).toContain('Only 10 more responses');
+  });
+
+  it('refuses everything while the license is not active', () => {
+    const entitlements = resolveEntitlements(source({ license: license({ status: 'expired' }) }), now);
+    expect(checkLimit(entitlements, 'responses', 0)?.code).toBe('LICENSE_INACTIVE');
+    expect(checkFeature(entitlements, 'aiInsights')?.code).toBe('LICENSE_INACTIVE');
+  });
+
+  it('refuses features the license does not include', () => {
+    const entitlements = resolveEntitlements(source(), now);
+    expect(checkFeature(entitlements, 'dataExport')).toBeNull();
+    expect(checkFeature(entitlements, 'aiInsights')).toMatchObject({ code: 'FEATURE_NOT_INCLUDED', entitlement: 'aiInsights' });
+  });
+
+  it('reports usage against limits', () => {
+    expect(usageItem(30, 40)).toEqual({ used: 30, limit: 40, remaining: 10, percent: 75 });
+    expect(usageItem(50, 40)).toEqual({ used: 50, limit: 40, remaining: 0, percent: 100 });
+    expect(usageItem(50, null)).toEqual({ used: 50, limit: null, remaining: null, percent: 0 });
+  });
+});
+
+describe('Response intake while saving', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const lockingTx = (steps: string[]) => ({
+    select: () => ({ from: () => ({ where: () => ({ for: async () => { steps.push('lock'); } }) }) })
+  });
+
+  it('locks the company before checking the limits in the same transaction', async () => {
+    const steps: string[] = [];
+    const tx = lockingTx(steps);
+    const check = vi.spyOn(entitlementService, 'checkResponseIntake').mockImplementation(async () => {
+      steps.push('check');
+      return null;
+    });
+
+    await entitlementService.reserveResponseIntake(tx, 7, 3);
+    expect(steps).toEqual(['lock', 'check']);
+    expect(check).toHaveBeenCalledWith(7, 3, 1, tx);
+  });
+
+  it('throws the violation so the response is not stored', async () => {
+    const violation = checkLimit(resolveEntitlements(source(), now), 'responses', 100)!;
+    vi.spyOn(entitlementService, 'checkResponseIntake').mockResolvedValue(violation);
+
+    const reserved = entitlementService.reserveResponseIntake(lockingTx([]), 7);
+    await expect(reserved).rejects.toBeInstanceOf(EntitlementError);
+    await expect(reserved).rejects.toMatchObject({ violation: { code: 'RESPONSE_LIMIT_EXCEEDED', entitlement: 'responses' } });
+  });
+});
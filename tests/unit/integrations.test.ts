@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { decryptCredential, encryptCredential, isEncryptedCredential } from '../../server/utils/credentialCrypto';
+import { ConnectorContext, ExportedResponse, FileConnector, parseCsv } from '../../server/services/integration-connectors';
+import { createIntegrationSchema } from '../../shared/integrations';
+
+const response = (id: number): ExportedResponse => ({
+  id,
+  surveyId: 3,
+  surveyTitle: 'Onboarding, "v2"',
+  respondentId: `r-${id}`,
+  respondentEmail: null,
+  completed: true,
+  startTime: '2026-01-01T10:00:00.000Z',
+  completeTime: '2026-01-01T10:05:00.000Z',
+  createdAt: '2026-01-01T10:00:00.000Z',
+  answers: { q1: 'yes' },
+  traits: [],
+  demographics: {}
+});
+
+describe('Integration credentials', () => {
+  it('encrypts credentials and decrypts them again', () => {
+    const stored = encryptCredential('sk_live_123')!;
+
+    expect(isEncryptedCredential(stored)).toBe(true);
+    expect(stored).not.toContain('sk_live_123');
+    expect(encryptCredential('sk_live_123')).not.toBe(stored);
+    expect(decryptCredential(stored)).toBe('sk_live_123');
+    expect(encryptCredential('')).toBeNull();
+    expect(decryptCredential('legacy-plaintext')).toBe('legacy-plaintext');
+  });
+
+  it('encrypts input that already looks encrypted', () => {
+    const forged = 'enc:v1:not:really:encrypted';
+    const stored = encryptCredential(forged)!;
+
+    expect(stored).not.toBe(forged);
+    expect(stored).not.toContain('really');
+    expect(decryptCredential(stored)).toBe(forged);
+  });
+
+  it('rejects a tampered credential', () => {
+    const [prefix, version, iv, tag, ciphertext] = encryptCredential('sk_live_123')!.split(':');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+
+    expect(() => decryptCredential([prefix, version, iv, tag, flipped.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('only accepts known providers', () => {
+    expect(createIntegrationSchema.safeParse({ provider: 'file', name: 'Exports' }).success).toBe(true);
+    expect(createIntegrationSchema.safeParse({ provider: 'nope', name: 'Exports' }).success).toBe(false);
+  });
+});
+
+describe('File connector', () => {
+  let baseDirectory: string;
+  let connector: FileConnector;
+  const context = (config: Record<string, unknown>, companyId = 7): ConnectorContext => ({
+    integrationId: 1,
+    companyId,
+    name: 'Exports',
+    apiUrl: null,
+    credentials: {},
+    config
+  });
+
+  beforeEach(async () => {
+    baseDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'integration-files-'));
+    connector = new FileConnector(baseDirectory);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(baseDirectory, { recursive: true, force: true });
+  });
+
+  it('appends responses to a CSV file with one header row', async () => {
+    const csv = context({ directory: 'acme', format: 'csv' });
+    await connector.testConnection(csv);
+
+    expect(await connector.pushResponses(csv, [response(1)])).toBe(1);
+    expect(await connector.pushResponses(csv, [response(2), response(3)])).toBe(2);
+
+    const rows = parseCsv(await fs.promises.readFile(path.join(baseDirectory, 'company-7', 'acme', 'responses.csv'), 'utf8'));
+    expect(rows.map(row => row.id)).toEqual(['1', '2', '3']);
+    expect(rows[0].surveyTitle).toBe('Onboarding, "v2"');
+    expect(JSON.parse(rows[0].answers)).toEqual({ q1: 'yes' });
+  });
+
+  it('merges responses into a JSON file', async () => {
+    const json = context({ directory: 'acme', format: 'json', responsesFile: 'out.json' });
+    await connector.pushResponses(json, [response(1)]);
+    await connector.pushResponses(json, [response(2)]);
+
+    const saved = JSON.parse(await fs.promises.readFile(path.join(baseDirectory, 'company-7', 'acme', 'out.json'), 'utf8'));
+    expect(saved.map((row: ExportedResponse) => row.id)).toEqual([1, 2]);
+  });
+
+  it('pulls contacts from CSV and JSON files, skipping rows without a valid email', async () => {
+    await fs.promises.mkdir(path.join(baseDirectory, 'company-7', 'crm'), { recursive: true });
+    await fs.promises.writeFile(
+      path.join(baseDirectory, 'company-7', 'crm', 'contacts.csv'),
+      'Email,First Name,Last_Name,Plan\r\nAda@Example.com,Ada,Lovelace,pro\r\nnot-an-email,Bob,,free\r\n'
+    );
+    await fs.promises.writeFile(
+      path.join(baseDirectory, 'company-7', 'crm', 'people.json'),
+      JSON.stringify([{ email: 'grace@example.com', givenName: 'Grace', id: 'c-9' }, { name: 'No email' }])
+    );
+
+    const fromCsv = await connector.pullContacts(context({ directory: 'crm', format: 'csv' }));
+    expect(fromCsv).toEqual([
+      { email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', externalId: null, attributes: { Plan: 'pro' } }
+    ]);
+
+    const fromJson = await connector.pullContacts(context({ directory: 'crm', format: 'json', contactsFile: 'people.json' }));
+    expect(fromJson).toEqual([
+      { email: 'grace@example.com', firstName: 'Grace', lastName: null, externalId: 'c-9', attributes: {} }
+    ]);
+
+    expect(await connector.pullContacts(context({ directory: 'empty', format: 'csv' }))).toEqual([]);
+  });
+
+  it('keeps files inside the integration files directory', async () => {
+    await expect(connector.testConnection(context({ directory: '../outside', format: 'csv' }))).rejects.toThrow(/inside/);
+    await expect(connector.pullContacts(context({ directory: 'acme', format: 'csv', contactsFile: '../secrets.csv' }))).rejects.toThrow(/file name/);
+  });
+
+  it("never reaches another company's folder", async () => {
+    await connector.pushResponses(context({ directory: 'acme', format: 'json' }, 8), [response(1)]);
+    await fs.promises.writeFile(path.join(baseDirectory, 'company-8', 'acme', 'contacts.json'), JSON.stringify([{ email: 'b@example.com' }]));
+
+    await expect(connector.pullContacts(context({ directory: '../company-8/acme', format: 'json' }))).rejects.toThrow(/inside/);
+    await expect(connector.pullContacts(context({ directory: path.join(baseDirectory, 'company-8', 'acme'), format: 'json' })))
+      .rejects.toThrow(/inside/);
+    await expect(connector.testConnection(context({ directory: '..', format: 'csv' }))).rejects.toThrow(/inside/);
+
+    // The same folder name resolves inside the caller's own company folder
+    expect(await connector.pullContacts(context({ directory: 'acme', format: 'json', contactsFile: 'responses.json' }))).toEqual([]);
+    expect(await connector.pullContacts(context({ directory: 'company-8/acme', format: 'json' }))).toEqual([]);
+    await expect(connector.testConnection(context({ directory: 'acme', format: 'csv' }, 0))).rejects.toThrow(/company/);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distributionEntries,
+  imageFormat,
+  pdfReportService,
+  PDF_RESPONSE_ROW_LIMIT
+} from '../../server/services/pdf-report-service';
+import { radarVertex } from '../../server/utils/pdfCharts';
+
+// 1x1 transparent PNG
+const PNG_LOGO = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+const pageCount = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page\b/g) ?? []).length;
+
+const exportData = {
+  analytics: { totalResponses: 42, completionRate: 87.5, averageSatisfactionScore: 8.2, monthOverMonthGrowth: 4 },
+  traits: [
+    { name: 'Openness', score: 72, category: 'personality' },
+    { name: 'Conscientiousness', score: 68, category: 'personality' },
+    { name: 'Agreeableness', score: 64, category: 'personality' },
+    { name: 'Leadership', score: 58, category: 'business' }
+  ],
+  demographics: {
+    genderDistribution: [{ label: 'Female', value: 21, percentage: 50 }, { label: 'Male', value: 21, percentage: 50 }],
+    age: { '18-24': 10, '25-34': 32 }
+  },
+  businessContext: {
+    industries: [{ industry: 'Technology', percentage: 60 }, { industry: 'Finance', percentage: 40 }]
+  },
+  engagement: { dailyActiveUsers: 12, retentionRate: 78, deviceUsage: [{ name: 'Desktop', percentage: 70 }] }
+};
+
+describe('PDF reports', () => {
+  it('renders a paginated PDF with a contents page, bookmarks and the logo', async () => {
+    const pdf = await pdfReportService.render({
+      kind: 'survey',
+      title: 'Customer Personas',
+      companyName: 'Acme',
+      subjectId: 7,
+      data: exportData,
+      logo: PNG_LOGO,
+      generatedAt: new Date('2026-05-01T10:00:00Z')
+    });
+
+    const text = pdf.toString('latin1');
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    // Cover, contents and one page per section
+    expect(pageCount(pdf)).toBeGreaterThanOrEqual(7);
+    expect(text).toContain('/Outlines');
+    expect(text).toContain('/Subtype /Image');
+  });
+
+  it('continues long response tables over several pages up to the row limit', async () => {
+    const responses = Array.from({ length: PDF_RESPONSE_ROW_LIMIT + 20 }, (_, i) => ({
+      id: i + 1,
+      surveyId: 3,
+      respondentId: `r-${i + 1}`,
+      completed: i % 3 !== 0,
+      createdAt: '2026-04-01T08:30:00Z',
+      satisfactionScore: 7
+    }));
+
+    const pdf = await pdfReportService.render({
+      kind: 'company',
+      title: 'Acme',
+      companyName: 'Acme',
+      subjectId: 2,
+      data: { responses }
+    });
+
+    // 500 rows at 18pt on A4 take well over ten pages
+    expect(pageCount(pdf)).toBeGreaterThan(12);
+  });
+
+  it('still renders when no sections were selected', async () => {
+    const pdf = await pdfReportService.render({ kind: 'company', title: 'Acme', companyName: 'Acme', subjectId: 2, data: {} });
+    expect(pageCount(pdf)).toBe(2);
+  });
+});
+
+describe('PDF report data', () => {
+  it('reads breakdowns from lists and from label-to-count maps', () => {
+    expect(distributionEntries([{ label: 'Female', value: 21, percentage: 50 }, { range: '18-24', count: 4 }])).toEqual([
+      { label: 'Female', value: 50, unit: '%' },
+      { label: '18-24', value: 4 }
+    ]);
+    expect(distributionEntries([{ timeframe: 'Immediate', percentage: 15, count: 78 }])).toEqual([
+      { label: 'Immediate', value: 15, unit: '%' }
+    ]);
+    expect(distributionEntries({ Male: 267, Female: 243, note: 'n/a' })).toEqual([
+      { label: 'Male', value: 267 },
+      { label: 'Female', value: 243 }
+    ]);
+    expect(distributionEntries(undefined)).toEqual([]);
+    expect(distributionEntries(['just text', null])).toEqual([]);
+  });
+
+  it('only embeds PNG and JPEG logos', async () => {
+    expect(imageFormat(PNG_LOGO)).toBe('png');
+    expect(imageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('jpeg');
+    expect(imageFormat(Buffer.from('<svg></svg>'))).toBeNull();
+
+    expect(await pdfReportService.loadLogo(`data:image/png;base64,${PNG_LOGO.toString('base64')}`)).toEqual(PNG_LOGO);
+    expect(await pdfReportService.loadLogo(`data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}`)).toBeNull();
+    expect(await pdfReportService.loadLogo('/etc/passwd')).toBeNull();
+    expect(await pdfReportService.loadLogo(null)).toBeNull();
+  });
+
+  it('places radar axes clockwise from the top and clamps scores to the scale', () => {
+    const [x0, y0] = radarVertex(100, 100, 50, 0, 4, 1);
+    expect(x0).toBeCloseTo(100);
+    expect(y0).toBeCloseTo(50);
+    const [x1, y1] = radarVertex(100, 100, 50, 1, 4, 0.5);
+    expect(x1).toBeCloseTo(125);
+    expect(y1).toBeCloseTo(100);
+    expect(radarVertex(100, 100, 50, 2, 4, 1.5)[1]).toBeCloseTo(150);
+  });
+});
@@ -0,0 +1,435 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import express from 'express';
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_GROUPS,
+  Permission,
+  resolvePermissions,
+  rolePermissionsSchema,
+  userPermissionOverrideSchema
+} from '../../shared/permissions';
+import type { RouteAccess } from '../../server/middleware/permissionMiddleware';
+
+// The access every API route requires, keyed by method and path. A new route
+// must be added here together with its guard.
+const AUTH_ROUTES: Record<string, RouteAccess> = {
+  'POST /api/login': 'public',
+  'POST /api/auth/login': 'public',
+  'POST /api/logout': 'public',
+  'POST /api/auth/logout': 'public',
+  'POST /api/auth/login/verify': 'public',
+  'POST /api/auth/login/enroll': 'public',
+  'GET /api/me': 'authenticated',
+  'GET /api/auth/status': 'public',
+};
+
+const APP_ROUTES: Record<string, RouteAccess> = {
+  'GET /api/test/enhance-demo-account': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/settings': 'authenticated',
+  'GET /api/system/settings': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/settings': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/metrics': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/performance': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/errors': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/errors/clear': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/test-error': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/company/:id': 'authenticated',
+  'GET /api/company/:id/usage': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:id/analytics': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/analytics': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/drop-off': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/trait-model': Permission.VIEW_SURVEYS,
+  'PUT /api/surveys/:id/trait-model': Permission.EDIT_SURVEY,
+  'GET /api/surveys/:id/psychometrics': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/question-stats': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/versions': Permission.VIEW_SURVEYS,
+  'POST /api/surveys/:id/versions': Permission.EDIT_SURVEY,
+  'GET /api/surveys/:id/translations': Permission.VIEW_SURVEYS,
+  'PUT /api/surveys/:id/translations': Permission.EDIT_SURVEY,
+  'POST /api/surveys/:id/translations/:language/drafts': Permission.EDIT_SURVEY,
+  'POST /api/surveys/:id/translations/:language/publish': Permission.PUBLISH_SURVEY,
+  'POST /api/surveys/:id/translations/:language/unpublish': Permission.PUBLISH_SURVEY,
+  'POST /api/surveys/:id/versions/publish': Permission.PUBLISH_SURVEY,
+  'GET /api/surveys/:id/versions/compare': Permission.VIEW_SURVEYS,
+  'GET /api/surveys/:id/versions/:versionId': Permission.VIEW_SURVEYS,
+  'POST /api/surveys/:id/versions/:versionId/publish': Permission.PUBLISH_SURVEY,
+  'POST /api/surveys/:id/versions/:versionId/restore': Permission.EDIT_SURVEY,
+  'GET /api/surveys/:id/reviews': Permission.VIEW_SURVEYS,
+  'POST /api/surveys/:id/reviews': Permission.EDIT_SURVEY,
+  'POST /api/surveys/:id/reviews/:reviewId/decision': Permission.VIEW_SURVEYS,
+  'POST /api/surveys/:id/reviews/:reviewId/comments': Permission.VIEW_SURVEYS,
+  'POST /api/surveys/:id/reviews/:reviewId/cancel': Permission.EDIT_SURVEY,
+  'GET /api/surveys/:id/approval': Permission.VIEW_SURVEYS,
+  'GET /api/surveys/:id/quotas': Permission.VIEW_SURVEYS,
+  'PUT /api/surveys/:id/quotas': Permission.EDIT_SURVEY,
+  'PUT /api/surveys/:id/deployments/:deploymentId/quotas': Permission.EDIT_SURVEY,
+  'GET /api/company/:id/trends': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/trends': Permission.VIEW_ANALYTICS,
+  'GET /api/surveys/:id/export': Permission.EXPORT_DATA,
+  'GET /api/surveys/:id/responses/export': Permission.EXPORT_DATA,
+  'POST /api/surveys/:id/responses/export-jobs': Permission.EXPORT_DATA,
+  'GET /api/export-jobs': Permission.EXPORT_DATA,
+  'GET /api/export-jobs/:id': Permission.EXPORT_DATA,
+  'GET /api/export-jobs/:id/download': Permission.EXPORT_DATA,
+  'GET /api/company/:id/export': Permission.EXPORT_DATA,
+  'POST /api/reports/share': Permission.CREATE_REPORTS,
+  'GET /api/reports/shares': Permission.VIEW_REPORTS,
+  'POST /api/reports/shares/:id/revoke': Permission.CREATE_REPORTS,
+  'POST /api/reports/shares/:id/extend': Permission.CREATE_REPORTS,
+  'GET /api/reports/shares/:id/views': Permission.VIEW_REPORTS,
+  'GET /api/reports/shared/:token': 'public',
+  'GET /api/surveys/:id/analytics/realtime': Permission.VIEW_ANALYTICS,
+  'POST /api/survey-responses': 'authenticated',
+  'GET /api/backups/recent': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/admin/backup/recent': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/backups': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/backups': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/backups/upload': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/backups/settings': Permission.SYSTEM_CONFIGURATION,
+  'PUT /api/system/backups/settings': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/backups/:id/download': Permission.SYSTEM_CONFIGURATION,
+  'DELETE /api/system/backups/:id': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/backups/:id/restore': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/system/email/deliveries': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/email/deliveries/:id/retry': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/system/email/newsletter': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/email/bounces': 'public',
+  'GET /api/webhooks': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/webhooks': Permission.MANAGE_INTEGRATIONS,
+  'PUT /api/webhooks/:webhookId': Permission.MANAGE_INTEGRATIONS,
+  'DELETE /api/webhooks/:webhookId': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/webhooks/:webhookId/secret': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/webhooks/:webhookId/ping': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/webhooks/:webhookId/deliveries': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/webhooks/:webhookId/deliveries/:deliveryId': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/webhooks/:webhookId/deliveries/:deliveryId/replay': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/approval-workflow': Permission.VIEW_SURVEYS,
+  'PUT /api/approval-workflow': Permission.APPROVE_SURVEYS,
+  'GET /api/team': 'authenticated',
+  'POST /api/team/invitations': Permission.INVITE_USERS,
+  'DELETE /api/team/invitations/:invitationId': Permission.INVITE_USERS,
+  'PUT /api/team/members/:userId': Permission.MANAGE_USERS,
+  'DELETE /api/team/members/:userId': Permission.MANAGE_USERS,
+  'GET /api/invitations/:token': 'public',
+  'POST /api/invitations/:token/accept': 'public',
+  'GET /api/account/two-factor': 'authenticated',
+  'POST /api/account/two-factor/enroll': 'authenticated',
+  'POST /api/account/two-factor/confirm': 'authenticated',
+  'POST /api/account/two-factor/recovery-codes': 'authenticated',
+  'POST /api/account/two-factor/disable': 'authenticated',
+  'DELETE /api/account/two-factor/devices/:deviceId': 'authenticated',
+  'DELETE /api/account/two-factor/devices': 'authenticated',
+  'DELETE /api/admin/users/:userId/two-factor': Permission.MANAGE_CLIENT_ACCOUNTS,
+  'GET /api/permissions/me': 'authenticated',
+  'GET /api/admin/permissions': Permission.MANAGE_PERMISSIONS,
+  'PUT /api/admin/permissions/roles/:role': Permission.MANAGE_PERMISSIONS,
+  'POST /api/admin/permissions/roles/:role/reset': Permission.MANAGE_PERMISSIONS,
+  'PUT /api/admin/permissions/users/:userId': Permission.MANAGE_PERMISSIONS,
+  'DELETE /api/admin/permissions/users/:userId/:permission': Permission.MANAGE_PERMISSIONS,
+  'POST /api/privacy/requests': 'public',
+  'POST /api/privacy/requests/verify': 'public',
+  'GET /api/privacy/requests/download': 'public',
+  'GET /api/admin/privacy-requests': Permission.MANAGE_PRIVACY_REQUESTS,
+  'GET /api/admin/privacy-requests/:id': Permission.MANAGE_PRIVACY_REQUESTS,
+  'POST /api/admin/privacy-requests/:id/fulfil': Permission.MANAGE_PRIVACY_REQUESTS,
+  'POST /api/admin/privacy-requests/:id/reject': Permission.MANAGE_PRIVACY_REQUESTS,
+  'GET /api/integrations/providers': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/integrations': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/integrations': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/integrations/:integrationId': Permission.MANAGE_INTEGRATIONS,
+  'PUT /api/integrations/:integrationId': Permission.MANAGE_INTEGRATIONS,
+  'DELETE /api/integrations/:integrationId': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/integrations/:integrationId/test': Permission.MANAGE_INTEGRATIONS,
+  'POST /api/integrations/:integrationId/sync': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/integrations/:integrationId/contacts': Permission.MANAGE_INTEGRATIONS,
+  'GET /api/dev/emails/preview/:template?': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/admin/analytics': Permission.VIEW_PLATFORM_ANALYTICS,
+  'GET /api/admin/surveys': Permission.PLATFORM_ADMIN_ACCESS,
+  'GET /api/clients': Permission.PLATFORM_ADMIN_ACCESS,
+  'POST /api/clients': Permission.MANAGE_CLIENT_ACCOUNTS,
+  'GET /api/clients/:id': Permission.PLATFORM_ADMIN_ACCESS,
+  'DELETE /api/clients/:id': Permission.MANAGE_CLIENT_ACCOUNTS,
+  'PUT /api/clients/:id': Permission.MANAGE_CLIENT_ACCOUNTS,
+  'GET /api/licenses': Permission.PLATFORM_ADMIN_ACCESS,
+  'POST /api/invoices': Permission.BILLING_OPERATIONS,
+  'GET /api/invoices': Permission.BILLING_OPERATIONS,
+  'GET /api/company/:companyId/invoices': Permission.BILLING_OPERATIONS,
+  'GET /api/invoices/:invoiceId': Permission.BILLING_OPERATIONS,
+  'PUT /api/invoices/:invoiceId': Permission.BILLING_OPERATIONS,
+  'PATCH /api/invoices/:invoiceId/status': Permission.BILLING_OPERATIONS,
+  'POST /api/invoices/:invoiceId/pay': Permission.BILLING_OPERATIONS,
+  'GET /api/licenses/available': Permission.PLATFORM_ADMIN_ACCESS,
+  'POST /api/licenses': Permission.MANAGE_LICENSES,
+  'GET /api/licenses/:id': Permission.PLATFORM_ADMIN_ACCESS,
+  'PUT /api/licenses/:id': Permission.MANAGE_LICENSES,
+  'DELETE /api/licenses/:id': Permission.MANAGE_LICENSES,
+  'GET /api/survey-responses': Permission.VIEW_RESPONSES,
+  'GET /api/survey-responses/:id': Permission.VIEW_RESPONSES,
+  'GET /api/survey-responses/export': Permission.EXPORT_DATA,
+  'POST /api/survey-responses/:id/validate': Permission.EDIT_SURVEY,
+  'POST /api/survey-responses/:id/anonymize': Permission.EDIT_SURVEY,
+  'POST /api/survey/start': 'public',
+  'GET /api/survey/questions': 'public',
+  'POST /api/survey/answer': 'public',
+  'GET /api/survey/resume/:token': 'public',
+  'POST /api/survey/complete': 'public',
+  'GET /api/survey/results/:responseId': 'public',
+  'GET /api/debug/session': Permission.SYSTEM_CONFIGURATION,
+  'GET /api/debug/users': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/surveys': Permission.CREATE_SURVEY,
+  'GET /api/surveys': Permission.VIEW_SURVEYS,
+  'GET /api/dashboard/surveys': Permission.VIEW_SURVEYS,
+  'GET /api/surveys/:id': 'public',
+  'GET /api/survey/:id': 'public',
+  'GET /api/dashboard/surveys/:id': Permission.VIEW_SURVEYS,
+  'GET /api/surveys/:id/questions': 'public',
+  'PUT /api/surveys/:id': Permission.EDIT_SURVEY,
+  'DELETE /api/surveys/:id': Permission.DELETE_SURVEY,
+  'PATCH /api/surveys/:id/status': Permission.PUBLISH_SURVEY,
+  'POST /api/surveys/:id/reset': Permission.DELETE_SURVEY,
+  'POST /api/surveys/:id/flag': Permission.PLATFORM_ADMIN_ACCESS,
+  'POST /api/surveys/:id/notes': Permission.PLATFORM_ADMIN_ACCESS,
+  'GET /api/surveys/:id/flags': Permission.PLATFORM_ADMIN_ACCESS,
+  'POST /api/debug/clear-session': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/debug/test-survey-creation': Permission.SYSTEM_CONFIGURATION,
+  'POST /api/newsletter/subscribe': 'public',
+  'POST /api/newsletter/unsubscribe': 'public',
+  'POST /api/cookie-consent': 'public',
+  'GET /api/users/agents': Permission.MANAGE_SUPPORT_TICKETS,
+  'GET /api/support/tickets': Permission.MANAGE_SUPPORT_TICKETS,
+  'POST /api/support/ticket': 'authenticated',
+  'GET /api/support/tickets/:id/comments': Permission.MANAGE_SUPPORT_TICKETS,
+  'POST /api/support/tickets/:id/comments': Permission.MANAGE_SUPPORT_TICKETS,
+  'PATCH /api/support/tickets/:id': Permission.MANAGE_SUPPORT_TICKETS,
+  'GET /api/notifications': 'authenticated',
+  'POST /api/demo-request': 'public',
+  'GET /api/demo-request': Permission.MANAGE_SUPPORT_TICKETS,
+  'DELETE /api/demo-request/:id': Permission.MANAGE_SUPPORT_TICKETS,
+  'PATCH /api/demo-request/:id': Permission.MANAGE_SUPPORT_TICKETS,
+  'GET /api/health': 'public',
+  'GET /api/templates': 'public',
+  'GET /api/templates/:id': 'public',
+  'POST /api/templates': Permission.MANAGE_CONTENT,
+  'PUT /api/templates/:id': Permission.MANAGE_CONTENT,
+  'DELETE /api/templates/:id': Permission.MANAGE_CONTENT,
+  'POST /api/templates/:id/duplicate': Permission.CREATE_SURVEY,
+  'GET /api/blog/categories': 'public',
+  'GET /api/blog/categories/:id': 'public',
+  'POST /api/blog/categories': Permission.MANAGE_CONTENT,
+  'PUT /api/blog/categories/:id': Permission.MANAGE_CONTENT,
+  'DELETE /api/blog/categories/:id': Permission.MANAGE_CONTENT,
+  'GET /api/blog/articles': Permission.MANAGE_CONTENT,
+  'GET /api/blog/articles/published': 'public',
+  'GET /api/blog/articles/slug/:slug': 'public',
+  'GET /api/blog/articles/:id': 'public',
+  'POST /api/blog/articles': Permission.MANAGE_CONTENT,
+  'PUT /api/blog/articles/:id': Permission.MANAGE_CONTENT,
+  'DELETE /api/blog/articles/:id': Permission.MANAGE_CONTENT,
+  'GET /api/admin/blog/stats': Permission.MANAGE_CONTENT,
+  'POST /api/surveys/:id/generate-ai-responses': Permission.CREATE_REPORTS,
+  'GET /api/surveys/:id/ai-job-status': Permission.CREATE_REPORTS,
+  'GET /api/admin/notifications': Permission.PLATFORM_ADMIN_ACCESS,
+  'GET /api/admin/notifications/unread-count': Permission.PLATFORM_ADMIN_ACCESS,
+  'PATCH /api/admin/notifications/:id/read': Permission.PLATFORM_ADMIN_ACCESS,
+  'PATCH /api/admin/notifications/read-all': Permission.PLATFORM_ADMIN_ACCESS,
+  'DELETE /api/admin/notifications/:id': Permission.PLATFORM_ADMIN_ACCESS,
+};
+
+const COLLABORATION_ROUTES: Record<string, RouteAccess> = {
+  'POST /api/collaboration/:sessionId/join': Permission.VIEW_SURVEYS,
+  'GET /api/collaboration/': Permission.VIEW_SURVEYS,
+  'POST /api/collaboration/': Permission.EDIT_SURVEY,
+  'GET /api/collaboration/:sessionId/workspace': Permission.VIEW_SURVEYS,
+  'POST /api/collaboration/:sessionId/operations': Permission.EDIT_SURVEY,
+  'POST /api/collaboration/:sessionId/locks': Permission.EDIT_SURVEY,
+  'DELETE /api/collaboration/:sessionId/locks/:elementType/:elementId': Permission.EDIT_SURVEY,
+  'GET /api/collaboration/:sessionId': Permission.VIEW_SURVEYS,
+};
+
+const DEMO_DATA_ROUTES: Record<string, RouteAccess> = {
+  'GET /api/company/:companyId/analytics': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/competitors': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/market-fit/:productId': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/segments': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/feature-priorities': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/pricing-strategies': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/marketing-strategies': Permission.VIEW_ANALYTICS,
+  'GET /api/company/:companyId/revenue-forecasts': Permission.VIEW_ANALYTICS,
+  'POST /api/company/:companyId/focus-group': Permission.VIEW_ANALYTICS,
+};
+
+const ANALYTICS_ROUTES: Record<string, RouteAccess> = {
+  'GET /api/analytics/analytics': Permission.VIEW_PLATFORM_ANALYTICS,
+  'GET /api/analytics/system-health': Permission.SYSTEM_CONFIGURATION,
+};
+
+const NEWSLETTER_ROUTES: Record<string, RouteAccess> = {
+  'POST /api/newsletter/subscribe': 'public',
+  'POST /api/newsletter/unsubscribe': 'public',
+  'GET /api/newsletter/unsubscribe': 'public',
+};
+
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean>; stack: Array<{ handle: { access?: RouteAccess } }> };
+}
+
+// 'METHOD path' -> the access of the route's first handler, its guard
+function routeAccess(stack: RouteLayer[], prefix = ''): Array<[string, RouteAccess | undefined]> {
+  return stack.filter(layer => layer.route).flatMap(layer => {
+    const route = layer.route!;
+    return Object.keys(route.methods).map(method =>
+      [`${method.toUpperCase()} ${prefix}${route.path}`, route.stack[0].handle.access] as [string, RouteAccess | undefined]
+    );
+  });
+}
+
+describe('Permissions', () => {
+  it('adds active grants to the role and lets denials win', () => {
+    const permissions = resolvePermissions(
+      [Permission.VIEW_SURVEYS, Permission.EDIT_SURVEY],
+      [
+        { permission: Permission.EXPORT_DATA, granted: true, expiresAt: null },
+        { permission: Permission.EDIT_SURVEY, granted: false, expiresAt: null },
+        { permission: Permission.VIEW_SURVEYS, granted: true, expiresAt: null },
+        { permission: Permission.VIEW_SURVEYS, granted: false, expiresAt: null }
+      ]
+    );
+    expect(Array.from(permissions).sort()).toEqual([Permission.EXPORT_DATA]);
+  });
+
+  it('ignores grants and denials once they expire', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const overrides = [
+      { permission: Permission.EXPORT_DATA, granted: true, expiresAt: '2026-03-01T11:59:59Z' },
+      { permission: Permission.VIEW_REPORTS, granted: true, expiresAt: new Date('2026-03-02T00:00:00Z') },
+      { permission: Permission.VIEW_SURVEYS, granted: false, expiresAt: '2026-02-28T00:00:00Z' }
+    ];
+    expect(Array.from(resolvePermissions([Permission.VIEW_SURVEYS], overrides, now)).sort())
+      .toEqual([Permission.VIEW_REPORTS, Permission.VIEW_SURVEYS]);
+  });
+
+  it('drops permissions that are not in the catalogue', () => {
+    const permissions = resolvePermissions(['view_surveys', 'launch_rockets'], [
+      { permission: 'delete_everything', granted: true, expiresAt: null }
+    ]);
+    expect(Array.from(permissions)).toEqual([Permission.VIEW_SURVEYS]);
+  });
+
+  it('keeps the default role matrix and the admin groups within the catalogue', () => {
+    const grouped = PERMISSION_GROUPS.flatMap(group => group.permissions.map(permission => permission.id));
+    expect([...grouped].sort()).toEqual([...ALL_PERMISSIONS].sort());
+    for (const permissions of Object.values(DEFAULT_ROLE_PERMISSIONS)) {
+      expect(permissions.every(permission => ALL_PERMISSIONS.includes(permission))).toBe(true);
+    }
+    expect(DEFAULT_ROLE_PERMISSIONS.business_owner).toContain(Permission.APPROVE_SURVEYS);
+    expect(DEFAULT_ROLE_PERMISSIONS.report_viewer).not.toContain(Permission.EDIT_SURVEY);
+  });
+
+  it('validates role permissions and user overrides', () => {
+    expect(rolePermissionsSchema.safeParse({ permissions: [Permission.VIEW_SURVEYS] }).success).toBe(true);
+    expect(rolePermissionsSchema.safeParse({ permissions: ['launch_rockets'] }).success).toBe(false);
+    expect(userPermissionOverrideSchema.parse({ permission: Permission.EXPORT_DATA }).granted).toBe(true);
+    expect(userPermissionOverrideSchema.safeParse({
+      permission: Permission.EXPORT_DATA,
+      expiresAt: new Date(Date.now() - 60_000).toISOString()
+    }).success).toBe(false);
+    expect(userPermissionOverrideSchema.safeParse({
+      permission: Permission.EXPORT_DATA,
+      granted: false,
+      expiresAt: new Date(Date.now() + 3_600_000).toISOString()
+    }).success).toBe(true);
+  });
+});
+
+describe('Permission guards', () => {
+  const response = () => {
+    const res: any = { req: { originalUrl: '/api/test' } };
+    res.status = vi.fn(() => res);
+    res.json = vi.fn(() => res);
+    return res;
+  };
+
+  it('rejects requests without a session and ignores mock admin headers', async () => {
+    const { requirePermission, requireSignedIn, publicRoute } = await import('../../server/middleware/permissionMiddleware');
+    const { permissionService } = await import('../../server/services/permission-service');
+    const guard = requirePermission(Permission.EXPORT_DATA);
+    const mockHeaders = { 'x-mock-admin': 'true', 'x-user-role': 'platform_admin' };
+
+    let res = response();
+    const next = vi.fn();
+    await guard({ headers: {}, session: {} } as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+
+    res = response();
+    await guard({ headers: mockHeaders, session: {} } as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+
+    // A signed-in user sending the headers keeps their own role's permissions
+    const permissionsFor = vi.spyOn(permissionService, 'permissionsFor')
+      .mockResolvedValue(new Set(DEFAULT_ROLE_PERMISSIONS.report_viewer));
+    const viewer: any = { headers: mockHeaders, session: { userId: 4 }, user: { id: 4, role: 'report_viewer' } };
+    res = response();
+    await guard(viewer, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(viewer.permissions.has(Permission.MANAGE_PERMISSIONS)).toBe(false);
+    expect(next).not.toHaveBeenCalled();
+    permissionsFor.mockRestore();
+
+    res = response();
+    requireSignedIn({ headers: mockHeaders, session: {} } as any, res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+
+    requireSignedIn({ headers: {}, session: { userId: 4 } } as any, response(), next);
+    publicRoute({ headers: {} } as any, response(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Route permissions', () => {
+  let appRoutes: Array<[string, RouteAccess | undefined]> = [];
+  let routerRoutes: Array<[string, RouteAccess | undefined]> = [];
+
+  beforeAll(async () => {
+    const { registerRoutes } = await import('../../server/routes');
+    const { setupAuth } = await import('../../server/auth');
+    const app = express();
+    setupAuth(app);
+    await registerRoutes(app as any, {} as any);
+    appRoutes = routeAccess((app as any)._router.stack);
+
+    const collaborationRouter = (await import('../../server/routes/collaboration')).default;
+    const { demoDataRouter } = await import('../../server/routes/demoData');
+    const analyticsRouter = (await import('../../server/routes/analyticsRoutes')).default;
+    const newsletterRouter = (await import('../../server/newsletter')).default;
+    routerRoutes = [
+      ...routeAccess((collaborationRouter as any).stack, '/api/collaboration'),
+      ...routeAccess((demoDataRouter as any).stack, '/api'),
+      ...routeAccess((analyticsRouter as any).stack, '/api/analytics'),
+      ...routeAccess((newsletterRouter as any).stack, '/api/newsletter')
+    ];
+  }, 60_000);
+
+  it('puts a permission guard in front of every route', () => {
+    const unguarded = [...appRoutes, ...routerRoutes].filter(([, access]) => !access).map(([route]) => route);
+    expect(unguarded).toEqual([]);
+  });
+
+  it('requires the expected permission on every app route', () => {
+    const expected = { ...AUTH_ROUTES, ...APP_ROUTES };
+    for (const [route, access] of appRoutes) {
+      expect({ route, access }).toEqual({ route, access: expected[route] });
+    }
+    expect(new Set(appRoutes.map(([route]) => route))).toEqual(new Set(Object.keys(expected)));
+  });
+
+  it('requires the expected permission on every router route', () => {
+    expect(Object.fromEntries(routerRoutes)).toEqual({
+      ...COLLABORATION_ROUTES,
+      ...DEMO_DATA_ROUTES,
+      ...ANALYTICS_ROUTES,
+      ...NEWSLETTER_ROUTES
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_PSYCHOMETRIC_SAMPLE, computePsychometrics, cronbachAlpha } from '../../server/utils/psychometrics';
+import { TraitModel } from '../../shared/traitModel';
+
+// Five respondents answering four 0-4 items; the fourth runs against the other three
+const scores = [
+  [4, 3, 4, 0],
+  [3, 3, 2, 1],
+  [2, 1, 2, 4],
+  [1, 2, 1, 3],
+  [0, 0, 1, 2]
+];
+
+const model: TraitModel = [
+  { name: 'Openness', category: 'personality' },
+  { name: 'Risk Tolerance', category: 'risk' }
+];
+
+// Openness is measured by the first three items, Risk Tolerance by all four
+const slider = (id: number, traitWeights: Record<string, number>) => ({
+  id,
+  question: `Item ${id}`,
+  questionType: 'slider',
+  sliderConfig: { min: 0, max: 4, traitWeights }
+});
+
+const questions = [
+  slider(1, { Openness: 1, 'Risk Tolerance': 1 }),
+  slider(2, { Openness: 1, 'Risk Tolerance': 1 }),
+  slider(3, { Openness: 1, 'Risk Tolerance': 1 }),
+  slider(4, { 'Risk Tolerance': 1 })
+];
+
+const responses = [
+  ...scores.map(row => row.map((answer, index) => ({ questionId: index + 1, answer }))),
+  // Only answered the first item, so it is left out of alpha and the correlations
+  [{ questionId: 1, answer: 2 }]
+];
+
+const firstThree = scores.map(row => row.slice(0, 3));
+
+describe("Cronbach's alpha", () => {
+  it('matches the hand-computed value and does not depend on the scale', () => {
+    // Item variances 2.5 + 1.7 + 1.5 over a total variance of 14.7: 1.5 * (1 - 5.7 / 14.7)
+    expect(cronbachAlpha(firstThree)).toBeCloseTo(45 / 49, 10);
+    expect(cronbachAlpha(firstThree.map(row => row.map(value => value / 4)))).toBeCloseTo(45 / 49, 10);
+    expect(cronbachAlpha(scores)).toBeCloseTo(0.144928, 6);
+  });
+
+  it('needs two items, two respondents and some variance', () => {
+    expect(cronbachAlpha(scores.map(row => [row[0]]))).toBeNull();
+    expect(cronbachAlpha([scores[0]])).toBeNull();
+    expect(cronbachAlpha([[2, 2], [2, 2], [2, 2]])).toBeNull();
+    expect(cronbachAlpha([])).toBeNull();
+  });
+});
+
+describe('Psychometrics report', () => {
+  const report = computePsychometrics(model, questions, responses);
+  const [openness, riskTolerance] = report.traits;
+
+  it('reports alpha per trait from respondents who answered every item', () => {
+    expect(openness).toMatchObject({ itemCount: 3, completeCases: 5, alpha: 0.918, interpretation: 'excellent' });
+    expect(riskTolerance).toMatchObject({ itemCount: 4, completeCases: 5, alpha: 0.145, interpretation: 'unacceptable' });
+  });
+
+  it('computes corrected item-total correlations and alpha if deleted', () => {
+    expect(openness.items.map(item => [item.questionId, item.respondents, item.difficulty, item.itemTotalCorrelation, item.alphaIfDeleted]))
+      .toEqual([
+        [1, 6, 0.5, 0.971, 0.769],
+        [2, 5, 0.45, 0.77, 0.933],
+        [3, 5, 0.5, 0.809, 0.909]
+      ]);
+    expect(riskTolerance.items.map(item => [item.itemTotalCorrelation, item.alphaIfDeleted]))
+      .toEqual([[0.77, -1.667], [0.542, -0.667], [0.565, -0.638], [-0.66, 0.918]]);
+  });
+
+  it('flags items that work against their trait', () => {
+    expect(openness.items.map(item => item.flags)).toEqual([[], ['alpha_improves_if_removed'], []]);
+    expect(report.weakItems).toEqual([
+      { trait: 'Openness', questionId: 2, question: 'Item 2', flags: ['alpha_improves_if_removed'] },
+      {
+        trait: 'Risk Tolerance',
+        questionId: 4,
+        question: 'Item 4',
+        flags: ['negative_item_total_correlation', 'alpha_improves_if_removed']
+      }
+    ]);
+  });
+
+  it('warns about small samples and surveys without weighted items', () => {
+    expect(report).toMatchObject({ responseCount: 6, hasEnoughData: false, minimumSample: MIN_PSYCHOMETRIC_SAMPLE });
+    expect(report.message).toContain('Collect at least 10 responses');
+
+    const unweighted = computePsychometrics(model, [{ id: 1, questionType: 'text' }], responses);
+    expect(unweighted.traits.every(trait => trait.itemCount === 0 && trait.alpha === null)).toBe(true);
+    expect(unweighted.message).toContain('No question carries trait weights');
+  });
+});
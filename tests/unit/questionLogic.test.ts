@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { getVisibleQuestions, renumberQuestions, resolveDisplayLogic } from '../../shared/questionLogic';
+import { pruneHiddenAnswers, validateSurveyResponse } from '../../server/utils/surveyUtils';
+import { buildDropOffReport } from '../../server/services/survey-session-service';
+import { SurveySessionStatus } from '../../shared/schema';
+
+const questions = [
+  {
+    id: 10,
+    order: 1,
+    question: 'Do you own a car?',
+    questionType: 'multiple-choice',
+    required: true,
+    options: [
+      { id: 'opt_yes', text: 'Yes', value: 'yes' },
+      { id: 'opt_no', text: 'No', value: 'no' }
+    ]
+  },
+  {
+    id: 11,
+    order: 2,
+    question: 'How happy are you with it?',
+    questionType: 'slider',
+    required: true,
+    displayLogic: { action: 'show', match: 'all', conditions: [{ questionOrder: 1, operator: 'equals', value: 'opt_yes' }] }
+  },
+  {
+    id: 12,
+    order: 3,
+    question: 'Rank what matters most',
+    questionType: 'ranking',
+    required: false,
+    options: ['Price', 'Safety', 'Comfort'],
+    displayLogic: { action: 'skip', match: 'any', conditions: [{ questionOrder: 2, operator: 'range', min: 0, max: 20 }] }
+  },
+  {
+    id: 13,
+    order: 4,
+    question: 'Why those?',
+    questionType: 'text',
+    required: true,
+    displayLogic: { action: 'show', match: 'all', conditions: [{ questionOrder: 3, operator: 'answer_count', min: 2 }] }
+  }
+];
+
+const visibleIds = (answers: Record<string, unknown>) => getVisibleQuestions(questions, answers).map(q => q.id);
+
+describe('Question display logic', () => {
+  it('shows questions whose conditions match the answers so far', () => {
+    expect(visibleIds({})).toEqual([10, 12]);
+    expect(visibleIds({ 10: 'yes' })).toEqual([10, 11, 12]);
+    expect(visibleIds({ 10: 'Yes' })).toEqual([10, 11, 12]);
+    expect(visibleIds({ 10: 'no' })).toEqual([10, 12]);
+  });
+
+  it('evaluates slider ranges and ranking answer counts', () => {
+    expect(visibleIds({ 10: 'yes', 11: 15 })).toEqual([10, 11]);
+    expect(visibleIds({ 10: 'yes', 11: '80', 12: JSON.stringify([{ rank: 1, option: 'Safety' }]) })).toEqual([10, 11, 12]);
+    expect(visibleIds({ 10: 'yes', 11: '80', 12: ['Safety', 'Price'] })).toEqual([10, 11, 12, 13]);
+  });
+
+  it('ignores answers to questions that are hidden', () => {
+    // Question 11 is hidden again, so its low score no longer skips question 12
+    expect(visibleIds({ 10: 'no', 11: 5 })).toEqual([10, 12]);
+  });
+
+  it('matches any of several options', () => {
+    const list = [
+      questions[0],
+      {
+        id: 20,
+        order: 2,
+        displayLogic: { action: 'show', match: 'all', conditions: [{ questionOrder: 1, operator: 'in', values: ['opt_no', 'maybe'] }] }
+      }
+    ];
+    expect(getVisibleQuestions(list, { 10: 'no' }).map(q => q.id)).toEqual([10, 20]);
+    expect(getVisibleQuestions(list, { 10: 'yes' }).map(q => q.id)).toEqual([10]);
+  });
+
+  it('drops unusable conditions and references to later questions', () => {
+    const logic = resolveDisplayLogic({
+      action: 'show',
+      match: 'all',
+      conditions: [
+        { questionOrder: 1, operator: 'equals', value: 'yes' },
+        { questionOrder: 1, operator: 'in', values: [] },
+        { questionOrder: 3, operator: 'equals', value: 'yes' }
+      ]
+    }, 2);
+
+    expect(logic?.conditions).toEqual([{ questionOrder: 1, operator: 'equals', value: 'yes' }]);
+    expect(resolveDisplayLogic({ action: 'show', match: 'all', conditions: [] })).toBeNull();
+    expect(resolveDisplayLogic('not json')).toBeNull();
+  });
+
+  it('keeps rules pointed at the same question when questions move', () => {
+    const [first, second, third] = renumberQuestions([questions[1], questions[0], questions[2]]);
+
+    // The slider now comes before the question it depends on, so its rule is dropped
+    expect(first.displayLogic).toBeUndefined();
+    expect(second.order).toBe(2);
+    expect((third.displayLogic as any).conditions[0].questionOrder).toBe(1);
+  });
+});
+
+describe('Survey response validation with display logic', () => {
+  const survey = { questions } as any;
+
+  it('only requires answers to questions that were shown', () => {
+    expect(validateSurveyResponse({ responses: [{ questionId: 10, answer: 'no' }] } as any, survey).valid).toBe(true);
+
+    const result = validateSurveyResponse({ responses: [{ questionId: 10, answer: 'yes' }] } as any, survey);
+    expect(result.valid).toBe(false);
+    expect(Object.keys(result.errors!)).toEqual(['11']);
+  });
+
+  it('rejects answers to hidden questions unless they are pruned first', () => {
+    const responses = [{ questionId: 10, answer: 'no' }, { questionId: 11, answer: 50 }];
+
+    const result = validateSurveyResponse({ responses } as any, survey);
+    expect(result.errors?.['11']).toEqual(['This question was not shown and cannot be answered']);
+
+    const pruned = pruneHiddenAnswers(questions, responses);
+    expect(pruned).toEqual([{ questionId: 10, answer: 'no' }]);
+    expect(validateSurveyResponse({ responses: pruned } as any, survey).valid).toBe(true);
+  });
+
+  it('accepts a slider answer of zero', () => {
+    const responses = [{ questionId: 10, answer: 'yes' }, { questionId: 11, answer: 0 }];
+    expect(validateSurveyResponse({ responses } as any, survey).valid).toBe(true);
+  });
+});
+
+describe('Drop-off report with display logic', () => {
+  it('counts only sessions that were shown each question', () => {
+    const report = buildDropOffReport(1, questions, [
+      { status: SurveySessionStatus.COMPLETED, answers: { 10: 'no', 12: ['Price', 'Safety'], 13: 'Budget' } },
+      { status: SurveySessionStatus.COMPLETED, answers: { 10: 'yes', 11: 70, 12: ['Safety'] } },
+      { status: SurveySessionStatus.ABANDONED, answers: { 10: 'no' } }
+    ]);
+
+    const byId = Object.fromEntries(report.questions.map(q => [q.questionId, q]));
+    expect(byId[10].reached).toBe(3);
+    expect(byId[11].reached).toBe(1);
+    expect(byId[12].reached).toBe(3);
+    expect(byId[12].droppedHere).toBe(1);
+    expect(byId[13].reached).toBe(1);
+    expect(byId[13].answered).toBe(1);
+  });
+});
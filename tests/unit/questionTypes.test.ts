@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUESTION_TYPE_IDS,
+  QUESTION_TYPES,
+  aggregateQuestionAnswers,
+  checkQuestionAnswer,
+  csvHeadersFor,
+  flattenQuestionAnswer,
+  getQuestionType,
+  sampleQuestionAnswer,
+  validateQuestionConfig
+} from '../../shared/questionTypes';
+import { generateCSV, validateQuestionConfigs, validateSurveyResponse } from '../../server/utils/surveyUtils';
+import { computeQuestionStats } from '../../server/utils/questionStats';
+
+const choice = {
+  id: 1,
+  order: 1,
+  question: 'Favourite colour?',
+  questionType: 'multiple-choice',
+  required: true,
+  options: [
+    { id: 'opt_red', text: 'Red', value: 'red' },
+    { id: 'opt_blue', text: 'Blue', value: 'blue' }
+  ]
+};
+const slider = { id: 2, order: 2, question: 'How likely, 1-10?', questionType: 'slider', required: true, sliderConfig: { min: 1, max: 10 } };
+const ranking = { id: 3, order: 3, question: 'Rank these', questionType: 'ranking', required: false, options: ['Price', 'Safety', 'Comfort'] };
+const text = { id: 4, order: 4, question: 'Anything else?', questionType: 'text', required: false };
+const scenario = { id: 5, order: 5, question: 'What would you do?', questionType: 'scenario', required: false, scenarioText: 'Your flight is cancelled.' };
+
+describe('Question type registry', () => {
+  it('defines every question type', () => {
+    expect(Object.keys(QUESTION_TYPES).sort()).toEqual([...QUESTION_TYPE_IDS].sort());
+    QUESTION_TYPE_IDS.forEach(type => expect(QUESTION_TYPES[type].type).toBe(type));
+    expect(getQuestionType('made-up')).toBe(QUESTION_TYPES['multiple-choice']);
+  });
+
+  it('validates answers against each type and its settings', () => {
+    expect(checkQuestionAnswer(choice, 'red').valid).toBe(true);
+    expect(checkQuestionAnswer(choice, 'Blue').valid).toBe(true);
+    expect(checkQuestionAnswer(choice, 'green').valid).toBe(false);
+
+    expect(checkQuestionAnswer(slider, '7').valid).toBe(true);
+    expect(checkQuestionAnswer(slider, 11)).toEqual({ valid: false, errors: ['Must be between 1 and 10'] });
+    expect(checkQuestionAnswer(slider, 'lots').valid).toBe(false);
+
+    const stored = JSON.stringify([{ rank: 2, option: 'Price', value: 'Price' }, { rank: 1, option: 'Safety', value: 'Safety' }]);
+    expect(checkQuestionAnswer(ranking, stored)).toEqual({ valid: true, answer: ['Safety', 'Price'] });
+    expect(checkQuestionAnswer(ranking, ['Price', 'Price']).valid).toBe(false);
+
+    expect(checkQuestionAnswer(scenario, 'I would rebook').valid).toBe(true);
+    expect(checkQuestionAnswer({ ...scenario, options: ['Rebook', 'Complain'] }, 'Panic').valid).toBe(false);
+  });
+
+  it('flattens answers into CSV columns', () => {
+    expect(csvHeadersFor(ranking)).toEqual(['Rank these [Price]', 'Rank these [Safety]', 'Rank these [Comfort]']);
+    expect(flattenQuestionAnswer(ranking, ['Comfort', 'Price'])).toEqual([2, '', 1]);
+    expect(flattenQuestionAnswer(choice, 'opt_blue')).toEqual(['Blue']);
+    expect(flattenQuestionAnswer(slider, undefined)).toEqual(['']);
+    expect(flattenQuestionAnswer(ranking, 'not a ranking')).toEqual(['not a ranking', '', '']);
+  });
+
+  it('aggregates answers by type', () => {
+    const colours = aggregateQuestionAnswers(choice, ['red', 'red', 'blue', 'green']);
+    expect(colours).toMatchObject({ kind: 'choice', responses: 4, other: 1 });
+    expect(colours.kind === 'choice' && colours.options.map(o => o.count)).toEqual([2, 1]);
+
+    const scores = aggregateQuestionAnswers(slider, [2, '4', 9, 'n/a']);
+    expect(scores).toMatchObject({ kind: 'numeric', responses: 3, mean: 5, median: 4, min: 2, max: 9 });
+
+    const ranks = aggregateQuestionAnswers(ranking, [['Safety', 'Price'], ['Safety', 'Comfort', 'Price']]);
+    expect(ranks.kind === 'ranking' && ranks.options).toEqual([
+      { value: 'Price', label: 'Price', averageRank: 2.5, firstPlace: 0 },
+      { value: 'Safety', label: 'Safety', averageRank: 1, firstPlace: 2 },
+      { value: 'Comfort', label: 'Comfort', averageRank: 2, firstPlace: 0 }
+    ]);
+
+    expect(aggregateQuestionAnswers(text, ['ok', 'fine'])).toMatchObject({ kind: 'text', responses: 2, averageLength: 3 });
+  });
+
+  it('generates sample answers that pass validation', () => {
+    let seed = 0;
+    const random = () => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+    for (const question of [choice, slider, ranking]) {
+      for (let i = 0; i < 20; i++) {
+        expect(checkQuestionAnswer(question, sampleQuestionAnswer(question, random)).valid).toBe(true);
+      }
+    }
+    expect(sampleQuestionAnswer(text)).toBeNull();
+  });
+
+  it('validates question settings from the editor', () => {
+    expect(validateQuestionConfig({ questionType: 'slider', sliderConfig: { min: 10, max: 5 } }))
+      .toEqual(['Slider minimum must be below its maximum']);
+    expect(validateQuestionConfig({ questionType: 'ranking', options: [] })).toEqual(['Add at least one option']);
+    expect(validateQuestionConfig({ questionType: 'poll' })).toEqual(['Unknown question type: poll']);
+    expect(validateQuestionConfigs([choice, { question: 'Untitled', options: [{ text: ' ' }] }]))
+      .toEqual({ question_2: ['Every option needs text'] });
+    expect(validateQuestionConfigs([choice, slider, ranking, text, scenario])).toBeNull();
+  });
+});
+
+describe('Survey responses with question types', () => {
+  it('reports answers that do not fit their question', () => {
+    const survey = { questions: [choice, slider] } as any;
+    const result = validateSurveyResponse({ responses: [{ questionId: 1, answer: 'green' }, { questionId: 2, answer: 0 }] } as any, survey);
+
+    expect(result.errors).toEqual({
+      1: ['Not an option of this question: green'],
+      2: ['Must be between 1 and 10']
+    });
+  });
+
+  it('exports one column per question with escaped values', () => {
+    const csv = generateCSV([
+      {
+        id: 7,
+        surveyId: 1,
+        responses: [
+          { questionId: 1, answer: 'red' },
+          { questionId: 3, answer: JSON.stringify([{ rank: 1, option: 'Comfort', value: 'Comfort' }]) },
+          { questionId: 4, answer: 'Cheap, "quiet" and safe' }
+        ],
+        traits: [{ name: 'Openness', score: 70 }],
+        demographics: { age: 30 }
+      }
+    ], null, [choice, slider, ranking, text]);
+
+    const [header, row] = csv.trim().split('\n');
+    expect(header).toBe(
+      'id,surveyId,companyId,respondentId,respondentEmail,ipAddress,source,startTime,completeTime,createdAt,' +
+      'Favourite colour?,"How likely, 1-10?",Rank these [Price],Rank these [Safety],Rank these [Comfort],Anything else?,' +
+      'trait_Openness,demographic_age'
+    );
+    expect(row).toBe('7,1,,,,,,,,,Red,,,,1,"Cheap, ""quiet"" and safe",70,30');
+  });
+
+  it('summarizes only the respondents each question was shown to', () => {
+    const followUp = {
+      ...text,
+      displayLogic: { action: 'show', match: 'all', conditions: [{ questionOrder: 1, operator: 'equals', value: 'blue' }] }
+    };
+    const stats = computeQuestionStats([followUp, choice], [
+      new Map<string, any>([['1', 'blue'], ['4', 'Calm']]),
+      new Map<string, any>([['1', 'red']])
+    ]);
+
+    expect(stats.map(s => [s.questionId, s.shown, s.answered])).toEqual([[1, 2, 2], [4, 1, 1]]);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  QuotaPlan,
+  computeQuotaStatus,
+  evaluateQuotas,
+  quotaStatusFromCounts,
+  resolveQuotaPlan
+} from '../../shared/quotas';
+
+const mocks = vi.hoisted(() => ({ transaction: vi.fn() }));
+
+vi.mock('../../server/db', () => ({ pool: {}, db: { transaction: mocks.transaction } }));
+
+import { quotaCellCondition, quotaService } from '../../server/services/quota-service';
+
+const plan: QuotaPlan = {
+  sampleSize: 10,
+  cells: [
+    { id: 'women', label: 'Women', conditions: [{ field: 'gender', values: ['female'] }], limitType: 'max', unit: 'percent', value: 50 },
+    { id: 'young', label: 'Under 35', conditions: [{ field: 'age', min: 18, max: 34 }], limitType: 'min', unit: 'count', value: 3 }
+  ]
+};
+
+const respondents = (count: number, demographics: Record<string, unknown>) =>
+  Array.from({ length: count }, () => ({ ...demographics }));
+
+describe('Quota sampling', () => {
+  it('reads stored plans and ignores unusable ones', () => {
+    expect(resolveQuotaPlan(JSON.stringify(plan))).toEqual(plan);
+    expect(resolveQuotaPlan({ cells: [] })).toBeNull();
+    expect(resolveQuotaPlan({ cells: [{ ...plan.cells[0], unit: 'percent', value: 120 }] })).toBeNull();
+    expect(resolveQuotaPlan('not json')).toBeNull();
+  });
+
+  it('counts responses into cells against their targets', () => {
+    const status = computeQuotaStatus(plan, [
+      ...respondents(3, { gender: 'Female', age: 25 }),
+      ...respondents(2, { gender: 'male', age: 45 })
+    ]);
+
+    expect(status).toMatchObject({ sampleSize: 10, total: 5, full: false });
+    expect(status.cells.map(cell => [cell.id, cell.target, cell.count, cell.fill, cell.full])).toEqual([
+      ['women', 5, 3, 60, false],
+      ['young', 3, 3, 100, true]
+    ]);
+  });
+
+  it('leaves percent targets open until there is a sample size', () => {
+    const status = computeQuotaStatus({ cells: plan.cells }, respondents(2, { gender: 'female' }));
+    expect(status.cells[0]).toMatchObject({ target: null, fill: null, full: false });
+    expect(computeQuotaStatus({ cells: plan.cells }, [], 20).cells[0].target).toBe(10);
+  });
+
+  it('screens out respondents in full cells and outside cells that need the remaining sample', () => {
+    const halfFull = computeQuotaStatus(plan, [
+      ...respondents(5, { gender: 'female', age: 45 }),
+      ...respondents(2, { gender: 'male', age: 25 })
+    ]);
+    expect(evaluateQuotas(halfFull, plan, { gender: 'female', age: 25 })).toEqual({ accepted: false, reasons: ['Women'] });
+    expect(evaluateQuotas(halfFull, plan, { gender: 'male', age: 25 })).toEqual({ accepted: true, reasons: [] });
+
+    // Three places left and one more young respondent needed: older men still fit
+    expect(evaluateQuotas(halfFull, plan, { gender: 'male', age: 55 }).accepted).toBe(true);
+
+    const nearlyFull = computeQuotaStatus(plan, [
+      ...respondents(5, { gender: 'female', age: 45 }),
+      ...respondents(4, { gender: 'male', age: 55 })
+    ]);
+    expect(evaluateQuotas(nearlyFull, plan, { gender: 'male', age: 55 })).toEqual({ accepted: false, reasons: ['Under 35'] });
+    expect(evaluateQuotas(nearlyFull, plan, { gender: 'male', age: 18 }).accepted).toBe(true);
+  });
+
+  it('closes the survey once the sample size is reached', () => {
+    const status = computeQuotaStatus({ sampleSize: 2, cells: [] }, respondents(2, {}));
+    expect(evaluateQuotas(status, { sampleSize: 2, cells: [] }, { gender: 'male' })).toEqual({
+      accepted: false,
+      reasons: ['Sample size']
+    });
+  });
+});
+
+describe('Quota counting in the database', () => {
+  const dialect = new PgDialect();
+
+  afterEach(() => mocks.transaction.mockReset());
+
+  // A transaction over a survey with the plan above whose responses count as given
+  const transaction = (counts: Record<string, number>, steps: string[]) => ({
+    execute: async (query: any) => {
+      steps.push(dialect.sqlToQuery(query).sql);
+    },
+    query: {
+      surveys: { findFirst: async () => ({ id: 7, quotas: plan, maxResponses: null }) },
+      clientSurveyDeployments: { findFirst: async () => undefined }
+    },
+    select: () => ({
+      from: () => ({
+        where: async () => {
+          steps.push('count');
+          return [counts];
+        }
+      })
+    })
+  });
+
+  it('matches cells in SQL the way matchesQuotaCell does', () => {
+    const query = dialect.sqlToQuery(quotaCellCondition({
+      ...plan.cells[0],
+      conditions: [{ field: 'gender', values: [' Female ', 'F'] }, { field: 'age', min: 18, max: 34 }]
+    }));
+
+    expect(query.sql).toContain('lower(trim(("survey_responses"."demographics" ->> $1::text))) in ($2, $3)');
+    expect(query.sql).toContain('::numeric END) >= $');
+    expect(query.params).toEqual(expect.arrayContaining(['gender', 'female', 'f', 'age', 18, 34]));
+  });
+
+  it('reads fill levels from counts', () => {
+    const status = quotaStatusFromCounts(plan, { total: 5, cells: [3, 3] });
+    expect(status).toEqual(computeQuotaStatus(plan, [
+      ...respondents(3, { gender: 'Female', age: 25 }),
+      ...respondents(2, { gender: 'male', age: 45 })
+    ]));
+  });
+
+  it('checks and saves respondents under the survey lock', async () => {
+    const steps: string[] = [];
+    mocks.transaction.mockImplementation(async (run: any) => run(transaction({ total: 6, cell0: 4, cell1: 3 }, steps)));
+    const save = vi.fn(async () => ({ id: 1 }));
+
+    const admission = await quotaService.admitRespondent(7, null, { gender: 'female', age: 25 }, save);
+    expect(admission).toMatchObject({ check: { accepted: true, hasQuotas: true }, saved: { id: 1 } });
+    expect(steps[0]).toContain('pg_advisory_xact_lock');
+    expect(steps.indexOf('count')).toBeGreaterThan(0);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('screens out respondents without saving when their cell filled up', async () => {
+    mocks.transaction.mockImplementation(async (run: any) => run(transaction({ total: 6, cell0: 5, cell1: 3 }, [])));
+    const save = vi.fn(async () => ({ id: 1 }));
+
+    const admission = await quotaService.admitRespondent(7, null, { gender: 'female', age: 25 }, save);
+    expect(admission).toMatchObject({ check: { accepted: false, reasons: ['Women'] }, saved: null });
+    expect(save).not.toHaveBeenCalled();
+  });
+});
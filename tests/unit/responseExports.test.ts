@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { createResponseCoder, createVariableNamer, type ExportResponseRow } from '../../server/utils/responseCodebook';
+import {
+  createSavLayout,
+  encodeSavCase,
+  encodeSavDictionary,
+  SAV_CASE_COUNT_OFFSET,
+  truncateUtf8
+} from '../../server/utils/savWriter';
+import { codeQuestionAnswer } from '../../shared/questionTypes';
+import { responseExportRequestSchema } from '../../shared/responseExports';
+
+const questions = [
+  {
+    id: 11,
+    question: 'Which channels do you use?',
+    questionType: 'multiple-choice',
+    options: [{ id: 'opt_email', text: 'Email', value: 'email' }, { id: 'opt_chat', text: 'Chat', value: 'chat' }]
+  },
+  { id: 12, question: 'How likely, 1-10?', questionType: 'slider', sliderConfig: { min: 1, max: 10, minLabel: 'Never', maxLabel: 'Certainly' } },
+  { id: 13, question: 'Rank these', questionType: 'ranking', options: ['Price', 'Safety', 'Comfort'] },
+  { id: 14, question: 'Pick a mood', questionType: 'mood-board', options: ['Calm', 'Bold'] },
+  { id: 15, question: 'Anything else?', questionType: 'text' }
+];
+
+const row = (overrides: Partial<ExportResponseRow> = {}): ExportResponseRow => ({
+  id: 7,
+  surveyVersionId: 3,
+  respondentId: 'resp-7',
+  source: 'email',
+  language: 'de',
+  completed: true,
+  isAIGenerated: false,
+  startTime: new Date('2026-05-01T10:00:00Z'),
+  completeTime: new Date('2026-05-01T10:04:00Z'),
+  completionTimeSeconds: 240,
+  satisfactionScore: 9,
+  responses: [
+    { questionId: 11, answer: ['chat'] },
+    { questionId: 12, answer: '8' },
+    { questionId: 13, answer: ['Safety', 'Price'] },
+    { questionId: 14, answer: 'Bold' },
+    { questionId: 15, answer: 'Faster replies, please' }
+  ],
+  traits: [{ name: 'leadership', score: 71 }],
+  demographics: { gender: 'female', age: 34 },
+  ...overrides
+});
+
+const coder = () => createResponseCoder({
+  questions,
+  traitModel: [{ name: 'Leadership', category: 'social' }, { name: 'Analytical Thinking', category: 'cognitive' }],
+  demographicKeys: ['age', 'gender']
+});
+
+describe('Response codebook', () => {
+  it('gives every question, trait and demographic its own variables', () => {
+    const names = coder().variables.map(variable => variable.name);
+    expect(names).toEqual([
+      'response_id', 'respondent_id', 'survey_version_id', 'source', 'language', 'completed', 'ai_generated',
+      'started_at', 'completed_at', 'duration_seconds', 'satisfaction_score',
+      'q1_1', 'q1_2', 'q2', 'q3_1', 'q3_2', 'q3_3', 'q4', 'q5',
+      'trait_leadership', 'trait_analytical_thinking', 'demo_age', 'demo_gender'
+    ]);
+
+    const byName = new Map(coder().variables.map(variable => [variable.name, variable]));
+    expect(byName.get('q1_2')).toMatchObject({ label: 'Which channels do you use? [Chat]', questionId: 11, measure: 'nominal' });
+    expect(byName.get('q2')?.valueLabels).toEqual([{ value: 1, label: 'Never' }, { value: 10, label: 'Certainly' }]);
+    expect(byName.get('q3_1')).toMatchObject({ measure: 'ordinal', label: 'Rank these [Price]' });
+    expect(byName.get('q4')?.valueLabels).toEqual([{ value: 1, label: 'Calm' }, { value: 2, label: 'Bold' }]);
+    expect(byName.get('q5')).toMatchObject({ type: 'string', width: 255 });
+  });
+
+  it('codes answers with option codes, ranks and missing values', () => {
+    expect(coder().code(row())).toEqual([
+      7, 'resp-7', 3, 'email', 'de', 1, 0,
+      '2026-05-01T10:00:00.000Z', '2026-05-01T10:04:00.000Z', 240, 9,
+      0, 1, 8, 2, 1, null, 2, 'Faster replies, please',
+      71, null, '34', 'female'
+    ]);
+
+    const empty = coder().code(row({ responses: [], traits: [], demographics: {}, completed: false, completeTime: null }));
+    expect(empty.slice(11)).toEqual([null, null, null, null, null, null, null, null, null, null, null, null]);
+    expect(empty[5]).toBe(0);
+  });
+
+  it('treats unparseable answers as missing', () => {
+    expect(codeQuestionAnswer(questions[1], 'lots')).toEqual([null]);
+    expect(codeQuestionAnswer(questions[3], 'Sleepy')).toEqual([null]);
+  });
+
+  it('keeps variable names valid and unique', () => {
+    const nameFor = createVariableNamer();
+    expect(nameFor('trait_Analytical Thinking')).toBe('trait_analytical_thinking');
+    expect(nameFor('trait_analytical-thinking')).toBe('trait_analytical_thinking_2');
+    expect(nameFor('demo_2nd language')).toBe('demo_2nd_language');
+    expect(nameFor('1st')).toBe('v_1st');
+    expect(nameFor('x'.repeat(80))).toHaveLength(64);
+  });
+
+  it('validates export options with safe defaults', () => {
+    expect(responseExportRequestSchema.parse({})).toEqual({
+      format: 'csv',
+      includeTraits: true,
+      includeDemographics: true,
+      includeIncomplete: false
+    });
+    expect(responseExportRequestSchema.safeParse({ format: 'xlsx' }).success).toBe(false);
+  });
+});
+
+describe('SPSS writer', () => {
+  const variables = coder().variables;
+  const layout = createSavLayout(variables);
+
+  it('writes the system file header and dictionary', () => {
+    const dictionary = encodeSavDictionary(layout, { fileLabel: 'Channels survey', createdAt: new Date('2026-05-01T10:00:00Z'), caseCount: 2 });
+
+    expect(dictionary.subarray(0, 4).toString('ascii')).toBe('$FL2');
+    expect(dictionary.readInt32LE(64)).toBe(2);
+    expect(dictionary.readInt32LE(68)).toBe(layout.caseSize);
+    expect(dictionary.readInt32LE(72)).toBe(0);
+    expect(dictionary.readInt32LE(SAV_CASE_COUNT_OFFSET)).toBe(2);
+    expect(dictionary.readDoubleLE(84)).toBe(100);
+    expect(dictionary.subarray(92, 109).toString('ascii')).toBe('01 May 2610:00:00');
+    // Ends with the dictionary termination record
+    expect(dictionary.readInt32LE(dictionary.length - 8)).toBe(999);
+
+    const text = dictionary.toString('latin1');
+    expect(text).toContain('Q1_1=q1_1');
+    expect(text).toContain('TRAIT_LE=trait_leadership');
+    expect(text).toContain('UTF-8');
+  });
+
+  it('encodes cases as doubles and space-padded strings', () => {
+    const values = coder().code(row());
+    const encoded = encodeSavCase(layout, values);
+    expect(encoded.length).toBe(layout.caseSize * 8);
+
+    const offsetOf = (name: string) => {
+      const entry = layout.variables.find(candidate => candidate.variable.name === name)!;
+      return (entry.dictionaryIndex - 1) * 8;
+    };
+    expect(encoded.readDoubleLE(offsetOf('response_id'))).toBe(7);
+    expect(encoded.readDoubleLE(offsetOf('q2'))).toBe(8);
+    // System-missing
+    expect(encoded.readDoubleLE(offsetOf('q3_3'))).toBe(-Number.MAX_VALUE);
+    expect(encoded.subarray(offsetOf('respondent_id'), offsetOf('respondent_id') + 10).toString()).toBe('resp-7    ');
+  });
+
+  it('truncates long text without splitting characters', () => {
+    expect(truncateUtf8('héllo', 2).toString()).toBe('h');
+    expect(truncateUtf8('héllo', 3).toString()).toBe('hé');
+    expect(truncateUtf8('short', 255).toString()).toBe('short');
+  });
+});
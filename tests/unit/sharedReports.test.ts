@@ -0,0 +1,111 @@
+import * as bcrypt from 'bcrypt';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { REPORT_SECTIONS, resolveReportSections } from '../../shared/sharedReports';
+import { assertShareOpenable, scopeAnalytics, sharedReportService } from '../../server/services/shared-report-service';
+import { storage } from '../../server/storage';
+
+const mocks = vi.hoisted(() => ({
+  findSurvey: vi.fn(),
+  insertValues: vi.fn()
+}));
+
+vi.mock('../../server/db', () => ({
+  pool: {},
+  db: {
+    query: { surveys: { findFirst: mocks.findSurvey } },
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        mocks.insertValues(values);
+        return { returning: async () => [{ id: 1, viewCount: 0, lastViewedAt: null, revokedAt: null, createdAt: new Date(), ...values }] };
+      }
+    })
+  }
+}));
+
+const analytics = {
+  responseCount: 12,
+  completionRate: 80,
+  topTraits: [{ name: 'Openness', score: 70 }],
+  demographics: { age: {} },
+  genderStereotypes: {},
+  productRecommendations: {},
+  engagementMetrics: {},
+  businessContext: {},
+  advancedAnalytics: { decisionMakingStyles: [] },
+  userSegments: [],
+  monthlyGrowth: {}
+};
+
+const day = 24 * 60 * 60 * 1000;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  mocks.findSurvey.mockReset();
+  mocks.insertValues.mockReset();
+});
+
+describe('Shared report sections', () => {
+  it('keeps only the analytics of shared sections', () => {
+    expect(Object.keys(scopeAnalytics(analytics, ['traits']))).toEqual(['responseCount', 'completionRate', 'topTraits']);
+    expect(scopeAnalytics(analytics, [...REPORT_SECTIONS])).toEqual(analytics);
+  });
+
+  it('hides business intelligence unless that section is shared', () => {
+    const scoped = scopeAnalytics(analytics, ['traits', 'demographics', 'engagement']);
+    expect(scoped).not.toHaveProperty('advancedAnalytics');
+    expect(scoped).not.toHaveProperty('userSegments');
+    expect(scoped).not.toHaveProperty('monthlyGrowth');
+    expect(scopeAnalytics(analytics, ['intelligence'])).toHaveProperty('advancedAnalytics');
+  });
+
+  it('treats an empty or unknown section list as the whole report', () => {
+    expect(resolveReportSections([])).toEqual([...REPORT_SECTIONS]);
+    expect(resolveReportSections(['intelligence', 'bogus', 'traits'])).toEqual(['traits', 'intelligence']);
+  });
+});
+
+describe('Opening shared links', () => {
+  const active = { revokedAt: null, expiresAt: new Date(Date.now() + day), passwordHash: null };
+
+  it('refuses expired and revoked links', async () => {
+    await expect(assertShareOpenable(active, undefined)).resolves.toBeUndefined();
+    await expect(assertShareOpenable({ ...active, expiresAt: new Date(Date.now() - 1000) }, undefined))
+      .rejects.toMatchObject({ statusCode: 410, message: 'Shared report has expired' });
+    await expect(assertShareOpenable({ ...active, revokedAt: new Date() }, undefined))
+      .rejects.toMatchObject({ statusCode: 410, message: 'This shared report has been revoked' });
+  });
+
+  it('asks for the password of protected links', async () => {
+    const protectedLink = { ...active, passwordHash: await bcrypt.hash('open sesame', 4) };
+    await expect(assertShareOpenable(protectedLink, undefined)).rejects.toMatchObject({ statusCode: 401, code: 'PASSWORD_REQUIRED' });
+    await expect(assertShareOpenable(protectedLink, 'guess')).rejects.toMatchObject({ statusCode: 401, message: 'Incorrect password' });
+    await expect(assertShareOpenable(protectedLink, 'open sesame')).resolves.toBeUndefined();
+  });
+});
+
+describe('Creating shared links', () => {
+  it("refuses another company's survey", async () => {
+    vi.spyOn(storage, 'getCompany').mockResolvedValue({ id: 5, name: 'Acme' } as any);
+    mocks.findSurvey.mockResolvedValue({ id: 9, companyId: 6 });
+
+    await expect(sharedReportService.createShare({ companyId: 5, surveyId: 9 }, 1))
+      .rejects.toMatchObject({ statusCode: 404, message: 'Survey not found' });
+    mocks.findSurvey.mockResolvedValue(undefined);
+    await expect(sharedReportService.createShare({ companyId: 5, surveyId: 10 }, 1)).rejects.toMatchObject({ statusCode: 404 });
+    expect(mocks.insertValues).not.toHaveBeenCalled();
+  });
+
+  it('shares surveys of the company with a hashed password and an expiry', async () => {
+    vi.spyOn(storage, 'getCompany').mockResolvedValue({ id: 5, name: 'Acme' } as any);
+    mocks.findSurvey.mockResolvedValue({ id: 9, companyId: 5 });
+
+    const share = await sharedReportService.createShare({ companyId: 5, surveyId: 9, password: 'secret', expiresInDays: 7, sections: ['traits'] }, 1);
+    expect(share).toMatchObject({ companyId: 5, surveyId: 9, passwordProtected: true, sections: ['traits'], status: 'active' });
+    expect(share.expiresAt.getTime()).toBeGreaterThan(Date.now() + 6.9 * day);
+    expect(share.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 7 * day);
+
+    const stored = mocks.insertValues.mock.calls[0][0];
+    expect(stored.passwordHash).not.toBe('secret');
+    expect(await bcrypt.compare('secret', stored.passwordHash)).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { canAccessCompany, isPlatformAdminRequest } from '../../server/utils/surveyAccess';
+
+const mockHeaders = { 'x-mock-admin': 'true', 'x-user-role': 'platform_admin' };
+
+describe('Platform admin detection', () => {
+  it('decides from the session user role only', () => {
+    expect(isPlatformAdminRequest({ headers: {}, session: {} } as any, { role: 'platform_admin' })).toBe(true);
+    expect(isPlatformAdminRequest({ headers: {}, session: {} } as any, { role: 'admin' })).toBe(true);
+    expect(isPlatformAdminRequest({ headers: {}, session: { userId: 1, userRole: 'platform_admin' } } as any)).toBe(true);
+    expect(isPlatformAdminRequest({ headers: {}, session: { userId: 1, userRole: 'platform_admin' } } as any, { role: 'business_user' }))
+      .toBe(false);
+  });
+
+  it('ignores mock admin headers', () => {
+    expect(isPlatformAdminRequest({ headers: mockHeaders, session: {} } as any)).toBe(false);
+    expect(isPlatformAdminRequest({ headers: mockHeaders, session: { userId: 2 } } as any, { role: 'business_admin' })).toBe(false);
+    // A role left in a session without a user does not count
+    expect(isPlatformAdminRequest({ headers: {}, session: { userRole: 'platform_admin' } } as any)).toBe(false);
+  });
+
+  it('keeps users to their own company', () => {
+    const user = { id: 2, companyId: 5, role: 'business_admin' };
+    const req: any = { headers: mockHeaders, session: { userId: 2 } };
+    expect(canAccessCompany(req, user, 5)).toBe(true);
+    expect(canAccessCompany(req, user, 6)).toBe(false);
+    expect(canAccessCompany(req, { ...user, role: 'platform_admin' }, 6)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { SurveySession, SurveySessionStatus } from '../../shared/schema';
+
+const mocks = vi.hoisted(() => ({ select: vi.fn(), update: vi.fn() }));
+
+vi.mock('../../server/db', () => ({ pool: {}, db: { select: mocks.select, update: mocks.update } }));
+
+import { buildDropOffReport, surveySessionService } from '../../server/services/survey-session-service';
+
+// A query builder that accepts any chain of calls and resolves to the given rows
+const rows = (result: unknown[]) => {
+  const builder: any = new Proxy(() => undefined, {
+    get: (_target, prop) =>
+      prop === 'then' ? (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject) : () => builder
+  });
+  return builder;
+};
+
+const session = (values: Partial<SurveySession> = {}): SurveySession => ({
+  id: 1,
+  sessionId: 'session_1',
+  surveyId: 7,
+  companyId: 3,
+  resumeToken: 'token',
+  status: SurveySessionStatus.IN_PROGRESS,
+  answers: { 70: 'yes' },
+  answeredCount: 1,
+  lastQuestionId: 70,
+  surveyResponseId: null,
+  ipAddress: null,
+  userAgent: null,
+  startedAt: new Date(),
+  lastActivityAt: new Date(),
+  completedAt: null,
+  abandonedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...values
+});
+
+afterEach(() => {
+  mocks.select.mockReset();
+  mocks.update.mockReset();
+});
+
+describe('Survey session answers', () => {
+  it('saves answers to questions of the session survey', async () => {
+    mocks.select.mockReturnValueOnce(rows([session()])).mockReturnValueOnce(rows([{ id: 71 }]));
+    mocks.update.mockReturnValueOnce(rows([session({ answers: { 70: 'yes', 71: 4 }, answeredCount: 2 })]));
+
+    const saved = await surveySessionService.saveAnswer('session_1', 71, 4);
+    expect(saved.answeredCount).toBe(2);
+  });
+
+  it('merges the answer into the stored answers in the update itself', async () => {
+    const set = vi.fn(() => rows([session({ answers: { 70: 'yes', 71: 4 }, answeredCount: 2 })]));
+    mocks.select.mockReturnValueOnce(rows([session()])).mockReturnValueOnce(rows([{ id: 71 }]));
+    mocks.update.mockReturnValueOnce({ set });
+
+    await surveySessionService.saveAnswer('session_1', 71, 4);
+    // Concurrent saves would overwrite each other if the merged map were computed in JS
+    const query = new PgDialect().sqlToQuery((set.mock.calls[0] as any[])[0].answers);
+    expect(query.sql).toContain('|| jsonb_build_object(');
+    expect(query.params).toEqual(['71', '4']);
+  });
+
+  it('refuses the answer when the session was completed while saving', async () => {
+    mocks.select.mockReturnValueOnce(rows([session()])).mockReturnValueOnce(rows([{ id: 71 }]));
+    mocks.update.mockReturnValueOnce(rows([]));
+
+    await expect(surveySessionService.saveAnswer('session_1', 71, 4)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('refuses questions of another survey', async () => {
+    mocks.select.mockReturnValueOnce(rows([session()])).mockReturnValueOnce(rows([]));
+
+    await expect(surveySessionService.saveAnswer('session_1', 900, 'x'))
+      .rejects.toMatchObject({ statusCode: 400, message: 'The question is not part of this survey' });
+    expect(mocks.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses answers to missing and completed sessions', async () => {
+    mocks.select.mockReturnValueOnce(rows([]));
+    await expect(surveySessionService.saveAnswer('nope', 70, 'x')).rejects.toMatchObject({ statusCode: 404 });
+
+    mocks.select.mockReturnValueOnce(rows([session({ status: SurveySessionStatus.COMPLETED })]));
+    await expect(surveySessionService.saveAnswer('session_1', 70, 'x')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('lets submitted answers override stored ones', () => {
+    const merged = surveySessionService.mergeAnswers(session({ answers: { 70: 'yes', 71: 2 } }), [{ questionId: 71, answer: 5 }]);
+    expect(merged).toEqual([{ questionId: 70, answer: 'yes' }, { questionId: 71, answer: 5 }]);
+  });
+});
+
+describe('Survey session completion', () => {
+  it('gives nothing back when another submission claimed the session first', async () => {
+    // The claim only updates sessions that are not completed yet
+    mocks.update
+      .mockReturnValueOnce(rows([session({ status: SurveySessionStatus.COMPLETED })]))
+      .mockReturnValueOnce(rows([]));
+
+    expect(await surveySessionService.claimCompletion('session_1')).toMatchObject({ status: SurveySessionStatus.COMPLETED });
+    expect(await surveySessionService.claimCompletion('session_1')).toBeNull();
+  });
+});
+
+describe('Drop-off report', () => {
+  const questions = [
+    { id: 1, question: 'Q1', order: 1 },
+    { id: 2, question: 'Q2', order: 2 },
+    { id: 3, question: 'Q3', order: 3 }
+  ];
+
+  it('counts where abandoned sessions stopped', () => {
+    const report = buildDropOffReport(7, questions, [
+      { status: SurveySessionStatus.COMPLETED, answers: { 1: 'a', 2: 'b', 3: 'c' } },
+      { status: SurveySessionStatus.COMPLETED, answers: { 1: 'a', 3: 'c' } },
+      { status: SurveySessionStatus.ABANDONED, answers: { 1: 'a' } },
+      { status: SurveySessionStatus.ABANDONED, answers: {} },
+      { status: SurveySessionStatus.IN_PROGRESS, answers: { 1: 'a', 2: 'b' } }
+    ]);
+
+    expect(report).toMatchObject({
+      surveyId: 7,
+      totalSessions: 5,
+      completedSessions: 2,
+      abandonedSessions: 2,
+      inProgressSessions: 1,
+      completionRate: 40
+    });
+    expect(report.questions.map(q => [q.questionId, q.reached, q.answered, q.droppedHere, q.dropOffRate])).toEqual([
+      [1, 5, 4, 1, 20],
+      [2, 4, 2, 1, 25],
+      [3, 3, 2, 0, 0]
+    ]);
+  });
+
+  it('reports an empty survey without dividing by zero', () => {
+    const report = buildDropOffReport(7, questions, []);
+    expect(report.completionRate).toBe(0);
+    expect(report.questions.every(q => q.reached === 0 && q.dropOffRate === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalizeAnswer,
+  chooseSurveyLanguage,
+  localizeQuestion,
+  localizeSurveyContent,
+  negotiateLanguage,
+  parseAcceptLanguage,
+  pruneQuestionTranslation,
+  questionTexts,
+  sourceFingerprint,
+  surveyTranslationsUpdateSchema,
+  textDirection,
+  translationProgress
+} from '../../shared/surveyTranslations';
+
+const channels = {
+  id: 21,
+  question: 'Which channel do you prefer?',
+  questionType: 'multiple-choice',
+  helpText: 'Pick one',
+  options: [{ id: 'opt_email', text: 'Email', value: 'email' }, { id: 'opt_chat', text: 'Chat', value: 'chat' }]
+};
+
+const mood = { id: 22, question: 'Pick a mood', questionType: 'mood-board', options: ['Calm', 'Bold'] };
+
+const slider = {
+  id: 23,
+  question: 'How likely?',
+  questionType: 'slider',
+  sliderConfig: { min: 1, max: 10, minLabel: 'Never', maxLabel: 'Certainly' }
+};
+
+const translations = {
+  de: { question: 'Welchen Kanal bevorzugen Sie?', options: { email: 'E-Mail', chat: 'Chat (live)' } },
+  ar: { question: 'ما هي القناة التي تفضلها؟', options: { email: 'البريد الإلكتروني' } }
+};
+
+describe('Survey language negotiation', () => {
+  it('orders Accept-Language tags by quality', () => {
+    expect(parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, de;q=0.7, *;q=0.5')).toEqual(['fr-ch', 'fr', 'en', 'de']);
+    expect(parseAcceptLanguage('de;q=0, es')).toEqual(['es']);
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+
+  it('matches regional tags on their base language and falls back to the source', () => {
+    expect(negotiateLanguage(['pt-br', 'en'], ['en', 'pt'], 'en')).toBe('pt');
+    expect(negotiateLanguage(['ja'], ['en', 'de'], 'en')).toBe('en');
+  });
+
+  it('prefers the requested language over the browser', () => {
+    const choice = chooseSurveyLanguage('ar', 'de-DE,de;q=0.9', 'en', ['de', 'ar']);
+    expect(choice).toEqual({ code: 'ar', direction: 'rtl', source: 'en', available: ['en', 'de', 'ar'] });
+    expect(chooseSurveyLanguage('auto', 'de-DE,de;q=0.9', 'en', ['de', 'ar']).code).toBe('de');
+    expect(chooseSurveyLanguage('it', null, 'en', ['de']).code).toBe('en');
+    expect(textDirection('he')).toBe('rtl');
+    expect(textDirection('fr')).toBe('ltr');
+  });
+});
+
+describe('Localized survey content', () => {
+  it('translates question and option texts but keeps option values', () => {
+    const localized = localizeQuestion(channels, translations, 'de');
+    expect(localized.question).toBe('Welchen Kanal bevorzugen Sie?');
+    expect(localized.helpText).toBe('Pick one');
+    expect(localized.options).toEqual([
+      { id: 'opt_email', text: 'E-Mail', label: 'E-Mail', value: 'email' },
+      { id: 'opt_chat', text: 'Chat (live)', label: 'Chat (live)', value: 'chat' }
+    ]);
+    expect(localizeQuestion(channels, translations, 'es')).toBe(channels);
+  });
+
+  it('turns translated string options into objects answered with the original text', () => {
+    const localized = localizeQuestion(mood, { fr: { options: { Calm: 'Calme' } } }, 'fr');
+    expect(localized.options).toEqual([{ id: 'opt_0', text: 'Calme', value: 'Calm' }, 'Bold']);
+  });
+
+  it('translates slider labels and survey texts', () => {
+    const localized = localizeQuestion(slider, { es: { minLabel: 'Nunca' } }, 'es');
+    expect(localized.sliderConfig).toEqual({ min: 1, max: 10, minLabel: 'Nunca', maxLabel: 'Certainly' });
+
+    const survey = { title: 'Channels', description: 'About you', customWelcomeMessage: null };
+    expect(localizeSurveyContent(survey, { de: { title: 'Kanäle', description: '  ' } }, 'de'))
+      .toEqual({ title: 'Kanäle', description: 'About you', customWelcomeMessage: null });
+  });
+});
+
+describe('Canonical answers', () => {
+  it('maps translated option labels from any language back to option values', () => {
+    expect(canonicalizeAnswer(channels, translations, 'E-Mail')).toBe('email');
+    expect(canonicalizeAnswer(channels, translations, 'البريد الإلكتروني')).toBe('email');
+    expect(canonicalizeAnswer(channels, translations, ['chat (LIVE)', 'email'])).toEqual(['chat', 'email']);
+    expect(canonicalizeAnswer(channels, translations, 'Chat')).toBe('Chat');
+    expect(canonicalizeAnswer(slider, {}, '7')).toBe('7');
+  });
+});
+
+describe('Translation editing', () => {
+  it('lists every translatable text of a question', () => {
+    expect(questionTexts(channels).map(text => text.key)).toEqual(['question', 'helpText', 'options.email', 'options.chat']);
+    expect(questionTexts(slider).map(text => text.key)).toEqual(['question', 'minLabel', 'maxLabel']);
+  });
+
+  it('drops blank translations and texts the question no longer has', () => {
+    expect(pruneQuestionTranslation(channels, {
+      question: 'Kanal?',
+      scenarioText: 'Unused',
+      helpText: '',
+      options: { email: 'E-Mail', fax: 'Fax' }
+    })).toEqual({
+      question: 'Kanal?',
+      options: { email: 'E-Mail' },
+      sources: { question: sourceFingerprint(channels.question), 'options.email': sourceFingerprint('Email') }
+    });
+  });
+
+  it('reports how much of a language is translated', () => {
+    const state = {
+      survey: { texts: [{ key: 'title', label: 'Title', source: 'Channels' }], translations: { de: { title: 'Kanäle' } } },
+      questions: [{ id: 21, order: 1, questionType: 'multiple-choice', texts: questionTexts(channels), translations }]
+    };
+    expect(translationProgress(state, 'de')).toEqual({ total: 5, current: 4, drafts: 0, stale: 0, missing: 1, percentage: 80 });
+    expect(translationProgress(state, 'ar')).toEqual({ total: 5, current: 2, drafts: 0, stale: 0, missing: 3, percentage: 40 });
+  });
+
+  it('rejects unsupported languages', () => {
+    expect(surveyTranslationsUpdateSchema.safeParse({ languages: ['de', 'xx'] }).success).toBe(false);
+    expect(surveyTranslationsUpdateSchema.parse({ languages: ['de'] })).toEqual({ languages: ['de'], survey: {}, questions: [] });
+  });
+});
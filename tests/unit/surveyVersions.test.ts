@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildSurveySnapshot, diffSurveySnapshots, snapshotsEqual } from '../../shared/surveyVersions';
+
+const survey = {
+  id: 1,
+  title: 'Travel habits',
+  description: 'How you travel',
+  surveyType: 'general',
+  status: 'active',
+  responseCount: 12,
+  collectAge: true
+};
+
+const questions = [
+  {
+    id: 11,
+    order: 1,
+    question: 'How do you commute?',
+    questionType: 'multiple-choice',
+    required: true,
+    options: [{ id: 'car', text: 'Car', value: 'car' }, { id: 'bike', text: 'Bike', value: 'bike' }]
+  },
+  { id: 12, order: 2, question: 'Anything else?', questionType: 'text', required: false }
+];
+
+describe('Survey version snapshots', () => {
+  it('keeps only versioned settings and orders questions', () => {
+    const snapshot = buildSurveySnapshot(survey, [...questions].reverse());
+
+    expect(snapshot.settings.title).toBe('Travel habits');
+    expect(snapshot.settings).not.toHaveProperty('status');
+    expect(snapshot.settings).not.toHaveProperty('responseCount');
+    expect(snapshot.questions.map(q => q.id)).toEqual([11, 12]);
+    expect(snapshot.questions[1]).toMatchObject({ helpText: null, options: null, displayLogic: null });
+  });
+
+  it('treats JSON stored as text the same as parsed JSON', () => {
+    const parsed = buildSurveySnapshot(survey, questions);
+    const stored = buildSurveySnapshot(survey, questions.map(q => ({ ...q, options: q.options && JSON.stringify(q.options) })));
+
+    expect(snapshotsEqual(parsed, stored)).toBe(true);
+    expect(snapshotsEqual(parsed, buildSurveySnapshot({ ...survey, title: 'Commuting' }, questions))).toBe(false);
+  });
+
+  it('lists settings and questions that changed between versions', () => {
+    const before = buildSurveySnapshot(survey, questions);
+    const after = buildSurveySnapshot({ ...survey, title: 'Commuting' }, [
+      {
+        ...questions[0],
+        question: 'How do you usually commute?',
+        options: [{ id: 'car', text: 'Car', value: 'car' }, { id: 'bike', text: 'Bicycle', value: 'bike' }, { id: 'bus', text: 'Bus', value: 'bus' }]
+      },
+      { id: 13, order: 2, question: 'How far is it?', questionType: 'slider', required: true }
+    ]);
+
+    const diff = diffSurveySnapshots(before, after, { fromVersionId: 1, toVersionId: 2 });
+
+    expect(diff.settings).toEqual([{ field: 'title', before: 'Travel habits', after: 'Commuting' }]);
+    expect(diff.summary).toEqual({ settingsChanged: 1, questionsAdded: 1, questionsRemoved: 1, questionsChanged: 1 });
+
+    const changed = diff.questions.find(q => q.kind === 'changed')!;
+    expect(changed.fields.map(f => f.field)).toEqual(['question']);
+    expect(changed.options.map(o => [o.kind, o.key])).toEqual([['changed', 'bike'], ['added', 'bus']]);
+    expect(diff.questions.filter(q => q.kind !== 'changed').map(q => [q.kind, q.questionId])).toEqual([['added', 13], ['removed', 12]]);
+  });
+
+  it('reports nothing for identical versions', () => {
+    const snapshot = buildSurveySnapshot(survey, questions);
+    const diff = diffSurveySnapshots(snapshot, snapshot, { fromVersionId: 1, toVersionId: 1 });
+    expect(diff.settings).toEqual([]);
+    expect(diff.questions).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TEAM_ROLES,
+  acceptInvitationSchema,
+  invitationStatus,
+  seatUsage,
+  teamInvitationSchema,
+  teamRoleOf
+} from '../../shared/team';
+import { DEFAULT_ROLE_PERMISSIONS, Permission } from '../../shared/permissions';
+
+describe('Team', () => {
+  it('maps team roles to user roles and back', () => {
+    expect(TEAM_ROLES.owner).toBe('business_owner');
+    expect(teamRoleOf('business_analyst')).toBe('analyst');
+    expect(teamRoleOf('report_viewer')).toBe('viewer');
+    expect(teamRoleOf('business_admin')).toBeNull();
+    expect(teamRoleOf(undefined)).toBeNull();
+  });
+
+  it('gives only owners the permissions to manage the team', () => {
+    expect(DEFAULT_ROLE_PERMISSIONS[TEAM_ROLES.owner]).toContain(Permission.MANAGE_USERS);
+    expect(DEFAULT_ROLE_PERMISSIONS[TEAM_ROLES.owner]).toContain(Permission.INVITE_USERS);
+    for (const role of [TEAM_ROLES.analyst, TEAM_ROLES.viewer]) {
+      expect(DEFAULT_ROLE_PERMISSIONS[role]).not.toContain(Permission.MANAGE_USERS);
+      expect(DEFAULT_ROLE_PERMISSIONS[role]).not.toContain(Permission.INVITE_USERS);
+    }
+  });
+
+  it('counts members and pending invitations against the seat limit', () => {
+    expect(seatUsage(5, 3, 1)).toEqual({ limit: 5, members: 3, pendingInvitations: 1, available: 1 });
+    expect(seatUsage(3, 3, 1).available).toBe(0);
+    expect(seatUsage(-1, 40, 2)).toEqual({ limit: null, members: 40, pendingInvitations: 2, available: null });
+    expect(seatUsage(null, 1, 0).available).toBeNull();
+  });
+
+  it('treats pending invitations past their expiry as expired', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    expect(invitationStatus({ status: 'pending', expiresAt: '2026-03-02T00:00:00Z' }, now)).toBe('pending');
+    expect(invitationStatus({ status: 'pending', expiresAt: '2026-03-01T12:00:00Z' }, now)).toBe('expired');
+    expect(invitationStatus({ status: 'accepted', expiresAt: '2026-02-01T00:00:00Z' }, now)).toBe('accepted');
+    expect(invitationStatus({ status: 'revoked', expiresAt: '2026-04-01T00:00:00Z' }, now)).toBe('revoked');
+  });
+
+  it('normalizes invitation emails and defaults to the viewer role', () => {
+    expect(teamInvitationSchema.parse({ email: ' Ana@Example.COM ' })).toEqual({ email: 'ana@example.com', role: 'viewer' });
+    expect(teamInvitationSchema.safeParse({ email: 'not-an-email' }).success).toBe(false);
+    expect(teamInvitationSchema.safeParse({ email: 'ana@example.com', role: 'business_admin' }).success).toBe(false);
+  });
+
+  it('requires a usable username and password to accept', () => {
+    expect(acceptInvitationSchema.safeParse({ username: 'ana.l', password: 'long enough' }).success).toBe(true);
+    expect(acceptInvitationSchema.safeParse({ username: 'a', password: 'long enough' }).success).toBe(false);
+    expect(acceptInvitationSchema.safeParse({ username: 'ana l', password: 'long enough' }).success).toBe(false);
+    expect(acceptInvitationSchema.safeParse({ username: 'ana', password: 'short' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TRAIT_MODEL,
+  MAX_TRAITS_PER_MODEL,
+  TraitModel,
+  cleanTraitWeights,
+  normalizeTraitScores,
+  resolveTraitModel,
+  summarizeTraitScores,
+  traitModelSchema
+} from '../../shared/traitModel';
+
+const model: TraitModel = [
+  { name: 'Openness', category: 'personality' },
+  { name: 'Risk Tolerance', category: 'risk' }
+];
+
+const traits = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ name: `Trait ${index + 1}`, category: 'personality' }));
+
+describe('Trait model validation', () => {
+  it('accepts models of one to twelve uniquely named traits', () => {
+    expect(traitModelSchema.safeParse(model).success).toBe(true);
+    expect(traitModelSchema.safeParse(traits(MAX_TRAITS_PER_MODEL)).success).toBe(true);
+    expect(traitModelSchema.safeParse([]).success).toBe(false);
+    expect(traitModelSchema.safeParse(traits(MAX_TRAITS_PER_MODEL + 1)).success).toBe(false);
+  });
+
+  it('refuses duplicate names regardless of case, blank names and unknown categories', () => {
+    const duplicate = traitModelSchema.safeParse([...model, { name: 'OPENNESS', category: 'social' }]);
+    expect(duplicate.success).toBe(false);
+    expect(duplicate.success ? [] : duplicate.error.issues.map(issue => issue.message)).toEqual(['Trait names must be unique']);
+
+    expect(traitModelSchema.safeParse([{ name: '   ', category: 'risk' }]).success).toBe(false);
+    expect(traitModelSchema.safeParse([{ name: 'Grit', category: 'sporting' }]).success).toBe(false);
+  });
+
+  it('trims trait names and descriptions', () => {
+    expect(traitModelSchema.parse([{ name: '  Grit ', category: 'wellness', description: ' Keeps going ' }]))
+      .toEqual([{ name: 'Grit', category: 'wellness', description: 'Keeps going' }]);
+  });
+});
+
+describe('Resolving stored trait models', () => {
+  it('falls back to the default model for missing or unusable models', () => {
+    expect(resolveTraitModel(undefined)).toBe(DEFAULT_TRAIT_MODEL);
+    expect(resolveTraitModel([])).toBe(DEFAULT_TRAIT_MODEL);
+    expect(resolveTraitModel('Openness')).toBe(DEFAULT_TRAIT_MODEL);
+    expect(resolveTraitModel([{ name: ' ' }, 42])).toBe(DEFAULT_TRAIT_MODEL);
+  });
+
+  it('reads legacy name lists with the library categories', () => {
+    expect(resolveTraitModel(['Risk Tolerance', 'brand loyalty', 'Grit'])).toEqual([
+      { name: 'Risk Tolerance', category: 'risk' },
+      { name: 'brand loyalty', category: 'consumer' },
+      { name: 'Grit', category: 'personality' }
+    ]);
+  });
+
+  it('keeps stored categories and descriptions, drops duplicates and caps the size', () => {
+    expect(resolveTraitModel([
+      { name: 'Openness', category: 'creative', description: 'Curious' },
+      { name: 'openness', category: 'social' },
+      { name: 'Leadership', category: 'unknown' }
+    ])).toEqual([
+      { name: 'Openness', category: 'creative', description: 'Curious' },
+      { name: 'Leadership', category: 'social' }
+    ]);
+    expect(resolveTraitModel(traits(15).map(trait => trait.name))).toHaveLength(MAX_TRAITS_PER_MODEL);
+  });
+});
+
+describe('Trait scores', () => {
+  it('maps raw scores onto the model, clamped and defaulted', () => {
+    expect(normalizeTraitScores(model, [
+      { name: 'risk tolerance', score: '130' },
+      { name: 'Extraversion', score: 80 }
+    ])).toEqual([
+      { name: 'Openness', category: 'personality', score: 50 },
+      { name: 'Risk Tolerance', category: 'risk', score: 100 }
+    ]);
+    expect(normalizeTraitScores(model, [{ name: 'Openness', score: -5 }, { name: 'Risk Tolerance', score: 'high' }])
+      .map(trait => trait.score)).toEqual([0, 0]);
+    expect(normalizeTraitScores(model, null).map(trait => trait.score)).toEqual([50, 50]);
+  });
+
+  it('averages scores across responses per trait', () => {
+    expect(summarizeTraitScores(model, [
+      [{ name: 'Openness', score: 70 }, { name: 'Risk Tolerance', score: 20 }],
+      [{ name: 'openness', score: 81 }],
+      [{ name: 'Openness', score: 'n/a' }],
+      'not a list'
+    ])).toEqual([
+      { name: 'Openness', category: 'personality', score: 76 },
+      { name: 'Risk Tolerance', category: 'risk', score: 20 }
+    ]);
+    expect(summarizeTraitScores(model, []).map(trait => trait.score)).toEqual([0, 0]);
+  });
+
+  it('keeps only usable weights within the limit', () => {
+    expect(cleanTraitWeights({ ' Openness ': 2, Grit: 0, Focus: 'x', Drive: 9, Calm: -7.5 }))
+      .toEqual({ Openness: 2, Drive: 5, Calm: -5 });
+    expect(cleanTraitWeights({ Grit: 0 })).toBeUndefined();
+    expect(cleanTraitWeights([1, 2])).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { scoreTraits, scoreTraitItems, hasTraitWeights } from '../../server/utils/traitScoring';
+import { TraitModel } from '../../shared/traitModel';
+
+const model: TraitModel = [
+  { name: 'Innovation', category: 'behavioral' },
+  { name: 'Leadership', category: 'social' },
+  { name: 'Creativity', category: 'cognitive' }
+];
+
+const questions = [
+  {
+    id: 1,
+    questionType: 'multiple-choice',
+    options: [
+      { id: 'a', text: 'Try something new', value: 'new', traits: { Innovation: 2, Leadership: 1 } },
+      { id: 'b', text: 'Stick with what works', value: 'same', traits: { Innovation: -2 } },
+      { id: 'c', text: 'Ask the team', value: 'team', traits: { Leadership: 2 } }
+    ]
+  },
+  {
+    id: 2,
+    questionType: 'slider',
+    sliderConfig: { minLabel: 'Never', maxLabel: 'Always', traitWeights: { innovation: 1 } }
+  },
+  {
+    id: 3,
+    questionType: 'ranking',
+    options: [
+      { id: 'r1', text: 'Ideas', value: 'ideas', traits: { Creativity: 3 } },
+      { id: 'r2', text: 'Plans', value: 'plans' },
+      { id: 'r3', text: 'People', value: 'people', traits: { Leadership: 1 } }
+    ]
+  },
+  { id: 4, questionType: 'text' }
+];
+
+const ranking = (order: string[]) =>
+  JSON.stringify(order.map((value, index) => ({ rank: index + 1, option: value, value })));
+
+const scoreOf = (traits: { name: string; score: number }[], name: string) =>
+  traits.find(t => t.name === name)?.score;
+
+describe('Trait scoring engine', () => {
+  it('returns identical scores for identical answers', () => {
+    const responses = [
+      { questionId: 1, answer: 'new' },
+      { questionId: 2, answer: '75' },
+      { questionId: 3, answer: ranking(['ideas', 'people', 'plans']) },
+      { questionId: 4, answer: 'Free text is ignored' }
+    ];
+
+    const first = scoreTraits(model, questions, responses);
+    const second = scoreTraits(model, questions, JSON.parse(JSON.stringify(responses)));
+
+    expect(second).toEqual(first);
+    expect(first.traits.map(t => t.name)).toEqual(['Innovation', 'Leadership', 'Creativity']);
+  });
+
+  it('scales each trait to the share of its possible range', () => {
+    const highest = scoreTraits(model, questions, [
+      { questionId: 1, answer: 'new' },
+      { questionId: 2, answer: 100 }
+    ]);
+    const lowest = scoreTraits(model, questions, [
+      { questionId: 1, answer: 'same' },
+      { questionId: 2, answer: 0 }
+    ]);
+
+    expect(scoreOf(highest.traits, 'Innovation')).toBe(100);
+    expect(scoreOf(lowest.traits, 'Innovation')).toBe(0);
+  });
+
+  it('combines items by their ranges', () => {
+    // Innovation: choice 'team' is 0 within -2..2 (2 of 4), slider at 50 is 0.5 of 1
+    const { traits, itemCounts } = scoreTraits(model, questions, [
+      { questionId: 1, answer: 'team' },
+      { questionId: 2, answer: '50' }
+    ]);
+
+    expect(scoreOf(traits, 'Innovation')).toBe(Math.round((100 * 2.5) / 5));
+    expect(itemCounts.Innovation).toBe(2);
+  });
+
+  it('scores rankings by place, from first to last', () => {
+    const first = scoreTraits(model, questions, [{ questionId: 3, answer: ranking(['ideas', 'plans', 'people']) }]);
+    const middle = scoreTraits(model, questions, [{ questionId: 3, answer: ranking(['plans', 'ideas', 'people']) }]);
+    const last = scoreTraits(model, questions, [{ questionId: 3, answer: ranking(['plans', 'people', 'ideas']) }]);
+
+    expect(scoreOf(first.traits, 'Creativity')).toBe(100);
+    expect(scoreOf(middle.traits, 'Creativity')).toBe(50);
+    expect(scoreOf(last.traits, 'Creativity')).toBe(0);
+  });
+
+  it('treats list answers as multi-select', () => {
+    const items = scoreTraitItems(model, questions, [{ questionId: 1, answer: ['new', 'team'] }]);
+    const leadership = items.find(item => item.trait === 'Leadership');
+
+    expect(leadership).toEqual({ questionId: 1, trait: 'Leadership', value: 3, min: 0, max: 3 });
+  });
+
+  it('leaves traits without evidence at the neutral score', () => {
+    const { traits, itemCounts } = scoreTraits(model, questions, [{ questionId: 4, answer: 'hello' }]);
+
+    expect(traits.every(t => t.score === 50)).toBe(true);
+    expect(itemCounts.Creativity).toBe(0);
+  });
+
+  it('detects whether a survey carries weights for the model', () => {
+    expect(hasTraitWeights(model, questions)).toBe(true);
+    expect(hasTraitWeights([{ name: 'Openness', category: 'personality' }], questions)).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  localizeQuestion,
+  localizeSurveyContent,
+  pendingTranslations,
+  questionTexts,
+  resolveTranslationPublishThreshold,
+  sourceFingerprint,
+  surveyTexts,
+  translationProgress,
+  translationStatus,
+  withTranslatedText
+} from '../../shared/surveyTranslations';
+import {
+  createTranslationProvider,
+  GeminiTranslationProvider,
+  StubTranslationProvider
+} from '../../server/services/translation-providers';
+import { AppError } from '../../server/middleware/errorHandler';
+import { approvalService } from '../../server/services/approval-service';
+import { surveyTranslationService } from '../../server/services/survey-translation-service';
+import { translationPipelineService } from '../../server/services/translation-pipeline-service';
+
+const mocks = vi.hoisted(() => ({ transaction: vi.fn() }));
+
+vi.mock('../../server/db', () => ({ pool: {}, db: { transaction: mocks.transaction } }));
+
+const channels = {
+  id: 21,
+  question: 'Which channel do you prefer?',
+  questionType: 'multiple-choice',
+  options: [{ id: 'opt_email', text: 'Email', value: 'email' }, { id: 'opt_chat', text: 'Chat', value: 'chat' }]
+};
+
+const [questionText, emailText, chatText] = questionTexts(channels);
+const titleText = surveyTexts({ title: 'Channels' })[0];
+
+// German translation of the question, made when the question still read differently
+const outdated = withTranslatedText(
+  withTranslatedText(undefined, { ...questionText, source: 'Which channel do you use?' }, 'Welchen Kanal nutzen Sie?'),
+  emailText,
+  'E-Mail'
+);
+
+describe('Translation status', () => {
+  it('notices when the source text changed after translating', () => {
+    expect(sourceFingerprint('  Email ')).toBe(sourceFingerprint('Email'));
+    expect(sourceFingerprint('Email')).not.toBe(sourceFingerprint('E-mail'));
+
+    expect(translationStatus(outdated, questionText)).toBe('stale');
+    expect(translationStatus(outdated, emailText)).toBe('current');
+    expect(translationStatus(outdated, chatText)).toBe('missing');
+    // Translations saved before fingerprints existed count as current
+    expect(translationStatus({ question: 'Kanal?' }, questionText)).toBe('current');
+  });
+
+  it('tracks machine drafts until they are reviewed', () => {
+    const drafted = withTranslatedText(outdated, chatText, 'Chat', { draft: true });
+    expect(drafted.drafts).toEqual(['options.chat']);
+    expect(translationStatus(drafted, chatText)).toBe('draft');
+
+    const reviewed = withTranslatedText(drafted, chatText, 'Live-Chat');
+    expect(reviewed.drafts).toBeUndefined();
+    expect(reviewed.options).toEqual({ email: 'E-Mail', chat: 'Live-Chat' });
+    expect(translationStatus(reviewed, chatText)).toBe('current');
+  });
+
+  it('shows respondents the source text instead of outdated translations', () => {
+    const localized = localizeQuestion(channels, { de: withTranslatedText(outdated, chatText, 'Chat', { draft: true }) }, 'de');
+    expect(localized.question).toBe('Which channel do you prefer?');
+    expect(localized.options).toEqual([
+      { id: 'opt_email', text: 'E-Mail', label: 'E-Mail', value: 'email' },
+      { id: 'opt_chat', text: 'Chat', label: 'Chat', value: 'chat' }
+    ]);
+
+    const title = withTranslatedText(undefined, { ...titleText, source: 'Old title' }, 'Alter Titel');
+    expect(localizeSurveyContent({ title: 'Channels' }, { de: title }, 'de')).toEqual({ title: 'Channels' });
+  });
+});
+
+describe('Translation completeness', () => {
+  const state = {
+    survey: { texts: [titleText], translations: { de: withTranslatedText(undefined, titleText, 'Kanäle', { draft: true }) } },
+    questions: [{ id: 21, order: 1, questionType: 'multiple-choice', texts: questionTexts(channels), translations: { de: outdated } }]
+  };
+
+  it('counts only reviewed, current texts as complete', () => {
+    expect(translationProgress(state, 'de')).toEqual({ total: 4, current: 1, drafts: 1, stale: 1, missing: 1, percentage: 25 });
+    expect(translationProgress({ survey: { texts: [], translations: {} }, questions: [] }, 'de').percentage).toBe(100);
+  });
+
+  it('lists the texts machine translation should draft', () => {
+    const keys = (includeStale: boolean) => pendingTranslations(state, 'de', { includeStale })
+      .map(pending => `${pending.questionId ?? 'survey'}:${pending.text.key}:${pending.status}`);
+    expect(keys(false)).toEqual(['21:options.chat:missing']);
+    expect(keys(true)).toEqual(['21:question:stale', '21:options.chat:missing']);
+    expect(pendingTranslations(state, 'fr')).toHaveLength(4);
+  });
+
+  it('reads the publish threshold from the platform settings', () => {
+    expect(resolveTranslationPublishThreshold({ translationPublishThreshold: 75 })).toBe(75);
+    expect(resolveTranslationPublishThreshold('{"translationPublishThreshold":0}')).toBe(0);
+    expect(resolveTranslationPublishThreshold({ translationPublishThreshold: 140 })).toBe(90);
+    expect(resolveTranslationPublishThreshold(null)).toBe(90);
+  });
+});
+
+describe('Translation providers', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('drafts recognisable stub translations offline', async () => {
+    const translated = await new StubTranslationProvider().translate({
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      texts: [{ key: 'q21.question', text: 'Which channel?' }]
+    });
+    expect(translated).toEqual({ 'q21.question': '[de] Which channel?' });
+  });
+
+  it('picks the provider from the environment', () => {
+    delete process.env.TRANSLATION_PROVIDER;
+    delete process.env.GEMINI_API_KEY;
+    expect(createTranslationProvider()).toBeInstanceOf(StubTranslationProvider);
+
+    process.env.TRANSLATION_PROVIDER = 'gemini';
+    expect(createTranslationProvider()).toBeInstanceOf(StubTranslationProvider);
+
+    process.env.GEMINI_API_KEY = 'test-key';
+    expect(createTranslationProvider()).toBeInstanceOf(GeminiTranslationProvider);
+  });
+});
+
+describe('Publishing languages of active surveys', () => {
+  const state: any = { surveyId: 7, sourceLanguage: 'en', languages: ['de', 'fr'], published: ['de', 'fr'], publishThreshold: 100 };
+  const written: unknown[] = [];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    mocks.transaction.mockReset();
+    written.length = 0;
+  });
+
+  it('checks the published languages against the approval gate before committing', async () => {
+    vi.spyOn(surveyTranslationService, 'getTranslations').mockResolvedValue(state);
+    mocks.transaction.mockImplementation(async (run: any) => run({
+      update: () => ({ set: (values: unknown) => ({ where: async () => written.push(values) }) })
+    }));
+    const gate = vi.spyOn(approvalService, 'assertLiveContentApproved')
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new AppError('The survey has changed since it was approved.', 409, undefined, 'CONFLICT'));
+
+    await expect(translationPipelineService.unpublishLanguage(7, 'fr')).resolves.toMatchObject({ published: ['de'] });
+    expect(written).toEqual([expect.objectContaining({ publishedLanguages: ['de'] })]);
+    expect(gate).toHaveBeenCalledWith(expect.anything(), 7);
+
+    await expect(translationPipelineService.unpublishLanguage(7, 'de')).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  hotp,
+  totpStep,
+  verifyTotp
+} from '../../server/utils/totp';
+import {
+  DEFAULT_TWO_FACTOR_POLICY,
+  isChallengeExpired,
+  isTwoFactorRequired,
+  resolveTwoFactorPolicy,
+  twoFactorLockoutMinutes,
+  twoFactorLoginSchema
+} from '../../shared/twoFactor';
+
+const mocks = vi.hoisted(() => ({ transaction: vi.fn() }));
+
+vi.mock('../../server/db', () => ({ pool: {}, db: { transaction: mocks.transaction } }));
+
+import { TwoFactorService } from '../../server/services/two-factor-service';
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('TOTP', () => {
+  it('encodes and decodes base32 secrets', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode('gezd gnbv-gy3t qojq').toString()).toBe('1234567890');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(hotp(RFC_SECRET, totpStep(at(59)), 8)).toBe('94287082');
+    expect(hotp(RFC_SECRET, totpStep(at(1111111109)), 8)).toBe('07081804');
+    expect(hotp(RFC_SECRET, totpStep(at(1234567890)), 8)).toBe('89005924');
+    expect(generateTotp(RFC_SECRET, at(2000000000))).toBe('279037');
+  });
+
+  it('accepts codes one step either side of the clock and nothing further', () => {
+    const now = at(1234567890);
+    const previous = generateTotp(RFC_SECRET, at(1234567890 - 30));
+    const next = generateTotp(RFC_SECRET, at(1234567890 + 30));
+    const stale = generateTotp(RFC_SECRET, at(1234567890 - 90));
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(totpStep(now));
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, next, now)).toBe(totpStep(now) + 1);
+    expect(verifyTotp(RFC_SECRET, stale, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('refuses a code whose step was already used', () => {
+    const now = at(1700000000);
+    const code = generateTotp(RFC_SECRET, now);
+    const step = verifyTotp(RFC_SECRET, code, now);
+    expect(step).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, code, new Date(now.getTime() + 10_000), step)).toBeNull();
+  });
+
+  it('builds the provisioning URI authenticator apps scan', () => {
+    const url = new URL(buildOtpauthUrl(RFC_SECRET, 'ana@example.com'));
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/PersonalysisPro:ana@example.com');
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toBe('PersonalysisPro');
+    expect(url.searchParams.get('period')).toBe('30');
+  });
+});
+
+describe('Recovery codes', () => {
+  it('creates distinct codes in the shown format', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    }
+  });
+
+  it('hashes codes regardless of case, spaces and dashes', () => {
+    expect(hashRecoveryCode('ABCDE-FGHIJ')).toBe(hashRecoveryCode('abcde fghij'));
+    expect(hashRecoveryCode('abcdefghij')).not.toBe(hashRecoveryCode('abcdefghik'));
+  });
+});
+
+describe('Two-factor policy', () => {
+  it('requires platform staff by default', () => {
+    const policy = resolveTwoFactorPolicy(undefined);
+    expect(policy).toEqual(DEFAULT_TWO_FACTOR_POLICY);
+    expect(isTwoFactorRequired(policy, 'platform_admin')).toBe(true);
+    expect(isTwoFactorRequired(policy, 'platform_support')).toBe(true);
+    expect(isTwoFactorRequired(policy, 'business_owner')).toBe(false);
+  });
+
+  it('reads enforcement, extra roles and remembered days from the security settings', () => {
+    const policy = resolveTwoFactorPolicy(JSON.stringify({
+      mfaEnforcement: 'optional',
+      mfaRequiredRoles: ['business_owner'],
+      mfaTrustedDeviceDays: '0',
+      sessionTimeout: 30
+    }));
+    expect(policy).toEqual({ enforcement: 'optional', requiredRoles: ['business_owner'], trustedDeviceDays: 0 });
+    expect(isTwoFactorRequired(policy, 'platform_admin')).toBe(false);
+    expect(isTwoFactorRequired(policy, 'business_owner')).toBe(true);
+    expect(isTwoFactorRequired({ ...policy, enforcement: 'all' }, 'report_viewer')).toBe(true);
+  });
+
+  it('falls back to the defaults for invalid settings', () => {
+    expect(resolveTwoFactorPolicy({ mfaEnforcement: 'sometimes', mfaTrustedDeviceDays: -4 })).toEqual(DEFAULT_TWO_FACTOR_POLICY);
+    expect(resolveTwoFactorPolicy('not json')).toEqual(DEFAULT_TWO_FACTOR_POLICY);
+  });
+
+  it('expires the second login step after five minutes', () => {
+    const issuedAt = Date.parse('2026-05-01T10:00:00Z');
+    expect(isChallengeExpired(issuedAt, new Date('2026-05-01T10:04:59Z'))).toBe(false);
+    expect(isChallengeExpired(issuedAt, new Date('2026-05-01T10:05:00Z'))).toBe(true);
+  });
+
+  it('does not remember the device unless asked', () => {
+    expect(twoFactorLoginSchema.parse({ code: ' 123456 ' })).toEqual({ code: '123456', rememberDevice: false });
+    expect(twoFactorLoginSchema.safeParse({ code: '' }).success).toBe(false);
+  });
+});
+
+describe('Two-factor lockout', () => {
+  const now = new Date('2026-05-01T10:00:00Z');
+  const service = new TwoFactorService(() => now);
+  const actor = { id: 4, companyId: null, ipAddress: null };
+
+  afterEach(() => mocks.transaction.mockReset());
+
+  // A transaction over one user that records what is written to them
+  const userTransaction = (user: Record<string, unknown>, written: Array<Record<string, unknown>>) => {
+    mocks.transaction.mockImplementation(async (run: any) => run({
+      select: () => ({ from: () => ({ where: () => ({ for: async () => [user] }) }) }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          written.push(values);
+          return { where: () => ({ returning: async () => [] }) };
+        }
+      })
+    }));
+  };
+
+  it('locks for a minute after five invalid codes and doubles it for each further one', () => {
+    expect([1, 4, 5, 6, 7, 10, 11, 20].map(twoFactorLockoutMinutes)).toEqual([0, 0, 1, 2, 4, 32, 60, 60]);
+  });
+
+  it('counts invalid codes on the user and locks them at the limit', async () => {
+    const written: Array<Record<string, unknown>> = [];
+    userTransaction({ id: 4, mfaEnabled: true, mfaFailedAttempts: 3, mfaLockedUntil: null }, written);
+    await expect(service.verifySecondFactor(4, { code: 'abcde-fghij' }, actor)).rejects.toMatchObject({ statusCode: 401 });
+    expect(written.at(-1)).toEqual({ mfaFailedAttempts: 4, mfaLockedUntil: null });
+
+    userTransaction({ id: 4, mfaEnabled: true, mfaFailedAttempts: 4, mfaLockedUntil: null }, written);
+    await expect(service.verifySecondFactor(4, { code: 'abcde-fghij' }, actor)).rejects.toMatchObject({ statusCode: 401 });
+    expect(written.at(-1)).toEqual({ mfaFailedAttempts: 5, mfaLockedUntil: new Date('2026-05-01T10:01:00Z') });
+  });
+
+  it('refuses codes while the user is locked out without checking them', async () => {
+    const written: Array<Record<string, unknown>> = [];
+    userTransaction({ id: 4, mfaEnabled: true, mfaFailedAttempts: 7, mfaLockedUntil: new Date('2026-05-01T10:03:30Z') }, written);
+
+    await expect(service.verifySecondFactor(4, { code: 'abcde-fghij' }, actor))
+      .rejects.toMatchObject({ statusCode: 429, message: 'Too many invalid codes. Try again in 4 minutes.' });
+    expect(written).toEqual([]);
+  });
+});
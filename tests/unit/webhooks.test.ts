@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_HEADERS,
+  createWebhookSubscriptionSchema,
+  isPrivateAddress,
+  isWebhookEvent,
+  webhookRetryDelay
+} from '../../shared/webhooks';
+import { buildWebhookEnvelope, checkWebhookDestination, signWebhookBody } from '../../server/services/webhook-service';
+
+describe('Webhooks', () => {
+  it('signs the body and timestamp with the subscription secret', () => {
+    const body = JSON.stringify(buildWebhookEnvelope('RESPONSE_SUBMITTED', 7, { surveyId: 3, responseId: 41 }));
+    const headers = signWebhookBody(body, 'whsec_test');
+
+    const timestamp = headers[WEBHOOK_HEADERS.timestamp];
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${body}.${timestamp}`).digest('hex');
+    expect(headers[WEBHOOK_HEADERS.signature]).toBe(expected);
+
+    const otherSecret = signWebhookBody(body, 'whsec_other');
+    expect(otherSecret[WEBHOOK_HEADERS.signature]).not.toBe(expected);
+  });
+
+  it('wraps event data in an envelope with a unique ID', () => {
+    const first = buildWebhookEnvelope('SURVEY_CREATED', 7, { surveyId: 3 });
+    const second = buildWebhookEnvelope('SURVEY_CREATED', 7, { surveyId: 3 });
+
+    expect(first).toMatchObject({ event: 'SURVEY_CREATED', companyId: 7, data: { surveyId: 3 } });
+    expect(first.id).toMatch(/^evt_/);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('backs off exponentially and stops after the last attempt', () => {
+    expect(webhookRetryDelay(1)).toBe(60 * 1000);
+    expect(webhookRetryDelay(2)).toBe(2 * 60 * 1000);
+    expect(webhookRetryDelay(4)).toBe(8 * 60 * 1000);
+    expect(webhookRetryDelay(MAX_WEBHOOK_ATTEMPTS - 1)).toBeLessThanOrEqual(6 * 60 * 60 * 1000);
+    expect(webhookRetryDelay(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+  });
+
+  it('accepts only http(s) URLs and known events', () => {
+    expect(createWebhookSubscriptionSchema.safeParse({ url: 'https://example.com/hook', events: ['SURVEY_PUBLISHED'] }).success).toBe(true);
+    expect(createWebhookSubscriptionSchema.safeParse({ url: 'ftp://example.com/hook', events: ['SURVEY_PUBLISHED'] }).success).toBe(false);
+    expect(createWebhookSubscriptionSchema.safeParse({ url: 'https://example.com/hook', events: [] }).success).toBe(false);
+    expect(createWebhookSubscriptionSchema.safeParse({ url: 'https://example.com/hook', events: ['USER_SIGNUP'] }).success).toBe(false);
+
+    expect(isWebhookEvent('AI_JOB_COMPLETED')).toBe(true);
+    expect(isWebhookEvent('SYSTEM_ERROR')).toBe(false);
+  });
+
+  it('refuses webhook URLs on this host or private networks', () => {
+    const accepts = (url: string) => createWebhookSubscriptionSchema.safeParse({ url, events: ['SURVEY_PUBLISHED'] }).success;
+    expect(accepts('https://93.184.216.34/hook')).toBe(true);
+    [
+      'http://localhost:3000/hook',
+      'http://api.localhost/hook',
+      'http://127.0.0.1/hook',
+      'http://2130706433/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.0.0.5/hook',
+      'http://172.20.1.1/hook',
+      'http://192.168.1.10/hook',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://[fd00::1]/hook'
+    ].forEach(url => expect(accepts(url)).toBe(false));
+  });
+
+  it('classifies loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '0.0.0.0', '10.1.2.3', '100.64.0.1', '169.254.169.254', '172.31.255.255', '192.168.0.1', '224.0.0.1',
+      '::', '::1', 'fe80::1', 'fc00::1', '::ffff:10.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::7f00:1', 'not-an-ip']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+    ['8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(false));
+  });
+
+  it('resolves the host before calling it', async () => {
+    const lookup = (addresses: string[]) => async () => addresses.map(address => ({ address }));
+    expect(await checkWebhookDestination('https://hooks.example.com/x', lookup(['93.184.216.34']))).toBeNull();
+    expect(await checkWebhookDestination('https://hooks.example.com/x', lookup(['93.184.216.34', '10.0.0.8'])))
+      .toMatch(/private, loopback or link-local/);
+    expect(await checkWebhookDestination('https://metadata.example.com/x', lookup(['169.254.169.254'])))
+      .toMatch(/private, loopback or link-local/);
+    expect(await checkWebhookDestination('https://nowhere.example.com/x', async () => { throw new Error('ENOTFOUND'); }))
+      .toBe('Could not resolve nowhere.example.com');
+    expect(await checkWebhookDestination('http://127.0.0.1/x', lookup(['127.0.0.1']))).toMatch(/public address/);
+  });
+});